@@ -29,10 +29,16 @@ const Finance = lazy(() => import("./pages/finance/Finance"));
 const Invoices = lazy(() => import("./pages/finance/Invoices"));
 const Jobs = lazy(() => import("./pages/finance/Jobs"));
 const Clients = lazy(() => import("./pages/finance/Clients"));
+const BillApprovals = lazy(() => import("./pages/finance/BillApprovals"));
 
 // Settings pages - lazy loaded
 const ProfileSettings = lazy(() => import("./pages/settings/ProfileSettings"));
 const GeneralSettings = lazy(() => import("./pages/settings/GeneralSettings"));
+const TaskTemplateSettings = lazy(() => import("./pages/settings/TaskTemplateSettings"));
+const CompanySettings = lazy(() => import("./pages/settings/CompanySettings"));
+const SalesTaxSettings = lazy(() => import("./pages/settings/SalesTaxSettings"));
+const BillApprovalSettings = lazy(() => import("./pages/settings/BillApprovalSettings"));
+const ScheduledJobsSettings = lazy(() => import("./pages/settings/ScheduledJobsSettings"));
 
 // Admin pages - lazy loaded
 const ErrorLogsPage = lazy(() => import("./pages/admin/ErrorLogsPage"));
@@ -45,6 +51,7 @@ const CommissionsPage = lazy(() => import("./pages/crm/CommissionsPage"));
 // Public pages - lazy loaded
 const CustomerPortal = lazy(() => import("./pages/CustomerPortal"));
 const FieldUpload = lazy(() => import("./pages/FieldUpload"));
+const PayInvoice = lazy(() => import("./pages/PayInvoice"));
 
 // Loading spinner component
 function LoadingSpinner() {
@@ -80,6 +87,11 @@ function Router() {
           <FieldUpload />
         </Suspense>
       </Route>
+      <Route path="/pay">
+        <Suspense fallback={<LoadingSpinner />}>
+          <PayInvoice />
+        </Suspense>
+      </Route>
       
       {/* CRM routes - protected with Supabase Auth */}
       <Route path="/crm">
@@ -192,6 +204,15 @@ function Router() {
           </ErrorBoundary>
         </OwnerRoute>
       </Route>
+      <Route path="/bill-approvals">
+        <ProtectedRoute>
+          <ErrorBoundary>
+            <Suspense fallback={<LoadingSpinner />}>
+              <BillApprovals />
+            </Suspense>
+          </ErrorBoundary>
+        </ProtectedRoute>
+      </Route>
       <Route path="/admin/bonus-approvals">
         <OwnerRoute>
           <ErrorBoundary>
@@ -230,6 +251,41 @@ function Router() {
           </Suspense>
         </ProtectedRoute>
       </Route>
+      <Route path="/settings/company">
+        <OwnerRoute>
+          <Suspense fallback={<LoadingSpinner />}>
+            <CompanySettings />
+          </Suspense>
+        </OwnerRoute>
+      </Route>
+      <Route path="/settings/sales-tax">
+        <OwnerRoute>
+          <Suspense fallback={<LoadingSpinner />}>
+            <SalesTaxSettings />
+          </Suspense>
+        </OwnerRoute>
+      </Route>
+      <Route path="/settings/bill-approvals">
+        <OwnerRoute>
+          <Suspense fallback={<LoadingSpinner />}>
+            <BillApprovalSettings />
+          </Suspense>
+        </OwnerRoute>
+      </Route>
+      <Route path="/settings/task-templates">
+        <OwnerRoute>
+          <Suspense fallback={<LoadingSpinner />}>
+            <TaskTemplateSettings />
+          </Suspense>
+        </OwnerRoute>
+      </Route>
+      <Route path="/settings/scheduled-jobs">
+        <OwnerRoute>
+          <Suspense fallback={<LoadingSpinner />}>
+            <ScheduledJobsSettings />
+          </Suspense>
+        </OwnerRoute>
+      </Route>
       <Route path="/settings">
         <ProtectedRoute>
           <Suspense fallback={<LoadingSpinner />}>
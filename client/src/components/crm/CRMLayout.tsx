@@ -19,6 +19,7 @@ import {
   AlertCircle,
   BarChart3,
   Wallet,
+  ShieldCheck,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -92,6 +93,8 @@ export default function CRMLayout({ children }: CRMLayoutProps) {
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const queryClient = useQueryClient();
   const logoutMutation = trpc.auth.logout.useMutation();
+  const { data: billApprovalCount = 0 } = trpc.billApprovals.getQueueCount.useQuery();
+  const showBillApprovals = billApprovalCount > 0 || userProfile?.role === "owner" || userProfile?.role === "admin";
 
   // Fetch user profile from Supabase users table
   useEffect(() => {
@@ -274,6 +277,23 @@ export default function CRMLayout({ children }: CRMLayoutProps) {
                   </Button>
                 </Link>
               )}
+              {/* Bill Approvals Link - Owner/Admin, or anyone with bills waiting on them */}
+              {showBillApprovals && (
+                <Link href="/bill-approvals">
+                  <Button
+                    variant="ghost"
+                    className={`text-white/90 hover:text-white hover:bg-white/10 gap-1 ${
+                      isActive("/bill-approvals") ? "bg-white/20 text-white" : ""
+                    }`}
+                  >
+                    <ShieldCheck className="w-4 h-4" />
+                    Bill Approvals
+                    {billApprovalCount > 0 && (
+                      <span className="ml-1 px-1.5 rounded-full bg-amber-500 text-black text-xs font-bold">{billApprovalCount}</span>
+                    )}
+                  </Button>
+                </Link>
+              )}
               {/* Error Logs Link - Owner/Admin Only */}
               {(userProfile?.role === "owner" || userProfile?.role === "admin") && (
                 <Link href="/admin/error-logs">
@@ -479,6 +499,23 @@ export default function CRMLayout({ children }: CRMLayoutProps) {
                 </Link>
               )}
               
+              {/* Bill Approvals - Owner/Admin, or anyone with bills waiting on them */}
+              {showBillApprovals && (
+                <Link href="/bill-approvals" onClick={() => setMobileMenuOpen(false)}>
+                  <div
+                    className={`flex items-center gap-3 text-white hover:bg-slate-800 px-3 py-3 rounded min-h-11 text-base ${
+                      isActive("/bill-approvals") ? "bg-slate-800" : ""
+                    }`}
+                  >
+                    <ShieldCheck className="w-5 h-5" />
+                    Bill Approvals
+                    {billApprovalCount > 0 && (
+                      <span className="ml-auto px-2 rounded-full bg-amber-500 text-black text-xs font-bold">{billApprovalCount}</span>
+                    )}
+                  </div>
+                </Link>
+              )}
+              
               {/* Error Logs - Owner/Admin Only */}
               {(userProfile?.role === "owner" || userProfile?.role === "admin") && (
                 <Link href="/admin/error-logs" onClick={() => setMobileMenuOpen(false)}>
@@ -3,9 +3,35 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Shield, Edit2, Save, X } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Shield, Edit2, Save, X, CalendarClock } from "lucide-react";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
+import { format } from "date-fns";
+import type { ClaimStatus } from "@/types";
+
+const CLAIM_STATUSES: { value: ClaimStatus; label: string; className: string }[] = [
+  { value: "filed", label: "Filed", className: "bg-slate-600 text-slate-100" },
+  { value: "inspected", label: "Inspected", className: "bg-blue-500/20 text-blue-300" },
+  { value: "approved", label: "Approved", className: "bg-emerald-500/20 text-emerald-300" },
+  { value: "denied", label: "Denied", className: "bg-red-500/20 text-red-300" },
+  { value: "appealed", label: "Appealed", className: "bg-yellow-500/20 text-yellow-300" },
+];
+
+const NO_STATUS = "none";
+
+export interface ClaimDetails {
+  claimStatus?: ClaimStatus | null;
+  adjusterName?: string | null;
+  adjusterPhone?: string | null;
+  adjusterEmail?: string | null;
+  adjusterMeetingAt?: Date | string | null;
+  acvCheckAmount?: string | null;
+  acvCheckReceivedAt?: Date | string | null;
+  recoverableDepreciation?: string | null;
+  finalCheckAmount?: string | null;
+  finalCheckReceivedAt?: Date | string | null;
+}
 
 interface InsuranceInfoCardProps {
   jobId: number;
@@ -13,24 +39,51 @@ interface InsuranceInfoCardProps {
   policyNumber?: string | null;
   claimNumber?: string | null;
   deductible?: string | null;
+  claim?: ClaimDetails;
   onUpdate?: () => void;
 }
 
-export function InsuranceInfoCard({
-  jobId,
-  insuranceCarrier,
-  policyNumber,
-  claimNumber,
-  deductible,
-  onUpdate,
-}: InsuranceInfoCardProps) {
+const formatMoney = (value?: string | number | null) =>
+  `$${Number(value || 0).toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const toInputValue = (value: Date | string | null | undefined, pattern: string) =>
+  value ? format(new Date(value), pattern) : "";
+
+// Date-only inputs are sent at noon so the day doesn't shift across time zones
+const dateInputToISO = (value: string) => (value ? new Date(`${value}T12:00:00`).toISOString() : null);
+
+const buildFormData = (props: InsuranceInfoCardProps) => ({
+  insuranceCarrier: props.insuranceCarrier || "",
+  policyNumber: props.policyNumber || "",
+  claimNumber: props.claimNumber || "",
+  deductible: props.deductible || "",
+  claimStatus: (props.claim?.claimStatus || NO_STATUS) as ClaimStatus | typeof NO_STATUS,
+  adjusterName: props.claim?.adjusterName || "",
+  adjusterPhone: props.claim?.adjusterPhone || "",
+  adjusterEmail: props.claim?.adjusterEmail || "",
+  adjusterMeetingAt: toInputValue(props.claim?.adjusterMeetingAt, "yyyy-MM-dd'T'HH:mm"),
+  acvCheckAmount: props.claim?.acvCheckAmount || "",
+  acvCheckReceivedAt: toInputValue(props.claim?.acvCheckReceivedAt, "yyyy-MM-dd"),
+  recoverableDepreciation: props.claim?.recoverableDepreciation || "",
+  finalCheckAmount: props.claim?.finalCheckAmount || "",
+  finalCheckReceivedAt: toInputValue(props.claim?.finalCheckReceivedAt, "yyyy-MM-dd"),
+});
+
+export function InsuranceInfoCard(props: InsuranceInfoCardProps) {
+  const {
+    jobId,
+    insuranceCarrier,
+    policyNumber,
+    claimNumber,
+    deductible,
+    claim = {},
+    onUpdate,
+  } = props;
   const [isEditing, setIsEditing] = useState(false);
-  const [formData, setFormData] = useState({
-    insuranceCarrier: insuranceCarrier || "",
-    policyNumber: policyNumber || "",
-    claimNumber: claimNumber || "",
-    deductible: deductible || "",
-  });
+  const [formData, setFormData] = useState(() => buildFormData(props));
 
   const utils = trpc.useUtils();
 
@@ -46,26 +99,94 @@ export function InsuranceInfoCard({
     },
   });
 
+  const parseAmount = (value: string) => (value ? parseFloat(value) : null);
+
   const handleSave = () => {
     updateInsurance.mutate({
       id: jobId,
       insuranceCarrier: formData.insuranceCarrier.trim() || null,
       policyNumber: formData.policyNumber.trim() || null,
       claimNumber: formData.claimNumber.trim() || null,
-      deductible: formData.deductible ? parseFloat(formData.deductible) : null,
+      deductible: parseAmount(formData.deductible),
+      claimStatus: formData.claimStatus === NO_STATUS ? null : formData.claimStatus,
+      adjusterName: formData.adjusterName.trim() || null,
+      adjusterPhone: formData.adjusterPhone.trim() || null,
+      adjusterEmail: formData.adjusterEmail.trim() || null,
+      adjusterMeetingAt: formData.adjusterMeetingAt ? new Date(formData.adjusterMeetingAt).toISOString() : null,
+      acvCheckAmount: parseAmount(formData.acvCheckAmount),
+      acvCheckReceivedAt: dateInputToISO(formData.acvCheckReceivedAt),
+      recoverableDepreciation: parseAmount(formData.recoverableDepreciation),
+      finalCheckAmount: parseAmount(formData.finalCheckAmount),
+      finalCheckReceivedAt: dateInputToISO(formData.finalCheckReceivedAt),
     });
   };
 
   const handleCancel = () => {
-    setFormData({
-      insuranceCarrier: insuranceCarrier || "",
-      policyNumber: policyNumber || "",
-      claimNumber: claimNumber || "",
-      deductible: deductible || "",
-    });
+    setFormData(buildFormData(props));
     setIsEditing(false);
   };
 
+  const setField = (key: keyof typeof formData) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setFormData({ ...formData, [key]: e.target.value });
+
+  const statusConfig = CLAIM_STATUSES.find(status => status.value === claim.claimStatus);
+  const depreciationOwed = Math.max(0, Number(claim.recoverableDepreciation || 0) - Number(claim.finalCheckAmount || 0));
+
+  const notSet = <span className="text-slate-500">Not set</span>;
+
+  const renderAmountInput = (key: "deductible" | "acvCheckAmount" | "recoverableDepreciation" | "finalCheckAmount", label: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={key} className="text-slate-300">
+        {label}
+      </Label>
+      <div className="relative">
+        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400">
+          $
+        </span>
+        <Input
+          id={key}
+          type="number"
+          step="0.01"
+          value={formData[key]}
+          onChange={setField(key)}
+          placeholder="0.00"
+          className="bg-slate-700 border-slate-600 text-white pl-7"
+        />
+      </div>
+    </div>
+  );
+
+  const renderTextInput = (key: "insuranceCarrier" | "policyNumber" | "claimNumber" | "adjusterName" | "adjusterPhone" | "adjusterEmail", label: string, placeholder: string, type = "text") => (
+    <div className="space-y-2">
+      <Label htmlFor={key} className="text-slate-300">
+        {label}
+      </Label>
+      <Input
+        id={key}
+        type={type}
+        value={formData[key]}
+        onChange={setField(key)}
+        placeholder={placeholder}
+        className="bg-slate-700 border-slate-600 text-white"
+      />
+    </div>
+  );
+
+  const renderDateInput = (key: "acvCheckReceivedAt" | "finalCheckReceivedAt", label: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={key} className="text-slate-300">
+        {label}
+      </Label>
+      <Input
+        id={key}
+        type="date"
+        value={formData[key]}
+        onChange={setField(key)}
+        className="bg-slate-700 border-slate-600 text-white"
+      />
+    </div>
+  );
+
   return (
     <Card className="bg-slate-800 border-slate-700">
       <CardHeader>
@@ -116,115 +237,158 @@ export function InsuranceInfoCard({
       <CardContent className="space-y-4">
         {isEditing ? (
           <>
-            {/* Insurance Carrier */}
-            <div className="space-y-2">
-              <Label htmlFor="insuranceCarrier" className="text-slate-300">
-                Insurance Carrier
-              </Label>
-              <Input
-                id="insuranceCarrier"
-                value={formData.insuranceCarrier}
-                onChange={(e) =>
-                  setFormData({ ...formData, insuranceCarrier: e.target.value })
-                }
-                placeholder="e.g., State Farm, Allstate, USAA"
-                className="bg-slate-700 border-slate-600 text-white"
-              />
-            </div>
+            {renderTextInput("insuranceCarrier", "Insurance Carrier", "e.g., State Farm, Allstate, USAA")}
+            {renderTextInput("policyNumber", "Policy Number", "Policy #")}
+            {renderTextInput("claimNumber", "Claim Number", "Claim #")}
+            {renderAmountInput("deductible", "Deductible Amount")}
 
-            {/* Policy Number */}
-            <div className="space-y-2">
-              <Label htmlFor="policyNumber" className="text-slate-300">
-                Policy Number
-              </Label>
-              <Input
-                id="policyNumber"
-                value={formData.policyNumber}
-                onChange={(e) =>
-                  setFormData({ ...formData, policyNumber: e.target.value })
-                }
-                placeholder="Policy #"
-                className="bg-slate-700 border-slate-600 text-white"
-              />
-            </div>
+            <div className="border-t border-slate-700 pt-4 space-y-4">
+              <p className="text-sm font-semibold text-white">Claim Tracking</p>
 
-            {/* Claim Number */}
-            <div className="space-y-2">
-              <Label htmlFor="claimNumber" className="text-slate-300">
-                Claim Number
-              </Label>
-              <Input
-                id="claimNumber"
-                value={formData.claimNumber}
-                onChange={(e) =>
-                  setFormData({ ...formData, claimNumber: e.target.value })
-                }
-                placeholder="Claim #"
-                className="bg-slate-700 border-slate-600 text-white"
-              />
-            </div>
+              {/* Claim Status */}
+              <div className="space-y-2">
+                <Label className="text-slate-300">Claim Status</Label>
+                <Select
+                  value={formData.claimStatus}
+                  onValueChange={(value) => setFormData({ ...formData, claimStatus: value as ClaimStatus | typeof NO_STATUS })}
+                >
+                  <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-700 border-slate-600">
+                    <SelectItem value={NO_STATUS}>Not set</SelectItem>
+                    {CLAIM_STATUSES.map(status => (
+                      <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {renderTextInput("adjusterName", "Adjuster Name", "Adjuster")}
+              <div className="grid grid-cols-2 gap-3">
+                {renderTextInput("adjusterPhone", "Adjuster Phone", "Phone", "tel")}
+                {renderTextInput("adjusterEmail", "Adjuster Email", "Email", "email")}
+              </div>
 
-            {/* Deductible */}
-            <div className="space-y-2">
-              <Label htmlFor="deductible" className="text-slate-300">
-                Deductible Amount
-              </Label>
-              <div className="relative">
-                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400">
-                  $
-                </span>
+              {/* Adjuster Meeting */}
+              <div className="space-y-2">
+                <Label htmlFor="adjusterMeetingAt" className="text-slate-300">
+                  Adjuster Meeting
+                </Label>
                 <Input
-                  id="deductible"
-                  type="number"
-                  step="0.01"
-                  value={formData.deductible}
-                  onChange={(e) =>
-                    setFormData({ ...formData, deductible: e.target.value })
-                  }
-                  placeholder="0.00"
-                  className="bg-slate-700 border-slate-600 text-white pl-7"
+                  id="adjusterMeetingAt"
+                  type="datetime-local"
+                  value={formData.adjusterMeetingAt}
+                  onChange={setField("adjusterMeetingAt")}
+                  className="bg-slate-700 border-slate-600 text-white"
                 />
+                <p className="text-xs text-slate-500">Added to the calendar for the assigned rep</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                {renderAmountInput("acvCheckAmount", "First Check (ACV)")}
+                {renderDateInput("acvCheckReceivedAt", "Received")}
+              </div>
+              {renderAmountInput("recoverableDepreciation", "Recoverable Depreciation")}
+              <div className="grid grid-cols-2 gap-3">
+                {renderAmountInput("finalCheckAmount", "Final Check")}
+                {renderDateInput("finalCheckReceivedAt", "Received")}
               </div>
             </div>
           </>
         ) : (
-          <div className="grid grid-cols-2 gap-4">
-            {/* Display Mode */}
-            <div>
-              <p className="text-sm text-slate-400 mb-1">Insurance Carrier</p>
-              <p className="text-white font-medium">
-                {insuranceCarrier || <span className="text-slate-500">Not set</span>}
-              </p>
-            </div>
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              {/* Display Mode */}
+              <div>
+                <p className="text-sm text-slate-400 mb-1">Insurance Carrier</p>
+                <p className="text-white font-medium">{insuranceCarrier || notSet}</p>
+              </div>
 
-            <div>
-              <p className="text-sm text-slate-400 mb-1">Policy Number</p>
-              <p className="text-white font-medium">
-                {policyNumber || <span className="text-slate-500">Not set</span>}
-              </p>
-            </div>
+              <div>
+                <p className="text-sm text-slate-400 mb-1">Policy Number</p>
+                <p className="text-white font-medium">{policyNumber || notSet}</p>
+              </div>
 
-            <div>
-              <p className="text-sm text-slate-400 mb-1">Claim Number</p>
-              <p className="text-white font-medium">
-                {claimNumber || <span className="text-slate-500">Not set</span>}
-              </p>
+              <div>
+                <p className="text-sm text-slate-400 mb-1">Claim Number</p>
+                <p className="text-white font-medium">{claimNumber || notSet}</p>
+              </div>
+
+              <div>
+                <p className="text-sm text-slate-400 mb-1">Deductible</p>
+                <p className="text-white font-medium">{deductible ? formatMoney(deductible) : notSet}</p>
+              </div>
             </div>
 
-            <div>
-              <p className="text-sm text-slate-400 mb-1">Deductible</p>
-              <p className="text-white font-medium">
-                {deductible ? (
-                  `$${parseFloat(deductible).toLocaleString('en-US', {
-                    minimumFractionDigits: 2,
-                    maximumFractionDigits: 2,
-                  })}`
-                ) : (
-                  <span className="text-slate-500">Not set</span>
+            <div className="border-t border-slate-700 pt-4 grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm text-slate-400 mb-1">Claim Status</p>
+                {statusConfig ? (
+                  <span className={`text-xs px-2 py-1 rounded ${statusConfig.className}`}>{statusConfig.label}</span>
+                ) : notSet}
+              </div>
+
+              <div>
+                <p className="text-sm text-slate-400 mb-1">Adjuster</p>
+                {claim.adjusterName ? (
+                  <div>
+                    <p className="text-white font-medium">{claim.adjusterName}</p>
+                    {claim.adjusterPhone && (
+                      <a href={`tel:${claim.adjusterPhone}`} className="block text-xs text-[#00d4aa] hover:underline">{claim.adjusterPhone}</a>
+                    )}
+                    {claim.adjusterEmail && (
+                      <a href={`mailto:${claim.adjusterEmail}`} className="block text-xs text-[#00d4aa] hover:underline">{claim.adjusterEmail}</a>
+                    )}
+                  </div>
+                ) : notSet}
+              </div>
+
+              <div className="col-span-2">
+                <p className="text-sm text-slate-400 mb-1">Adjuster Meeting</p>
+                {claim.adjusterMeetingAt ? (
+                  <p className="text-white font-medium flex items-center gap-2">
+                    <CalendarClock className="w-4 h-4 text-blue-400" />
+                    {format(new Date(claim.adjusterMeetingAt), "MMM d, yyyy 'at' h:mm a")}
+                  </p>
+                ) : notSet}
+              </div>
+
+              <div>
+                <p className="text-sm text-slate-400 mb-1">First Check (ACV)</p>
+                <p className="text-white font-medium">
+                  {claim.acvCheckAmount ? formatMoney(claim.acvCheckAmount) : notSet}
+                </p>
+                {claim.acvCheckReceivedAt && (
+                  <p className="text-xs text-slate-500">Received {format(new Date(claim.acvCheckReceivedAt), "MMM d, yyyy")}</p>
+                )}
+              </div>
+
+              <div>
+                <p className="text-sm text-slate-400 mb-1">Final Check</p>
+                <p className="text-white font-medium">
+                  {claim.finalCheckAmount ? formatMoney(claim.finalCheckAmount) : notSet}
+                </p>
+                {claim.finalCheckReceivedAt && (
+                  <p className="text-xs text-slate-500">Received {format(new Date(claim.finalCheckReceivedAt), "MMM d, yyyy")}</p>
                 )}
-              </p>
+              </div>
+
+              <div>
+                <p className="text-sm text-slate-400 mb-1">Recoverable Depreciation</p>
+                <p className="text-white font-medium">
+                  {claim.recoverableDepreciation ? formatMoney(claim.recoverableDepreciation) : notSet}
+                </p>
+              </div>
+
+              <div>
+                <p className="text-sm text-slate-400 mb-1">Depreciation Owed</p>
+                <p className={`font-medium ${depreciationOwed > 0 ? "text-yellow-400" : "text-emerald-400"}`}>
+                  {formatMoney(depreciationOwed)}
+                </p>
+              </div>
             </div>
-          </div>
+          </>
         )}
       </CardContent>
     </Card>
@@ -75,7 +75,10 @@ function SendLienRightsAlertButton() {
 }
 
 export function ActionableWidgets({ stats, lienRightsJobs, todayDate, appointments }: ActionableWidgetsProps) {
+  const { data: overdueTasks } = trpc.tasks.getOverdue.useQuery();
+
   const getActionCount = (key: string) => {
+    if (key === "overdue") return overdueTasks?.length || 0;
     if (!stats) return 0;
     switch (key) {
       case "unassigned": return stats.leadCount || 0;
@@ -152,6 +155,37 @@ export function ActionableWidgets({ stats, lienRightsJobs, todayDate, appointmen
         </CardContent>
       </Card>
 
+      {/* Overdue Tasks */}
+      {overdueTasks && overdueTasks.length > 0 && (
+        <Card className="bg-gradient-to-br from-gray-900/90 to-gray-800/90 backdrop-blur-md border border-red-500/30 shadow-[0_0_15px_rgba(0,0,0,0.2)]">
+          <CardHeader className="pb-4 border-b border-gray-800/50">
+            <CardTitle className="text-lg font-bold text-white flex items-center gap-2">
+              <Clock className="w-5 h-5 text-red-400" />
+              Overdue Tasks
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-6">
+            <div className="space-y-3">
+              {overdueTasks.slice(0, 5).map((task) => (
+                <Link key={task.id} href={`/crm/job/${task.jobId}`}>
+                  <div className="flex items-center gap-3 p-3 rounded-lg border-l-[3px] border-l-red-500 bg-gray-800/50 hover:bg-gray-800 cursor-pointer transition-colors group shadow-sm">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-white truncate group-hover:text-red-300 transition-colors">{task.title}</p>
+                      <p className="text-xs text-gray-500 mt-1 truncate group-hover:text-gray-400">
+                        {task.jobName} • {task.assigneeName || "Unassigned"}
+                      </p>
+                    </div>
+                    <span className="text-xs font-medium text-red-400 whitespace-nowrap">
+                      Due {new Date(task.dueDate!).toLocaleDateString()}
+                    </span>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Lien Rights Summary */}
       <Card className="bg-gradient-to-br from-gray-900/90 to-gray-800/90 backdrop-blur-md border border-gray-700/50 shadow-[0_0_15px_rgba(0,0,0,0.2)]">
         <CardHeader className="pb-4 border-b border-gray-800/50">
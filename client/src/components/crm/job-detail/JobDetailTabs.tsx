@@ -22,6 +22,7 @@ const TABS: Tab[] = [
   { id: "production_report", label: "Production Report" },
   { id: "financials", label: "Financials" },
   { id: "payments", label: "Payments" },
+  { id: "tasks", label: "Tasks" },
   { id: "documents", label: "Documents" },
   { id: "photos", label: "Photos" },
   { id: "messages", label: "Messages" },
@@ -1,7 +1,7 @@
 /**
  * JobFinancialsTab Component
  * Main financial management tab for jobs
- * Integrates: FinancialLedger, ChangeOrderManager, InvoiceManager
+ * Integrates: FinancialLedger, ChangeOrderManager, BillingScheduleCard, InvoiceManager, CreditMemoCard, JobCostingCard
  */
 
 import { useState } from "react";
@@ -9,6 +9,9 @@ import { FinancialSummaryCard } from "./financials/FinancialSummaryCard";
 import { FinancialLedger } from "./financials/FinancialLedger";
 import { ChangeOrderManager } from "./financials/ChangeOrderManager";
 import { InvoiceManager } from "./financials/InvoiceManager";
+import { CreditMemoCard } from "./financials/CreditMemoCard";
+import { BillingScheduleCard } from "./financials/BillingScheduleCard";
+import { JobCostingCard } from "./financials/JobCostingCard";
 import type { Job } from "@/types";
 
 interface JobFinancialsTabProps {
@@ -45,12 +48,21 @@ export function JobFinancialsTab({ job, jobId, canEdit, jobDealType }: JobFinanc
         />
       )}
 
-      {/* 3. Invoice Manager - The Billing */}
+      {/* 3. Billing Schedule - Milestones that draft invoices */}
+      <BillingScheduleCard jobId={jobId} canEdit={canEdit} />
+
+      {/* 4. Invoice Manager - The Billing */}
       <InvoiceManager 
         jobId={jobId}
         jobDealType={job.dealType || "retail"}
         preSelectedChangeOrderId={preSelectedChangeOrderId}
       />
+
+      {/* 5. Credit Memos - Corrections to what was billed */}
+      <CreditMemoCard jobId={jobId} canEdit={canEdit} />
+
+      {/* 6. Job Costing - Costs and margin */}
+      <JobCostingCard jobId={jobId} canEdit={canEdit} />
     </div>
   );
 }
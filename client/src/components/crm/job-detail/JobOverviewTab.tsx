@@ -2,6 +2,7 @@ import { CustomerCard } from "./overview/CustomerCard";
 import { JobPipeline } from "./overview/JobPipeline";
 import { PropertyCard } from "./overview/PropertyCard";
 import { QuickActions } from "./overview/QuickActions";
+import { PortalAccessCard } from "./overview/PortalAccessCard";
 import { InsuranceInfoCard } from "../InsuranceInfoCard";
 import { ContractPriceCard } from "./overview/ContractPriceCard";
 import { TotalJobValueCard } from "./overview/TotalJobValueCard";
@@ -69,6 +70,9 @@ export function JobOverviewTab({
         {/* Quick Actions */}
         <div className="space-y-6">
           <QuickActions job={job} />
+
+          {/* Customer Portal Access */}
+          <PortalAccessCard job={job} canEdit={canEdit} />
           
           {/* Insurance Card (if applicable) */}
           {job.dealType === 'insurance' && (
@@ -78,6 +82,18 @@ export function JobOverviewTab({
               policyNumber={job.policyNumber}
               claimNumber={job.claimNumber}
               deductible={job.deductible}
+              claim={{
+                claimStatus: job.claimStatus,
+                adjusterName: job.adjusterName,
+                adjusterPhone: job.adjusterPhone,
+                adjusterEmail: job.adjusterEmail,
+                adjusterMeetingAt: job.adjusterMeetingAt,
+                acvCheckAmount: job.acvCheckAmount,
+                acvCheckReceivedAt: job.acvCheckReceivedAt,
+                recoverableDepreciation: job.recoverableDepreciation,
+                finalCheckAmount: job.finalCheckAmount,
+                finalCheckReceivedAt: job.finalCheckReceivedAt,
+              }}
             />
           )}
         </div>
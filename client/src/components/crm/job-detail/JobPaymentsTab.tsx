@@ -1,6 +1,6 @@
 /**
  * JobPaymentsTab Component
- * Manual payment recording for jobs (checks, cash, wire transfers)
+ * Manual payment recording for jobs (checks, cash, wire transfers) and refunds against them
  */
 
 import { useState } from "react";
@@ -12,7 +12,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { DollarSign, Plus, Trash2, Calendar, CreditCard } from "lucide-react";
+import { DollarSign, Plus, Trash2, Calendar, CreditCard, Undo2 } from "lucide-react";
 import { toast } from "sonner";
 import { format } from "date-fns";
 
@@ -27,17 +27,34 @@ export function JobPaymentsTab({ jobId, canEdit }: JobPaymentsTabProps) {
   const [paymentDate, setPaymentDate] = useState(new Date().toISOString().split('T')[0]);
   const [paymentMethod, setPaymentMethod] = useState<"check" | "cash" | "wire" | "credit_card" | "other">("check");
   const [checkNumber, setCheckNumber] = useState("");
+  const [invoiceId, setInvoiceId] = useState("none");
   const [notes, setNotes] = useState("");
+  const [refundTarget, setRefundTarget] = useState<{ id: number; refundable: number; viaStripe: boolean } | null>(null);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundMethod, setRefundMethod] = useState<"check" | "cash" | "wire" | "credit_card" | "other">("check");
+  const [refundReason, setRefundReason] = useState("");
+
+  const utils = trpc.useUtils();
 
   // Fetch payments
   const { data: payments, refetch } = trpc.payments.getJobPayments.useQuery({ jobId });
   const { data: summary } = trpc.payments.getPaymentSummary.useQuery({ jobId });
+  const { data: refunds = [] } = trpc.payments.getJobRefunds.useQuery({ jobId });
+  const { data: invoices = [] } = trpc.invoices.getJobInvoices.useQuery({ jobId });
+
+  // Sent invoices with something still owed on them
+  const openInvoices = invoices
+    .filter(inv => inv.status === "sent" || inv.status === "overdue")
+    .map(inv => ({ ...inv, open: inv.totalAmount - inv.amountPaid - inv.creditedAmount }))
+    .filter(inv => inv.open > 0);
 
   // Mutations
   const recordPayment = trpc.payments.recordPayment.useMutation({
     onSuccess: () => {
       toast.success("Payment recorded successfully");
       refetch();
+      utils.invoices.getJobInvoices.invalidate({ jobId });
+      utils.payments.getJobBalance.invalidate({ jobId });
       setShowAddDialog(false);
       resetForm();
     },
@@ -56,11 +73,54 @@ export function JobPaymentsTab({ jobId, canEdit }: JobPaymentsTabProps) {
     },
   });
 
+  const refundPayment = trpc.payments.refundPayment.useMutation({
+    onSuccess: () => {
+      toast.success(refundTarget?.viaStripe ? "Refund sent to the customer's card" : "Refund recorded");
+      refetch();
+      utils.payments.getPaymentSummary.invalidate({ jobId });
+      utils.payments.getJobRefunds.invalidate({ jobId });
+      utils.payments.getJobBalance.invalidate({ jobId });
+      setRefundTarget(null);
+    },
+    onError: (error) => {
+      toast.error(`Failed to refund payment: ${error.message}`);
+    },
+  });
+
+  const openRefund = (payment: { id: number; amount: number; refundedAmount: number; paymentMethod: typeof refundMethod; stripePaymentIntentId: string | null }) => {
+    const refundable = payment.amount - payment.refundedAmount;
+    setRefundTarget({ id: payment.id, refundable, viaStripe: !!payment.stripePaymentIntentId });
+    setRefundAmount((refundable / 100).toFixed(2));
+    setRefundMethod(payment.stripePaymentIntentId ? "credit_card" : payment.paymentMethod);
+    setRefundReason("");
+  };
+
+  const handleRefund = () => {
+    if (!refundTarget) return;
+    const amountNum = parseFloat(refundAmount);
+    if (isNaN(amountNum) || amountNum <= 0 || Math.round(amountNum * 100) > refundTarget.refundable) {
+      toast.error(`Enter an amount up to $${(refundTarget.refundable / 100).toFixed(2)}`);
+      return;
+    }
+    if (!refundReason.trim()) {
+      toast.error("Please enter a reason for the refund");
+      return;
+    }
+
+    refundPayment.mutate({
+      paymentId: refundTarget.id,
+      amount: amountNum,
+      method: refundMethod,
+      reason: refundReason.trim(),
+    });
+  };
+
   const resetForm = () => {
     setAmount("");
     setPaymentDate(new Date().toISOString().split('T')[0]);
     setPaymentMethod("check");
     setCheckNumber("");
+    setInvoiceId("none");
     setNotes("");
   };
 
@@ -73,6 +133,7 @@ export function JobPaymentsTab({ jobId, canEdit }: JobPaymentsTabProps) {
 
     recordPayment.mutate({
       jobId,
+      invoiceId: invoiceId === "none" ? undefined : parseInt(invoiceId),
       amount: amountNum,
       paymentDate,
       paymentMethod,
@@ -151,6 +212,22 @@ export function JobPaymentsTab({ jobId, canEdit }: JobPaymentsTabProps) {
                         className="bg-slate-700 border-slate-600 text-white"
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label>Invoice</Label>
+                      <Select value={invoiceId} onValueChange={setInvoiceId}>
+                        <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-700 border-slate-600">
+                          <SelectItem value="none">No specific invoice</SelectItem>
+                          {openInvoices.map(inv => (
+                            <SelectItem key={inv.id} value={String(inv.id)}>
+                              {inv.invoiceNumber} (${(inv.open / 100).toFixed(2)} open)
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                     <div className="space-y-2">
                       <Label htmlFor="paymentDate">Payment Date</Label>
                       <Input
@@ -263,21 +340,42 @@ export function JobPaymentsTab({ jobId, canEdit }: JobPaymentsTabProps) {
                       {payment.notes && (
                         <p className="text-sm text-slate-400 mt-1">{payment.notes}</p>
                       )}
+                      {refunds.filter(refund => refund.paymentId === payment.id).map(refund => (
+                        <p key={refund.id} className="text-sm text-orange-400 mt-1">
+                          Refunded ${(refund.amount / 100).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                          {' '}on {format(new Date(refund.refundDate), 'MMM d, yyyy')}
+                          {' '}({refund.stripeRefundId ? "Stripe" : getPaymentMethodLabel(refund.method)})
+                          {refund.reason && <span className="text-slate-400"> · {refund.reason}</span>}
+                        </p>
+                      ))}
                     </div>
                   </div>
                   {canEdit && (
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => {
-                        if (confirm("Are you sure you want to delete this payment?")) {
-                          deletePayment.mutate({ paymentId: payment.id });
-                        }
-                      }}
-                      className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
+                    <div className="flex items-center gap-1">
+                      {payment.amount > payment.refundedAmount && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openRefund(payment)}
+                          className="text-slate-300 hover:text-white hover:bg-slate-700"
+                        >
+                          <Undo2 className="w-4 h-4 mr-1" />
+                          Refund
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          if (confirm("Are you sure you want to delete this payment?")) {
+                            deletePayment.mutate({ paymentId: payment.id });
+                          }
+                        }}
+                        className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
                   )}
                 </div>
               ))}
@@ -285,6 +383,79 @@ export function JobPaymentsTab({ jobId, canEdit }: JobPaymentsTabProps) {
           )}
         </CardContent>
       </Card>
+
+      {/* Refund Dialog */}
+      <Dialog open={!!refundTarget} onOpenChange={(open) => !open && setRefundTarget(null)}>
+        <DialogContent className="bg-slate-800 border-slate-700 text-white">
+          <DialogHeader>
+            <DialogTitle>Refund Payment</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              {refundTarget?.viaStripe
+                ? "This payment was made online; the refund goes back to the customer's card through Stripe."
+                : "Record money returned to the customer for this payment."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="refundAmount">
+                Amount ($){refundTarget && <span className="text-slate-500"> · up to ${(refundTarget.refundable / 100).toFixed(2)}</span>}
+              </Label>
+              <Input
+                id="refundAmount"
+                type="number"
+                step="0.01"
+                value={refundAmount}
+                onChange={(e) => setRefundAmount(e.target.value)}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+            {!refundTarget?.viaStripe && (
+              <div className="space-y-2">
+                <Label htmlFor="refundMethod">Refunded By</Label>
+                <Select value={refundMethod} onValueChange={(value: any) => setRefundMethod(value)}>
+                  <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-700 border-slate-600">
+                    <SelectItem value="check">Check</SelectItem>
+                    <SelectItem value="cash">Cash</SelectItem>
+                    <SelectItem value="wire">Wire Transfer</SelectItem>
+                    <SelectItem value="credit_card">Credit Card</SelectItem>
+                    <SelectItem value="other">Other</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="refundReason">Reason</Label>
+              <Textarea
+                id="refundReason"
+                placeholder="e.g. Overpayment on final invoice"
+                value={refundReason}
+                onChange={(e) => setRefundReason(e.target.value)}
+                className="bg-slate-700 border-slate-600 text-white"
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setRefundTarget(null)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRefund}
+              disabled={refundPayment.isPending}
+              className="bg-[#00d4aa] hover:bg-[#00b894] text-black"
+            >
+              {refundPayment.isPending ? "Refunding..." : "Refund"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
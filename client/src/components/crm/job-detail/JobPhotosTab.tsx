@@ -1,6 +1,6 @@
 import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Upload, Link2, Image, Clock, MapPin, Maximize2, X, ChevronLeft, ChevronRight, ExternalLink, Download, Trash2, Sparkles, CheckCircle2 } from "lucide-react";
+import { Upload, Link2, Image, Clock, MapPin, Maximize2, X, ChevronLeft, ChevronRight, ExternalLink, Download, Trash2, Sparkles, CheckCircle2, Eye, EyeOff } from "lucide-react";
 import { toast } from "sonner";
 import { trpc } from "@/lib/trpc";
 import { Progress } from "@/components/ui/progress";
@@ -17,6 +17,7 @@ interface Photo {
   aiTags?: string[];
   aiSeverity?: 'Low' | 'Medium' | 'High';
   aiAnalyzed?: boolean;
+  customerVisible?: boolean;
 }
 
 interface JobPhotosTabProps {
@@ -28,6 +29,7 @@ interface JobPhotosTabProps {
   isOwner: boolean;
   onFileUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onDeletePhoto: (photoId: number) => void;
+  onToggleCustomerVisible: (photoId: number, customerVisible: boolean) => void;
 }
 
 export function JobPhotosTab({
@@ -39,6 +41,7 @@ export function JobPhotosTab({
   isOwner,
   onFileUpload,
   onDeletePhoto,
+  onToggleCustomerVisible,
 }: JobPhotosTabProps) {
   const photoInputRef = useRef<HTMLInputElement>(null);
   const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
@@ -254,6 +257,13 @@ export function JobPhotosTab({
                     />
                   </div>
 
+                  {/* Customer Portal Badge */}
+                  {photo.customerVisible && (
+                    <div className="absolute bottom-2 right-2 z-10 w-6 h-6 rounded-full bg-[#00d4aa] text-black flex items-center justify-center" title="Visible in customer portal">
+                      <Eye className="w-3.5 h-3.5" />
+                    </div>
+                  )}
+
                   {/* AI Tags Badge */}
                   {(analysis.aiTags || analysis.tags) && (
                     <div className="absolute top-2 right-2 z-10">
@@ -296,6 +306,15 @@ export function JobPhotosTab({
                     )}
                   </div>
                   <div className="absolute top-2 right-2 flex gap-1">
+                    {canEdit && (
+                      <button 
+                        className="w-8 h-8 rounded-full bg-white/20 backdrop-blur-sm flex items-center justify-center text-white hover:bg-white/30 transition-colors"
+                        title={photo.customerVisible ? "Hide from customer portal" : "Share in customer portal"}
+                        onClick={(e) => { e.stopPropagation(); onToggleCustomerVisible(photo.id, !photo.customerVisible); }}
+                      >
+                        {photo.customerVisible ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                      </button>
+                    )}
                     <button 
                       className="w-8 h-8 rounded-full bg-white/20 backdrop-blur-sm flex items-center justify-center text-white hover:bg-white/30 transition-colors"
                       onClick={(e) => { e.stopPropagation(); setLightboxIndex(index); }}
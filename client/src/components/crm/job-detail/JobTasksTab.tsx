@@ -0,0 +1,317 @@
+/**
+ * JobTasksTab Component
+ * Punch list and follow-up tasks for a job
+ */
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle2, Circle, ClipboardList, Plus, RotateCcw, Calendar, User } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+
+interface JobTasksTabProps {
+  jobId: number;
+  canEdit: boolean;
+  searchQuery?: string;
+}
+
+type TaskPriority = "low" | "medium" | "high" | "urgent";
+
+const PRIORITY_COLORS: Record<TaskPriority, string> = {
+  low: "bg-slate-600 text-slate-200",
+  medium: "bg-blue-500/20 text-blue-300",
+  high: "bg-orange-500/20 text-orange-300",
+  urgent: "bg-red-500/20 text-red-300",
+};
+
+const UNASSIGNED = "unassigned";
+
+export function JobTasksTab({ jobId, canEdit, searchQuery = "" }: JobTasksTabProps) {
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [assignedTo, setAssignedTo] = useState<string>(UNASSIGNED);
+  const [priority, setPriority] = useState<TaskPriority>("medium");
+  const [dueDate, setDueDate] = useState("");
+
+  const utils = trpc.useUtils();
+  const { data: tasks, isLoading } = trpc.tasks.getJobTasks.useQuery({ jobId });
+  const { data: teamMembers } = trpc.crm.getAllUsers.useQuery();
+
+  const invalidate = () => {
+    utils.tasks.getJobTasks.invalidate({ jobId });
+    utils.tasks.getOverdue.invalidate();
+    utils.tasks.getMyTasks.invalidate();
+  };
+
+  const createTask = trpc.tasks.create.useMutation({
+    onSuccess: () => {
+      toast.success("Task added");
+      invalidate();
+      setShowAddDialog(false);
+      resetForm();
+    },
+    onError: (error) => toast.error(`Failed to add task: ${error.message}`),
+  });
+
+  const assignTask = trpc.tasks.assign.useMutation({
+    onSuccess: invalidate,
+    onError: (error) => toast.error(`Failed to assign task: ${error.message}`),
+  });
+
+  const completeTask = trpc.tasks.complete.useMutation({
+    onSuccess: invalidate,
+    onError: (error) => toast.error(`Failed to complete task: ${error.message}`),
+  });
+
+  const reopenTask = trpc.tasks.reopen.useMutation({
+    onSuccess: invalidate,
+    onError: (error) => toast.error(`Failed to reopen task: ${error.message}`),
+  });
+
+  const resetForm = () => {
+    setTitle("");
+    setDescription("");
+    setAssignedTo(UNASSIGNED);
+    setPriority("medium");
+    setDueDate("");
+  };
+
+  const handleSubmit = () => {
+    if (!title.trim()) {
+      toast.error("Please enter a task title");
+      return;
+    }
+
+    createTask.mutate({
+      jobId,
+      title: title.trim(),
+      description: description || undefined,
+      assignedTo: assignedTo === UNASSIGNED ? null : parseInt(assignedTo),
+      priority,
+      dueDate: dueDate || null,
+    });
+  };
+
+  const query = searchQuery.toLowerCase();
+  const filteredTasks = (tasks || []).filter(task =>
+    !query ||
+    task.title.toLowerCase().includes(query) ||
+    task.description?.toLowerCase().includes(query) ||
+    task.assigneeName?.toLowerCase().includes(query)
+  );
+  const openTasks = filteredTasks.filter(task => task.status === "pending" || task.status === "in_progress");
+  const closedTasks = filteredTasks.filter(task => task.status === "completed" || task.status === "cancelled");
+
+  const isOverdue = (task: { dueDate: Date | null; status: string }) =>
+    !!task.dueDate && new Date(task.dueDate) < new Date() && (task.status === "pending" || task.status === "in_progress");
+
+  const renderTask = (task: (typeof filteredTasks)[number]) => {
+    const isDone = task.status === "completed" || task.status === "cancelled";
+    return (
+      <div
+        key={task.id}
+        className={`flex items-start gap-3 p-4 rounded-lg border ${isOverdue(task) ? "border-red-500/40 bg-red-500/5" : "border-slate-600 bg-slate-700/30"}`}
+      >
+        <button
+          onClick={() => isDone ? reopenTask.mutate({ id: task.id }) : completeTask.mutate({ id: task.id })}
+          className="mt-0.5 text-slate-400 hover:text-[#00d4aa] transition-colors"
+          title={isDone ? "Reopen task" : "Mark complete"}
+        >
+          {isDone ? <CheckCircle2 className="w-5 h-5 text-[#00d4aa]" /> : <Circle className="w-5 h-5" />}
+        </button>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 flex-wrap">
+            <p className={`font-medium ${isDone ? "text-slate-500 line-through" : "text-white"}`}>{task.title}</p>
+            <span className={`px-2 py-0.5 rounded text-xs font-medium ${PRIORITY_COLORS[task.priority]}`}>
+              {task.priority}
+            </span>
+            {isOverdue(task) && (
+              <span className="px-2 py-0.5 rounded text-xs font-medium bg-red-500/20 text-red-300">Overdue</span>
+            )}
+          </div>
+          {task.description && <p className="text-sm text-slate-400 mt-1">{task.description}</p>}
+          <div className="flex items-center gap-4 text-xs text-slate-400 mt-2">
+            {task.dueDate && (
+              <span className="flex items-center gap-1">
+                <Calendar className="w-3 h-3" />
+                Due {format(new Date(task.dueDate), "MMM d, yyyy")}
+              </span>
+            )}
+            {task.completedAt && (
+              <span>Completed {format(new Date(task.completedAt), "MMM d, yyyy")}</span>
+            )}
+          </div>
+        </div>
+        <div className="w-44 flex-shrink-0">
+          {canEdit ? (
+            <Select
+              value={task.assignedTo ? String(task.assignedTo) : UNASSIGNED}
+              onValueChange={(value) => assignTask.mutate({ id: task.id, assignedTo: value === UNASSIGNED ? null : parseInt(value) })}
+            >
+              <SelectTrigger className="bg-slate-700 border-slate-600 text-white h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-700 border-slate-600">
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {teamMembers?.map(member => (
+                  <SelectItem key={member.id} value={String(member.id)}>{member.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <span className="flex items-center gap-1 text-xs text-slate-400">
+              <User className="w-3 h-3" />
+              {task.assigneeName || "Unassigned"}
+            </span>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-slate-800 border-slate-700">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-white flex items-center gap-2">
+              <ClipboardList className="w-5 h-5 text-[#00d4aa]" />
+              Tasks
+              <span className="text-sm font-normal text-slate-400">({openTasks.length} open)</span>
+            </CardTitle>
+            {canEdit && (
+              <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+                <DialogTrigger asChild>
+                  <Button className="bg-[#00d4aa] hover:bg-[#00b894] text-black">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Task
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="bg-slate-800 border-slate-700 text-white">
+                  <DialogHeader>
+                    <DialogTitle>Add a Task</DialogTitle>
+                    <DialogDescription className="text-slate-400">
+                      Add a punch list item or follow-up for this job.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <div className="space-y-4 py-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="taskTitle">Title</Label>
+                      <Input
+                        id="taskTitle"
+                        placeholder="e.g. Replace damaged pipe boot"
+                        value={title}
+                        onChange={(e) => setTitle(e.target.value)}
+                        className="bg-slate-700 border-slate-600 text-white"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="taskDescription">Details (Optional)</Label>
+                      <Textarea
+                        id="taskDescription"
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                        className="bg-slate-700 border-slate-600 text-white"
+                        rows={3}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>Assign To</Label>
+                        <Select value={assignedTo} onValueChange={setAssignedTo}>
+                          <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="bg-slate-700 border-slate-600">
+                            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                            {teamMembers?.map(member => (
+                              <SelectItem key={member.id} value={String(member.id)}>{member.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Priority</Label>
+                        <Select value={priority} onValueChange={(value: TaskPriority) => setPriority(value)}>
+                          <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="bg-slate-700 border-slate-600">
+                            <SelectItem value="low">Low</SelectItem>
+                            <SelectItem value="medium">Medium</SelectItem>
+                            <SelectItem value="high">High</SelectItem>
+                            <SelectItem value="urgent">Urgent</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="taskDueDate">Due Date (Optional)</Label>
+                      <Input
+                        id="taskDueDate"
+                        type="date"
+                        value={dueDate}
+                        onChange={(e) => setDueDate(e.target.value)}
+                        className="bg-slate-700 border-slate-600 text-white"
+                      />
+                    </div>
+                  </div>
+                  <DialogFooter>
+                    <Button
+                      variant="outline"
+                      onClick={() => setShowAddDialog(false)}
+                      className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      onClick={handleSubmit}
+                      disabled={createTask.isPending}
+                      className="bg-[#00d4aa] hover:bg-[#00b894] text-black"
+                    >
+                      {createTask.isPending ? "Adding..." : "Add Task"}
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-12 text-slate-400">Loading tasks...</div>
+          ) : filteredTasks.length === 0 ? (
+            <div className="text-center py-12 text-slate-400">
+              <ClipboardList className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No tasks for this job yet</p>
+              {canEdit && (
+                <p className="text-sm mt-2">Click "Add Task" to start the punch list</p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {openTasks.map(renderTask)}
+              {closedTasks.length > 0 && (
+                <>
+                  <div className="flex items-center gap-2 pt-4 text-xs uppercase tracking-wider text-slate-500">
+                    <RotateCcw className="w-3 h-3" />
+                    Completed
+                  </div>
+                  {closedTasks.map(renderTask)}
+                </>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
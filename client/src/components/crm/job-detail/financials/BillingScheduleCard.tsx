@@ -0,0 +1,215 @@
+/**
+ * BillingScheduleCard Component
+ * Progress billing milestones: scheduled vs. invoiced vs. collected
+ */
+
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CalendarClock, FileText, Truck } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { format } from "date-fns";
+
+interface BillingScheduleCardProps {
+  jobId: number;
+  canEdit: boolean;
+}
+
+const TRIGGER_LABELS: Record<string, string> = {
+  job_approved: "On approval",
+  materials_delivered: "Materials delivered",
+  job_completed: "On completion",
+  manual: "Manual",
+};
+
+const formatCents = (cents: number) =>
+  `$${(cents / 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export function BillingScheduleCard({ jobId, canEdit }: BillingScheduleCardProps) {
+  const utils = trpc.useUtils();
+  const { data: schedule } = trpc.billingSchedules.getForJob.useQuery({ jobId });
+  const { data: materialOrders = [] } = trpc.materials.getMaterialOrders.useQuery({ jobId });
+
+  const refresh = () => {
+    utils.billingSchedules.getForJob.invalidate({ jobId });
+    utils.invoices.getJobInvoices.invalidate({ jobId });
+    utils.changeOrders.getJobChangeOrders.invalidate({ jobId });
+    utils.changeOrders.getUnbilledChangeOrders.invalidate({ jobId });
+  };
+
+  const createSchedule = trpc.billingSchedules.createForJob.useMutation({
+    onSuccess: () => {
+      toast.success("Billing schedule created");
+      refresh();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const updateMilestone = trpc.billingSchedules.updateMilestone.useMutation({
+    onSuccess: () => utils.billingSchedules.getForJob.invalidate({ jobId }),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const draftInvoice = trpc.billingSchedules.draftInvoice.useMutation({
+    onSuccess: (data) => {
+      toast.success(`Draft invoice ${data.invoiceNumber} created`);
+      refresh();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const updateOrderStatus = trpc.materials.updateOrderStatus.useMutation({
+    onSuccess: (data) => {
+      toast.success(
+        data.draftedInvoices.length > 0
+          ? `Materials delivered - drafted ${data.draftedInvoices.join(", ")}`
+          : "Materials marked delivered"
+      );
+      utils.materials.getMaterialOrders.invalidate({ jobId });
+      refresh();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const milestones = schedule?.milestones || [];
+  const undeliveredOrders = materialOrders.filter(order => order.status !== "delivered" && order.status !== "cancelled");
+
+  const handlePercentChange = (milestoneId: number, current: number | null, value: string) => {
+    const percent = parseFloat(value);
+    if (isNaN(percent) || percent === current) return;
+    updateMilestone.mutate({ milestoneId, percent });
+  };
+
+  return (
+    <Card className="glass-card bg-slate-800/60 border-slate-700/50 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-[#00d4aa]" />
+          Billing Schedule
+        </h2>
+        {canEdit && milestones.length === 0 && (
+          <Button
+            onClick={() => createSchedule.mutate({ jobId })}
+            disabled={createSchedule.isPending}
+            variant="outline"
+            className="border-[#00d4aa] text-[#00d4aa] hover:bg-[#00d4aa]/10"
+          >
+            {createSchedule.isPending ? "Creating..." : "Create Schedule"}
+          </Button>
+        )}
+      </div>
+
+      {milestones.length === 0 ? (
+        <p className="text-sm text-slate-400">
+          A deposit, materials-delivered and completion schedule is attached automatically when the job is approved.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-700">
+                <th className="text-left py-3 px-4 text-sm font-semibold text-slate-400">Milestone</th>
+                <th className="text-left py-3 px-4 text-sm font-semibold text-slate-400">Trigger</th>
+                <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">Scheduled</th>
+                <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">Invoiced</th>
+                <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">Collected</th>
+                <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {milestones.map((milestone) => {
+                const needsInvoice = milestone.status !== "invoiced" || milestone.invoiceStatus === "cancelled";
+                const editable = canEdit && milestone.status === "scheduled";
+                return (
+                  <tr key={milestone.id} className="border-b border-slate-700/50 hover:bg-slate-700/20">
+                    <td className="py-4 px-4">
+                      <p className="text-white font-semibold">{milestone.name}</p>
+                      {milestone.invoiceType !== "final" && milestone.fixedAmount === null && (
+                        editable ? (
+                          <div className="flex items-center gap-1 mt-1">
+                            <Input
+                              type="number"
+                              min={0}
+                              max={100}
+                              step="0.5"
+                              defaultValue={milestone.percent ?? ""}
+                              onBlur={(e) => handlePercentChange(milestone.id, milestone.percent, e.target.value)}
+                              className="h-7 w-20 bg-slate-900 border-slate-600 text-white text-xs"
+                            />
+                            <span className="text-xs text-slate-500">% of contract</span>
+                          </div>
+                        ) : (
+                          <p className="text-xs text-slate-500">{milestone.percent}% of contract</p>
+                        )
+                      )}
+                      {milestone.invoiceType === "final" && (
+                        <p className="text-xs text-slate-500">Balance + approved change orders</p>
+                      )}
+                    </td>
+                    <td className="py-4 px-4 text-sm text-slate-300">
+                      {TRIGGER_LABELS[milestone.trigger]}
+                      {milestone.triggeredAt && (
+                        <p className="text-xs text-slate-500">{format(new Date(milestone.triggeredAt), "MMM dd, yyyy")}</p>
+                      )}
+                    </td>
+                    <td className="py-4 px-4 text-right font-mono text-white">{formatCents(milestone.scheduled)}</td>
+                    <td className="py-4 px-4 text-right font-mono text-blue-400">{formatCents(milestone.invoiced)}</td>
+                    <td className="py-4 px-4 text-right font-mono text-green-400">{formatCents(milestone.collected)}</td>
+                    <td className="py-4 px-4">
+                      <div className="flex items-center justify-end gap-2">
+                        {milestone.invoiceNumber && milestone.invoiceStatus !== "cancelled" ? (
+                          <span className="text-sm text-slate-300 font-mono">
+                            {milestone.invoiceNumber}
+                            <span className="ml-2 text-xs text-slate-500 capitalize">{milestone.invoiceStatus}</span>
+                          </span>
+                        ) : milestone.status === "skipped" ? (
+                          <span className="text-xs text-slate-500">Nothing to bill</span>
+                        ) : (
+                          <span className="text-xs text-slate-500">Scheduled</span>
+                        )}
+                        {canEdit && milestone.trigger === "materials_delivered" && milestone.status === "scheduled" && undeliveredOrders.length > 0 && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-slate-400 hover:text-white"
+                            disabled={updateOrderStatus.isPending}
+                            onClick={() => updateOrderStatus.mutate({ orderId: undeliveredOrders[0].id, status: "delivered" })}
+                          >
+                            <Truck className="w-4 h-4 mr-1" />
+                            Mark Delivered
+                          </Button>
+                        )}
+                        {canEdit && needsInvoice && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-[#00d4aa] hover:text-[#00d4aa] hover:bg-[#00d4aa]/10"
+                            disabled={draftInvoice.isPending}
+                            onClick={() => draftInvoice.mutate({ milestoneId: milestone.id })}
+                          >
+                            <FileText className="w-4 h-4 mr-1" />
+                            Bill Now
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td colSpan={2} className="py-3 px-4 text-sm font-semibold text-slate-400">Total</td>
+                <td className="py-3 px-4 text-right font-mono font-bold text-white">{formatCents(schedule!.totals.scheduled)}</td>
+                <td className="py-3 px-4 text-right font-mono font-bold text-blue-400">{formatCents(schedule!.totals.invoiced)}</td>
+                <td className="py-3 px-4 text-right font-mono font-bold text-green-400">{formatCents(schedule!.totals.collected)}</td>
+                <td />
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
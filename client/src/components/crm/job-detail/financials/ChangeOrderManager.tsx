@@ -11,7 +11,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, CheckCircle, XCircle, DollarSign, AlertCircle } from "lucide-react";
+import { Plus, CheckCircle, XCircle, DollarSign, AlertCircle, FileText } from "lucide-react";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { formatDistanceToNow } from "date-fns";
@@ -67,6 +67,7 @@ export function ChangeOrderManager({ jobId, onBillChangeOrder }: ChangeOrderMana
       utils.changeOrders.getJobChangeOrders.invalidate({ jobId });
       utils.changeOrders.getJobSummary.invalidate({ jobId });
       utils.changeOrders.getUnbilledChangeOrders.invalidate({ jobId });
+      utils.crm.getLead.invalidate({ id: jobId }); // Approved supplements update supplementNumbers
     },
     onError: (error) => {
       toast.error(`Failed to approve: ${error.message}`);
@@ -221,7 +222,20 @@ export function ChangeOrderManager({ jobId, onBillChangeOrder }: ChangeOrderMana
                         {getTypeLabel(co.type)}
                       </span>
                     </td>
-                    <td className="py-4 px-4 text-white">{co.description}</td>
+                    <td className="py-4 px-4 text-white">
+                      {co.description}
+                      {co.documentUrl && (
+                        <a
+                          href={co.documentUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="ml-2 inline-flex items-center gap-1 text-xs text-[#00d4aa] hover:underline"
+                        >
+                          <FileText className="w-3 h-3" />
+                          Letter
+                        </a>
+                      )}
+                    </td>
                     <td className="py-4 px-4 text-right font-mono font-bold text-white">
                       ${amount.toLocaleString('en-US', { minimumFractionDigits: 2 })}
                     </td>
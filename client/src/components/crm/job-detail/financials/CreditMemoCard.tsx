@@ -0,0 +1,373 @@
+/**
+ * CreditMemoCard Component
+ * Credit memos on the job: issue a memo, split it across open invoices,
+ * apply what's left later, or void it
+ */
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileMinus, Plus, Ban } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { format } from "date-fns";
+
+interface CreditMemoCardProps {
+  jobId: number;
+  canEdit: boolean;
+}
+
+const formatCents = (cents: number) =>
+  `$${(cents / 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export function CreditMemoCard({ jobId, canEdit }: CreditMemoCardProps) {
+  const [showIssueDialog, setShowIssueDialog] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [memoDate, setMemoDate] = useState(new Date().toISOString().split("T")[0]);
+  const [applyAmounts, setApplyAmounts] = useState<Record<number, string>>({});
+  const [applyTarget, setApplyTarget] = useState<{ id: number; memoNumber: string; remaining: number } | null>(null);
+  const [applyInvoiceId, setApplyInvoiceId] = useState("");
+  const [applyAmount, setApplyAmount] = useState("");
+  const [voidTarget, setVoidTarget] = useState<{ id: number; memoNumber: string } | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+
+  const utils = trpc.useUtils();
+  const { data: memos = [] } = trpc.creditMemos.getJobCreditMemos.useQuery({ jobId });
+  const { data: invoices = [] } = trpc.invoices.getJobInvoices.useQuery({ jobId });
+
+  // Sent invoices with something still owed on them
+  const openInvoices = invoices
+    .filter(inv => inv.status === "sent" || inv.status === "overdue")
+    .map(inv => ({ ...inv, open: inv.totalAmount - inv.amountPaid - inv.creditedAmount }))
+    .filter(inv => inv.open > 0);
+
+  const refresh = () => {
+    utils.creditMemos.getJobCreditMemos.invalidate({ jobId });
+    utils.invoices.getJobInvoices.invalidate({ jobId });
+    utils.payments.getJobBalance.invalidate({ jobId });
+  };
+
+  const createMemo = trpc.creditMemos.create.useMutation({
+    onSuccess: (memo) => {
+      toast.success(`Credit memo ${memo.memoNumber} issued`);
+      refresh();
+      setShowIssueDialog(false);
+      setAmount("");
+      setReason("");
+      setApplyAmounts({});
+    },
+    onError: (error) => toast.error(`Failed to issue credit memo: ${error.message}`),
+  });
+
+  const applyMemo = trpc.creditMemos.apply.useMutation({
+    onSuccess: () => {
+      toast.success("Credit applied");
+      refresh();
+      setApplyTarget(null);
+    },
+    onError: (error) => toast.error(`Failed to apply credit: ${error.message}`),
+  });
+
+  const voidMemo = trpc.creditMemos.void.useMutation({
+    onSuccess: (data) => {
+      toast.success(`Credit memo ${data.memo.memoNumber} voided`);
+      refresh();
+      setVoidTarget(null);
+      setVoidReason("");
+    },
+    onError: (error) => toast.error(`Failed to void credit memo: ${error.message}`),
+  });
+
+  const handleIssue = () => {
+    const amountNum = parseFloat(amount);
+    if (isNaN(amountNum) || amountNum <= 0) {
+      toast.error("Please enter a valid amount");
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error("Please enter a reason for the credit");
+      return;
+    }
+
+    const applications = Object.entries(applyAmounts)
+      .map(([invoiceId, value]) => ({ invoiceId: parseInt(invoiceId), amount: parseFloat(value) }))
+      .filter(application => !isNaN(application.amount) && application.amount > 0);
+    const applied = applications.reduce((sum, application) => sum + application.amount, 0);
+    if (applied > amountNum + 0.001) {
+      toast.error("The amounts applied add up to more than the credit");
+      return;
+    }
+
+    createMemo.mutate({ jobId, amount: amountNum, reason: reason.trim(), memoDate, applications });
+  };
+
+  const openApply = (memo: { id: number; memoNumber: string; remaining: number }) => {
+    const first = openInvoices[0];
+    setApplyTarget(memo);
+    setApplyInvoiceId(first ? String(first.id) : "");
+    setApplyAmount(first ? (Math.min(memo.remaining, first.open) / 100).toFixed(2) : "");
+  };
+
+  return (
+    <Card className="glass-card bg-slate-800/60 border-slate-700/50 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <FileMinus className="w-5 h-5 text-purple-400" />
+          Credit Memos
+        </h2>
+        {canEdit && (
+          <Button onClick={() => setShowIssueDialog(true)} className="bg-[#00d4aa] hover:bg-[#00b894] text-black font-semibold">
+            <Plus className="w-4 h-4 mr-2" />
+            Issue Credit Memo
+          </Button>
+        )}
+      </div>
+
+      {memos.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-6">
+          No credit memos. Issue one to reduce what the customer owes without editing a sent invoice.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {memos.map(memo => (
+            <div
+              key={memo.id}
+              className={`p-4 rounded-lg border border-slate-600 bg-slate-700/30 ${memo.voidedAt ? "opacity-60" : ""}`}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className={`font-mono font-semibold text-white ${memo.voidedAt ? "line-through" : ""}`}>{memo.memoNumber}</span>
+                    <span className="text-sm text-slate-400">{format(new Date(memo.memoDate), "MMM d, yyyy")}</span>
+                    {memo.voidedAt && (
+                      <span className="px-2 py-0.5 rounded-md text-xs border bg-slate-500/10 text-slate-400 border-slate-500/30">Void</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-slate-300 mt-1">{memo.reason}</p>
+                  {memo.voidedAt && memo.voidReason && (
+                    <p className="text-xs text-slate-500 mt-1">Voided: {memo.voidReason}</p>
+                  )}
+                  {memo.applications.length > 0 && (
+                    <p className="text-xs text-slate-400 mt-1">
+                      Applied: {memo.applications.map(application => `${application.invoiceNumber} ${formatCents(application.amount)}`).join(", ")}
+                    </p>
+                  )}
+                </div>
+                <div className="text-right shrink-0">
+                  <p className="font-mono font-bold text-purple-400">{formatCents(memo.amount)}</p>
+                  {!memo.voidedAt && memo.remaining > 0 && (
+                    <p className="text-xs text-slate-400">{formatCents(memo.remaining)} unapplied</p>
+                  )}
+                  {canEdit && !memo.voidedAt && (
+                    <div className="flex justify-end gap-1 mt-2">
+                      {memo.remaining > 0 && openInvoices.length > 0 && (
+                        <Button size="sm" variant="ghost" className="text-slate-300 hover:text-white" onClick={() => openApply(memo)}>
+                          Apply
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                        onClick={() => setVoidTarget({ id: memo.id, memoNumber: memo.memoNumber })}
+                      >
+                        <Ban className="w-4 h-4 mr-1" />
+                        Void
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Issue Credit Memo Dialog */}
+      <Dialog open={showIssueDialog} onOpenChange={setShowIssueDialog}>
+        <DialogContent className="bg-slate-800 border-slate-700 text-white">
+          <DialogHeader>
+            <DialogTitle>Issue Credit Memo</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Apply the credit to open invoices now, or leave it on the job to apply later.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="memoAmount">Amount ($)</Label>
+                <Input
+                  id="memoAmount"
+                  type="number"
+                  step="0.01"
+                  placeholder="0.00"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="bg-slate-700 border-slate-600 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="memoDate">Date</Label>
+                <Input
+                  id="memoDate"
+                  type="date"
+                  value={memoDate}
+                  onChange={(e) => setMemoDate(e.target.value)}
+                  className="bg-slate-700 border-slate-600 text-white"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="memoReason">Reason</Label>
+              <Textarea
+                id="memoReason"
+                placeholder="e.g. Goodwill credit for delayed completion"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="bg-slate-700 border-slate-600 text-white"
+                rows={2}
+              />
+            </div>
+            {openInvoices.length > 0 && (
+              <div className="space-y-2">
+                <Label>Apply to</Label>
+                {openInvoices.map(inv => (
+                  <div key={inv.id} className="flex items-center justify-between gap-3">
+                    <span className="text-sm text-slate-300">
+                      <span className="font-mono">{inv.invoiceNumber}</span>
+                      <span className="text-slate-500"> · {formatCents(inv.open)} open</span>
+                    </span>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      placeholder="0.00"
+                      value={applyAmounts[inv.id] || ""}
+                      onChange={(e) => setApplyAmounts({ ...applyAmounts, [inv.id]: e.target.value })}
+                      className="w-32 bg-slate-700 border-slate-600 text-white"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setShowIssueDialog(false)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleIssue} disabled={createMemo.isPending} className="bg-[#00d4aa] hover:bg-[#00b894] text-black">
+              {createMemo.isPending ? "Issuing..." : "Issue Credit Memo"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Apply Credit Dialog */}
+      <Dialog open={!!applyTarget} onOpenChange={(open) => !open && setApplyTarget(null)}>
+        <DialogContent className="bg-slate-800 border-slate-700 text-white">
+          <DialogHeader>
+            <DialogTitle>Apply {applyTarget?.memoNumber}</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              {applyTarget && `${formatCents(applyTarget.remaining)} of this credit is unapplied.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Invoice</Label>
+              <Select value={applyInvoiceId} onValueChange={setApplyInvoiceId}>
+                <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                  <SelectValue placeholder="Select an invoice" />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-700 border-slate-600">
+                  {openInvoices.map(inv => (
+                    <SelectItem key={inv.id} value={String(inv.id)}>
+                      {inv.invoiceNumber} ({formatCents(inv.open)} open)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="applyAmount">Amount ($)</Label>
+              <Input
+                id="applyAmount"
+                type="number"
+                step="0.01"
+                value={applyAmount}
+                onChange={(e) => setApplyAmount(e.target.value)}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setApplyTarget(null)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => applyTarget && applyMemo.mutate({
+                creditMemoId: applyTarget.id,
+                invoiceId: parseInt(applyInvoiceId),
+                amount: parseFloat(applyAmount),
+              })}
+              disabled={!applyInvoiceId || !(parseFloat(applyAmount) > 0) || applyMemo.isPending}
+              className="bg-[#00d4aa] hover:bg-[#00b894] text-black"
+            >
+              {applyMemo.isPending ? "Applying..." : "Apply Credit"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Void Credit Memo Dialog */}
+      <Dialog open={!!voidTarget} onOpenChange={(open) => !open && setVoidTarget(null)}>
+        <DialogContent className="bg-slate-800 border-slate-700 text-white">
+          <DialogHeader>
+            <DialogTitle>Void {voidTarget?.memoNumber}</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Invoices this credit was applied to will owe that amount again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="memoVoidReason">Reason</Label>
+            <Textarea
+              id="memoVoidReason"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+              className="bg-slate-700 border-slate-600 text-white"
+              rows={2}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setVoidTarget(null)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => voidTarget && voidMemo.mutate({ creditMemoId: voidTarget.id, reason: voidReason })}
+              disabled={!voidReason.trim() || voidMemo.isPending}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              {voidMemo.isPending ? "Voiding..." : "Void Credit Memo"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -21,6 +21,9 @@ export function FinancialLedger({ jobId }: FinancialLedgerProps) {
   // Fetch job invoices
   const { data: invoices = [] } = trpc.invoices.getJobInvoices.useQuery({ jobId });
 
+  // Fetch credits issued against the job's invoices (cents)
+  const { data: balance } = trpc.payments.getJobBalance.useQuery({ jobId });
+
   // Calculate total invoiced (amounts stored in cents, convert to dollars)
   const totalInvoiced = invoices
     .filter(inv => inv.status !== "cancelled")
@@ -43,7 +46,8 @@ export function FinancialLedger({ jobId }: FinancialLedgerProps) {
   // Calculate totals
   const approvedChanges = changeOrderSummary?.totalApproved || 0;
   const totalJobValue = baseContractValue + approvedChanges;
-  const unbilledRevenue = totalJobValue - totalInvoiced;
+  const totalCredited = (balance?.credited || 0) / 100;
+  const unbilledRevenue = totalJobValue - (totalInvoiced - totalCredited);
 
   // Determine alert state
   const hasUnbilledRevenue = unbilledRevenue > 0;
@@ -112,6 +116,7 @@ export function FinancialLedger({ jobId }: FinancialLedgerProps) {
         {invoices.length > 0 && (
           <p className="text-xs text-slate-500 mt-1">
             {invoices.length} invoice{invoices.length !== 1 ? 's' : ''}
+            {totalCredited > 0 && ` · $${totalCredited.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} credited`}
           </p>
         )}
       </Card>
@@ -10,6 +10,7 @@ export function FinancialSummaryCard({ jobId }: FinancialSummaryCardProps) {
   const { data: job } = trpc.crm.getLead.useQuery({ id: jobId });
   const { data: changeOrderSummary } = trpc.changeOrders.getJobSummary.useQuery({ jobId });
   const { data: invoices = [] } = trpc.invoices.getJobInvoices.useQuery({ jobId });
+  const { data: balance } = trpc.payments.getJobBalance.useQuery({ jobId });
 
   // Calculate total invoiced (amounts stored in cents, convert to dollars)
   const totalInvoiced = invoices
@@ -28,10 +29,13 @@ export function FinancialSummaryCard({ jobId }: FinancialSummaryCardProps) {
     baseContractValue = baseInvoiced;
   }
 
+  // Credit memos reduce what's been billed
+  const totalCredited = (balance?.credited || 0) / 100;
+
   // Calculate totals
   const approvedChanges = changeOrderSummary?.totalApproved || 0;
   const totalContractValue = baseContractValue + approvedChanges;
-  const remainingBalance = totalContractValue - totalInvoiced;
+  const remainingBalance = totalContractValue - (totalInvoiced - totalCredited);
   
   // Calculate collected (payments received) - stored in cents
   const totalCollected = job?.amountPaid ? (job.amountPaid / 100) : 0;
@@ -73,6 +77,7 @@ export function FinancialSummaryCard({ jobId }: FinancialSummaryCardProps) {
           </div>
           <div className="text-xs text-slate-500">
             {invoices.filter(inv => inv.status !== "cancelled").length} invoice(s)
+            {totalCredited > 0 && ` less $${formatCurrency(totalCredited)} credited`}
           </div>
         </div>
 
@@ -111,8 +116,17 @@ export function FinancialSummaryCard({ jobId }: FinancialSummaryCardProps) {
             ${formatCurrency(totalCollected)}
           </div>
           <div className="text-xs text-slate-500">
-            Total payments received
+            {balance && balance.refunded > 0
+              ? `Net of $${formatCurrency(balance.refunded / 100)} refunded`
+              : "Total payments received"}
           </div>
+          {balance && balance.invoiced > 0 && (
+            <div className={`text-xs ${balance.balanceDue > 0 ? "text-orange-400" : "text-slate-400"}`}>
+              {balance.balanceDue >= 0
+                ? `Balance due: $${formatCurrency(balance.balanceDue / 100)}`
+                : `Customer credit: $${formatCurrency(-balance.balanceDue / 100)}`}
+            </div>
+          )}
         </div>
       </div>
 
@@ -121,7 +135,7 @@ export function FinancialSummaryCard({ jobId }: FinancialSummaryCardProps) {
         <div className="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg flex items-start gap-2">
           <AlertCircle className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
           <div className="text-sm text-red-300">
-            <strong>Warning:</strong> Total invoiced (${formatCurrency(totalInvoiced)}) exceeds contract value (${formatCurrency(totalContractValue)}) by ${formatCurrency(Math.abs(remainingBalance))}.
+            <strong>Warning:</strong> Total invoiced (${formatCurrency(totalInvoiced - totalCredited)}) exceeds contract value (${formatCurrency(totalContractValue)}) by ${formatCurrency(Math.abs(remainingBalance))}.
           </div>
         </div>
       )}
@@ -1,9 +1,10 @@
 /**
  * InvoiceManager Component
- * Manages invoices with generate invoice modal
+ * Manages invoices with generate invoice modal, the job's sales tax treatment,
+ * per-line taxability on draft invoices and voiding sent invoices
  */
 
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -11,10 +12,98 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { FileText, Plus, Mail, Download, CheckCircle, Clock, AlertCircle } from "lucide-react";
+import { FileText, Plus, Mail, Download, CheckCircle, Clock, AlertCircle, ChevronDown, ChevronRight, Receipt, Ban } from "lucide-react";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { format } from "date-fns";
+import type { SalesTaxBreakdown } from "@shared/types";
+
+type TaxTreatment = "lump_sum" | "retail_install" | "exempt";
+
+const TAX_TREATMENT_LABELS: Record<TaxTreatment, string> = {
+  lump_sum: "Lump-sum contract (no tax billed)",
+  retail_install: "Retail sale + installation (tax materials)",
+  exempt: "Tax-exempt customer",
+};
+
+const AUTO_COUNTY = "auto";
+
+const formatCents = (cents: number) =>
+  `$${(cents / 100).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function InvoiceTaxDetail({ invoice, jobId, taxTreatment }: {
+  invoice: { id: number; status: string; taxBreakdown: SalesTaxBreakdown | null };
+  jobId: number;
+  taxTreatment: TaxTreatment | undefined;
+}) {
+  const utils = trpc.useUtils();
+  const { data: items, isLoading } = trpc.invoices.getItems.useQuery({ invoiceId: invoice.id });
+
+  const setItemTaxable = trpc.invoices.setItemTaxable.useMutation({
+    onSuccess: () => {
+      utils.invoices.getItems.invalidate({ invoiceId: invoice.id });
+      utils.invoices.getJobInvoices.invalidate({ jobId });
+    },
+    onError: (error) => toast.error(`Failed to update tax: ${error.message}`),
+  });
+
+  const breakdown = invoice.taxBreakdown;
+  const editable = invoice.status === "draft" && taxTreatment === "retail_install";
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500 py-2">Loading line items...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <table className="w-full text-sm">
+        <tbody>
+          {items?.map((item) => (
+            <tr key={item.id} className="border-b border-slate-700/30">
+              <td className="py-2 pr-4 w-28">
+                <label className={`flex items-center gap-2 text-xs ${editable ? "text-slate-300 cursor-pointer" : "text-slate-500"}`}>
+                  <input
+                    type="checkbox"
+                    checked={item.taxable}
+                    disabled={!editable || setItemTaxable.isPending}
+                    onChange={(e) => setItemTaxable.mutate({ itemId: item.id, taxable: e.target.checked })}
+                    className="w-4 h-4 rounded border-slate-500 bg-slate-600 text-[#00d4aa]"
+                  />
+                  Taxable
+                </label>
+              </td>
+              <td className="py-2 text-slate-300">{item.description}</td>
+              <td className="py-2 text-right font-mono text-slate-300">{formatCents(item.totalPrice)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {breakdown ? (
+        <div className="text-xs text-slate-400 space-y-1">
+          <p>
+            {breakdown.county
+              ? `${breakdown.county} County, ${breakdown.state}${breakdown.zipCode ? ` (ZIP ${breakdown.zipCode})` : ""}`
+              : `No county rate found${breakdown.zipCode ? ` for ZIP ${breakdown.zipCode}` : ""}`}
+            {" · "}Taxable {formatCents(breakdown.taxableAmount)}{" · "}Exempt {formatCents(breakdown.exemptAmount)}
+          </p>
+          {breakdown.stateTax + breakdown.surtax > 0 && (
+            <p>
+              State {breakdown.stateRate}%: {formatCents(breakdown.stateTax)}
+              {" · "}County surtax {breakdown.surtaxRate}%: {formatCents(breakdown.surtax)}
+              {breakdown.surtaxableAmount < breakdown.taxableAmount && ` (on ${formatCents(breakdown.surtaxableAmount)} under the per-item cap)`}
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">Tax on this invoice was entered by hand.</p>
+      )}
+      {invoice.status === "draft" && taxTreatment !== "retail_install" && (
+        <p className="text-xs text-slate-500">Lines are only taxed on retail sale + installation jobs.</p>
+      )}
+    </div>
+  );
+}
 
 interface InvoiceManagerProps {
   jobId: number;
@@ -36,9 +125,39 @@ export function InvoiceManager({
   const [dueDate, setDueDate] = useState("");
   const [notes, setNotes] = useState("");
   const [selectedChangeOrderIds, setSelectedChangeOrderIds] = useState<number[]>([]);
+  const [expandedInvoiceId, setExpandedInvoiceId] = useState<number | null>(null);
+  const [voidTarget, setVoidTarget] = useState<{ id: number; invoiceNumber: string } | null>(null);
+  const [voidReason, setVoidReason] = useState("");
 
   const utils = trpc.useUtils();
 
+  // Sales tax treatment and the county the job's invoices are taxed in
+  const { data: jobTax } = trpc.salesTax.getJobTax.useQuery({ jobId });
+  const { data: taxRates = [] } = trpc.salesTax.listRates.useQuery();
+
+  const setJobTaxMutation = trpc.salesTax.setJobTax.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.draftsUpdated > 0
+        ? `Sales tax updated and ${data.draftsUpdated} draft invoice${data.draftsUpdated === 1 ? "" : "s"} recalculated`
+        : "Sales tax updated");
+      utils.salesTax.getJobTax.invalidate({ jobId });
+      utils.invoices.getJobInvoices.invalidate({ jobId });
+      utils.invoices.getItems.invalidate();
+    },
+    onError: (error) => {
+      toast.error(`Failed to update sales tax: ${error.message}`);
+    },
+  });
+
+  const handleTaxChange = (changes: { taxTreatment?: TaxTreatment; salesTaxRateId?: number | null }) => {
+    if (!jobTax) return;
+    setJobTaxMutation.mutate({
+      jobId,
+      taxTreatment: changes.taxTreatment ?? jobTax.taxTreatment,
+      salesTaxRateId: changes.salesTaxRateId !== undefined ? changes.salesTaxRateId : jobTax.salesTaxRateId,
+    });
+  };
+
   // Fetch invoices
   const { data: invoices = [] } = trpc.invoices.getJobInvoices.useQuery({ jobId });
   
@@ -87,6 +206,21 @@ export function InvoiceManager({
     },
   });
 
+  // Void a sent invoice; it keeps its number but no longer counts toward the balance
+  const voidMutation = trpc.invoices.void.useMutation({
+    onSuccess: (data) => {
+      toast.success(`Invoice ${data.invoice.invoiceNumber} voided`);
+      setVoidTarget(null);
+      setVoidReason("");
+      utils.invoices.getJobInvoices.invalidate({ jobId });
+      utils.payments.getJobBalance.invalidate({ jobId });
+      utils.creditMemos.getJobCreditMemos.invalidate({ jobId });
+    },
+    onError: (error) => {
+      toast.error(`Failed to void invoice: ${error.message}`);
+    },
+  });
+
   const resetForm = () => {
     setInvoiceType("deposit");
     setCustomAmount("");
@@ -150,22 +284,24 @@ export function InvoiceManager({
     }
   };
 
-  const getStatusBadge = (status: string) => {
+  const getStatusBadge = (status: string, voided = false) => {
     const badges: Record<string, { color: string; icon: any }> = {
       draft: { color: "bg-slate-500/10 text-slate-400 border-slate-500/30", icon: FileText },
       sent: { color: "bg-blue-500/10 text-blue-400 border-blue-500/30", icon: Mail },
       paid: { color: "bg-emerald-500/10 text-emerald-400 border-emerald-500/30", icon: CheckCircle },
       overdue: { color: "bg-red-500/10 text-red-400 border-red-500/30", icon: AlertCircle },
       cancelled: { color: "bg-slate-500/10 text-slate-400 border-slate-500/30", icon: AlertCircle },
+      void: { color: "bg-slate-500/10 text-slate-500 border-slate-500/30 line-through", icon: Ban },
     };
     
-    const badge = badges[status] || badges.draft;
+    const key = voided ? "void" : status;
+    const badge = badges[key] || badges.draft;
     const Icon = badge.icon;
     
     return (
       <span className={`px-2 py-1 rounded-md text-xs font-medium border flex items-center gap-1 ${badge.color}`}>
         <Icon className="w-3 h-3" />
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {key.charAt(0).toUpperCase() + key.slice(1)}
       </span>
     );
   };
@@ -206,6 +342,50 @@ export function InvoiceManager({
         </div>
       </div>
 
+      {/* Sales Tax */}
+      {jobTax && (
+        <div className="flex flex-wrap items-center gap-3 mb-6 p-3 rounded-lg bg-slate-700/30 border border-slate-700">
+          <Receipt className="w-4 h-4 text-[#00d4aa]" />
+          <span className="text-sm text-slate-300">Sales Tax</span>
+          <Select
+            value={jobTax.taxTreatment}
+            onValueChange={(value: TaxTreatment) => handleTaxChange({ taxTreatment: value })}
+            disabled={setJobTaxMutation.isPending}
+          >
+            <SelectTrigger className="w-72 bg-slate-700 border-slate-600 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              {(Object.keys(TAX_TREATMENT_LABELS) as TaxTreatment[]).map(treatment => (
+                <SelectItem key={treatment} value={treatment}>{TAX_TREATMENT_LABELS[treatment]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={jobTax.salesTaxRateId ? String(jobTax.salesTaxRateId) : AUTO_COUNTY}
+            onValueChange={(value) => handleTaxChange({ salesTaxRateId: value === AUTO_COUNTY ? null : parseInt(value) })}
+            disabled={setJobTaxMutation.isPending}
+          >
+            <SelectTrigger className="w-64 bg-slate-700 border-slate-600 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              <SelectItem value={AUTO_COUNTY}>
+                {jobTax.zipCode ? `By ZIP ${jobTax.zipCode}` : "By ZIP (none in address)"}
+              </SelectItem>
+              {taxRates.filter(rate => rate.isActive).map(rate => (
+                <SelectItem key={rate.id} value={String(rate.id)}>{rate.county} County, {rate.state}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-slate-400">
+            {jobTax.rate
+              ? `${jobTax.rate.county} County: ${parseFloat(jobTax.rate.stateRate)}% state + ${parseFloat(jobTax.rate.surtaxRate)}% surtax`
+              : "No county rate found; invoices won't be taxed"}
+          </span>
+        </div>
+      )}
+
       {/* Invoice List */}
       <div className="overflow-x-auto">
         <table className="w-full">
@@ -222,47 +402,81 @@ export function InvoiceManager({
           <tbody>
             {invoices.length > 0 ? (
               invoices.map((invoice) => (
-                <tr key={invoice.id} className="border-b border-slate-700/50 hover:bg-slate-700/20">
-                  <td className="py-4 px-4 font-mono text-white font-semibold">
-                    {invoice.invoiceNumber}
-                  </td>
-                  <td className="py-4 px-4">
-                    <span className="text-sm text-slate-300">
-                      {getInvoiceTypeLabel(invoice.invoiceType)}
-                    </span>
-                  </td>
-                  <td className="py-4 px-4 text-right font-mono font-bold text-white">
-                    ${(Number(invoice.totalAmount) / 100).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                  </td>
-                  <td className="py-4 px-4 text-sm text-slate-400">
-                    {format(new Date(invoice.dueDate), 'MMM dd, yyyy')}
-                  </td>
-                  <td className="py-4 px-4">
-                    {getStatusBadge(invoice.status)}
-                  </td>
-                  <td className="py-4 px-4">
-                    <div className="flex items-center justify-end gap-2">
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        className="text-slate-400 hover:text-white"
+                <Fragment key={invoice.id}>
+                  <tr className="border-b border-slate-700/50 hover:bg-slate-700/20">
+                    <td className="py-4 px-4 font-mono text-white font-semibold">
+                      <button
+                        onClick={() => setExpandedInvoiceId(expandedInvoiceId === invoice.id ? null : invoice.id)}
+                        className="flex items-center gap-1 hover:text-[#00d4aa]"
                       >
-                        <Mail className="w-4 h-4 mr-1" />
-                        Email
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        className="text-slate-400 hover:text-white"
-                        onClick={() => generatePDFMutation.mutate({ invoiceId: invoice.id })}
-                        disabled={generatePDFMutation.isPending}
-                      >
-                        <Download className="w-4 h-4 mr-1" />
-                        {generatePDFMutation.isPending ? "Generating..." : "PDF"}
-                      </Button>
-                    </div>
-                  </td>
-                </tr>
+                        {expandedInvoiceId === invoice.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        {invoice.invoiceNumber}
+                      </button>
+                    </td>
+                    <td className="py-4 px-4">
+                      <span className="text-sm text-slate-300">
+                        {getInvoiceTypeLabel(invoice.invoiceType)}
+                      </span>
+                    </td>
+                    <td className="py-4 px-4 text-right font-mono font-bold text-white">
+                      ${(Number(invoice.totalAmount) / 100).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      {invoice.taxAmount > 0 && (
+                        <p className="text-xs font-normal text-slate-400">incl. {formatCents(invoice.taxAmount)} tax</p>
+                      )}
+                      {invoice.creditedAmount > 0 && (
+                        <p className="text-xs font-normal text-purple-400">{formatCents(invoice.creditedAmount)} credited</p>
+                      )}
+                    </td>
+                    <td className="py-4 px-4 text-sm text-slate-400">
+                      {format(new Date(invoice.dueDate), 'MMM dd, yyyy')}
+                    </td>
+                    <td className="py-4 px-4">
+                      <div title={invoice.voidReason || undefined}>
+                        {getStatusBadge(invoice.status, !!invoice.voidedAt)}
+                      </div>
+                    </td>
+                    <td className="py-4 px-4">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-slate-400 hover:text-white"
+                        >
+                          <Mail className="w-4 h-4 mr-1" />
+                          Email
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-slate-400 hover:text-white"
+                          onClick={() => generatePDFMutation.mutate({ invoiceId: invoice.id })}
+                          disabled={generatePDFMutation.isPending}
+                        >
+                          <Download className="w-4 h-4 mr-1" />
+                          {generatePDFMutation.isPending ? "Generating..." : "PDF"}
+                        </Button>
+                        {invoice.status !== "draft" && invoice.status !== "cancelled" && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                            onClick={() => setVoidTarget({ id: invoice.id, invoiceNumber: invoice.invoiceNumber })}
+                          >
+                            <Ban className="w-4 h-4 mr-1" />
+                            Void
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                  {expandedInvoiceId === invoice.id && (
+                    <tr className="border-b border-slate-700/50 bg-slate-900/30">
+                      <td colSpan={6} className="px-8 py-4">
+                        <InvoiceTaxDetail invoice={invoice} jobId={jobId} taxTreatment={jobTax?.taxTreatment} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
               ))
             ) : (
               <tr>
@@ -275,6 +489,46 @@ export function InvoiceManager({
         </table>
       </div>
 
+      {/* Void Invoice Dialog */}
+      <Dialog open={!!voidTarget} onOpenChange={(open) => !open && setVoidTarget(null)}>
+        <DialogContent className="bg-slate-800 border-slate-700 text-white">
+          <DialogHeader>
+            <DialogTitle>Void Invoice {voidTarget?.invoiceNumber}</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              The invoice keeps its number but no longer counts toward what the customer owes.
+              Payments made against it stay on the job, and any credit applied to it goes back to its credit memo.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="voidReason">Reason</Label>
+            <Textarea
+              id="voidReason"
+              placeholder="e.g. Billed the wrong scope; reissued as a new invoice"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+              className="bg-slate-700 border-slate-600 text-white"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setVoidTarget(null)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => voidTarget && voidMutation.mutate({ id: voidTarget.id, reason: voidReason })}
+              disabled={!voidReason.trim() || voidMutation.isPending}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              {voidMutation.isPending ? "Voiding..." : "Void Invoice"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Generate Invoice Dialog */}
       <Dialog open={showGenerateDialog} onOpenChange={setShowGenerateDialog}>
         <DialogContent className="bg-slate-800 border-slate-700 max-w-2xl">
@@ -0,0 +1,500 @@
+/**
+ * JobCostingCard Component
+ * Per-job P&L: contract + approved change orders against every recorded cost,
+ * estimated vs. actual per cost category
+ */
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calculator, Plus, Trash2, Pencil, Package } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { format } from "date-fns";
+
+interface JobCostingCardProps {
+  jobId: number;
+  canEdit: boolean;
+}
+
+type CostCategory = "materials" | "labor" | "subcontractors" | "equipment" | "permits" | "commission" | "other";
+
+const CATEGORY_LABELS: Record<CostCategory, string> = {
+  materials: "Materials",
+  labor: "Crew Labor",
+  subcontractors: "Subcontractors",
+  equipment: "Equipment",
+  permits: "Permits & Fees",
+  commission: "Commission",
+  other: "Other",
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  material_order: "Material Order",
+  bill: "Bill",
+  expense: "Expense",
+  inventory: "Inventory",
+  bank_transaction: "Bank",
+  commission: "Commission",
+  manual: "Manual",
+};
+
+const PLACED_ORDER_STATUSES = ["sent", "confirmed", "delivered"];
+
+const formatCents = (cents: number) =>
+  `$${(cents / 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const EMPTY_ENTRY = {
+  category: "labor" as CostCategory,
+  description: "",
+  amount: "",
+  hours: "",
+  hourlyRate: "",
+  userId: "",
+  entryDate: format(new Date(), "yyyy-MM-dd"),
+};
+
+export function JobCostingCard({ jobId, canEdit }: JobCostingCardProps) {
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [entry, setEntry] = useState(EMPTY_ENTRY);
+  const [editingEstimates, setEditingEstimates] = useState(false);
+  const [estimateDraft, setEstimateDraft] = useState<Record<string, string>>({});
+
+  const utils = trpc.useUtils();
+  const { data: costing, isLoading } = trpc.jobCosting.getForJob.useQuery({ jobId });
+  const { data: materialOrders = [] } = trpc.materials.getMaterialOrders.useQuery({ jobId });
+  const { data: team = [] } = trpc.users.getTeam.useQuery(undefined, { enabled: showAddDialog });
+
+  const refresh = () => utils.jobCosting.getForJob.invalidate({ jobId });
+
+  const addEntry = trpc.jobCosting.addEntry.useMutation({
+    onSuccess: () => {
+      toast.success("Cost added");
+      setShowAddDialog(false);
+      setEntry(EMPTY_ENTRY);
+      refresh();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteEntry = trpc.jobCosting.deleteEntry.useMutation({
+    onSuccess: () => {
+      toast.success("Cost removed");
+      refresh();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const setEstimates = trpc.jobCosting.setEstimates.useMutation({
+    onSuccess: () => {
+      toast.success("Estimate saved");
+      setEditingEstimates(false);
+      refresh();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const setOrderCost = trpc.materials.setOrderCost.useMutation({
+    onSuccess: () => {
+      utils.materials.getMaterialOrders.invalidate({ jobId });
+      refresh();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (isLoading || !costing) {
+    return null;
+  }
+
+  const billLines = costing.lines.filter(line => line.source === "bill");
+  const unbilledOrders = materialOrders.filter(order => PLACED_ORDER_STATUSES.includes(order.status) && !order.billId);
+
+  const startEditingEstimates = () => {
+    setEstimateDraft(Object.fromEntries(
+      costing.categories
+        .filter(row => row.estimated !== null)
+        .map(row => [row.category, (row.estimated! / 100).toFixed(2)])
+    ));
+    setEditingEstimates(true);
+  };
+
+  const saveEstimates = () => {
+    const estimates = Object.entries(estimateDraft)
+      .filter(([, value]) => value.trim() !== "")
+      .map(([category, value]) => ({ category: category as CostCategory, amount: parseFloat(value) }));
+    if (estimates.some(estimate => isNaN(estimate.amount) || estimate.amount < 0)) {
+      toast.error("Estimates must be positive amounts");
+      return;
+    }
+    setEstimates.mutate({ jobId, estimates });
+  };
+
+  const handleAddEntry = () => {
+    if (!entry.description.trim()) {
+      toast.error("Please enter a description");
+      return;
+    }
+    const amount = entry.amount ? parseFloat(entry.amount) : undefined;
+    const hours = entry.hours ? parseFloat(entry.hours) : undefined;
+    const hourlyRate = entry.hourlyRate ? parseFloat(entry.hourlyRate) : undefined;
+    if (!amount && !(hours && hourlyRate)) {
+      toast.error("Enter an amount, or hours and an hourly rate");
+      return;
+    }
+
+    addEntry.mutate({
+      jobId,
+      category: entry.category,
+      description: entry.description,
+      amount,
+      hours,
+      hourlyRate,
+      userId: entry.userId ? parseInt(entry.userId) : null,
+      entryDate: entry.entryDate,
+    });
+  };
+
+  const handleOrderCostChange = (orderId: number, current: number | null, value: string) => {
+    const dollars = value.trim() === "" ? null : parseFloat(value);
+    if (dollars !== null && (isNaN(dollars) || dollars < 0)) return;
+    if ((dollars === null ? null : Math.round(dollars * 100)) === current) return;
+    setOrderCost.mutate({ orderId, totalCost: dollars });
+  };
+
+  const marginColor = costing.marginPercent === null
+    ? "text-slate-400"
+    : costing.belowTarget ? "text-red-400" : "text-green-400";
+
+  return (
+    <Card className="glass-card bg-slate-800/60 border-slate-700/50 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <Calculator className="w-5 h-5 text-[#00d4aa]" />
+          Job Costing
+        </h2>
+        {canEdit && (
+          <Button
+            onClick={() => setShowAddDialog(true)}
+            variant="outline"
+            className="border-[#00d4aa] text-[#00d4aa] hover:bg-[#00d4aa]/10"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Cost
+          </Button>
+        )}
+      </div>
+
+      {/* P&L Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div>
+          <p className="text-sm text-slate-400">Revenue</p>
+          <p className="text-2xl font-bold text-white">{formatCents(costing.revenue.total)}</p>
+          <p className="text-xs text-slate-500">
+            Contract {formatCents(costing.revenue.contract)}
+            {costing.revenue.changeOrders > 0 && ` + Changes ${formatCents(costing.revenue.changeOrders)}`}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-slate-400">Actual Cost</p>
+          <p className="text-2xl font-bold text-orange-400">{formatCents(costing.actualCost)}</p>
+          {costing.estimatedCost !== null && (
+            <p className="text-xs text-slate-500">Estimated {formatCents(costing.estimatedCost)}</p>
+          )}
+        </div>
+        <div>
+          <p className="text-sm text-slate-400">Gross Profit</p>
+          <p className={`text-2xl font-bold ${costing.grossProfit < 0 ? "text-red-400" : "text-white"}`}>
+            {formatCents(costing.grossProfit)}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-slate-400">Margin</p>
+          <p className={`text-2xl font-bold ${marginColor}`}>
+            {costing.marginPercent === null ? "—" : `${costing.marginPercent.toFixed(1)}%`}
+          </p>
+          <p className="text-xs text-slate-500">
+            Target {costing.targetMarginPercent}%
+            {costing.estimatedMarginPercent !== null && ` · Estimated ${costing.estimatedMarginPercent.toFixed(1)}%`}
+          </p>
+        </div>
+      </div>
+
+      {/* Estimated vs. Actual */}
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-slate-700">
+              <th className="text-left py-3 px-4 text-sm font-semibold text-slate-400">Category</th>
+              <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">
+                <div className="flex items-center justify-end gap-2">
+                  Estimated
+                  {canEdit && !editingEstimates && (
+                    <button onClick={startEditingEstimates} className="text-slate-500 hover:text-white" title="Edit estimate">
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              </th>
+              <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">Actual</th>
+              <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">Variance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {costing.categories.map((row) => (
+              <tr key={row.category} className="border-b border-slate-700/50 hover:bg-slate-700/20">
+                <td className="py-3 px-4 text-white">{CATEGORY_LABELS[row.category as CostCategory]}</td>
+                <td className="py-3 px-4 text-right font-mono text-slate-300">
+                  {editingEstimates ? (
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={estimateDraft[row.category] ?? ""}
+                      onChange={(e) => setEstimateDraft({ ...estimateDraft, [row.category]: e.target.value })}
+                      className="h-8 w-32 ml-auto bg-slate-900 border-slate-600 text-white text-right"
+                    />
+                  ) : row.estimated === null ? "—" : formatCents(row.estimated)}
+                </td>
+                <td className="py-3 px-4 text-right font-mono text-white">{formatCents(row.actual)}</td>
+                <td className={`py-3 px-4 text-right font-mono ${
+                  row.variance === null ? "text-slate-500" : row.variance < 0 ? "text-red-400" : "text-green-400"
+                }`}>
+                  {row.variance === null ? "—" : formatCents(row.variance)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {editingEstimates && (
+          <div className="flex justify-end gap-2 mt-3">
+            <Button variant="outline" size="sm" onClick={() => setEditingEstimates(false)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={saveEstimates}
+              disabled={setEstimates.isPending}
+              className="bg-[#00d4aa] hover:bg-[#00b894] text-black"
+            >
+              {setEstimates.isPending ? "Saving..." : "Save Estimate"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Material orders waiting on their supplier bill */}
+      {canEdit && unbilledOrders.length > 0 && (
+        <div className="mb-6 space-y-2">
+          <h3 className="text-sm font-semibold text-slate-300 flex items-center gap-2">
+            <Package className="w-4 h-4" />
+            Material Orders Not Yet Billed
+          </h3>
+          {unbilledOrders.map((order) => (
+            <div key={order.id} className="flex flex-wrap items-center gap-3 p-3 bg-slate-900/50 rounded-lg border border-slate-700">
+              <span className="text-sm text-white font-mono">{order.orderNumber || `#${order.id}`}</span>
+              <span className="text-xs text-slate-500 capitalize">{order.supplierName} · {order.status}</span>
+              <div className="flex items-center gap-1 ml-auto">
+                <span className="text-xs text-slate-500">PO cost $</span>
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  defaultValue={order.totalCost !== null ? (order.totalCost / 100).toFixed(2) : ""}
+                  onBlur={(e) => handleOrderCostChange(order.id, order.totalCost, e.target.value)}
+                  placeholder="0.00"
+                  className="h-8 w-28 bg-slate-900 border-slate-600 text-white text-xs"
+                />
+              </div>
+              {billLines.length > 0 && (
+                <Select
+                  value=""
+                  onValueChange={(billId) => setOrderCost.mutate({
+                    orderId: order.id,
+                    totalCost: order.totalCost !== null ? order.totalCost / 100 : null,
+                    billId: parseInt(billId),
+                  })}
+                >
+                  <SelectTrigger className="h-8 w-48 bg-slate-900 border-slate-600 text-white text-xs">
+                    <SelectValue placeholder="Link supplier bill..." />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-700">
+                    {billLines.map((line) => (
+                      <SelectItem key={line.sourceId} value={line.sourceId.toString()}>
+                        {line.description} · {formatCents(line.amount)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Cost Ledger */}
+      <h3 className="text-sm font-semibold text-slate-300 mb-2">Cost Ledger</h3>
+      {costing.lines.length === 0 ? (
+        <p className="text-sm text-slate-400">
+          No costs recorded yet. Bills, expenses and bank transactions tagged to this job appear here automatically.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-slate-700">
+                <th className="text-left py-2 px-4 text-xs font-semibold text-slate-400">Date</th>
+                <th className="text-left py-2 px-4 text-xs font-semibold text-slate-400">Source</th>
+                <th className="text-left py-2 px-4 text-xs font-semibold text-slate-400">Description</th>
+                <th className="text-left py-2 px-4 text-xs font-semibold text-slate-400">Category</th>
+                <th className="text-right py-2 px-4 text-xs font-semibold text-slate-400">Amount</th>
+                {canEdit && <th />}
+              </tr>
+            </thead>
+            <tbody>
+              {costing.lines.map((line) => (
+                <tr key={`${line.source}-${line.sourceId}`} className="border-b border-slate-700/50 hover:bg-slate-700/20">
+                  <td className="py-2 px-4 text-sm text-slate-300">{format(new Date(line.date), "MMM dd, yyyy")}</td>
+                  <td className="py-2 px-4 text-xs text-slate-400">{SOURCE_LABELS[line.source]}</td>
+                  <td className="py-2 px-4 text-sm text-white">{line.description}</td>
+                  <td className="py-2 px-4 text-xs text-slate-400">{CATEGORY_LABELS[line.category as CostCategory]}</td>
+                  <td className="py-2 px-4 text-right font-mono text-white">{formatCents(line.amount)}</td>
+                  {canEdit && (
+                    <td className="py-2 px-4 text-right">
+                      {line.source === "manual" && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-slate-400 hover:text-red-400"
+                          disabled={deleteEntry.isPending}
+                          onClick={() => confirm("Remove this cost?") && deleteEntry.mutate({ id: line.sourceId })}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Add Cost Dialog */}
+      <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+        <DialogContent className="bg-slate-800 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-white">Add Job Cost</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              For costs not already recorded as a bill, expense or bank transaction, such as crew labor.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="text-white">Category</Label>
+              <Select value={entry.category} onValueChange={(value) => setEntry({ ...entry, category: value as CostCategory })}>
+                <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {(Object.keys(CATEGORY_LABELS) as CostCategory[]).map((category) => (
+                    <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-white">Date</Label>
+              <Input
+                type="date"
+                value={entry.entryDate}
+                onChange={(e) => setEntry({ ...entry, entryDate: e.target.value })}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+            <div className="col-span-2">
+              <Label className="text-white">Description</Label>
+              <Input
+                value={entry.description}
+                onChange={(e) => setEntry({ ...entry, description: e.target.value })}
+                placeholder={entry.category === "labor" ? "Tear-off and install" : "What was it for?"}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+            {entry.category === "labor" && (
+              <>
+                <div className="col-span-2">
+                  <Label className="text-white">Crew Member</Label>
+                  <Select value={entry.userId} onValueChange={(value) => setEntry({ ...entry, userId: value })}>
+                    <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                      <SelectValue placeholder="Select crew member..." />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700">
+                      {team.map((member) => (
+                        <SelectItem key={member.id} value={member.id.toString()}>{member.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-white">Hours</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.25"
+                    value={entry.hours}
+                    onChange={(e) => setEntry({ ...entry, hours: e.target.value })}
+                    className="bg-slate-700 border-slate-600 text-white"
+                  />
+                </div>
+                <div>
+                  <Label className="text-white">Hourly Rate ($)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={entry.hourlyRate}
+                    onChange={(e) => setEntry({ ...entry, hourlyRate: e.target.value })}
+                    className="bg-slate-700 border-slate-600 text-white"
+                  />
+                </div>
+              </>
+            )}
+            <div className="col-span-2">
+              <Label className="text-white">
+                Amount ($){entry.category === "labor" && <span className="text-slate-500 font-normal"> — or leave blank to use hours × rate</span>}
+              </Label>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                value={entry.amount}
+                onChange={(e) => setEntry({ ...entry, amount: e.target.value })}
+                placeholder="0.00"
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowAddDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleAddEntry}
+              disabled={addEntry.isPending}
+              className="bg-[#00d4aa] hover:bg-[#00b894] text-black"
+            >
+              {addEntry.isPending ? "Adding..." : "Add Cost"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,136 @@
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { KeyRound, Mail, MessageSquare, Ban, Loader2 } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { format, formatDistanceToNow } from "date-fns";
+import type { Job } from "@/types";
+
+interface PortalAccessCardProps {
+  job: Job;
+  canEdit: boolean;
+}
+
+const CHANNEL_LABELS: Record<string, string> = {
+  email: "Email link",
+  sms: "Text link",
+  code: "Sign-in code",
+};
+
+export function PortalAccessCard({ job, canEdit }: PortalAccessCardProps) {
+  const utils = trpc.useUtils();
+  const { data: tokens = [], isLoading } = trpc.portal.getAccessTokens.useQuery({ jobId: job.id });
+
+  const sendLink = trpc.portal.sendAccessLink.useMutation({
+    onSuccess: (_data, variables) => {
+      toast.success(`Portal link sent by ${variables.channel === "email" ? "email" : "text"}`);
+      utils.portal.getAccessTokens.invalidate({ jobId: job.id });
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const revoke = trpc.portal.revokeAccess.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.revoked ? "Portal access revoked" : "Nothing to revoke");
+      utils.portal.getAccessTokens.invalidate({ jobId: job.id });
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const now = new Date();
+  const active = tokens.filter(t => !t.revokedAt && new Date(t.expiresAt) > now);
+  const recent = tokens.slice(0, 5);
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <KeyRound className="w-5 h-5 text-[#00d4aa]" />
+          Customer Portal
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canEdit && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+              disabled={!job.email || sendLink.isPending}
+              onClick={() => sendLink.mutate({ jobId: job.id, channel: "email" })}
+            >
+              <Mail className="w-4 h-4 mr-2" />
+              Email Link
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+              disabled={!job.phone || sendLink.isPending}
+              onClick={() => sendLink.mutate({ jobId: job.id, channel: "sms" })}
+            >
+              <MessageSquare className="w-4 h-4 mr-2" />
+              Text Link
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+        ) : recent.length === 0 ? (
+          <p className="text-sm text-slate-400">No portal access has been issued for this job.</p>
+        ) : (
+          <div className="space-y-2">
+            {recent.map(token => {
+              const expired = new Date(token.expiresAt) <= now;
+              return (
+                <div key={token.id} className="flex items-center justify-between gap-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="text-slate-200 truncate">
+                      {CHANNEL_LABELS[token.channel]}{token.sentTo ? ` · ${token.sentTo}` : ""}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {token.lastUsedAt
+                        ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                        : `Issued ${format(new Date(token.createdAt), "MMM d")}${token.createdByName ? ` by ${token.createdByName}` : ""}`}
+                    </p>
+                  </div>
+                  {token.revokedAt ? (
+                    <Badge className="bg-red-500/20 text-red-300">Revoked</Badge>
+                  ) : expired ? (
+                    <Badge className="bg-slate-600 text-slate-300">Expired</Badge>
+                  ) : canEdit ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-slate-400 hover:text-red-400"
+                      disabled={revoke.isPending}
+                      onClick={() => revoke.mutate({ jobId: job.id, tokenId: token.id })}
+                    >
+                      <Ban className="w-4 h-4" />
+                    </Button>
+                  ) : (
+                    <Badge className="bg-emerald-500/20 text-emerald-300">Active</Badge>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {canEdit && active.length > 1 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full text-red-400 hover:text-red-300 hover:bg-red-500/10"
+            disabled={revoke.isPending}
+            onClick={() => revoke.mutate({ jobId: job.id })}
+          >
+            Revoke all access ({active.length})
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
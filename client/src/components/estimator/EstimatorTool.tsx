@@ -1,17 +1,47 @@
 import React, { useState } from 'react';
 import FileUpload from './FileUpload';
 import AuditResults from './AuditResults';
+import ScopeComparison from './ScopeComparison';
+import SupplementBuilder from './SupplementBuilder';
 import { trpc } from '@/lib/trpc';
 import { AuditResult } from './types';
+import { History } from 'lucide-react';
 
-function EstimatorTool() {
+interface EstimatorToolProps {
+  jobId?: number; // When set, analyses are saved to the job's scope history
+  documents?: { id: number; fileName: string }[];
+}
+
+const formatCents = (cents: number | null) =>
+  cents === null ? 'N/A' : `$${(cents / 100).toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+
+// Which path read the scope, from insuranceScopes.parserVersion
+const parserLabel = (parserVersion: string | null) => {
+  if (!parserVersion) return null;
+  if (parserVersion.includes('+llm')) return 'Parsed + AI';
+  if (parserVersion.startsWith('llm')) return 'AI';
+  return parserVersion.endsWith(':partial') ? 'Parsed (partial)' : 'Parsed';
+};
+
+function EstimatorTool({ jobId, documents = [] }: EstimatorToolProps) {
   const [result, setResult] = useState<AuditResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [sourceDocumentId, setSourceDocumentId] = useState<string>('');
+
+  const utils = trpc.useUtils();
+  const { data: scopeVersions } = trpc.estimates.getJobScopes.useQuery(
+    { jobId: jobId! },
+    { enabled: !!jobId }
+  );
 
   const analyzeMutation = trpc.estimates.analyzeScope.useMutation({
     onSuccess: (data) => {
       setResult(data);
       setError(null);
+      if (jobId) {
+        utils.estimates.getJobScopes.invalidate({ jobId });
+        utils.estimates.getScopeComparison.invalidate({ jobId });
+      }
     },
     onError: (err) => {
       console.error(err);
@@ -22,7 +52,20 @@ function EstimatorTool() {
 
   const handleAnalyze = async (text: string) => {
     setError(null);
-    analyzeMutation.mutate({ text });
+    analyzeMutation.mutate({
+      text,
+      jobId,
+      documentId: sourceDocumentId ? parseInt(sourceDocumentId) : undefined,
+    });
+  };
+
+  const handleOpenVersion = async (scopeId: number) => {
+    try {
+      setResult(await utils.estimates.getScope.fetch({ id: scopeId }));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || "Failed to load saved scope.");
+    }
   };
 
   const handleReset = () => {
@@ -51,7 +94,55 @@ function EstimatorTool() {
                 Upload your Xactimate Scope of Loss. Zerox will parse the codes, find the missing profit, and audit for red flags in seconds.
               </p>
             </div>
+            {jobId && documents.length > 0 && (
+              <div className="w-full max-w-2xl mx-auto mb-4">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Source document (optional)</label>
+                <select
+                  value={sourceDocumentId}
+                  onChange={(e) => setSourceDocumentId(e.target.value)}
+                  className="w-full p-2 border border-slate-300 rounded-lg bg-white text-sm"
+                >
+                  <option value="">None</option>
+                  {documents.map(doc => (
+                    <option key={doc.id} value={doc.id}>{doc.fileName}</option>
+                  ))}
+                </select>
+              </div>
+            )}
             <FileUpload onAnalyze={handleAnalyze} isLoading={analyzeMutation.isPending} />
+
+            {scopeVersions && scopeVersions.length > 0 && (
+              <div className="w-full max-w-2xl mx-auto mt-8 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                <div className="p-4 border-b border-slate-100 bg-slate-50">
+                  <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+                    <History className="w-5 h-5 text-blue-500" />
+                    Scope History
+                  </h3>
+                </div>
+                <div className="divide-y divide-slate-100">
+                  {scopeVersions.map(scope => (
+                    <button
+                      key={scope.id}
+                      onClick={() => handleOpenVersion(scope.id)}
+                      className="w-full p-3 flex justify-between items-center text-left hover:bg-slate-50"
+                    >
+                      <div>
+                        <span className="font-mono text-xs font-bold bg-slate-200 px-1.5 py-0.5 rounded text-slate-700 mr-2">
+                          v{scope.version}
+                        </span>
+                        <span className="text-sm text-slate-700">{scope.carrierName || 'Unknown carrier'}</span>
+                        <span className="text-xs text-slate-400 ml-2">
+                          {new Date(scope.parsedAt).toLocaleDateString()}
+                          {scope.documentName && ` · ${scope.documentName}`}
+                          {parserLabel(scope.parserVersion) && ` · ${parserLabel(scope.parserVersion)}`}
+                        </span>
+                      </div>
+                      <span className="font-semibold text-slate-900 text-sm">RCV {formatCents(scope.rcvAmount)}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
             
             <div className="mt-12 text-center">
               <p className="text-xs text-slate-400 uppercase font-semibold mb-2">Try pasting this sample:</p>
@@ -73,7 +164,15 @@ Deductible: $1,000.00`}
             </div>
           </div>
         ) : (
-          <AuditResults data={result} onReset={handleReset} />
+          <>
+            <AuditResults data={result} onReset={handleReset} />
+            {jobId && result.scopeId && (
+              <div className="max-w-6xl mx-auto pb-12 space-y-6">
+                <ScopeComparison jobId={jobId} scopeId={result.scopeId} />
+                <SupplementBuilder jobId={jobId} scopeId={result.scopeId} flags={result.audit_flags} />
+              </div>
+            )}
+          </>
         )}
       </main>
     </div>
@@ -0,0 +1,114 @@
+import React from 'react';
+import { Scale, PackageSearch } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+
+interface ScopeComparisonProps {
+  jobId: number;
+  scopeId?: number | null;
+}
+
+const formatCents = (cents: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(cents / 100);
+
+const formatQuantity = (quantity: number) => quantity.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+const ScopeComparison: React.FC<ScopeComparisonProps> = ({ jobId, scopeId }) => {
+  const { data: comparison, isLoading } = trpc.estimates.getScopeComparison.useQuery({
+    jobId,
+    scopeId: scopeId ?? undefined,
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-slate-500">Loading comparison...</div>;
+  }
+
+  if (!comparison) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <Scale className="w-5 h-5 text-blue-500" />
+          Scope vs. Estimate
+          <span className="text-xs font-medium text-slate-500">(Version {comparison.version})</span>
+        </h3>
+        <span className="text-xs font-medium bg-slate-200 text-slate-600 px-2 py-1 rounded-full">
+          {comparison.materialOrderCount} material order{comparison.materialOrderCount === 1 ? '' : 's'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 border-b border-slate-100">
+        <div>
+          <p className="text-xs text-slate-500 uppercase font-semibold">Carrier RCV</p>
+          <p className="text-lg font-bold text-slate-900">{formatCents(comparison.carrierRcv)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-slate-500 uppercase font-semibold">Our Proposal</p>
+          <p className="text-lg font-bold text-slate-900">{formatCents(comparison.proposalTotal)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-slate-500 uppercase font-semibold">Proposal Gap</p>
+          <p className={`text-lg font-bold ${comparison.proposalGap > 0 ? 'text-rose-600' : 'text-green-600'}`}>
+            {formatCents(comparison.proposalGap)}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-slate-500 uppercase font-semibold">Line Item Shortfall</p>
+          <p className={`text-lg font-bold ${comparison.lineItemGap > 0 ? 'text-rose-600' : 'text-green-600'}`}>
+            {formatCents(comparison.lineItemGap)}
+          </p>
+        </div>
+      </div>
+
+      {comparison.rows.length === 0 ? (
+        <div className="p-8 text-center text-slate-500">
+          <PackageSearch className="w-10 h-10 mx-auto mb-2 text-slate-400" />
+          <p>No roofing line items or material orders to compare yet.</p>
+        </div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-xs uppercase text-slate-500">
+            <tr>
+              <th className="text-left p-3">Component</th>
+              <th className="text-right p-3">Carrier Qty</th>
+              <th className="text-right p-3">Ordered Qty</th>
+              <th className="text-right p-3">Difference</th>
+              <th className="text-right p-3">Carrier Price</th>
+              <th className="text-right p-3">Gap</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {comparison.rows.map(row => (
+              <tr key={row.key} className="hover:bg-slate-50">
+                <td className="p-3 font-medium text-slate-800">{row.label}</td>
+                <td className="p-3 text-right text-slate-600">{formatQuantity(row.carrierQuantity)} {row.unit}</td>
+                <td className="p-3 text-right text-slate-600">{formatQuantity(row.orderedQuantity)} {row.unit}</td>
+                <td className={`p-3 text-right font-medium ${row.quantityGap > 0 ? 'text-rose-600' : 'text-slate-600'}`}>
+                  {row.quantityGap > 0 ? '+' : ''}{formatQuantity(row.quantityGap)}
+                </td>
+                <td className="p-3 text-right text-slate-600">
+                  {row.unitPrice !== null ? `${formatCents(row.unitPrice)}/${row.unit}` : 'Not scoped'}
+                </td>
+                <td className="p-3 text-right font-semibold text-slate-900">{formatCents(row.gapAmount)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {comparison.unmatchedScopeItems.length > 0 && (
+        <div className="p-4 border-t border-slate-100 text-xs text-slate-500">
+          {comparison.unmatchedScopeItems.length} other carrier line item{comparison.unmatchedScopeItems.length === 1 ? '' : 's'} not tied to a material order
+          ({comparison.unmatchedScopeItems.map(item => item.code).join(', ')})
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScopeComparison;
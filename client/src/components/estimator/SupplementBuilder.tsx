@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from 'react';
+import { FilePlus2, Loader2, Trash2, ExternalLink } from 'lucide-react';
+import { toast } from 'sonner';
+import { trpc } from '@/lib/trpc';
+import { AuditFlag } from './types';
+
+interface SupplementBuilderProps {
+  jobId: number;
+  scopeId: number;
+  flags: AuditFlag[];
+}
+
+interface DraftItem {
+  code: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+}
+
+const formatMoney = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const SupplementBuilder: React.FC<SupplementBuilderProps> = ({ jobId, scopeId, flags }) => {
+  const [selectedFlags, setSelectedFlags] = useState<number[]>([]);
+  const [draftFlags, setDraftFlags] = useState<number[] | null>(null);
+  const [items, setItems] = useState<DraftItem[]>([]);
+  const [selectedPhotos, setSelectedPhotos] = useState<number[]>([]);
+  const [notes, setNotes] = useState('');
+  const [letterUrl, setLetterUrl] = useState<string | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: draft, isFetching } = trpc.supplements.draft.useQuery(
+    { jobId, scopeId, flagIndexes: draftFlags || [] },
+    { enabled: !!draftFlags && draftFlags.length > 0 }
+  );
+
+  useEffect(() => {
+    if (draft) {
+      setItems(draft.items.map(({ code, description, quantity, unit, unitPrice }) => ({ code, description, quantity, unit, unitPrice })));
+    }
+  }, [draft]);
+
+  const createSupplement = trpc.supplements.create.useMutation({
+    onSuccess: (result) => {
+      toast.success('Supplement letter generated and change order created');
+      setLetterUrl(result.pdfUrl);
+      utils.changeOrders.getJobChangeOrders.invalidate({ jobId });
+      utils.changeOrders.getJobSummary.invalidate({ jobId });
+      utils.crm.getLead.invalidate({ id: jobId });
+    },
+    onError: (error) => toast.error(`Failed to create supplement: ${error.message}`),
+  });
+
+  if (flags.length === 0) return null;
+
+  const toggle = (list: number[], value: number) =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const updateItem = (index: number, field: 'quantity' | 'unitPrice', value: string) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, [field]: parseFloat(value) || 0 } : item)));
+  };
+
+  const total = items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
+
+  const handleGenerate = () => {
+    const validItems = items.filter(item => item.quantity > 0);
+    if (validItems.length === 0) {
+      toast.error('Add at least one line item with a quantity');
+      return;
+    }
+    createSupplement.mutate({
+      jobId,
+      scopeId,
+      items: validItems,
+      photoDocumentIds: selectedPhotos,
+      notes: notes || undefined,
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 bg-slate-50">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <FilePlus2 className="w-5 h-5 text-blue-500" />
+          Build Supplement
+        </h3>
+        <p className="text-xs text-slate-500 mt-1">Select the flagged items to request from the carrier.</p>
+      </div>
+
+      <div className="p-4 space-y-2 border-b border-slate-100">
+        {flags.map((flag, index) => (
+          <label key={index} className="flex items-start gap-2 text-sm text-slate-700 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={selectedFlags.includes(index)}
+              onChange={() => setSelectedFlags(toggle(selectedFlags, index))}
+            />
+            <span>
+              <span className="font-semibold">{flag.issue}</span>
+              <span className="text-slate-500"> — {flag.description}</span>
+            </span>
+          </label>
+        ))}
+        <button
+          onClick={() => setDraftFlags(selectedFlags)}
+          disabled={selectedFlags.length === 0 || isFetching}
+          className="mt-2 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:bg-slate-200 disabled:text-slate-400"
+        >
+          {isFetching ? 'Drafting...' : 'Draft Line Items'}
+        </button>
+      </div>
+
+      {draft && (
+        <div className="p-4 space-y-4">
+          {draft.measurements.source === 'none' && (
+            <p className="text-xs text-amber-600">No roof measurements on this job. Enter quantities manually.</p>
+          )}
+
+          {items.length === 0 ? (
+            <p className="text-sm text-slate-500">The carrier already scoped these items in full.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-xs uppercase text-slate-500">
+                <tr>
+                  <th className="text-left py-2">Item</th>
+                  <th className="text-right py-2">Qty</th>
+                  <th className="text-right py-2">Unit Price</th>
+                  <th className="text-right py-2">Total</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {items.map((item, index) => (
+                  <tr key={`${item.code}-${index}`}>
+                    <td className="py-2">
+                      <span className="font-mono text-xs font-bold bg-slate-200 px-1.5 py-0.5 rounded text-slate-700 mr-2">{item.code}</span>
+                      {item.description}
+                    </td>
+                    <td className="py-2 text-right">
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={item.quantity}
+                        onChange={(e) => updateItem(index, 'quantity', e.target.value)}
+                        className="w-20 p-1 border border-slate-300 rounded text-right"
+                      />
+                      <span className="ml-1 text-xs text-slate-500">{item.unit}</span>
+                    </td>
+                    <td className="py-2 text-right">
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={item.unitPrice}
+                        onChange={(e) => updateItem(index, 'unitPrice', e.target.value)}
+                        className="w-24 p-1 border border-slate-300 rounded text-right"
+                      />
+                    </td>
+                    <td className="py-2 text-right font-semibold">{formatMoney(item.quantity * item.unitPrice)}</td>
+                    <td className="py-2 text-right">
+                      <button onClick={() => setItems(items.filter((_, i) => i !== index))} className="text-slate-400 hover:text-rose-500">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {draft.photos.length > 0 && (
+            <div>
+              <p className="text-xs font-semibold uppercase text-slate-500 mb-2">Photo Evidence</p>
+              <div className="grid grid-cols-4 gap-2">
+                {draft.photos.map(photo => (
+                  <button
+                    key={photo.id}
+                    onClick={() => setSelectedPhotos(toggle(selectedPhotos, photo.id))}
+                    className={`aspect-square rounded-lg overflow-hidden border-2 ${selectedPhotos.includes(photo.id) ? 'border-blue-500' : 'border-transparent opacity-70'}`}
+                    title={photo.fileName}
+                  >
+                    <img src={photo.fileUrl} alt={photo.fileName} className="w-full h-full object-cover" />
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Notes for the adjuster (optional)"
+            className="w-full h-20 p-2 border border-slate-300 rounded-lg text-sm resize-none"
+          />
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-slate-600">
+              Requested: <span className="font-bold text-slate-900">{formatMoney(total)}</span>
+            </span>
+            <div className="flex items-center gap-3">
+              {letterUrl && (
+                <a href={letterUrl} target="_blank" rel="noopener noreferrer" className="text-sm text-blue-600 hover:underline flex items-center gap-1">
+                  View letter <ExternalLink className="w-3 h-3" />
+                </a>
+              )}
+              <button
+                onClick={handleGenerate}
+                disabled={createSupplement.isPending || items.length === 0}
+                className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:bg-slate-200 disabled:text-slate-400 flex items-center gap-2"
+              >
+                {createSupplement.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                Generate Supplement
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SupplementBuilder;
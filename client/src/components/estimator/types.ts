@@ -13,6 +13,17 @@ export interface LineItemSummary {
   description: string;
 }
 
+export interface ScopeLineItem {
+  code: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+  rcv: number;
+  depreciation: number;
+  acv: number;
+}
+
 export interface AuditFlag {
   severity: "HIGH" | "MEDIUM" | "LOW";
   issue: string;
@@ -22,6 +33,10 @@ export interface AuditFlag {
 export interface AuditResult {
   claim_info: ClaimInfo;
   line_items_summary: LineItemSummary[];
+  line_items: ScopeLineItem[];
   audit_flags: AuditFlag[];
   estimator_notes: string;
+  scopeId?: number | null; // Set when the analysis was saved against a job
+  version?: number | null;
+  parserVersion?: string | null; // "rules:v1", "llm:<model>" or both when sections fell back
 }
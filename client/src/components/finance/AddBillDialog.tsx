@@ -22,6 +22,26 @@ export function AddBillDialog({ open, onOpenChange }: AddBillDialogProps) {
   });
 
   const utils = trpc.useUtils();
+  const { data: vendors = [] } = trpc.bills.getVendors.useQuery(undefined, { enabled: open });
+
+  // Picking a known vendor fills in its contact details, category and terms
+  const handleVendorChange = (vendorName: string) => {
+    const vendor = vendors.find(v => v.vendorName.toLowerCase() === vendorName.trim().toLowerCase());
+    if (!vendor) {
+      setFormData({ ...formData, vendorName });
+      return;
+    }
+    const dueDate = new Date(formData.billDate);
+    dueDate.setDate(dueDate.getDate() + vendor.paymentTermsDays);
+    setFormData({
+      ...formData,
+      vendorName,
+      vendorEmail: formData.vendorEmail || vendor.vendorEmail || '',
+      vendorPhone: formData.vendorPhone || vendor.vendorPhone || '',
+      category: formData.category || vendor.defaultCategory || '',
+      dueDate: formData.dueDate || dueDate.toISOString().split('T')[0],
+    });
+  };
 
   const createBill = trpc.bills.create.useMutation({
     onSuccess: () => {
@@ -98,12 +118,18 @@ export function AddBillDialog({ open, onOpenChange }: AddBillDialogProps) {
               </label>
               <input
                 type="text"
+                list="bill-vendors"
                 value={formData.vendorName}
-                onChange={(e) => setFormData({ ...formData, vendorName: e.target.value })}
+                onChange={(e) => handleVendorChange(e.target.value)}
                 className="w-full bg-zinc-900 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-purple-500/50 transition-all"
                 placeholder="Enter vendor name"
                 required
               />
+              <datalist id="bill-vendors">
+                {vendors.map(vendor => (
+                  <option key={vendor.id} value={vendor.vendorName} />
+                ))}
+              </datalist>
             </div>
 
             <div className="grid grid-cols-2 gap-4">
@@ -206,9 +232,11 @@ export function AddBillDialog({ open, onOpenChange }: AddBillDialogProps) {
                 <option value="materials">Materials</option>
                 <option value="labor">Labor</option>
                 <option value="equipment">Equipment</option>
+                <option value="vehicle">Vehicle</option>
                 <option value="utilities">Utilities</option>
                 <option value="insurance">Insurance</option>
                 <option value="professional_services">Professional Services</option>
+                <option value="marketing">Marketing</option>
                 <option value="office">Office Supplies</option>
                 <option value="other">Other</option>
               </select>
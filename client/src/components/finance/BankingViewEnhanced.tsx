@@ -16,7 +16,8 @@ import {
   YEARS, 
   ViewMode,
   BankAccountType,
-  AI_BATCH_SIZE 
+  AI_BATCH_SIZE,
+  STATEMENT_FILE_EXTENSIONS,
 } from '@/constants/banking-constants';
 
 // Hooks
@@ -32,6 +33,7 @@ import { BankingControlBar } from './banking/BankingControlBar';
 import { BankingSummary } from './banking/BankingSummary';
 import { AccountCards } from './banking/AccountCards';
 import { TransactionList } from './banking/TransactionList';
+import { CategorizationRules } from './banking/CategorizationRules';
 import { EditTransactionDialog } from './banking/dialogs/EditTransactionDialog';
 import { QuickAddDialog } from './banking/dialogs/QuickAddDialog';
 import { MatchTransactionDialog } from './banking/dialogs/MatchTransactionDialog';
@@ -81,6 +83,7 @@ export function BankingViewEnhanced() {
   const { data: transactions = [] } = trpc.banking.getAll.useQuery({ status: 'all' });
   const { data: jobs = [] } = trpc.crm.getLeads.useQuery({});
   const { data: accounts = [] } = trpc.bankAccounts.getAll.useQuery({});
+  const { data: matchSuggestions = [] } = trpc.banking.getMatchSuggestions.useQuery();
 
   // Custom Hooks
   const { selectedCategory, selectedProject, setSelectedCategory, setSelectedProject } = useTransactionState();
@@ -90,7 +93,18 @@ export function BankingViewEnhanced() {
     search: searchQuery,
     category: categoryFilter,
   });
-  const { reconcile, bulkImport, deleteTransaction, bulkDelete, updateTransaction, categorizeBatch } = useBankingMutations();
+  const {
+    reconcile,
+    bulkImport,
+    importStatementFile,
+    deleteTransaction,
+    bulkDelete,
+    updateTransaction,
+    categorizeBatch,
+    suggestMatches,
+    confirmMatch,
+    rejectMatch,
+  } = useBankingMutations();
 
   // Combined categories
   const allCategories = [...DEFAULT_CATEGORIES, ...customCategories, 'Legacy'];
@@ -133,6 +147,24 @@ export function BankingViewEnhanced() {
     const fileName = file.name.toLowerCase();
     const isPDF = fileName.endsWith('.pdf');
 
+    // Bank export formats are parsed on the server, which also dedupes by FITID
+    if (STATEMENT_FILE_EXTENSIONS.some((ext) => fileName.endsWith(ext))) {
+      setIsUploading(true);
+      importStatementFile.mutate(
+        { fileName: file.name, content: await file.text() },
+        {
+          onSuccess: (data) => {
+            setNewlyImportedIds(data.transactions.map((t) => t.id));
+            if (data.count > 0) setShowAIPrompt(true);
+            setViewMode('detailed');
+            setIsUploading(false);
+          },
+          onError: () => setIsUploading(false),
+        }
+      );
+      return;
+    }
+
     if (isPDF && (!year || !month)) {
       setPendingFile(file);
       setShowDateDialog(true);
@@ -422,7 +454,7 @@ export function BankingViewEnhanced() {
 
         {/* View Mode Tabs */}
         <div className="flex gap-2 border-b border-slate-700">
-          {(['summary', 'detailed', 'accounts'] as ViewMode[]).map((mode) => (
+          {(['summary', 'detailed', 'accounts', 'rules'] as ViewMode[]).map((mode) => (
             <button
               key={mode}
               onClick={() => setViewMode(mode)}
@@ -453,6 +485,7 @@ export function BankingViewEnhanced() {
             reconciledTransactions={reconciledTransactions}
             jobs={jobs}
             categories={allCategories}
+            matchSuggestions={matchSuggestions}
             selectedCategory={selectedCategory}
             selectedProject={selectedProject}
             editingTransactionId={editingTransactionId}
@@ -467,9 +500,13 @@ export function BankingViewEnhanced() {
             onCancelEdit={cancelEdit}
             onDescriptionChange={setEditedDescription}
             onOpenMatchDialog={handleOpenMatchDialog}
+            onConfirmMatch={(matchId) => confirmMatch.mutate({ matchId })}
+            onRejectMatch={(matchId) => rejectMatch.mutate({ matchId })}
+            onFindMatches={() => suggestMatches.mutate()}
             selectedMonth={selectedMonth}
             selectedYear={selectedYear}
-            isReconciling={reconcile.isPending}
+            isReconciling={reconcile.isPending || confirmMatch.isPending}
+            isMatching={suggestMatches.isPending}
           />
         )}
 
@@ -480,6 +517,11 @@ export function BankingViewEnhanced() {
             <AccountCards accounts={accounts} />
           </div>
         )}
+
+        {/* Rules View */}
+        {viewMode === 'rules' && (
+          <CategorizationRules categories={allCategories} jobs={jobs} accounts={accounts} />
+        )}
       </div>
 
       {/* Dialogs */}
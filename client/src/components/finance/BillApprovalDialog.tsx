@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import { X, ShieldCheck, CheckCircle, XCircle, MessageSquare, RotateCcw, Send, Circle } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import { toast } from 'sonner';
+
+interface BillApprovalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bill: {
+    id: number;
+    vendorName: string;
+    totalAmount: string;
+    billNumber: string;
+  } | null;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  submitted: 'Submitted for approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  commented: 'Commented',
+  resubmitted: 'Resubmitted',
+  cleared: 'Approval no longer required',
+};
+
+const ACTION_COLORS: Record<string, string> = {
+  approved: 'text-emerald-400',
+  rejected: 'text-rose-400',
+  submitted: 'text-amber-400',
+  resubmitted: 'text-amber-400',
+};
+
+export const APPROVAL_STATUS_LABELS: Record<string, string> = {
+  not_required: 'No approval needed',
+  pending: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export const getApprovalStatusColor = (status: string) => {
+  switch (status) {
+    case 'approved':
+      return 'bg-emerald-500/10 text-emerald-400 border border-emerald-500/20';
+    case 'rejected':
+      return 'bg-rose-500/10 text-rose-400 border border-rose-500/20';
+    case 'pending':
+      return 'bg-amber-500/10 text-amber-400 border border-amber-500/20';
+    default:
+      return 'bg-zinc-500/10 text-zinc-400 border border-zinc-500/20';
+  }
+};
+
+/**
+ * A bill's approval status, the steps it needs, and its full approval trail,
+ * with approve / reject / comment / resubmit actions for whoever can take them.
+ */
+export function BillApprovalDialog({ open, onOpenChange, bill }: BillApprovalDialogProps) {
+  const [comment, setComment] = useState('');
+  const [rejecting, setRejecting] = useState(false);
+
+  const utils = trpc.useUtils();
+  const { data: history, isLoading } = trpc.billApprovals.getHistory.useQuery(
+    { billId: bill?.id ?? 0 },
+    { enabled: open && !!bill }
+  );
+
+  const onDone = (message: string) => {
+    toast.success(message);
+    setComment('');
+    setRejecting(false);
+    utils.billApprovals.invalidate();
+    utils.bills.invalidate();
+  };
+  const onError = (error: { message: string }) => toast.error(error.message);
+
+  const approve = trpc.billApprovals.approve.useMutation({ onSuccess: () => onDone('Bill approved'), onError });
+  const reject = trpc.billApprovals.reject.useMutation({ onSuccess: () => onDone('Bill rejected'), onError });
+  const resubmit = trpc.billApprovals.resubmit.useMutation({ onSuccess: () => onDone('Bill resubmitted for approval'), onError });
+  const addComment = trpc.billApprovals.comment.useMutation({ onSuccess: () => onDone('Comment added'), onError });
+
+  const busy = approve.isPending || reject.isPending || resubmit.isPending || addComment.isPending;
+
+  const close = () => {
+    setComment('');
+    setRejecting(false);
+    onOpenChange(false);
+  };
+
+  if (!open || !bill) return null;
+
+  const canApprove = history?.approvalStatus === 'pending' && !history.approveBlockedReason;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-[#1a1a20] border border-white/10 rounded-3xl w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-purple-500/10 flex items-center justify-center">
+              <ShieldCheck className="text-purple-400" size={20} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">Bill Approval</h2>
+              <p className="text-sm text-zinc-400">
+                {bill.vendorName} · {bill.billNumber} · ${parseFloat(bill.totalAmount).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+              </p>
+            </div>
+          </div>
+          <button onClick={close} className="p-2 hover:bg-white/5 rounded-xl transition-colors">
+            <X className="text-zinc-400" size={20} />
+          </button>
+        </div>
+
+        {isLoading || !history ? (
+          <div className="p-12 text-center text-zinc-500">Loading approval history...</div>
+        ) : (
+          <>
+            {/* Status and steps */}
+            <div className="p-6 border-b border-white/10 space-y-4">
+              <div className="flex items-center justify-between">
+                <span className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider ${getApprovalStatusColor(history.approvalStatus)}`}>
+                  {APPROVAL_STATUS_LABELS[history.approvalStatus]}
+                </span>
+                {history.ruleName && <span className="text-xs text-zinc-500">Rule: {history.ruleName}</span>}
+              </div>
+
+              {history.steps.length > 0 && (
+                <div className="space-y-2">
+                  {history.steps.map(step => (
+                    <div key={step.step} className="flex items-center gap-3 text-sm">
+                      {step.done
+                        ? <CheckCircle size={16} className="text-emerald-400" />
+                        : <Circle size={16} className="text-zinc-600" />}
+                      <span className="text-zinc-300">
+                        {history.steps.length > 1 ? `Step ${step.step}: ` : ''}{step.roles}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {history.approvalStatus === 'rejected' && history.rejectionReason && (
+                <div className="bg-rose-500/10 border border-rose-500/20 rounded-2xl p-4 text-sm text-rose-300">
+                  <span className="font-bold">Rejection reason:</span> {history.rejectionReason}
+                </div>
+              )}
+
+              {history.approvalStatus === 'pending' && history.approveBlockedReason && (
+                <p className="text-xs text-zinc-500">{history.approveBlockedReason}</p>
+              )}
+            </div>
+
+            {/* Actions */}
+            <div className="p-6 border-b border-white/10 space-y-3">
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                rows={2}
+                placeholder={rejecting ? 'Why is this bill being rejected? (required)' : 'Add a comment...'}
+                className="w-full bg-zinc-900 border border-white/5 rounded-2xl px-4 py-3 text-sm text-white focus:outline-none focus:border-purple-500/50"
+              />
+              <div className="flex flex-wrap gap-2 justify-end">
+                {!rejecting && (
+                  <button
+                    onClick={() => addComment.mutate({ billId: bill.id, comment: comment.trim() })}
+                    disabled={busy || !comment.trim()}
+                    className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-white rounded-xl text-sm font-bold transition-all disabled:opacity-50 flex items-center gap-2"
+                  >
+                    <MessageSquare size={16} />
+                    Comment
+                  </button>
+                )}
+                {history.approvalStatus === 'rejected' && (
+                  <button
+                    onClick={() => resubmit.mutate({ billId: bill.id, comment: comment.trim() || undefined })}
+                    disabled={busy}
+                    className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl text-sm font-bold transition-all disabled:opacity-50 flex items-center gap-2"
+                  >
+                    <RotateCcw size={16} />
+                    Resubmit
+                  </button>
+                )}
+                {canApprove && (rejecting ? (
+                  <>
+                    <button
+                      onClick={() => setRejecting(false)}
+                      disabled={busy}
+                      className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-white rounded-xl text-sm font-bold transition-all"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => reject.mutate({ billId: bill.id, reason: comment.trim() })}
+                      disabled={busy || !comment.trim()}
+                      className="px-4 py-2 bg-rose-600 hover:bg-rose-700 text-white rounded-xl text-sm font-bold transition-all disabled:opacity-50 flex items-center gap-2"
+                    >
+                      <Send size={16} />
+                      Confirm Rejection
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => setRejecting(true)}
+                      disabled={busy}
+                      className="px-4 py-2 bg-rose-600 hover:bg-rose-700 text-white rounded-xl text-sm font-bold transition-all disabled:opacity-50 flex items-center gap-2"
+                    >
+                      <XCircle size={16} />
+                      Reject
+                    </button>
+                    <button
+                      onClick={() => approve.mutate({ billId: bill.id, comment: comment.trim() || undefined })}
+                      disabled={busy}
+                      className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-xl text-sm font-bold transition-all disabled:opacity-50 flex items-center gap-2"
+                    >
+                      <CheckCircle size={16} />
+                      Approve
+                    </button>
+                  </>
+                ))}
+              </div>
+            </div>
+
+            {/* History */}
+            <div className="p-6">
+              <h3 className="text-xs text-zinc-500 uppercase tracking-wider font-bold mb-4">Approval History</h3>
+              {history.events.length === 0 ? (
+                <p className="text-sm text-zinc-500">No approval activity on this bill.</p>
+              ) : (
+                <div className="space-y-4">
+                  {history.events.map(event => (
+                    <div key={event.id} className="flex gap-3">
+                      <div className="w-1 rounded-full bg-white/10" />
+                      <div className="flex-1">
+                        <div className="flex items-center justify-between gap-4">
+                          <span className={`text-sm font-bold ${ACTION_COLORS[event.action] ?? 'text-zinc-300'}`}>
+                            {ACTION_LABELS[event.action] ?? event.action}
+                            {event.step && (event.action === 'approved' || event.action === 'rejected') && history.steps.length > 1
+                              ? ` (step ${event.step})`
+                              : ''}
+                          </span>
+                          <span className="text-xs text-zinc-500 whitespace-nowrap">
+                            {new Date(event.createdAt).toLocaleString()}
+                          </span>
+                        </div>
+                        <p className="text-xs text-zinc-500">
+                          {event.userName ?? 'System'}{event.userRole ? ` · ${event.userRole.replace('_', ' ')}` : ''}
+                        </p>
+                        {event.comment && <p className="text-sm text-zinc-300 mt-1 whitespace-pre-wrap">{event.comment}</p>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
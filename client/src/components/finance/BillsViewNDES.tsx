@@ -1,10 +1,11 @@
 import React, { useState, useMemo, useCallback } from 'react';
-import { Search, Plus, Receipt, AlertCircle, DollarSign, Calendar, Trash2, CheckCircle, Upload } from 'lucide-react';
+import { Search, Plus, Receipt, AlertCircle, DollarSign, Calendar, Trash2, CheckCircle, Upload, ShieldCheck } from 'lucide-react';
 import { trpc } from '@/lib/trpc';
 import { toast } from 'sonner';
 import { AddBillDialog } from './AddBillDialog';
 import { MarkBillPaidDialog } from './MarkBillPaidDialog';
 import { BillCSVImport } from './BillCSVImport';
+import { BillApprovalDialog, APPROVAL_STATUS_LABELS, getApprovalStatusColor } from './BillApprovalDialog';
 
 export function BillsViewNDES() {
   const [search, setSearch] = useState('');
@@ -12,6 +13,7 @@ export function BillsViewNDES() {
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [showMarkPaidDialog, setShowMarkPaidDialog] = useState(false);
   const [showImportDialog, setShowImportDialog] = useState(false);
+  const [approvalBill, setApprovalBill] = useState<any>(null);
   const [selectedBill, setSelectedBill] = useState<any>(null);
   const [selectedBills, setSelectedBills] = useState<Set<number>>(new Set());
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
@@ -320,13 +322,31 @@ export function BillsViewNDES() {
                     </div>
                   </td>
                   <td className="px-8 py-6">
-                    <span className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider ${getStatusColor(bill.status ?? 'pending')}`}>
-                      {bill.status}
-                    </span>
+                    <div className="flex flex-col items-start gap-1">
+                      <span className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider ${getStatusColor(bill.status ?? 'pending')}`}>
+                        {bill.status}
+                      </span>
+                      {bill.approvalStatus !== 'not_required' && (
+                        <button
+                          onClick={() => setApprovalBill(bill)}
+                          className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider ${getApprovalStatusColor(bill.approvalStatus)}`}
+                        >
+                          {APPROVAL_STATUS_LABELS[bill.approvalStatus]}
+                        </button>
+                      )}
+                    </div>
                   </td>
                   <td className="px-8 py-6">
                     <div className="flex items-center justify-center gap-2">
-                      {bill.status !== 'paid' && (
+                      <button
+                        onClick={() => setApprovalBill(bill)}
+                        className="p-2 text-zinc-500 hover:text-purple-400 transition-colors"
+                        title="Approval & History"
+                      >
+                        <ShieldCheck size={16} />
+                      </button>
+                      {/* Bills needing sign-off can't be paid until they're approved */}
+                      {bill.status !== 'paid' && (bill.approvalStatus === 'not_required' || bill.approvalStatus === 'approved') && (
                         <button 
                           onClick={() => handleMarkPaid(bill)}
                           className="p-2 text-zinc-500 hover:text-emerald-400 transition-colors"
@@ -426,6 +446,13 @@ export function BillsViewNDES() {
         bill={selectedBill}
       />
 
+      {/* Bill Approval Dialog */}
+      <BillApprovalDialog
+        open={!!approvalBill}
+        onOpenChange={(open) => !open && setApprovalBill(null)}
+        bill={approvalBill}
+      />
+
       {/* Import Bills CSV Dialog */}
       <BillCSVImport
         open={showImportDialog}
@@ -0,0 +1,420 @@
+import React, { useEffect, useState } from 'react';
+import { PiggyBank, Copy, Save, Pencil, X, ChevronDown, ChevronRight, Bell } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import { toast } from 'sonner';
+
+const CATEGORIES = [
+  'materials',
+  'labor',
+  'equipment',
+  'vehicle',
+  'insurance',
+  'utilities',
+  'marketing',
+  'office',
+  'professional_services',
+  'other',
+] as const;
+type Category = (typeof CATEGORIES)[number];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const SOURCE_LABELS: Record<string, string> = { expense: 'Expense', bank: 'Bank', bill: 'Bill' };
+
+const categoryLabel = (category: string) =>
+  category.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+
+const formatCents = (cents: number) => {
+  const formatted = `$${(Math.abs(cents) / 100).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  return cents < 0 ? `(${formatted})` : formatted;
+};
+
+const STATUS_STYLES: Record<string, { bar: string; text: string }> = {
+  under: { bar: 'bg-emerald-500', text: 'text-emerald-400' },
+  near: { bar: 'bg-amber-500', text: 'text-amber-400' },
+  over: { bar: 'bg-rose-500', text: 'text-rose-400' },
+  no_budget: { bar: 'bg-zinc-600', text: 'text-zinc-500' },
+};
+
+// Grid key for the budget editor
+const cellKey = (category: string, month: number) => `${category}:${month}`;
+
+function CategorySpend({ year, month, category }: { year: number; month: number; category: Category }) {
+  const { data, isLoading } = trpc.budgets.getSpend.useQuery({ year, month, category });
+
+  if (isLoading) return <p className="text-xs text-zinc-500 py-2">Loading spend...</p>;
+  if (!data || data.length === 0) return <p className="text-xs text-zinc-500 py-2">Nothing spent in this category yet</p>;
+
+  return (
+    <table className="w-full text-xs">
+      <tbody>
+        {data.map((entry) => (
+          <tr key={`${entry.source}-${entry.sourceId}`} className="border-t border-white/5">
+            <td className="py-1.5 pr-3 text-zinc-500 whitespace-nowrap">{new Date(entry.date).toLocaleDateString()}</td>
+            <td className="py-1.5 pr-3 text-zinc-500 whitespace-nowrap">{SOURCE_LABELS[entry.source]}</td>
+            <td className="py-1.5 pr-3 text-zinc-300">{entry.label}</td>
+            <td className="py-1.5 text-right font-mono text-zinc-300 w-28">{formatCents(entry.amount)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function BudgetEditor({ year, onClose }: { year: number; onClose: () => void }) {
+  const utils = trpc.useUtils();
+  const { data: budgets, isLoading } = trpc.budgets.list.useQuery({ year });
+  const [cells, setCells] = useState<Record<string, string>>({});
+  const [dirty, setDirty] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!budgets) return;
+    const loaded: Record<string, string> = {};
+    for (const budget of budgets) {
+      loaded[cellKey(budget.category, budget.month)] = (budget.amount / 100).toString();
+    }
+    setCells(loaded);
+    setDirty(new Set());
+  }, [budgets]);
+
+  const invalidate = () => {
+    utils.budgets.list.invalidate();
+    utils.budgets.report.invalidate();
+  };
+
+  const save = trpc.budgets.save.useMutation({
+    onSuccess: ({ saved, removed }) => {
+      toast.success(`Saved ${saved} budget${saved === 1 ? '' : 's'}${removed ? `, removed ${removed}` : ''}`);
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message || 'Failed to save budgets'),
+  });
+
+  const copyForward = trpc.budgets.copyForward.useMutation({
+    onSuccess: ({ created, updated, skipped }) => {
+      toast.success(`Copied ${created + updated} budget${created + updated === 1 ? '' : 's'} from ${year - 1}${skipped ? ` (${skipped} already set)` : ''}`);
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message || 'Failed to copy budgets'),
+  });
+
+  const setCell = (category: Category, month: number, value: string) => {
+    const key = cellKey(category, month);
+    setCells((prev) => ({ ...prev, [key]: value }));
+    setDirty((prev) => new Set(prev).add(key));
+  };
+
+  // Fill the rest of the year with a category's January amount
+  const fillRow = (category: Category) => {
+    const value = cells[cellKey(category, 1)];
+    if (!value) return;
+    for (let month = 2; month <= 12; month++) setCell(category, month, value);
+  };
+
+  const handleSave = () => {
+    const entries = Array.from(dirty).map((key) => {
+      const [category, month] = key.split(':');
+      const value = cells[key]?.trim();
+      return { category: category as Category, month: Number(month), amount: value ? Number(value) : null };
+    });
+    if (entries.some((entry) => entry.amount !== null && (isNaN(entry.amount) || entry.amount < 0))) {
+      toast.error('Budgets must be positive dollar amounts');
+      return;
+    }
+    if (entries.length === 0) return;
+    save.mutate({ year, entries });
+  };
+
+  const handleCopy = () => {
+    const overwrite = (budgets?.length ?? 0) > 0 &&
+      confirm(`Some ${year} budgets are already set. Replace them with ${year - 1}'s amounts? Cancel keeps them and only fills the gaps.`);
+    copyForward.mutate({ year, overwrite });
+  };
+
+  return (
+    <div className="bg-[#1a1a20]/60 border border-white/5 rounded-[24px] overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-white/5">
+        <div>
+          <h3 className="text-white font-bold">{year} Budgets</h3>
+          <p className="text-xs text-zinc-500">Monthly dollars per category; leave a month blank for no budget</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleCopy}
+            disabled={copyForward.isPending}
+            className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-white text-sm font-bold rounded-xl flex items-center gap-2 disabled:opacity-50"
+          >
+            <Copy size={16} />
+            Copy from {year - 1}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={dirty.size === 0 || save.isPending}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-500 text-white text-sm font-bold rounded-xl flex items-center gap-2 disabled:opacity-50"
+          >
+            <Save size={16} />
+            {save.isPending ? 'Saving...' : 'Save'}
+          </button>
+          <button onClick={onClose} className="p-2 text-zinc-500 hover:text-white rounded-xl hover:bg-zinc-800">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+      {isLoading ? (
+        <div className="flex items-center justify-center h-48 text-zinc-500">Loading budgets...</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-xs text-zinc-500 uppercase tracking-wider">
+                <th className="px-4 py-3 font-bold">Category</th>
+                {MONTHS.map((name) => (
+                  <th key={name} className="px-1 py-3 font-bold text-right">{name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {CATEGORIES.map((category) => (
+                <tr key={category} className="border-t border-white/5">
+                  <td className="px-4 py-2 text-sm text-zinc-300 whitespace-nowrap">
+                    <span className="flex items-center gap-2">
+                      {categoryLabel(category)}
+                      <button
+                        onClick={() => fillRow(category)}
+                        title="Copy January across the year"
+                        className="text-[10px] text-zinc-500 hover:text-purple-400"
+                      >
+                        fill
+                      </button>
+                    </span>
+                  </td>
+                  {MONTHS.map((_, i) => {
+                    const key = cellKey(category, i + 1);
+                    return (
+                      <td key={key} className="px-1 py-2">
+                        <input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={cells[key] ?? ''}
+                          onChange={(e) => setCell(category, i + 1, e.target.value)}
+                          className={`w-20 px-2 py-1 bg-zinc-900 border rounded-lg text-xs text-right text-white font-mono focus:outline-none focus:border-purple-500 ${
+                            dirty.has(key) ? 'border-purple-500/50' : 'border-white/10'
+                          }`}
+                        />
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Budget vs. actual by expense category for a month, from budgets.report.
+ * Actuals combine expenses, categorized bank transactions and paid bills.
+ */
+export function BudgetsViewNDES() {
+  const today = new Date();
+  const [year, setYear] = useState(today.getFullYear());
+  const [month, setMonth] = useState(today.getMonth() + 1);
+  const [editing, setEditing] = useState(false);
+  const [expanded, setExpanded] = useState<Category | null>(null);
+
+  const { data: report, isLoading } = trpc.budgets.report.useQuery({ year, month });
+
+  const years = Array.from({ length: 5 }, (_, i) => today.getFullYear() + 1 - i);
+  const isCurrentMonth = year === today.getFullYear() && month === today.getMonth() + 1;
+  const flagged = report?.lines.filter((line) => line.status === 'near' || line.status === 'over') ?? [];
+
+  return (
+    <div className="mt-10 space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-purple-500/10 flex items-center justify-center text-purple-400">
+            <PiggyBank size={20} />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-white">Budget vs. Actual</h2>
+            <p className="text-sm text-zinc-500">Expenses, categorized bank transactions and paid bills against each category's monthly budget</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={month}
+            onChange={(e) => { setMonth(Number(e.target.value)); setExpanded(null); }}
+            className="px-3 py-2 bg-zinc-900 border border-white/10 rounded-xl text-sm text-white focus:outline-none focus:border-purple-500"
+          >
+            {MONTHS.map((name, i) => (
+              <option key={name} value={i + 1}>{name}</option>
+            ))}
+          </select>
+          <select
+            value={year}
+            onChange={(e) => { setYear(Number(e.target.value)); setExpanded(null); }}
+            className="px-3 py-2 bg-zinc-900 border border-white/10 rounded-xl text-sm text-white focus:outline-none focus:border-purple-500"
+          >
+            {years.map((y) => (
+              <option key={y} value={y}>{y}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setEditing(!editing)}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-500 text-white text-sm font-bold rounded-xl flex items-center gap-2"
+          >
+            <Pencil size={16} />
+            Edit Budgets
+          </button>
+        </div>
+      </div>
+
+      {editing && <BudgetEditor year={year} onClose={() => setEditing(false)} />}
+
+      {isLoading || !report ? (
+        <div className="bg-[#1a1a20]/60 border border-white/5 rounded-[24px] flex items-center justify-center h-64">
+          <div className="text-zinc-500">Loading budget report...</div>
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-[#1a1a20]/60 border border-white/5 rounded-[24px] p-5">
+              <p className="text-xs text-zinc-500 mb-1">Budgeted</p>
+              <p className="text-xl font-bold text-white font-mono">{formatCents(report.totals.budget)}</p>
+            </div>
+            <div className="bg-[#1a1a20]/60 border border-white/5 rounded-[24px] p-5">
+              <p className="text-xs text-zinc-500 mb-1">Spent</p>
+              <p className="text-xl font-bold text-white font-mono">{formatCents(report.totals.actual)}</p>
+              <p className="text-xs text-zinc-500">{report.monthElapsedPercent}% of the month gone</p>
+            </div>
+            <div className="bg-[#1a1a20]/60 border border-white/5 rounded-[24px] p-5">
+              <p className="text-xs text-zinc-500 mb-1">Remaining</p>
+              <p className={`text-xl font-bold font-mono ${report.totals.variance < 0 ? 'text-rose-400' : 'text-emerald-400'}`}>
+                {formatCents(report.totals.variance)}
+              </p>
+            </div>
+            <div className="bg-[#1a1a20]/60 border border-white/5 rounded-[24px] p-5">
+              <p className="text-xs text-zinc-500 mb-1">Year to Date</p>
+              <p className={`text-xl font-bold font-mono ${report.totals.ytdVariance < 0 ? 'text-rose-400' : 'text-white'}`}>
+                {formatCents(report.totals.ytdActual)}
+              </p>
+              <p className="text-xs text-zinc-500">of {formatCents(report.totals.ytdBudget)} budgeted</p>
+            </div>
+          </div>
+
+          {isCurrentMonth && flagged.length > 0 && (
+            <div className="flex items-center gap-2 text-sm text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-2xl p-3">
+              <Bell size={16} />
+              <span>
+                {flagged.map((line) => categoryLabel(line.category)).join(', ')}
+                {flagged.length === 1 ? ' has' : ' have'} used 90% or more of {flagged.length === 1 ? 'its' : 'their'} budget
+                with {100 - report.monthElapsedPercent}% of the month to go.
+              </span>
+            </div>
+          )}
+
+          {/* Categories */}
+          <div className="bg-[#1a1a20]/60 border border-white/5 rounded-[24px] overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="text-xs text-zinc-500 uppercase tracking-wider">
+                  <th className="px-6 py-4 font-bold">Category</th>
+                  <th className="px-6 py-4 font-bold text-right">Budget</th>
+                  <th className="px-6 py-4 font-bold text-right">Actual</th>
+                  <th className="px-6 py-4 font-bold text-right">Variance</th>
+                  <th className="px-6 py-4 font-bold w-48">Used</th>
+                  <th className="px-6 py-4 font-bold text-right">YTD Budget</th>
+                  <th className="px-6 py-4 font-bold text-right">YTD Actual</th>
+                  <th className="px-6 py-4 font-bold text-right">YTD Variance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.lines.map((line) => {
+                  const style = STATUS_STYLES[line.status];
+                  const isOpen = expanded === line.category;
+                  return (
+                    <React.Fragment key={line.category}>
+                      <tr
+                        onClick={() => setExpanded(isOpen ? null : line.category)}
+                        className="border-t border-white/5 cursor-pointer hover:bg-white/[0.02]"
+                      >
+                        <td className="px-6 py-3 text-sm text-zinc-300">
+                          <span className="flex items-center gap-2">
+                            {isOpen ? <ChevronDown size={14} className="text-zinc-500" /> : <ChevronRight size={14} className="text-zinc-500" />}
+                            {categoryLabel(line.category)}
+                          </span>
+                        </td>
+                        <td className="px-6 py-3 text-sm text-right font-mono text-zinc-300">
+                          {line.budget === null ? <span className="text-zinc-600">—</span> : formatCents(line.budget)}
+                        </td>
+                        <td
+                          className="px-6 py-3 text-sm text-right font-mono text-white"
+                          title={`Expenses ${formatCents(line.bySource.expense)} · Bank ${formatCents(line.bySource.bank)} · Bills ${formatCents(line.bySource.bill)}`}
+                        >
+                          {formatCents(line.actual)}
+                        </td>
+                        <td className={`px-6 py-3 text-sm text-right font-mono ${line.variance !== null && line.variance < 0 ? 'text-rose-400' : 'text-zinc-300'}`}>
+                          {line.variance === null ? <span className="text-zinc-600">—</span> : formatCents(line.variance)}
+                        </td>
+                        <td className="px-6 py-3">
+                          {line.percentUsed === null ? (
+                            <span className="text-xs text-zinc-600">No budget</span>
+                          ) : (
+                            <div className="flex items-center gap-2">
+                              <div className="relative flex-1 h-2 bg-zinc-800 rounded-full overflow-hidden">
+                                <div className={`h-full ${style.bar}`} style={{ width: `${Math.min(line.percentUsed, 100)}%` }} />
+                                {report.monthElapsedPercent > 0 && report.monthElapsedPercent < 100 && (
+                                  <div className="absolute top-0 h-full w-px bg-white/60" style={{ left: `${report.monthElapsedPercent}%` }} />
+                                )}
+                              </div>
+                              <span className={`text-xs font-mono w-12 text-right ${style.text}`}>{line.percentUsed}%</span>
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-3 text-sm text-right font-mono text-zinc-400">{formatCents(line.ytdBudget)}</td>
+                        <td className="px-6 py-3 text-sm text-right font-mono text-zinc-400">{formatCents(line.ytdActual)}</td>
+                        <td className={`px-6 py-3 text-sm text-right font-mono ${line.ytdVariance < 0 ? 'text-rose-400' : 'text-zinc-400'}`}>
+                          {formatCents(line.ytdVariance)}
+                        </td>
+                      </tr>
+                      {isOpen && (
+                        <tr>
+                          <td colSpan={8} className="px-12 pb-3">
+                            <CategorySpend year={year} month={month} category={line.category} />
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+                <tr className="border-t border-white/10 bg-white/[0.03]">
+                  <td className="px-6 py-3 text-sm font-bold text-white">Total</td>
+                  <td className="px-6 py-3 text-sm text-right font-mono font-bold text-white">{formatCents(report.totals.budget)}</td>
+                  <td className="px-6 py-3 text-sm text-right font-mono font-bold text-white">{formatCents(report.totals.actual)}</td>
+                  <td className={`px-6 py-3 text-sm text-right font-mono font-bold ${report.totals.variance < 0 ? 'text-rose-400' : 'text-white'}`}>
+                    {formatCents(report.totals.variance)}
+                  </td>
+                  <td />
+                  <td className="px-6 py-3 text-sm text-right font-mono font-bold text-white">{formatCents(report.totals.ytdBudget)}</td>
+                  <td className="px-6 py-3 text-sm text-right font-mono font-bold text-white">{formatCents(report.totals.ytdActual)}</td>
+                  <td className={`px-6 py-3 text-sm text-right font-mono font-bold ${report.totals.ytdVariance < 0 ? 'text-rose-400' : 'text-white'}`}>
+                    {formatCents(report.totals.ytdVariance)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-zinc-500">
+            Bank transactions count once categorized; ones matched to a bill or expense count there instead. The owner is emailed
+            when a category passes 90% of its budget during the month.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
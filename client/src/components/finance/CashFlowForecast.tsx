@@ -1,181 +1,184 @@
-import React from 'react';
-import { TrendingDown, AlertTriangle, DollarSign, Calendar } from 'lucide-react';
+import React, { useState } from 'react';
+import { AlertTriangle, DollarSign, TrendingDown, TrendingUp, Calendar } from 'lucide-react';
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  Legend,
+} from 'recharts';
 import { trpc } from '@/lib/trpc';
 
-export function CashFlowForecast() {
-  const { data: accountStats } = trpc.bankAccounts.getStats.useQuery();
-  const { data: bills = [] } = trpc.bills.getAll.useQuery({
-    status: 'pending',
-  });
-
-  // Calculate bills due in next 7 days
-  const today = new Date();
-  const next7Days = new Date(today);
-  next7Days.setDate(today.getDate() + 7);
+const SOURCE_LABELS: Record<string, string> = {
+  receivable: 'Invoice',
+  milestone: 'Milestone',
+  bill: 'Bill',
+  recurring: 'Recurring',
+  commission: 'Commission',
+};
 
-  const billsDueNext7Days = bills.filter(item => {
-    const dueDate = new Date(item.bill.dueDate);
-    return dueDate >= today && dueDate <= next7Days;
-  });
+const formatCents = (cents: number) =>
+  `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 
-  const totalBillsDue = billsDueNext7Days.reduce(
-    (sum, item) => sum + parseFloat(item.bill.totalAmount || '0'),
-    0
-  );
+const shortDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
 
-  // Calculate bills due in next 30 days
-  const next30Days = new Date(today);
-  next30Days.setDate(today.getDate() + 30);
-
-  const billsDueNext30Days = bills.filter(item => {
-    const dueDate = new Date(item.bill.dueDate);
-    return dueDate >= today && dueDate <= next30Days;
-  });
+/**
+ * 13-week cash forecast from reports.getCashForecast: weekly inflows and
+ * outflows with the projected balance against the low-cash threshold.
+ */
+export function CashFlowForecast() {
+  const [selectedWeek, setSelectedWeek] = useState<number | null>(null);
+  const { data: forecast, isLoading } = trpc.reports.getCashForecast.useQuery();
 
-  const totalBillsDue30 = billsDueNext30Days.reduce(
-    (sum, item) => sum + parseFloat(item.bill.totalAmount || '0'),
-    0
-  );
+  if (isLoading || !forecast) {
+    return (
+      <div className="bg-[#151a21] border border-gray-800 rounded-2xl p-6 shadow-lg">
+        <div className="flex items-center justify-center h-64 text-gray-500">Loading cash forecast...</div>
+      </div>
+    );
+  }
 
-  const currentBalance = accountStats?.totalBalance || 0;
-  const safeToSpend7Days = currentBalance - totalBillsDue;
-  const safeToSpend30Days = currentBalance - totalBillsDue30;
+  const chartData = forecast.weeks.map(week => ({
+    week: week.week,
+    name: shortDate(week.start),
+    inflows: (week.receivables + week.milestones) / 100,
+    outflows: (week.bills + week.recurring + week.commissions) / 100,
+    balance: week.closing / 100,
+  }));
 
-  const isLowCash7Days = safeToSpend7Days < 1000;
-  const isLowCash30Days = safeToSpend30Days < 5000;
+  const finalWeek = forecast.weeks[forecast.weeks.length - 1];
+  const activeWeek = selectedWeek ?? forecast.firstWeekBelow ?? 1;
+  const weekItems = forecast.items.filter(item => item.week === activeWeek);
+  const activeRange = forecast.weeks.find(week => week.week === activeWeek);
 
   return (
     <div className="bg-[#151a21] border border-gray-800 rounded-2xl p-6 shadow-lg">
       <div className="flex items-center justify-between mb-6">
         <div>
-          <h2 className="text-lg font-bold text-white">Cash Flow Forecast</h2>
-          <p className="text-sm text-gray-400">Real available cash after bills</p>
+          <h2 className="text-lg font-bold text-white">13-Week Cash Forecast</h2>
+          <p className="text-sm text-gray-400">
+            Bank balances plus expected collections, less bills, recurring costs and commissions
+          </p>
         </div>
         <div className="w-12 h-12 rounded-xl bg-cyan-500/10 flex items-center justify-center">
           <DollarSign className="text-cyan-400" size={24} />
         </div>
       </div>
 
-      {/* Current Balance */}
-      <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 mb-4">
-        <div className="flex items-center justify-between">
-          <span className="text-sm text-gray-400">Current Bank Balance</span>
-          <span className="text-xl font-bold text-white font-mono">
-            ${currentBalance.toLocaleString(undefined, { minimumFractionDigits: 2 })}
-          </span>
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4">
+          <p className="text-xs text-gray-400 mb-1">Cash Today</p>
+          <p className="text-xl font-bold text-white font-mono">{formatCents(forecast.startingBalance)}</p>
+          <p className="text-xs text-gray-500">{forecast.accounts.length} bank account{forecast.accounts.length === 1 ? '' : 's'}</p>
         </div>
-      </div>
-
-      {/* 7-Day Forecast */}
-      <div className={`border rounded-xl p-4 mb-4 ${
-        isLowCash7Days 
-          ? 'bg-rose-500/10 border-rose-500/30' 
-          : 'bg-emerald-500/10 border-emerald-500/30'
-      }`}>
-        <div className="flex items-start gap-3 mb-3">
-          <div className={`p-2 rounded-lg ${
-            isLowCash7Days ? 'bg-rose-500/20' : 'bg-emerald-500/20'
-          }`}>
-            <Calendar className={isLowCash7Days ? 'text-rose-400' : 'text-emerald-400'} size={20} />
-          </div>
-          <div className="flex-1">
-            <div className="flex items-center justify-between mb-1">
-              <span className="text-sm font-medium text-white">Next 7 Days</span>
-              {isLowCash7Days && (
-                <AlertTriangle className="text-rose-400" size={16} />
-              )}
-            </div>
-            <div className="space-y-1 text-xs text-gray-400">
-              <div className="flex justify-between">
-                <span>Bills Due ({billsDueNext7Days.length})</span>
-                <span className="text-rose-400 font-mono">
-                  -${totalBillsDue.toLocaleString(undefined, { minimumFractionDigits: 2 })}
-                </span>
-              </div>
-              <div className="flex justify-between font-bold text-base pt-2 border-t border-gray-700">
-                <span className={isLowCash7Days ? 'text-rose-400' : 'text-emerald-400'}>
-                  Safe to Spend
-                </span>
-                <span className={`font-mono ${isLowCash7Days ? 'text-rose-400' : 'text-emerald-400'}`}>
-                  ${safeToSpend7Days.toLocaleString(undefined, { minimumFractionDigits: 2 })}
-                </span>
-              </div>
-            </div>
-          </div>
+        <div className={`border rounded-xl p-4 ${forecast.lowestBalance < forecast.threshold ? 'bg-rose-500/10 border-rose-500/30' : 'bg-slate-800/50 border-slate-700'}`}>
+          <p className="text-xs text-gray-400 mb-1">Lowest Point</p>
+          <p className={`text-xl font-bold font-mono ${forecast.lowestBalance < forecast.threshold ? 'text-rose-400' : 'text-white'}`}>
+            {formatCents(forecast.lowestBalance)}
+          </p>
+          <p className="text-xs text-gray-500">Week {forecast.lowestWeek}</p>
+        </div>
+        <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4">
+          <p className="text-xs text-gray-400 mb-1">In 13 Weeks</p>
+          <p className="text-xl font-bold text-white font-mono flex items-center gap-2">
+            {formatCents(finalWeek.closing)}
+            {finalWeek.closing >= forecast.startingBalance
+              ? <TrendingUp className="text-emerald-400" size={18} />
+              : <TrendingDown className="text-rose-400" size={18} />}
+          </p>
+          <p className="text-xs text-gray-500">Week of {shortDate(finalWeek.start)}</p>
+        </div>
+        <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4">
+          <p className="text-xs text-gray-400 mb-1">Low-Cash Threshold</p>
+          <p className="text-xl font-bold text-amber-400 font-mono">{formatCents(forecast.threshold)}</p>
+          <p className="text-xs text-gray-500">Set in Company Settings</p>
         </div>
-        {isLowCash7Days && (
-          <div className="flex items-center gap-2 text-xs text-rose-300 bg-rose-500/10 rounded-lg p-2">
-            <AlertTriangle size={14} />
-            <span>Low cash warning: Consider delaying non-essential expenses</span>
-          </div>
-        )}
       </div>
 
-      {/* 30-Day Forecast */}
-      <div className={`border rounded-xl p-4 ${
-        isLowCash30Days 
-          ? 'bg-amber-500/10 border-amber-500/30' 
-          : 'bg-slate-800/50 border-slate-700'
-      }`}>
-        <div className="flex items-start gap-3">
-          <div className={`p-2 rounded-lg ${
-            isLowCash30Days ? 'bg-amber-500/20' : 'bg-slate-700'
-          }`}>
-            <TrendingDown className={isLowCash30Days ? 'text-amber-400' : 'text-gray-400'} size={20} />
-          </div>
-          <div className="flex-1">
-            <div className="flex items-center justify-between mb-1">
-              <span className="text-sm font-medium text-white">Next 30 Days</span>
-              {isLowCash30Days && (
-                <AlertTriangle className="text-amber-400" size={16} />
-              )}
-            </div>
-            <div className="space-y-1 text-xs text-gray-400">
-              <div className="flex justify-between">
-                <span>Bills Due ({billsDueNext30Days.length})</span>
-                <span className="text-amber-400 font-mono">
-                  -${totalBillsDue30.toLocaleString(undefined, { minimumFractionDigits: 2 })}
-                </span>
-              </div>
-              <div className="flex justify-between font-bold text-base pt-2 border-t border-gray-700">
-                <span className="text-gray-300">Projected Balance</span>
-                <span className={`font-mono ${isLowCash30Days ? 'text-amber-400' : 'text-gray-300'}`}>
-                  ${safeToSpend30Days.toLocaleString(undefined, { minimumFractionDigits: 2 })}
-                </span>
-              </div>
-            </div>
-          </div>
+      {/* Low cash warning */}
+      {forecast.firstWeekBelow !== null && (
+        <div className="flex items-center gap-2 text-sm text-rose-300 bg-rose-500/10 border border-rose-500/30 rounded-xl p-3 mb-6">
+          <AlertTriangle size={16} />
+          <span>
+            Cash is projected to drop below {formatCents(forecast.threshold)} in week {forecast.firstWeekBelow}
+            {' '}(week of {shortDate(forecast.weeks[forecast.firstWeekBelow - 1].start)}). Consider delaying non-essential spending or chasing receivables.
+          </span>
         </div>
+      )}
+
+      {/* Chart */}
+      <div className="h-[320px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart
+            data={chartData}
+            onClick={(state: any) => state?.activePayload?.[0] && setSelectedWeek(state.activePayload[0].payload.week)}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" vertical={false} />
+            <XAxis dataKey="name" stroke="#718096" fontSize={12} tickLine={false} axisLine={false} dy={10} />
+            <YAxis stroke="#718096" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => `$${Math.round(value / 1000)}k`} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', borderRadius: '8px', color: '#fff' }}
+              itemStyle={{ color: '#fff' }}
+              formatter={(value: number) => formatCents(Math.round(value * 100))}
+            />
+            <Legend wrapperStyle={{ fontSize: 12, color: '#9ca3af' }} />
+            <ReferenceLine
+              y={forecast.threshold / 100}
+              stroke="#f59e0b"
+              strokeDasharray="6 4"
+              label={{ value: 'Low cash', position: 'insideTopRight', fill: '#f59e0b', fontSize: 11 }}
+            />
+            <Bar dataKey="inflows" name="Cash in" fill="#22d3ee" radius={[4, 4, 0, 0]} />
+            <Bar dataKey="outflows" name="Cash out" fill="#f43f5e" radius={[0, 0, 4, 4]} />
+            <Line type="monotone" dataKey="balance" name="Projected balance" stroke="#a78bfa" strokeWidth={3} dot={{ r: 3 }} />
+          </ComposedChart>
+        </ResponsiveContainer>
       </div>
 
-      {/* Upcoming Bills List */}
-      {billsDueNext7Days.length > 0 && (
-        <div className="mt-4 pt-4 border-t border-gray-800">
-          <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">
-            Upcoming Bills (Next 7 Days)
+      {/* Week detail */}
+      <div className="mt-6 pt-4 border-t border-gray-800">
+        <div className="flex items-center justify-between mb-3">
+          <p className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+            <Calendar size={14} />
+            Week {activeWeek}{activeRange ? ` · ${shortDate(activeRange.start)} – ${shortDate(new Date(activeRange.end.getTime() - 86400000))}` : ''}
           </p>
-          <div className="space-y-2">
-            {billsDueNext7Days.slice(0, 3).map((item) => (
-              <div key={item.bill.id} className="flex items-center justify-between text-xs">
-                <div className="flex-1">
-                  <span className="text-white font-medium">{item.bill.vendorName}</span>
-                  <span className="text-gray-500 ml-2">
-                    Due {new Date(item.bill.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
-                  </span>
+          <select
+            value={activeWeek}
+            onChange={(e) => setSelectedWeek(Number(e.target.value))}
+            className="bg-gray-900 border border-gray-700 text-gray-300 text-xs rounded-lg px-3 py-1.5 outline-none focus:border-cyan-500"
+          >
+            {forecast.weeks.map(week => (
+              <option key={week.week} value={week.week}>Week {week.week} ({shortDate(week.start)})</option>
+            ))}
+          </select>
+        </div>
+        {weekItems.length > 0 ? (
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {weekItems.map(item => (
+              <div key={item.sourceId} className="flex items-center justify-between text-xs gap-4">
+                <div className="flex-1 min-w-0">
+                  <span className="text-gray-500 mr-2">{SOURCE_LABELS[item.source]}</span>
+                  <span className="text-white font-medium">{item.label}</span>
+                  <span className="text-gray-500 ml-2">{shortDate(item.date)}</span>
+                  {item.note && <span className="text-gray-600 ml-2">· {item.note}</span>}
                 </div>
-                <span className="text-rose-400 font-mono">
-                  ${parseFloat(item.bill.totalAmount).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                <span className={`font-mono ${item.amount < 0 ? 'text-rose-400' : 'text-emerald-400'}`}>
+                  {formatCents(item.amount)}
                 </span>
               </div>
             ))}
-            {billsDueNext7Days.length > 3 && (
-              <div className="text-xs text-gray-500 text-center pt-1">
-                +{billsDueNext7Days.length - 3} more bills
-              </div>
-            )}
           </div>
-        </div>
-      )}
+        ) : (
+          <p className="text-xs text-gray-500">Nothing expected in or out this week.</p>
+        )}
+      </div>
     </div>
   );
 }
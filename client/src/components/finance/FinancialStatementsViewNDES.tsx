@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { format, startOfYear } from 'date-fns';
+import { FileText, Download, ChevronDown, ChevronRight } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import { toast } from 'sonner';
+import { downloadBase64 } from '@/lib/utils';
+
+type StatementType = 'income' | 'balance' | 'cash_flow';
+type Basis = 'accrual' | 'cash';
+type Comparison = 'none' | 'prior_period' | 'prior_year';
+
+const STATEMENTS: Array<{ id: StatementType; label: string }> = [
+  { id: 'income', label: 'Profit & Loss' },
+  { id: 'balance', label: 'Balance Sheet' },
+  { id: 'cash_flow', label: 'Cash Flow' },
+];
+
+const formatCents = (cents: number) => {
+  const formatted = `$${(Math.abs(cents) / 100).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  return cents < 0 ? `(${formatted})` : formatted;
+};
+
+const toInputDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+interface DrillDown {
+  accountId: number;
+  column: number;
+}
+
+function StatementTransactions({ accountId, from, to, basis }: { accountId: number; from: Date | null; to: Date; basis: Basis }) {
+  const { data, isLoading } = trpc.reports.getStatementTransactions.useQuery({
+    accountId,
+    from: from ? toInputDate(from) : undefined,
+    to: toInputDate(to),
+    basis,
+  });
+
+  if (isLoading) return <p className="text-xs text-zinc-500 py-2">Loading transactions...</p>;
+  if (!data || data.lines.length === 0) return <p className="text-xs text-zinc-500 py-2">No transactions</p>;
+
+  return (
+    <div className="space-y-2">
+      <table className="w-full text-xs">
+        <tbody>
+          {data.lines.map((line, i) => (
+            <tr key={`${line.entryId}-${i}`} className="border-t border-white/5">
+              <td className="py-1.5 pr-3 text-zinc-500 whitespace-nowrap">{new Date(line.entryDate).toLocaleDateString()}</td>
+              <td className="py-1.5 pr-3 text-zinc-300">{line.memo}</td>
+              <td className="py-1.5 pr-3 text-zinc-500 capitalize whitespace-nowrap">
+                {line.sourceType.replace('_', ' ')}{line.sourceId ? ` #${line.sourceId}` : ''}
+              </td>
+              <td className="py-1.5 text-right font-mono text-zinc-300 w-28">{line.debit ? formatCents(line.debit) : ''}</td>
+              <td className="py-1.5 text-right font-mono text-zinc-300 w-28">{line.credit ? formatCents(line.credit) : ''}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {data.count > data.lines.length && (
+        <p className="text-xs text-zinc-500">Showing the latest {data.lines.length} of {data.count} lines</p>
+      )}
+    </div>
+  );
+}
+
+export function FinancialStatementsViewNDES() {
+  const [statementType, setStatementType] = useState<StatementType>('income');
+  const [from, setFrom] = useState(toInputDate(startOfYear(new Date())));
+  const [to, setTo] = useState(toInputDate(new Date()));
+  const [basis, setBasis] = useState<Basis>('accrual');
+  const [compare, setCompare] = useState<Comparison>('none');
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+
+  const input = { from, to, basis, compare };
+  const validRange = !!from && !!to && from <= to;
+
+  const income = trpc.reports.getIncomeStatement.useQuery(input, { enabled: validRange && statementType === 'income' });
+  const balance = trpc.reports.getBalanceSheet.useQuery(input, { enabled: validRange && statementType === 'balance' });
+  const cashFlow = trpc.reports.getCashFlowStatement.useQuery(input, { enabled: validRange && statementType === 'cash_flow' });
+  const { data: statement, isLoading } = { income, balance, cash_flow: cashFlow }[statementType];
+
+  const exportStatement = trpc.reports.exportFinancialStatement.useMutation({
+    onSuccess: (file) => downloadBase64(file.data, file.fileName, file.mimeType),
+    onError: (error) => toast.error(error.message || 'Failed to export statement'),
+  });
+
+  const selectStatement = (type: StatementType) => {
+    setStatementType(type);
+    setDrillDown(null);
+  };
+
+  const renderRow = (row: NonNullable<typeof statement>['summary'][number], style: 'account' | 'total' | 'summary') => {
+    const canDrill = style === 'account' && row.accountId !== null;
+    const isOpen = canDrill && drillDown?.accountId === row.accountId;
+    const columns = statement?.columns || [];
+
+    return (
+      <React.Fragment key={`${row.accountId ?? row.label}-${style}`}>
+        <tr className={`border-t border-white/5 ${style === 'summary' ? 'bg-white/[0.03]' : ''}`}>
+          <td className={`px-6 py-3 text-sm ${style === 'account' ? 'pl-10 text-zinc-300' : 'font-bold text-white'}`}>
+            <span className="flex items-center gap-2">
+              {canDrill && (isOpen ? <ChevronDown size={14} className="text-zinc-500" /> : <ChevronRight size={14} className="text-zinc-500" />)}
+              {row.code && <span className="font-mono text-zinc-500">{row.code}</span>}
+              {row.label}
+            </span>
+          </td>
+          {row.amounts.map((amount, i) => (
+            <td key={i} className={`px-6 py-3 text-sm text-right font-mono ${style === 'account' ? 'text-zinc-300' : 'font-bold text-white'}`}>
+              {canDrill ? (
+                <button
+                  onClick={() => setDrillDown(isOpen && drillDown?.column === i ? null : { accountId: row.accountId!, column: i })}
+                  className="hover:text-purple-400 hover:underline"
+                >
+                  {formatCents(amount)}
+                </button>
+              ) : formatCents(amount)}
+            </td>
+          ))}
+        </tr>
+        {isOpen && drillDown && columns[drillDown.column] && (
+          <tr>
+            <td colSpan={columns.length + 1} className="px-12 pb-3">
+              <p className="text-xs text-zinc-500 pt-1">{columns[drillDown.column].label}</p>
+              <StatementTransactions
+                accountId={drillDown.accountId}
+                from={columns[drillDown.column].from}
+                to={columns[drillDown.column].to}
+                basis={basis}
+              />
+            </td>
+          </tr>
+        )}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div className="mt-10 space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-purple-500/10 flex items-center justify-center text-purple-400">
+            <FileText size={20} />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-white">Financial Statements</h2>
+            <p className="text-sm text-zinc-500">From the general ledger; click an amount to see its transactions</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => exportStatement.mutate({ ...input, statement: statementType, format: 'pdf' })}
+            disabled={!validRange || exportStatement.isPending}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-500 text-white text-sm font-bold rounded-xl flex items-center gap-2 disabled:opacity-50"
+          >
+            <Download size={16} />
+            PDF
+          </button>
+          <button
+            onClick={() => exportStatement.mutate({ ...input, statement: statementType, format: 'csv' })}
+            disabled={!validRange || exportStatement.isPending}
+            className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-white text-sm font-bold rounded-xl flex items-center gap-2 disabled:opacity-50"
+          >
+            <Download size={16} />
+            CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-[#1a1a20]/60 border border-white/5 rounded-[24px] p-4 flex flex-wrap items-center gap-3">
+        <div className="flex bg-zinc-900 rounded-xl p-1">
+          {STATEMENTS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => selectStatement(id)}
+              className={`px-4 py-1.5 rounded-lg text-sm font-bold transition-all ${
+                statementType === id ? 'bg-purple-600 text-white' : 'text-zinc-400 hover:text-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <input
+          type="date"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          className="px-3 py-2 bg-zinc-900 border border-white/10 rounded-xl text-sm text-white focus:outline-none focus:border-purple-500"
+        />
+        <span className="text-zinc-500 text-sm">to</span>
+        <input
+          type="date"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          className="px-3 py-2 bg-zinc-900 border border-white/10 rounded-xl text-sm text-white focus:outline-none focus:border-purple-500"
+        />
+        <select
+          value={basis}
+          onChange={(e) => setBasis(e.target.value as Basis)}
+          className="px-3 py-2 bg-zinc-900 border border-white/10 rounded-xl text-sm text-white focus:outline-none focus:border-purple-500"
+        >
+          <option value="accrual">Accrual basis</option>
+          <option value="cash">Cash basis</option>
+        </select>
+        <select
+          value={compare}
+          onChange={(e) => setCompare(e.target.value as Comparison)}
+          className="px-3 py-2 bg-zinc-900 border border-white/10 rounded-xl text-sm text-white focus:outline-none focus:border-purple-500"
+        >
+          <option value="none">No comparison</option>
+          <option value="prior_period">vs. prior period</option>
+          <option value="prior_year">vs. prior year</option>
+        </select>
+      </div>
+
+      <div className="bg-[#1a1a20]/60 border border-white/5 rounded-[24px] overflow-hidden">
+        {!validRange ? (
+          <p className="p-8 text-center text-zinc-500">Choose a start date on or before the end date.</p>
+        ) : isLoading || !statement ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-zinc-500">Loading statement...</div>
+          </div>
+        ) : (
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-xs text-zinc-500 uppercase tracking-wider">
+                <th className="px-6 py-4 font-bold">{statement.title}</th>
+                {statement.columns.map((column) => (
+                  <th key={column.label} className="px-6 py-4 font-bold text-right">{column.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {statement.sections.map((section) => (
+                <React.Fragment key={section.title}>
+                  <tr className="bg-white/[0.02]">
+                    <td colSpan={statement.columns.length + 1} className="px-6 py-2 text-xs font-bold text-purple-400 uppercase tracking-wider">
+                      {section.title}
+                    </td>
+                  </tr>
+                  {section.rows.map((row) => renderRow(row, 'account'))}
+                  {renderRow(section.total, 'total')}
+                </React.Fragment>
+              ))}
+              {statement.summary.map((row) => renderRow(row, 'summary'))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { BookOpen, RefreshCw, AlertCircle, CheckCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import { toast } from 'sonner';
+
+const TYPE_ORDER = ['asset', 'liability', 'equity', 'revenue', 'expense'] as const;
+
+const TYPE_LABELS: Record<string, string> = {
+  asset: 'Assets',
+  liability: 'Liabilities',
+  equity: 'Equity',
+  revenue: 'Revenue',
+  expense: 'Expenses',
+};
+
+const formatCents = (cents: number) =>
+  `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function AccountEntries({ accountId, asOf }: { accountId: number; asOf: string }) {
+  const { data: entries, isLoading } = trpc.ledger.getEntries.useQuery({ accountId, endDate: `${asOf}T23:59:59`, limit: 25 });
+
+  if (isLoading) return <p className="text-xs text-zinc-500 py-2">Loading entries...</p>;
+  if (!entries || entries.length === 0) return <p className="text-xs text-zinc-500 py-2">No entries</p>;
+
+  return (
+    <table className="w-full text-xs">
+      <tbody>
+        {entries.map((entry) => {
+          const line = entry.lines.filter((l) => l.accountId === accountId);
+          const debit = line.reduce((sum, l) => sum + l.debit, 0);
+          const credit = line.reduce((sum, l) => sum + l.credit, 0);
+          return (
+            <tr key={entry.id} className="border-t border-white/5">
+              <td className="py-1.5 pr-3 text-zinc-500 whitespace-nowrap">{new Date(entry.entryDate).toLocaleDateString()}</td>
+              <td className="py-1.5 pr-3 text-zinc-300">{entry.memo}</td>
+              <td className="py-1.5 pr-3 text-zinc-500 capitalize">{entry.sourceType.replace('_', ' ')}</td>
+              <td className="py-1.5 text-right font-mono text-zinc-300 w-28">{debit ? formatCents(debit) : ''}</td>
+              <td className="py-1.5 text-right font-mono text-zinc-300 w-28">{credit ? formatCents(credit) : ''}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+export function LedgerViewNDES() {
+  const [asOf, setAsOf] = useState(new Date().toISOString().split('T')[0]);
+  const [expandedAccount, setExpandedAccount] = useState<number | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: trialBalance, isLoading } = trpc.ledger.getTrialBalance.useQuery({ asOf });
+
+  const syncLedger = trpc.ledger.syncLedger.useMutation({
+    onSuccess: (result) => {
+      toast.success(result.changed > 0 ? `Ledger updated: ${result.changed} of ${result.checked} documents re-posted` : 'Ledger is up to date');
+      utils.ledger.invalidate();
+    },
+    onError: (error) => toast.error(error.message || 'Failed to sync ledger'),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-zinc-500">Loading ledger...</div>
+      </div>
+    );
+  }
+
+  const accounts = trialBalance?.accounts || [];
+
+  return (
+    <div className="mt-10 space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-purple-500/10 flex items-center justify-center text-purple-400">
+            <BookOpen size={20} />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-white">Trial Balance</h2>
+            <p className="text-sm text-zinc-500">Posted debits and credits by account</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="text-xs text-zinc-500 uppercase tracking-wider font-bold">As of</label>
+          <input
+            type="date"
+            value={asOf}
+            onChange={(e) => setAsOf(e.target.value)}
+            className="px-3 py-2 bg-zinc-900 border border-white/10 rounded-xl text-sm text-white focus:outline-none focus:border-purple-500"
+          />
+          <button
+            onClick={() => syncLedger.mutate()}
+            disabled={syncLedger.isPending}
+            className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-white text-sm font-bold rounded-xl flex items-center gap-2 disabled:opacity-50"
+          >
+            <RefreshCw size={16} className={syncLedger.isPending ? 'animate-spin' : ''} />
+            Sync Ledger
+          </button>
+        </div>
+      </div>
+
+      {trialBalance && (
+        trialBalance.balanced ? (
+          <div className="bg-emerald-500/10 border border-emerald-500/20 rounded-[24px] p-4 flex items-center gap-3">
+            <CheckCircle className="text-emerald-400" size={20} />
+            <p className="text-sm text-emerald-400">Debits equal credits ({formatCents(trialBalance.totalDebits)})</p>
+          </div>
+        ) : (
+          <div className="bg-rose-500/10 border border-rose-500/20 rounded-[24px] p-4 flex items-center gap-3">
+            <AlertCircle className="text-rose-400" size={20} />
+            <p className="text-sm text-rose-400">
+              Out of balance by {formatCents(trialBalance.totalDebits - trialBalance.totalCredits)}
+            </p>
+          </div>
+        )
+      )}
+
+      <div className="bg-[#1a1a20]/60 border border-white/5 rounded-[24px] overflow-hidden">
+        {accounts.length === 0 ? (
+          <p className="p-8 text-center text-zinc-500">Nothing has been posted yet. Run Sync Ledger to post existing invoices, payments, bills and expenses.</p>
+        ) : (
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-xs text-zinc-500 uppercase tracking-wider">
+                <th className="px-6 py-4 font-bold">Account</th>
+                <th className="px-6 py-4 font-bold text-right">Debits</th>
+                <th className="px-6 py-4 font-bold text-right">Credits</th>
+                <th className="px-6 py-4 font-bold text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {TYPE_ORDER.filter((type) => accounts.some((a) => a.type === type)).map((type) => (
+                <React.Fragment key={type}>
+                  <tr className="bg-white/[0.02]">
+                    <td colSpan={4} className="px-6 py-2 text-xs font-bold text-purple-400 uppercase tracking-wider">{TYPE_LABELS[type]}</td>
+                  </tr>
+                  {accounts.filter((a) => a.type === type).map((account) => {
+                    const isOpen = expandedAccount === account.accountId;
+                    return (
+                      <React.Fragment key={account.accountId}>
+                        <tr
+                          className="border-t border-white/5 hover:bg-white/[0.03] cursor-pointer"
+                          onClick={() => setExpandedAccount(isOpen ? null : account.accountId)}
+                        >
+                          <td className="px-6 py-3 text-sm text-white flex items-center gap-2">
+                            {isOpen ? <ChevronDown size={14} className="text-zinc-500" /> : <ChevronRight size={14} className="text-zinc-500" />}
+                            <span className="font-mono text-zinc-500">{account.code}</span>
+                            {account.name}
+                          </td>
+                          <td className="px-6 py-3 text-sm text-right font-mono text-zinc-300">{formatCents(account.debits)}</td>
+                          <td className="px-6 py-3 text-sm text-right font-mono text-zinc-300">{formatCents(account.credits)}</td>
+                          <td className="px-6 py-3 text-sm text-right font-mono font-bold text-white">{formatCents(account.balance)}</td>
+                        </tr>
+                        {isOpen && (
+                          <tr>
+                            <td colSpan={4} className="px-12 pb-3">
+                              <AccountEntries accountId={account.accountId} asOf={asOf} />
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </React.Fragment>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t border-white/10">
+                <td className="px-6 py-4 text-sm font-bold text-zinc-400">Total</td>
+                <td className="px-6 py-4 text-sm text-right font-mono font-bold text-white">{formatCents(trialBalance!.totalDebits)}</td>
+                <td className="px-6 py-4 text-sm text-right font-mono font-bold text-white">{formatCents(trialBalance!.totalCredits)}</td>
+                <td />
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Download, AlertCircle, CheckCircle } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import { toast } from 'sonner';
+import { downloadBase64 } from '@/lib/utils';
+
+const formatCents = (cents: number) =>
+  `$${(cents / 100).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export function Vendor1099Report() {
+  // Year-end filing happens in January for the year just closed
+  const [year, setYear] = useState(() => new Date().getFullYear() - (new Date().getMonth() < 3 ? 1 : 0));
+  const years = Array.from({ length: 5 }, (_, i) => new Date().getFullYear() - i);
+
+  const { data: report, isLoading } = trpc.vendors.get1099Report.useQuery({ year });
+
+  const exportCsv = trpc.vendors.export1099Csv.useMutation({
+    onSuccess: (file) => downloadBase64(file.data, file.fileName, file.mimeType),
+    onError: (error) => toast.error(error.message || 'Failed to export 1099 CSV'),
+  });
+
+  const rows = report?.rows || [];
+  const filing = rows.filter(row => row.meetsThreshold);
+  const incomplete = filing.filter(row => row.missing.length > 0);
+
+  return (
+    <div className="bg-[#1a1a20]/60 border border-white/5 rounded-[32px] overflow-hidden backdrop-blur-sm shadow-2xl">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-8 border-b border-white/5">
+        <div>
+          <h3 className="text-xl font-bold text-white">1099-NEC Year-End</h3>
+          <p className="text-sm text-zinc-500 mt-1">
+            Bills paid and expenses in {year} for vendors marked 1099-eligible.
+            {report && ` Vendors paid ${formatCents(report.threshold)} or more need a form.`}
+            {' '}Card and PayPal payments are left out; those are reported on the processor's 1099-K.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={year}
+            onChange={(e) => setYear(parseInt(e.target.value, 10))}
+            className="bg-zinc-900 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-purple-500/50 transition-all"
+          >
+            {years.map(y => <option key={y} value={y}>{y}</option>)}
+          </select>
+          <button
+            onClick={() => exportCsv.mutate({ year })}
+            disabled={exportCsv.isPending || filing.length === 0}
+            className="px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white rounded-xl font-bold transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download size={18} />
+            {exportCsv.isPending ? 'Exporting...' : 'Export 1099-NEC CSV'}
+          </button>
+        </div>
+      </div>
+
+      {incomplete.length > 0 && (
+        <div className="mx-8 mt-6 bg-amber-500/10 border border-amber-500/20 rounded-2xl p-4 flex items-center gap-3">
+          <AlertCircle className="text-amber-400 shrink-0" size={20} />
+          <p className="text-sm text-amber-400">
+            {incomplete.length} {incomplete.length === 1 ? 'vendor needs' : 'vendors need'} details before filing:{' '}
+            {incomplete.map(row => `${row.name} (${row.missing.join(', ')})`).join('; ')}
+          </p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-40 text-zinc-500">Loading 1099 totals...</div>
+      ) : rows.length === 0 ? (
+        <div className="px-8 py-16 text-center text-zinc-500 font-medium">
+          No payments to 1099-eligible vendors in {year}.
+        </div>
+      ) : (
+        <table className="w-full text-left border-collapse mt-2">
+          <thead>
+            <tr className="border-b border-white/5 text-zinc-500 text-[10px] uppercase tracking-widest font-bold">
+              <th className="px-8 py-4">Vendor</th>
+              <th className="px-8 py-4">TIN</th>
+              <th className="px-8 py-4 text-right">Total Paid</th>
+              <th className="px-8 py-4 text-right">By Card</th>
+              <th className="px-8 py-4 text-right">Box 1</th>
+              <th className="px-8 py-4">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {rows.map(row => (
+              <tr key={row.vendorId} className={row.meetsThreshold ? '' : 'opacity-60'}>
+                <td className="px-8 py-4">
+                  <div className="font-bold text-zinc-100">{row.legalName || row.name}</div>
+                  {row.legalName && row.legalName !== row.name && (
+                    <div className="text-zinc-500 text-xs">dba {row.name}</div>
+                  )}
+                </td>
+                <td className="px-8 py-4 text-sm text-zinc-400">
+                  {row.hasTin ? (row.tinType ?? 'ein').toUpperCase() : '—'}
+                </td>
+                <td className="px-8 py-4 text-right font-mono text-zinc-300">{formatCents(row.totalPaid)}</td>
+                <td className="px-8 py-4 text-right font-mono text-zinc-500">{row.cardPaid ? formatCents(row.cardPaid) : '—'}</td>
+                <td className="px-8 py-4 text-right font-mono font-bold text-white">{formatCents(row.reportable)}</td>
+                <td className="px-8 py-4 text-sm">
+                  {!row.meetsThreshold ? (
+                    <span className="text-zinc-500">Under threshold</span>
+                  ) : row.missing.length > 0 ? (
+                    <span className="text-amber-400">Missing {row.missing.join(', ')}</span>
+                  ) : (
+                    <span className="text-emerald-400 flex items-center gap-1"><CheckCircle size={14} /> Ready</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
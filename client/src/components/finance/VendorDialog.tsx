@@ -0,0 +1,418 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import { toast } from 'sonner';
+
+type Category = 'materials' | 'labor' | 'equipment' | 'vehicle' | 'insurance' | 'utilities' | 'marketing' | 'office' | 'professional_services' | 'other';
+
+export interface VendorDetails {
+  id: number;
+  name: string;
+  contactName: string | null;
+  email: string | null;
+  phone: string | null;
+  addressLine1: string | null;
+  addressLine2: string | null;
+  city: string | null;
+  state: string | null;
+  zipCode: string | null;
+  legalName: string | null;
+  tinType: 'ein' | 'ssn' | null;
+  tinMasked: string | null;
+  hasTin: boolean;
+  w9OnFile: boolean;
+  w9ReceivedAt: string | Date | null;
+  is1099Eligible: boolean;
+  defaultCategory: Category | null;
+  paymentTermsDays: number;
+  notes: string | null;
+  isActive: boolean;
+}
+
+const CATEGORIES: Array<{ value: Category; label: string }> = [
+  { value: 'materials', label: 'Materials' },
+  { value: 'labor', label: 'Labor' },
+  { value: 'equipment', label: 'Equipment' },
+  { value: 'vehicle', label: 'Vehicle' },
+  { value: 'insurance', label: 'Insurance' },
+  { value: 'utilities', label: 'Utilities' },
+  { value: 'marketing', label: 'Marketing' },
+  { value: 'office', label: 'Office Supplies' },
+  { value: 'professional_services', label: 'Professional Services' },
+  { value: 'other', label: 'Other' },
+];
+
+interface VendorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vendor?: VendorDetails | null;
+}
+
+const emptyForm = () => ({
+  name: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  addressLine1: '',
+  addressLine2: '',
+  city: '',
+  state: '',
+  zipCode: '',
+  legalName: '',
+  tin: '',
+  tinType: 'ein' as 'ein' | 'ssn',
+  w9OnFile: false,
+  w9ReceivedAt: '',
+  is1099Eligible: false,
+  defaultCategory: '' as Category | '',
+  paymentTermsDays: '30',
+  notes: '',
+  isActive: true,
+});
+
+const inputClass = 'w-full bg-zinc-900 border border-white/10 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-purple-500/50 transition-all';
+
+export function VendorDialog({ open, onOpenChange, vendor }: VendorDialogProps) {
+  const [formData, setFormData] = useState(emptyForm());
+  const utils = trpc.useUtils();
+
+  useEffect(() => {
+    if (!open) return;
+    setFormData(vendor ? {
+      name: vendor.name,
+      contactName: vendor.contactName ?? '',
+      email: vendor.email ?? '',
+      phone: vendor.phone ?? '',
+      addressLine1: vendor.addressLine1 ?? '',
+      addressLine2: vendor.addressLine2 ?? '',
+      city: vendor.city ?? '',
+      state: vendor.state ?? '',
+      zipCode: vendor.zipCode ?? '',
+      legalName: vendor.legalName ?? '',
+      tin: '', // Never sent to the browser; left blank keeps the one on file
+      tinType: vendor.tinType ?? 'ein',
+      w9OnFile: vendor.w9OnFile,
+      w9ReceivedAt: vendor.w9ReceivedAt ? new Date(vendor.w9ReceivedAt).toISOString().split('T')[0] : '',
+      is1099Eligible: vendor.is1099Eligible,
+      defaultCategory: vendor.defaultCategory ?? '',
+      paymentTermsDays: String(vendor.paymentTermsDays),
+      notes: vendor.notes ?? '',
+      isActive: vendor.isActive,
+    } : emptyForm());
+  }, [open, vendor]);
+
+  const onSuccess = () => {
+    toast.success(vendor ? 'Vendor saved' : 'Vendor added');
+    utils.vendors.invalidate();
+    utils.bills.invalidate();
+    onOpenChange(false);
+  };
+  const onError = (error: { message: string }) => toast.error(error.message || 'Failed to save vendor');
+
+  const createVendor = trpc.vendors.create.useMutation({ onSuccess, onError });
+  const updateVendor = trpc.vendors.update.useMutation({ onSuccess, onError });
+  const isSaving = createVendor.isPending || updateVendor.isPending;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error('Please enter the vendor name');
+      return;
+    }
+    if (formData.tin && formData.tin.replace(/\D/g, '').length !== 9) {
+      toast.error('A TIN is 9 digits');
+      return;
+    }
+
+    const payload = {
+      name: formData.name.trim(),
+      contactName: formData.contactName,
+      email: formData.email,
+      phone: formData.phone,
+      addressLine1: formData.addressLine1,
+      addressLine2: formData.addressLine2,
+      city: formData.city,
+      state: formData.state,
+      zipCode: formData.zipCode,
+      legalName: formData.legalName,
+      tin: formData.tin ? formData.tin : undefined,
+      tinType: formData.tinType,
+      w9OnFile: formData.w9OnFile,
+      w9ReceivedAt: formData.w9ReceivedAt || null,
+      is1099Eligible: formData.is1099Eligible,
+      defaultCategory: formData.defaultCategory || null,
+      paymentTermsDays: parseInt(formData.paymentTermsDays || '0', 10),
+      notes: formData.notes,
+      isActive: formData.isActive,
+    };
+
+    if (vendor) {
+      updateVendor.mutate({ id: vendor.id, ...payload });
+    } else {
+      createVendor.mutate(payload);
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-[#1a1a20] border border-white/10 rounded-3xl w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <h2 className="text-2xl font-bold text-white">{vendor ? 'Edit Vendor' : 'Add Vendor'}</h2>
+          <button
+            onClick={() => onOpenChange(false)}
+            className="p-2 hover:bg-white/5 rounded-xl transition-colors"
+          >
+            <X className="text-zinc-400" size={20} />
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {/* Contact */}
+          <div className="space-y-4">
+            <h3 className="text-sm font-bold text-zinc-400 uppercase tracking-wider">Contact</h3>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-2">
+                  Vendor Name <span className="text-rose-400">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className={inputClass}
+                  placeholder="ABC Supply"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-2">Contact Person</label>
+                <input
+                  type="text"
+                  value={formData.contactName}
+                  onChange={(e) => setFormData({ ...formData, contactName: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-2">Email</label>
+                <input
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  className={inputClass}
+                  placeholder="ap@vendor.com"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-2">Phone</label>
+                <input
+                  type="tel"
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                  className={inputClass}
+                  placeholder="(555) 123-4567"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-zinc-300 mb-2">Mailing Address</label>
+              <input
+                type="text"
+                value={formData.addressLine1}
+                onChange={(e) => setFormData({ ...formData, addressLine1: e.target.value })}
+                className={`${inputClass} mb-2`}
+                placeholder="Street"
+              />
+              <input
+                type="text"
+                value={formData.addressLine2}
+                onChange={(e) => setFormData({ ...formData, addressLine2: e.target.value })}
+                className={`${inputClass} mb-2`}
+                placeholder="Suite / Unit"
+              />
+              <div className="grid grid-cols-4 gap-2">
+                <input
+                  type="text"
+                  value={formData.city}
+                  onChange={(e) => setFormData({ ...formData, city: e.target.value })}
+                  className={`${inputClass} col-span-2`}
+                  placeholder="City"
+                />
+                <input
+                  type="text"
+                  maxLength={2}
+                  value={formData.state}
+                  onChange={(e) => setFormData({ ...formData, state: e.target.value.toUpperCase() })}
+                  className={inputClass}
+                  placeholder="FL"
+                />
+                <input
+                  type="text"
+                  value={formData.zipCode}
+                  onChange={(e) => setFormData({ ...formData, zipCode: e.target.value })}
+                  className={inputClass}
+                  placeholder="ZIP"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Billing Defaults */}
+          <div className="space-y-4">
+            <h3 className="text-sm font-bold text-zinc-400 uppercase tracking-wider">Billing Defaults</h3>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-2">Default Category</label>
+                <select
+                  value={formData.defaultCategory}
+                  onChange={(e) => setFormData({ ...formData, defaultCategory: e.target.value as Category | '' })}
+                  className={inputClass}
+                >
+                  <option value="">None</option>
+                  {CATEGORIES.map(category => (
+                    <option key={category.value} value={category.value}>{category.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-2">Payment Terms (Net days)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={365}
+                  value={formData.paymentTermsDays}
+                  onChange={(e) => setFormData({ ...formData, paymentTermsDays: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Tax */}
+          <div className="space-y-4">
+            <h3 className="text-sm font-bold text-zinc-400 uppercase tracking-wider">W-9 &amp; 1099</h3>
+
+            <label className="flex items-center gap-3 text-sm text-zinc-300">
+              <input
+                type="checkbox"
+                checked={formData.is1099Eligible}
+                onChange={(e) => setFormData({ ...formData, is1099Eligible: e.target.checked })}
+                className="w-4 h-4 rounded border-zinc-600 bg-zinc-800 text-purple-600 focus:ring-purple-500"
+              />
+              Issue a 1099-NEC (subcontractors and other unincorporated service providers)
+            </label>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-2">Legal Name (from W-9)</label>
+                <input
+                  type="text"
+                  value={formData.legalName}
+                  onChange={(e) => setFormData({ ...formData, legalName: e.target.value })}
+                  className={inputClass}
+                  placeholder="Same as vendor name"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-2">TIN</label>
+                <div className="flex gap-2">
+                  <select
+                    value={formData.tinType}
+                    onChange={(e) => setFormData({ ...formData, tinType: e.target.value as 'ein' | 'ssn' })}
+                    className="bg-zinc-900 border border-white/10 rounded-xl px-3 py-3 text-white focus:outline-none focus:border-purple-500/50 transition-all"
+                  >
+                    <option value="ein">EIN</option>
+                    <option value="ssn">SSN</option>
+                  </select>
+                  <input
+                    type="text"
+                    value={formData.tin}
+                    onChange={(e) => setFormData({ ...formData, tin: e.target.value })}
+                    className={`${inputClass} font-mono`}
+                    placeholder={vendor?.tinMasked ?? (formData.tinType === 'ssn' ? 'XXX-XX-XXXX' : 'XX-XXXXXXX')}
+                    autoComplete="off"
+                  />
+                </div>
+                {vendor?.hasTin && (
+                  <p className="text-xs text-zinc-500 mt-1">Leave blank to keep the TIN on file.</p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <label className="flex items-center gap-3 text-sm text-zinc-300 pb-3">
+                <input
+                  type="checkbox"
+                  checked={formData.w9OnFile}
+                  onChange={(e) => setFormData({ ...formData, w9OnFile: e.target.checked })}
+                  className="w-4 h-4 rounded border-zinc-600 bg-zinc-800 text-purple-600 focus:ring-purple-500"
+                />
+                W-9 on file
+              </label>
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-2">W-9 Received</label>
+                <input
+                  type="date"
+                  value={formData.w9ReceivedAt}
+                  onChange={(e) => setFormData({ ...formData, w9ReceivedAt: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-zinc-300 mb-2">Notes</label>
+            <textarea
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+              className={`${inputClass} resize-none`}
+            />
+          </div>
+
+          {vendor && (
+            <label className="flex items-center gap-3 text-sm text-zinc-300">
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                className="w-4 h-4 rounded border-zinc-600 bg-zinc-800 text-purple-600 focus:ring-purple-500"
+              />
+              Active (shown when entering bills)
+            </label>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={() => onOpenChange(false)}
+              className="flex-1 px-6 py-3 bg-zinc-800 hover:bg-zinc-700 text-white rounded-xl font-bold transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 px-6 py-3 bg-purple-600 hover:bg-purple-500 text-white rounded-xl font-bold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : vendor ? 'Save Vendor' : 'Add Vendor'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
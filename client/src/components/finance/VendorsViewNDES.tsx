@@ -0,0 +1,328 @@
+import React, { useMemo, useState } from 'react';
+import { Search, Plus, Users, Pencil, Trash2, GitMerge, AlertCircle, FileCheck } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import { toast } from 'sonner';
+import { VendorDialog, type VendorDetails } from './VendorDialog';
+import { Vendor1099Report } from './Vendor1099Report';
+
+const formatCents = (cents: number) =>
+  `$${(cents / 100).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export function VendorsViewNDES() {
+  const [search, setSearch] = useState('');
+  const [view, setView] = useState<'vendors' | '1099'>('vendors');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [editing, setEditing] = useState<VendorDetails | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [mergeIds, setMergeIds] = useState<number[] | null>(null);
+  const [keepId, setKeepId] = useState<number | null>(null);
+
+  const { data, isLoading } = trpc.vendors.list.useQuery();
+  const utils = trpc.useUtils();
+
+  const vendors = data?.vendors || [];
+  const byId = useMemo(() => new Map(vendors.map(vendor => [vendor.id, vendor])), [vendors]);
+
+  const filteredVendors = useMemo(() => {
+    const term = search.toLowerCase();
+    return vendors.filter(vendor =>
+      vendor.name.toLowerCase().includes(term) ||
+      vendor.aliases.some(alias => alias.toLowerCase().includes(term)) ||
+      (vendor.contactName ?? '').toLowerCase().includes(term)
+    );
+  }, [vendors, search]);
+
+  const deleteVendor = trpc.vendors.delete.useMutation({
+    onSuccess: () => {
+      toast.success('Vendor deleted');
+      utils.vendors.invalidate();
+    },
+    onError: (error) => toast.error(error.message || 'Failed to delete vendor'),
+  });
+
+  const mergeVendors = trpc.vendors.merge.useMutation({
+    onSuccess: (result) => {
+      toast.success(`Merged ${result.merged} ${result.merged === 1 ? 'vendor' : 'vendors'}; moved ${result.bills} bills and ${result.expenses} expenses`);
+      setMergeIds(null);
+      setSelected(new Set());
+      utils.vendors.invalidate();
+      utils.bills.invalidate();
+      utils.expenses.invalidate();
+    },
+    onError: (error) => toast.error(error.message || 'Failed to merge vendors'),
+  });
+
+  const openMerge = (ids: number[]) => {
+    // Keep the vendor with the most history by default
+    const ranked = [...ids].sort((a, b) => {
+      const [va, vb] = [byId.get(a), byId.get(b)];
+      return (vb?.billCount ?? 0) + (vb?.expenseCount ?? 0) - ((va?.billCount ?? 0) + (va?.expenseCount ?? 0));
+    });
+    setKeepId(ranked[0]);
+    setMergeIds(ids);
+  };
+
+  const toggleSelected = (id: number) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-zinc-500">Loading vendors...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-10 space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      {/* Search and Actions */}
+      <div className="flex flex-col md:flex-row justify-between items-center gap-4">
+        <div className="flex items-center gap-3 w-full md:w-auto">
+          <div className="flex bg-zinc-900 border border-white/5 rounded-2xl p-1">
+            {[
+              { value: 'vendors', label: 'Vendors' },
+              { value: '1099', label: '1099 Report' },
+            ].map((tab) => (
+              <button
+                key={tab.value}
+                onClick={() => setView(tab.value as 'vendors' | '1099')}
+                className={`px-4 py-2 rounded-xl text-xs font-bold transition-all ${
+                  view === tab.value ? 'bg-white text-black' : 'text-zinc-500 hover:text-zinc-300'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+          {view === 'vendors' && (
+            <div className="relative w-full md:w-80">
+              <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-zinc-500" size={18} />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search vendors..."
+                className="w-full bg-[#1a1a20] border border-white/5 rounded-2xl py-3 pl-12 pr-4 text-sm focus:outline-none focus:border-purple-500/50 transition-all text-white"
+              />
+            </div>
+          )}
+        </div>
+        {view === 'vendors' && (
+          <div className="flex items-center gap-3">
+            {selected.size > 1 && (
+              <button
+                onClick={() => openMerge(Array.from(selected))}
+                className="px-6 py-3 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold transition-all flex items-center gap-2"
+              >
+                <GitMerge size={18} />
+                Merge ({selected.size})
+              </button>
+            )}
+            <button
+              onClick={() => {
+                setEditing(null);
+                setShowDialog(true);
+              }}
+              className="px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white rounded-xl font-bold transition-all flex items-center gap-2"
+            >
+              <Plus size={18} />
+              Add Vendor
+            </button>
+          </div>
+        )}
+      </div>
+
+      {view === '1099' ? (
+        <Vendor1099Report />
+      ) : (
+        <>
+          {/* Likely Duplicates */}
+          {(data?.likelyDuplicates.length || 0) > 0 && (
+            <div className="bg-amber-500/10 border border-amber-500/20 rounded-[24px] p-6 space-y-3">
+              <div className="flex items-center gap-3">
+                <AlertCircle className="text-amber-400" size={24} />
+                <div>
+                  <p className="font-bold text-amber-400">Possible Duplicate Vendors</p>
+                  <p className="text-sm text-amber-400/70">Merging moves their bills and expenses to one vendor and keeps the other names as aliases.</p>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {data!.likelyDuplicates.map(group => (
+                  <button
+                    key={group.join('-')}
+                    onClick={() => openMerge(group)}
+                    className="px-3 py-1.5 bg-zinc-900 border border-amber-500/20 hover:border-amber-500/50 rounded-xl text-xs text-zinc-300 transition-all"
+                  >
+                    {group.map(id => byId.get(id)?.name).filter(Boolean).join(' · ')}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Vendors Table */}
+          <div className="bg-[#1a1a20]/60 border border-white/5 rounded-[32px] overflow-hidden backdrop-blur-sm shadow-2xl">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="border-b border-white/5 text-zinc-500 text-[10px] uppercase tracking-widest font-bold bg-white/[0.01]">
+                  <th className="px-8 py-6 w-12" />
+                  <th className="px-8 py-6">Vendor</th>
+                  <th className="px-8 py-6">Contact</th>
+                  <th className="px-8 py-6">Terms</th>
+                  <th className="px-8 py-6">1099 / W-9</th>
+                  <th className="px-8 py-6 text-right">Activity</th>
+                  <th className="px-8 py-6 text-center">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {filteredVendors.length > 0 ? filteredVendors.map(vendor => (
+                  <tr key={vendor.id} className={`hover:bg-white/[0.02] transition-colors ${vendor.isActive ? '' : 'opacity-60'}`}>
+                    <td className="px-8 py-6">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(vendor.id)}
+                        onChange={() => toggleSelected(vendor.id)}
+                        className="w-4 h-4 rounded border-zinc-600 bg-zinc-800 text-purple-600 focus:ring-purple-500"
+                      />
+                    </td>
+                    <td className="px-8 py-6">
+                      <div className="font-bold text-zinc-100">
+                        {vendor.name}
+                        {!vendor.isActive && <span className="ml-2 text-xs text-zinc-500">(inactive)</span>}
+                      </div>
+                      {vendor.aliases.length > 0 && (
+                        <div className="text-zinc-500 text-xs" title={vendor.aliases.join(', ')}>
+                          Also: {vendor.aliases.slice(0, 3).join(', ')}{vendor.aliases.length > 3 ? '…' : ''}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-8 py-6">
+                      <div className="text-sm text-zinc-300">{vendor.contactName || vendor.email || '—'}</div>
+                      <div className="text-zinc-500 text-xs">{vendor.phone || (vendor.contactName ? vendor.email : '')}</div>
+                    </td>
+                    <td className="px-8 py-6 text-sm text-zinc-400">Net {vendor.paymentTermsDays}</td>
+                    <td className="px-8 py-6">
+                      {vendor.is1099Eligible ? (
+                        <div className="flex items-center gap-2">
+                          <span className="px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider bg-purple-500/10 text-purple-400 border border-purple-500/20">1099</span>
+                          {vendor.w9OnFile ? (
+                            <span className="flex items-center gap-1 text-xs text-emerald-400" title={vendor.tinMasked ?? undefined}>
+                              <FileCheck size={14} /> W-9
+                            </span>
+                          ) : (
+                            <span className="text-xs text-amber-400">No W-9</span>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-xs text-zinc-500">{vendor.w9OnFile ? 'W-9 on file' : '—'}</span>
+                      )}
+                    </td>
+                    <td className="px-8 py-6 text-right">
+                      <div className="font-mono font-bold text-white">{formatCents(vendor.totalSpent)}</div>
+                      <div className="text-zinc-500 text-xs">{vendor.billCount} bills · {vendor.expenseCount} expenses</div>
+                    </td>
+                    <td className="px-8 py-6">
+                      <div className="flex items-center justify-center gap-2">
+                        <button
+                          onClick={() => {
+                            setEditing(vendor);
+                            setShowDialog(true);
+                          }}
+                          className="p-2 text-zinc-500 hover:text-purple-400 transition-colors"
+                          title="Edit"
+                        >
+                          <Pencil size={16} />
+                        </button>
+                        {vendor.billCount + vendor.expenseCount === 0 && (
+                          <button
+                            onClick={() => {
+                              if (confirm(`Delete ${vendor.name}?`)) {
+                                deleteVendor.mutate({ id: vendor.id });
+                              }
+                            }}
+                            className="p-2 text-zinc-500 hover:text-rose-400 transition-colors"
+                            title="Delete"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                )) : (
+                  <tr>
+                    <td colSpan={7} className="px-8 py-20 text-center text-zinc-500 font-medium">
+                      <Users className="mx-auto mb-3 opacity-50" size={32} />
+                      No vendors found.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <VendorDialog open={showDialog} onOpenChange={setShowDialog} vendor={editing} />
+
+      {/* Merge Dialog */}
+      {mergeIds && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-[#1a1a20] border border-white/10 rounded-3xl p-8 max-w-md w-full mx-4">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="w-12 h-12 rounded-xl bg-cyan-500/10 flex items-center justify-center">
+                <GitMerge className="text-cyan-400" size={24} />
+              </div>
+              <div>
+                <h3 className="text-xl font-bold text-white">Merge Vendors</h3>
+                <p className="text-sm text-zinc-400">Pick the vendor to keep</p>
+              </div>
+            </div>
+            <div className="space-y-2 mb-6">
+              {mergeIds.map(id => {
+                const vendor = byId.get(id);
+                if (!vendor) return null;
+                return (
+                  <label
+                    key={id}
+                    className={`flex items-center justify-between gap-3 p-3 rounded-xl border cursor-pointer transition-all ${
+                      keepId === id ? 'border-cyan-500/50 bg-cyan-500/5' : 'border-white/10 hover:bg-white/[0.02]'
+                    }`}
+                  >
+                    <span className="flex items-center gap-3">
+                      <input type="radio" checked={keepId === id} onChange={() => setKeepId(id)} />
+                      <span className="text-white font-medium">{vendor.name}</span>
+                    </span>
+                    <span className="text-xs text-zinc-500">{vendor.billCount} bills · {vendor.expenseCount} expenses</span>
+                  </label>
+                );
+              })}
+            </div>
+            <p className="text-sm text-zinc-400 mb-6">
+              The others are deleted; their bills and expenses move to the one you keep, and their names become its aliases.
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setMergeIds(null)}
+                className="flex-1 px-6 py-3 bg-zinc-800 hover:bg-zinc-700 text-white rounded-xl font-bold transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => keepId && mergeVendors.mutate({ targetId: keepId, sourceIds: mergeIds.filter(id => id !== keepId) })}
+                disabled={!keepId || mergeVendors.isPending}
+                className="flex-1 px-6 py-3 bg-cyan-600 hover:bg-cyan-700 text-white rounded-xl font-bold transition-all disabled:opacity-50"
+              >
+                {mergeVendors.isPending ? 'Merging...' : 'Merge'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
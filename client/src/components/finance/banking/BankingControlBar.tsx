@@ -88,7 +88,7 @@ export function BankingControlBar({
       <input
         id="bank-statement-upload"
         type="file"
-        accept=".csv,.xlsx,.xls,.pdf"
+        accept=".csv,.xlsx,.xls,.pdf,.ofx,.qfx,.qbo,.xml"
         onChange={onFileChange}
         className="hidden"
       />
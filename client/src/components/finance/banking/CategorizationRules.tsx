@@ -0,0 +1,460 @@
+/**
+ * CategorizationRules Component
+ * Manage the rules that categorize bank transactions before AI
+ */
+
+import React, { useState } from 'react';
+import { Plus, Wand2, Edit, Trash2, Play } from 'lucide-react';
+import { trpc } from '@/lib/trpc';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+type MatchType = 'contains' | 'regex';
+type Sign = 'any' | 'inflow' | 'outflow';
+
+interface Job {
+  id: number;
+  fullName: string;
+  address: string;
+}
+
+interface Account {
+  id: number;
+  accountName: string;
+}
+
+interface RuleFormData {
+  name: string;
+  priority: string;
+  isActive: boolean;
+  matchType: MatchType;
+  pattern: string;
+  minAmount: string;
+  maxAmount: string;
+  accountId: string;
+  sign: Sign;
+  setCategory: string;
+  setProjectId: string;
+  setNotes: string;
+}
+
+const EMPTY_FORM: RuleFormData = {
+  name: '',
+  priority: '100',
+  isActive: true,
+  matchType: 'contains',
+  pattern: '',
+  minAmount: '',
+  maxAmount: '',
+  accountId: '',
+  sign: 'any',
+  setCategory: '',
+  setProjectId: '',
+  setNotes: '',
+};
+
+const SIGN_LABELS: Record<Sign, string> = {
+  any: 'Money in or out',
+  inflow: 'Money in',
+  outflow: 'Money out',
+};
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-cyan-500';
+
+interface CategorizationRulesProps {
+  categories: string[];
+  jobs: Job[];
+  accounts: Account[];
+}
+
+export function CategorizationRules({ categories, jobs, accounts }: CategorizationRulesProps) {
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<RuleFormData>(EMPTY_FORM);
+
+  const utils = trpc.useUtils();
+  const { data: rules = [], isLoading } = trpc.categorizationRules.getAll.useQuery();
+
+  const toNumber = (value: string) => (value === '' ? null : Number(value));
+  const conditions = {
+    matchType: formData.matchType,
+    pattern: formData.pattern || null,
+    minAmount: toNumber(formData.minAmount),
+    maxAmount: toNumber(formData.maxAmount),
+    accountId: toNumber(formData.accountId),
+    sign: formData.sign,
+  };
+  const hasCondition = !!formData.pattern || formData.minAmount !== '' || formData.maxAmount !== '' || formData.accountId !== '' || formData.sign !== 'any';
+  const { data: preview } = trpc.categorizationRules.preview.useQuery(conditions, {
+    enabled: showDialog && hasCondition,
+    retry: false,
+  });
+
+  const onSaved = (message: string) => {
+    toast.success(message);
+    utils.categorizationRules.invalidate();
+    setShowDialog(false);
+  };
+
+  const createRule = trpc.categorizationRules.create.useMutation({
+    onSuccess: () => onSaved('Rule created'),
+    onError: (error) => toast.error(error.message || 'Failed to create rule'),
+  });
+
+  const updateRule = trpc.categorizationRules.update.useMutation({
+    onSuccess: () => onSaved('Rule updated'),
+    onError: (error) => toast.error(error.message || 'Failed to update rule'),
+  });
+
+  const deleteRule = trpc.categorizationRules.delete.useMutation({
+    onSuccess: () => {
+      toast.success('Rule deleted');
+      utils.categorizationRules.invalidate();
+      utils.banking.invalidate();
+    },
+    onError: (error) => toast.error(error.message || 'Failed to delete rule'),
+  });
+
+  const applyToPending = trpc.categorizationRules.applyToPending.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.applied > 0 ? `Categorized ${data.applied} pending transactions` : 'No pending transactions matched a rule');
+      utils.categorizationRules.invalidate();
+      utils.banking.invalidate();
+    },
+    onError: (error) => toast.error(error.message || 'Failed to apply rules'),
+  });
+
+  const openDialog = (rule?: (typeof rules)[number]['rule']) => {
+    if (rule) {
+      setEditingId(rule.id);
+      setFormData({
+        name: rule.name,
+        priority: rule.priority.toString(),
+        isActive: rule.isActive,
+        matchType: rule.matchType as MatchType,
+        pattern: rule.pattern || '',
+        minAmount: rule.minAmount ?? '',
+        maxAmount: rule.maxAmount ?? '',
+        accountId: rule.accountId?.toString() || '',
+        sign: rule.sign as Sign,
+        setCategory: rule.setCategory,
+        setProjectId: rule.setProjectId?.toString() || '',
+        setNotes: rule.setNotes || '',
+      });
+    } else {
+      setEditingId(null);
+      setFormData(EMPTY_FORM);
+    }
+    setShowDialog(true);
+  };
+
+  const handleSubmit = () => {
+    if (!formData.name || !formData.setCategory) {
+      toast.error('Name and category are required');
+      return;
+    }
+
+    const data = {
+      ...conditions,
+      name: formData.name,
+      priority: Number(formData.priority) || 100,
+      isActive: formData.isActive,
+      setCategory: formData.setCategory,
+      setProjectId: toNumber(formData.setProjectId),
+      setNotes: formData.setNotes || null,
+    };
+
+    if (editingId) {
+      updateRule.mutate({ id: editingId, ...data });
+    } else {
+      createRule.mutate(data);
+    }
+  };
+
+  const describeConditions = (rule: (typeof rules)[number]['rule'], accountName: string | null) => {
+    const parts = [];
+    if (rule.pattern) parts.push(rule.matchType === 'regex' ? `matches /${rule.pattern}/` : `contains "${rule.pattern}"`);
+    if (rule.sign !== 'any') parts.push(SIGN_LABELS[rule.sign as Sign].toLowerCase());
+    if (rule.minAmount && rule.maxAmount) parts.push(`$${rule.minAmount}–$${rule.maxAmount}`);
+    else if (rule.minAmount) parts.push(`at least $${rule.minAmount}`);
+    else if (rule.maxAmount) parts.push(`up to $${rule.maxAmount}`);
+    if (accountName) parts.push(`in ${accountName}`);
+    return parts.join(', ');
+  };
+
+  if (isLoading) {
+    return <div className="text-slate-400">Loading rules...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-slate-800 border-slate-700">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="text-white flex items-center gap-2">
+              <Wand2 size={18} className="text-cyan-400" />
+              Categorization Rules
+            </CardTitle>
+            <p className="text-sm text-slate-400 mt-1">Run in priority order on import, before AI. The first matching rule wins.</p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={() => applyToPending.mutate()}
+              disabled={applyToPending.isPending || rules.length === 0}
+              variant="outline"
+              className="border-cyan-600 text-cyan-400 hover:bg-cyan-600/10"
+            >
+              <Play size={16} className="mr-2" />
+              Apply to Pending
+            </Button>
+            <Button onClick={() => openDialog()} className="bg-purple-600 hover:bg-purple-700">
+              <Plus size={16} className="mr-2" />
+              Add Rule
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {rules.length === 0 ? (
+              <div className="text-center py-8 text-slate-400">
+                No rules yet. Add one, or correct an AI category and accept the offer to make it a rule.
+              </div>
+            ) : (
+              rules.map(({ rule, accountName, projectName }) => (
+                <div
+                  key={rule.id}
+                  className={`flex items-center justify-between p-4 bg-slate-900 rounded-lg border border-slate-700 hover:border-slate-600 transition-colors ${
+                    rule.isActive ? '' : 'opacity-50'
+                  }`}
+                >
+                  <div className="flex items-center gap-4 flex-1 min-w-0">
+                    <span className="text-xs font-mono text-slate-500 w-10 text-right">{rule.priority}</span>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h3 className="text-white font-semibold truncate">{rule.name}</h3>
+                        {!rule.isActive && <span className="text-xs text-slate-500">(off)</span>}
+                      </div>
+                      <div className="text-sm text-slate-400 mt-1">
+                        If {describeConditions(rule, accountName)} → <span className="text-cyan-400">{rule.setCategory}</span>
+                        {projectName && ` • ${projectName}`}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-lg font-semibold text-white">{rule.matchCount}</div>
+                      <div className="text-xs text-slate-500">Matched</div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 ml-4">
+                    <Button variant="ghost" size="sm" onClick={() => openDialog(rule)} className="text-slate-400 hover:text-white">
+                      <Edit size={16} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => confirm(`Delete rule "${rule.name}"? Transactions it categorized keep their category.`) && deleteRule.mutate({ id: rule.id })}
+                      className="text-slate-400 hover:text-red-400"
+                    >
+                      <Trash2 size={16} />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="bg-slate-900 border-slate-700 max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-white">{editingId ? 'Edit Rule' : 'Add Rule'}</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Every condition you fill in must match. Leave a condition blank to ignore it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4 py-4">
+            <div>
+              <label className="text-sm text-slate-300 mb-2 block">Rule Name *</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g., Home Depot is materials"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="text-sm text-slate-300 mb-2 block">Priority (lower runs first)</label>
+              <input
+                type="number"
+                value={formData.priority}
+                onChange={(e) => setFormData({ ...formData, priority: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="text-sm text-slate-300 mb-2 block">Description</label>
+              <select
+                value={formData.matchType}
+                onChange={(e) => setFormData({ ...formData, matchType: e.target.value as MatchType })}
+                className={inputClass}
+              >
+                <option value="contains">Contains</option>
+                <option value="regex">Matches regex</option>
+              </select>
+            </div>
+            <div>
+              <label className="text-sm text-slate-300 mb-2 block">Text</label>
+              <input
+                type="text"
+                value={formData.pattern}
+                onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
+                placeholder={formData.matchType === 'regex' ? '^HOME DEPOT #\\d+' : 'HOME DEPOT'}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+
+            <div>
+              <label className="text-sm text-slate-300 mb-2 block">Direction</label>
+              <select
+                value={formData.sign}
+                onChange={(e) => setFormData({ ...formData, sign: e.target.value as Sign })}
+                className={inputClass}
+              >
+                {(Object.keys(SIGN_LABELS) as Sign[]).map((sign) => (
+                  <option key={sign} value={sign}>{SIGN_LABELS[sign]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm text-slate-300 mb-2 block">Account</label>
+              <select
+                value={formData.accountId}
+                onChange={(e) => setFormData({ ...formData, accountId: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Any account</option>
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>{account.accountName}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="text-sm text-slate-300 mb-2 block">Amount at least</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.minAmount}
+                onChange={(e) => setFormData({ ...formData, minAmount: e.target.value })}
+                placeholder="0.00"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="text-sm text-slate-300 mb-2 block">Amount at most</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.maxAmount}
+                onChange={(e) => setFormData({ ...formData, maxAmount: e.target.value })}
+                placeholder="No limit"
+                className={inputClass}
+              />
+            </div>
+
+            <div className="col-span-2 border-t border-slate-700 pt-4">
+              <p className="text-xs text-slate-400 uppercase tracking-wider font-bold">Then set</p>
+            </div>
+
+            <div>
+              <label className="text-sm text-slate-300 mb-2 block">Category *</label>
+              <select
+                value={formData.setCategory}
+                onChange={(e) => setFormData({ ...formData, setCategory: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Select category...</option>
+                {Array.from(new Set([...categories, formData.setCategory].filter(Boolean))).map((category) => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm text-slate-300 mb-2 block">Project</label>
+              <select
+                value={formData.setProjectId}
+                onChange={(e) => setFormData({ ...formData, setProjectId: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Leave as is</option>
+                {jobs.map((job) => (
+                  <option key={job.id} value={job.id}>{job.fullName} - {job.address}</option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className="text-sm text-slate-300 mb-2 block">Note</label>
+              <input
+                type="text"
+                value={formData.setNotes}
+                onChange={(e) => setFormData({ ...formData, setNotes: e.target.value })}
+                placeholder="Added to the transaction's notes"
+                className={inputClass}
+              />
+            </div>
+
+            <label className="col-span-2 flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+              />
+              Active
+            </label>
+
+            {hasCondition && preview && (
+              <div className="col-span-2 bg-slate-800/60 border border-slate-700 rounded-lg p-3">
+                <p className="text-sm text-slate-300">
+                  Matches {preview.matched} of the last {preview.checked} transactions
+                </p>
+                {preview.samples.map((sample) => (
+                  <p key={sample.id} className="text-xs text-slate-500 truncate mt-1">
+                    {new Date(sample.transactionDate).toLocaleDateString()} · {sample.description} · ${Math.abs(Number(sample.amount)).toFixed(2)}
+                    {sample.category && ` · ${sample.category}`}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)} className="border-slate-700 text-slate-300">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={createRule.isPending || updateRule.isPending}
+              className="bg-purple-600 hover:bg-purple-700"
+            >
+              {editingId ? 'Update Rule' : 'Create Rule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@
  */
 
 import React from 'react';
-import { Check, Filter, Tag, Briefcase, Trash2, Edit2, Save, X } from 'lucide-react';
+import { Check, Filter, Tag, Briefcase, Trash2, Edit2, Save, X, Link2, Search, Wand2 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { MONTHS } from '@/constants/banking-constants';
@@ -29,6 +29,19 @@ interface Transaction {
     id: number;
     fullName: string;
   } | null;
+  rule?: {
+    id: number;
+    name: string;
+  } | null;
+}
+
+export interface MatchSuggestion {
+  id: number;
+  transactionId: number;
+  targetType: 'payment' | 'invoice' | 'bill' | 'expense';
+  score: number;
+  reasons: string[];
+  targets: Array<{ id: number; label: string; amount: number | null; date: Date | string | null }>;
 }
 
 interface TransactionListProps {
@@ -37,6 +50,7 @@ interface TransactionListProps {
   reconciledTransactions: Transaction[];
   jobs: Job[];
   categories: string[];
+  matchSuggestions: MatchSuggestion[];
   
   // State
   selectedCategory: Record<number, string>;
@@ -55,11 +69,15 @@ interface TransactionListProps {
   onCancelEdit: () => void;
   onDescriptionChange: (description: string) => void;
   onOpenMatchDialog: (tx: Transaction['transaction']) => void;
+  onConfirmMatch: (matchId: number) => void;
+  onRejectMatch: (matchId: number) => void;
+  onFindMatches: () => void;
   
   // UI State
   selectedMonth: string;
   selectedYear: string;
   isReconciling: boolean;
+  isMatching: boolean;
 }
 
 export function TransactionList({
@@ -67,6 +85,7 @@ export function TransactionList({
   reconciledTransactions,
   jobs,
   categories,
+  matchSuggestions,
   selectedCategory,
   selectedProject,
   editingTransactionId,
@@ -81,10 +100,72 @@ export function TransactionList({
   onCancelEdit,
   onDescriptionChange,
   onOpenMatchDialog,
+  onConfirmMatch,
+  onRejectMatch,
+  onFindMatches,
   selectedMonth,
   selectedYear,
   isReconciling,
+  isMatching,
 }: TransactionListProps) {
+  const renderSuggestions = (txId: number) => {
+    const suggestions = matchSuggestions.filter((s) => s.transactionId === txId);
+    if (suggestions.length === 0) return null;
+
+    return (
+      <div className="mt-4 space-y-2">
+        <p className="text-xs text-slate-400 flex items-center gap-1">
+          <Link2 size={12} />
+          Suggested matches
+        </p>
+        {suggestions.map((suggestion) => (
+          <div
+            key={suggestion.id}
+            className="flex flex-col md:flex-row md:items-center justify-between gap-2 bg-slate-800/60 border border-slate-700 rounded-lg px-3 py-2"
+          >
+            <div className="flex-1 min-w-0">
+              {suggestion.targets.map((target) => (
+                <p key={target.id} className="text-sm text-white truncate">
+                  {target.label}
+                  {suggestion.targets.length > 1 && target.amount !== null && (
+                    <span className="text-slate-400 font-mono ml-2">
+                      ${(target.amount / 100).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                    </span>
+                  )}
+                </p>
+              ))}
+              <p className="text-xs text-slate-500 mt-0.5">{suggestion.reasons.join(' · ')}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className={`text-xs font-bold px-2 py-0.5 rounded-full ${
+                suggestion.score >= 0.8 ? 'bg-emerald-500/10 text-emerald-400' : 'bg-yellow-500/10 text-yellow-400'
+              }`}>
+                {Math.round(suggestion.score * 100)}%
+              </span>
+              <Button
+                onClick={() => onConfirmMatch(suggestion.id)}
+                disabled={isReconciling}
+                size="sm"
+                className="bg-emerald-600 hover:bg-emerald-700"
+              >
+                <Check size={14} className="mr-1" />
+                Confirm
+              </Button>
+              <Button
+                onClick={() => onRejectMatch(suggestion.id)}
+                variant="outline"
+                size="sm"
+                className="border-slate-600 text-slate-300 hover:bg-slate-700"
+              >
+                <X size={14} />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   const renderPendingTransaction = (item: Transaction) => {
     const tx = item.transaction;
     const isExpense = Number(tx.amount) < 0;
@@ -201,6 +282,7 @@ export function TransactionList({
               </Button>
             </div>
           </div>
+          {renderSuggestions(tx.id)}
         </CardContent>
       </Card>
     );
@@ -236,6 +318,12 @@ export function TransactionList({
                       {item.project.fullName}
                     </span>
                   )}
+                  {item.rule && (
+                    <span className="text-xs px-2 py-0.5 bg-cyan-500/10 text-cyan-400 rounded-full flex items-center gap-1" title="Categorized by rule">
+                      <Wand2 size={10} />
+                      {item.rule.name}
+                    </span>
+                  )}
                 </div>
               </div>
               <p className={`text-sm font-bold font-mono ${
@@ -263,10 +351,24 @@ export function TransactionList({
     <div className="space-y-6">
       {/* Pending Transactions */}
       <div className="space-y-4">
-        <h3 className="text-lg font-bold text-white flex items-center gap-2">
-          <Filter className="w-5 h-5 text-yellow-400" />
-          Pending Transactions ({pendingTransactions.length})
-        </h3>
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Filter className="w-5 h-5 text-yellow-400" />
+            Pending Transactions ({pendingTransactions.length})
+          </h3>
+          {pendingTransactions.length > 0 && (
+            <Button
+              onClick={onFindMatches}
+              disabled={isMatching}
+              variant="outline"
+              size="sm"
+              className="border-cyan-600 text-cyan-400 hover:bg-cyan-600/10"
+            >
+              <Search size={14} className="mr-2" />
+              {isMatching ? 'Matching...' : 'Find Matches'}
+            </Button>
+          )}
+        </div>
         
         {pendingTransactions.length > 0 ? (
           pendingTransactions.map(renderPendingTransaction)
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { SignaturePad } from "@/components/crm/SignaturePad";
+import { toast } from "sonner";
+import { FileText, FileSignature, Receipt, Award, ShieldCheck, Image, Download, Loader2, CheckCircle2, CreditCard } from "lucide-react";
+
+interface DocumentCenterProps {
+  jobId: number;
+  customerName: string;
+  dealType: "insurance" | "cash" | "financed" | null;
+}
+
+const INVOICE_STATUS_STYLES: Record<string, { label: string; className: string }> = {
+  sent: { label: "Due", className: "bg-amber-500/20 text-amber-300" },
+  overdue: { label: "Past Due", className: "bg-red-500/20 text-red-300" },
+  paid: { label: "Paid", className: "bg-emerald-500/20 text-emerald-300" },
+};
+
+const formatCents = (cents: number) =>
+  `$${(cents / 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: Date | string | null) =>
+  date ? new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" }) : "";
+
+function base64ToPdfUrl(base64: string) {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return URL.createObjectURL(new Blob([bytes], { type: "application/pdf" }));
+}
+
+function downloadPdf(base64: string, fileName: string) {
+  const url = base64ToPdfUrl(base64);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function DocumentCenter({ jobId, customerName, dealType }: DocumentCenterProps) {
+  const utils = trpc.useUtils();
+  const [showSignaturePad, setShowSignaturePad] = useState(false);
+  const [proposalPreviewUrl, setProposalPreviewUrl] = useState<string>();
+
+  const { data, isLoading } = trpc.portal.getDocumentCenter.useQuery({ jobId });
+
+  const getProposalPdf = trpc.portal.getProposalPdf.useMutation({
+    onSuccess: (result) => {
+      setProposalPreviewUrl(base64ToPdfUrl(result.pdf));
+      setShowSignaturePad(true);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const signProposal = trpc.portal.signProposal.useMutation({
+    onSuccess: () => {
+      toast.success("Thank you! Your signed proposal has been sent to our team.");
+      setShowSignaturePad(false);
+      utils.portal.getDocumentCenter.invalidate({ jobId });
+      utils.portal.getMyJobs.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const getInvoicePdf = trpc.portal.getInvoicePdf.useMutation({
+    onSuccess: (result) => downloadPdf(result.pdf, result.fileName),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const createInvoiceCheckout = trpc.portal.createInvoiceCheckout.useMutation({
+    onSuccess: (result) => {
+      window.location.href = result.url;
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const getCloseoutDocument = trpc.portal.getCloseoutDocument.useMutation({
+    onSuccess: (result) => downloadPdf(result.pdf, result.fileName),
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="py-6 text-center">
+        <Loader2 className="w-5 h-5 animate-spin text-cyan-400 mx-auto" />
+      </div>
+    );
+  }
+
+  if (!data) return null;
+
+  const hasAnything = data.proposal.available || data.invoices.length > 0 || data.closeoutAvailable || data.photos.length > 0;
+  if (!hasAnything) return null;
+
+  return (
+    <div className="mb-6 space-y-5">
+      <h4 className="text-white font-semibold flex items-center gap-2">
+        <FileText className="w-4 h-4 text-cyan-400" />
+        Documents
+      </h4>
+
+      {/* Proposal */}
+      {data.proposal.available && (
+        <div className="bg-slate-700/50 rounded-lg p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="flex items-start gap-3">
+            <FileSignature className="w-5 h-5 text-cyan-400 mt-0.5" />
+            <div>
+              <p className="text-white font-medium">Your Proposal</p>
+              <p className="text-slate-400 text-sm">
+                {data.proposal.signedAt
+                  ? `Signed ${formatDate(data.proposal.signedAt)}`
+                  : "Review the proposal and sign online to get your project scheduled"}
+              </p>
+            </div>
+          </div>
+          {data.proposal.signedAt ? (
+            data.proposal.signedProposalUrl && (
+              <a href={data.proposal.signedProposalUrl} target="_blank" rel="noopener noreferrer">
+                <Button variant="outline" className="border-cyan-500 text-cyan-400 hover:bg-cyan-500/10">
+                  <CheckCircle2 className="w-4 h-4 mr-2" />
+                  View Signed Copy
+                </Button>
+              </a>
+            )
+          ) : (
+            <Button
+              onClick={() => getProposalPdf.mutate({ jobId })}
+              disabled={getProposalPdf.isPending}
+              className="bg-cyan-500 hover:bg-cyan-600 text-white"
+            >
+              {getProposalPdf.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+              ) : (
+                <FileSignature className="w-4 h-4 mr-2" />
+              )}
+              Review & Sign
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Invoices */}
+      {data.invoices.length > 0 && (
+        <div className="bg-slate-700/50 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <p className="text-white font-medium flex items-center gap-2">
+              <Receipt className="w-4 h-4 text-cyan-400" />
+              Invoices
+            </p>
+            <p className="text-sm text-slate-300">
+              Balance due: <span className="text-white font-semibold">{formatCents(data.totals.balanceDue)}</span>
+            </p>
+          </div>
+          <div className="divide-y divide-slate-600">
+            {data.invoices.map((invoice) => {
+              const status = INVOICE_STATUS_STYLES[invoice.status] || INVOICE_STATUS_STYLES.sent;
+              return (
+                <div key={invoice.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                  <div>
+                    <p className="text-white">{invoice.invoiceNumber}</p>
+                    <p className="text-slate-500 text-xs">
+                      {invoice.status === "paid"
+                        ? `Paid ${formatDate(invoice.paidDate)}`
+                        : `Due ${formatDate(invoice.dueDate)}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${status.className}`}>{status.label}</span>
+                    <div className="w-24 text-right">
+                      <p className="text-white">{formatCents(invoice.totalAmount)}</p>
+                      {invoice.balanceDue > 0 && invoice.balanceDue < invoice.totalAmount && (
+                        <p className="text-slate-500 text-xs">{formatCents(invoice.balanceDue)} due</p>
+                      )}
+                    </div>
+                    {invoice.balanceDue > 0 && (
+                      <Button
+                        size="sm"
+                        className="bg-cyan-500 hover:bg-cyan-600 text-white"
+                        disabled={createInvoiceCheckout.isPending}
+                        onClick={() => createInvoiceCheckout.mutate({ jobId, invoiceId: invoice.id })}
+                      >
+                        <CreditCard className="w-4 h-4 mr-1" />
+                        Pay
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-slate-400 hover:text-white"
+                      disabled={getInvoicePdf.isPending}
+                      onClick={() => getInvoicePdf.mutate({ jobId, invoiceId: invoice.id })}
+                    >
+                      <Download className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Completion certificate and warranty */}
+      {data.closeoutAvailable && (
+        <div className="grid sm:grid-cols-2 gap-3">
+          <Button
+            variant="outline"
+            className="border-slate-600 text-slate-200 hover:bg-slate-700 hover:text-white"
+            disabled={getCloseoutDocument.isPending}
+            onClick={() => getCloseoutDocument.mutate({ jobId, document: "completion_certificate" })}
+          >
+            <Award className="w-4 h-4 mr-2 text-cyan-400" />
+            Certificate of Completion
+          </Button>
+          <Button
+            variant="outline"
+            className="border-slate-600 text-slate-200 hover:bg-slate-700 hover:text-white"
+            disabled={getCloseoutDocument.isPending}
+            onClick={() => getCloseoutDocument.mutate({ jobId, document: "warranty" })}
+          >
+            <ShieldCheck className="w-4 h-4 mr-2 text-cyan-400" />
+            Warranty Certificate
+          </Button>
+        </div>
+      )}
+
+      {/* Photos shared by the office */}
+      {data.photos.length > 0 && (
+        <div>
+          <p className="text-white font-medium flex items-center gap-2 mb-3">
+            <Image className="w-4 h-4 text-cyan-400" />
+            Project Photos
+          </p>
+          <div className="grid grid-cols-3 md:grid-cols-4 gap-2">
+            {data.photos.map((photo) => (
+              <a
+                key={photo.id}
+                href={photo.fileUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="aspect-square rounded-lg overflow-hidden border border-slate-700 hover:border-cyan-500 transition-colors"
+              >
+                <img src={photo.fileUrl} alt={photo.fileName} className="w-full h-full object-cover" loading="lazy" />
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <SignaturePad
+        isOpen={showSignaturePad}
+        onClose={() => setShowSignaturePad(false)}
+        onSignatureComplete={(signature) => signProposal.mutate({ jobId, customerSignature: signature })}
+        customerName={customerName}
+        documentType={dealType || "cash"}
+        pdfPreviewUrl={proposalPreviewUrl}
+      />
+    </div>
+  );
+}
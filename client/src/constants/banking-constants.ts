@@ -36,7 +36,10 @@ export const YEARS = ['2024', '2025', '2026', '2027'];
 
 export const AI_BATCH_SIZE = 50;
 
-export type ViewMode = 'summary' | 'detailed' | 'category' | 'monthly' | 'accounts';
+// Bank export formats imported server-side (OFX, Quicken, QuickBooks Web Connect, CAMT.053)
+export const STATEMENT_FILE_EXTENSIONS = ['.ofx', '.qfx', '.qbo', '.xml'];
+
+export type ViewMode = 'summary' | 'detailed' | 'category' | 'monthly' | 'accounts' | 'rules';
 
 export interface BankAccountType {
   id: number;
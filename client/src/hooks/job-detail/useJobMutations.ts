@@ -53,6 +53,16 @@ export function useJobMutations({ jobId, onRefetch, onJobDeleted }: UseJobMutati
     },
   });
 
+  const setCustomerVisible = trpc.documents.setCustomerVisible.useMutation({
+    onSuccess: (_data, variables) => {
+      toast.success(variables.customerVisible ? "Shared in customer portal" : "Hidden from customer portal");
+      onRefetch();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update photo visibility");
+    },
+  });
+
   const addMessage = trpc.activities.addNote.useMutation({
     onSuccess: () => {
       onRefetch();
@@ -99,6 +109,7 @@ export function useJobMutations({ jobId, onRefetch, onJobDeleted }: UseJobMutati
     generateReport,
     uploadDocument,
     deleteDocument,
+    setCustomerVisible,
     addMessage,
     deleteEditHistory,
     toggleFollowUp,
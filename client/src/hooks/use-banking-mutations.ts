@@ -6,12 +6,43 @@
 import { trpc } from '@/lib/trpc';
 import { toast } from 'sonner';
 
+interface RuleDraft {
+  name: string;
+  matchType: 'contains' | 'regex';
+  pattern: string;
+  sign: 'any' | 'inflow' | 'outflow';
+  setCategory: string;
+}
+
 export function useBankingMutations() {
   const utils = trpc.useUtils();
 
+  const createRule = trpc.categorizationRules.create.useMutation({
+    onSuccess: (rule) => {
+      toast.success(`Rule "${rule.name}" created`);
+      utils.categorizationRules.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to create rule');
+    },
+  });
+
+  // After someone overrides the AI's category, offer to make it a rule
+  const offerRule = (draft: RuleDraft | null) => {
+    if (!draft) return;
+    toast(`Always categorize "${draft.pattern}" as ${draft.setCategory}?`, {
+      duration: 10000,
+      action: {
+        label: 'Create rule',
+        onClick: () => createRule.mutate(draft),
+      },
+    });
+  };
+
   const reconcile = trpc.banking.reconcile.useMutation({
-    onSuccess: () => {
+    onSuccess: (data) => {
       toast.success('Transaction reconciled');
+      offerRule(data.ruleSuggestion);
       utils.banking.invalidate();
     },
     onError: (error) => {
@@ -22,7 +53,13 @@ export function useBankingMutations() {
   const bulkImport = trpc.banking.bulkImport.useMutation({
     onSuccess: (data) => {
       console.log('[bulkImport SUCCESS]', data);
-      toast.success(`Successfully imported ${data.count} transactions`);
+      toast.success(`Successfully imported ${data.count} transactions${data.duplicates ? ` (${data.duplicates} already imported, skipped)` : ''}`);
+      if (data.ruled > 0) {
+        toast.info(`${data.ruled} categorized by your rules`);
+      }
+      if (data.matching && data.matching.suggested > 0) {
+        toast.info(`${data.matching.suggested} match suggestions found${data.matching.autoConfirmed ? `, ${data.matching.autoConfirmed} reconciled automatically` : ''}`);
+      }
       utils.banking.invalidate();
     },
     onError: (error) => {
@@ -31,6 +68,26 @@ export function useBankingMutations() {
     },
   });
 
+  const importStatementFile = trpc.banking.importStatementFile.useMutation({
+    onSuccess: (data) => {
+      toast.success(`Imported ${data.count} transactions${data.duplicates ? ` (${data.duplicates} already imported, skipped)` : ''}`);
+      if (data.ruled > 0) {
+        toast.info(`${data.ruled} categorized by your rules`);
+      }
+      for (const statement of data.statements.filter((s) => s.balanceUpdated && s.ledgerBalance !== null)) {
+        toast.info(`${statement.accountName} balance updated to $${statement.ledgerBalance!.toLocaleString(undefined, { minimumFractionDigits: 2 })}`);
+      }
+      if (data.matching && data.matching.suggested > 0) {
+        toast.info(`${data.matching.suggested} match suggestions found${data.matching.autoConfirmed ? `, ${data.matching.autoConfirmed} reconciled automatically` : ''}`);
+      }
+      utils.banking.invalidate();
+      utils.bankAccounts.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to import statement');
+    },
+  });
+
   const deleteTransaction = trpc.banking.delete.useMutation({
     onSuccess: () => {
       toast.success('Transaction deleted');
@@ -52,8 +109,9 @@ export function useBankingMutations() {
   });
 
   const updateTransaction = trpc.banking.update.useMutation({
-    onSuccess: () => {
+    onSuccess: (data) => {
       toast.success('Transaction updated');
+      offerRule(data.ruleSuggestion);
       utils.banking.invalidate();
     },
     onError: (error) => {
@@ -71,13 +129,51 @@ export function useBankingMutations() {
     },
   });
 
+  const suggestMatches = trpc.banking.suggestMatches.useMutation({
+    onSuccess: (data) => {
+      if (data.suggested === 0) {
+        toast.info('No new matches found');
+      } else {
+        toast.success(`Found ${data.suggested} match suggestions${data.autoConfirmed ? ` (${data.autoConfirmed} reconciled automatically)` : ''}`);
+      }
+      utils.banking.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to find matches');
+    },
+  });
+
+  const confirmMatch = trpc.banking.confirmMatch.useMutation({
+    onSuccess: () => {
+      toast.success('Match confirmed and transaction reconciled');
+      utils.banking.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to confirm match');
+    },
+  });
+
+  const rejectMatch = trpc.banking.rejectMatch.useMutation({
+    onSuccess: () => {
+      utils.banking.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to reject match');
+    },
+  });
+
   return {
     reconcile,
     bulkImport,
+    importStatementFile,
     deleteTransaction,
     bulkDelete,
     updateTransaction,
     categorizeBatch,
+    suggestMatches,
+    confirmMatch,
+    rejectMatch,
+    createRule,
     utils,
   };
 }
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { trpc } from "@/lib/trpc";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,8 +8,9 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
 import { Link } from "wouter";
+import { DocumentCenter } from "@/components/portal/DocumentCenter";
 import { 
-  Search, 
+  KeyRound, 
   Phone, 
   MessageSquare, 
   PhoneCall, 
@@ -20,7 +21,8 @@ import {
   AlertCircle,
   ArrowLeft,
   Home,
-  Loader2
+  Loader2,
+  LogOut
 } from "lucide-react";
 
 // Status display mapping for customers (friendly names)
@@ -48,8 +50,9 @@ const STATUS_DISPLAY: Record<string, { label: string; color: string; description
 };
 
 export default function CustomerPortal() {
-  const [phone, setPhone] = useState("");
-  const [hasSearched, setHasSearched] = useState(false);
+  const [contact, setContact] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
   const [selectedJobId, setSelectedJobId] = useState<number | null>(null);
   const [messageDialogOpen, setMessageDialogOpen] = useState(false);
   const [callbackDialogOpen, setCallbackDialogOpen] = useState(false);
@@ -58,11 +61,57 @@ export default function CustomerPortal() {
   const [preferredTime, setPreferredTime] = useState("");
   const [callbackNotes, setCallbackNotes] = useState("");
 
-  // Lookup jobs by phone
-  const { data: lookupResult, isLoading: isSearching, refetch } = trpc.portal.lookupJob.useQuery(
-    { phone },
-    { enabled: false }
-  );
+  // Jobs available to this browser's portal session
+  const { data: portal, isLoading: isLoadingJobs, refetch } = trpc.portal.getMyJobs.useQuery(undefined, {
+    retry: false,
+  });
+
+  // Magic link from an email/SMS: /portal?token=...
+  const redeemLinkMutation = trpc.portal.redeemLink.useMutation({
+    onSuccess: () => {
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get("token");
+    if (!token) return;
+    // Drop the token from the address bar so it isn't bookmarked or shared
+    window.history.replaceState(null, "", window.location.pathname);
+    redeemLinkMutation.mutate({ token });
+  }, []);
+
+  const requestCodeMutation = trpc.portal.requestCode.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.message);
+      setCodeSent(true);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const verifyCodeMutation = trpc.portal.verifyCode.useMutation({
+    onSuccess: () => {
+      setCode("");
+      setCodeSent(false);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const signOutMutation = trpc.portal.signOut.useMutation({
+    onSuccess: () => {
+      setContact("");
+      refetch();
+    },
+  });
 
   // Send message mutation
   const sendMessageMutation = trpc.portal.sendMessage.useMutation({
@@ -92,20 +141,26 @@ export default function CustomerPortal() {
     },
   });
 
-  const handleSearch = async () => {
-    if (phone.length < 10) {
-      toast.error("Please enter a valid phone number");
+  const handleRequestCode = () => {
+    if (contact.trim().length < 5) {
+      toast.error("Please enter your phone number or email address");
+      return;
+    }
+    requestCodeMutation.mutate({ contact: contact.trim() });
+  };
+
+  const handleVerifyCode = () => {
+    if (!/^\d{6}$/.test(code.trim())) {
+      toast.error("Please enter the 6-digit code");
       return;
     }
-    setHasSearched(true);
-    await refetch();
+    verifyCodeMutation.mutate({ contact: contact.trim(), code: code.trim() });
   };
 
   const handleSendMessage = () => {
     if (!selectedJobId || !message.trim()) return;
     sendMessageMutation.mutate({
       jobId: selectedJobId,
-      phone,
       message: message.trim(),
       senderName: senderName.trim() || undefined,
     });
@@ -115,7 +170,6 @@ export default function CustomerPortal() {
     if (!selectedJobId) return;
     requestCallbackMutation.mutate({
       jobId: selectedJobId,
-      phone,
       preferredTime: preferredTime.trim() || undefined,
       notes: callbackNotes.trim() || undefined,
     });
@@ -169,204 +223,234 @@ export default function CustomerPortal() {
             Check Your <span className="text-cyan-400">Job Status</span>
           </h1>
           <p className="text-slate-400 text-lg max-w-2xl mx-auto">
-            Enter your phone number to view the status of your project, send us a message, or request a callback.
+            Sign in with the phone number or email on your account to view the status of your project, send us a message, or request a callback.
           </p>
         </div>
 
-        {/* Search Section */}
-        <Card className="max-w-xl mx-auto bg-slate-800/50 border-slate-700 mb-8">
-          <CardHeader>
-            <CardTitle className="text-white flex items-center gap-2">
-              <Search className="w-5 h-5 text-cyan-400" />
-              Look Up Your Project
-            </CardTitle>
-            <CardDescription className="text-slate-400">
-              Enter the phone number you used when requesting your storm report
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="flex gap-3">
-              <div className="relative flex-1">
-                <Phone className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
-                <Input
-                  type="tel"
-                  placeholder="(555) 123-4567"
-                  value={phone}
-                  onChange={(e) => setPhone(e.target.value)}
-                  onKeyDown={(e) => e.key === "Enter" && handleSearch()}
-                  className="pl-10 bg-slate-700 border-slate-600 text-white placeholder:text-slate-500"
-                />
-              </div>
-              <Button 
-                onClick={handleSearch} 
-                disabled={isSearching || phone.length < 10}
-                className="bg-cyan-500 hover:bg-cyan-600 text-white"
-              >
-                {isSearching ? (
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                ) : (
-                  "Search"
-                )}
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Results Section */}
-        {hasSearched && (
+        {isLoadingJobs || redeemLinkMutation.isPending ? (
+          <div className="text-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-cyan-400 mx-auto mb-4" />
+            <p className="text-slate-400">Loading your projects...</p>
+          </div>
+        ) : !portal?.authenticated ? (
+          /* Sign-in Section */
+          <Card className="max-w-xl mx-auto bg-slate-800/50 border-slate-700 mb-8">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center gap-2">
+                <KeyRound className="w-5 h-5 text-cyan-400" />
+                Sign In to Your Project
+              </CardTitle>
+              <CardDescription className="text-slate-400">
+                {codeSent
+                  ? "Enter the 6-digit code we just sent you. It expires in 10 minutes."
+                  : "We'll send a one-time code to the phone number or email you gave us"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!codeSent ? (
+                <div className="flex gap-3">
+                  <div className="relative flex-1">
+                    <Phone className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                    <Input
+                      placeholder="(555) 123-4567 or you@example.com"
+                      value={contact}
+                      onChange={(e) => setContact(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && handleRequestCode()}
+                      className="pl-10 bg-slate-700 border-slate-600 text-white placeholder:text-slate-500"
+                    />
+                  </div>
+                  <Button
+                    onClick={handleRequestCode}
+                    disabled={requestCodeMutation.isPending || contact.trim().length < 5}
+                    className="bg-cyan-500 hover:bg-cyan-600 text-white"
+                  >
+                    {requestCodeMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      "Send Code"
+                    )}
+                  </Button>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <div className="flex gap-3">
+                    <Input
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      maxLength={6}
+                      placeholder="123456"
+                      value={code}
+                      onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+                      onKeyDown={(e) => e.key === "Enter" && handleVerifyCode()}
+                      className="flex-1 bg-slate-700 border-slate-600 text-white placeholder:text-slate-500 tracking-widest"
+                    />
+                    <Button
+                      onClick={handleVerifyCode}
+                      disabled={verifyCodeMutation.isPending || code.length !== 6}
+                      className="bg-cyan-500 hover:bg-cyan-600 text-white"
+                    >
+                      {verifyCodeMutation.isPending ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        "Verify"
+                      )}
+                    </Button>
+                  </div>
+                  <Button
+                    variant="link"
+                    onClick={() => {
+                      setCodeSent(false);
+                      setCode("");
+                    }}
+                    className="text-slate-400 hover:text-white px-0"
+                  >
+                    Use a different phone or email
+                  </Button>
+                </div>
+              )}
+              <p className="text-slate-500 text-xs mt-4">
+                Didn't get a code? Please call us at{" "}
+                <a href="tel:+1234567890" className="text-cyan-400 hover:underline">
+                  (123) 456-7890
+                </a>{" "}
+                and we'll text you a link to your project.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          /* Results Section */
           <div className="max-w-3xl mx-auto">
-            {isSearching ? (
-              <div className="text-center py-12">
-                <Loader2 className="w-8 h-8 animate-spin text-cyan-400 mx-auto mb-4" />
-                <p className="text-slate-400">Searching for your projects...</p>
-              </div>
-            ) : lookupResult?.found && lookupResult.jobs.length > 0 ? (
-              <div className="space-y-6">
-                <h2 className="text-xl font-semibold text-white mb-4">
-                  Found {lookupResult.jobs.length} project{lookupResult.jobs.length > 1 ? "s" : ""}
+            <div className="space-y-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-white">
+                  Your project{portal.jobs.length > 1 ? "s" : ""}
                 </h2>
+                <Button
+                  variant="ghost"
+                  onClick={() => signOutMutation.mutate()}
+                  disabled={signOutMutation.isPending}
+                  className="text-slate-400 hover:text-white"
+                >
+                  <LogOut className="w-4 h-4 mr-2" />
+                  Sign Out
+                </Button>
+              </div>
+              
+              {portal.jobs.map((job) => {
+                const statusInfo = STATUS_DISPLAY[job.status] || STATUS_DISPLAY.pending;
                 
-                {lookupResult.jobs.map((job) => {
-                  const statusInfo = STATUS_DISPLAY[job.status] || STATUS_DISPLAY.pending;
-                  
-                  return (
-                    <Card key={job.id} className="bg-slate-800/50 border-slate-700 overflow-hidden">
-                      {/* Status Banner */}
-                      <div className={`${statusInfo.color} px-6 py-3`}>
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center gap-2">
-                            <CheckCircle2 className="w-5 h-5 text-white" />
-                            <span className="text-white font-semibold">{statusInfo.label}</span>
-                          </div>
-                          <span className="text-white/80 text-sm">
-                            Started {formatDate(job.createdAt)}
-                          </span>
+                return (
+                  <Card key={job.id} className="bg-slate-800/50 border-slate-700 overflow-hidden">
+                    {/* Status Banner */}
+                    <div className={`${statusInfo.color} px-6 py-3`}>
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <CheckCircle2 className="w-5 h-5 text-white" />
+                          <span className="text-white font-semibold">{statusInfo.label}</span>
                         </div>
+                        <span className="text-white/80 text-sm">
+                          Started {formatDate(job.createdAt)}
+                        </span>
                       </div>
-                      
-                      <CardContent className="p-6">
-                        {/* Customer Status Message (if set) */}
-                        {job.customerStatusMessage && (
-                          <div className="bg-cyan-500/10 border border-cyan-500/30 rounded-lg p-4 mb-6">
-                            <h3 className="text-cyan-400 font-semibold mb-2 flex items-center gap-2">
-                              <AlertCircle className="w-4 h-4" />
-                              Status Update
-                            </h3>
-                            <p className="text-white whitespace-pre-wrap">{job.customerStatusMessage}</p>
-                          </div>
-                        )}
+                    </div>
+                    
+                    <CardContent className="p-6">
+                      {/* Customer Status Message (if set) */}
+                      {job.customerStatusMessage && (
+                        <div className="bg-cyan-500/10 border border-cyan-500/30 rounded-lg p-4 mb-6">
+                          <h3 className="text-cyan-400 font-semibold mb-2 flex items-center gap-2">
+                            <AlertCircle className="w-4 h-4" />
+                            Status Update
+                          </h3>
+                          <p className="text-white whitespace-pre-wrap">{job.customerStatusMessage}</p>
+                        </div>
+                      )}
 
-                        {/* If no custom message, show default status description */}
-                        {!job.customerStatusMessage && (
-                          <div className="bg-slate-700/50 rounded-lg p-4 mb-6">
-                            <p className="text-slate-300">{statusInfo.description}</p>
+                      {/* If no custom message, show default status description */}
+                      {!job.customerStatusMessage && (
+                        <div className="bg-slate-700/50 rounded-lg p-4 mb-6">
+                          <p className="text-slate-300">{statusInfo.description}</p>
+                        </div>
+                      )}
+                      
+                      {/* Property Info */}
+                      <div className="grid md:grid-cols-2 gap-4 mb-6">
+                        <div className="flex items-start gap-3">
+                          <MapPin className="w-5 h-5 text-cyan-400 mt-0.5" />
+                          <div>
+                            <p className="text-slate-400 text-sm">Property Address</p>
+                            <p className="text-white">{job.address}</p>
+                            <p className="text-slate-300">{job.cityStateZip}</p>
                           </div>
-                        )}
+                        </div>
                         
-                        {/* Property Info */}
-                        <div className="grid md:grid-cols-2 gap-4 mb-6">
+                        {job.scheduledDate && (
                           <div className="flex items-start gap-3">
-                            <MapPin className="w-5 h-5 text-cyan-400 mt-0.5" />
+                            <Calendar className="w-5 h-5 text-cyan-400 mt-0.5" />
                             <div>
-                              <p className="text-slate-400 text-sm">Property Address</p>
-                              <p className="text-white">{job.address}</p>
-                              <p className="text-slate-300">{job.cityStateZip}</p>
+                              <p className="text-slate-400 text-sm">Scheduled Appointment</p>
+                              <p className="text-white">{formatDate(job.scheduledDate)}</p>
+                              <p className="text-slate-300">{formatTime(job.scheduledDate)}</p>
                             </div>
                           </div>
-                          
-                          {job.scheduledDate && (
-                            <div className="flex items-start gap-3">
-                              <Calendar className="w-5 h-5 text-cyan-400 mt-0.5" />
-                              <div>
-                                <p className="text-slate-400 text-sm">Scheduled Appointment</p>
-                                <p className="text-white">{formatDate(job.scheduledDate)}</p>
-                                <p className="text-slate-300">{formatTime(job.scheduledDate)}</p>
-                              </div>
-                            </div>
-                          )}
-                        </div>
+                        )}
+                      </div>
 
-                        {/* Timeline (limited public view) */}
-                        {job.timeline && job.timeline.length > 0 && (
-                          <div className="mb-6">
-                            <h4 className="text-white font-semibold mb-3 flex items-center gap-2">
-                              <Clock className="w-4 h-4 text-cyan-400" />
-                              Recent Activity
-                            </h4>
-                            <div className="space-y-2 max-h-48 overflow-y-auto">
-                              {job.timeline.slice(0, 5).map((activity) => (
-                                <div key={activity.id} className="flex items-start gap-3 text-sm">
-                                  <div className="w-2 h-2 rounded-full bg-cyan-400 mt-1.5" />
-                                  <div className="flex-1">
-                                    <p className="text-slate-300">{activity.description}</p>
-                                    <p className="text-slate-500 text-xs">
-                                      {formatDate(activity.createdAt)}
-                                    </p>
-                                  </div>
+                      {/* Proposal, invoices, closeout documents and photos */}
+                      <DocumentCenter jobId={job.id} customerName={job.fullName} dealType={job.dealType} />
+
+                      {/* Timeline (limited public view) */}
+                      {job.timeline && job.timeline.length > 0 && (
+                        <div className="mb-6">
+                          <h4 className="text-white font-semibold mb-3 flex items-center gap-2">
+                            <Clock className="w-4 h-4 text-cyan-400" />
+                            Recent Activity
+                          </h4>
+                          <div className="space-y-2 max-h-48 overflow-y-auto">
+                            {job.timeline.slice(0, 5).map((activity) => (
+                              <div key={activity.id} className="flex items-start gap-3 text-sm">
+                                <div className="w-2 h-2 rounded-full bg-cyan-400 mt-1.5" />
+                                <div className="flex-1">
+                                  <p className="text-slate-300">{activity.description}</p>
+                                  <p className="text-slate-500 text-xs">
+                                    {formatDate(activity.createdAt)}
+                                  </p>
                                 </div>
-                              ))}
-                            </div>
+                              </div>
+                            ))}
                           </div>
-                        )}
-                        
-                        {/* Action Buttons */}
-                        <div className="flex flex-col sm:flex-row gap-3 pt-4 border-t border-slate-700">
-                          <Button
-                            onClick={() => {
-                              setSelectedJobId(job.id);
-                              setMessageDialogOpen(true);
-                            }}
-                            variant="outline"
-                            className="flex-1 border-cyan-500 text-cyan-400 hover:bg-cyan-500/10"
-                          >
-                            <MessageSquare className="w-4 h-4 mr-2" />
-                            Send a Message
-                          </Button>
-                          <Button
-                            onClick={() => {
-                              setSelectedJobId(job.id);
-                              setCallbackDialogOpen(true);
-                            }}
-                            className="flex-1 bg-cyan-500 hover:bg-cyan-600 text-white"
-                          >
-                            <PhoneCall className="w-4 h-4 mr-2" />
-                            Request a Call
-                          </Button>
                         </div>
-                      </CardContent>
-                    </Card>
-                  );
-                })}
-              </div>
-            ) : (
-              <Card className="bg-slate-800/50 border-slate-700">
-                <CardContent className="py-12 text-center">
-                  <AlertCircle className="w-12 h-12 text-slate-500 mx-auto mb-4" />
-                  <h3 className="text-xl font-semibold text-white mb-2">No Projects Found</h3>
-                  <p className="text-slate-400 mb-6">
-                    We couldn't find any projects associated with this phone number.
-                  </p>
-                  <p className="text-slate-500 text-sm">
-                    If you believe this is an error, please call us at{" "}
-                    <a href="tel:+1234567890" className="text-cyan-400 hover:underline">
-                      (123) 456-7890
-                    </a>
-                  </p>
-                </CardContent>
-              </Card>
-            )}
-          </div>
-        )}
-
-        {/* Initial State */}
-        {!hasSearched && (
-          <div className="text-center py-12">
-            <div className="w-24 h-24 rounded-full bg-slate-800 flex items-center justify-center mx-auto mb-6">
-              <Search className="w-12 h-12 text-slate-600" />
+                      )}
+                      
+                      {/* Action Buttons */}
+                      <div className="flex flex-col sm:flex-row gap-3 pt-4 border-t border-slate-700">
+                        <Button
+                          onClick={() => {
+                            setSelectedJobId(job.id);
+                            setMessageDialogOpen(true);
+                          }}
+                          variant="outline"
+                          className="flex-1 border-cyan-500 text-cyan-400 hover:bg-cyan-500/10"
+                        >
+                          <MessageSquare className="w-4 h-4 mr-2" />
+                          Send a Message
+                        </Button>
+                        <Button
+                          onClick={() => {
+                            setSelectedJobId(job.id);
+                            setCallbackDialogOpen(true);
+                          }}
+                          className="flex-1 bg-cyan-500 hover:bg-cyan-600 text-white"
+                        >
+                          <PhoneCall className="w-4 h-4 mr-2" />
+                          Request a Call
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
             </div>
-            <p className="text-slate-500">
-              Enter your phone number above to get started
-            </p>
           </div>
         )}
       </main>
@@ -0,0 +1,62 @@
+import { useEffect } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Link } from "wouter";
+import { CheckCircle2, AlertCircle, Loader2, CreditCard } from "lucide-react";
+
+/**
+ * Landing page for the "Pay now" link in invoice emails (?token=...) and the
+ * Stripe Checkout return URLs (?status=success|cancelled).
+ */
+export default function PayInvoice() {
+  const params = new URLSearchParams(window.location.search);
+  const token = params.get("token");
+  const status = params.get("status");
+  const invoiceNumber = params.get("invoice");
+
+  const startPayment = trpc.portal.startInvoicePayment.useMutation({
+    onSuccess: (data) => {
+      window.location.href = data.url;
+    },
+  });
+
+  useEffect(() => {
+    if (token) startPayment.mutate({ token });
+  }, []);
+
+  let icon = <Loader2 className="w-12 h-12 animate-spin text-cyan-400 mx-auto mb-4" />;
+  let title = "Redirecting to secure payment...";
+  let message = "You'll be taken to our payment processor, Stripe, to complete your payment.";
+
+  if (status === "success") {
+    icon = <CheckCircle2 className="w-12 h-12 text-emerald-400 mx-auto mb-4" />;
+    title = "Thank you for your payment!";
+    message = `Your payment${invoiceNumber ? ` for invoice ${invoiceNumber}` : ""} was received. A receipt has been emailed to you.`;
+  } else if (status === "cancelled") {
+    icon = <CreditCard className="w-12 h-12 text-slate-500 mx-auto mb-4" />;
+    title = "Payment cancelled";
+    message = "No payment was made. You can use the link in your invoice email again whenever you're ready.";
+  } else if (startPayment.error || !token) {
+    icon = <AlertCircle className="w-12 h-12 text-red-400 mx-auto mb-4" />;
+    title = "We couldn't start your payment";
+    message = startPayment.error?.message || "This payment link is incomplete. Please use the link from your invoice email.";
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center px-4">
+      <Card className="max-w-md w-full bg-slate-800/50 border-slate-700">
+        <CardContent className="py-12 text-center">
+          {icon}
+          <h1 className="text-xl font-semibold text-white mb-2">{title}</h1>
+          <p className="text-slate-400 mb-6">{message}</p>
+          {(status || startPayment.error || !token) && (
+            <Link href="/portal">
+              <Button className="bg-cyan-500 hover:bg-cyan-600 text-white">View My Project</Button>
+            </Link>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
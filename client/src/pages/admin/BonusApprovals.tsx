@@ -3,9 +3,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { trpc } from "@/lib/trpc";
-import { CheckCircle, XCircle, FileText, User, MapPin, DollarSign, AlertTriangle } from "lucide-react";
+import { CheckCircle, XCircle, FileText, User, MapPin, DollarSign, AlertTriangle, Wallet } from "lucide-react";
 import { toast } from "sonner";
 import CRMLayout from "@/components/crm/CRMLayout";
 import { format } from "date-fns";
@@ -14,15 +15,30 @@ export default function BonusApprovals() {
   const [denyDialogOpen, setDenyDialogOpen] = useState(false);
   const [selectedRequestId, setSelectedRequestId] = useState<number | null>(null);
   const [denialReason, setDenialReason] = useState("");
+  const [commissionAmounts, setCommissionAmounts] = useState<Record<number, string>>({});
 
   // Get pending requests
   const { data: pendingRequests, isLoading, refetch } = trpc.commissions.getPendingRequests.useQuery();
 
+  // Approved commissions not yet paid out (counted in the cash forecast until they are)
+  const { data: unpaid, refetch: refetchUnpaid } = trpc.commissions.getUnpaidApproved.useQuery();
+
+  const markPaid = trpc.commissions.markPaid.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.message);
+      refetchUnpaid();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
   // Review mutation
   const reviewRequest = trpc.commissions.reviewRequest.useMutation({
     onSuccess: (data) => {
       toast.success(data.message);
       refetch();
+      refetchUnpaid();
       setDenyDialogOpen(false);
       setSelectedRequestId(null);
       setDenialReason("");
@@ -33,9 +49,16 @@ export default function BonusApprovals() {
   });
 
   const handleApprove = (requestId: number) => {
+    const amount = commissionAmounts[requestId] ? parseFloat(commissionAmounts[requestId]) : undefined;
+    if (amount !== undefined && (isNaN(amount) || amount < 0)) {
+      toast.error("Enter a valid commission amount");
+      return;
+    }
+
     reviewRequest.mutate({
       requestId,
       approved: true,
+      amount,
     });
   };
 
@@ -176,6 +199,18 @@ export default function BonusApprovals() {
 
                       {/* Actions */}
                       <div className="flex flex-col gap-2 ml-4">
+                        <div>
+                          <label className="text-xs text-slate-400 mb-1 block">Commission ($)</label>
+                          <Input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            placeholder="0.00"
+                            value={commissionAmounts[request.requestId] || ""}
+                            onChange={(e) => setCommissionAmounts({ ...commissionAmounts, [request.requestId]: e.target.value })}
+                            className="h-9 w-32 bg-slate-900 border-slate-600 text-white"
+                          />
+                        </div>
                         <Button
                           onClick={() => handleApprove(request.requestId)}
                           disabled={reviewRequest.isPending}
@@ -208,6 +243,48 @@ export default function BonusApprovals() {
           </CardContent>
         </Card>
 
+        {/* Awaiting Payout */}
+        {unpaid && unpaid.length > 0 && (
+          <Card className="bg-slate-800 border-slate-700 mt-6">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center gap-2">
+                <Wallet className="w-5 h-5 text-[#00d4aa]" />
+                Awaiting Payout
+                <Badge variant="outline" className="border-slate-500 text-slate-300 ml-2">
+                  ${(unpaid.reduce((sum, row) => sum + (row.amount ?? 0), 0) / 100).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                </Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {unpaid.map((row) => (
+                  <div key={row.requestId} className="flex items-center justify-between p-3 bg-slate-700/30 rounded-lg border border-slate-600">
+                    <div>
+                      <p className="text-sm font-medium text-white">{row.userName}</p>
+                      <p className="text-xs text-slate-400">
+                        {row.jobName} · approved request from {format(new Date(row.createdAt), "MMM dd, yyyy")}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm font-semibold text-white">
+                        ${((row.amount ?? 0) / 100).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                      </span>
+                      <Button
+                        size="sm"
+                        onClick={() => markPaid.mutate({ requestId: row.requestId })}
+                        disabled={markPaid.isPending}
+                        className="bg-[#00d4aa] hover:bg-[#00b894] text-black"
+                      >
+                        Mark Paid
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Deny Dialog */}
         <Dialog open={denyDialogOpen} onOpenChange={setDenyDialogOpen}>
           <DialogContent className="bg-slate-800 border-slate-700">
@@ -19,6 +19,7 @@ import { JobMessagesTab } from "@/components/crm/job-detail/JobMessagesTab";
 import { JobTimelineTab } from "@/components/crm/job-detail/JobTimelineTab";
 import { JobEditHistoryTab } from "@/components/crm/job-detail/JobEditHistoryTab";
 import { JobPaymentsTab } from "@/components/crm/job-detail/JobPaymentsTab";
+import { JobTasksTab } from "@/components/crm/job-detail/JobTasksTab";
 import { JobFinancialsTab } from "@/components/crm/job-detail/JobFinancialsTab";
 import EstimatorTool from "@/components/estimator/EstimatorTool";
 
@@ -260,6 +261,9 @@ export default function JobDetail() {
               isOwner={permissions?.role === "owner"}
               onFileUpload={(e) => handleFileUpload(e, "photo")}
               onDeletePhoto={(photoId) => mutations.deleteDocument.mutate({ documentId: photoId })}
+              onToggleCustomerVisible={(photoId, customerVisible) =>
+                mutations.setCustomerVisible.mutate({ documentId: photoId, customerVisible })
+              }
             />
           )}
 
@@ -304,6 +308,14 @@ export default function JobDetail() {
             />
           )}
 
+          {activeTab === "tasks" && (
+            <JobTasksTab
+              jobId={jobId}
+              canEdit={canEdit}
+              searchQuery={searchQuery}
+            />
+          )}
+
           {activeTab === "financials" && (
             <JobFinancialsTab
               job={job as Job}
@@ -314,7 +326,10 @@ export default function JobDetail() {
           )}
 
           {activeTab === "estimator" && (
-            <EstimatorTool />
+            <EstimatorTool
+              jobId={jobId}
+              documents={documents.filter((doc: any) => !doc.fileType?.startsWith("image/"))}
+            />
           )}
 
           {activeTab === "edit_history" && canViewHistory && (
@@ -1,5 +1,5 @@
 import { trpc } from "@/lib/trpc";
-import { User, Phone, MapPin, GripVertical, DollarSign, AlertTriangle, Clock, Shield, Banknote, CreditCard, Building2, ChevronDown, ChevronRight, Calendar } from "lucide-react";
+import { User, Phone, MapPin, GripVertical, DollarSign, AlertTriangle, Clock, Shield, Banknote, CreditCard, Building2, ChevronDown, ChevronRight, Calendar, Ban } from "lucide-react";
 import { toast } from "sonner";
 import CRMLayout from "@/components/crm/CRMLayout";
 import { Card } from "@/components/ui/card";
@@ -77,6 +77,7 @@ export default function CRMPipeline() {
   const [showCompletionDialog, setShowCompletionDialog] = useState(false);
   const [pendingJobId, setPendingJobId] = useState<number | null>(null);
   const [completionDate, setCompletionDate] = useState<string>("");
+  const [draggingLead, setDraggingLead] = useState<any | null>(null);
   
   const { data: pipeline, isLoading, refetch } = trpc.crm.getPipeline.useQuery();
   const { data: lienRightsJobs } = trpc.crm.getLienRightsJobs.useQuery();
@@ -88,13 +89,35 @@ export default function CRMPipeline() {
       refetch();
     },
     onError: (error) => {
-      toast.error(error.message);
+      const transition = error.data?.pipelineTransition;
+      if (transition) {
+        toast.error("Job can't be moved yet", {
+          description: transition.missing.map(m => m.message).join(" • "),
+        });
+      } else {
+        toast.error(error.message);
+      }
     },
   });
 
-  const handleDragStart = (e: React.DragEvent, leadId: number) => {
-    e.dataTransfer.setData("leadId", leadId.toString());
+  const handleDragStart = (e: React.DragEvent, lead: any) => {
+    e.dataTransfer.setData("leadId", lead.id.toString());
     e.dataTransfer.effectAllowed = "move";
+    setDraggingLead(lead);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingLead(null);
+  };
+
+  // Reasons a card can't be dropped in a column (from the server's transition table)
+  const getBlockReasons = (lead: any, newStatus: PipelineStatus): string[] | null => {
+    if (!lead || lead.status === newStatus) return null;
+    if (!lead.nextStatuses?.includes(newStatus)) {
+      const stageLabel = PIPELINE_STAGES.find(s => s.key === lead.status)?.label || lead.status;
+      return [`Jobs can't move from ${stageLabel} to this stage`];
+    }
+    return lead.blockedMoves?.[newStatus] || null;
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -105,6 +128,13 @@ export default function CRMPipeline() {
   const handleDrop = (e: React.DragEvent, newStatus: PipelineStatus) => {
     e.preventDefault();
     const leadId = parseInt(e.dataTransfer.getData("leadId"));
+    const blockReasons = draggingLead?.id === leadId ? getBlockReasons(draggingLead, newStatus) : null;
+    setDraggingLead(null);
+    if (blockReasons) {
+      const stageLabel = PIPELINE_STAGES.find(s => s.key === newStatus)?.label || newStatus;
+      toast.error(`Can't move to ${stageLabel}`, { description: blockReasons.join(" • ") });
+      return;
+    }
     if (leadId) {
       // If moving to completed, show date picker dialog
       if (newStatus === "completed") {
@@ -201,7 +231,8 @@ export default function CRMPipeline() {
     <Link href={`/crm/job/${lead.id}`} key={lead.id}>
       <div
         draggable
-        onDragStart={(e) => handleDragStart(e, lead.id)}
+        onDragStart={(e) => handleDragStart(e, lead)}
+        onDragEnd={handleDragEnd}
         className="p-3 bg-slate-700 cursor-pointer hover:bg-slate-600 transition-colors border border-slate-600"
       >
         <div className="flex items-start gap-2">
@@ -297,6 +328,7 @@ export default function CRMPipeline() {
             const leads = getLeadsForStage(stage.key);
             const totalValue = getTotalValue(leads);
             const isApproved = stage.key === "approved";
+            const blockReasons = getBlockReasons(draggingLead, stage.key);
             
             return (
               <div
@@ -355,7 +387,20 @@ export default function CRMPipeline() {
                 </div>
 
                 {/* Cards Container */}
-                <div className="bg-slate-800/50 rounded-b-lg p-2 min-h-[500px] space-y-2 border border-t-0 border-slate-700">
+                <div className={`bg-slate-800/50 rounded-b-lg p-2 min-h-[500px] space-y-2 border border-t-0 ${blockReasons ? 'border-red-500/50 opacity-75' : 'border-slate-700'}`}>
+                  {/* Why the dragged card can't be dropped here */}
+                  {blockReasons && (
+                    <div className="p-2 bg-red-500/10 border border-red-500/40 rounded text-xs text-red-300 space-y-1">
+                      <div className="flex items-center gap-1 font-semibold">
+                        <Ban className="w-3 h-3" />
+                        <span>Can't drop here</span>
+                      </div>
+                      {blockReasons.map((reason) => (
+                        <p key={reason}>• {reason}</p>
+                      ))}
+                    </div>
+                  )}
+
                   {leads.map((lead: any) => renderJobCard(lead, stage.key))}
 
                   {leads.length === 0 && (
@@ -18,12 +18,18 @@ import {
   Flame,
   AlertCircle,
   Receipt,
-  BarChart3
+  BarChart3,
+  Shield
 } from "lucide-react";
 import { toast } from "sonner";
 import CRMLayout from "@/components/crm/CRMLayout";
 import AIInsightsBanner from "@/components/crm/analytics/AIInsightsBanner";
 
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const centsToDollars = (cents: number) => (cents / 100).toFixed(2);
+
 interface ReportsEnhancedProps {
   onTabChange?: (tab: 'analytics' | 'financial') => void;
 }
@@ -32,6 +38,16 @@ export default function ReportsEnhanced({ onTabChange }: ReportsEnhancedProps) {
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
 
+  // Sales tax is filed for the previous month by default
+  const [taxStartDate, setTaxStartDate] = useState(() => {
+    const now = new Date();
+    return toDateInput(new Date(now.getFullYear(), now.getMonth() - 1, 1));
+  });
+  const [taxEndDate, setTaxEndDate] = useState(() => {
+    const now = new Date();
+    return toDateInput(new Date(now.getFullYear(), now.getMonth(), 0));
+  });
+
   // Fetch Quick Win Widgets data
   const { data: cashBurn, isLoading: cashBurnLoading } = trpc.reports.getCashBurnRate.useQuery();
   const { data: redList, isLoading: redListLoading } = trpc.reports.getRedList.useQuery();
@@ -48,12 +64,46 @@ export default function ReportsEnhanced({ onTabChange }: ReportsEnhancedProps) {
     endDate: endDate || undefined,
   });
   
+  const { data: underMargin, isLoading: underMarginLoading } = trpc.reports.getUnderMarginJobs.useQuery({
+    startDate: startDate || undefined,
+    endDate: endDate || undefined,
+  });
+  
+  const { data: salesTax, isLoading: salesTaxLoading } = trpc.reports.getSalesTaxLiability.useQuery(
+    { startDate: taxStartDate, endDate: taxEndDate },
+    { enabled: !!taxStartDate && !!taxEndDate }
+  );
+
+  const downloadSalesTaxCsv = () => {
+    if (!salesTax) return;
+    const header = ["County", "State", "Invoices", "Gross Sales", "Taxable Sales", "Exempt Sales", "State Tax", "County Surtax", "Total Tax"];
+    const rows = [...salesTax.counties, { ...salesTax.totals, county: "Total", state: "" }].map(row => [
+      row.county ?? "Entered by hand",
+      row.state ?? "",
+      String(row.invoiceCount),
+      centsToDollars(row.grossSales),
+      centsToDollars(row.taxableSales),
+      centsToDollars(row.exemptSales),
+      centsToDollars(row.stateTax),
+      centsToDollars(row.surtax),
+      centsToDollars(row.totalTax),
+    ]);
+    const csv = [header, ...rows].map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(",")).join("\n") + "\n";
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `sales-tax_${taxStartDate}_to_${taxEndDate}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const { data: wipReport, isLoading: wipLoading } = trpc.reports.getWIPReport.useQuery();
   const { data: arAgingSummary, isLoading: arSummaryLoading } = trpc.reports.getARAgingSummary.useQuery();
   const { data: arAgingDetail, isLoading: arDetailLoading } = trpc.reports.getARAgingDetail.useQuery();
   const { data: apAging, isLoading: apLoading } = trpc.reports.getAPAging.useQuery();
   const { data: commissionClawback, isLoading: clawbackLoading } = trpc.reports.getCommissionClawback.useQuery();
   const { data: leadSourceROI, isLoading: roiLoading } = trpc.reports.getLeadSourceROI.useQuery();
+  const { data: depreciationOwed, isLoading: depreciationLoading } = trpc.reports.getDepreciationOutstanding.useQuery();
 
   const isLoading = cashBurnLoading || redListLoading || unbilledLoading;
 
@@ -379,6 +429,164 @@ export default function ReportsEnhanced({ onTabChange }: ReportsEnhancedProps) {
           </Card>
         </div>
 
+        {/* Jobs Under Target Margin */}
+        <Card className="bg-slate-900 border-slate-700">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center gap-2">
+              <TrendingDown className="w-5 h-5 text-red-500" />
+              Jobs Under Target Margin
+            </CardTitle>
+            <p className="text-sm text-slate-400 mt-1">
+              Finished jobs whose actual costs left less than the {underMargin?.targetMarginPercent ?? 30}% target gross margin
+            </p>
+          </CardHeader>
+          <CardContent>
+            {underMarginLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-8 h-8 animate-spin text-slate-400" />
+              </div>
+            ) : underMargin && underMargin.jobs.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-slate-700">
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-slate-400">Job</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">Revenue</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">Actual Cost</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">Gross Profit</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">Margin</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">Short of Target</th>
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-slate-400">Most Over Estimate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {underMargin.jobs.map((job) => (
+                      <tr key={job.jobId} className="border-b border-slate-800 hover:bg-slate-800/50">
+                        <td className="py-3 px-4">
+                          <p className="text-white font-medium">{job.customerName}</p>
+                          <p className="text-xs text-slate-500">{job.address}</p>
+                        </td>
+                        <td className="py-3 px-4 text-right text-white">${(job.revenue / 100).toLocaleString()}</td>
+                        <td className="py-3 px-4 text-right text-white">${(job.actualCost / 100).toLocaleString()}</td>
+                        <td className={`py-3 px-4 text-right font-semibold ${job.grossProfit < 0 ? 'text-red-400' : 'text-white'}`}>
+                          ${(job.grossProfit / 100).toLocaleString()}
+                        </td>
+                        <td className="py-3 px-4 text-right">
+                          <span className="px-2 py-1 rounded-full text-xs font-bold bg-red-500/20 text-red-400">
+                            {Number(job.marginPercent || 0).toFixed(1)}%
+                          </span>
+                        </td>
+                        <td className="py-3 px-4 text-right text-red-400">${(job.shortfall / 100).toLocaleString()}</td>
+                        <td className="py-3 px-4 text-sm text-slate-300 capitalize">{job.overBudgetCategory || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-slate-500 text-center py-8">Every finished job met the target margin</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Sales Tax Liability */}
+        <Card className="bg-slate-900 border-slate-700">
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <CardTitle className="text-white flex items-center gap-2">
+                  <Receipt className="w-5 h-5 text-[#00d4aa]" />
+                  Sales Tax Liability by County
+                </CardTitle>
+                <p className="text-sm text-slate-400 mt-1">
+                  Tax billed on invoices dated in the filing period, split into state tax and county surtax
+                </p>
+              </div>
+              <div className="flex items-end gap-3">
+                <div>
+                  <label className="text-xs text-slate-400 mb-1 block">From</label>
+                  <input
+                    type="date"
+                    value={taxStartDate}
+                    onChange={(e) => setTaxStartDate(e.target.value)}
+                    className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-slate-400 mb-1 block">To</label>
+                  <input
+                    type="date"
+                    value={taxEndDate}
+                    onChange={(e) => setTaxEndDate(e.target.value)}
+                    className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  className="border-slate-700 text-slate-300"
+                  onClick={downloadSalesTaxCsv}
+                  disabled={!salesTax || salesTax.counties.length === 0}
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  CSV
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {salesTaxLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-8 h-8 animate-spin text-slate-400" />
+              </div>
+            ) : salesTax && salesTax.counties.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-slate-700">
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-slate-400">County</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">Invoices</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">Gross Sales</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">Taxable</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">Exempt</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">State Tax</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">Surtax</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-slate-400">Total Tax</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {salesTax.counties.map((row) => (
+                      <tr key={`${row.state}-${row.county}`} className="border-b border-slate-800 hover:bg-slate-800/50">
+                        <td className="py-3 px-4 text-white font-medium">
+                          {row.county ? `${row.county}, ${row.state}` : <span className="text-slate-400 italic">Entered by hand</span>}
+                        </td>
+                        <td className="py-3 px-4 text-right text-slate-300">{row.invoiceCount}</td>
+                        <td className="py-3 px-4 text-right text-white">${centsToDollars(row.grossSales)}</td>
+                        <td className="py-3 px-4 text-right text-white">${centsToDollars(row.taxableSales)}</td>
+                        <td className="py-3 px-4 text-right text-slate-400">${centsToDollars(row.exemptSales)}</td>
+                        <td className="py-3 px-4 text-right text-white">${centsToDollars(row.stateTax)}</td>
+                        <td className="py-3 px-4 text-right text-white">${centsToDollars(row.surtax)}</td>
+                        <td className="py-3 px-4 text-right font-semibold text-[#00d4aa]">${centsToDollars(row.totalTax)}</td>
+                      </tr>
+                    ))}
+                    <tr className="border-t-2 border-slate-600 font-bold">
+                      <td className="py-3 px-4 text-white">Total</td>
+                      <td className="py-3 px-4 text-right text-slate-300">{salesTax.totals.invoiceCount}</td>
+                      <td className="py-3 px-4 text-right text-white">${centsToDollars(salesTax.totals.grossSales)}</td>
+                      <td className="py-3 px-4 text-right text-white">${centsToDollars(salesTax.totals.taxableSales)}</td>
+                      <td className="py-3 px-4 text-right text-slate-400">${centsToDollars(salesTax.totals.exemptSales)}</td>
+                      <td className="py-3 px-4 text-right text-white">${centsToDollars(salesTax.totals.stateTax)}</td>
+                      <td className="py-3 px-4 text-right text-white">${centsToDollars(salesTax.totals.surtax)}</td>
+                      <td className="py-3 px-4 text-right text-[#00d4aa]">${centsToDollars(salesTax.totals.totalTax)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-slate-500 text-center py-8">No invoices sent in this period</p>
+            )}
+          </CardContent>
+        </Card>
+
         {/* WIP Report */}
         <Card className="bg-slate-900 border-slate-700">
           <CardHeader>
@@ -487,7 +695,7 @@ export default function ReportsEnhanced({ onTabChange }: ReportsEnhancedProps) {
                         <p className="text-xs text-slate-400">{bucket.invoice_count} invoices</p>
                       </div>
                       <p className="text-lg font-bold text-emerald-400">
-                        ${Number(bucket.total_amount || 0).toLocaleString()}
+                        ${(Number(bucket.total_amount || 0) / 100).toLocaleString()}
                       </p>
                     </div>
                   ))}
@@ -546,6 +754,82 @@ export default function ReportsEnhanced({ onTabChange }: ReportsEnhancedProps) {
           </Card>
         </div>
 
+        {/* Recoverable Depreciation Owed */}
+        <Card className="bg-slate-900 border-slate-700">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center gap-2">
+              <Shield className="w-5 h-5 text-blue-400" />
+              Recoverable Depreciation Owed
+            </CardTitle>
+            <p className="text-sm text-slate-400">
+              Depreciation carriers are holding until the final check
+              {depreciationOwed && depreciationOwed.length > 0 && (
+                <span className="text-white font-semibold">
+                  {' '}· ${depreciationOwed.reduce((sum: number, job: any) => sum + Number(job.depreciation_outstanding || 0), 0).toLocaleString()} total
+                </span>
+              )}
+            </p>
+          </CardHeader>
+          <CardContent>
+            {depreciationLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-8 h-8 animate-spin text-slate-400" />
+              </div>
+            ) : depreciationOwed && depreciationOwed.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-700 text-slate-400">
+                      <th className="text-left py-3 px-2">Customer</th>
+                      <th className="text-left py-3 px-2">Carrier / Claim</th>
+                      <th className="text-left py-3 px-2">Claim Status</th>
+                      <th className="text-right py-3 px-2">ACV Received</th>
+                      <th className="text-right py-3 px-2">Depreciation</th>
+                      <th className="text-right py-3 px-2">Final Check</th>
+                      <th className="text-right py-3 px-2">Owed</th>
+                      <th className="text-right py-3 px-2">Days Since Completion</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {depreciationOwed.map((job: any) => (
+                      <tr key={job.job_id} className="border-b border-slate-800 hover:bg-slate-800/50">
+                        <td className="py-3 px-2">
+                          <p className="text-white font-medium">{job.customer_name}</p>
+                          <p className="text-xs text-slate-400">{job.address}</p>
+                        </td>
+                        <td className="py-3 px-2 text-white">
+                          {job.insurance_carrier || 'Unknown'}
+                          {job.claim_number && <p className="text-xs text-slate-400">#{job.claim_number}</p>}
+                        </td>
+                        <td className="py-3 px-2 text-white capitalize">{job.claim_status || 'Not set'}</td>
+                        <td className="text-right py-3 px-2 text-white">
+                          ${Number(job.acv_received || 0).toLocaleString()}
+                        </td>
+                        <td className="text-right py-3 px-2 text-white">
+                          ${Number(job.recoverable_depreciation || 0).toLocaleString()}
+                        </td>
+                        <td className="text-right py-3 px-2 text-white">
+                          ${Number(job.final_check_amount || 0).toLocaleString()}
+                        </td>
+                        <td className="text-right py-3 px-2 text-yellow-400 font-semibold">
+                          ${Number(job.depreciation_outstanding || 0).toLocaleString()}
+                        </td>
+                        <td className={`text-right py-3 px-2 ${
+                          job.days_since_completion !== null && job.days_since_completion > 30 ? 'text-red-400 font-bold' : 'text-slate-400'
+                        }`}>
+                          {job.days_since_completion ?? 'In progress'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-slate-500 text-center py-8">No depreciation outstanding</p>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Lead Source ROI */}
         <Card className="bg-slate-900 border-slate-700">
           <CardHeader>
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { trpc } from "@/lib/trpc";
+import { CheckCircle, Receipt, Calendar, DollarSign, MessageSquare, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import CRMLayout from "@/components/crm/CRMLayout";
+import { BillApprovalDialog } from "@/components/finance/BillApprovalDialog";
+import { format } from "date-fns";
+
+export default function BillApprovals() {
+  const [reviewBill, setReviewBill] = useState<any>(null);
+
+  // Bills waiting on the current user
+  const { data: queue, isLoading } = trpc.billApprovals.getQueue.useQuery();
+  const utils = trpc.useUtils();
+
+  const approve = trpc.billApprovals.approve.useMutation({
+    onSuccess: (bill) => {
+      toast.success(bill.approvalStatus === "approved" ? "Bill approved" : "Approved; sent on for the next sign-off");
+      utils.billApprovals.invalidate();
+      utils.bills.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <CRMLayout>
+      <div className="p-6 bg-slate-900 min-h-screen">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-white mb-2">Bill Approvals</h1>
+          <p className="text-slate-400">Bills waiting on your sign-off before they can be paid</p>
+        </div>
+
+        <Card className="bg-slate-800 border-slate-700">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center gap-2">
+              <ShieldCheck className="w-5 h-5 text-[#00d4aa]" />
+              Waiting on You
+              {queue && queue.length > 0 && (
+                <Badge variant="outline" className="border-yellow-500/30 text-yellow-400 ml-2">
+                  {queue.length} Pending
+                </Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center h-40">
+                <div className="animate-spin w-8 h-8 border-2 border-[#00d4aa] border-t-transparent rounded-full" />
+              </div>
+            ) : queue && queue.length > 0 ? (
+              <div className="space-y-4">
+                {queue.map((item) => (
+                  <div
+                    key={item.bill.id}
+                    className="p-4 bg-slate-700/30 rounded-lg border border-slate-600"
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex-1">
+                        <div className="flex items-center gap-3 mb-3">
+                          <div className="w-10 h-10 rounded-full bg-[#00d4aa] flex items-center justify-center">
+                            <Receipt className="w-5 h-5 text-black" />
+                          </div>
+                          <div>
+                            <h3 className="font-semibold text-white">{item.bill.vendorName}</h3>
+                            <p className="text-xs text-slate-400">
+                              Bill {item.bill.billNumber}
+                              {item.bill.category ? ` · ${item.bill.category.replace("_", " ")}` : ""}
+                            </p>
+                          </div>
+                        </div>
+
+                        <div className="flex flex-wrap items-center gap-4 mb-3 text-sm">
+                          <span className="flex items-center gap-1 text-white font-semibold">
+                            <DollarSign className="w-4 h-4 text-slate-400" />
+                            {Number(item.bill.totalAmount).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                          </span>
+                          <span className="flex items-center gap-1 text-slate-300">
+                            <Calendar className="w-4 h-4 text-slate-400" />
+                            Due {format(new Date(item.bill.dueDate), "MMM dd, yyyy")}
+                          </span>
+                          <Badge variant="outline" className="border-slate-500 text-slate-300">
+                            {item.ruleName ?? "Approval"}{item.step > 1 ? ` · step ${item.step}` : ""}
+                          </Badge>
+                        </div>
+
+                        {item.lastComment && (
+                          <p className="text-sm text-slate-300 flex items-start gap-2 mb-2">
+                            <MessageSquare className="w-4 h-4 text-slate-400 mt-0.5 flex-shrink-0" />
+                            {item.lastComment}
+                          </p>
+                        )}
+
+                        <div className="flex items-center gap-4 text-xs text-slate-400 pt-2 border-t border-slate-600">
+                          <span>Needs: <span className="text-white">{item.stepRoles}</span></span>
+                          <span>Submitted: {format(new Date(item.submittedAt), "MMM dd, yyyy 'at' h:mm a")}</span>
+                        </div>
+                      </div>
+
+                      <div className="flex flex-col gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => approve.mutate({ billId: item.bill.id })}
+                          disabled={approve.isPending}
+                          className="bg-green-600 hover:bg-green-700 text-white"
+                        >
+                          <CheckCircle className="w-4 h-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setReviewBill(item.bill)}
+                          className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                        >
+                          Review
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <CheckCircle className="w-12 h-12 text-slate-600 mx-auto mb-3" />
+                <p className="text-slate-400">No bills are waiting on your approval</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Reject with a reason, comment, or see the full history */}
+      <BillApprovalDialog
+        open={!!reviewBill}
+        onOpenChange={(open) => !open && setReviewBill(null)}
+        bill={reviewBill}
+      />
+    </CRMLayout>
+  );
+}
@@ -15,7 +15,11 @@ import {
   Landmark,
   Package,
   Receipt,
-  BarChart3
+  BarChart3,
+  BookOpen,
+  FileSpreadsheet,
+  PiggyBank,
+  Users
 } from 'lucide-react';
 import { 
   AreaChart, 
@@ -33,6 +37,10 @@ import { InvoicesViewNDES } from '@/components/finance/InvoicesViewNDES';
 import { BankingViewEnhanced } from '@/components/finance/BankingViewEnhanced';
 import { InventoryViewNDES } from '@/components/finance/InventoryViewNDES';
 import { BillsViewNDES } from '@/components/finance/BillsViewNDES';
+import { VendorsViewNDES } from '@/components/finance/VendorsViewNDES';
+import { LedgerViewNDES } from '@/components/finance/LedgerViewNDES';
+import { FinancialStatementsViewNDES } from '@/components/finance/FinancialStatementsViewNDES';
+import { BudgetsViewNDES } from '@/components/finance/BudgetsViewNDES';
 import { CashFlowForecast } from '@/components/finance/CashFlowForecast';
 
 // TypeScript Interfaces
@@ -70,7 +78,7 @@ const StatusBadge: React.FC<StatusBadgeProps> = ({ status }) => {
 
 export default function OwnerFinanceDashboard() {
   const [isSidebarOpen, setSidebarOpen] = useState(true);
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'invoices' | 'banking' | 'inventory' | 'bills'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'invoices' | 'banking' | 'inventory' | 'bills' | 'vendors' | 'ledger' | 'statements' | 'budgets'>('dashboard');
   const { data: metrics, isLoading } = useFinanceMetrics();
   const { user } = useAuth();
   
@@ -240,6 +248,50 @@ export default function OwnerFinanceDashboard() {
                 Bills
               </button>
             )}
+            {isOwner && (
+              <button 
+                onClick={() => setActiveTab('vendors')} 
+                className={`px-4 py-2 rounded-xl font-bold transition-all flex items-center gap-2 whitespace-nowrap ${
+                  activeTab === 'vendors' ? 'bg-purple-600 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'
+                }`}
+              >
+                <Users className="w-4 h-4" />
+                Vendors
+              </button>
+            )}
+            {isOwner && (
+              <button 
+                onClick={() => setActiveTab('ledger')} 
+                className={`px-4 py-2 rounded-xl font-bold transition-all flex items-center gap-2 whitespace-nowrap ${
+                  activeTab === 'ledger' ? 'bg-purple-600 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'
+                }`}
+              >
+                <BookOpen className="w-4 h-4" />
+                Ledger
+              </button>
+            )}
+            {isOwner && (
+              <button 
+                onClick={() => setActiveTab('statements')} 
+                className={`px-4 py-2 rounded-xl font-bold transition-all flex items-center gap-2 whitespace-nowrap ${
+                  activeTab === 'statements' ? 'bg-purple-600 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'
+                }`}
+              >
+                <FileSpreadsheet className="w-4 h-4" />
+                Statements
+              </button>
+            )}
+            {isOwner && (
+              <button 
+                onClick={() => setActiveTab('budgets')} 
+                className={`px-4 py-2 rounded-xl font-bold transition-all flex items-center gap-2 whitespace-nowrap ${
+                  activeTab === 'budgets' ? 'bg-purple-600 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'
+                }`}
+              >
+                <PiggyBank className="w-4 h-4" />
+                Budgets
+              </button>
+            )}
           </div>
 
           {/* Tab Content */}
@@ -247,12 +299,16 @@ export default function OwnerFinanceDashboard() {
           {activeTab === 'banking' && isOwner && <BankingViewEnhanced />}
           {activeTab === 'inventory' && isOwner && <InventoryViewNDES />}
           {activeTab === 'bills' && isOwner && <BillsViewNDES />}
+          {activeTab === 'vendors' && isOwner && <VendorsViewNDES />}
+          {activeTab === 'ledger' && isOwner && <LedgerViewNDES />}
+          {activeTab === 'statements' && isOwner && <FinancialStatementsViewNDES />}
+          {activeTab === 'budgets' && isOwner && <BudgetsViewNDES />}
           
           {activeTab === 'dashboard' && (
             <>
               {/* Main Chart Section */}
-              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-                <div className="lg:col-span-2 bg-[#151a21] border border-gray-800 rounded-2xl p-6 shadow-lg">
+              <div className="grid grid-cols-1 gap-6">
+                <div className="bg-[#151a21] border border-gray-800 rounded-2xl p-6 shadow-lg">
                   <div className="flex justify-between items-center mb-6">
                     <div>
                       <h2 className="text-lg font-bold text-white">Income vs Expenses</h2>
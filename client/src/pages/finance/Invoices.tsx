@@ -14,7 +14,9 @@ import {
   Trash2,
   Edit,
   Eye,
-  Copy
+  Copy,
+  BellRing,
+  Ban
 } from 'lucide-react';
 import { Sidebar } from '@/components/finance/Sidebar';
 import { trpc } from '@/lib/trpc';
@@ -50,6 +52,22 @@ const Invoices: React.FC = () => {
 
   const { data: stats } = trpc.invoices.getStats.useQuery();
 
+  const { data: reminders = [] } = trpc.invoices.getReminders.useQuery(
+    { invoiceId: selectedInvoice?.id },
+    { enabled: viewOpen && !!selectedInvoice?.id }
+  );
+
+  const runReminderSweep = trpc.invoices.runReminderSweep.useMutation({
+    onSuccess: (result) => {
+      toast.success(`${result.remindersSent} reminder(s) sent, ${result.markedOverdue} invoice(s) marked overdue` +
+        (result.failures ? `, ${result.failures} failed` : ''));
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to run reminders');
+    },
+  });
+
   const updateInvoice = trpc.invoices.update.useMutation({
     onSuccess: () => {
       toast.success('Invoice updated');
@@ -89,6 +107,25 @@ const Invoices: React.FC = () => {
     setOpenDropdown(null);
   };
 
+  // Sent invoices are voided rather than deleted so the number stays on record
+  const voidInvoice = trpc.invoices.void.useMutation({
+    onSuccess: (result) => {
+      toast.success(`Invoice ${result.invoice.invoiceNumber} voided`);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Failed to void invoice');
+    },
+  });
+
+  const handleVoid = (invoice: any) => {
+    const reason = prompt(`Void invoice ${invoice.invoiceNumber}? It keeps its number but no longer counts as owed.\n\nReason:`);
+    if (reason && reason.trim()) {
+      voidInvoice.mutate({ id: invoice.id, reason: reason.trim() });
+    }
+    setOpenDropdown(null);
+  };
+
   const handleEmail = (invoice: any) => {
     if (!invoice.clientEmail) {
       toast.error('No email address on file for this client');
@@ -215,6 +252,14 @@ const Invoices: React.FC = () => {
                   onChange={(e) => setSearchQuery(e.target.value)}
                 />
               </div>
+              <button
+                onClick={() => runReminderSweep.mutate()}
+                disabled={runReminderSweep.isPending}
+                className="bg-gray-800 hover:bg-gray-700 border border-gray-700 text-white py-2 px-4 rounded-lg text-sm flex items-center gap-2 transition-all disabled:opacity-50"
+              >
+                <BellRing className="w-4 h-4" />
+                {runReminderSweep.isPending ? 'Sending...' : 'Send Due Reminders'}
+              </button>
               <button className="bg-cyan-500 hover:bg-cyan-400 text-black font-semibold py-2 px-4 rounded-lg flex items-center gap-2 transition-all shadow-[0_0_15px_rgba(34,211,238,0.3)]">
                 <Plus className="w-4 h-4" />
                 New Invoice
@@ -322,7 +367,7 @@ const Invoices: React.FC = () => {
                             {invoice.status === 'overdue' && <AlertCircle className="w-3 h-3" />}
                             {invoice.status === 'sent' && <Clock className="w-3 h-3" />}
                             {invoice.status === 'draft' && <FileText className="w-3 h-3" />}
-                            {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
+                            {invoice.voidedAt ? 'Void' : invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
                           </span>
                         </td>
                         <td className="p-4 text-sm font-semibold text-right text-gray-100">
@@ -382,14 +427,25 @@ const Invoices: React.FC = () => {
                                       Duplicate
                                     </button>
                                     <div className="border-t border-gray-700" />
-                                    <button
-                                      onClick={() => handleDelete(invoice.id)}
-                                      className="w-full px-4 py-2 text-left text-sm text-red-400 hover:bg-red-500/10 flex items-center gap-2 transition-colors"
-                                      disabled={deleteInvoice.isPending}
-                                    >
-                                      <Trash2 className="w-4 h-4" />
-                                      Delete Invoice
-                                    </button>
+                                    {invoice.status === 'draft' ? (
+                                      <button
+                                        onClick={() => handleDelete(invoice.id)}
+                                        className="w-full px-4 py-2 text-left text-sm text-red-400 hover:bg-red-500/10 flex items-center gap-2 transition-colors"
+                                        disabled={deleteInvoice.isPending}
+                                      >
+                                        <Trash2 className="w-4 h-4" />
+                                        Delete Invoice
+                                      </button>
+                                    ) : invoice.status !== 'cancelled' && (
+                                      <button
+                                        onClick={() => handleVoid(invoice)}
+                                        className="w-full px-4 py-2 text-left text-sm text-red-400 hover:bg-red-500/10 flex items-center gap-2 transition-colors"
+                                        disabled={voidInvoice.isPending}
+                                      >
+                                        <Ban className="w-4 h-4" />
+                                        Void Invoice
+                                      </button>
+                                    )}
                                   </div>
                                 </>
                               )}
@@ -438,6 +494,24 @@ const Invoices: React.FC = () => {
                     <div className="text-slate-400 mb-1">Notes</div>
                     <div className="text-white whitespace-pre-wrap">{selectedInvoice.notes || '—'}</div>
                   </div>
+                  {reminders.length > 0 && (
+                    <div>
+                      <div className="text-slate-400 mb-1">Reminders</div>
+                      <div className="space-y-1">
+                        {reminders.map((reminder) => (
+                          <div key={reminder.id} className="flex justify-between text-xs">
+                            <span className="text-white">
+                              {reminder.dayOffset < 0 ? `${-reminder.dayOffset}d before due` : reminder.dayOffset === 0 ? 'Due date' : `${reminder.dayOffset}d past due`}
+                              {' '}by {reminder.channel}
+                            </span>
+                            <span className={reminder.delivered ? 'text-slate-400' : 'text-rose-400'}>
+                              {reminder.delivered ? formatDate(reminder.sentAt) : 'Failed'}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                   <div className="flex justify-end gap-2 pt-2">
                     <Button variant="outline" onClick={() => setViewOpen(false)}>Close</Button>
                     <Button onClick={() => handleEmail(selectedInvoice)}>Email</Button>
@@ -457,15 +531,17 @@ const Invoices: React.FC = () => {
                   <div className="space-y-2">
                     <div className="text-sm text-slate-400">Status</div>
                     <div className="flex flex-wrap gap-2">
-                      {(['draft','sent','paid','overdue','cancelled'] as InvoiceStatus[]).map((s) => (
-                        <button
-                          key={s}
-                          onClick={() => setEditStatus(s)}
-                          className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${editStatus === s ? 'border-cyan-500 text-cyan-400 bg-cyan-500/10' : 'border-gray-700 text-gray-300 hover:bg-gray-800'}`}
-                        >
-                          {s.charAt(0).toUpperCase() + s.slice(1)}
-                        </button>
-                      ))}
+                      {(['draft','sent','paid','overdue','cancelled'] as InvoiceStatus[])
+                        .filter((s) => s !== 'cancelled' || selectedInvoice.status === 'draft' || selectedInvoice.status === 'cancelled')
+                        .map((s) => (
+                          <button
+                            key={s}
+                            onClick={() => setEditStatus(s)}
+                            className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${editStatus === s ? 'border-cyan-500 text-cyan-400 bg-cyan-500/10' : 'border-gray-700 text-gray-300 hover:bg-gray-800'}`}
+                          >
+                            {s.charAt(0).toUpperCase() + s.slice(1)}
+                          </button>
+                        ))}
                     </div>
                   </div>
                   <div className="space-y-2">
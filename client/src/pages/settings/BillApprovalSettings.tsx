@@ -0,0 +1,361 @@
+/**
+ * BillApprovalSettings Page
+ * Rules for which bills need sign-off before they can be paid, and by whom
+ */
+
+import { useState } from "react";
+import SettingsLayout from "./SettingsLayout";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ShieldCheck, Plus, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+type Trigger = "amount" | "category" | "project";
+type Role = "owner" | "admin" | "office" | "project_manager" | "team_lead" | "sales_rep";
+
+interface RuleForm {
+  id?: number;
+  name: string;
+  trigger: Trigger;
+  minAmount: string;
+  category: string;
+  firstApproverRoles: Role[];
+  twoApprovers: boolean;
+  secondApproverRoles: Role[];
+  isActive: boolean;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: "",
+  trigger: "amount",
+  minAmount: "",
+  category: "",
+  firstApproverRoles: ["owner"],
+  twoApprovers: false,
+  secondApproverRoles: [],
+  isActive: true,
+};
+
+const APPROVER_ROLES: Array<{ value: Role; label: string }> = [
+  { value: "owner", label: "Owner" },
+  { value: "admin", label: "Admin" },
+  { value: "office", label: "Office" },
+  { value: "project_manager", label: "Project Manager" },
+  { value: "team_lead", label: "Team Lead" },
+  { value: "sales_rep", label: "Sales Rep" },
+];
+
+const CATEGORIES = [
+  { value: "materials", label: "Materials" },
+  { value: "labor", label: "Labor" },
+  { value: "equipment", label: "Equipment" },
+  { value: "vehicle", label: "Vehicle" },
+  { value: "utilities", label: "Utilities" },
+  { value: "insurance", label: "Insurance" },
+  { value: "professional_services", label: "Professional Services" },
+  { value: "marketing", label: "Marketing" },
+  { value: "office", label: "Office Supplies" },
+  { value: "other", label: "Other" },
+];
+
+const roleLabel = (role: string) => APPROVER_ROLES.find(r => r.value === role)?.label ?? role;
+const categoryLabel = (category: string | null) => CATEGORIES.find(c => c.value === category)?.label ?? category;
+
+function RolePicker({ value, onChange, idPrefix }: { value: Role[]; onChange: (roles: Role[]) => void; idPrefix: string }) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {APPROVER_ROLES.map(role => (
+        <div key={role.value} className="flex items-center gap-2">
+          <Checkbox
+            id={`${idPrefix}-${role.value}`}
+            checked={value.includes(role.value)}
+            onCheckedChange={(checked) =>
+              onChange(checked ? [...value, role.value] : value.filter(r => r !== role.value))
+            }
+          />
+          <Label htmlFor={`${idPrefix}-${role.value}`} className="font-normal text-slate-300">{role.label}</Label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function BillApprovalSettings() {
+  const [form, setForm] = useState<RuleForm | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: rules, isLoading } = trpc.billApprovals.listRules.useQuery();
+
+  const saveRule = trpc.billApprovals.saveRule.useMutation({
+    onSuccess: () => {
+      toast.success(form?.id ? "Rule saved" : "Rule added");
+      utils.billApprovals.invalidate();
+      utils.bills.invalidate();
+      setForm(null);
+    },
+    onError: (error) => toast.error(`Failed to save rule: ${error.message}`),
+  });
+
+  const deleteRule = trpc.billApprovals.deleteRule.useMutation({
+    onSuccess: () => {
+      toast.success("Rule deleted");
+      utils.billApprovals.invalidate();
+      utils.bills.invalidate();
+    },
+    onError: (error) => toast.error(`Failed to delete rule: ${error.message}`),
+  });
+
+  const openEdit = (rule: NonNullable<typeof rules>[number]) => {
+    setForm({
+      id: rule.id,
+      name: rule.name,
+      trigger: rule.trigger,
+      minAmount: rule.minAmount === null ? "" : String(rule.minAmount / 100),
+      category: rule.category ?? "",
+      firstApproverRoles: rule.firstApproverRoles as Role[],
+      twoApprovers: rule.secondApproverRoles.length > 0,
+      secondApproverRoles: rule.secondApproverRoles as Role[],
+      isActive: rule.isActive,
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!form) return;
+    if (!form.name.trim()) {
+      toast.error("Please name the rule");
+      return;
+    }
+
+    const minAmount = parseFloat(form.minAmount);
+    if (form.trigger === "amount" && (isNaN(minAmount) || minAmount <= 0)) {
+      toast.error("Enter the bill amount that needs approval");
+      return;
+    }
+    if (form.trigger === "category" && !form.category) {
+      toast.error("Pick a category");
+      return;
+    }
+    if (form.firstApproverRoles.length === 0 || (form.twoApprovers && form.secondApproverRoles.length === 0)) {
+      toast.error("Pick at least one role for each approval");
+      return;
+    }
+
+    saveRule.mutate({
+      id: form.id,
+      name: form.name.trim(),
+      trigger: form.trigger,
+      minAmount: form.trigger === "amount" ? minAmount : null,
+      category: form.trigger === "category" ? form.category : null,
+      firstApproverRoles: form.firstApproverRoles,
+      secondApproverRoles: form.twoApprovers ? form.secondApproverRoles : [],
+      isActive: form.isActive,
+    });
+  };
+
+  const describeTrigger = (rule: NonNullable<typeof rules>[number]) => {
+    switch (rule.trigger) {
+      case "amount":
+        return `Bills of $${((rule.minAmount ?? 0) / 100).toLocaleString()} or more`;
+      case "category":
+        return `${categoryLabel(rule.category)} bills`;
+      default:
+        return "Bills linked to a job";
+    }
+  };
+
+  return (
+    <SettingsLayout
+      title="Bill Approvals"
+      description="Which bills need sign-off before they can be paid"
+    >
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-[#00d4aa]" />
+            Approval Rules
+          </h3>
+          <Button onClick={() => setForm({ ...EMPTY_FORM })} className="bg-[#00d4aa] hover:bg-[#00b894] text-black">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+        <p className="text-sm text-slate-400">
+          When more than one rule matches a bill, the strictest one applies. Whoever entered a bill can't approve it, and
+          two-step rules need two different people. Bills no rule matches can be paid straight away.
+        </p>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin w-8 h-8 border-2 border-[#00d4aa] border-t-transparent rounded-full" />
+          </div>
+        ) : rules && rules.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-700 text-slate-400">
+                <th className="text-left py-2 px-2 font-medium">Rule</th>
+                <th className="text-left py-2 px-2 font-medium">Applies To</th>
+                <th className="text-left py-2 px-2 font-medium">First Approver</th>
+                <th className="text-left py-2 px-2 font-medium">Second Approver</th>
+                <th className="py-2 px-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map(rule => (
+                <tr key={rule.id} className={`border-b border-slate-700/50 ${rule.isActive ? "" : "opacity-60"}`}>
+                  <td className="py-3 px-2 text-white font-medium">
+                    {rule.name}
+                    {!rule.isActive && <span className="ml-2 text-xs text-slate-500">(inactive)</span>}
+                  </td>
+                  <td className="py-3 px-2 text-slate-300">{describeTrigger(rule)}</td>
+                  <td className="py-3 px-2 text-slate-300">{rule.firstApproverRoles.map(roleLabel).join(" or ")}</td>
+                  <td className="py-3 px-2 text-slate-300">
+                    {rule.secondApproverRoles.length > 0 ? rule.secondApproverRoles.map(roleLabel).join(" or ") : "—"}
+                  </td>
+                  <td className="py-3 px-2">
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => openEdit(rule)} className="text-slate-300 hover:bg-slate-700">
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          if (confirm(`Delete "${rule.name}"? Bills waiting on it are re-checked against the other rules.`)) {
+                            deleteRule.mutate({ id: rule.id });
+                          }
+                        }}
+                        className="text-red-400 hover:bg-red-500/10"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="text-center py-12 text-slate-400">
+            <ShieldCheck className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No approval rules yet. Any bill can be marked paid without sign-off.</p>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="bg-slate-800 border-slate-700 text-white">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? "Edit Rule" : "Add Rule"}</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Open bills are re-checked when you save. Bills already approved or paid aren't affected.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="ruleName">Name</Label>
+                <Input
+                  id="ruleName"
+                  placeholder="e.g. Large bills"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="bg-slate-700 border-slate-600 text-white"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="ruleTrigger">Applies To</Label>
+                  <select
+                    id="ruleTrigger"
+                    value={form.trigger}
+                    onChange={(e) => setForm({ ...form, trigger: e.target.value as Trigger })}
+                    className="w-full h-10 rounded-md bg-slate-700 border border-slate-600 text-white px-3 text-sm"
+                  >
+                    <option value="amount">Bills over an amount</option>
+                    <option value="category">Bills in a category</option>
+                    <option value="project">Bills linked to a job</option>
+                  </select>
+                </div>
+                {form.trigger === "amount" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="ruleMinAmount">Bill Total At Least ($)</Label>
+                    <Input
+                      id="ruleMinAmount"
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      placeholder="5000"
+                      value={form.minAmount}
+                      onChange={(e) => setForm({ ...form, minAmount: e.target.value })}
+                      className="bg-slate-700 border-slate-600 text-white"
+                    />
+                  </div>
+                )}
+                {form.trigger === "category" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="ruleCategory">Category</Label>
+                    <select
+                      id="ruleCategory"
+                      value={form.category}
+                      onChange={(e) => setForm({ ...form, category: e.target.value })}
+                      className="w-full h-10 rounded-md bg-slate-700 border border-slate-600 text-white px-3 text-sm"
+                    >
+                      <option value="">Select category</option>
+                      {CATEGORIES.map(category => (
+                        <option key={category.value} value={category.value}>{category.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>{form.twoApprovers ? "First Approver" : "Approver"}</Label>
+                <RolePicker
+                  idPrefix="first"
+                  value={form.firstApproverRoles}
+                  onChange={(roles) => setForm({ ...form, firstApproverRoles: roles })}
+                />
+              </div>
+              <div className="flex items-center gap-3">
+                <Switch checked={form.twoApprovers} onCheckedChange={(checked) => setForm({ ...form, twoApprovers: checked })} />
+                <Label>Needs a second approver</Label>
+              </div>
+              {form.twoApprovers && (
+                <div className="space-y-2">
+                  <Label>Second Approver</Label>
+                  <RolePicker
+                    idPrefix="second"
+                    value={form.secondApproverRoles}
+                    onChange={(roles) => setForm({ ...form, secondApproverRoles: roles })}
+                  />
+                </div>
+              )}
+              <p className="text-xs text-slate-500">Owners can approve any step.</p>
+              <div className="flex items-center gap-3">
+                <Switch checked={form.isActive} onCheckedChange={(checked) => setForm({ ...form, isActive: checked })} />
+                <Label>Active</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setForm(null)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={saveRule.isPending} className="bg-[#00d4aa] hover:bg-[#00b894] text-black">
+              {saveRule.isPending ? "Saving..." : "Save Rule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </SettingsLayout>
+  );
+}
@@ -3,9 +3,12 @@ import SettingsLayout from "./SettingsLayout";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
-import { Building2, Save } from "lucide-react";
+import { Building2, Save, BellRing, Percent, Wallet } from "lucide-react";
+
+const DEFAULT_REMINDER_DAYS = "-3, 0, 7, 14, 30";
 
 export default function CompanySettings() {
   const [formData, setFormData] = useState({
@@ -20,6 +23,11 @@ export default function CompanySettings() {
     contractorLicenseNumber: "",
     beaconAccountNumber: "",
     beaconBranchCode: "",
+    invoiceRemindersEnabled: true,
+    invoiceReminderDays: DEFAULT_REMINDER_DAYS,
+    invoiceReminderSms: true,
+    targetGrossMarginPercent: "30",
+    lowCashThreshold: "5000",
   });
 
   // Fetch company settings
@@ -50,13 +58,47 @@ export default function CompanySettings() {
         contractorLicenseNumber: settings.contractorLicenseNumber || "",
         beaconAccountNumber: settings.beaconAccountNumber || "",
         beaconBranchCode: settings.beaconBranchCode || "",
+        invoiceRemindersEnabled: "invoiceRemindersEnabled" in settings ? settings.invoiceRemindersEnabled : true,
+        invoiceReminderDays: "invoiceReminderDays" in settings && settings.invoiceReminderDays
+          ? settings.invoiceReminderDays.join(", ")
+          : DEFAULT_REMINDER_DAYS,
+        invoiceReminderSms: "invoiceReminderSms" in settings ? settings.invoiceReminderSms : true,
+        targetGrossMarginPercent: "targetGrossMarginPercent" in settings && settings.targetGrossMarginPercent
+          ? String(parseFloat(settings.targetGrossMarginPercent))
+          : "30",
+        lowCashThreshold: "lowCashThreshold" in settings && settings.lowCashThreshold !== undefined
+          ? String(settings.lowCashThreshold / 100)
+          : "5000",
       });
     }
   }, [settings]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    updateSettings.mutate(formData);
+
+    const reminderDays = formData.invoiceReminderDays
+      .split(",")
+      .map((day) => day.trim())
+      .filter(Boolean)
+      .map(Number);
+    if (reminderDays.some((day) => !Number.isInteger(day))) {
+      toast.error("Reminder days must be whole numbers, e.g. -3, 0, 7");
+      return;
+    }
+
+    const targetMargin = parseFloat(formData.targetGrossMarginPercent);
+    if (isNaN(targetMargin) || targetMargin < 0 || targetMargin > 100) {
+      toast.error("Target gross margin must be between 0 and 100%");
+      return;
+    }
+
+    const lowCashThreshold = parseFloat(formData.lowCashThreshold);
+    if (isNaN(lowCashThreshold) || lowCashThreshold < 0) {
+      toast.error("Low-cash threshold must be zero or more");
+      return;
+    }
+
+    updateSettings.mutate({ ...formData, invoiceReminderDays: reminderDays, targetGrossMarginPercent: targetMargin, lowCashThreshold });
   };
 
   if (isLoading) {
@@ -206,6 +248,92 @@ export default function CompanySettings() {
           </div>
         </div>
 
+        {/* Invoice Reminders */}
+        <div>
+          <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+            <BellRing className="w-5 h-5 text-[#00d4aa]" />
+            Invoice Reminders
+          </h3>
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-slate-300">Send payment reminders automatically</p>
+                <p className="text-xs text-slate-500">Open invoices are marked overdue after their due date and customers are reminded until the balance is paid</p>
+              </div>
+              <Switch
+                checked={formData.invoiceRemindersEnabled}
+                onCheckedChange={(checked) => setFormData({ ...formData, invoiceRemindersEnabled: checked })}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-slate-300">Reminder Schedule (days from due date)</label>
+                <Input
+                  value={formData.invoiceReminderDays}
+                  onChange={(e) => setFormData({ ...formData, invoiceReminderDays: e.target.value })}
+                  placeholder={DEFAULT_REMINDER_DAYS}
+                  disabled={!formData.invoiceRemindersEnabled}
+                  className="bg-slate-700 border-slate-600 text-white"
+                />
+                <p className="text-xs text-slate-500">Negative numbers are days before the due date</p>
+              </div>
+              <div className="flex items-center justify-between md:pt-7">
+                <label className="text-sm font-medium text-slate-300">Also send reminders by text message</label>
+                <Switch
+                  checked={formData.invoiceReminderSms}
+                  disabled={!formData.invoiceRemindersEnabled}
+                  onCheckedChange={(checked) => setFormData({ ...formData, invoiceReminderSms: checked })}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Job Costing */}
+        <div>
+          <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+            <Percent className="w-5 h-5 text-[#00d4aa]" />
+            Job Costing
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-300">Target Gross Margin (%)</label>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                step="0.5"
+                value={formData.targetGrossMarginPercent}
+                onChange={(e) => setFormData({ ...formData, targetGrossMarginPercent: e.target.value })}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+              <p className="text-xs text-slate-500">Finished jobs below this margin are listed on the under-margin report</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Cash Forecast */}
+        <div>
+          <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+            <Wallet className="w-5 h-5 text-[#00d4aa]" />
+            Cash Forecast
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-300">Low-Cash Threshold ($)</label>
+              <Input
+                type="number"
+                min={0}
+                step="100"
+                value={formData.lowCashThreshold}
+                onChange={(e) => setFormData({ ...formData, lowCashThreshold: e.target.value })}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+              <p className="text-xs text-slate-500">The 13-week forecast warns when projected cash drops below this</p>
+            </div>
+          </div>
+        </div>
+
         {/* Submit Button */}
         <div className="flex justify-end pt-4 border-t border-slate-700">
           <Button
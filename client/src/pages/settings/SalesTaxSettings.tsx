@@ -0,0 +1,299 @@
+/**
+ * SalesTaxSettings Page
+ * County rate table (state rate + discretionary surtax) and the ZIP codes each county covers
+ */
+
+import { useState } from "react";
+import SettingsLayout from "./SettingsLayout";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Receipt, Plus, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface RateForm {
+  id?: number;
+  state: string;
+  county: string;
+  stateRate: string;
+  surtaxRate: string;
+  surtaxCap: string;
+  isActive: boolean;
+  zipCodes: string;
+}
+
+const EMPTY_FORM: RateForm = {
+  state: "FL",
+  county: "",
+  stateRate: "6",
+  surtaxRate: "1",
+  surtaxCap: "5000",
+  isActive: true,
+  zipCodes: "",
+};
+
+export default function SalesTaxSettings() {
+  const [form, setForm] = useState<RateForm | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: rates, isLoading } = trpc.salesTax.listRates.useQuery();
+
+  const saveRate = trpc.salesTax.saveRate.useMutation({
+    onSuccess: () => {
+      toast.success(form?.id ? "County saved" : "County added");
+      utils.salesTax.listRates.invalidate();
+      setForm(null);
+    },
+    onError: (error) => toast.error(`Failed to save county: ${error.message}`),
+  });
+
+  const deleteRate = trpc.salesTax.deleteRate.useMutation({
+    onSuccess: () => {
+      toast.success("County deleted");
+      utils.salesTax.listRates.invalidate();
+    },
+    onError: (error) => toast.error(`Failed to delete county: ${error.message}`),
+  });
+
+  const openEdit = (rate: NonNullable<typeof rates>[number]) => {
+    setForm({
+      id: rate.id,
+      state: rate.state,
+      county: rate.county,
+      stateRate: String(parseFloat(rate.stateRate)),
+      surtaxRate: String(parseFloat(rate.surtaxRate)),
+      surtaxCap: rate.surtaxCap === null ? "" : String(rate.surtaxCap / 100),
+      isActive: rate.isActive,
+      zipCodes: rate.zipCodes.join(", "),
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!form) return;
+    if (!form.county.trim()) {
+      toast.error("Please enter the county");
+      return;
+    }
+
+    const stateRate = parseFloat(form.stateRate);
+    const surtaxRate = parseFloat(form.surtaxRate || "0");
+    if (isNaN(stateRate) || isNaN(surtaxRate) || stateRate < 0 || surtaxRate < 0) {
+      toast.error("Rates must be zero or more");
+      return;
+    }
+
+    const zipCodes = form.zipCodes.split(/[\s,]+/).filter(Boolean);
+    const badZip = zipCodes.find(zip => !/^\d{5}$/.test(zip));
+    if (badZip) {
+      toast.error(`"${badZip}" is not a 5-digit ZIP code`);
+      return;
+    }
+
+    saveRate.mutate({
+      id: form.id,
+      state: form.state.trim() || "FL",
+      county: form.county.trim(),
+      stateRate,
+      surtaxRate,
+      surtaxCap: form.surtaxCap ? parseFloat(form.surtaxCap) : null,
+      isActive: form.isActive,
+      zipCodes,
+    });
+  };
+
+  return (
+    <SettingsLayout
+      title="Sales Tax"
+      description="State and county surtax rates applied to invoices by job address"
+    >
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Receipt className="w-5 h-5 text-[#00d4aa]" />
+            County Rates
+          </h3>
+          <Button onClick={() => setForm({ ...EMPTY_FORM })} className="bg-[#00d4aa] hover:bg-[#00b894] text-black">
+            <Plus className="w-4 h-4 mr-2" />
+            Add County
+          </Button>
+        </div>
+        <p className="text-sm text-slate-400">
+          Jobs are matched to a county by the ZIP in their address, or by the county picked on the job.
+          Check surtax rates against the Department of Revenue's DR-15DSS each January; changes apply to draft invoices as they're recalculated.
+        </p>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin w-8 h-8 border-2 border-[#00d4aa] border-t-transparent rounded-full" />
+          </div>
+        ) : rates && rates.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-700 text-slate-400">
+                <th className="text-left py-2 px-2 font-medium">County</th>
+                <th className="text-right py-2 px-2 font-medium">State</th>
+                <th className="text-right py-2 px-2 font-medium">Surtax</th>
+                <th className="text-right py-2 px-2 font-medium">Combined</th>
+                <th className="text-right py-2 px-2 font-medium">Surtax Cap</th>
+                <th className="text-left py-2 px-2 font-medium">ZIP Codes</th>
+                <th className="py-2 px-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rates.map(rate => (
+                <tr key={rate.id} className={`border-b border-slate-700/50 ${rate.isActive ? "" : "opacity-60"}`}>
+                  <td className="py-3 px-2 text-white font-medium">
+                    {rate.county}, {rate.state}
+                    {!rate.isActive && <span className="ml-2 text-xs text-slate-500">(inactive)</span>}
+                  </td>
+                  <td className="py-3 px-2 text-right font-mono text-slate-300">{parseFloat(rate.stateRate)}%</td>
+                  <td className="py-3 px-2 text-right font-mono text-slate-300">{parseFloat(rate.surtaxRate)}%</td>
+                  <td className="py-3 px-2 text-right font-mono text-white">
+                    {(parseFloat(rate.stateRate) + parseFloat(rate.surtaxRate)).toFixed(2).replace(/\.?0+$/, "")}%
+                  </td>
+                  <td className="py-3 px-2 text-right font-mono text-slate-300">
+                    {rate.surtaxCap === null ? "None" : `$${(rate.surtaxCap / 100).toLocaleString()}`}
+                  </td>
+                  <td className="py-3 px-2 text-xs text-slate-400 max-w-xs truncate" title={rate.zipCodes.join(", ")}>
+                    {rate.zipCodes.length > 0 ? rate.zipCodes.join(", ") : "—"}
+                  </td>
+                  <td className="py-3 px-2">
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => openEdit(rate)} className="text-slate-300 hover:bg-slate-700">
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          if (confirm(`Delete ${rate.county} County? Invoices already taxed keep their breakdown.`)) {
+                            deleteRate.mutate({ id: rate.id });
+                          }
+                        }}
+                        className="text-red-400 hover:bg-red-500/10"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="text-center py-12 text-slate-400">
+            <Receipt className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No counties yet. Invoices won't be taxed until the job's county has a rate.</p>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="bg-slate-800 border-slate-700 text-white">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? "Edit County" : "Add County"}</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Sent invoices keep the rate they were billed at.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4 py-4">
+              <div className="grid grid-cols-4 gap-4">
+                <div className="space-y-2 col-span-3">
+                  <Label htmlFor="taxCounty">County</Label>
+                  <Input
+                    id="taxCounty"
+                    placeholder="e.g. Hillsborough"
+                    value={form.county}
+                    onChange={(e) => setForm({ ...form, county: e.target.value })}
+                    className="bg-slate-700 border-slate-600 text-white"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="taxState">State</Label>
+                  <Input
+                    id="taxState"
+                    maxLength={2}
+                    value={form.state}
+                    onChange={(e) => setForm({ ...form, state: e.target.value.toUpperCase() })}
+                    className="bg-slate-700 border-slate-600 text-white"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="taxStateRate">State Rate (%)</Label>
+                  <Input
+                    id="taxStateRate"
+                    type="number"
+                    step="0.001"
+                    min={0}
+                    value={form.stateRate}
+                    onChange={(e) => setForm({ ...form, stateRate: e.target.value })}
+                    className="bg-slate-700 border-slate-600 text-white"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="taxSurtaxRate">County Surtax (%)</Label>
+                  <Input
+                    id="taxSurtaxRate"
+                    type="number"
+                    step="0.001"
+                    min={0}
+                    value={form.surtaxRate}
+                    onChange={(e) => setForm({ ...form, surtaxRate: e.target.value })}
+                    className="bg-slate-700 border-slate-600 text-white"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="taxSurtaxCap">Surtax Cap ($/item)</Label>
+                  <Input
+                    id="taxSurtaxCap"
+                    type="number"
+                    min={0}
+                    placeholder="No cap"
+                    value={form.surtaxCap}
+                    onChange={(e) => setForm({ ...form, surtaxCap: e.target.value })}
+                    className="bg-slate-700 border-slate-600 text-white"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="taxZipCodes">ZIP Codes</Label>
+                <Textarea
+                  id="taxZipCodes"
+                  placeholder="33602, 33603, 33606"
+                  value={form.zipCodes}
+                  onChange={(e) => setForm({ ...form, zipCodes: e.target.value })}
+                  className="bg-slate-700 border-slate-600 text-white font-mono"
+                  rows={3}
+                />
+                <p className="text-xs text-slate-500">Separate with commas or spaces. A ZIP can belong to one county only.</p>
+              </div>
+              <div className="flex items-center gap-3">
+                <Switch checked={form.isActive} onCheckedChange={(checked) => setForm({ ...form, isActive: checked })} />
+                <Label>Active</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setForm(null)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={saveRate.isPending} className="bg-[#00d4aa] hover:bg-[#00b894] text-black">
+              {saveRate.isPending ? "Saving..." : "Save County"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </SettingsLayout>
+  );
+}
@@ -0,0 +1,201 @@
+/**
+ * ScheduledJobsSettings Page
+ * Owner view of background jobs: schedule, last run, duration, failures and run history
+ */
+
+import { useState } from "react";
+import SettingsLayout from "./SettingsLayout";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Clock, Play, ChevronDown, ChevronRight, AlertTriangle, CheckCircle2, XCircle, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { format, formatDistanceToNow } from "date-fns";
+
+const STATUS_STYLES: Record<string, string> = {
+  succeeded: "bg-green-500/20 text-green-400",
+  failed: "bg-red-500/20 text-red-400",
+  running: "bg-blue-500/20 text-blue-400",
+};
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return "—";
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+};
+
+function RunHistory({ name }: { name: string }) {
+  const { data: runs, isLoading } = trpc.scheduler.getRuns.useQuery({ name, limit: 20 });
+
+  if (isLoading) {
+    return <Loader2 className="w-4 h-4 animate-spin text-slate-400 my-3" />;
+  }
+  if (!runs || runs.length === 0) {
+    return <p className="text-sm text-slate-500 py-3">This job hasn't run yet.</p>;
+  }
+
+  return (
+    <table className="w-full mt-3 text-sm">
+      <thead>
+        <tr className="border-b border-slate-700 text-slate-400">
+          <th className="text-left py-2 px-2 font-medium">Started</th>
+          <th className="text-left py-2 px-2 font-medium">Trigger</th>
+          <th className="text-left py-2 px-2 font-medium">Status</th>
+          <th className="text-right py-2 px-2 font-medium">Duration</th>
+          <th className="text-left py-2 px-2 font-medium">Result</th>
+        </tr>
+      </thead>
+      <tbody>
+        {runs.map(run => (
+          <tr key={run.id} className="border-b border-slate-700/50 align-top">
+            <td className="py-2 px-2 text-slate-300 whitespace-nowrap">{format(new Date(run.startedAt), "MMM d, h:mm:ss a")}</td>
+            <td className="py-2 px-2 text-slate-400 capitalize">
+              {run.trigger}{run.attempt > 1 && ` #${run.attempt}`}
+            </td>
+            <td className="py-2 px-2">
+              <span className={`px-2 py-0.5 rounded-full text-xs capitalize ${STATUS_STYLES[run.status]}`}>{run.status}</span>
+            </td>
+            <td className="py-2 px-2 text-right font-mono text-slate-300">{formatDuration(run.durationMs)}</td>
+            <td className="py-2 px-2 text-xs font-mono break-all">
+              {run.error ? (
+                <span className="text-red-400">{run.error}</span>
+              ) : (
+                <span className="text-slate-400">{run.result ? JSON.stringify(run.result) : ""}</span>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function ScheduledJobsSettings() {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: jobs, isLoading, error } = trpc.scheduler.list.useQuery(undefined, {
+    refetchInterval: 30_000,
+    retry: false,
+  });
+
+  const refresh = (name: string) => {
+    utils.scheduler.list.invalidate();
+    utils.scheduler.getRuns.invalidate({ name });
+  };
+
+  const runNow = trpc.scheduler.runNow.useMutation({
+    onSuccess: (outcome, { name }) => {
+      if (outcome.status === "succeeded") toast.success(`${name} finished in ${formatDuration(outcome.durationMs)}`);
+      else toast.error(`${name} failed: ${outcome.error}`);
+      refresh(name);
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const setEnabled = trpc.scheduler.setEnabled.useMutation({
+    onSuccess: () => utils.scheduler.list.invalidate(),
+    onError: (err) => toast.error(`Failed to update job: ${err.message}`),
+  });
+
+  return (
+    <SettingsLayout
+      title="Scheduled Jobs"
+      description="Recurring work the server runs in the background"
+    >
+      <div className="space-y-6">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Clock className="w-5 h-5 text-[#00d4aa]" />
+          Background Jobs
+        </h3>
+        <p className="text-sm text-slate-400">
+          Failed runs are retried with increasing delays before waiting for the next scheduled time. Pausing a job stops its schedule; it can still be run by hand.
+        </p>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin w-8 h-8 border-2 border-[#00d4aa] border-t-transparent rounded-full" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-400">{error.message}</p>
+        ) : (
+          <div className="space-y-2">
+            {jobs?.map(job => {
+              const isOpen = expanded === job.name;
+              const isRunning = job.running || (runNow.isPending && runNow.variables?.name === job.name);
+              return (
+                <div
+                  key={job.name}
+                  className={`rounded-lg border border-slate-600 bg-slate-700/30 ${job.enabled ? "" : "opacity-60"}`}
+                >
+                  <div className="flex items-center gap-4 p-4">
+                    <Switch
+                      checked={job.enabled}
+                      onCheckedChange={(checked) => setEnabled.mutate({ name: job.name, enabled: checked })}
+                    />
+                    <button
+                      className="flex-1 min-w-0 text-left"
+                      onClick={() => setExpanded(isOpen ? null : job.name)}
+                    >
+                      <p className="font-medium text-white flex items-center gap-2">
+                        {isOpen ? <ChevronDown className="w-4 h-4 text-slate-400" /> : <ChevronRight className="w-4 h-4 text-slate-400" />}
+                        {job.name}
+                        <span className="font-mono text-xs text-slate-500">{job.schedule}</span>
+                      </p>
+                      <p className="text-xs text-slate-400 mt-1">{job.description}</p>
+                      <p className="text-xs text-slate-500 mt-1">
+                        {job.lastRunAt ? (
+                          <>
+                            Last run {formatDistanceToNow(new Date(job.lastRunAt), { addSuffix: true })}
+                            {" · "}{formatDuration(job.lastDurationMs)}
+                          </>
+                        ) : "Never run"}
+                        {job.enabled && job.nextRunAt && (
+                          <>{" · "}Next {format(new Date(job.nextRunAt), "MMM d, h:mm a")}{job.retryAttempt > 0 && ` (retry ${job.retryAttempt})`}</>
+                        )}
+                      </p>
+                      {job.lastStatus === "failed" && job.lastError && (
+                        <p className="text-xs text-red-400 mt-1 truncate">{job.lastError}</p>
+                      )}
+                    </button>
+                    <div className="flex items-center gap-3">
+                      {job.consecutiveFailures > 0 && (
+                        <span className="flex items-center gap-1 text-xs text-amber-400">
+                          <AlertTriangle className="w-3 h-3" />
+                          {job.consecutiveFailures} failure{job.consecutiveFailures === 1 ? "" : "s"}
+                        </span>
+                      )}
+                      {isRunning ? (
+                        <Loader2 className="w-4 h-4 animate-spin text-blue-400" />
+                      ) : job.lastStatus === "succeeded" ? (
+                        <CheckCircle2 className="w-4 h-4 text-green-400" />
+                      ) : job.lastStatus === "failed" ? (
+                        <XCircle className="w-4 h-4 text-red-400" />
+                      ) : null}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isRunning}
+                        onClick={() => runNow.mutate({ name: job.name })}
+                        className="text-[#00d4aa] hover:text-[#00d4aa] hover:bg-[#00d4aa]/10"
+                      >
+                        <Play className="w-4 h-4 mr-1" />
+                        Run Now
+                      </Button>
+                    </div>
+                  </div>
+                  {isOpen && (
+                    <div className="px-4 pb-4 border-t border-slate-700/50">
+                      <RunHistory name={job.name} />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </SettingsLayout>
+  );
+}
@@ -1,5 +1,5 @@
 import { Link, useLocation } from "wouter";
-import { User, Building2, Settings, ChevronLeft } from "lucide-react";
+import { User, Building2, Settings, ListChecks, Clock, Receipt, ShieldCheck, ChevronLeft } from "lucide-react";
 import CRMLayout from "@/components/crm/CRMLayout";
 
 interface SettingsLayoutProps {
@@ -22,6 +22,34 @@ const settingsNav = [
     description: "Business info, logo, and supplier defaults",
     ownerOnly: true,
   },
+  {
+    label: "Sales Tax",
+    href: "/settings/sales-tax",
+    icon: Receipt,
+    description: "County surtax rates and ZIP codes",
+    ownerOnly: true,
+  },
+  {
+    label: "Bill Approvals",
+    href: "/settings/bill-approvals",
+    icon: ShieldCheck,
+    description: "Which bills need sign-off before payment",
+    ownerOnly: true,
+  },
+  {
+    label: "Task Templates",
+    href: "/settings/task-templates",
+    icon: ListChecks,
+    description: "Stage checklists created on jobs automatically",
+    ownerOnly: true,
+  },
+  {
+    label: "Scheduled Jobs",
+    href: "/settings/scheduled-jobs",
+    icon: Clock,
+    description: "Background reminders, alerts, and imports",
+    ownerOnly: true,
+  },
   {
     label: "General",
     href: "/settings",
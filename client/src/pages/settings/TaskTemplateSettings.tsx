@@ -0,0 +1,344 @@
+/**
+ * TaskTemplateSettings Page
+ * Owner-managed checklists that generate job tasks when a job enters a pipeline stage
+ */
+
+import { useState } from "react";
+import SettingsLayout from "./SettingsLayout";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ListChecks, Plus, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+type PipelineStatus =
+  | "lead" | "appointment_set" | "prospect" | "approved" | "project_scheduled"
+  | "completed" | "invoiced" | "lien_legal" | "closed_deal" | "closed_lost";
+type DealType = "insurance" | "cash" | "financed";
+type TaskPriority = "low" | "medium" | "high" | "urgent";
+
+const STAGES: { value: PipelineStatus; label: string }[] = [
+  { value: "lead", label: "Lead" },
+  { value: "appointment_set", label: "Appointment Set" },
+  { value: "prospect", label: "Prospect" },
+  { value: "approved", label: "Approved" },
+  { value: "project_scheduled", label: "Project Scheduled" },
+  { value: "completed", label: "Completed" },
+  { value: "invoiced", label: "Invoiced" },
+  { value: "closed_deal", label: "Closed Deal" },
+  { value: "lien_legal", label: "Lien Legal" },
+  { value: "closed_lost", label: "Closed Lost" },
+];
+
+const DEAL_TYPE_LABELS: Record<DealType, string> = {
+  insurance: "Insurance",
+  cash: "Cash",
+  financed: "Financed",
+};
+
+const ALL_DEAL_TYPES = "all";
+const JOB_ASSIGNEE = "job_assignee";
+
+interface TemplateForm {
+  id?: number;
+  title: string;
+  description: string;
+  triggerStatus: PipelineStatus;
+  dealType: string;
+  dueInDays: string;
+  assignedTo: string;
+  priority: TaskPriority;
+}
+
+const EMPTY_FORM: TemplateForm = {
+  title: "",
+  description: "",
+  triggerStatus: "approved",
+  dealType: ALL_DEAL_TYPES,
+  dueInDays: "1",
+  assignedTo: JOB_ASSIGNEE,
+  priority: "medium",
+};
+
+export default function TaskTemplateSettings() {
+  const [form, setForm] = useState<TemplateForm | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: templates, isLoading } = trpc.taskTemplates.list.useQuery();
+  const { data: teamMembers } = trpc.crm.getAllUsers.useQuery();
+
+  const onSaved = (message: string) => {
+    toast.success(message);
+    utils.taskTemplates.list.invalidate();
+    setForm(null);
+  };
+
+  const createTemplate = trpc.taskTemplates.create.useMutation({
+    onSuccess: () => onSaved("Template added"),
+    onError: (error) => toast.error(`Failed to add template: ${error.message}`),
+  });
+
+  const updateTemplate = trpc.taskTemplates.update.useMutation({
+    onSuccess: () => onSaved("Template saved"),
+    onError: (error) => toast.error(`Failed to save template: ${error.message}`),
+  });
+
+  const toggleTemplate = trpc.taskTemplates.update.useMutation({
+    onSuccess: () => utils.taskTemplates.list.invalidate(),
+    onError: (error) => toast.error(`Failed to update template: ${error.message}`),
+  });
+
+  const deleteTemplate = trpc.taskTemplates.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Template deleted");
+      utils.taskTemplates.list.invalidate();
+    },
+    onError: (error) => toast.error(`Failed to delete template: ${error.message}`),
+  });
+
+  const openEdit = (template: NonNullable<typeof templates>[number]) => {
+    setForm({
+      id: template.id,
+      title: template.title,
+      description: template.description || "",
+      triggerStatus: template.triggerStatus,
+      dealType: template.dealType || ALL_DEAL_TYPES,
+      dueInDays: String(template.dueInDays),
+      assignedTo: template.assignedTo ? String(template.assignedTo) : JOB_ASSIGNEE,
+      priority: template.priority,
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!form) return;
+    if (!form.title.trim()) {
+      toast.error("Please enter a task title");
+      return;
+    }
+
+    const dueInDays = parseInt(form.dueInDays);
+    if (isNaN(dueInDays) || dueInDays < 0) {
+      toast.error("Due in days must be zero or more");
+      return;
+    }
+
+    const values = {
+      title: form.title.trim(),
+      description: form.description || null,
+      triggerStatus: form.triggerStatus,
+      dealType: form.dealType === ALL_DEAL_TYPES ? null : (form.dealType as DealType),
+      dueInDays,
+      assignedTo: form.assignedTo === JOB_ASSIGNEE ? null : parseInt(form.assignedTo),
+      priority: form.priority,
+    };
+
+    if (form.id) {
+      updateTemplate.mutate({ id: form.id, ...values });
+    } else {
+      createTemplate.mutate(values);
+    }
+  };
+
+  const isSaving = createTemplate.isPending || updateTemplate.isPending;
+
+  return (
+    <SettingsLayout
+      title="Task Templates"
+      description="Checklist tasks created automatically when a job moves into a stage"
+    >
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <ListChecks className="w-5 h-5 text-[#00d4aa]" />
+            Stage Checklists
+          </h3>
+          <Button onClick={() => setForm({ ...EMPTY_FORM })} className="bg-[#00d4aa] hover:bg-[#00b894] text-black">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Template
+          </Button>
+        </div>
+        <p className="text-sm text-slate-400">
+          Each template creates one task per job. Moving a job back and forth between stages will not create duplicates.
+        </p>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin w-8 h-8 border-2 border-[#00d4aa] border-t-transparent rounded-full" />
+          </div>
+        ) : (
+          STAGES.filter(stage => templates?.some(t => t.triggerStatus === stage.value)).map(stage => (
+            <div key={stage.value}>
+              <h4 className="text-sm font-medium uppercase tracking-wider text-slate-400 mb-2">{stage.label}</h4>
+              <div className="space-y-2">
+                {templates!.filter(t => t.triggerStatus === stage.value).map(template => (
+                  <div
+                    key={template.id}
+                    className={`flex items-center gap-4 p-4 rounded-lg border border-slate-600 bg-slate-700/30 ${template.isActive ? "" : "opacity-60"}`}
+                  >
+                    <Switch
+                      checked={template.isActive}
+                      onCheckedChange={(checked) => toggleTemplate.mutate({ id: template.id, isActive: checked })}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-white">{template.title}</p>
+                      <p className="text-xs text-slate-400 mt-1">
+                        {template.dealType ? DEAL_TYPE_LABELS[template.dealType] : "All deal types"}
+                        {" · "}Due {template.dueInDays === 0 ? "same day" : `in ${template.dueInDays} day${template.dueInDays === 1 ? "" : "s"}`}
+                        {" · "}{template.assigneeName || "Job's assigned rep"}
+                        {" · "}{template.priority}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(template)} className="text-slate-300 hover:bg-slate-700">
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        if (confirm(`Delete "${template.title}"? Tasks already created on jobs are kept.`)) {
+                          deleteTemplate.mutate({ id: template.id });
+                        }
+                      }}
+                      className="text-red-400 hover:bg-red-500/10"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+
+        {!isLoading && templates?.length === 0 && (
+          <div className="text-center py-12 text-slate-400">
+            <ListChecks className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No task templates yet</p>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="bg-slate-800 border-slate-700 text-white">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? "Edit Template" : "Add Template"}</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Changes apply to jobs entering the stage from now on.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="templateTitle">Task Title</Label>
+                <Input
+                  id="templateTitle"
+                  placeholder="e.g. Pull permit"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  className="bg-slate-700 border-slate-600 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="templateDescription">Details (Optional)</Label>
+                <Textarea
+                  id="templateDescription"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className="bg-slate-700 border-slate-600 text-white"
+                  rows={2}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>When Job Moves To</Label>
+                  <Select value={form.triggerStatus} onValueChange={(value: PipelineStatus) => setForm({ ...form, triggerStatus: value })}>
+                    <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-700 border-slate-600">
+                      {STAGES.map(stage => (
+                        <SelectItem key={stage.value} value={stage.value}>{stage.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Deal Type</Label>
+                  <Select value={form.dealType} onValueChange={(value) => setForm({ ...form, dealType: value })}>
+                    <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-700 border-slate-600">
+                      <SelectItem value={ALL_DEAL_TYPES}>All deal types</SelectItem>
+                      {(Object.keys(DEAL_TYPE_LABELS) as DealType[]).map(dealType => (
+                        <SelectItem key={dealType} value={dealType}>{DEAL_TYPE_LABELS[dealType]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="templateDueIn">Due In (Days)</Label>
+                  <Input
+                    id="templateDueIn"
+                    type="number"
+                    min={0}
+                    value={form.dueInDays}
+                    onChange={(e) => setForm({ ...form, dueInDays: e.target.value })}
+                    className="bg-slate-700 border-slate-600 text-white"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Assign To</Label>
+                  <Select value={form.assignedTo} onValueChange={(value) => setForm({ ...form, assignedTo: value })}>
+                    <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-700 border-slate-600">
+                      <SelectItem value={JOB_ASSIGNEE}>Job's assigned rep</SelectItem>
+                      {teamMembers?.map(member => (
+                        <SelectItem key={member.id} value={String(member.id)}>{member.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Priority</Label>
+                  <Select value={form.priority} onValueChange={(value: TaskPriority) => setForm({ ...form, priority: value })}>
+                    <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-700 border-slate-600">
+                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                      <SelectItem value="urgent">Urgent</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setForm(null)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSaving} className="bg-[#00d4aa] hover:bg-[#00b894] text-black">
+              {isSaving ? "Saving..." : "Save Template"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </SettingsLayout>
+  );
+}
@@ -98,6 +98,12 @@ export type DealType =
   | "retail"
   | "warranty";
 
+/**
+ * Claim Status Enum
+ * Matches the database claimStatusEnum
+ */
+export type ClaimStatus = "filed" | "inspected" | "approved" | "denied" | "appealed";
+
 /**
  * Priority Enum
  * Matches the database priorityEnum
@@ -170,6 +176,19 @@ export interface Job {
   claimNumber?: string | null;
   deductible?: string | null; // numeric stored as string
   
+  // Claim lifecycle
+  claimStatus?: ClaimStatus | null;
+  adjusterName?: string | null;
+  adjusterPhone?: string | null;
+  adjusterEmail?: string | null;
+  adjusterMeetingAt?: Date | string | null;
+  adjusterMeetingEventId?: number | null;
+  acvCheckAmount?: string | null; // numeric stored as string
+  acvCheckReceivedAt?: Date | string | null;
+  recoverableDepreciation?: string | null; // numeric stored as string
+  finalCheckAmount?: string | null; // numeric stored as string
+  finalCheckReceivedAt?: Date | string | null;
+  
   // Payment info
   promoCode?: string | null;
   promoApplied: boolean;
@@ -217,6 +236,13 @@ export interface Job {
   counterPrice?: string | null; // numeric stored as string
   priceStatus?: PriceStatus | null;
   
+  // Proposal signature audit trail
+  proposalSignedAt?: Date | string | null;
+  proposalSignedIp?: string | null;
+  proposalSignedUserAgent?: string | null;
+  proposalSignedVia?: "in_person" | "portal" | null;
+  proposalSignedDocumentId?: number | null;
+  
   // Approved amount and change orders
   approvedAmount?: number | null; // Initial approved amount (visible after approval)
   extrasCharged?: number | null; // Additional charges for extras/change orders (visible when completed)
@@ -37,7 +37,7 @@ export async function parseStatement(
   const isExcel = fileName.endsWith('.xlsx') || fileName.endsWith('.xls');
   
   if (!isCSV && !isPDF && !isExcel) {
-    throw new Error(`File "${file.name}" not recognized. Please upload a CSV, Excel, or PDF file.`);
+    throw new Error(`File "${file.name}" not recognized. Please upload a CSV, Excel, PDF, OFX/QFX/QBO or CAMT.053 file.`);
   }
 
   if (isCSV || isExcel) {
@@ -578,36 +578,24 @@ ORDER BY gross_profit DESC;
 
 -- 5.1 CASH BURN RATE
 -- Shows weeks of runway based on current expenses
+-- Cash and expenses come from the general ledger (section 6)
 -- ============================================================================
 WITH weekly_expenses AS (
   SELECT 
-    AVG(weekly_total) as avg_weekly_expense
-  FROM (
-    SELECT 
-      DATE_TRUNC('week', bp.bill_date) as week,
-      SUM(bp.total_amount) as weekly_total
-    FROM bills_payable bp
-    WHERE bp.status = 'paid'
-      AND bp.bill_date >= CURRENT_DATE - INTERVAL '8 weeks'
-    GROUP BY DATE_TRUNC('week', bp.bill_date)
-  ) weekly_totals
+    SUM(jl.debit - jl.credit) / 100.0 / 8 as avg_weekly_expense
+  FROM journal_lines jl
+  JOIN journal_entries je ON je.id = jl.entry_id
+  JOIN ledger_accounts la ON la.id = jl.account_id
+  WHERE la.type = 'expense'
+    AND je.entry_date >= CURRENT_DATE - INTERVAL '8 weeks'
 ),
 current_cash AS (
+  -- Bank and card accounts from the general ledger (card balances count against cash)
   SELECT 
-    SUM(
-      CASE 
-        WHEN bt.amount > 0 THEN bt.amount
-        ELSE 0 
-      END
-    ) - 
-    SUM(
-      CASE 
-        WHEN bt.amount < 0 THEN ABS(bt.amount)
-        ELSE 0 
-      END
-    ) as bank_balance
-  FROM bank_transactions bt
-  WHERE bt.status = 'reconciled'
+    COALESCE(SUM(jl.debit - jl.credit), 0) / 100.0 as bank_balance
+  FROM journal_lines jl
+  JOIN ledger_accounts la ON la.id = jl.account_id
+  WHERE la.subtype = 'cash'
 )
 SELECT 
   ROUND(cc.bank_balance::numeric, 2) as current_bank_balance,
@@ -730,6 +718,85 @@ SELECT
 FROM completed_unbilled;
 
 
+-- ============================================================================
+-- 6. GENERAL LEDGER
+-- ============================================================================
+-- Every invoice, payment, approved/paid bill, expense and reconciled bank
+-- transaction posts a balanced journal entry (server/lib/ledger.ts). Amounts
+-- in journal_lines are cents. Corrections are posted as reversing entries, so
+-- summing all lines always gives the current position.
+--
+-- Sections 1-4 and 5.2-5.4 still read the source tables: they need job, due-date
+-- and credit memo application detail the journal doesn't carry, and AP aging
+-- includes pending bills that aren't posted until approved.
+
+-- 6.1 TRIAL BALANCE
+-- Debits and credits per account as of a date; total debits = total credits
+-- ============================================================================
+SELECT 
+  la.code,
+  la.name,
+  la.type,
+  ROUND(SUM(jl.debit) / 100.0, 2) as total_debits,
+  ROUND(SUM(jl.credit) / 100.0, 2) as total_credits,
+  ROUND(
+    CASE 
+      WHEN la.type IN ('asset', 'expense') THEN SUM(jl.debit - jl.credit)
+      ELSE SUM(jl.credit - jl.debit)
+    END / 100.0, 2
+  ) as balance
+FROM journal_lines jl
+JOIN journal_entries je ON je.id = jl.entry_id
+JOIN ledger_accounts la ON la.id = jl.account_id
+WHERE je.entry_date <= CURRENT_DATE + INTERVAL '1 day'
+GROUP BY la.id, la.code, la.name, la.type
+ORDER BY la.code;
+
+
+-- 6.2 OUT-OF-BALANCE CHECK
+-- Should return no rows
+-- ============================================================================
+SELECT 
+  je.id,
+  je.source_type,
+  je.source_id,
+  SUM(jl.debit) as debits,
+  SUM(jl.credit) as credits
+FROM journal_entries je
+JOIN journal_lines jl ON jl.entry_id = je.id
+GROUP BY je.id, je.source_type, je.source_id
+HAVING SUM(jl.debit) <> SUM(jl.credit);
+
+
+-- 6.3 INCOME STATEMENT (ACCRUAL, ONE PERIOD)
+-- The full statements - P&L, balance sheet and cash flows, with comparison
+-- columns, cash basis and PDF/CSV export - come from the reports router
+-- (server/lib/financialStatements.ts). This is the accrual P&L for a quick check.
+-- ============================================================================
+SELECT 
+  CASE 
+    WHEN la.type = 'revenue' THEN 'Revenue'
+    WHEN la.subtype = 'cost_of_sales' THEN 'Cost of Sales'
+    ELSE 'Operating Expenses'
+  END as section,
+  la.code,
+  la.name,
+  ROUND(
+    CASE 
+      WHEN la.type = 'revenue' THEN SUM(jl.credit - jl.debit)
+      ELSE SUM(jl.debit - jl.credit)
+    END / 100.0, 2
+  ) as amount
+FROM journal_lines jl
+JOIN journal_entries je ON je.id = jl.entry_id
+JOIN ledger_accounts la ON la.id = jl.account_id
+WHERE la.type IN ('revenue', 'expense')
+  AND je.entry_date >= DATE_TRUNC('year', CURRENT_DATE)
+  AND je.entry_date < CURRENT_DATE + INTERVAL '1 day'
+GROUP BY la.id, la.code, la.name, la.type, la.subtype
+ORDER BY la.code;
+
+
 -- ============================================================================
 -- END OF FINANCIAL REPORTS QUERIES
 -- ============================================================================
@@ -0,0 +1,11 @@
+-- Migration: Bank Statement Import Deduplication
+-- Date: 2026-10-19
+-- Description: Import keys (FITID or a content fingerprint, scoped to the
+--              account) so overlapping statements don't create duplicate
+--              bank transactions, and the date of the last statement
+--              balance applied to each bank account.
+
+ALTER TABLE "bank_transactions" ADD COLUMN IF NOT EXISTS "import_key" varchar(255);
+CREATE UNIQUE INDEX IF NOT EXISTS "bank_transactions_import_key_unique" ON "bank_transactions" ("import_key");
+
+ALTER TABLE "bank_accounts" ADD COLUMN IF NOT EXISTS "balance_as_of" timestamp;
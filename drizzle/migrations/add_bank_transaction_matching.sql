@@ -0,0 +1,39 @@
+-- Migration: Bank Reconciliation Matching
+-- Date: 2026-10-19
+-- Description: Suggested/confirmed links between bank transactions and the
+--              payments, invoices, bills or expenses they settle, plus the
+--              payee aliases learned from confirmed matches.
+
+DO $$ BEGIN
+  CREATE TYPE "bank_match_status" AS ENUM ('suggested', 'confirmed', 'rejected');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "bank_transaction_matches" (
+  "id" SERIAL PRIMARY KEY,
+  "transaction_id" INTEGER NOT NULL REFERENCES "bank_transactions"("id") ON DELETE CASCADE,
+  "target_type" VARCHAR(20) NOT NULL,
+  "target_ids" JSONB NOT NULL,
+  "score" NUMERIC(4, 3) NOT NULL,
+  "reasons" JSONB DEFAULT '[]'::jsonb,
+  "status" "bank_match_status" DEFAULT 'suggested' NOT NULL,
+  "auto_confirmed" BOOLEAN DEFAULT false NOT NULL,
+  "resolved_by" INTEGER REFERENCES "users"("id") ON DELETE SET NULL,
+  "resolved_at" TIMESTAMP,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_bank_transaction_matches_transaction" ON "bank_transaction_matches" ("transaction_id");
+CREATE INDEX IF NOT EXISTS "idx_bank_transaction_matches_status" ON "bank_transaction_matches" ("status", "target_type");
+
+CREATE TABLE IF NOT EXISTS "payee_aliases" (
+  "id" SERIAL PRIMARY KEY,
+  "alias" VARCHAR(255) NOT NULL,
+  "payee_name" VARCHAR(255) NOT NULL,
+  "match_count" INTEGER DEFAULT 1 NOT NULL,
+  "created_by" INTEGER REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updated_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT "payee_aliases_alias_payee_name_unique" UNIQUE ("alias", "payee_name")
+);
@@ -0,0 +1,58 @@
+-- Migration: Bill Approval Workflow
+-- Date: 2026-10-19
+-- Description: Approval rules (amount threshold, category, or project-linked
+--              bills) needing one or two approvers of given roles, an audit
+--              trail of submissions, approvals, rejections and comments, and
+--              approval state on bills_payable. Existing bills start as
+--              not_required; rules only apply once they're saved.
+
+DO $$ BEGIN
+  CREATE TYPE "bill_approval_status" AS ENUM ('not_required', 'pending', 'approved', 'rejected');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "bill_approval_trigger" AS ENUM ('amount', 'category', 'project');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "bill_approval_action" AS ENUM ('submitted', 'approved', 'rejected', 'commented', 'resubmitted', 'cleared');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "bill_approval_rules" (
+  "id" serial PRIMARY KEY,
+  "name" varchar(255) NOT NULL,
+  "trigger" "bill_approval_trigger" NOT NULL,
+  "min_amount" integer,
+  "category" varchar(100),
+  "first_approver_roles" "role"[] NOT NULL,
+  "second_approver_roles" "role"[] DEFAULT '{}' NOT NULL,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_by" integer REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "bills_payable" ADD COLUMN IF NOT EXISTS "approval_status" "bill_approval_status" DEFAULT 'not_required' NOT NULL;
+ALTER TABLE "bills_payable" ADD COLUMN IF NOT EXISTS "approval_rule_id" integer REFERENCES "bill_approval_rules"("id") ON DELETE SET NULL;
+ALTER TABLE "bills_payable" ADD COLUMN IF NOT EXISTS "approvals_required" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "bills_payable" ADD COLUMN IF NOT EXISTS "approvals_received" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "bills_payable" ADD COLUMN IF NOT EXISTS "rejection_reason" text;
+
+CREATE TABLE IF NOT EXISTS "bill_approval_events" (
+  "id" serial PRIMARY KEY,
+  "bill_id" integer NOT NULL REFERENCES "bills_payable"("id") ON DELETE CASCADE,
+  "action" "bill_approval_action" NOT NULL,
+  "step" integer,
+  "comment" text,
+  "user_id" integer REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_bills_payable_approval_status" ON "bills_payable" ("approval_status");
+CREATE INDEX IF NOT EXISTS "idx_bill_approval_events_bill" ON "bill_approval_events" ("bill_id", "created_at");
@@ -0,0 +1,35 @@
+-- Migration: Billing Milestones
+-- Date: 2026-10-19
+-- Description: Per-job progress billing schedules (deposit, materials
+--              delivered, completion) that draft invoices automatically
+
+DO $$ BEGIN
+  CREATE TYPE "billing_trigger" AS ENUM ('job_approved', 'materials_delivered', 'job_completed', 'manual');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "billing_milestone_status" AS ENUM ('scheduled', 'invoiced', 'skipped');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "billing_milestones" (
+  "id" SERIAL PRIMARY KEY,
+  "job_id" INTEGER NOT NULL REFERENCES "report_requests"("id") ON DELETE CASCADE,
+  "name" VARCHAR(100) NOT NULL,
+  "invoice_type" "invoice_type" NOT NULL,
+  "trigger" "billing_trigger" NOT NULL,
+  "percent" NUMERIC(5, 2),
+  "fixed_amount" INTEGER,
+  "status" "billing_milestone_status" DEFAULT 'scheduled' NOT NULL,
+  "invoice_id" INTEGER REFERENCES "invoices"("id") ON DELETE SET NULL,
+  "triggered_at" TIMESTAMP,
+  "sort_order" INTEGER DEFAULT 0 NOT NULL,
+  "created_by" INTEGER REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updated_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_billing_milestones_job_id" ON "billing_milestones"("job_id");
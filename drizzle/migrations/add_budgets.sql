@@ -0,0 +1,30 @@
+-- Migration: Monthly Budgets
+-- Date: 2026-10-19
+-- Description: A spending budget per expense category per month, and a record
+--              of the 90%-of-budget warnings emailed to the owner so each
+--              budget is only warned about once.
+
+CREATE TABLE IF NOT EXISTS "budgets" (
+  "id" serial PRIMARY KEY,
+  "category" "expense_category" NOT NULL,
+  "year" integer NOT NULL,
+  "month" integer NOT NULL,
+  "amount" integer NOT NULL,
+  "notes" text,
+  "created_by" integer REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "budgets_category_year_month_unique" UNIQUE ("category", "year", "month"),
+  CONSTRAINT "budgets_month_check" CHECK ("month" BETWEEN 1 AND 12)
+);
+
+CREATE INDEX IF NOT EXISTS "idx_budgets_year_month" ON "budgets" ("year", "month");
+
+CREATE TABLE IF NOT EXISTS "budget_alerts" (
+  "id" serial PRIMARY KEY,
+  "budget_id" integer NOT NULL UNIQUE REFERENCES "budgets"("id") ON DELETE CASCADE,
+  "spent" integer NOT NULL,
+  "budget_amount" integer NOT NULL,
+  "sent_to" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "sent_at" timestamp DEFAULT now() NOT NULL
+);
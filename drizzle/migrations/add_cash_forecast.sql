@@ -0,0 +1,14 @@
+-- Migration: 13-Week Cash Forecast
+-- Date: 2026-10-19
+-- Description: Low-cash warning threshold for the forecast, and a paid-out date
+--              on commission requests so approved-but-unpaid commissions can be
+--              forecast. Commissions approved before this migration are treated
+--              as already paid; there's no record of which ones weren't.
+
+ALTER TABLE "company_settings" ADD COLUMN IF NOT EXISTS "low_cash_threshold" integer DEFAULT 500000 NOT NULL;
+
+ALTER TABLE "commission_requests" ADD COLUMN IF NOT EXISTS "paid_at" timestamp;
+
+UPDATE "commission_requests"
+SET "paid_at" = "created_at"
+WHERE "status" = 'approved' AND "paid_at" IS NULL;
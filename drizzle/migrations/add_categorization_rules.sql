@@ -0,0 +1,31 @@
+-- Migration: Bank Transaction Categorization Rules
+-- Date: 2026-10-19
+-- Description: User-defined rules (description contains/regex, amount range,
+--              account, sign) that set a bank transaction's category, project
+--              and notes before AI categorization, and the rule that fired on
+--              each transaction.
+
+CREATE TABLE IF NOT EXISTS "categorization_rules" (
+  "id" serial PRIMARY KEY,
+  "name" varchar(255) NOT NULL,
+  "priority" integer DEFAULT 100 NOT NULL,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "match_type" varchar(20) DEFAULT 'contains' NOT NULL,
+  "pattern" varchar(255),
+  "min_amount" numeric(12, 2),
+  "max_amount" numeric(12, 2),
+  "account_id" integer REFERENCES "bank_accounts"("id") ON DELETE CASCADE,
+  "sign" varchar(10) DEFAULT 'any' NOT NULL,
+  "set_category" varchar(100) NOT NULL,
+  "set_project_id" integer REFERENCES "report_requests"("id") ON DELETE SET NULL,
+  "set_notes" text,
+  "match_count" integer DEFAULT 0 NOT NULL,
+  "last_matched_at" timestamp,
+  "created_by" integer REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_categorization_rules_priority" ON "categorization_rules" ("is_active", "priority");
+
+ALTER TABLE "bank_transactions" ADD COLUMN IF NOT EXISTS "rule_id" integer REFERENCES "categorization_rules"("id") ON DELETE SET NULL;
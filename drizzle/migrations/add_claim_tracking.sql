@@ -0,0 +1,24 @@
+-- Migration: Insurance Claim Tracking
+-- Date: 2026-10-19
+-- Description: Adds claim status, adjuster contact and meeting, and the
+--              ACV / depreciation / final check amounts to insurance jobs
+
+DO $$ BEGIN
+  CREATE TYPE "claim_status" AS ENUM ('filed', 'inspected', 'approved', 'denied', 'appealed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "report_requests" ADD COLUMN IF NOT EXISTS "claim_status" "claim_status";
+ALTER TABLE "report_requests" ADD COLUMN IF NOT EXISTS "adjuster_name" VARCHAR(255);
+ALTER TABLE "report_requests" ADD COLUMN IF NOT EXISTS "adjuster_phone" VARCHAR(50);
+ALTER TABLE "report_requests" ADD COLUMN IF NOT EXISTS "adjuster_email" VARCHAR(320);
+ALTER TABLE "report_requests" ADD COLUMN IF NOT EXISTS "adjuster_meeting_at" TIMESTAMP;
+ALTER TABLE "report_requests" ADD COLUMN IF NOT EXISTS "adjuster_meeting_event_id" INTEGER;
+ALTER TABLE "report_requests" ADD COLUMN IF NOT EXISTS "acv_check_amount" NUMERIC(10, 2);
+ALTER TABLE "report_requests" ADD COLUMN IF NOT EXISTS "acv_check_received_at" TIMESTAMP;
+ALTER TABLE "report_requests" ADD COLUMN IF NOT EXISTS "recoverable_depreciation" NUMERIC(10, 2);
+ALTER TABLE "report_requests" ADD COLUMN IF NOT EXISTS "final_check_amount" NUMERIC(10, 2);
+ALTER TABLE "report_requests" ADD COLUMN IF NOT EXISTS "final_check_received_at" TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS "idx_report_requests_claim_status" ON "report_requests"("claim_status");
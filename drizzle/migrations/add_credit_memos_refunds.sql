@@ -0,0 +1,61 @@
+-- Migration: Credit Memos, Refunds and Invoice Voiding
+-- Date: 2026-10-19
+-- Description: Credit memos that can be split across a job's invoices, refunds
+--              recorded against individual payments (and sent to Stripe for
+--              online payments), and void details on invoices, which keep
+--              their number with status 'cancelled'.
+
+CREATE TABLE IF NOT EXISTS "credit_memos" (
+  "id" serial PRIMARY KEY,
+  "memo_number" varchar(50) NOT NULL UNIQUE,
+  "report_request_id" integer NOT NULL REFERENCES "report_requests"("id") ON DELETE CASCADE,
+  "amount" integer NOT NULL,
+  "reason" text NOT NULL,
+  "memo_date" timestamp NOT NULL,
+  "voided_at" timestamp,
+  "voided_by" integer REFERENCES "users"("id") ON DELETE SET NULL,
+  "void_reason" text,
+  "created_by" integer REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_credit_memos_job" ON "credit_memos" ("report_request_id");
+
+CREATE TABLE IF NOT EXISTS "credit_memo_applications" (
+  "id" serial PRIMARY KEY,
+  "credit_memo_id" integer NOT NULL REFERENCES "credit_memos"("id") ON DELETE CASCADE,
+  "invoice_id" integer NOT NULL REFERENCES "invoices"("id") ON DELETE CASCADE,
+  "amount" integer NOT NULL,
+  "applied_by" integer REFERENCES "users"("id") ON DELETE SET NULL,
+  "applied_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_credit_memo_applications_memo" ON "credit_memo_applications" ("credit_memo_id");
+CREATE INDEX IF NOT EXISTS "idx_credit_memo_applications_invoice" ON "credit_memo_applications" ("invoice_id");
+
+CREATE TABLE IF NOT EXISTS "payment_refunds" (
+  "id" serial PRIMARY KEY,
+  "payment_id" integer NOT NULL REFERENCES "payments"("id") ON DELETE CASCADE,
+  "amount" integer NOT NULL,
+  "refund_date" timestamp NOT NULL,
+  "method" "payment_method" NOT NULL,
+  "reason" text,
+  "stripe_refund_id" varchar(255) UNIQUE,
+  "created_by" integer REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_payment_refunds_payment" ON "payment_refunds" ("payment_id");
+
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "credited_amount" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "voided_at" timestamp;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "voided_by" integer;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "void_reason" text;
+
+-- Stripe refunds recorded before this migration only updated refunded_amount
+INSERT INTO "payment_refunds" ("payment_id", "amount", "refund_date", "method", "reason")
+SELECT p."id", p."refunded_amount", p."updated_at", 'credit_card', 'Refunded in Stripe'
+FROM "payments" p
+WHERE p."refunded_amount" > 0
+  AND NOT EXISTS (SELECT 1 FROM "payment_refunds" r WHERE r."payment_id" = p."id");
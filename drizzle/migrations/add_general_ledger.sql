@@ -0,0 +1,88 @@
+-- Migration: General Ledger
+-- Date: 2026-10-19
+-- Description: Chart of accounts and double-entry journal under invoices,
+--              payments, bills, expenses and reconciled bank transactions.
+--              Existing documents are posted by the ledger-sync scheduled job
+--              (or Run Now on Settings > Scheduled Jobs).
+
+DO $$ BEGIN
+  CREATE TYPE "ledger_account_type" AS ENUM ('asset', 'liability', 'equity', 'revenue', 'expense');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "ledger_accounts" (
+  "id" SERIAL PRIMARY KEY,
+  "code" VARCHAR(20) NOT NULL UNIQUE,
+  "name" VARCHAR(255) NOT NULL,
+  "type" "ledger_account_type" NOT NULL,
+  "subtype" VARCHAR(50),
+  "description" TEXT,
+  "bank_account_id" INTEGER UNIQUE REFERENCES "bank_accounts"("id") ON DELETE SET NULL,
+  "is_system" BOOLEAN DEFAULT false NOT NULL,
+  "is_active" BOOLEAN DEFAULT true NOT NULL,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updated_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "journal_entries" (
+  "id" SERIAL PRIMARY KEY,
+  "entry_date" TIMESTAMP NOT NULL,
+  "memo" TEXT,
+  "source_type" VARCHAR(30) NOT NULL,
+  "source_id" INTEGER,
+  "report_request_id" INTEGER REFERENCES "report_requests"("id") ON DELETE SET NULL,
+  "reverses_entry_id" INTEGER,
+  "reversed_at" TIMESTAMP,
+  "created_by" INTEGER REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "journal_entries_source_idx" ON "journal_entries" ("source_type", "source_id");
+CREATE INDEX IF NOT EXISTS "journal_entries_entry_date_idx" ON "journal_entries" ("entry_date");
+-- One active (unreversed, non-reversing) entry per document; manual entries have no source_id
+CREATE UNIQUE INDEX IF NOT EXISTS "journal_entries_active_source_idx" ON "journal_entries" ("source_type", "source_id")
+  WHERE "reverses_entry_id" IS NULL AND "reversed_at" IS NULL;
+
+CREATE TABLE IF NOT EXISTS "journal_lines" (
+  "id" SERIAL PRIMARY KEY,
+  "entry_id" INTEGER NOT NULL REFERENCES "journal_entries"("id") ON DELETE CASCADE,
+  "account_id" INTEGER NOT NULL REFERENCES "ledger_accounts"("id"),
+  "debit" INTEGER DEFAULT 0 NOT NULL,
+  "credit" INTEGER DEFAULT 0 NOT NULL,
+  "memo" TEXT,
+  "report_request_id" INTEGER REFERENCES "report_requests"("id") ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS "journal_lines_entry_id_idx" ON "journal_lines" ("entry_id");
+CREATE INDEX IF NOT EXISTS "journal_lines_account_id_idx" ON "journal_lines" ("account_id");
+
+-- System chart of accounts (kept in sync with SYSTEM_ACCOUNTS in server/lib/ledger.ts)
+INSERT INTO "ledger_accounts" ("code", "name", "type", "subtype", "is_system") VALUES
+  ('1000', 'Operating Cash', 'asset', 'cash', true),
+  ('1050', 'Undeposited Funds', 'asset', 'clearing', true),
+  ('1090', 'Transfers in Transit', 'asset', 'clearing', true),
+  ('1100', 'Accounts Receivable', 'asset', 'receivable', true),
+  ('2000', 'Accounts Payable', 'liability', 'payable', true),
+  ('2050', 'Outstanding Bill Payments', 'liability', 'clearing', true),
+  ('2200', 'Sales Tax Payable', 'liability', NULL, true),
+  ('2500', 'Loans Payable', 'liability', NULL, true),
+  ('3000', 'Owner''s Equity', 'equity', NULL, true),
+  ('4000', 'Construction Revenue', 'revenue', NULL, true),
+  ('4100', 'Refunds & Allowances', 'revenue', NULL, true),
+  ('4900', 'Other Income', 'revenue', NULL, true),
+  ('4999', 'Uncategorized Income', 'revenue', NULL, true),
+  ('5000', 'Materials', 'expense', 'cost_of_sales', true),
+  ('5100', 'Direct Labor', 'expense', 'cost_of_sales', true),
+  ('6000', 'Payroll', 'expense', NULL, true),
+  ('6100', 'Equipment', 'expense', NULL, true),
+  ('6150', 'Vehicle', 'expense', NULL, true),
+  ('6200', 'Insurance', 'expense', NULL, true),
+  ('6300', 'Utilities', 'expense', NULL, true),
+  ('6400', 'Marketing', 'expense', NULL, true),
+  ('6500', 'Office & Software', 'expense', NULL, true),
+  ('6600', 'Professional Services', 'expense', NULL, true),
+  ('6700', 'Taxes & Licenses', 'expense', NULL, true),
+  ('6900', 'Other Expenses', 'expense', NULL, true),
+  ('6999', 'Uncategorized Expense', 'expense', NULL, true)
+ON CONFLICT ("code") DO NOTHING;
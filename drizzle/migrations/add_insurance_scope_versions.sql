@@ -0,0 +1,24 @@
+-- Migration: Insurance Scope Version History
+-- Date: 2026-10-19
+-- Description: Adds version and created_by to insurance_scopes so every
+--              analyzed scope is kept when a revised scope arrives
+
+ALTER TABLE "insurance_scopes" ADD COLUMN IF NOT EXISTS "version" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "insurance_scopes" ADD COLUMN IF NOT EXISTS "created_by" INTEGER;
+
+-- Number scopes saved before versioning 1, 2, 3... per job in the order they were analyzed
+UPDATE "insurance_scopes" s
+SET "version" = numbered.version
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "job_id" ORDER BY "id") AS version
+  FROM "insurance_scopes"
+) numbered
+WHERE s."id" = numbered."id" AND s."version" <> numbered.version;
+
+-- One row per version, so two analyses saved at once can't both take the same number
+DROP INDEX IF EXISTS "idx_insurance_scopes_job_version";
+DO $$ BEGIN
+  ALTER TABLE "insurance_scopes" ADD CONSTRAINT "insurance_scopes_job_id_version_unique" UNIQUE ("job_id", "version");
+EXCEPTION
+  WHEN duplicate_object OR duplicate_table THEN null;
+END $$;
@@ -0,0 +1,20 @@
+-- Migration: Invoice Reminders
+-- Date: 2026-10-19
+-- Description: Reminder sequence settings and a log of reminders sent so the
+--              overdue sweep sends each step once per channel
+
+ALTER TABLE "company_settings" ADD COLUMN IF NOT EXISTS "invoice_reminders_enabled" BOOLEAN DEFAULT true NOT NULL;
+ALTER TABLE "company_settings" ADD COLUMN IF NOT EXISTS "invoice_reminder_days" JSONB DEFAULT '[-3, 0, 7, 14, 30]'::jsonb;
+ALTER TABLE "company_settings" ADD COLUMN IF NOT EXISTS "invoice_reminder_sms" BOOLEAN DEFAULT true NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "invoice_reminders" (
+  "id" SERIAL PRIMARY KEY,
+  "invoice_id" INTEGER NOT NULL REFERENCES "invoices"("id") ON DELETE CASCADE,
+  "day_offset" INTEGER NOT NULL,
+  "channel" VARCHAR(10) NOT NULL,
+  "sent_to" VARCHAR(320),
+  "delivered" BOOLEAN NOT NULL,
+  "error" TEXT,
+  "sent_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT "invoice_reminders_invoice_id_day_offset_channel_unique" UNIQUE ("invoice_id", "day_offset", "channel")
+);
@@ -0,0 +1,42 @@
+-- Migration: Job Costing
+-- Date: 2026-10-19
+-- Description: Per-job cost ledger support: manual cost entries (crew labor,
+--              permits), estimated cost per category, PO cost and supplier
+--              bill on material orders, commission amounts and the company's
+--              target gross margin.
+
+DO $$ BEGIN
+  CREATE TYPE "job_cost_category" AS ENUM ('materials', 'labor', 'subcontractors', 'equipment', 'permits', 'commission', 'other');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "job_cost_entries" (
+  "id" serial PRIMARY KEY,
+  "job_id" integer NOT NULL REFERENCES "report_requests"("id") ON DELETE CASCADE,
+  "category" "job_cost_category" NOT NULL,
+  "description" text NOT NULL,
+  "amount" integer NOT NULL,
+  "hours" numeric(7, 2),
+  "user_id" integer REFERENCES "users"("id") ON DELETE SET NULL,
+  "entry_date" timestamp NOT NULL,
+  "created_by" integer REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_job_cost_entries_job" ON "job_cost_entries" ("job_id");
+
+CREATE TABLE IF NOT EXISTS "job_cost_estimates" (
+  "id" serial PRIMARY KEY,
+  "job_id" integer NOT NULL REFERENCES "report_requests"("id") ON DELETE CASCADE,
+  "category" "job_cost_category" NOT NULL,
+  "amount" integer NOT NULL,
+  "updated_by" integer REFERENCES "users"("id") ON DELETE SET NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "job_cost_estimates_job_id_category_unique" UNIQUE ("job_id", "category")
+);
+
+ALTER TABLE "material_orders" ADD COLUMN IF NOT EXISTS "total_cost" integer;
+ALTER TABLE "material_orders" ADD COLUMN IF NOT EXISTS "bill_id" integer REFERENCES "bills_payable"("id") ON DELETE SET NULL;
+ALTER TABLE "commission_requests" ADD COLUMN IF NOT EXISTS "amount" integer;
+ALTER TABLE "company_settings" ADD COLUMN IF NOT EXISTS "target_gross_margin_percent" numeric(5, 2) DEFAULT 30.00;
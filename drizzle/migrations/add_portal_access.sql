@@ -0,0 +1,39 @@
+-- Migration: Customer Portal Access
+-- Date: 2026-10-19
+-- Description: Replaces the phone-number portal lookup with per-job access
+--              tokens (magic links) and one-time login codes
+
+DO $$ BEGIN
+  CREATE TYPE "portal_access_channel" AS ENUM ('email', 'sms', 'code');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "portal_access_tokens" (
+  "id" SERIAL PRIMARY KEY,
+  "job_id" INTEGER NOT NULL REFERENCES "report_requests"("id") ON DELETE CASCADE,
+  "token_id" VARCHAR(32) NOT NULL UNIQUE,
+  "channel" "portal_access_channel" NOT NULL,
+  "sent_to" VARCHAR(320),
+  "expires_at" TIMESTAMP NOT NULL,
+  "revoked_at" TIMESTAMP,
+  "revoked_by" INTEGER REFERENCES "users"("id") ON DELETE SET NULL,
+  "last_used_at" TIMESTAMP,
+  "created_by" INTEGER REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_portal_access_tokens_job_id" ON "portal_access_tokens"("job_id");
+
+CREATE TABLE IF NOT EXISTS "portal_login_codes" (
+  "id" SERIAL PRIMARY KEY,
+  "contact" VARCHAR(320) NOT NULL,
+  "code_hash" VARCHAR(64) NOT NULL,
+  "attempts" INTEGER DEFAULT 0 NOT NULL,
+  "expires_at" TIMESTAMP NOT NULL,
+  "consumed_at" TIMESTAMP,
+  "ip_address" VARCHAR(45),
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_portal_login_codes_contact" ON "portal_login_codes"("contact", "created_at");
@@ -0,0 +1,12 @@
+-- Migration: Customer Portal Document Center
+-- Date: 2026-10-19
+-- Description: Adds the proposal signature audit trail to jobs and lets the
+--              office mark photos/documents as visible in the customer portal
+
+ALTER TABLE "report_requests" ADD COLUMN IF NOT EXISTS "proposal_signed_at" TIMESTAMP;
+ALTER TABLE "report_requests" ADD COLUMN IF NOT EXISTS "proposal_signed_ip" VARCHAR(45);
+ALTER TABLE "report_requests" ADD COLUMN IF NOT EXISTS "proposal_signed_user_agent" VARCHAR(500);
+ALTER TABLE "report_requests" ADD COLUMN IF NOT EXISTS "proposal_signed_via" VARCHAR(20);
+ALTER TABLE "report_requests" ADD COLUMN IF NOT EXISTS "proposal_signed_document_id" INTEGER;
+
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "customer_visible" BOOLEAN DEFAULT false NOT NULL;
@@ -0,0 +1,38 @@
+-- Migration: County Sales Tax
+-- Date: 2026-10-19
+-- Description: Rate table keyed by county (state rate + discretionary surtax)
+--              with the ZIP codes in each county, a tax treatment and optional
+--              county override per job, per-line taxability on invoice items
+--              and the calculated tax breakdown on each invoice.
+
+DO $$ BEGIN
+  CREATE TYPE "tax_treatment" AS ENUM ('lump_sum', 'retail_install', 'exempt');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "sales_tax_rates" (
+  "id" serial PRIMARY KEY,
+  "state" varchar(2) DEFAULT 'FL' NOT NULL,
+  "county" varchar(100) NOT NULL,
+  "state_rate" numeric(6, 3) DEFAULT 6.000 NOT NULL,
+  "surtax_rate" numeric(6, 3) DEFAULT 0.000 NOT NULL,
+  "surtax_cap" integer DEFAULT 500000,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "sales_tax_rates_state_county_unique" UNIQUE ("state", "county")
+);
+
+CREATE TABLE IF NOT EXISTS "sales_tax_zip_codes" (
+  "id" serial PRIMARY KEY,
+  "zip_code" varchar(5) NOT NULL UNIQUE,
+  "rate_id" integer NOT NULL REFERENCES "sales_tax_rates"("id") ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "idx_sales_tax_zip_codes_rate" ON "sales_tax_zip_codes" ("rate_id");
+
+ALTER TABLE "report_requests" ADD COLUMN IF NOT EXISTS "tax_treatment" "tax_treatment" DEFAULT 'lump_sum' NOT NULL;
+ALTER TABLE "report_requests" ADD COLUMN IF NOT EXISTS "sales_tax_rate_id" integer REFERENCES "sales_tax_rates"("id") ON DELETE SET NULL;
+ALTER TABLE "invoice_items" ADD COLUMN IF NOT EXISTS "taxable" boolean DEFAULT false NOT NULL;
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "tax_breakdown" jsonb;
@@ -0,0 +1,44 @@
+-- Migration: Scheduled Jobs
+-- Date: 2026-10-19
+-- Description: Job table and run history for the in-process background
+--              scheduler (cron schedules, locking, retries)
+
+DO $$ BEGIN
+  CREATE TYPE "scheduled_job_run_status" AS ENUM ('running', 'succeeded', 'failed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "scheduled_jobs" (
+  "name" VARCHAR(100) PRIMARY KEY,
+  "schedule" VARCHAR(100) NOT NULL,
+  "enabled" BOOLEAN DEFAULT true NOT NULL,
+  "next_run_at" TIMESTAMP NOT NULL,
+  "locked_by" VARCHAR(255),
+  "locked_until" TIMESTAMP,
+  "retry_attempt" INTEGER DEFAULT 0 NOT NULL,
+  "consecutive_failures" INTEGER DEFAULT 0 NOT NULL,
+  "last_run_at" TIMESTAMP,
+  "last_status" "scheduled_job_run_status",
+  "last_duration_ms" INTEGER,
+  "last_error" TEXT,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updated_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "scheduled_job_runs" (
+  "id" SERIAL PRIMARY KEY,
+  "job_name" VARCHAR(100) NOT NULL REFERENCES "scheduled_jobs"("name") ON DELETE CASCADE,
+  "status" "scheduled_job_run_status" DEFAULT 'running' NOT NULL,
+  "attempt" INTEGER DEFAULT 1 NOT NULL,
+  "trigger" VARCHAR(20) NOT NULL,
+  "triggered_by" INTEGER REFERENCES "users"("id") ON DELETE SET NULL,
+  "instance" VARCHAR(255),
+  "started_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "finished_at" TIMESTAMP,
+  "duration_ms" INTEGER,
+  "result" JSONB,
+  "error" TEXT
+);
+
+CREATE INDEX IF NOT EXISTS "scheduled_job_runs_job_name_started_at_idx" ON "scheduled_job_runs" ("job_name", "started_at" DESC);
@@ -0,0 +1,20 @@
+-- Migration: Online Invoice Payments
+-- Date: 2026-10-19
+-- Description: Links payments to invoices and Stripe Checkout so the webhook
+--              can record card payments, partial payments and refunds
+
+ALTER TABLE "invoices" ADD COLUMN IF NOT EXISTS "amount_paid" INTEGER DEFAULT 0 NOT NULL;
+
+ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "invoice_id" INTEGER REFERENCES "invoices"("id") ON DELETE SET NULL;
+ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "stripe_payment_intent_id" VARCHAR(255);
+ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "stripe_checkout_session_id" VARCHAR(255);
+ALTER TABLE "payments" ADD COLUMN IF NOT EXISTS "refunded_amount" INTEGER DEFAULT 0 NOT NULL;
+
+DO $$ BEGIN
+  ALTER TABLE "payments" ADD CONSTRAINT "payments_stripe_payment_intent_id_unique" UNIQUE ("stripe_payment_intent_id");
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- Invoices already marked paid by hand are fully paid
+UPDATE "invoices" SET "amount_paid" = "total_amount" WHERE "status" = 'paid' AND "amount_paid" = 0;
@@ -0,0 +1,6 @@
+-- Migration: Insurance Supplement Packages
+-- Date: 2026-10-19
+-- Description: Links insurance supplement change orders to the letter PDF
+--              generated for the carrier
+
+ALTER TABLE "change_orders" ADD COLUMN IF NOT EXISTS "document_id" INTEGER REFERENCES "documents"("id") ON DELETE SET NULL;
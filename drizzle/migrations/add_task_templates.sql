@@ -0,0 +1,39 @@
+-- Create task_templates table
+CREATE TABLE IF NOT EXISTS task_templates (
+  id SERIAL PRIMARY KEY,
+  title VARCHAR(255) NOT NULL,
+  description TEXT,
+  trigger_status status NOT NULL,
+  deal_type deal_type,
+  due_in_days INTEGER NOT NULL DEFAULT 0,
+  assigned_to INTEGER,
+  priority priority NOT NULL DEFAULT 'medium',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by INTEGER,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_trigger ON task_templates(trigger_status) WHERE is_active = TRUE;
+
+-- Link generated tasks back to their template
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS template_id INTEGER;
+
+-- One task per template per job, so moving a job back and forth does not duplicate them
+DO $$ BEGIN
+  ALTER TABLE tasks ADD CONSTRAINT tasks_job_id_template_id_unique UNIQUE (job_id, template_id);
+EXCEPTION
+  WHEN duplicate_object OR duplicate_table THEN null;
+END $$;
+
+-- Default production checklist
+INSERT INTO task_templates (title, description, trigger_status, deal_type, due_in_days, priority, sort_order)
+SELECT * FROM (VALUES
+  ('Order materials', 'Place the material order with the supplier for delivery before the install date.', 'approved'::status, NULL::deal_type, 2, 'high'::priority, 1),
+  ('Pull permit', 'Submit the roofing permit application to the building department.', 'approved'::status, NULL::deal_type, 3, 'high'::priority, 2),
+  ('Schedule dumpster', 'Book a dumpster drop for the day before tear-off.', 'project_scheduled'::status, NULL::deal_type, 1, 'medium'::priority, 1),
+  ('Confirm crew', 'Confirm the crew and start time with the crew lead.', 'project_scheduled'::status, NULL::deal_type, 2, 'medium'::priority, 2),
+  ('Send certificate of completion to carrier', 'Request release of recoverable depreciation from the insurance carrier.', 'completed'::status, 'insurance'::deal_type, 2, 'high'::priority, 1)
+) AS defaults(title, description, trigger_status, deal_type, due_in_days, priority, sort_order)
+WHERE NOT EXISTS (SELECT 1 FROM task_templates);
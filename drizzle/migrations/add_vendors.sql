@@ -0,0 +1,68 @@
+-- Migration: Vendor Records
+-- Date: 2026-10-19
+-- Description: Vendors with contact, W-9/TIN and 1099 details, payment terms
+--              and a default category. Bills and expenses get a vendor_id;
+--              existing vendor names are backfilled into one vendor per name
+--              (ignoring case and surrounding spaces). Near-duplicates like
+--              "ABC Supply" / "ABC SUPPLY CO" are left for the merge tool.
+
+DO $$ BEGIN
+  CREATE TYPE "vendor_tin_type" AS ENUM ('ein', 'ssn');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "vendors" (
+  "id" serial PRIMARY KEY,
+  "name" varchar(255) NOT NULL UNIQUE,
+  "aliases" text[] DEFAULT '{}' NOT NULL,
+  "contact_name" varchar(255),
+  "email" varchar(320),
+  "phone" varchar(50),
+  "address_line_1" varchar(255),
+  "address_line_2" varchar(255),
+  "city" varchar(100),
+  "state" varchar(2),
+  "zip_code" varchar(10),
+  "legal_name" varchar(255),
+  "tin" varchar(11),
+  "tin_type" "vendor_tin_type",
+  "w9_on_file" boolean DEFAULT false NOT NULL,
+  "w9_received_at" timestamp,
+  "is_1099_eligible" boolean DEFAULT false NOT NULL,
+  "default_category" "expense_category",
+  "payment_terms_days" integer DEFAULT 30 NOT NULL,
+  "notes" text,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_by" integer REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "bills_payable" ADD COLUMN IF NOT EXISTS "vendor_id" integer REFERENCES "vendors"("id") ON DELETE SET NULL;
+ALTER TABLE "expenses" ADD COLUMN IF NOT EXISTS "vendor_id" integer REFERENCES "vendors"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "idx_bills_payable_vendor" ON "bills_payable" ("vendor_id");
+CREATE INDEX IF NOT EXISTS "idx_expenses_vendor" ON "expenses" ("vendor_id");
+
+-- One vendor per distinct name, taking contact details from the latest bill
+INSERT INTO "vendors" ("name", "email", "phone")
+SELECT DISTINCT ON (lower(btrim("vendor_name"))) btrim("vendor_name"), "vendor_email", "vendor_phone"
+FROM (
+  SELECT "vendor_name", "vendor_email", "vendor_phone", "created_at" FROM "bills_payable"
+  UNION ALL
+  SELECT "vendor_name", NULL, NULL, "created_at" FROM "expenses"
+) AS "names"
+WHERE btrim(coalesce("vendor_name", '')) <> ''
+ORDER BY lower(btrim("vendor_name")), ("vendor_email" IS NULL), "created_at" DESC
+ON CONFLICT ("name") DO NOTHING;
+
+UPDATE "bills_payable" AS b
+SET "vendor_id" = v."id"
+FROM "vendors" AS v
+WHERE b."vendor_id" IS NULL AND lower(btrim(b."vendor_name")) = lower(v."name");
+
+UPDATE "expenses" AS e
+SET "vendor_id" = v."id"
+FROM "vendors" AS v
+WHERE e."vendor_id" IS NULL AND lower(btrim(e."vendor_name")) = lower(v."name");
@@ -1,4 +1,5 @@
-import { pgTable, serial, text, varchar, boolean, timestamp, integer, pgEnum, doublePrecision, jsonb, numeric, unique } from "drizzle-orm/pg-core";
+import { pgTable, serial, text, varchar, boolean, timestamp, integer, pgEnum, doublePrecision, jsonb, numeric, unique, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 
 // PostgreSQL enums
 export const roleEnum = pgEnum("role", ["user", "admin", "owner", "office", "sales_rep", "project_manager", "team_lead", "field_crew"]);
@@ -18,6 +19,11 @@ export const statusEnum = pgEnum("status", [
 
 export const dealTypeEnum = pgEnum("deal_type", ["insurance", "cash", "financed"]);
 
+// How sales tax applies to a job's invoices (see lib/salesTax)
+export const taxTreatmentEnum = pgEnum("tax_treatment", ["lump_sum", "retail_install", "exempt"]);
+
+export const claimStatusEnum = pgEnum("claim_status", ["filed", "inspected", "approved", "denied", "appealed"]);
+
 export const lienRightsStatusEnum = pgEnum("lien_rights_status", [
   "not_applicable",
   "active",
@@ -158,6 +164,19 @@ export const reportRequests = pgTable("report_requests", {
   claimNumber: varchar("claim_number", { length: 100 }),
   deductible: numeric("deductible", { precision: 10, scale: 2 }),
   
+  // Claim lifecycle (insurance jobs)
+  claimStatus: claimStatusEnum("claim_status"),
+  adjusterName: varchar("adjuster_name", { length: 255 }),
+  adjusterPhone: varchar("adjuster_phone", { length: 50 }),
+  adjusterEmail: varchar("adjuster_email", { length: 320 }),
+  adjusterMeetingAt: timestamp("adjuster_meeting_at"),
+  adjusterMeetingEventId: integer("adjuster_meeting_event_id"), // Calendar entry in events
+  acvCheckAmount: numeric("acv_check_amount", { precision: 10, scale: 2 }), // First check (ACV)
+  acvCheckReceivedAt: timestamp("acv_check_received_at"),
+  recoverableDepreciation: numeric("recoverable_depreciation", { precision: 10, scale: 2 }), // Held back until completion
+  finalCheckAmount: numeric("final_check_amount", { precision: 10, scale: 2 }),
+  finalCheckReceivedAt: timestamp("final_check_received_at"),
+  
   // Payment info
   promoCode: varchar("promo_code", { length: 50 }),
   promoApplied: boolean("promo_applied").default(false).notNull(),
@@ -177,6 +196,10 @@ export const reportRequests = pgTable("report_requests", {
   // Deal type
   dealType: dealTypeEnum("deal_type"),
   
+  // Sales tax
+  taxTreatment: taxTreatmentEnum("tax_treatment").default("lump_sum").notNull(),
+  salesTaxRateId: integer("sales_tax_rate_id").references(() => salesTaxRates.id, { onDelete: "set null" }), // County override; otherwise found from the address ZIP
+  
   // Lien rights tracking
   projectCompletedAt: timestamp("project_completed_at"),
   lienRightsStatus: lienRightsStatusEnum("lien_rights_status").default("not_applicable"),
@@ -209,6 +232,13 @@ export const reportRequests = pgTable("report_requests", {
   counterPrice: numeric("counter_price", { precision: 10, scale: 2 }),
   priceStatus: priceStatusEnum("price_status").default("draft"),
   
+  // Proposal signature audit trail (see lib/proposalSigning)
+  proposalSignedAt: timestamp("proposal_signed_at"),
+  proposalSignedIp: varchar("proposal_signed_ip", { length: 45 }),
+  proposalSignedUserAgent: varchar("proposal_signed_user_agent", { length: 500 }),
+  proposalSignedVia: varchar("proposal_signed_via", { length: 20 }), // "in_person" | "portal"
+  proposalSignedDocumentId: integer("proposal_signed_document_id"),
+  
   // Approved amount and change orders
   approvedAmount: numeric("approved_amount", { precision: 10, scale: 2 }), // Initial approved amount (visible after approval)
   extrasCharged: numeric("extras_charged", { precision: 10, scale: 2 }), // Additional charges for extras/change orders (visible when completed)
@@ -262,6 +292,7 @@ export const documents = pgTable("documents", {
   fileSize: integer("file_size"),
   
   category: documentCategoryEnum("category").default("other").notNull(),
+  customerVisible: boolean("customer_visible").default(false).notNull(), // Shown in the customer portal
   
   // Photo metadata
   photoTakenAt: timestamp("photo_taken_at"),
@@ -332,6 +363,46 @@ export const jobMessageReads = pgTable("job_message_reads", {
 export type JobMessageRead = typeof jobMessageReads.$inferSelect;
 export type InsertJobMessageRead = typeof jobMessageReads.$inferInsert;
 
+/**
+ * Portal Access Tokens - per-job customer portal access, issued as signed
+ * magic links by staff or after a one-time code is verified
+ */
+export const portalAccessChannelEnum = pgEnum("portal_access_channel", ["email", "sms", "code"]);
+
+export const portalAccessTokens = pgTable("portal_access_tokens", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").references(() => reportRequests.id, { onDelete: "cascade" }).notNull(),
+  tokenId: varchar("token_id", { length: 32 }).notNull().unique(), // Embedded in the signed link; the link itself is never stored
+  channel: portalAccessChannelEnum("channel").notNull(),
+  sentTo: varchar("sent_to", { length: 320 }),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  revokedBy: integer("revoked_by").references(() => users.id, { onDelete: "set null" }),
+  lastUsedAt: timestamp("last_used_at"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }), // Null when issued from a one-time code
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type PortalAccessToken = typeof portalAccessTokens.$inferSelect;
+export type InsertPortalAccessToken = typeof portalAccessTokens.$inferInsert;
+
+/**
+ * Portal Login Codes - one-time codes sent to a customer's phone or email on file
+ */
+export const portalLoginCodes = pgTable("portal_login_codes", {
+  id: serial("id").primaryKey(),
+  contact: varchar("contact", { length: 320 }).notNull(), // Normalized: 10-digit phone or lowercased email
+  codeHash: varchar("code_hash", { length: 64 }).notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"),
+  ipAddress: varchar("ip_address", { length: 45 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type PortalLoginCode = typeof portalLoginCodes.$inferSelect;
+export type InsertPortalLoginCode = typeof portalLoginCodes.$inferInsert;
+
 /**
  * Notifications - tracks user mentions and other notifications
  */
@@ -371,13 +442,44 @@ export const tasks = pgTable("tasks", {
   dueDate: timestamp("due_date"),
   completedAt: timestamp("completed_at"),
   
+  templateId: integer("template_id"), // Set when generated from a task template
+  
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  // A template generates at most one task per job, even if the job moves back and forth
+  uniqueJobTemplate: unique().on(table.jobId, table.templateId),
+}));
 
 export type Task = typeof tasks.$inferSelect;
 export type InsertTask = typeof tasks.$inferInsert;
 
+/**
+ * Task Templates - Checklist items generated when a job enters a pipeline stage
+ */
+export const taskTemplates = pgTable("task_templates", {
+  id: serial("id").primaryKey(),
+  title: varchar("title", { length: 255 }).notNull(),
+  description: text("description"),
+  
+  triggerStatus: statusEnum("trigger_status").notNull(), // Stage that generates the task
+  dealType: dealTypeEnum("deal_type"), // NULL = all deal types
+  
+  dueInDays: integer("due_in_days").default(0).notNull(), // Relative to the status change
+  assignedTo: integer("assigned_to"), // User ID; NULL = the job's assigned rep
+  priority: priorityEnum("priority").default("medium").notNull(),
+  
+  sortOrder: integer("sort_order").default(0).notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type TaskTemplate = typeof taskTemplates.$inferSelect;
+export type InsertTaskTemplate = typeof taskTemplates.$inferInsert;
+
 /**
  * Material Kits - Product coverage rules for material calculations
  */
@@ -416,6 +518,8 @@ export const materialOrders = pgTable("material_orders", {
   lineItems: jsonb("line_items").notNull(), // Array of {productName, quantity, unit, beaconSku}
   accessories: jsonb("accessories"), // Manual items like pipe boots, vents
   totalSquares: doublePrecision("total_squares"),
+  totalCost: integer("total_cost"), // Quoted PO cost in cents; counts toward job cost until the supplier's bill is linked
+  billId: integer("bill_id").references(() => billsPayable.id, { onDelete: "set null" }), // Supplier bill for this order
   notes: text("notes"),
   pdfUrl: varchar("pdf_url", { length: 500 }), // Link to generated PDF
   csvUrl: varchar("csv_url", { length: 500 }), // Link to generated CSV
@@ -490,7 +594,12 @@ export const companySettings = pgTable("company_settings", {
   laborWarrantyYears: integer("labor_warranty_years").default(10),
   materialWarrantyYears: integer("material_warranty_years").default(25),
   defaultDepositPercent: numeric("default_deposit_percent", { precision: 5, scale: 2 }).default("50.00"),
+  targetGrossMarginPercent: numeric("target_gross_margin_percent", { precision: 5, scale: 2 }).default("30.00"), // Jobs below this show on the under-margin report
+  lowCashThreshold: integer("low_cash_threshold").default(500000).notNull(), // Cents; the cash forecast warns when a week closes below this
   paymentTerms: text("payment_terms"), // e.g., "Net 30", "50% deposit, 50% on completion"
+  invoiceRemindersEnabled: boolean("invoice_reminders_enabled").default(true).notNull(),
+  invoiceReminderDays: jsonb("invoice_reminder_days").$type<number[]>().default([-3, 0, 7, 14, 30]), // Days relative to the due date
+  invoiceReminderSms: boolean("invoice_reminder_sms").default(true).notNull(), // Also text the customer, not just email
   
   // Legal & Compliance
   termsAndConditions: text("terms_and_conditions"),
@@ -515,6 +624,23 @@ export type InsertCompanySettings = typeof companySettings.$inferInsert;
 export const invoiceStatusEnum = pgEnum("invoice_status", ["draft", "sent", "paid", "overdue", "cancelled"]);
 export const invoiceTypeEnum = pgEnum("invoice_type", ["deposit", "progress", "supplement", "final", "other"]);
 
+/** Sales tax on an invoice, kept with it for the liability report (see lib/salesTax) */
+export interface SalesTaxBreakdown {
+  treatment: "lump_sum" | "retail_install" | "exempt";
+  rateId: number | null; // null when no rate covers the job's address
+  county: string | null;
+  state: string | null;
+  zipCode: string | null;
+  stateRate: number; // Percent
+  surtaxRate: number; // Percent
+  taxableAmount: number; // Cents
+  exemptAmount: number; // Cents; labor, lump-sum contracts and exempt customers
+  surtaxableAmount: number; // Cents; taxable amount under the per-item surtax cap
+  stateTax: number; // Cents
+  surtax: number; // Cents
+  calculatedAt: string; // ISO timestamp
+}
+
 export const invoices = pgTable("invoices", {
   id: serial("id").primaryKey(),
   invoiceNumber: varchar("invoice_number", { length: 50 }).notNull().unique(),
@@ -527,6 +653,8 @@ export const invoices = pgTable("invoices", {
   amount: integer("amount").notNull(), // Stored in cents
   taxAmount: integer("tax_amount").default(0).notNull(), // Stored in cents
   totalAmount: integer("total_amount").notNull(), // Stored in cents
+  amountPaid: integer("amount_paid").default(0).notNull(), // Cents, net of refunds; maintained from linked payments
+  creditedAmount: integer("credited_amount").default(0).notNull(), // Cents; credit memos applied to this invoice
   status: invoiceStatusEnum("status").default("draft").notNull(),
   invoiceDate: timestamp("invoice_date").notNull(),
   dueDate: timestamp("due_date").notNull(),
@@ -534,6 +662,10 @@ export const invoices = pgTable("invoices", {
   paymentMethod: varchar("payment_method", { length: 50 }),
   paymentReference: varchar("payment_reference", { length: 100 }),
   lineItems: jsonb("line_items"),
+  taxBreakdown: jsonb("tax_breakdown").$type<SalesTaxBreakdown>(), // Set by lib/salesTax when tax is calculated
+  voidedAt: timestamp("voided_at"), // Voided invoices keep their number with status "cancelled"
+  voidedBy: integer("voided_by"),
+  voidReason: text("void_reason"),
   notes: text("notes"),
   internalNotes: text("internal_notes"),
   createdBy: integer("created_by"),
@@ -557,6 +689,7 @@ export const invoiceItems = pgTable("invoice_items", {
   totalPrice: integer("total_price").notNull(), // Stored in cents
   productId: integer("product_id").references(() => products.id, { onDelete: "set null" }), // For reporting
   changeOrderId: integer("change_order_id").references(() => changeOrders.id, { onDelete: "set null" }), // Track source of line item
+  taxable: boolean("taxable").default(false).notNull(), // Materials sold at retail; labor is never taxed
   sortOrder: integer("sort_order").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -564,6 +697,26 @@ export const invoiceItems = pgTable("invoice_items", {
 export type InvoiceItem = typeof invoiceItems.$inferSelect;
 export type InsertInvoiceItem = typeof invoiceItems.$inferInsert;
 
+/**
+ * Invoice Reminders - One row per reminder step and channel sent for an invoice
+ * The unique key keeps the overdue sweep from sending the same step twice
+ */
+export const invoiceReminders = pgTable("invoice_reminders", {
+  id: serial("id").primaryKey(),
+  invoiceId: integer("invoice_id").references(() => invoices.id, { onDelete: "cascade" }).notNull(),
+  dayOffset: integer("day_offset").notNull(), // Days relative to the due date (-3 = three days before)
+  channel: varchar("channel", { length: 10 }).notNull(), // "email" | "sms"
+  sentTo: varchar("sent_to", { length: 320 }),
+  delivered: boolean("delivered").notNull(),
+  error: text("error"),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueStep: unique().on(table.invoiceId, table.dayOffset, table.channel),
+}));
+
+export type InvoiceReminder = typeof invoiceReminders.$inferSelect;
+export type InsertInvoiceReminder = typeof invoiceReminders.$inferInsert;
+
 /**
  * Change Orders - Tracks value added after initial contract
  * Supports supplements (insurance) and retail change orders
@@ -579,6 +732,7 @@ export const changeOrders = pgTable("change_orders", {
   amount: integer("amount").notNull(), // Stored in cents to match amountPaid pattern
   status: changeOrderStatusEnum("status").default("pending").notNull(),
   invoiceId: integer("invoice_id").references(() => invoices.id, { onDelete: "set null" }), // Tracks if billed
+  documentId: integer("document_id").references(() => documents.id, { onDelete: "set null" }), // Supplement letter sent to the carrier
   approvedBy: integer("approved_by").references(() => users.id, { onDelete: "set null" }),
   approvedAt: timestamp("approved_at"),
   createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }).notNull(),
@@ -589,6 +743,33 @@ export const changeOrders = pgTable("change_orders", {
 export type ChangeOrder = typeof changeOrders.$inferSelect;
 export type InsertChangeOrder = typeof changeOrders.$inferInsert;
 
+/**
+ * Billing Milestones - Per-job progress billing schedule
+ * Created when the job is approved; each milestone drafts its invoice when its trigger fires
+ */
+export const billingTriggerEnum = pgEnum("billing_trigger", ["job_approved", "materials_delivered", "job_completed", "manual"]);
+export const billingMilestoneStatusEnum = pgEnum("billing_milestone_status", ["scheduled", "invoiced", "skipped"]);
+
+export const billingMilestones = pgTable("billing_milestones", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").references(() => reportRequests.id, { onDelete: "cascade" }).notNull(),
+  name: varchar("name", { length: 100 }).notNull(), // e.g., "Deposit", "Materials Delivered"
+  invoiceType: invoiceTypeEnum("invoice_type").notNull(),
+  trigger: billingTriggerEnum("trigger").notNull(),
+  percent: numeric("percent", { precision: 5, scale: 2 }), // Share of the base contract
+  fixedAmount: integer("fixed_amount"), // Cents; overrides percent when set
+  status: billingMilestoneStatusEnum("status").default("scheduled").notNull(),
+  invoiceId: integer("invoice_id").references(() => invoices.id, { onDelete: "set null" }),
+  triggeredAt: timestamp("triggered_at"),
+  sortOrder: integer("sort_order").default(0).notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type BillingMilestone = typeof billingMilestones.$inferSelect;
+export type InsertBillingMilestone = typeof billingMilestones.$inferInsert;
+
 /**
  * Insurance Scopes - Parsed data from Scope of Loss PDFs
  * Stores carrier information and parsed line items for comparison
@@ -605,9 +786,13 @@ export const insuranceScopes = pgTable("insurance_scopes", {
   lineItems: jsonb("line_items"), // Array of parsed scope items for comparison UI
   rawData: jsonb("raw_data"), // Full parser output for debugging
   parserVersion: varchar("parser_version", { length: 50 }), // Track parser version for debugging
+  version: integer("version").default(1).notNull(), // Increments each time a revised scope is analyzed for the job
+  createdBy: integer("created_by"),
   parsedAt: timestamp("parsed_at").defaultNow().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  uniqueJobVersion: unique().on(table.jobId, table.version),
+}));
 
 export type InsuranceScope = typeof insuranceScopes.$inferSelect;
 export type InsertInsuranceScope = typeof insuranceScopes.$inferInsert;
@@ -632,6 +817,7 @@ export const expenses = pgTable("expenses", {
   amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
   description: text("description").notNull(),
   reportRequestId: integer("report_request_id"),
+  vendorId: integer("vendor_id").references(() => vendors.id, { onDelete: "set null" }),
   vendorName: varchar("vendor_name", { length: 255 }),
   paymentMethod: varchar("payment_method", { length: 50 }),
   receiptUrl: varchar("receipt_url", { length: 500 }),
@@ -763,6 +949,8 @@ export const commissionRequests = pgTable("commission_requests", {
   userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
   paymentId: varchar("payment_id", { length: 255 }), // Reference to collected payment/check
   status: commissionStatusEnum("status").default("pending").notNull(),
+  amount: integer("amount"), // Commission owed in cents, set when approved; charged to the job's cost
+  paidAt: timestamp("paid_at"), // When the approved amount was paid out; unpaid ones are in the cash forecast
   denialReason: text("denial_reason"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -805,6 +993,10 @@ export const payments = pgTable("payments", {
   paymentMethod: paymentMethodEnum("payment_method").notNull(),
   checkNumber: varchar("check_number", { length: 100 }),
   notes: text("notes"),
+  invoiceId: integer("invoice_id").references(() => invoices.id, { onDelete: "set null" }),
+  stripePaymentIntentId: varchar("stripe_payment_intent_id", { length: 255 }).unique(), // Online payments; dedupes webhook retries
+  stripeCheckoutSessionId: varchar("stripe_checkout_session_id", { length: 255 }),
+  refundedAmount: integer("refunded_amount").default(0).notNull(), // Cents; total of this payment's paymentRefunds
   createdBy: integer("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -840,6 +1032,7 @@ export const bankAccounts = pgTable("bank_accounts", {
   institutionName: varchar("institution_name", { length: 255 }),
   creditLimit: numeric("credit_limit", { precision: 12, scale: 2 }),
   currentBalance: numeric("current_balance", { precision: 12, scale: 2 }).default("0"),
+  balanceAsOf: timestamp("balance_as_of"), // Ledger balance date of the last imported statement
   isActive: boolean("is_active").default(true),
   notes: text("notes"),
   createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
@@ -866,6 +1059,8 @@ export const bankTransactions = pgTable("bank_transactions", {
   status: bankTransactionStatusEnum("status").default("pending"),
   bankAccount: varchar("bank_account", { length: 100 }),
   referenceNumber: varchar("reference_number", { length: 100 }),
+  importKey: varchar("import_key", { length: 255 }).unique(), // Account-scoped FITID or content fingerprint; dedupes re-imports
+  ruleId: integer("rule_id").references(() => categorizationRules.id, { onDelete: "set null" }), // Categorization rule that set the category
   notes: text("notes"),
   aiSuggestedCategory: varchar("ai_suggested_category", { length: 100 }),
   aiConfidence: numeric("ai_confidence", { precision: 3, scale: 2 }),
@@ -929,11 +1124,14 @@ export type InsertInventoryTransaction = typeof inventoryTransactions.$inferInse
  * Bills Payable - Vendor bills and payables management
  */
 export const billStatusEnum = pgEnum("bill_status", ["pending", "approved", "paid", "overdue", "cancelled"]);
+// Sign-off under the bill approval rules; tracked apart from status since an unapproved bill can still go overdue
+export const billApprovalStatusEnum = pgEnum("bill_approval_status", ["not_required", "pending", "approved", "rejected"]);
 
 export const billsPayable = pgTable("bills_payable", {
   id: serial("id").primaryKey(),
   billNumber: varchar("bill_number", { length: 100 }).unique(),
-  vendorName: varchar("vendor_name", { length: 255 }).notNull(),
+  vendorId: integer("vendor_id").references(() => vendors.id, { onDelete: "set null" }),
+  vendorName: varchar("vendor_name", { length: 255 }).notNull(), // Copy of the vendor's name at the time, kept for display and ledger memos
   vendorEmail: varchar("vendor_email", { length: 320 }),
   vendorPhone: varchar("vendor_phone", { length: 50 }),
   billDate: timestamp("bill_date").notNull(),
@@ -942,6 +1140,11 @@ export const billsPayable = pgTable("bills_payable", {
   taxAmount: numeric("tax_amount", { precision: 12, scale: 2 }).default("0"),
   totalAmount: numeric("total_amount", { precision: 12, scale: 2 }).notNull(),
   status: billStatusEnum("status").default("pending"),
+  approvalStatus: billApprovalStatusEnum("approval_status").default("not_required").notNull(),
+  approvalRuleId: integer("approval_rule_id").references(() => billApprovalRules.id, { onDelete: "set null" }),
+  approvalsRequired: integer("approvals_required").default(0).notNull(),
+  approvalsReceived: integer("approvals_received").default(0).notNull(),
+  rejectionReason: text("rejection_reason"),
   category: varchar("category", { length: 100 }),
   projectId: integer("project_id").references(() => reportRequests.id, { onDelete: "set null" }),
   paymentMethod: varchar("payment_method", { length: 50 }),
@@ -957,3 +1160,433 @@ export const billsPayable = pgTable("bills_payable", {
 
 export type BillPayable = typeof billsPayable.$inferSelect;
 export type InsertBillPayable = typeof billsPayable.$inferInsert;
+
+/**
+ * Scheduled Jobs - Recurring server work run by the in-process scheduler
+ * (server/lib/scheduler.ts). One row per registered job holds its schedule,
+ * lock and latest outcome; every execution is recorded in scheduled_job_runs.
+ */
+export const scheduledJobRunStatusEnum = pgEnum("scheduled_job_run_status", ["running", "succeeded", "failed"]);
+
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  name: varchar("name", { length: 100 }).primaryKey(),
+  schedule: varchar("schedule", { length: 100 }).notNull(), // Cron expression, server local time
+  enabled: boolean("enabled").default(true).notNull(),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lockedBy: varchar("locked_by", { length: 255 }), // Instance currently running the job
+  lockedUntil: timestamp("locked_until"), // Lock expiry, so a crashed instance doesn't hold the job forever
+  retryAttempt: integer("retry_attempt").default(0).notNull(), // Failed attempts so far in the current run
+  consecutiveFailures: integer("consecutive_failures").default(0).notNull(),
+  lastRunAt: timestamp("last_run_at"),
+  lastStatus: scheduledJobRunStatusEnum("last_status"),
+  lastDurationMs: integer("last_duration_ms"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type InsertScheduledJob = typeof scheduledJobs.$inferInsert;
+
+export const scheduledJobRuns = pgTable("scheduled_job_runs", {
+  id: serial("id").primaryKey(),
+  jobName: varchar("job_name", { length: 100 }).references(() => scheduledJobs.name, { onDelete: "cascade" }).notNull(),
+  status: scheduledJobRunStatusEnum("status").default("running").notNull(),
+  attempt: integer("attempt").default(1).notNull(),
+  trigger: varchar("trigger", { length: 20 }).notNull(), // "schedule" | "retry" | "manual"
+  triggeredBy: integer("triggered_by").references(() => users.id, { onDelete: "set null" }),
+  instance: varchar("instance", { length: 255 }),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+  result: jsonb("result"),
+  error: text("error"),
+});
+
+export type ScheduledJobRun = typeof scheduledJobRuns.$inferSelect;
+export type InsertScheduledJobRun = typeof scheduledJobRuns.$inferInsert;
+
+/**
+ * General Ledger - Chart of accounts and double-entry journal. Invoices,
+ * payments, bills, expenses and reconciled bank transactions each post a
+ * balanced entry (server/lib/ledger.ts). Account balances and the financial
+ * statements come from journal_lines; see ledger.ts for the reports that
+ * still read the source tables. Amounts are in cents.
+ */
+export const ledgerAccountTypeEnum = pgEnum("ledger_account_type", ["asset", "liability", "equity", "revenue", "expense"]);
+
+export const ledgerAccounts = pgTable("ledger_accounts", {
+  id: serial("id").primaryKey(),
+  code: varchar("code", { length: 20 }).notNull().unique(),
+  name: varchar("name", { length: 255 }).notNull(),
+  type: ledgerAccountTypeEnum("type").notNull(),
+  subtype: varchar("subtype", { length: 50 }), // e.g. "cash", "cost_of_sales", "clearing"
+  description: text("description"),
+  bankAccountId: integer("bank_account_id").references(() => bankAccounts.id, { onDelete: "set null" }).unique(),
+  isSystem: boolean("is_system").default(false).notNull(), // Used by automatic postings; can't be deactivated
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type InsertLedgerAccount = typeof ledgerAccounts.$inferInsert;
+
+export const journalEntries = pgTable("journal_entries", {
+  id: serial("id").primaryKey(),
+  entryDate: timestamp("entry_date").notNull(),
+  memo: text("memo"),
+  sourceType: varchar("source_type", { length: 30 }).notNull(), // "invoice" | "payment" | "bill" | "bill_payment" | "expense" | "bank_transaction" | "credit_memo" | "manual"
+  sourceId: integer("source_id"),
+  reportRequestId: integer("report_request_id").references(() => reportRequests.id, { onDelete: "set null" }),
+  reversesEntryId: integer("reverses_entry_id"), // Set on the reversing entry
+  reversedAt: timestamp("reversed_at"), // Set on the original once it has been reversed
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  // One active entry per document
+  activeSource: uniqueIndex("journal_entries_active_source_idx")
+    .on(table.sourceType, table.sourceId)
+    .where(sql`${table.reversesEntryId} IS NULL AND ${table.reversedAt} IS NULL`),
+}));
+
+export type JournalEntry = typeof journalEntries.$inferSelect;
+export type InsertJournalEntry = typeof journalEntries.$inferInsert;
+
+export const journalLines = pgTable("journal_lines", {
+  id: serial("id").primaryKey(),
+  entryId: integer("entry_id").references(() => journalEntries.id, { onDelete: "cascade" }).notNull(),
+  accountId: integer("account_id").references(() => ledgerAccounts.id).notNull(),
+  debit: integer("debit").default(0).notNull(), // Cents
+  credit: integer("credit").default(0).notNull(), // Cents
+  memo: text("memo"),
+  reportRequestId: integer("report_request_id").references(() => reportRequests.id, { onDelete: "set null" }),
+});
+
+export type JournalLine = typeof journalLines.$inferSelect;
+export type InsertJournalLine = typeof journalLines.$inferInsert;
+
+/**
+ * Bank Reconciliation Matching - Proposed and confirmed links between a bank
+ * transaction and the payments, invoices, bills or expenses it settles
+ * (server/lib/bankMatcher.ts). One match can cover several documents, e.g. a
+ * deposit of three customer checks.
+ */
+export const bankMatchStatusEnum = pgEnum("bank_match_status", ["suggested", "confirmed", "rejected"]);
+
+export const bankTransactionMatches = pgTable("bank_transaction_matches", {
+  id: serial("id").primaryKey(),
+  transactionId: integer("transaction_id").references(() => bankTransactions.id, { onDelete: "cascade" }).notNull(),
+  targetType: varchar("target_type", { length: 20 }).notNull(), // "payment" | "invoice" | "bill" | "expense"
+  targetIds: jsonb("target_ids").$type<number[]>().notNull(),
+  score: numeric("score", { precision: 4, scale: 3 }).notNull(), // 0-1
+  reasons: jsonb("reasons").$type<string[]>().default([]),
+  status: bankMatchStatusEnum("status").default("suggested").notNull(),
+  autoConfirmed: boolean("auto_confirmed").default(false).notNull(), // Confirmed by a learned payee alias, not a person
+  resolvedBy: integer("resolved_by").references(() => users.id, { onDelete: "set null" }),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type BankTransactionMatch = typeof bankTransactionMatches.$inferSelect;
+export type InsertBankTransactionMatch = typeof bankTransactionMatches.$inferInsert;
+
+// What a bank description (normalized) has been confirmed to mean, e.g. "HOMEDEPOT" -> "The Home Depot"
+export const payeeAliases = pgTable("payee_aliases", {
+  id: serial("id").primaryKey(),
+  alias: varchar("alias", { length: 255 }).notNull(),
+  payeeName: varchar("payee_name", { length: 255 }).notNull(),
+  matchCount: integer("match_count").default(1).notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueAliasPayee: unique().on(table.alias, table.payeeName),
+}));
+
+export type PayeeAlias = typeof payeeAliases.$inferSelect;
+export type InsertPayeeAlias = typeof payeeAliases.$inferInsert;
+
+/**
+ * Categorization Rules - User-defined rules that categorize bank transactions
+ * before they go to AI (server/lib/categorizationRules.ts). The first active
+ * rule in priority order whose conditions all hold wins.
+ */
+export const categorizationRules = pgTable("categorization_rules", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  priority: integer("priority").default(100).notNull(), // Lower runs first
+  isActive: boolean("is_active").default(true).notNull(),
+
+  // Conditions; null means "any"
+  matchType: varchar("match_type", { length: 20 }).default("contains").notNull(), // "contains" | "regex"
+  pattern: varchar("pattern", { length: 255 }), // Matched against the description, case-insensitive
+  minAmount: numeric("min_amount", { precision: 12, scale: 2 }), // Absolute dollars
+  maxAmount: numeric("max_amount", { precision: 12, scale: 2 }),
+  accountId: integer("account_id").references(() => bankAccounts.id, { onDelete: "cascade" }),
+  sign: varchar("sign", { length: 10 }).default("any").notNull(), // "any" | "inflow" | "outflow"
+
+  // Actions
+  setCategory: varchar("set_category", { length: 100 }).notNull(),
+  setProjectId: integer("set_project_id").references(() => reportRequests.id, { onDelete: "set null" }),
+  setNotes: text("set_notes"),
+
+  matchCount: integer("match_count").default(0).notNull(),
+  lastMatchedAt: timestamp("last_matched_at"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type CategorizationRule = typeof categorizationRules.$inferSelect;
+export type InsertCategorizationRule = typeof categorizationRules.$inferInsert;
+
+/**
+ * Job Costing - Costs that aren't recorded anywhere else (crew labor,
+ * permits, one-off charges) and the estimated cost per category that a job's
+ * actual costs are compared against (server/lib/jobCosting.ts).
+ */
+export const jobCostCategoryEnum = pgEnum("job_cost_category", [
+  "materials",
+  "labor",
+  "subcontractors",
+  "equipment",
+  "permits",
+  "commission",
+  "other",
+]);
+
+export const jobCostEntries = pgTable("job_cost_entries", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").references(() => reportRequests.id, { onDelete: "cascade" }).notNull(),
+  category: jobCostCategoryEnum("category").notNull(),
+  description: text("description").notNull(),
+  amount: integer("amount").notNull(), // Cents
+  hours: numeric("hours", { precision: 7, scale: 2 }), // Crew labor: hours worked
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }), // Crew member
+  entryDate: timestamp("entry_date").notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type JobCostEntry = typeof jobCostEntries.$inferSelect;
+export type InsertJobCostEntry = typeof jobCostEntries.$inferInsert;
+
+export const jobCostEstimates = pgTable("job_cost_estimates", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").references(() => reportRequests.id, { onDelete: "cascade" }).notNull(),
+  category: jobCostCategoryEnum("category").notNull(),
+  amount: integer("amount").notNull(), // Cents
+  updatedBy: integer("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueJobCategory: unique().on(table.jobId, table.category),
+}));
+
+export type JobCostEstimate = typeof jobCostEstimates.$inferSelect;
+export type InsertJobCostEstimate = typeof jobCostEstimates.$inferInsert;
+
+/**
+ * Sales Tax Rates - State rate plus county discretionary surtax, one row per
+ * county, with the ZIP codes that fall in it. Jobs find their county by the
+ * ZIP in their address unless one is picked on the job (lib/salesTax).
+ */
+export const salesTaxRates = pgTable("sales_tax_rates", {
+  id: serial("id").primaryKey(),
+  state: varchar("state", { length: 2 }).default("FL").notNull(),
+  county: varchar("county", { length: 100 }).notNull(),
+  stateRate: numeric("state_rate", { precision: 6, scale: 3 }).default("6.000").notNull(), // Percent
+  surtaxRate: numeric("surtax_rate", { precision: 6, scale: 3 }).default("0.000").notNull(), // Percent
+  surtaxCap: integer("surtax_cap").default(500000), // Cents; surtax stops at this much of each item, null = no cap
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueStateCounty: unique().on(table.state, table.county),
+}));
+
+export type SalesTaxRate = typeof salesTaxRates.$inferSelect;
+export type InsertSalesTaxRate = typeof salesTaxRates.$inferInsert;
+
+export const salesTaxZipCodes = pgTable("sales_tax_zip_codes", {
+  id: serial("id").primaryKey(),
+  zipCode: varchar("zip_code", { length: 5 }).notNull().unique(),
+  rateId: integer("rate_id").references(() => salesTaxRates.id, { onDelete: "cascade" }).notNull(),
+});
+
+export type SalesTaxZipCode = typeof salesTaxZipCodes.$inferSelect;
+export type InsertSalesTaxZipCode = typeof salesTaxZipCodes.$inferInsert;
+
+/**
+ * Credit Memos - Amounts credited back to a customer (CM-{jobId}-{seq}).
+ * A memo can be split across several invoices; whatever isn't applied stays
+ * on the job as customer credit. Voided memos keep their number.
+ */
+export const creditMemos = pgTable("credit_memos", {
+  id: serial("id").primaryKey(),
+  memoNumber: varchar("memo_number", { length: 50 }).notNull().unique(),
+  reportRequestId: integer("report_request_id").references(() => reportRequests.id, { onDelete: "cascade" }).notNull(),
+  amount: integer("amount").notNull(), // Cents
+  reason: text("reason").notNull(),
+  memoDate: timestamp("memo_date").notNull(),
+  voidedAt: timestamp("voided_at"),
+  voidedBy: integer("voided_by").references(() => users.id, { onDelete: "set null" }),
+  voidReason: text("void_reason"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type CreditMemo = typeof creditMemos.$inferSelect;
+export type InsertCreditMemo = typeof creditMemos.$inferInsert;
+
+export const creditMemoApplications = pgTable("credit_memo_applications", {
+  id: serial("id").primaryKey(),
+  creditMemoId: integer("credit_memo_id").references(() => creditMemos.id, { onDelete: "cascade" }).notNull(),
+  invoiceId: integer("invoice_id").references(() => invoices.id, { onDelete: "cascade" }).notNull(),
+  amount: integer("amount").notNull(), // Cents
+  appliedBy: integer("applied_by").references(() => users.id, { onDelete: "set null" }),
+  appliedAt: timestamp("applied_at").defaultNow().notNull(),
+});
+
+export type CreditMemoApplication = typeof creditMemoApplications.$inferSelect;
+export type InsertCreditMemoApplication = typeof creditMemoApplications.$inferInsert;
+
+/**
+ * Payment Refunds - Money returned against a specific payment. Refunds of
+ * Stripe payments are sent to Stripe; refunds made in the Stripe dashboard
+ * arrive through the charge.refunded webhook. payments.refundedAmount is
+ * their total.
+ */
+export const paymentRefunds = pgTable("payment_refunds", {
+  id: serial("id").primaryKey(),
+  paymentId: integer("payment_id").references(() => payments.id, { onDelete: "cascade" }).notNull(),
+  amount: integer("amount").notNull(), // Cents
+  refundDate: timestamp("refund_date").notNull(),
+  method: paymentMethodEnum("method").notNull(), // How the money went back; credit_card for Stripe
+  reason: text("reason"),
+  stripeRefundId: varchar("stripe_refund_id", { length: 255 }).unique(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type PaymentRefund = typeof paymentRefunds.$inferSelect;
+export type InsertPaymentRefund = typeof paymentRefunds.$inferInsert;
+
+/**
+ * Vendors - Who bills and expenses are paid to. Bills and expenses keep their
+ * vendor_name text, but vendor_id is the record of truth; names a vendor has
+ * been merged from are kept as aliases so new entries under the old spelling
+ * still land on the same vendor.
+ */
+export const vendorTinTypeEnum = pgEnum("vendor_tin_type", ["ein", "ssn"]);
+
+export const vendors = pgTable("vendors", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull().unique(),
+  aliases: text("aliases").array().default([]).notNull(),
+  contactName: varchar("contact_name", { length: 255 }),
+  email: varchar("email", { length: 320 }),
+  phone: varchar("phone", { length: 50 }),
+  addressLine1: varchar("address_line_1", { length: 255 }),
+  addressLine2: varchar("address_line_2", { length: 255 }),
+  city: varchar("city", { length: 100 }),
+  state: varchar("state", { length: 2 }),
+  zipCode: varchar("zip_code", { length: 10 }),
+  legalName: varchar("legal_name", { length: 255 }), // Name on the W-9, when it differs from the trade name
+  tin: varchar("tin", { length: 11 }), // Digits only; masked everywhere except the 1099 export
+  tinType: vendorTinTypeEnum("tin_type"),
+  w9OnFile: boolean("w9_on_file").default(false).notNull(),
+  w9ReceivedAt: timestamp("w9_received_at"),
+  is1099Eligible: boolean("is_1099_eligible").default(false).notNull(),
+  defaultCategory: expenseCategoryEnum("default_category"),
+  paymentTermsDays: integer("payment_terms_days").default(30).notNull(), // Net days from bill date
+  notes: text("notes"),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type Vendor = typeof vendors.$inferSelect;
+export type InsertVendor = typeof vendors.$inferInsert;
+
+/**
+ * Bill Approval Rules - When a bill needs sign-off before it can be paid.
+ * A rule fires on an amount threshold, a category, or any bill linked to a
+ * project, and asks for one approver (first_approver_roles) or two in turn
+ * (second_approver_roles too). When several rules fire the strictest wins.
+ */
+export const billApprovalTriggerEnum = pgEnum("bill_approval_trigger", ["amount", "category", "project"]);
+
+export const billApprovalRules = pgTable("bill_approval_rules", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  trigger: billApprovalTriggerEnum("trigger").notNull(),
+  minAmount: integer("min_amount"), // Cents; "amount" rules fire at or above this bill total
+  category: varchar("category", { length: 100 }), // "category" rules
+  firstApproverRoles: roleEnum("first_approver_roles").array().notNull(),
+  secondApproverRoles: roleEnum("second_approver_roles").array().default([]).notNull(), // Empty = one approver
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type BillApprovalRule = typeof billApprovalRules.$inferSelect;
+export type InsertBillApprovalRule = typeof billApprovalRules.$inferInsert;
+
+/**
+ * Bill Approval Events - The audit trail of a bill's sign-off: submissions,
+ * each approval or rejection with its comment, and comments in between.
+ */
+export const billApprovalActionEnum = pgEnum("bill_approval_action", ["submitted", "approved", "rejected", "commented", "resubmitted", "cleared"]);
+
+export const billApprovalEvents = pgTable("bill_approval_events", {
+  id: serial("id").primaryKey(),
+  billId: integer("bill_id").references(() => billsPayable.id, { onDelete: "cascade" }).notNull(),
+  action: billApprovalActionEnum("action").notNull(),
+  step: integer("step"), // Approval step (1 or 2) an approval or rejection was made at
+  comment: text("comment"), // Rejection reason, approver's note, or why the bill was (re)submitted
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type BillApprovalEvent = typeof billApprovalEvents.$inferSelect;
+export type InsertBillApprovalEvent = typeof billApprovalEvents.$inferInsert;
+
+/**
+ * Budgets - Monthly spending target per expense category. Actual spend comes
+ * from expenses, categorized bank transactions and paid bills (lib/budgets).
+ */
+export const budgets = pgTable("budgets", {
+  id: serial("id").primaryKey(),
+  category: expenseCategoryEnum("category").notNull(),
+  year: integer("year").notNull(),
+  month: integer("month").notNull(), // 1-12
+  amount: integer("amount").notNull(), // Cents
+  notes: text("notes"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueCategoryMonth: unique().on(table.category, table.year, table.month),
+}));
+
+export type Budget = typeof budgets.$inferSelect;
+export type InsertBudget = typeof budgets.$inferInsert;
+
+/**
+ * Budget Alerts - One row per budget the owner was warned about
+ * The unique key keeps the daily check from warning twice in a month
+ */
+export const budgetAlerts = pgTable("budget_alerts", {
+  id: serial("id").primaryKey(),
+  budgetId: integer("budget_id").references(() => budgets.id, { onDelete: "cascade" }).notNull().unique(),
+  spent: integer("spent").notNull(), // Cents spent when the alert went out
+  budgetAmount: integer("budget_amount").notNull(), // Cents; the budget may be edited afterwards
+  sentTo: jsonb("sent_to").$type<string[]>().default([]).notNull(),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+});
+
+export type BudgetAlert = typeof budgetAlerts.$inferSelect;
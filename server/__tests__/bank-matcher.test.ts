@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import {
+  allocateDeposit,
+  extractReferences,
+  findGroupMatches,
+  normalizePayee,
+  payeeSimilarity,
+  rankMatches,
+  scoreCandidate,
+  shouldAutoConfirm,
+  type AliasMap,
+  type MatchCandidate,
+  type MatchableTransaction,
+} from "../lib/bankMatcher";
+
+// Test the scoring that proposes bank transaction matches
+
+const day = (d: number) => new Date(2026, 9, d);
+
+const candidate = (overrides: Partial<MatchCandidate>): MatchCandidate => ({
+  type: "bill",
+  id: 1,
+  amount: 50000,
+  date: day(10),
+  payee: "ABC Supply Co",
+  reference: null,
+  jobId: null,
+  label: "Bill",
+  ...overrides,
+});
+
+const withdrawal = (overrides: Partial<MatchableTransaction> = {}): MatchableTransaction => ({
+  amount: -50000,
+  date: day(12),
+  description: "ACH DEBIT ABC SUPPLY 88412",
+  referenceNumber: null,
+  ...overrides,
+});
+
+describe("Payee text", () => {
+  it("should strip bank boilerplate and numbers from descriptions", () => {
+    expect(normalizePayee("POS DEBIT HOME DEPOT #4512 07/14")).toBe("HOME DEPOT");
+    expect(normalizePayee("CHECKCARD 0714 HOME DEPOT 0331")).toBe("HOME DEPOT");
+    expect(normalizePayee("12345")).toBe("");
+  });
+
+  it("should score how much of the payee name appears", () => {
+    expect(payeeSimilarity("POS HOMEDEPOT 4512", "The Home Depot")).toBe(1);
+    expect(payeeSimilarity("ACH DEBIT ABC SUPPLY 88412", "ABC Supply Co")).toBe(1);
+    expect(payeeSimilarity("ACH DEBIT ABC ROOFING", "ABC Supply Co")).toBe(0.5);
+    expect(payeeSimilarity("SHELL OIL", "ABC Supply Co")).toBe(0);
+    expect(payeeSimilarity("SHELL OIL", null)).toBe(0);
+  });
+
+  it("should pull check numbers from the reference and description", () => {
+    expect(extractReferences({ description: "CHECK 001234", referenceNumber: null })).toEqual(["1234"]);
+    expect(extractReferences({ description: "DEPOSIT CHK #5678", referenceNumber: "0099" })).toEqual(["99", "5678"]);
+  });
+});
+
+describe("Candidate scoring", () => {
+  it("should score an exact amount, close date and matching payee highly", () => {
+    const match = scoreCandidate(withdrawal(), candidate({}))!;
+    expect(match.exactAmount).toBe(true);
+    expect(match.score).toBeGreaterThan(0.9);
+    expect(match.reasons).toContain("Amount matches exactly");
+  });
+
+  it("should rule out amounts and dates that are too far off", () => {
+    expect(scoreCandidate(withdrawal({ amount: -55000 }), candidate({}))).toBeNull();
+    expect(scoreCandidate(withdrawal({ date: day(30) }), candidate({ type: "expense" }))).toBeNull();
+  });
+
+  it("should accept a small fee difference at a lower score", () => {
+    const exact = scoreCandidate(withdrawal(), candidate({}))!;
+    const close = scoreCandidate(withdrawal({ amount: -49950 }), candidate({}))!;
+    expect(close.exactAmount).toBe(false);
+    expect(close.score).toBeLessThan(exact.score);
+  });
+
+  it("should treat a matching check number as identity", () => {
+    const match = scoreCandidate(
+      { amount: 120000, date: day(11), description: "DEPOSIT", referenceNumber: "4411" },
+      candidate({ type: "payment", amount: 120000, payee: "Jane Smith", reference: "4411" })
+    )!;
+    expect(match.reasons).toContain("Reference 4411 matches");
+    expect(match.score).toBeGreaterThan(0.9);
+  });
+
+  it("should count a learned alias as a certain payee match", () => {
+    const aliases: AliasMap = new Map([["JMRS", new Set(["jm roofing supply"])]]);
+    const tx = withdrawal({ description: "SQ *JMRS 4431" });
+    const target = candidate({ payee: "JM Roofing Supply" });
+
+    expect(scoreCandidate(tx, target)!.aliasMatched).toBe(false);
+    const match = scoreCandidate(tx, target, aliases)!;
+    expect(match.aliasMatched).toBe(true);
+    expect(match.reasons).toContain('Learned payee "JM Roofing Supply"');
+  });
+});
+
+describe("Group matches", () => {
+  it("should find several checks that add up to one deposit", () => {
+    const deposit: MatchableTransaction = { amount: 350000, date: day(15), description: "MOBILE DEPOSIT", referenceNumber: null };
+    const checks = [
+      candidate({ type: "payment", id: 1, amount: 100000, date: day(14), payee: "Jane Smith" }),
+      candidate({ type: "payment", id: 2, amount: 250000, date: day(13), payee: "Bob Jones" }),
+      candidate({ type: "payment", id: 3, amount: 75000, date: day(14), payee: "Ann Lee" }),
+    ];
+
+    const groups = findGroupMatches(deposit, checks);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].targets.map(t => t.id).sort()).toEqual([1, 2]);
+    expect(groups[0].exactAmount).toBe(true);
+  });
+
+  it("should not mix document types in a group", () => {
+    const deposit: MatchableTransaction = { amount: 150000, date: day(15), description: "DEPOSIT", referenceNumber: null };
+    const groups = findGroupMatches(deposit, [
+      candidate({ type: "payment", id: 1, amount: 100000, date: day(15) }),
+      candidate({ type: "invoice", id: 2, amount: 50000, date: day(15) }),
+    ]);
+    expect(groups).toHaveLength(0);
+  });
+});
+
+describe("Ranking and auto-confirm", () => {
+  it("should rank the best match first and drop weak ones", () => {
+    const ranked = rankMatches(withdrawal(), [
+      candidate({ id: 1, payee: "Shell Oil", date: day(40) }),
+      candidate({ id: 2 }),
+      candidate({ id: 3, payee: "Someone Else", date: day(1) }),
+    ]);
+    expect(ranked[0].targets[0].id).toBe(2);
+    expect(ranked.every(match => match.score >= 0.55)).toBe(true);
+  });
+
+  it("should auto-confirm only a clear alias match for the exact amount", () => {
+    const aliases: AliasMap = new Map([["ABC SUPPLY", new Set(["abc supply co"])]]);
+    const clear = rankMatches(withdrawal(), [candidate({ id: 1 })], aliases);
+    expect(shouldAutoConfirm(clear)).toBe(true);
+
+    // Without the alias it still needs a person
+    expect(shouldAutoConfirm(rankMatches(withdrawal(), [candidate({ id: 1 })]))).toBe(false);
+
+    // Two identical bills from the same vendor are ambiguous
+    const ambiguous = rankMatches(withdrawal(), [candidate({ id: 1 }), candidate({ id: 2 })], aliases);
+    expect(shouldAutoConfirm(ambiguous)).toBe(false);
+  });
+});
+
+describe("Deposit allocation", () => {
+  it("should record what the bank received and leave a shortfall open", () => {
+    expect(allocateDeposit(4980000, [{ id: 1, balance: 5000000 }])).toEqual([{ id: 1, amount: 4980000 }]);
+    expect(allocateDeposit(150000, [{ id: 1, balance: 100000 }, { id: 2, balance: 60000 }]))
+      .toEqual([{ id: 1, amount: 100000 }, { id: 2, amount: 50000 }]);
+    expect(allocateDeposit(100050, [{ id: 1, balance: 100000 }])).toEqual([{ id: 1, amount: 100000 }]);
+  });
+});
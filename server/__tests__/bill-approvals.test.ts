@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  approvalSteps,
+  approverError,
+  canPayBill,
+  currentApprovers,
+  payBlockedReason,
+  ruleApplies,
+  strictestRule,
+} from "../lib/billApprovals";
+
+// Test which rule a bill falls under and who may sign it at each step
+
+type Rule = Parameters<typeof strictestRule>[0][number];
+
+const rule = (overrides: Partial<Rule>): Rule => ({
+  id: 1,
+  trigger: "amount",
+  minAmount: 500000,
+  category: null,
+  firstApproverRoles: ["office"],
+  secondApproverRoles: [],
+  ...overrides,
+});
+
+const bill = { totalAmount: "6200.00", category: "materials", projectId: null as number | null };
+
+describe("Approval rules", () => {
+  it("should match on amount threshold, category and job link", () => {
+    expect(ruleApplies(rule({ minAmount: 620000 }), bill)).toBe(true);
+    expect(ruleApplies(rule({ minAmount: 620001 }), bill)).toBe(false);
+    expect(ruleApplies(rule({ trigger: "category", category: "materials" }), bill)).toBe(true);
+    expect(ruleApplies(rule({ trigger: "category", category: "labor" }), bill)).toBe(false);
+    expect(ruleApplies(rule({ trigger: "project" }), bill)).toBe(false);
+    expect(ruleApplies(rule({ trigger: "project" }), { ...bill, projectId: 42 })).toBe(true);
+  });
+
+  it("should pick the rule with the most approvers, then the highest threshold", () => {
+    const rules = [
+      rule({ id: 1, minAmount: 100000 }),
+      rule({ id: 2, minAmount: 500000 }),
+      rule({ id: 3, trigger: "project", minAmount: null, secondApproverRoles: ["owner"] }),
+    ];
+
+    expect(strictestRule(rules, bill)?.id).toBe(2);
+    expect(strictestRule(rules, { ...bill, projectId: 7 })?.id).toBe(3);
+    expect(strictestRule(rules, { ...bill, totalAmount: "250.00" })).toBeNull();
+  });
+
+  it("should fall back to the owner when the rule is gone", () => {
+    expect(approvalSteps(null)).toEqual([["owner"]]);
+    expect(approvalSteps(rule({ firstApproverRoles: ["office", "admin"], secondApproverRoles: ["owner"] })))
+      .toEqual([["office", "admin"], ["owner"]]);
+  });
+});
+
+describe("Approvers", () => {
+  const twoStep = rule({ firstApproverRoles: ["project_manager"], secondApproverRoles: ["owner"] });
+  const pending = { approvalStatus: "pending" as const, approvalsReceived: 0, createdBy: 5 };
+
+  it("should only let the step's roles sign, with owners allowed at any step", () => {
+    expect(approverError({ bill: pending, rule: twoStep, user: { id: 9, role: "project_manager" }, approverIds: [] })).toBeNull();
+    expect(approverError({ bill: pending, rule: twoStep, user: { id: 9, role: "office" }, approverIds: [] }))
+      .toBe("Step 1 needs approval from: Project Manager");
+    expect(approverError({ bill: pending, rule: twoStep, user: { id: 1, role: "owner" }, approverIds: [] })).toBeNull();
+
+    const secondStep = { ...pending, approvalsReceived: 1 };
+    expect(approverError({ bill: secondStep, rule: twoStep, user: { id: 9, role: "project_manager" }, approverIds: [3] }))
+      .toBe("Step 2 needs approval from: Owner");
+  });
+
+  it("should need two different people and not the person who entered the bill", () => {
+    const secondStep = { ...pending, approvalsReceived: 1 };
+    expect(approverError({ bill: secondStep, rule: twoStep, user: { id: 1, role: "owner" }, approverIds: [1] }))
+      .toMatch(/already approved/);
+    expect(approverError({ bill: pending, rule: twoStep, user: { id: 5, role: "project_manager" }, approverIds: [] }))
+      .toMatch(/You entered this bill/);
+    expect(approverError({ bill: { ...pending, approvalStatus: "approved" }, rule: twoStep, user: { id: 1, role: "owner" }, approverIds: [] }))
+      .toMatch(/isn't waiting/);
+  });
+
+  it("should count approvals only since the latest submission", () => {
+    expect(currentApprovers([
+      { action: "submitted", userId: 5 },
+      { action: "approved", userId: 9 },
+      { action: "rejected", userId: 1 },
+      { action: "resubmitted", userId: 5 },
+      { action: "commented", userId: 9 },
+      { action: "approved", userId: 3 },
+    ])).toEqual([3]);
+  });
+
+  it("should block payment until the bill is approved", () => {
+    expect(canPayBill({ approvalStatus: "not_required" })).toBe(true);
+    expect(canPayBill({ approvalStatus: "approved" })).toBe(true);
+    expect(canPayBill({ approvalStatus: "pending" })).toBe(false);
+    expect(canPayBill({ approvalStatus: "rejected" })).toBe(false);
+    expect(payBlockedReason({ approvalStatus: "approved" })).toBeNull();
+    expect(payBlockedReason({ approvalStatus: "pending" })).toMatch(/waiting for approval/);
+    expect(payBlockedReason({ approvalStatus: "rejected" })).toMatch(/rejected/);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { buildDefaultMilestones, milestoneContractAmount, finalMilestoneAmount } from "../lib/billingSchedule";
+
+// Test the default billing schedule and milestone amount math
+
+describe("Billing Schedule", () => {
+  it("should split the balance after the deposit between delivery and completion", () => {
+    const milestones = buildDefaultMilestones("cash", 50);
+    expect(milestones.map(m => [m.invoiceType, m.trigger, m.percent])).toEqual([
+      ["deposit", "job_approved", 50],
+      ["progress", "materials_delivered", 25],
+      ["final", "job_completed", 25],
+    ]);
+
+    const odd = buildDefaultMilestones("insurance", 33.33);
+    expect(odd.reduce((sum, m) => sum + m.percent, 0)).toBeCloseTo(100, 5);
+  });
+
+  it("should bill financed jobs once at completion and drop empty milestones", () => {
+    expect(buildDefaultMilestones("financed", 50)).toEqual([
+      { name: "Final Payment", invoiceType: "final", trigger: "job_completed", percent: 100 },
+    ]);
+    expect(buildDefaultMilestones("cash", 100).map(m => m.invoiceType)).toEqual(["deposit"]);
+  });
+
+  it("should prefer a fixed amount over the percentage", () => {
+    expect(milestoneContractAmount({ percent: "25.00", fixedAmount: null }, 1_234_567)).toBe(308_642);
+    expect(milestoneContractAmount({ percent: "25.00", fixedAmount: 500_000 }, 1_234_567)).toBe(500_000);
+  });
+
+  it("should bill the rest of the contract plus unbilled change orders on the final", () => {
+    const result = finalMilestoneAmount(2_000_000, [{ amount: 1_000_000 }, { amount: 500_000 }], [
+      { amount: 45_000 },
+      { amount: 12_500 },
+    ]);
+    expect(result).toEqual({ contractPortion: 500_000, changeOrderTotal: 57_500, total: 557_500 });
+
+    // Over-billed contracts don't go negative; change orders still bill
+    expect(finalMilestoneAmount(1_000_000, [{ amount: 1_200_000 }], [{ amount: 10_000 }]).total).toBe(10_000);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  budgetAlertsDue,
+  budgetCategory,
+  buildBudgetReport,
+  collectSpend,
+  monthElapsedPercent,
+  planCopyForward,
+  type SpendEntry,
+} from "../lib/budgets";
+
+// Test budget-vs-actual totals, the 90% alert and copying budgets forward a year
+
+const asOf = new Date(2026, 9, 19); // Oct 19, 2026
+
+const spend = (source: SpendEntry["source"], category: SpendEntry["category"], date: Date, amount: number, sourceId = 1): SpendEntry =>
+  ({ source, sourceId, category, date, amount, label: "" });
+
+describe("Categories", () => {
+  it("should map free-text bank and bill categories onto expense categories", () => {
+    expect(budgetCategory("marketing")).toBe("marketing");
+    expect(budgetCategory(" Professional Services ")).toBe("professional_services");
+    expect(budgetCategory("bill_payment")).toBeNull();
+    expect(budgetCategory("payroll")).toBeNull();
+    expect(budgetCategory(null)).toBeNull();
+  });
+
+  it("should measure how far through the month a date is", () => {
+    expect(monthElapsedPercent(2026, 10, asOf)).toBe(61);
+    expect(monthElapsedPercent(2026, 9, asOf)).toBe(100);
+    expect(monthElapsedPercent(2026, 11, asOf)).toBe(0);
+  });
+});
+
+describe("Budget report", () => {
+  const budgets = [
+    { id: 1, category: "marketing" as const, year: 2026, month: 9, amount: 200000 },
+    { id: 2, category: "marketing" as const, year: 2026, month: 10, amount: 200000 },
+    { id: 3, category: "vehicle" as const, year: 2026, month: 10, amount: 100000 },
+    { id: 4, category: "office" as const, year: 2026, month: 10, amount: 50000 },
+  ];
+  const entries = [
+    spend("expense", "marketing", new Date(2026, 8, 15), 250000),
+    spend("expense", "marketing", new Date(2026, 9, 2), 60000),
+    spend("bank", "marketing", new Date(2026, 9, 5), 50000),
+    spend("bank", "marketing", new Date(2026, 9, 6), -10000),
+    spend("bill", "marketing", new Date(2026, 9, 10), 80000),
+    spend("bank", "vehicle", new Date(2026, 9, 12), 92000),
+    spend("expense", "labor", new Date(2026, 9, 1), 400000),
+    spend("expense", "marketing", new Date(2025, 11, 31), 999999),
+    spend("expense", "marketing", new Date(2026, 10, 1), 999999),
+  ];
+  const report = buildBudgetReport({ year: 2026, month: 10, budgets, spend: entries, asOf });
+  const line = (category: string) => report.lines.find(l => l.category === category)!;
+
+  it("should combine expenses, bank transactions and paid bills for the month", () => {
+    expect(line("marketing").bySource).toEqual({ expense: 60000, bank: 40000, bill: 80000 });
+    expect(line("marketing").actual).toBe(180000);
+    expect(line("marketing").variance).toBe(20000);
+    expect(line("marketing").percentUsed).toBe(90);
+    expect(line("marketing").status).toBe("near");
+  });
+
+  it("should total the year to date through the month", () => {
+    expect(line("marketing").ytdBudget).toBe(400000);
+    expect(line("marketing").ytdActual).toBe(430000);
+    expect(line("marketing").ytdVariance).toBe(-30000);
+  });
+
+  it("should show spend in categories with no budget", () => {
+    expect(line("labor")).toMatchObject({ budget: null, actual: 400000, variance: null, percentUsed: null, status: "no_budget" });
+    expect(line("office")).toMatchObject({ budget: 50000, actual: 0, status: "under" });
+    expect(report.totals).toMatchObject({ budget: 350000, actual: 672000, variance: -322000 });
+  });
+
+  it("should alert once per budget while the month is running", () => {
+    expect(budgetAlertsDue(report, new Map(), asOf).map(l => l.category)).toEqual(["vehicle", "marketing"]);
+    expect(budgetAlertsDue(report, new Map([[2, 200000]]), asOf).map(l => l.category)).toEqual(["vehicle"]);
+    expect(budgetAlertsDue(report, new Map([[2, 150000], [3, 100000]]), asOf).map(l => l.category)).toEqual(["marketing"]);
+    expect(budgetAlertsDue(report, new Map(), new Date(2026, 10, 1))).toEqual([]);
+  });
+});
+
+describe("Spend sources", () => {
+  it("should count a bill paid from the bank once, even when its bank line is categorized", () => {
+    const collected = collectSpend({
+      expenses: [{ id: 1, category: "materials", date: new Date(2026, 9, 1), amount: "100.00", description: "Nails", vendorName: null }],
+      bankTransactions: [
+        { id: 10, category: "materials", transactionDate: new Date(2026, 9, 3), amount: "-2500.00", description: "ABC SUPPLY" },
+        { id: 11, category: "materials", transactionDate: new Date(2026, 9, 4), amount: "-300.00", description: "HOME DEPOT" },
+        { id: 12, category: "payroll", transactionDate: new Date(2026, 9, 5), amount: "-9000.00", description: "ADP" },
+      ],
+      bills: [{ id: 5, category: "Materials", totalAmount: "2500.00", vendorName: "ABC Supply", billNumber: "B-1", paidOn: new Date(2026, 9, 3) }],
+      linkedTransactionIds: new Set([10]),
+    });
+
+    expect(collected.map(entry => [entry.source, entry.sourceId, entry.amount])).toEqual([
+      ["expense", 1, 10000],
+      ["bank", 11, 30000],
+      ["bill", 5, 250000],
+    ]);
+  });
+});
+
+describe("Copy forward", () => {
+  it("should carry last year's months into this year without overwriting by default", () => {
+    const previous = [
+      { id: 1, category: "marketing" as const, year: 2025, month: 1, amount: 100000 },
+      { id: 2, category: "marketing" as const, year: 2025, month: 2, amount: 120000 },
+      { id: 3, category: "office" as const, year: 2025, month: 1, amount: 30000 },
+    ];
+    const existing = [{ id: 9, category: "marketing" as const, year: 2026, month: 2, amount: 150000 }];
+
+    expect(planCopyForward(previous, existing, 2026, false)).toEqual({
+      create: [
+        { category: "marketing", year: 2026, month: 1, amount: 100000 },
+        { category: "office", year: 2026, month: 1, amount: 30000 },
+      ],
+      update: [],
+      skipped: 1,
+    });
+    expect(planCopyForward(previous, existing, 2026, true).update).toEqual([{ id: 9, amount: 120000 }]);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildCashForecast,
+  daysToPay,
+  expectedCollection,
+  findRecurringExpenses,
+  forecastWeeks,
+  milestoneInvoiceDate,
+  projectRecurring,
+  weekFor,
+} from "../lib/cashForecast";
+
+// Test the 13-week forecast: week buckets, days-to-pay, recurring expenses and the running balance
+
+const asOf = new Date(2026, 9, 19); // Mon Oct 19, 2026
+
+describe("Forecast weeks", () => {
+  it("should bucket 13 weeks from today with past dates in week one", () => {
+    const weeks = forecastWeeks(asOf);
+    expect(weeks).toHaveLength(13);
+    expect(weeks[0].start).toEqual(new Date(2026, 9, 19));
+    expect(weeks[12].end).toEqual(new Date(2027, 0, 18));
+
+    expect(weekFor(weeks, new Date(2026, 8, 1))).toBe(1);
+    expect(weekFor(weeks, new Date(2026, 9, 25))).toBe(1);
+    expect(weekFor(weeks, new Date(2026, 9, 26))).toBe(2);
+    expect(weekFor(weeks, new Date(2027, 0, 18))).toBeNull();
+  });
+});
+
+describe("Receivables", () => {
+  const history = daysToPay([
+    { clientName: "Jane Smith", invoiceDate: new Date(2026, 0, 1), paidDate: new Date(2026, 0, 11), totalAmount: 100000 },
+    { clientName: "jane  smith", invoiceDate: new Date(2026, 1, 1), paidDate: new Date(2026, 1, 31), totalAmount: 300000 },
+    { clientName: "Bob Jones", invoiceDate: new Date(2026, 2, 1), paidDate: new Date(2026, 3, 30), totalAmount: 100000 },
+  ]);
+
+  it("should average days-to-pay per customer, weighted by amount", () => {
+    expect(history.byCustomer.get("jane smith")).toBe(25);
+    expect(history.byCustomer.get("bob jones")).toBe(60);
+    expect(history.overall).toBe(32);
+  });
+
+  it("should date an invoice by the customer's history, falling back to the company and then the terms", () => {
+    const invoice = { invoiceDate: new Date(2026, 9, 10), dueDate: new Date(2026, 10, 9), balance: 500000 };
+
+    expect(expectedCollection({ ...invoice, clientName: "Jane Smith" }, history, asOf).date).toEqual(new Date(2026, 10, 4));
+    expect(expectedCollection({ ...invoice, clientName: "New Customer" }, history, asOf).date).toEqual(new Date(2026, 10, 11));
+    expect(expectedCollection({ ...invoice, clientName: "New Customer" }, { byCustomer: new Map(), overall: null }, asOf).date)
+      .toEqual(new Date(2026, 10, 9));
+  });
+
+  it("should discount invoices the customer is already late on", () => {
+    const late = expectedCollection(
+      { clientName: "Bob Jones", invoiceDate: new Date(2026, 5, 1), dueDate: new Date(2026, 6, 1), balance: 400000 },
+      history,
+      asOf
+    );
+    expect(late.date).toEqual(asOf);
+    expect(late.daysLate).toBe(80);
+    expect(late.amount).toBe(200000);
+  });
+
+  it("should date milestones from the install date", () => {
+    const installed = new Date(2026, 10, 2);
+    expect(milestoneInvoiceDate("materials_delivered", installed, asOf)).toEqual(new Date(2026, 10, 2));
+    expect(milestoneInvoiceDate("job_completed", installed, asOf)).toEqual(new Date(2026, 10, 5));
+    expect(milestoneInvoiceDate("job_approved", installed, asOf)).toEqual(asOf);
+    expect(milestoneInvoiceDate("materials_delivered", new Date(2026, 8, 1), asOf)).toEqual(asOf);
+    expect(milestoneInvoiceDate("manual", installed, asOf)).toBeNull();
+  });
+});
+
+describe("Recurring expenses", () => {
+  const monthly = (key: string, label: string, months: number[], day: number, amount: number) =>
+    months.map(month => ({ key, label, date: new Date(2026, month, day), amount }));
+
+  it("should find vendors paid in at least 3 of the last 6 months", () => {
+    const recurring = findRecurringExpenses([
+      ...monthly("vendor:1|insurance", "Acme Insurance", [4, 5, 6, 7, 8], 5, 120000),
+      { key: "vendor:1|insurance", label: "Acme Insurance", date: new Date(2026, 8, 20), amount: 40000 },
+      ...monthly("vendor:2|utilities", "Power Co", [7, 8], 12, 30000),
+      ...monthly("vendor:3|office", "Old Lease", [1, 2, 3], 1, 90000),
+    ], asOf);
+
+    expect(recurring.map(r => [r.key, r.monthlyAmount, r.dayOfMonth, r.months])).toEqual([
+      ["vendor:1|insurance", 120000, 5, 5],
+    ]);
+  });
+
+  it("should project each month in the horizon, skipping one already paid", () => {
+    const [insurance] = findRecurringExpenses([
+      ...monthly("vendor:1|insurance", "Acme Insurance", [4, 6, 7], 31, 120000),
+      { key: "vendor:1|insurance", label: "Acme Insurance", date: new Date(2026, 9, 15), amount: 120000 },
+    ], asOf);
+
+    const dates = projectRecurring(insurance ? [insurance] : [], asOf).map(item => item.date);
+    expect(dates).toEqual([new Date(2026, 10, 30), new Date(2026, 11, 31)]);
+  });
+});
+
+describe("Cash forecast", () => {
+  it("should run the balance forward and flag weeks under the threshold", () => {
+    const forecast = buildCashForecast({
+      asOf,
+      startingBalance: 1000000,
+      threshold: 500000,
+      items: [
+        { source: "bill", sourceId: "bill:1", label: "ABC Supply", date: new Date(2026, 9, 1), amount: -300000 },
+        { source: "commission", sourceId: "commission:1", label: "Rep", date: asOf, amount: -250000 },
+        { source: "receivable", sourceId: "invoice:1", label: "INV-1", date: new Date(2026, 9, 28), amount: 400000 },
+        { source: "recurring", sourceId: "rent:1", label: "Rent", date: new Date(2026, 10, 1), amount: -200000 },
+        { source: "milestone", sourceId: "milestone:1", label: "Deposit", date: new Date(2027, 1, 1), amount: 900000 },
+      ],
+    });
+
+    expect(forecast.weeks.slice(0, 3).map(week => [week.bills, week.commissions, week.receivables, week.recurring, week.closing])).toEqual([
+      [-300000, -250000, 0, 0, 450000],
+      [0, 0, 400000, -200000, 650000],
+      [0, 0, 0, 0, 650000],
+    ]);
+    expect(forecast.weeks[12].closing).toBe(650000);
+    expect(forecast.items).toHaveLength(4);
+    expect(forecast.firstWeekBelow).toBe(1);
+    expect(forecast.lowestBalance).toBe(450000);
+    expect(forecast.lowestWeek).toBe(1);
+  });
+});
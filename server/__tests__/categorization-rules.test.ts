@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  draftRuleFromCorrection,
+  findMatchingRule,
+  ruleMatches,
+  validateRulePattern,
+  type RuleConditions,
+} from "../lib/categorizationRules";
+import { normalizePayee } from "../lib/bankMatcher";
+
+// Test rule conditions, priority and rule offers from AI corrections
+
+const rule = (overrides: Partial<RuleConditions> = {}): RuleConditions => ({
+  matchType: "contains",
+  pattern: null,
+  minAmount: null,
+  maxAmount: null,
+  accountId: null,
+  sign: "any",
+  ...overrides,
+});
+
+const tx = (description: string, amount: string, accountId: number | null = 1) => ({ description, amount, accountId });
+
+describe("Rule matching", () => {
+  it("should match description text case-insensitively", () => {
+    expect(ruleMatches(rule({ pattern: "home depot" }), tx("HOME DEPOT #4512", "-89.99"))).toBe(true);
+    expect(ruleMatches(rule({ pattern: "lowes" }), tx("HOME DEPOT #4512", "-89.99"))).toBe(false);
+  });
+
+  it("should match regex patterns and never match a broken one", () => {
+    expect(ruleMatches(rule({ matchType: "regex", pattern: "^ADP\\s+PAYROLL" }), tx("ADP  PAYROLL 1029", "-5400.00"))).toBe(true);
+    expect(ruleMatches(rule({ matchType: "regex", pattern: "^PAYROLL" }), tx("ADP PAYROLL", "-5400.00"))).toBe(false);
+    expect(ruleMatches(rule({ matchType: "regex", pattern: "(" }), tx("(", "-1.00"))).toBe(false);
+  });
+
+  it("should check direction, absolute amount range and account", () => {
+    const outflowOver100 = rule({ sign: "outflow", minAmount: "100.00", maxAmount: "500.00", accountId: 1 });
+
+    expect(ruleMatches(outflowOver100, tx("ANY", "-250.00"))).toBe(true);
+    expect(ruleMatches(outflowOver100, tx("ANY", "250.00"))).toBe(false);
+    expect(ruleMatches(outflowOver100, tx("ANY", "-99.99"))).toBe(false);
+    expect(ruleMatches(outflowOver100, tx("ANY", "-500.01"))).toBe(false);
+    expect(ruleMatches(outflowOver100, tx("ANY", "-250.00", 2))).toBe(false);
+    expect(ruleMatches(rule({ sign: "inflow" }), tx("DEPOSIT", "0.00"))).toBe(false);
+  });
+
+  it("should pick the first matching rule in the order given", () => {
+    const rules = [
+      { ...rule({ pattern: "DEPOT", minAmount: "1000.00" }), name: "big" },
+      { ...rule({ pattern: "DEPOT" }), name: "any" },
+    ];
+
+    expect(findMatchingRule(rules, tx("HOME DEPOT", "-2500.00"))?.name).toBe("big");
+    expect(findMatchingRule(rules, tx("HOME DEPOT", "-25.00"))?.name).toBe("any");
+    expect(findMatchingRule(rules, tx("SHELL OIL", "-25.00"))).toBeNull();
+  });
+
+  it("should refuse invalid regex patterns when saving", () => {
+    expect(() => validateRulePattern("regex", "[unclosed")).toThrow("Invalid regular expression");
+    expect(() => validateRulePattern("contains", "[unclosed")).not.toThrow();
+    expect(() => validateRulePattern("regex", null)).not.toThrow();
+  });
+});
+
+describe("Rule offers", () => {
+  const aiCategorized = { description: "POS PURCHASE HOME DEPOT #4512", amount: "-89.99", aiSuggestedCategory: "office" };
+
+  it("should draft a rule when someone overrides the AI's category", () => {
+    const draft = draftRuleFromCorrection(aiCategorized, "materials");
+    const payee = normalizePayee(aiCategorized.description);
+
+    expect(draft).toEqual({
+      name: `${payee} → materials`,
+      matchType: "contains",
+      pattern: payee,
+      sign: "outflow",
+      setCategory: "materials",
+    });
+  });
+
+  it("should not offer a rule when nothing was corrected", () => {
+    expect(draftRuleFromCorrection(aiCategorized, "office")).toBeNull();
+    expect(draftRuleFromCorrection(aiCategorized, null)).toBeNull();
+    expect(draftRuleFromCorrection({ ...aiCategorized, aiSuggestedCategory: null }, "materials")).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { buildAdjusterMeetingEvent } from "../lib/claimTracking";
+
+// Test the calendar entry crm.updateInsuranceInfo creates for adjuster meetings
+
+const job = {
+  id: 42,
+  fullName: "Dana Reyes",
+  address: "120 Palm Ave",
+  cityStateZip: "Tampa, FL 33602",
+  assignedTo: 7,
+  insuranceCarrier: "Citizens",
+  claimNumber: "00123-45",
+  adjusterName: "Pat Lin",
+  adjusterPhone: "813-555-0100",
+};
+
+describe("Claim Tracking", () => {
+  it("should schedule an hour-long inspection for the assigned rep at the property", () => {
+    const meetingAt = new Date("2026-11-02T14:00:00Z");
+    const event = buildAdjusterMeetingEvent(job, meetingAt, 3);
+
+    expect(event).toMatchObject({
+      title: "Adjuster Meeting - Dana Reyes",
+      type: "inspection",
+      jobId: 42,
+      assignedTo: 7,
+      createdBy: 3,
+      attendees: [7],
+      location: "120 Palm Ave, Tampa, FL 33602",
+    });
+    expect(event.endTime).toEqual(new Date("2026-11-02T15:00:00Z"));
+    expect(event.description).toBe("Carrier: Citizens\nClaim #: 00123-45\nAdjuster: Pat Lin (813-555-0100)");
+  });
+
+  it("should leave an unassigned job's meeting without attendees", () => {
+    const event = buildAdjusterMeetingEvent(
+      { ...job, assignedTo: null, insuranceCarrier: null, claimNumber: null, adjusterName: null },
+      new Date(),
+      3
+    );
+    expect(event.attendees).toEqual([]);
+    expect(event.description).toBeNull();
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { generateCompletionCertificatePDF, generateWarrantyPDF } from "../lib/closeoutPDF";
+
+// Test the closeout documents customers download from the portal
+
+const data = {
+  companyName: "NextDoor Exterior Solutions",
+  companyPhone: "(813) 555-0199",
+  companyEmail: null,
+  contractorLicenseNumber: "CCC1234567",
+  customerName: "Dana Reyes",
+  propertyAddress: "120 Palm Ave",
+  cityStateZip: "Tampa, FL 33602",
+  completionDate: new Date("2026-09-15T12:00:00Z"),
+  productDescription: "GAF Timberline HDZ - Charcoal",
+  manufacturerWarranty: null,
+  laborWarrantyYears: 10,
+  materialWarrantyYears: 25,
+};
+
+describe("Closeout PDFs", () => {
+  it("should render the completion certificate and warranty as PDFs", async () => {
+    const certificate = await generateCompletionCertificatePDF(data);
+    const warranty = await generateWarrantyPDF({ ...data, productDescription: null });
+
+    expect(certificate.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(warranty.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(warranty.length).toBeGreaterThan(1000);
+  });
+});
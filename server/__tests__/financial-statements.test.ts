@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildBalanceSheet,
+  buildCashFlowStatement,
+  buildIncomeStatement,
+  splitCents,
+  statementColumns,
+  statementToCsv,
+  toCashBasis,
+  type CashBasisTargets,
+  type StatementAccount,
+  type StatementLine,
+} from "../lib/financialStatements";
+import { generateFinancialStatementPDF } from "../lib/pdfGenerator";
+
+// Test the income statement, balance sheet and cash flow built from ledger lines
+
+const account = (accountId: number, code: string, name: string, type: StatementAccount["type"], subtype: string | null = null): StatementAccount =>
+  ({ accountId, code, name, type, subtype });
+
+const CASH = account(1, "1000", "Operating Cash", "asset", "cash");
+const UNDEPOSITED = account(2, "1050", "Undeposited Funds", "asset", "clearing");
+const AR = account(3, "1100", "Accounts Receivable", "asset", "receivable");
+const AP = account(4, "2000", "Accounts Payable", "liability", "payable");
+const OUTSTANDING = account(5, "2050", "Outstanding Bill Payments", "liability", "clearing");
+const TAX = account(6, "2200", "Sales Tax Payable", "liability");
+const LOAN = account(7, "2500", "Loans Payable", "liability");
+const REVENUE = account(8, "4000", "Construction Revenue", "revenue");
+const MATERIALS = account(9, "5000", "Materials", "expense", "cost_of_sales");
+const FUEL = account(10, "6150", "Vehicle", "expense");
+
+let nextEntryId = 1;
+function entry(date: Date, sourceType: string, sourceId: number | null, lines: Array<[StatementAccount, number, number]>): StatementLine[] {
+  const entryId = nextEntryId++;
+  return lines.map(([acct, debit, credit]) => ({
+    ...acct, entryId, entryDate: date, memo: sourceType, sourceType, sourceId, jobId: null, debit, credit,
+  }));
+}
+
+// Dec: invoice 1 for $1,070 incl. $70 tax. Jan: $535 paid, bill 1 ($400 materials) entered and paid, fuel paid from cash, loan received
+const lines: StatementLine[] = [
+  ...entry(new Date(2025, 11, 15), "invoice", 1, [[AR, 107000, 0], [REVENUE, 0, 100000], [TAX, 0, 7000]]),
+  ...entry(new Date(2026, 0, 5), "payment", 1, [[UNDEPOSITED, 53500, 0], [AR, 0, 53500]]),
+  ...entry(new Date(2026, 0, 8), "bank_transaction", 10, [[CASH, 53500, 0], [UNDEPOSITED, 0, 53500]]),
+  ...entry(new Date(2026, 0, 10), "bill", 1, [[MATERIALS, 40000, 0], [AP, 0, 40000]]),
+  ...entry(new Date(2026, 0, 20), "bill_payment", 1, [[AP, 40000, 0], [OUTSTANDING, 0, 40000]]),
+  ...entry(new Date(2026, 0, 21), "bank_transaction", 11, [[OUTSTANDING, 40000, 0], [CASH, 0, 40000]]),
+  ...entry(new Date(2026, 0, 22), "expense", 3, [[FUEL, 6000, 0], [CASH, 0, 6000]]),
+  ...entry(new Date(2026, 0, 25), "manual", null, [[CASH, 500000, 0], [LOAN, 0, 500000]]),
+];
+
+const targets: CashBasisTargets = {
+  receivableAccountId: AR.accountId,
+  payableAccountId: AP.accountId,
+  payments: new Map([[1, [{ account: REVENUE, weight: 100000 }, { account: TAX, weight: 7000 }]]]),
+  bills: new Map([[1, [{ account: MATERIALS, weight: 40000 }]]]),
+  fallbackRevenue: REVENUE,
+  fallbackExpense: account(11, "6999", "Uncategorized Expense", "expense"),
+};
+
+const january = statementColumns("income", new Date(2026, 0, 1), new Date(2026, 0, 31), "none");
+
+const sectionAmount = (statement: ReturnType<typeof buildIncomeStatement>, title: string) =>
+  statement.sections.find(section => section.title === title)!.total.amounts;
+const summaryAmount = (statement: ReturnType<typeof buildIncomeStatement>, label: string) =>
+  statement.summary.find(row => row.label === label)!.amounts;
+
+describe("Statement periods", () => {
+  it("should compare whole months against the preceding months", () => {
+    const columns = statementColumns("income", new Date(2026, 3, 1), new Date(2026, 5, 30), "prior_period");
+    expect(columns[1].from).toEqual(new Date(2026, 0, 1));
+    expect(columns[1].to).toEqual(new Date(2026, 2, 31, 23, 59, 59, 999));
+  });
+
+  it("should compare odd ranges by day count and prior years by date", () => {
+    const byDays = statementColumns("income", new Date(2026, 0, 11), new Date(2026, 0, 20), "prior_period");
+    expect(byDays[1].from).toEqual(new Date(2026, 0, 1));
+    expect(byDays[1].to).toEqual(new Date(2026, 0, 10, 23, 59, 59, 999));
+
+    const priorYear = statementColumns("balance", new Date(2026, 0, 1), new Date(2026, 5, 30), "prior_year");
+    expect(priorYear.map(column => column.from)).toEqual([null, null]);
+    expect(priorYear[1].to).toEqual(new Date(2025, 5, 30, 23, 59, 59, 999));
+    expect(priorYear[1].label).toBe("As of Jun 30, 2025");
+  });
+});
+
+describe("Cash basis", () => {
+  it("should split cents without losing any", () => {
+    expect(splitCents(53500, [100000, 7000])).toEqual([50000, 3500]);
+    expect(splitCents(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(splitCents(-100, [1, 1, 1]).reduce((a, b) => a + b, 0)).toBe(-100);
+  });
+
+  it("should recognize revenue and expense when paid", () => {
+    const cashLines = toCashBasis(lines, targets);
+    const accrual = buildIncomeStatement(lines, january, "accrual");
+    const cash = buildIncomeStatement(cashLines, january, "cash");
+
+    // The invoice was December revenue on accrual; half of it was collected in January
+    expect(sectionAmount(accrual, "Revenue")).toEqual([0]);
+    expect(sectionAmount(cash, "Revenue")).toEqual([50000]);
+    expect(sectionAmount(accrual, "Cost of Sales")).toEqual([40000]);
+    expect(sectionAmount(cash, "Cost of Sales")).toEqual([40000]);
+    expect(summaryAmount(cash, "Net Income")).toEqual([50000 - 40000 - 6000]);
+
+    // No receivable or payable survives on a cash basis
+    expect(cashLines.some(line => line.accountId === AR.accountId || line.accountId === AP.accountId)).toBe(false);
+  });
+});
+
+describe("Statements", () => {
+  it("should balance the balance sheet with retained and current earnings", () => {
+    const columns = statementColumns("balance", new Date(2026, 0, 1), new Date(2026, 0, 31), "prior_period");
+    for (const basis of ["accrual", "cash"] as const) {
+      const statement = buildBalanceSheet(basis === "cash" ? toCashBasis(lines, targets) : lines, columns, basis);
+      const assets = sectionAmount(statement, "Assets");
+      expect(summaryAmount(statement, "Total Liabilities & Equity")).toEqual(assets);
+    }
+
+    const accrual = buildBalanceSheet(lines, columns, "accrual");
+    const equity = accrual.sections.find(section => section.title === "Equity")!;
+    // December's invoice is last year's earnings as of January, and this year's as of December 31
+    expect(equity.rows.find(row => row.label === "Retained Earnings")!.amounts).toEqual([100000, 0]);
+    expect(equity.rows.find(row => row.label === "Net Income")!.amounts).toEqual([-46000, 100000]);
+  });
+
+  it("should reconcile the cash flow statement to the change in cash", () => {
+    const statement = buildCashFlowStatement(lines, january, "accrual");
+    const [netChange, beginning, ending] = statement.summary.map(row => row.amounts[0]);
+
+    expect(beginning).toBe(0);
+    expect(ending).toBe(53500 - 40000 - 6000 + 500000);
+    expect(netChange).toBe(ending - beginning);
+    expect(sectionAmount(statement, "Financing Activities")).toEqual([500000]);
+  });
+
+  it("should export CSV and PDF", async () => {
+    const statement = buildIncomeStatement(lines, statementColumns("income", new Date(2026, 0, 1), new Date(2026, 0, 31), "prior_year"), "accrual");
+
+    const csv = statementToCsv(statement, "Next Door Exterior Solutions, LLC");
+    const rows = csv.trim().split("\n");
+    expect(rows[0]).toBe('"Next Door Exterior Solutions, LLC"');
+    expect(rows).toContain('Account,"Jan 1 - Jan 31, 2026","Jan 1 - Jan 31, 2025"');
+    expect(rows).toContain("5000 Materials,400.00,0.00");
+    expect(rows[rows.length - 1]).toBe("Net Income,-460.00,0.00");
+
+    const pdf = await generateFinancialStatementPDF(statement, { companyName: "Next Door Exterior Solutions" });
+    expect(pdf.subarray(0, 4).toString()).toBe("%PDF");
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { auditResultSchema, compareScopeToEstimate, type ScopeLineItem } from "../lib/insuranceScope";
+
+// Test the scope-vs-estimate comparison behind estimates.getScopeComparison
+
+function scopeItem(overrides: Partial<ScopeLineItem>): ScopeLineItem {
+  return {
+    code: "RFG 300S",
+    description: "Laminated comp. shingle rfg. w/out felt",
+    quantity: 30,
+    unit: "SQ",
+    unit_price: 265,
+    rcv: 7950,
+    depreciation: 0,
+    acv: 7950,
+    ...overrides,
+  };
+}
+
+describe("Insurance Scope Comparison", () => {
+  it("should price shortfalls at the carrier's unit price", () => {
+    const result = compareScopeToEstimate({
+      scopeLineItems: [scopeItem({})],
+      materialLines: [{ productName: "Architectural Shingles", quantity: 99 }], // 33 SQ
+      carrierRcv: 795000,
+      proposalTotal: 900000,
+    });
+
+    const shingles = result.rows.find(row => row.key === "shingles")!;
+    expect(shingles.carrierQuantity).toBe(30);
+    expect(shingles.orderedQuantity).toBeCloseTo(33, 1);
+    expect(shingles.unitPrice).toBe(26500);
+    expect(shingles.gapAmount).toBeCloseTo(79500, -2);
+    expect(result.proposalGap).toBe(105000);
+  });
+
+  it("should not count components the carrier scoped more of than we ordered", () => {
+    const result = compareScopeToEstimate({
+      scopeLineItems: [scopeItem({ code: "RFG DRIP", description: "Drip edge", quantity: 200, unit: "LF", rcv: 500 })],
+      materialLines: [{ productName: "Drip Edge", quantity: 15 }], // 150 LF
+      carrierRcv: 50000,
+      proposalTotal: 50000,
+    });
+
+    expect(result.rows[0].quantityGap).toBe(-50);
+    expect(result.lineItemGap).toBe(0);
+  });
+
+  it("should report ordered components the carrier left out and unmatched carrier items", () => {
+    const result = compareScopeToEstimate({
+      scopeLineItems: [scopeItem({ code: "PNT EXT", description: "Paint exterior", quantity: 2000, unit: "SF", rcv: 1900 })],
+      materialLines: [{ productName: "Valley Metal", quantity: 4 }],
+      carrierRcv: 190000,
+      proposalTotal: 250000,
+    });
+
+    const valley = result.rows.find(row => row.key === "valley")!;
+    expect(valley.carrierQuantity).toBe(0);
+    expect(valley.unitPrice).toBeNull();
+    expect(result.unmatchedScopeItems.map(item => item.code)).toEqual(["PNT EXT"]);
+  });
+
+  it("should accept audit results without line item detail", () => {
+    const parsed = auditResultSchema.parse({
+      claim_info: { carrier: "State Farm", claim_number: "55-9021", loss_date: "", total_rcv: 100, total_acv: 80, deductible: 10 },
+      line_items_summary: [],
+      audit_flags: [],
+      estimator_notes: "",
+    });
+    expect(parsed.line_items).toEqual([]);
+  });
+});
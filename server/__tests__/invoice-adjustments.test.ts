@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  creditApplicationError,
+  creditMemoRemaining,
+  refundError,
+  summarizeJobBalance,
+} from "../lib/invoiceAdjustments";
+import { invoiceBalanceDue, invoiceStatusForPayments } from "../lib/stripePayments";
+import { creditMemoPosting, isBalanced, SYSTEM_ACCOUNTS } from "../lib/ledger";
+
+// Test credit memo, refund and void rules and how they flow into balances
+
+const sentInvoice = {
+  reportRequestId: 42,
+  invoiceNumber: "INV-42-02",
+  status: "sent" as const,
+  totalAmount: 1200000,
+  amountPaid: 400000,
+  creditedAmount: 0,
+};
+
+describe("Credit memos", () => {
+  it("should apply credit up to the memo's remainder and the invoice's open balance", () => {
+    const base = { jobId: 42, remaining: 150000, invoice: sentInvoice };
+
+    expect(creditApplicationError({ ...base, amount: 150000 })).toBeNull();
+    expect(creditApplicationError({ ...base, amount: 150001 })).toMatch(/\$1500\.00 of this credit/);
+    expect(creditApplicationError({ ...base, remaining: 5000000, amount: 800001 })).toMatch(/only has \$8000\.00 open/);
+    expect(creditApplicationError({
+      ...base,
+      remaining: 5000000,
+      amount: 700001,
+      invoice: { ...sentInvoice, creditedAmount: 100000 },
+    })).toMatch(/\$7000\.00 open/);
+  });
+
+  it("should refuse drafts, voided invoices and other jobs' invoices", () => {
+    const base = { jobId: 42, remaining: 150000, amount: 10000 };
+
+    expect(creditApplicationError({ ...base, invoice: { ...sentInvoice, status: "draft" } })).toMatch(/draft/);
+    expect(creditApplicationError({ ...base, invoice: { ...sentInvoice, status: "cancelled" } })).toMatch(/voided/);
+    expect(creditApplicationError({ ...base, invoice: { ...sentInvoice, reportRequestId: 43 } })).toMatch(/another job/);
+    expect(creditApplicationError({ ...base, amount: 0, invoice: sentInvoice })).toMatch(/more than zero/);
+  });
+
+  it("should leave nothing to apply on a voided memo", () => {
+    expect(creditMemoRemaining({ amount: 250000, voidedAt: null }, 100000)).toBe(150000);
+    expect(creditMemoRemaining({ amount: 250000, voidedAt: new Date("2026-10-19") }, 100000)).toBe(0);
+  });
+
+  it("should count applied credit toward the invoice balance and status", () => {
+    const credited = { ...sentInvoice, creditedAmount: 300000, dueDate: new Date("2026-11-01") };
+
+    expect(invoiceBalanceDue(credited)).toBe(500000);
+    expect(invoiceStatusForPayments(credited, 900000, new Date("2026-10-19"))).toBe("paid");
+    expect(invoiceStatusForPayments(credited, 899999, new Date("2026-10-19"))).toBe("sent");
+  });
+
+  it("should post the whole memo against receivables until it's voided", () => {
+    const memo = {
+      memoNumber: "CM-42-01",
+      amount: 250000,
+      reason: "Goodwill for schedule slip",
+      memoDate: new Date("2026-10-19"),
+      voidedAt: null,
+      reportRequestId: 42,
+    };
+    const posting = creditMemoPosting(memo)!;
+
+    expect(isBalanced(posting.lines)).toBe(true);
+    expect(posting.lines).toEqual([
+      { account: SYSTEM_ACCOUNTS.refundsAndAllowances.code, debit: 250000, credit: 0 },
+      { account: SYSTEM_ACCOUNTS.accountsReceivable.code, debit: 0, credit: 250000 },
+    ]);
+    expect(creditMemoPosting({ ...memo, voidedAt: new Date("2026-10-20") })).toBeNull();
+  });
+});
+
+describe("Refunds", () => {
+  it("should refund no more than what's left of the payment", () => {
+    expect(refundError({ amount: 500000, refundedAmount: 200000 }, 300000)).toBeNull();
+    expect(refundError({ amount: 500000, refundedAmount: 200000 }, 300001)).toMatch(/Only \$3000\.00/);
+    expect(refundError({ amount: 500000, refundedAmount: 500000 }, 100)).toMatch(/fully refunded/);
+    expect(refundError({ amount: 500000, refundedAmount: 0 }, 0)).toMatch(/more than zero/);
+  });
+});
+
+describe("Job balance", () => {
+  it("should net credits and refunds and ignore drafts and voided invoices", () => {
+    const balance = summarizeJobBalance({
+      invoices: [
+        { status: "paid", totalAmount: 600000, creditedAmount: 0 },
+        { status: "sent", totalAmount: 1200000, creditedAmount: 150000 },
+        { status: "cancelled", totalAmount: 1200000, creditedAmount: 0 }, // Voided and reissued above
+        { status: "draft", totalAmount: 300000, creditedAmount: 0 },
+      ],
+      memos: [
+        { amount: 250000, voidedAt: null },
+        { amount: 90000, voidedAt: new Date("2026-10-19") },
+      ],
+      payments: [
+        { amount: 600000, refundedAmount: 0 },
+        { amount: 500000, refundedAmount: 100000 },
+      ],
+    });
+
+    expect(balance).toEqual({
+      invoiced: 1800000,
+      credited: 250000,
+      appliedCredit: 150000,
+      unappliedCredit: 100000,
+      collected: 1100000,
+      refunded: 100000,
+      netPaid: 1000000,
+      balanceDue: 550000,
+    });
+  });
+
+  it("should show a customer credit when they've paid more than they owe", () => {
+    const balance = summarizeJobBalance({
+      invoices: [{ status: "paid", totalAmount: 500000, creditedAmount: 0 }],
+      memos: [{ amount: 50000, voidedAt: null }],
+      payments: [{ amount: 500000, refundedAmount: 0 }],
+    });
+
+    expect(balance.balanceDue).toBe(-50000);
+  });
+});
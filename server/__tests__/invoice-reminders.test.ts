@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { daysPastDue, selectReminderStep, describeReminderStep, buildReminderMessage, planReminders, DEFAULT_REMINDER_DAYS } from "../lib/invoiceReminders";
+import { invoiceStatusForPayments } from "../lib/stripePayments";
+import type { Invoice } from "../../drizzle/schema";
+
+// Test the reminder step selection and message copy for the overdue sweep
+
+describe("Invoice Reminders", () => {
+  it("should count calendar days from the due date regardless of time of day", () => {
+    const due = new Date(2026, 9, 19, 17, 0);
+    expect(daysPastDue(due, new Date(2026, 9, 16, 8, 0))).toBe(-3);
+    expect(daysPastDue(due, new Date(2026, 9, 19, 23, 59))).toBe(0);
+    expect(daysPastDue(due, new Date(2026, 9, 26, 0, 5))).toBe(7);
+  });
+
+  it("should send each step once and skip steps missed in between", () => {
+    expect(selectReminderStep(DEFAULT_REMINDER_DAYS, -5, [])).toBeNull();
+    expect(selectReminderStep(DEFAULT_REMINDER_DAYS, -3, [])).toBe(-3);
+    expect(selectReminderStep(DEFAULT_REMINDER_DAYS, -1, [-3])).toBeNull();
+    expect(selectReminderStep(DEFAULT_REMINDER_DAYS, 0, [-3])).toBe(0);
+    // Sweep was down for two weeks: only the latest step goes out
+    expect(selectReminderStep(DEFAULT_REMINDER_DAYS, 15, [-3])).toBe(14);
+    expect(selectReminderStep(DEFAULT_REMINDER_DAYS, 45, [-3, 0, 7, 14, 30])).toBeNull();
+  });
+
+  it("should word the message for upcoming and past-due invoices", () => {
+    expect(describeReminderStep(-1)).toBe("due in 1 day");
+    expect(describeReminderStep(0)).toBe("due today");
+    expect(describeReminderStep(14)).toBe("14 days past due");
+
+    const invoice = { invoiceNumber: "INV-42-02", clientName: "Dana Whitfield", dueDate: new Date(2026, 9, 19) };
+    const upcoming = buildReminderMessage({ invoice, dayOffset: -3, balanceDue: 1250050, payUrl: "https://ndespanels.com/pay?token=abc", companyName: "NDES" });
+    expect(upcoming.subject).toBe("Reminder: invoice INV-42-02 due in 3 days");
+    expect(upcoming.html).toContain("Hi Dana,");
+    expect(upcoming.html).toContain("Pay $12,500.50 now");
+    expect(upcoming.sms).toContain("Pay online: https://ndespanels.com/pay?token=abc");
+
+    const late = buildReminderMessage({ invoice, dayOffset: 7, balanceDue: 5000, payUrl: null, companyName: "NDES" });
+    expect(late.subject).toBe("Past due: invoice INV-42-02");
+    expect(late.sms).toBe("NDES: Our records show invoice INV-42-02 is 7 days past due, with $50.00 still outstanding.");
+  });
+
+  it("should escape the customer's name in the email", () => {
+    const message = buildReminderMessage({
+      invoice: { invoiceNumber: "INV-1", clientName: "<b>Dana</b> Smith", dueDate: new Date(2026, 9, 19) },
+      dayOffset: 0,
+      balanceDue: 100,
+      payUrl: null,
+      companyName: "NDES",
+    });
+    expect(message.html).toContain("Hi &lt;b&gt;Dana&lt;/b&gt;,");
+    expect(message.html).not.toContain("<b>Dana");
+  });
+
+  describe("Manual payments", () => {
+    const now = new Date(2026, 9, 26);
+    const invoice = (overrides: Partial<Invoice>) => ({
+      id: 1,
+      reportRequestId: 42,
+      invoiceNumber: "INV-42-01",
+      clientName: "Dana Whitfield",
+      status: "overdue",
+      totalAmount: 500000,
+      amountPaid: 0,
+      creditedAmount: 0,
+      dueDate: new Date(2026, 9, 19),
+      ...overrides,
+    }) as Invoice;
+    const plan = (invoices: Invoice[], unappliedByJob = new Map<number, number>()) =>
+      planReminders({ invoices, unappliedByJob, reminderDays: DEFAULT_REMINDER_DAYS, sent: [{ invoiceId: 1, dayOffset: -3 }, { invoiceId: 1, dayOffset: 0 }], now })
+        .map(reminder => [reminder.invoice.id, reminder.step, reminder.balanceDue]);
+
+    it("should remind about an unpaid invoice", () => {
+      expect(plan([invoice({})])).toEqual([[1, 7, 500000]]);
+    });
+
+    it("should stop once a check is recorded against the invoice", () => {
+      // recordPayment links the check and re-derives the invoice's status
+      const paid = invoice({ amountPaid: 500000 });
+      expect(invoiceStatusForPayments(paid, 500000, now)).toBe("paid");
+      expect(plan([paid])).toEqual([]);
+    });
+
+    it("should count a payment recorded on the job without an invoice, oldest invoice first", () => {
+      const older = invoice({});
+      const newer = invoice({ id: 2, invoiceNumber: "INV-42-02", totalAmount: 300000, dueDate: new Date(2026, 9, 23) });
+
+      expect(plan([older, newer], new Map([[42, 500000]]))).toEqual([[2, 0, 300000]]);
+      expect(plan([older, newer], new Map([[42, 650000]]))).toEqual([[2, 0, 150000]]);
+      expect(plan([older, newer], new Map([[42, 800000]]))).toEqual([]);
+      expect(plan([older, newer], new Map([[7, 800000]]))).toEqual([[1, 7, 500000], [2, 0, 300000]]);
+    });
+  });
+});
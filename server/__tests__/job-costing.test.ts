@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { contractCents, jobCostCategory, summarizeJobCosts } from "../lib/jobCosting";
+
+// Test job cost categories and the per-job P&L summary
+
+describe("Job cost categories", () => {
+  it("should sort bill, expense and bank categories into job cost categories", () => {
+    expect(jobCostCategory("materials")).toBe("materials");
+    expect(jobCostCategory("Roofing Supplies")).toBe("materials");
+    expect(jobCostCategory("payroll")).toBe("labor");
+    expect(jobCostCategory("Subcontractor - gutters")).toBe("subcontractors");
+    expect(jobCostCategory("vehicle")).toBe("equipment");
+    expect(jobCostCategory("Dumpster rental")).toBe("equipment");
+    expect(jobCostCategory("City permit")).toBe("permits");
+    expect(jobCostCategory("marketing")).toBe("other");
+    expect(jobCostCategory(null)).toBe("other");
+  });
+
+  it("should take the contract from total price, falling back to the approved amount", () => {
+    expect(contractCents({ totalPrice: "18500.00", approvedAmount: "17000.00" })).toBe(1850000);
+    expect(contractCents({ totalPrice: null, approvedAmount: "17000.50" })).toBe(1700050);
+    expect(contractCents({ totalPrice: null, approvedAmount: null })).toBe(0);
+  });
+});
+
+describe("Job P&L summary", () => {
+  const revenue = { contract: 1000000, changeOrders: 100000 };
+  const lines = [
+    { category: "materials" as const, amount: 400000 },
+    { category: "materials" as const, amount: 50000 },
+    { category: "labor" as const, amount: 250000 },
+    { category: "commission" as const, amount: 55000 },
+  ];
+
+  it("should compare actual costs with the estimate per category", () => {
+    const summary = summarizeJobCosts(revenue, lines, [
+      { category: "materials", amount: 400000 },
+      { category: "labor", amount: 300000 },
+    ], 30);
+
+    expect(summary.revenue.total).toBe(1100000);
+    expect(summary.actualCost).toBe(755000);
+    expect(summary.estimatedCost).toBe(700000);
+    expect(summary.grossProfit).toBe(345000);
+    expect(summary.marginPercent).toBe(31.36);
+    expect(summary.estimatedMarginPercent).toBe(36.36);
+
+    const byCategory = Object.fromEntries(summary.categories.map(row => [row.category, row]));
+    expect(byCategory.materials).toEqual({ category: "materials", estimated: 400000, actual: 450000, variance: -50000 });
+    expect(byCategory.labor.variance).toBe(50000);
+    expect(byCategory.commission).toEqual({ category: "commission", estimated: null, actual: 55000, variance: null });
+    expect(summary.belowTarget).toBe(false);
+  });
+
+  it("should flag jobs below the target margin", () => {
+    const summary = summarizeJobCosts(revenue, lines, [], 35);
+
+    expect(summary.estimatedCost).toBeNull();
+    expect(summary.estimatedMarginPercent).toBeNull();
+    expect(summary.belowTarget).toBe(true);
+  });
+
+  it("should not report a margin for a job with no revenue", () => {
+    const summary = summarizeJobCosts({ contract: 0, changeOrders: 0 }, lines, []);
+
+    expect(summary.grossProfit).toBe(-755000);
+    expect(summary.marginPercent).toBeNull();
+    expect(summary.belowTarget).toBe(false);
+  });
+});
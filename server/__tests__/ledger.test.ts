@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import {
+  accountForCategory,
+  bankTransactionPosting,
+  billPaymentPosting,
+  billPosting,
+  dollarsToCents,
+  expensePosting,
+  invoicePosting,
+  isBalanced,
+  normalBalance,
+  paymentPosting,
+} from "../lib/ledger";
+
+// Test the journal postings derived from finance documents
+
+const date = new Date(2026, 9, 1);
+
+describe("Ledger postings", () => {
+  it("should post a sent invoice to AR, revenue and sales tax", () => {
+    const posting = invoicePosting({
+      invoiceNumber: "INV-1001",
+      status: "sent",
+      totalAmount: 10700,
+      taxAmount: 700,
+      invoiceDate: date,
+      reportRequestId: 5,
+      clientName: "Jane Smith",
+    });
+
+    expect(posting).not.toBeNull();
+    expect(posting!.jobId).toBe(5);
+    expect(posting!.lines).toEqual([
+      { account: "1100", debit: 10700, credit: 0 },
+      { account: "4000", debit: 0, credit: 10000 },
+      { account: "2200", debit: 0, credit: 700 },
+    ]);
+    expect(isBalanced(posting!.lines)).toBe(true);
+  });
+
+  it("should not post draft or cancelled invoices", () => {
+    const base = { invoiceNumber: "INV-1002", totalAmount: 5000, taxAmount: 0, invoiceDate: date, reportRequestId: null, clientName: "A" };
+    expect(invoicePosting({ ...base, status: "draft" })).toBeNull();
+    expect(invoicePosting({ ...base, status: "cancelled" })).toBeNull();
+  });
+
+  it("should post payments net of refunds and skip fully refunded ones", () => {
+    const payment = { amount: 5000, paymentDate: date, paymentMethod: "card" as const, checkNumber: null, reportRequestId: 5 };
+    const posting = paymentPosting({ ...payment, refundedAmount: 1500 });
+    expect(posting!.lines).toEqual([
+      { account: "1050", debit: 3500, credit: 0 },
+      { account: "1100", debit: 0, credit: 3500 },
+    ]);
+    expect(paymentPosting({ ...payment, refundedAmount: 5000 })).toBeNull();
+  });
+
+  it("should post a bill to its category and clear AP when paid", () => {
+    const bill = {
+      billNumber: "B-7",
+      vendorName: "ABC Supply",
+      status: "paid" as const,
+      totalAmount: "1250.50",
+      category: "materials",
+      billDate: date,
+      paymentDate: new Date(2026, 9, 15),
+      paymentMethod: "check",
+      projectId: 9,
+    };
+
+    expect(billPosting(bill)!.lines).toEqual([
+      { account: "5000", debit: 125050, credit: 0 },
+      { account: "2000", debit: 0, credit: 125050 },
+    ]);
+
+    const payment = billPaymentPosting(bill)!;
+    expect(payment.date).toEqual(new Date(2026, 9, 15));
+    expect(payment.lines).toEqual([
+      { account: "2000", debit: 125050, credit: 0 },
+      { account: "2050", debit: 0, credit: 125050 },
+    ]);
+
+    expect(billPosting({ ...bill, status: "pending" })).toBeNull();
+    expect(billPaymentPosting({ ...bill, status: "approved" })).toBeNull();
+  });
+
+  it("should credit cash for hand-logged expenses", () => {
+    const posting = expensePosting({ amount: "42.10", category: "fuel", date, description: "Gas", vendorName: "Shell", reportRequestId: null });
+    expect(posting!.memo).toBe("Shell - Gas");
+    expect(posting!.lines).toEqual([
+      { account: "6150", debit: 4210, credit: 0 },
+      { account: "1000", debit: 0, credit: 4210 },
+    ]);
+  });
+
+  it("should post reconciled bank lines against the bank's own cash account", () => {
+    const deposit = bankTransactionPosting({
+      amount: "2500.00",
+      status: "reconciled",
+      category: "deposit",
+      accountId: 3,
+      transactionDate: date,
+      description: "Mobile deposit",
+      projectId: null,
+    });
+    expect(deposit!.lines).toEqual([
+      { account: "bank:3", debit: 250000, credit: 0 },
+      { account: "1050", debit: 0, credit: 250000 },
+    ]);
+
+    const withdrawal = bankTransactionPosting({
+      amount: "-80.00",
+      status: "reconciled",
+      category: null,
+      accountId: null,
+      transactionDate: date,
+      description: "Unknown debit",
+      projectId: null,
+    });
+    expect(withdrawal!.lines).toEqual([
+      { account: "6999", debit: 8000, credit: 0 },
+      { account: "1000", debit: 0, credit: 8000 },
+    ]);
+
+    expect(bankTransactionPosting({
+      amount: "10.00",
+      status: "pending",
+      category: "revenue",
+      accountId: 3,
+      transactionDate: date,
+      description: "Pending",
+      projectId: null,
+    })).toBeNull();
+  });
+});
+
+describe("Ledger helpers", () => {
+  it("should normalize categories and fall back to uncategorized accounts", () => {
+    expect(accountForCategory("Professional Services", "out")).toBe("6600");
+    expect(accountForCategory("bill-payment", "out")).toBe("2050");
+    expect(accountForCategory("mystery", "in")).toBe("4999");
+    expect(accountForCategory(undefined, "out")).toBe("6999");
+  });
+
+  it("should convert dollar strings to cents", () => {
+    expect(dollarsToCents("19.99")).toBe(1999);
+    expect(dollarsToCents("-0.1")).toBe(-10);
+    expect(dollarsToCents(null)).toBe(0);
+    expect(dollarsToCents("abc")).toBe(0);
+  });
+
+  it("should check balance and sign balances to the normal side", () => {
+    expect(isBalanced([{ debit: 100, credit: 0 }, { debit: 0, credit: 100 }])).toBe(true);
+    expect(isBalanced([{ debit: 100, credit: 0 }, { debit: 0, credit: 99 }])).toBe(false);
+    expect(isBalanced([{ debit: 0, credit: 0 }])).toBe(false);
+    expect(normalBalance("asset", 500, 200)).toBe(300);
+    expect(normalBalance("liability", 500, 200)).toBe(-300);
+    expect(normalBalance("revenue", 0, 900)).toBe(900);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { TRPCError } from "@trpc/server";
+import {
+  assertTransition,
+  checkTransition,
+  getNextStatuses,
+  PipelineTransitionError,
+  type TransitionFacts,
+} from "../lib/pipelineTransitions";
+
+// Test the declarative pipeline state machine used by crm.updateLead
+
+const completeFacts: TransitionFacts = {
+  phone: "555-123-4567",
+  email: "homeowner@example.com",
+  scheduledDate: new Date("2026-03-01"),
+  dealType: "cash",
+  amountPaid: 500000,
+  hasSignedProposal: true,
+};
+
+describe("Pipeline Transitions", () => {
+  describe("Transition Table", () => {
+    it("should allow forward moves and one-step back-steps", () => {
+      expect(getNextStatuses("prospect")).toContain("approved");
+      expect(getNextStatuses("prospect")).toContain("appointment_set");
+    });
+
+    it("should allow any open job to be marked lost and reopened", () => {
+      expect(getNextStatuses("project_scheduled")).toContain("closed_lost");
+      expect(getNextStatuses("closed_lost")).toEqual(["lead"]);
+    });
+
+    it("should reject moves that skip stages", () => {
+      const result = checkTransition("lead", "completed", "owner", completeFacts);
+      expect(result.allowed).toBe(false);
+      expect(result.missing[0].key).toBe("transition");
+    });
+  });
+
+  describe("Requirements", () => {
+    it("should require a signed proposal before approval", () => {
+      const result = checkTransition("prospect", "approved", "sales_rep", { ...completeFacts, hasSignedProposal: false });
+      expect(result.allowed).toBe(false);
+      expect(result.missing.map(m => m.key)).toEqual(["signedProposal"]);
+    });
+
+    it("should list every missing field at once", () => {
+      const result = checkTransition("approved", "project_scheduled", "sales_rep", {
+        ...completeFacts,
+        email: "",
+        amountPaid: 0,
+        scheduledDate: null,
+      });
+      expect(result.missing.map(m => m.key)).toEqual(["customerContact", "depositPayment", "scheduledDate"]);
+    });
+
+    it("should not require a recorded deposit for insurance jobs", () => {
+      const result = checkTransition("approved", "project_scheduled", "sales_rep", {
+        ...completeFacts,
+        dealType: "insurance",
+        amountPaid: 0,
+      });
+      expect(result.allowed).toBe(true);
+    });
+
+    it("should return side effects for accepted moves", () => {
+      const result = checkTransition("project_scheduled", "completed", "sales_rep", completeFacts);
+      expect(result.allowed).toBe(true);
+      expect(result.effects).toContain("startLienRights");
+    });
+  });
+
+  describe("Roles", () => {
+    it("should restrict closing deals to owners and office staff", () => {
+      expect(checkTransition("invoiced", "closed_deal", "sales_rep", completeFacts).missing[0].key).toBe("role");
+      expect(checkTransition("invoiced", "closed_deal", "office", completeFacts).allowed).toBe(true);
+    });
+
+    it("should throw a typed error wrapped for tRPC", () => {
+      try {
+        assertTransition("invoiced", "lien_legal", "sales_rep", completeFacts);
+        expect.fail("Expected transition to be rejected");
+      } catch (error) {
+        expect(error).toBeInstanceOf(TRPCError);
+        expect((error as TRPCError).code).toBe("FORBIDDEN");
+        expect((error as TRPCError).cause).toBeInstanceOf(PipelineTransitionError);
+      }
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import {
+  normalizeContact,
+  maskContact,
+  hashLoginCode,
+  loginCodeMatches,
+  signMagicLinkToken,
+  verifyMagicLinkToken,
+  signPortalSession,
+  verifyPortalSession,
+  createRateLimiter,
+} from "../lib/portalAuth";
+
+// Test the magic-link and one-time-code helpers behind the customer portal
+
+beforeAll(() => {
+  process.env.SUPABASE_JWT_SECRET = process.env.SUPABASE_JWT_SECRET || "portal-test-secret";
+});
+
+describe("Portal Auth", () => {
+  it("should normalize phone and email so lookups are exact matches", () => {
+    expect(normalizeContact("+1 (813) 555-0100")).toEqual({ type: "phone", value: "8135550100" });
+    expect(normalizeContact(" Dana@Example.com ")).toEqual({ type: "email", value: "dana@example.com" });
+    expect(normalizeContact("555-0100")).toBeNull();
+    expect(maskContact({ type: "phone", value: "8135550100" })).toBe("(***) ***-0100");
+    expect(maskContact({ type: "email", value: "dana@example.com" })).toBe("d***@example.com");
+  });
+
+  it("should only accept a code for the contact it was sent to", () => {
+    const hash = hashLoginCode("8135550100", "042917");
+    expect(loginCodeMatches("8135550100", "042917", hash)).toBe(true);
+    expect(loginCodeMatches("8135550100", "042918", hash)).toBe(false);
+    expect(loginCodeMatches("8135550199", "042917", hash)).toBe(false);
+  });
+
+  it("should reject expired, tampered and cross-purpose tokens", async () => {
+    const future = new Date(Date.now() + 60_000);
+    const link = await signMagicLinkToken({ tokenId: "tok_abc", jobId: 42 }, future);
+    expect(await verifyMagicLinkToken(link)).toEqual({ tokenId: "tok_abc", jobId: 42 });
+    expect(await verifyMagicLinkToken(link.slice(0, -2) + "xx")).toBeNull();
+
+    const expired = await signMagicLinkToken({ tokenId: "tok_old", jobId: 42 }, new Date(Date.now() - 60_000));
+    expect(await verifyMagicLinkToken(expired)).toBeNull();
+
+    // A link can't be used as a session cookie or vice versa
+    const session = await signPortalSession(["tok_abc", "tok_def"], future);
+    expect(await verifyPortalSession(session)).toEqual(["tok_abc", "tok_def"]);
+    expect(await verifyPortalSession(link)).toEqual([]);
+    expect(await verifyMagicLinkToken(session)).toBeNull();
+  });
+
+  it("should cap hits per key within the window", () => {
+    const limiter = createRateLimiter({ max: 2, windowMs: 1000 });
+    expect(limiter.hit("1.2.3.4", 0)).toBe(true);
+    expect(limiter.hit("1.2.3.4", 10)).toBe(true);
+    expect(limiter.hit("1.2.3.4", 20)).toBe(false);
+    expect(limiter.hit("5.6.7.8", 20)).toBe(true);
+    expect(limiter.hit("1.2.3.4", 1000)).toBe(true);
+  });
+});
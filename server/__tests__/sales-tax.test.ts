@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { calculateSalesTax, summarizeSalesTaxLiability, zipFromAddress } from "../lib/salesTax";
+import type { SalesTaxBreakdown } from "../../drizzle/schema";
+
+// Test county surtax, per-line taxability by contract type and the liability report
+
+const hillsborough = {
+  id: 1,
+  state: "FL",
+  county: "Hillsborough",
+  stateRate: "6.000",
+  surtaxRate: "1.500",
+  surtaxCap: 500000,
+};
+
+const lines = [
+  { totalPrice: 800000, taxable: true }, // Shingles and underlayment
+  { totalPrice: 120000, taxable: true }, // Drip edge and vents
+  { totalPrice: 650000, taxable: false }, // Installation labor
+];
+
+describe("Job ZIP", () => {
+  it("should read the ZIP from the city/state line before the street address", () => {
+    expect(zipFromAddress("Tampa, FL 33602", "12345 Bay Shore Blvd")).toBe("33602");
+    expect(zipFromAddress("Tampa, FL 33602-4410", null)).toBe("33602");
+    expect(zipFromAddress("", "12345 Bay Shore Blvd, Tampa, FL 33606")).toBe("33606");
+    expect(zipFromAddress("Tampa, FL", null)).toBeNull();
+  });
+});
+
+describe("Sales tax calculation", () => {
+  it("should tax only the materials lines on a retail-plus-install contract", () => {
+    const tax = calculateSalesTax(lines, hillsborough, "retail_install", "33602");
+
+    expect(tax.taxableAmount).toBe(920000);
+    expect(tax.exemptAmount).toBe(650000);
+    expect(tax.stateTax).toBe(55200);
+    expect(tax.county).toBe("Hillsborough");
+    expect(tax.zipCode).toBe("33602");
+  });
+
+  it("should stop the county surtax at the first $5,000 of each item", () => {
+    const tax = calculateSalesTax(lines, hillsborough, "retail_install");
+
+    // $5,000 of the $8,000 line plus all of the $1,200 line
+    expect(tax.surtaxableAmount).toBe(620000);
+    expect(tax.surtax).toBe(9300);
+    expect(calculateSalesTax(lines, { ...hillsborough, surtaxCap: null }, "retail_install").surtax).toBe(13800);
+  });
+
+  it("should not tax lump-sum or exempt jobs, or jobs with no county rate", () => {
+    for (const tax of [
+      calculateSalesTax(lines, hillsborough, "lump_sum"),
+      calculateSalesTax(lines, hillsborough, "exempt"),
+      calculateSalesTax(lines, null, "retail_install", "99999"),
+    ]) {
+      expect(tax.stateTax + tax.surtax).toBe(0);
+      expect(tax.exemptAmount).toBe(1570000);
+    }
+  });
+});
+
+describe("Sales tax liability", () => {
+  const breakdown = (county: string, taxable: number, exempt: number, stateTax: number, surtax: number): SalesTaxBreakdown => ({
+    treatment: "retail_install",
+    rateId: 1,
+    county,
+    state: "FL",
+    zipCode: null,
+    stateRate: 6,
+    surtaxRate: 1.5,
+    taxableAmount: taxable,
+    exemptAmount: exempt,
+    surtaxableAmount: taxable,
+    stateTax,
+    surtax,
+    calculatedAt: "2026-10-01T00:00:00.000Z",
+  });
+
+  it("should total each county and keep hand-entered tax separate", () => {
+    const { counties, totals } = summarizeSalesTaxLiability([
+      { amount: 1570000, taxAmount: 64500, taxBreakdown: breakdown("Pinellas", 920000, 650000, 55200, 9300) },
+      { amount: 100000, taxAmount: 7000, taxBreakdown: breakdown("Pinellas", 100000, 0, 6000, 1000) },
+      { amount: 500000, taxAmount: 0, taxBreakdown: { ...breakdown("Hillsborough", 0, 500000, 0, 0), treatment: "lump_sum" } },
+      { amount: 200000, taxAmount: 14000, taxBreakdown: null },
+    ]);
+
+    expect(counties.map(row => row.county)).toEqual(["Hillsborough", "Pinellas", null]);
+    expect(counties[1]).toEqual({
+      state: "FL",
+      county: "Pinellas",
+      invoiceCount: 2,
+      grossSales: 1670000,
+      taxableSales: 1020000,
+      exemptSales: 650000,
+      stateTax: 61200,
+      surtax: 10300,
+      totalTax: 71500,
+    });
+    expect(counties[2].totalTax).toBe(14000);
+    expect(totals.totalTax).toBe(85500);
+    expect(totals.grossSales).toBe(2370000);
+  });
+});
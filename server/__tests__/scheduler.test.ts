@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from "vitest";
+import { nextCronRun, parseCron } from "../lib/cron";
+import { planAfterFailure, retryDelayMs, runWithDeadline } from "../lib/scheduler";
+
+// Test cron parsing, the retry plan and job timeouts used by the background scheduler
+
+describe("Cron schedules", () => {
+  it("should find the next hourly, daily and stepped run", () => {
+    const from = new Date(2026, 9, 19, 10, 30, 15);
+    expect(nextCronRun("0 * * * *", from)).toEqual(new Date(2026, 9, 19, 11, 0));
+    expect(nextCronRun("0 8 * * *", from)).toEqual(new Date(2026, 9, 20, 8, 0));
+    expect(nextCronRun("*/15 * * * *", from)).toEqual(new Date(2026, 9, 19, 10, 45));
+    expect(nextCronRun("15 */2 * * *", from)).toEqual(new Date(2026, 9, 19, 12, 15));
+  });
+
+  it("should always move strictly past the given time", () => {
+    const onTheHour = new Date(2026, 9, 19, 11, 0, 0);
+    expect(nextCronRun("0 * * * *", onTheHour)).toEqual(new Date(2026, 9, 19, 12, 0));
+  });
+
+  it("should handle weekdays, month rollover and day-of-month OR day-of-week", () => {
+    // Oct 24 2026 is a Saturday
+    expect(nextCronRun("0 9 * * 1-5", new Date(2026, 9, 24, 12, 0))).toEqual(new Date(2026, 9, 26, 9, 0));
+    expect(nextCronRun("0 0 1 * *", new Date(2026, 11, 15))).toEqual(new Date(2027, 0, 1, 0, 0));
+    expect(nextCronRun("0 6 1 * 0", new Date(2026, 9, 19))).toEqual(new Date(2026, 9, 25, 6, 0));
+    expect(nextCronRun("0 0 * * 7", new Date(2026, 9, 19))).toEqual(new Date(2026, 9, 25, 0, 0));
+  });
+
+  it("should reject malformed expressions", () => {
+    expect(() => parseCron("0 * * *")).toThrow("5 fields");
+    expect(() => parseCron("60 * * * *")).toThrow("minute");
+    expect(() => parseCron("*/0 * * * *")).toThrow("step");
+    expect(() => nextCronRun("0 0 31 2 *", new Date(2026, 0, 1))).toThrow("never fires");
+  });
+});
+
+describe("Scheduler retries", () => {
+  it("should back off exponentially up to an hour", () => {
+    expect(retryDelayMs(1)).toBe(60_000);
+    expect(retryDelayMs(2)).toBe(120_000);
+    expect(retryDelayMs(3)).toBe(240_000);
+    expect(retryDelayMs(10)).toBe(60 * 60 * 1000);
+  });
+
+  it("should retry while attempts remain, then wait for the next scheduled run", () => {
+    const now = new Date(2026, 9, 19, 8, 0, 30);
+    const job = { schedule: "0 8 * * *", maxAttempts: 3 };
+
+    expect(planAfterFailure(job, 1, now)).toEqual({ nextRunAt: new Date(now.getTime() + 60_000), retryAttempt: 1 });
+    expect(planAfterFailure(job, 2, now)).toEqual({ nextRunAt: new Date(now.getTime() + 120_000), retryAttempt: 2 });
+    expect(planAfterFailure(job, 3, now)).toEqual({ nextRunAt: new Date(2026, 9, 20, 8, 0), retryAttempt: 0 });
+  });
+});
+
+describe("Scheduler timeouts", () => {
+  it("should give up waiting at the deadline but report when the job really stops", async () => {
+    vi.useFakeTimers();
+    try {
+      let finish!: () => void;
+      const seen: AbortSignal[] = [];
+      const { outcome, settled, signal } = runWithDeadline(jobSignal => {
+        seen.push(jobSignal);
+        return new Promise<string>(resolve => { finish = () => resolve("done"); });
+      }, 5_000, "slowJob");
+
+      let stopped = false;
+      settled.then(() => { stopped = true; });
+      const failed = expect(outcome).rejects.toThrow("slowJob timed out after 5s");
+
+      await vi.advanceTimersByTimeAsync(5_000);
+      await failed;
+      expect(signal.aborted).toBe(true);
+      expect(seen[0]).toBe(signal);
+      expect(stopped).toBe(false);
+
+      finish();
+      await settled;
+      expect(stopped).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should not abort a job that finishes in time", async () => {
+    const { outcome, signal } = runWithDeadline(async () => 42, 5_000, "quickJob");
+    await expect(outcome).resolves.toBe(42);
+    expect(signal.aborted).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { buildAuditResult, parseScopeText, reconcileScope } from "../lib/scopeParser";
+
+// Test the rule-based Xactimate parser behind estimates.analyzeScope
+
+const SHORT_FORM = `State Farm Claim #55-9021-X44
+Loss Date: 05/12/2024
+
+RFG 300S  30.00 SQ  @ $265.00  = $7,950.00
+RFG R&R   30.00 SQ  @ $55.00   = $1,650.00
+SDG VINYL 400 SF    @ $4.50    = $1,800.00
+GUT 5     150 LF    @ $7.00    = $1,050.00
+PNT EXT   2000 SF   @ $0.95    = $1,900.00
+
+Total: $14,350.00
+ACV: $10,000.00
+Deductible: $1,000.00`;
+
+const COLUMN_FORM = `Insurance Company: Citizens
+Claim Number: 00123-45
+Date of Loss: 08/30/2025
+
+Roof
+1. RFG 300S Laminated - comp. shingle rfg. - w/out felt 20.00 SQ 250.00 0.00 500.00 5,500.00 (1,000.00) 4,500.00
+2. RFG FELT15 Roofing felt - 15 lb. 20.00 SQ 40.00 0.00 80.00 880.00 (160.00) 720.00
+3. RFG DRIP Drip edge 100.00 LF 3.00 0.00 60.00 360.00 <60.00> 300.00
+
+Replacement Cost Value 6,740.00
+Less Depreciation (1,220.00)
+Actual Cash Value 5,520.00
+Less Deductible (2,500.00)`;
+
+describe("Scope Parser", () => {
+  it("should read the short @ / = layout and reconcile to the total", () => {
+    const parsed = parseScopeText(SHORT_FORM);
+    expect(parsed.lineItems).toHaveLength(5);
+    expect(parsed.unparsedSections).toEqual([]);
+    expect(reconcileScope(parsed).balanced).toBe(true);
+
+    const result = buildAuditResult(parsed);
+    expect(result.claim_info).toEqual({
+      carrier: "State Farm",
+      claim_number: "55-9021-X44",
+      loss_date: "05/12/2024",
+      total_rcv: 14350,
+      total_acv: 10000,
+      deductible: 1000,
+    });
+    expect(result.audit_flags.map(flag => flag.issue)).toEqual([
+      "Missing O&P",
+      "Missing Code Items",
+      "Missing Debris Removal",
+    ]);
+  });
+
+  it("should read depreciation columns and count the O&P column", () => {
+    const parsed = parseScopeText(COLUMN_FORM);
+    expect(parsed.lineItems[0]).toMatchObject({
+      code: "RFG 300S",
+      quantity: 20,
+      unit: "SQ",
+      unit_price: 250,
+      rcv: 5500,
+      depreciation: 1000,
+      acv: 4500,
+    });
+    expect(parsed.overheadProfit).toBe(640);
+
+    const result = buildAuditResult(parsed);
+    expect(result.claim_info.carrier).toBe("Citizens");
+    expect(result.claim_info.deductible).toBe(2500);
+    expect(result.audit_flags).toEqual([]);
+  });
+
+  it("should return lines that don't add up as unparsed sections", () => {
+    const parsed = parseScopeText(`Gutters
+SFG GUTA Gutter - aluminum 120.00 LF 7.00 999.00
+Total: 999.00`);
+
+    expect(parsed.lineItems).toEqual([]);
+    expect(parsed.unparsedSections).toEqual([
+      { heading: "Gutters", lines: ["SFG GUTA Gutter - aluminum 120.00 LF 7.00 999.00"] },
+    ]);
+  });
+
+  it("should flag totals that don't reconcile and merge fallback line items", () => {
+    const parsed = parseScopeText(`RFG DRIP Drip edge 100.00 LF 3.00 300.00
+SFG GUTA Gutter 120.00 LF 7.00 999.00
+Total: 1,140.00`);
+    expect(buildAuditResult(parsed).audit_flags.map(flag => flag.issue)).toContain("Totals Do Not Reconcile");
+
+    const merged = buildAuditResult(parsed, [
+      { code: "SFG GUTA", description: "Gutter", quantity: 120, unit: "LF", unit_price: 7, rcv: 840, depreciation: 0, acv: 840 },
+    ]);
+    expect(merged.line_items).toHaveLength(2);
+    expect(merged.audit_flags).toEqual([]);
+  });
+});
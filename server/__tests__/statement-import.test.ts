@@ -0,0 +1,207 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectStatementFormat,
+  importScope,
+  markDuplicates,
+  parseCamt053,
+  parseOfx,
+  parseStatementFile,
+} from "../lib/statementImport";
+
+// Test parsing of bank export files and import deduplication
+
+const SGML_OFX = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<STMTRS>
+<CURDEF>USD
+<BANKACCTFROM>
+<BANKID>063100277
+<ACCTID>000123456789
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20261001
+<DTEND>20261031
+<STMTTRN>
+<TRNTYPE>CHECK
+<DTPOSTED>20261005120000.000[-5:EST]
+<TRNAMT>-1250.00
+<FITID>2026100501
+<CHECKNUM>1042
+<NAME>CHECK 1042
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20261007
+<TRNAMT>8400.50
+<FITID>2026100702
+<NAME>MOBILE DEPOSIT
+<MEMO>SMITH ROOF &amp; GUTTER
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>25310.75
+<DTASOF>20261031
+</LEDGERBAL>
+<AVAILBAL>
+<BALAMT>25000.00
+<DTASOF>20261031
+</AVAILBAL>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>`;
+
+const XML_QBO = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="211"?>
+<OFX>
+  <CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+    <CURDEF>USD</CURDEF>
+    <CCACCTFROM><ACCTID>4111111111114321</ACCTID></CCACCTFROM>
+    <BANKTRANLIST>
+      <STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20261012</DTPOSTED><TRNAMT>-89.99</TRNAMT><FITID>CC-1</FITID><NAME>HOME DEPOT #4512</NAME></STMTTRN>
+    </BANKTRANLIST>
+    <LEDGERBAL><BALAMT>-1520.40</BALAMT><DTASOF>20261015</DTASOF></LEDGERBAL>
+  </CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>`;
+
+const CAMT = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Id>STMT-2026-10</Id>
+      <Acct><Id><Othr><Id>987654321</Id></Othr></Id><Ccy>USD</Ccy></Acct>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="USD">1000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2026-10-01</Dt></Dt>
+      </Bal>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="USD">1450.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2026-10-31</Dt></Dt>
+      </Bal>
+      <Ntry>
+        <Amt Ccy="USD">500.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Sts>BOOK</Sts>
+        <BookgDt><Dt>2026-10-03</Dt></BookgDt>
+        <AcctSvcrRef>BANKREF-1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+          <RltdPties><Dbtr><Nm>Jane Smith</Nm></Dbtr></RltdPties>
+          <RmtInf><Ustrd>Invoice INV-1001</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="USD">50.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>BOOK</Sts>
+        <BookgDt><DtTm>2026-10-04T09:30:00</DtTm></BookgDt>
+        <AcctSvcrRef>BANKREF-2</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><ChqNb>2201</ChqNb></Refs>
+          <RltdPties><Cdtr><Nm>City Permits</Nm></Cdtr></RltdPties>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="USD">75.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>PDNG</Sts>
+        <BookgDt><Dt>2026-10-31</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+describe("Statement parsing", () => {
+  it("should detect the format from the extension or content", () => {
+    expect(detectStatementFormat("export.qfx", "")).toBe("ofx");
+    expect(detectStatementFormat("download.txt", SGML_OFX)).toBe("ofx");
+    expect(detectStatementFormat("statement.xml", CAMT)).toBe("camt053");
+    expect(detectStatementFormat("notes.xml", "<root/>")).toBeNull();
+    expect(() => parseStatementFile("notes.xml", "<root/>")).toThrow("is not an OFX");
+  });
+
+  it("should read SGML OFX transactions, FITIDs and the ledger balance", () => {
+    const [statement] = parseOfx(SGML_OFX);
+
+    expect(statement.accountNumber).toBe("000123456789");
+    expect(statement.currency).toBe("USD");
+    expect(statement.ledgerBalance).toBe(25310.75);
+    expect(statement.balanceDate).toBe("2026-10-31");
+    expect(statement.transactions).toEqual([
+      { fitId: "2026100501", date: "2026-10-05", amount: -1250, description: "CHECK 1042", referenceNumber: "1042" },
+      { fitId: "2026100702", date: "2026-10-07", amount: 8400.5, description: "MOBILE DEPOSIT SMITH ROOF & GUTTER", referenceNumber: null },
+    ]);
+  });
+
+  it("should read XML credit card statements from QuickBooks Web Connect", () => {
+    const [statement] = parseStatementFile("card.qbo", XML_QBO);
+
+    expect(statement.accountNumber).toBe("4111111111114321");
+    expect(statement.ledgerBalance).toBe(-1520.4);
+    expect(statement.transactions).toEqual([
+      { fitId: "CC-1", date: "2026-10-12", amount: -89.99, description: "HOME DEPOT #4512", referenceNumber: null },
+    ]);
+  });
+
+  it("should read booked CAMT.053 entries with signs from the debit/credit indicator", () => {
+    const [statement] = parseCamt053(CAMT);
+
+    expect(statement.format).toBe("camt053");
+    expect(statement.accountNumber).toBe("987654321");
+    expect(statement.ledgerBalance).toBe(1450);
+    expect(statement.balanceDate).toBe("2026-10-31");
+    expect(statement.transactions).toEqual([
+      { fitId: "BANKREF-1", date: "2026-10-03", amount: 500, description: "Jane Smith Invoice INV-1001", referenceNumber: null },
+      { fitId: "BANKREF-2", date: "2026-10-04", amount: -50, description: "City Permits", referenceNumber: "2201" },
+    ]);
+  });
+
+  it("should reject transactions with unreadable amounts", () => {
+    expect(() => parseOfx(SGML_OFX.replace("<TRNAMT>-1250.00", "<TRNAMT>abc"))).toThrow('Invalid amount "abc" in transaction 1');
+  });
+});
+
+describe("Import deduplication", () => {
+  const scope = importScope(7);
+  const row = (day: number, amount: number, description: string, fitId?: string) => ({
+    fitId,
+    transactionDate: new Date(`2026-10-${String(day).padStart(2, "0")}`),
+    amount,
+    description,
+  });
+
+  it("should skip rows whose FITID was already imported", () => {
+    const first = markDuplicates(scope, [row(5, -1250, "CHECK 1042", "A1")], []);
+    expect(first.duplicate).toEqual([false]);
+
+    const again = markDuplicates(scope, [row(5, -1250, "Check 1042 (renamed)", "A1"), row(6, -20, "FEE", "A2")], [
+      { importKey: first.keys[0], transactionDate: new Date("2026-10-05"), amount: "-1250.00", description: "Renamed by a user" },
+    ]);
+    expect(again.duplicate).toEqual([true, false]);
+  });
+
+  it("should keep identical same-day rows apart and only skip the ones on file", () => {
+    const coffee = row(8, -4.5, "STARBUCKS 1234");
+    const incoming = [coffee, coffee, coffee];
+    const existing = [
+      { importKey: null, transactionDate: new Date("2026-10-08"), amount: "-4.50", description: "STARBUCKS  1234" },
+      { importKey: null, transactionDate: new Date("2026-10-08"), amount: "-4.50", description: "starbucks 1234" },
+    ];
+
+    const result = markDuplicates(scope, incoming, existing);
+    expect(result.duplicate).toEqual([true, true, false]);
+    expect(new Set(result.keys).size).toBe(3);
+  });
+
+  it("should scope keys to the account", () => {
+    const a = markDuplicates(importScope(1), [row(5, -10, "X", "F1")], []);
+    const b = markDuplicates(importScope(2), [row(5, -10, "X", "F1")], []);
+    expect(a.keys[0]).not.toBe(b.keys[0]);
+    expect(importScope(null, " Chase Checking ")).toBe("name:chase checking");
+  });
+
+  it("should treat a FITID repeated within one file as a duplicate", () => {
+    const result = markDuplicates(scope, [row(5, -10, "X", "F1"), row(5, -10, "X", "F1")], []);
+    expect(result.duplicate).toEqual([false, true]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import Stripe from "stripe";
+import {
+  invoiceBalanceDue,
+  invoiceStatusForPayments,
+  openInvoiceBalances,
+  getInvoicePaymentUrl,
+  verifyInvoicePaymentToken,
+  constructStripeEvent,
+  handleStripeEvent,
+} from "../lib/stripePayments";
+
+// Test the Stripe Checkout pay-link and webhook helpers for invoices
+
+const WEBHOOK_SECRET = "whsec_test_secret";
+
+beforeAll(() => {
+  process.env.SUPABASE_JWT_SECRET = process.env.SUPABASE_JWT_SECRET || "stripe-test-secret";
+});
+
+describe("Stripe Invoice Payments", () => {
+  it("should compute balance and status from net payments", () => {
+    const dueDate = new Date("2026-10-01");
+    const now = new Date("2026-10-19");
+    expect(invoiceBalanceDue({ totalAmount: 500000, amountPaid: 150000, status: "sent" })).toBe(350000);
+    expect(invoiceBalanceDue({ totalAmount: 500000, amountPaid: 0, status: "paid" })).toBe(0);
+    expect(invoiceBalanceDue({ totalAmount: 500000, amountPaid: 0, status: "cancelled" })).toBe(0);
+
+    expect(invoiceStatusForPayments({ totalAmount: 500000, status: "sent", dueDate }, 500000, now)).toBe("paid");
+    expect(invoiceStatusForPayments({ totalAmount: 500000, status: "sent", dueDate }, 100000, now)).toBe("overdue");
+    // A refund reopens a paid invoice
+    expect(invoiceStatusForPayments({ totalAmount: 500000, status: "paid", dueDate: new Date("2026-11-01") }, 400000, now)).toBe("sent");
+  });
+
+  it("should round-trip the pay link token", async () => {
+    const url = await getInvoicePaymentUrl(77);
+    const token = new URL(url).searchParams.get("token")!;
+    expect(url).toContain("/pay?token=");
+    expect(await verifyInvoicePaymentToken(token)).toBe(77);
+    expect(await verifyInvoicePaymentToken(token.slice(0, -2) + "xx")).toBeNull();
+  });
+
+  it("should only accept webhooks signed with the endpoint secret", () => {
+    const payload = JSON.stringify({ id: "evt_test", object: "event", type: "customer.created", data: { object: {} } });
+    const header = Stripe.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET });
+
+    expect(constructStripeEvent(payload, header, WEBHOOK_SECRET).id).toBe("evt_test");
+    expect(() => constructStripeEvent(payload, header, "whsec_other")).toThrow();
+    expect(() => constructStripeEvent(payload, undefined, WEBHOOK_SECRET)).toThrow("Missing Stripe-Signature header");
+  });
+
+  it("should acknowledge events that aren't invoice payments without touching the database", async () => {
+    const db = new Proxy({}, { get: () => { throw new Error("db should not be used"); } });
+
+    const unrelated = await handleStripeEvent(db, { type: "customer.created", data: { object: {} } } as any);
+    expect(unrelated.handled).toBe(false);
+
+    const noMetadata = await handleStripeEvent(db, {
+      type: "checkout.session.completed",
+      data: { object: { id: "cs_test", payment_status: "paid", metadata: {} } },
+    } as any);
+    expect(noMetadata.handled).toBe(false);
+  });
+});
+
+describe("Open invoice balances", () => {
+  const invoice = (id: number, jobId: number | null, totalAmount: number, amountPaid: number, dueDay: number) =>
+    ({ id, reportRequestId: jobId, totalAmount, amountPaid, creditedAmount: 0, status: "sent" as const, dueDate: new Date(2026, 9, dueDay) });
+
+  it("should leave the rest of a short deposit open and net the job's unapplied payments oldest first", () => {
+    const balances = openInvoiceBalances(
+      [invoice(2, 42, 300000, 0, 20), invoice(1, 42, 500000, 480000, 10), invoice(3, 7, 100000, 0, 5), invoice(4, null, 90000, 0, 1)],
+      new Map([[42, 100000]])
+    );
+
+    expect(balances.get(1)).toBe(0);
+    expect(balances.get(2)).toBe(220000);
+    expect(balances.get(3)).toBe(100000);
+    expect(balances.get(4)).toBe(90000);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  appendSupplementNumber,
+  classifyAuditFlag,
+  draftSupplementItems,
+  getRoofMeasurements,
+} from "../lib/supplementBuilder";
+import type { ScopeLineItem } from "../lib/insuranceScope";
+
+// Test the supplement drafting behind supplements.draft and changeOrders.approve
+
+const flag = (issue: string, description = "") => ({ severity: "HIGH" as const, issue, description });
+
+const measurements = { areaSqFt: 2500, squares: 25, eaveRakeLf: 160, source: "manual" as const };
+
+describe("Supplement Builder", () => {
+  it("should classify a single flag into every item it mentions", () => {
+    expect(classifyAuditFlag(flag("Missing Code Items", "No drip edge or felt underlayment scoped"))).toEqual([
+      "drip_edge",
+      "underlayment",
+    ]);
+    expect(classifyAuditFlag(flag("Missing O&P"))).toEqual(["overhead_profit"]);
+  });
+
+  it("should request only the quantity the carrier left out, at the carrier's price", () => {
+    const scoped: ScopeLineItem[] = [
+      { code: "RFG DRIP", description: "Drip edge", quantity: 100, unit: "LF", unit_price: 3.5, rcv: 350, depreciation: 0, acv: 350 },
+    ];
+    const items = draftSupplementItems({
+      flags: [flag("Drip edge under-scoped")],
+      measurements,
+      scopeLineItems: scoped,
+      carrierRcv: 10000,
+    });
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ code: "RFG DRIP", quantity: 60, unitPrice: 3.5 });
+  });
+
+  it("should add O&P at 20% of the carrier total plus supplemented items", () => {
+    const items = draftSupplementItems({
+      flags: [flag("Missing O&P"), flag("No debris removal")],
+      measurements,
+      scopeLineItems: [],
+      carrierRcv: 10000,
+    });
+
+    const overheadProfit = items.find(item => item.kind === "overhead_profit")!;
+    expect(overheadProfit.unitPrice).toBe(2110); // (10000 + 550) * 0.2
+  });
+
+  it("should prefer manual roof area over Solar API data", () => {
+    const result = getRoofMeasurements({ manualAreaSqFt: 1600, solarApiData: { totalArea: 3000 } });
+    expect(result).toEqual({ areaSqFt: 1600, squares: 16, eaveRakeLf: 128, source: "manual" });
+    expect(getRoofMeasurements({ manualAreaSqFt: null, solarApiData: null }).source).toBe("none");
+  });
+
+  it("should keep legacy supplement text and replace entries with the same id", () => {
+    const first = appendSupplementNumber("SUP-1 gutters", "400", { id: "co-7", description: "Drip edge", amount: "520.00" });
+    expect(JSON.parse(first.supplementNumbers)).toHaveLength(2);
+    expect(first.extrasCharged).toBe(920);
+
+    const replaced = appendSupplementNumber(first.supplementNumbers, first.extrasCharged, { id: "co-7", description: "Drip edge", amount: "600.00" });
+    expect(JSON.parse(replaced.supplementNumbers)).toHaveLength(2);
+    expect(replaced.extrasCharged).toBe(1000);
+  });
+});
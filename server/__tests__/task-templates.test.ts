@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { selectTemplates, getTemplateDueDate } from "../lib/taskTemplates";
+import type { TaskTemplate } from "../../drizzle/schema";
+
+// Test template matching used when updateLead changes a job's status
+
+function template(overrides: Partial<TaskTemplate>): TaskTemplate {
+  return {
+    id: 1,
+    title: "Order materials",
+    description: null,
+    triggerStatus: "approved",
+    dealType: null,
+    dueInDays: 2,
+    assignedTo: null,
+    priority: "high",
+    sortOrder: 0,
+    isActive: true,
+    createdBy: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("Task Templates", () => {
+  const templates = [
+    template({ id: 1, title: "Order materials", sortOrder: 1 }),
+    template({ id: 2, title: "Pull permit", sortOrder: 2 }),
+    template({ id: 3, title: "Schedule dumpster", triggerStatus: "project_scheduled" }),
+    template({ id: 4, title: "Meet adjuster", dealType: "insurance", sortOrder: 0 }),
+    template({ id: 5, title: "Retired step", isActive: false }),
+  ];
+
+  it("should match templates for the new status and deal type", () => {
+    const cash = selectTemplates(templates, "approved", "cash", new Set());
+    expect(cash.map(t => t.title)).toEqual(["Order materials", "Pull permit"]);
+
+    const insurance = selectTemplates(templates, "approved", "insurance", new Set());
+    expect(insurance.map(t => t.title)).toEqual(["Meet adjuster", "Order materials", "Pull permit"]);
+  });
+
+  it("should skip templates already generated for the job", () => {
+    const result = selectTemplates(templates, "approved", "cash", new Set([1]));
+    expect(result.map(t => t.id)).toEqual([2]);
+  });
+
+  it("should only apply all-deal-type templates when the job has no deal type", () => {
+    const result = selectTemplates(templates, "approved", null, new Set());
+    expect(result.map(t => t.id)).toEqual([1, 2]);
+  });
+
+  it("should compute due dates relative to the status change", () => {
+    const dueDate = getTemplateDueDate(new Date(2026, 2, 10, 9, 30), 3);
+    expect(dueDate.getFullYear()).toBe(2026);
+    expect(dueDate.getMonth()).toBe(2);
+    expect(dueDate.getDate()).toBe(13);
+    expect(dueDate.getHours()).toBe(23);
+  });
+});
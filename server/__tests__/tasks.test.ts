@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { canViewJob, viewableJobAssignees } from "../lib/rbac";
+import type { ReportRequest, SafeUser } from "../../drizzle/schema";
+
+// Test which jobs' tasks show up in the task lists, filtered in SQL by the job's assignee
+
+const user = (id: number, role: string) => ({ id, role, email: `user${id}@example.com` }) as SafeUser;
+const job = (assignedTo: number | null) => ({ id: 100, assignedTo }) as ReportRequest;
+
+describe("Task list visibility", () => {
+  it("should let owners, admins and office staff see every job's tasks", () => {
+    expect(viewableJobAssignees(user(1, "owner"))).toBe("all");
+    expect(viewableJobAssignees(user(2, "admin"))).toBe("all");
+    expect(viewableJobAssignees(user(2, "office"))).toBe("all");
+  });
+
+  it("should limit team leads to their own and their team's jobs", () => {
+    expect(viewableJobAssignees(user(3, "team_lead"), [7, 8])).toEqual([3, 7, 8]);
+    expect(viewableJobAssignees(user(3, "team_lead"))).toEqual([3]);
+  });
+
+  it("should limit sales reps and field crew to their own jobs, and show others nothing", () => {
+    expect(viewableJobAssignees(user(4, "sales_rep"))).toEqual([4]);
+    expect(viewableJobAssignees(user(5, "field_crew"))).toEqual([5]);
+    expect(viewableJobAssignees(user(6, "project_manager"))).toEqual([6]);
+    expect(viewableJobAssignees(user(6, "user"))).toEqual([]);
+    expect(viewableJobAssignees(null)).toEqual([]);
+  });
+
+  it("should agree with canViewJob for every role", () => {
+    const teamMemberIds = [7, 8];
+    const jobs = [job(null), job(3), job(4), job(5), job(7), job(99)];
+    const roles = ["owner", "admin", "team_lead", "sales_rep", "field_crew", "office", "project_manager", "user"];
+
+    for (const role of roles) {
+      const viewer = user(role === "team_lead" ? 3 : role === "sales_rep" ? 4 : 5, role);
+      const assignees = viewableJobAssignees(viewer, teamMemberIds);
+      for (const candidate of jobs) {
+        const inList = assignees === "all" || (candidate.assignedTo !== null && assignees.includes(candidate.assignedTo));
+        expect(inList, `${role} / job assigned to ${candidate.assignedTo}`).toBe(canViewJob(viewer, candidate, teamMemberIds));
+      }
+    }
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import {
+  findLikelyDuplicates,
+  form1099NecCsv,
+  isCardPayment,
+  maskTin,
+  matchVendor,
+  necReportingThreshold,
+  normalizeTin,
+  normalizeVendorName,
+  summarize1099,
+} from "../lib/vendors";
+import type { Vendor } from "../../drizzle/schema";
+
+// Test vendor name matching, merge suggestions and the 1099-NEC totals
+
+const vendor = (overrides: Partial<Vendor>): Vendor => ({
+  id: 1,
+  name: "Vendor",
+  aliases: [],
+  contactName: null,
+  email: null,
+  phone: null,
+  addressLine1: "100 Main St",
+  addressLine2: null,
+  city: "Tampa",
+  state: "FL",
+  zipCode: "33602",
+  legalName: null,
+  tin: "123456789",
+  tinType: "ein",
+  w9OnFile: true,
+  w9ReceivedAt: null,
+  is1099Eligible: true,
+  defaultCategory: null,
+  paymentTermsDays: 30,
+  notes: null,
+  isActive: true,
+  createdBy: null,
+  createdAt: new Date("2026-01-01"),
+  updatedAt: new Date("2026-01-01"),
+  ...overrides,
+});
+
+describe("Vendor names", () => {
+  it("should ignore case, punctuation and company suffixes", () => {
+    expect(normalizeVendorName("ABC SUPPLY CO")).toBe("abc supply");
+    expect(normalizeVendorName("ABC Supply, Inc.")).toBe("abc supply");
+    expect(normalizeVendorName("  Smith & Sons Roofing LLC ")).toBe("smith and sons roofing");
+    expect(normalizeVendorName("Co")).toBe("co");
+  });
+
+  it("should match a typed name to a vendor by name or alias", () => {
+    const known = [
+      { id: 1, name: "ABC Supply", aliases: ["Abc"] },
+      { id: 2, name: "Beacon Roofing Supply", aliases: [] },
+    ];
+
+    expect(matchVendor(known, "ABC SUPPLY CO")?.id).toBe(1);
+    expect(matchVendor(known, "abc")?.id).toBe(1);
+    expect(matchVendor(known, "Beacon Roofing Supply Inc")?.id).toBe(2);
+    expect(matchVendor(known, "ABC Roofing")).toBeNull();
+    expect(matchVendor(known, "   ")).toBeNull();
+  });
+
+  it("should suggest vendors whose names look like the same business", () => {
+    const groups = findLikelyDuplicates([
+      { id: 1, name: "ABC Supply", aliases: [] },
+      { id: 2, name: "ABC SUPPLY CO", aliases: [] },
+      { id: 3, name: "Abc", aliases: [] },
+      { id: 4, name: "Abcor Gutters", aliases: [] },
+      { id: 5, name: "Home Depot", aliases: [] },
+      { id: 6, name: "Home Goods", aliases: [] },
+    ]);
+
+    expect(groups).toEqual([[1, 2, 3]]);
+  });
+});
+
+describe("TINs", () => {
+  it("should keep nine digits and mask all but the last four", () => {
+    expect(normalizeTin("12-3456789")).toBe("123456789");
+    expect(() => normalizeTin("12-34567")).toThrow(/9 digits/);
+    expect(maskTin("123456789", "ein")).toBe("**-***6789");
+    expect(maskTin("123456789", "ssn")).toBe("***-**-6789");
+    expect(maskTin(null, "ein")).toBeNull();
+  });
+});
+
+describe("1099-NEC", () => {
+  it("should use the $2,000 threshold from 2026", () => {
+    expect(necReportingThreshold(2025)).toBe(60000);
+    expect(necReportingThreshold(2026)).toBe(200000);
+  });
+
+  it("should leave card and PayPal payments off Box 1", () => {
+    expect(isCardPayment("credit_card")).toBe(true);
+    expect(isCardPayment("debit_card")).toBe(true);
+    expect(isCardPayment("PayPal")).toBe(true);
+    expect(isCardPayment("check")).toBe(false);
+    expect(isCardPayment(null)).toBe(false);
+  });
+
+  it("should total payments per eligible vendor and flag what's missing", () => {
+    const rows = summarize1099(
+      [
+        vendor({ id: 1, name: "Gulf Coast Framing" }),
+        vendor({ id: 2, name: "Ortiz Roofing", tin: null, w9OnFile: false, city: null }),
+        vendor({ id: 3, name: "ABC Supply", is1099Eligible: false }),
+        vendor({ id: 4, name: "Small Job Electric" }),
+      ],
+      [
+        { vendorId: 1, amount: 1500000, method: "check" },
+        { vendorId: 1, amount: 300000, method: "credit_card" },
+        { vendorId: 2, amount: 250000, method: "ach" },
+        { vendorId: 3, amount: 9000000, method: "check" },
+        { vendorId: 4, amount: 150000, method: "check" },
+      ],
+      2026
+    );
+
+    expect(rows.map(row => [row.vendorId, row.totalPaid, row.cardPaid, row.reportable, row.meetsThreshold])).toEqual([
+      [1, 1800000, 300000, 1500000, true],
+      [2, 250000, 0, 250000, true],
+      [4, 150000, 0, 150000, false],
+    ]);
+    expect(rows[0].missing).toEqual([]);
+    expect(rows[1].missing).toEqual(["W-9", "TIN", "mailing address"]);
+  });
+
+  it("should export only vendors at or over the threshold", () => {
+    const rows = summarize1099(
+      [
+        vendor({ id: 1, name: "Gulf Coast Framing", legalName: "Juan Ortiz", tinType: "ssn" }),
+        vendor({ id: 2, name: "Small Job Electric" }),
+      ],
+      [
+        { vendorId: 1, amount: 1234567, method: "check" },
+        { vendorId: 2, amount: 150000, method: "check" },
+      ],
+      2026
+    );
+
+    expect(form1099NecCsv(rows).split("\n")).toEqual([
+      "Recipient Name,Business Name,TIN Type,Recipient TIN,Address Line 1,Address Line 2,City,State,ZIP,Email,Box 1 Nonemployee Compensation,W-9 On File",
+      "Juan Ortiz,Gulf Coast Framing,SSN,123-45-6789,100 Main St,,Tampa,FL,33602,,12345.67,Yes",
+      "",
+    ]);
+  });
+});
@@ -4,6 +4,9 @@ import cors from "cors";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
 import { registerUploadRoute } from "./upload";
+import { registerStripeWebhookRoute } from "./stripeWebhook";
+import { startScheduler } from "./scheduler";
+import { SCHEDULED_JOBS } from "../lib/scheduledJobs";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic } from "./vite";
@@ -39,6 +42,10 @@ if (missingRequired.length > 0) {
 // ============================================
 const app = express();
 
+// Behind one reverse proxy by default. req.ip is then the address that proxy
+// saw, not whatever the client put first in X-Forwarded-For.
+app.set("trust proxy", Number(process.env.TRUST_PROXY_HOPS ?? 1));
+
 // ============================================
 // CORS Configuration
 // ============================================
@@ -98,6 +105,17 @@ try {
   console.error("[Server] Failed to register upload route:", err);
 }
 
+// ============================================
+// Stripe Webhook (BEFORE body parsers)
+// ============================================
+// Signature verification needs the unparsed request body
+try {
+  registerStripeWebhookRoute(app);
+  console.log("[Server] Stripe webhook registered at /api/stripe/webhook");
+} catch (err) {
+  console.error("[Server] Failed to register Stripe webhook:", err);
+}
+
 // ============================================
 // Body Parsers
 // ============================================
@@ -194,6 +212,7 @@ if (process.env.NODE_ENV === "development") {
       
       server.listen(port, () => {
         console.log(`[Server] Dev server running on http://localhost:${port}/`);
+        startScheduler(SCHEDULED_JOBS);
       });
     } catch (err) {
       console.error("[Server] Failed to start development server:", err);
@@ -215,6 +234,7 @@ if (process.env.NODE_ENV === "development") {
       
       app.listen(port, () => {
         console.log(`[Server] Production server running on port ${port}`);
+        startScheduler(SCHEDULED_JOBS);
       });
     } catch (err) {
       console.error("[Server] Failed to start production server:", err);
@@ -0,0 +1,44 @@
+import { getDb } from "../db";
+import { INSTANCE_ID, runDueJobs, syncScheduledJobs, type ScheduledJobDefinition } from "../lib/scheduler";
+
+const TICK_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Poll for due jobs in the background of the web process.
+ * Runs in production only, so local and preview instances don't send reminders or
+ * import leads against a shared database. Set ENABLE_SCHEDULER=true to run it elsewhere,
+ * or DISABLE_SCHEDULER=true to keep a production instance from running jobs.
+ */
+export function startScheduler(definitions: ScheduledJobDefinition[]) {
+  const enabled = process.env.NODE_ENV === "production" || process.env.ENABLE_SCHEDULER === "true";
+  if (!enabled || process.env.DISABLE_SCHEDULER === "true") {
+    console.log("[Scheduler] Background jobs disabled");
+    return;
+  }
+
+  let synced = false;
+  let ticking = false;
+
+  const tick = async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      const db = await getDb();
+      if (!db) return;
+
+      if (!synced) {
+        await syncScheduledJobs(db, definitions);
+        synced = true;
+      }
+      await runDueJobs(db, definitions);
+    } catch (err) {
+      console.error("[Scheduler] Tick failed:", err);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  console.log(`[Scheduler] Started with ${definitions.length} jobs on ${INSTANCE_ID}`);
+  setTimeout(tick, TICK_INTERVAL_MS).unref();
+  setInterval(tick, TICK_INTERVAL_MS).unref();
+}
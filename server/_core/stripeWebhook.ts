@@ -0,0 +1,35 @@
+import express, { type Express, type Request, type Response } from "express";
+import { getDb } from "../db";
+import { constructStripeEvent, handleStripeEvent } from "../lib/stripePayments";
+
+/**
+ * Register the Stripe webhook endpoint
+ * Needs the raw body for signature verification, so it must be registered
+ * BEFORE the JSON body parser.
+ */
+export function registerStripeWebhookRoute(app: Express) {
+  app.post("/api/stripe/webhook", express.raw({ type: "application/json" }), async (req: Request, res: Response) => {
+    let event;
+    try {
+      event = constructStripeEvent(req.body, req.headers["stripe-signature"]);
+    } catch (err: any) {
+      console.warn("[Stripe] Webhook signature verification failed:", err.message);
+      return res.status(400).json({ error: `Webhook Error: ${err.message}` });
+    }
+
+    try {
+      const db = await getDb();
+      if (!db) {
+        // Non-2xx makes Stripe retry later
+        return res.status(503).json({ error: "Database not available" });
+      }
+
+      const result = await handleStripeEvent(db, event);
+      console.log(`[Stripe] ${event.type} (${event.id}): ${result.message}`);
+      return res.json({ received: true, ...result });
+    } catch (err: any) {
+      console.error(`[Stripe] Failed to process ${event.type} (${event.id}):`, err);
+      return res.status(500).json({ error: "Failed to process event" });
+    }
+  });
+}
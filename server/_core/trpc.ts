@@ -3,6 +3,7 @@ import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import type { TrpcContext } from "./context";
 import { logger } from "../lib/logger";
+import { PipelineTransitionError } from "../lib/pipelineTransitions";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
@@ -21,7 +22,18 @@ const t = initTRPC.context<TrpcContext>().create({
       );
     }
     
-    return shape;
+    // Expose unmet requirements for rejected pipeline moves
+    const pipelineTransition = error.cause instanceof PipelineTransitionError
+      ? { from: error.cause.from, to: error.cause.to, missing: error.cause.missing }
+      : null;
+
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        pipelineTransition,
+      },
+    };
   },
 });
 
@@ -1,12 +1,36 @@
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import { eq, desc, and, gte, lte, sql } from "drizzle-orm";
 import { protectedProcedure, router } from "../../_core/trpc";
 import { getDb } from "../../db";
-import { bankTransactions, reportRequests, billsPayable } from "../../../drizzle/schema";
+import { bankTransactions, reportRequests, billsPayable, categorizationRules } from "../../../drizzle/schema";
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import { categorizeTransactions } from "../../lib/transactionCategorizer";
+import { payBlockedReason } from "../../lib/billApprovals";
+import { postBankTransaction, postBill } from "../../lib/ledger";
+import { confirmMatch, getMatchSuggestions, rejectMatch, suggestMatches } from "../../lib/bankMatcher";
+import { importStatement, insertStatementTransactions } from "../../lib/statementImport";
+import { applyCategorizationRules, applyRulesToTransactions, draftRuleFromCorrection } from "../../lib/categorizationRules";
 
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
 
+// Categorize newly imported transactions by rule, then look for matches among the rest
+async function afterImport(db: any, transactionIds: number[], label: string) {
+  let ruled = 0;
+  let matching = null;
+  try {
+    ruled = (await applyCategorizationRules(db, { transactionIds })).length;
+  } catch (error) {
+    console.error(`[${label}] Categorization rules failed:`, error);
+  }
+  try {
+    matching = await suggestMatches(db, { transactionIds });
+  } catch (error) {
+    console.error(`[${label}] Match suggestions failed:`, error);
+  }
+  return { ruled, matching };
+}
+
 export const bankingRouter = router({
   // ============ AI CATEGORIZATION ============
   
@@ -24,120 +48,7 @@ export const bankingRouter = router({
       if (!db) throw new Error("Database not available");
 
       try {
-        // Get transactions to categorize
-        let transactions;
-        
-        if (input.transactionIds && input.transactionIds.length > 0) {
-          // Use specific transaction IDs if provided
-          const conditions = input.transactionIds.map(id => eq(bankTransactions.id, id));
-          transactions = await db
-            .select()
-            .from(bankTransactions)
-            .where(sql`${bankTransactions.id} IN (${sql.join(input.transactionIds.map(id => sql`${id}`), sql`, `)})`);
-        } else if (input.recategorize) {
-          // Recategorize all pending transactions regardless of current category
-          transactions = await db
-            .select()
-            .from(bankTransactions)
-            .where(eq(bankTransactions.status, "pending"))
-            .limit(input.limit);
-        } else {
-          // Only categorize uncategorized transactions (NULL or empty string)
-          transactions = await db
-            .select()
-            .from(bankTransactions)
-            .where(sql`(${bankTransactions.category} IS NULL OR ${bankTransactions.category} = '')`)
-            .limit(input.limit);
-        }
-
-        console.log('[AI Categorization] Processing', transactions.length, 'transactions');
-
-        const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
-        const categorized = [];
-
-        // Process in batches of 10 for efficiency
-        for (let i = 0; i < transactions.length; i += 10) {
-          const batch = transactions.slice(i, i + 10);
-          
-          const prompt = `You are a financial categorization AI for a roofing company. Categorize these bank transactions.
-
-Available Categories:
-- materials (lumber, shingles, roofing supplies)
-- labor (payroll, contractor payments)
-- equipment (tools, machinery)
-- vehicle (fuel, maintenance, insurance)
-- insurance (business insurance, bonds)
-- utilities (electric, water, internet)
-- marketing (ads, website, SEO)
-- office (supplies, software, rent)
-- professional_services (legal, accounting, consulting)
-- payroll (employee wages, benefits)
-- taxes (income tax, sales tax, property tax)
-- loan_payment (business loans, credit card payments)
-- transfer (internal transfers between accounts)
-- deposit (customer payments, revenue)
-- revenue (sales, income)
-- refund (returns, chargebacks)
-- other (miscellaneous)
-- uncategorized (unable to determine)
-
-Transactions to categorize:
-${batch.map((t, idx) => `${idx + 1}. Amount: $${t.amount}, Description: "${t.description}"`).join('\n')}
-
-Return ONLY valid JSON array in this exact format:
-[
-  {
-    "index": 1,
-    "category": "materials",
-    "confidence": 0.95,
-    "reasoning": "Purchase from roofing supplier"
-  },
-  ...
-]`;
-
-          try {
-            const result = await model.generateContent(prompt);
-            const response = await result.response;
-            const text = response.text();
-            
-            const jsonMatch = text.match(/\[[\s\S]*\]/);
-            if (!jsonMatch) {
-              console.error('[AI Categorization] No JSON found in response');
-              continue;
-            }
-            
-            const categories = JSON.parse(jsonMatch[0]);
-            
-            // Update transactions with AI suggestions
-            for (const cat of categories) {
-              const transaction = batch[cat.index - 1];
-              if (transaction) {
-                await db
-                  .update(bankTransactions)
-                  .set({
-                    category: cat.category,
-                    aiSuggestedCategory: cat.category,
-                    aiConfidence: cat.confidence,
-                    aiReasoning: cat.reasoning,
-                    status: "reconciled",
-                  })
-                  .where(eq(bankTransactions.id, transaction.id));
-                
-                // Auto-bill creation disabled - use CSV import or Match to Bill feature instead
-                // This prevents duplicate bills and gives users more control
-                
-                categorized.push({
-                  id: transaction.id,
-                  category: cat.category,
-                  confidence: cat.confidence,
-                  reasoning: cat.reasoning,
-                });
-              }
-            }
-          } catch (error) {
-            console.error('[AI Categorization] Error processing batch:', error);
-          }
-        }
+        const categorized = await categorizeTransactions(db, input);
 
         console.log('[AI Categorization] Successfully categorized', categorized.length, 'transactions');
 
@@ -174,6 +85,18 @@ Return ONLY valid JSON array in this exact format:
           throw new Error('Transaction not found');
         }
 
+        // A matching rule answers without asking the model
+        const [ruled] = await applyRulesToTransactions(db, [transaction]);
+        if (ruled) {
+          return {
+            success: true,
+            category: ruled.category,
+            confidence: 1,
+            reasoning: `Rule: ${ruled.ruleName}`,
+            ruleId: ruled.ruleId,
+          };
+        }
+
         const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
         
         const prompt = `Categorize this bank transaction for a roofing company.
@@ -211,9 +134,11 @@ Return ONLY valid JSON:
             aiSuggestedCategory: categorization.category,
             aiConfidence: categorization.confidence,
             aiReasoning: categorization.reasoning,
+            ruleId: null,
             status: "reconciled",
           })
           .where(eq(bankTransactions.id, input.transactionId));
+        await postBankTransaction(db, input.transactionId);
 
         return {
           success: true,
@@ -286,9 +211,14 @@ Return ONLY valid JSON:
             id: reportRequests.id,
             fullName: reportRequests.fullName,
           },
+          rule: {
+            id: categorizationRules.id,
+            name: categorizationRules.name,
+          },
         })
         .from(bankTransactions)
         .leftJoin(reportRequests, eq(bankTransactions.projectId, reportRequests.id))
+        .leftJoin(categorizationRules, eq(bankTransactions.ruleId, categorizationRules.id))
         .where(conditions.length > 0 ? and(...conditions) : undefined)
         .orderBy(desc(bankTransactions.transactionDate));
 
@@ -369,6 +299,13 @@ Return ONLY valid JSON:
       const db = await getDb();
       if (!db) throw new Error("Database not available");
 
+      const [before] = await db
+        .select()
+        .from(bankTransactions)
+        .where(eq(bankTransactions.id, input.id))
+        .limit(1);
+      if (!before) throw new Error("Transaction not found");
+
       const updateData: any = {};
       
       if (input.transactionDate) updateData.transactionDate = new Date(input.transactionDate);
@@ -381,13 +318,21 @@ Return ONLY valid JSON:
       if (input.referenceNumber !== undefined) updateData.referenceNumber = input.referenceNumber;
       if (input.notes !== undefined) updateData.notes = input.notes;
 
+      const categoryChanged = input.category !== undefined && input.category !== before.category;
+      if (categoryChanged) updateData.ruleId = null; // Overridden by hand; the rule no longer decides
+
       const [transaction] = await db
         .update(bankTransactions)
         .set(updateData)
         .where(eq(bankTransactions.id, input.id))
         .returning();
 
-      return transaction;
+      await postBankTransaction(db, input.id);
+
+      // Correcting the AI is the moment to teach it: offer a rule for next time
+      const ruleSuggestion = categoryChanged ? draftRuleFromCorrection(before, input.category) : null;
+
+      return { ...transaction, ruleSuggestion };
     }),
 
   // Reconcile transaction (with optional bill matching)
@@ -414,6 +359,11 @@ Return ONLY valid JSON:
           throw new Error("Transaction not found");
         }
 
+        const [bill] = await db.select().from(billsPayable).where(eq(billsPayable.id, input.billId)).limit(1);
+        if (!bill) throw new TRPCError({ code: "NOT_FOUND", message: "Bill not found" });
+        const blocked = payBlockedReason(bill);
+        if (blocked) throw new TRPCError({ code: "BAD_REQUEST", message: blocked });
+
         // Update the bill to mark as paid
         await db
           .update(billsPayable)
@@ -437,26 +387,86 @@ Return ONLY valid JSON:
           .where(eq(bankTransactions.id, input.id))
           .returning();
 
-        return updatedTransaction;
+        // The bill payment credits the clearing account; the bank line clears it against this account's cash
+        await postBill(db, input.billId);
+        await postBankTransaction(db, input.id);
+
+        return { ...updatedTransaction, ruleSuggestion: null };
       }
 
       // Normal categorization without bill matching
+      const [before] = await db
+        .select()
+        .from(bankTransactions)
+        .where(eq(bankTransactions.id, input.id))
+        .limit(1);
+      if (!before) throw new Error("Transaction not found");
+
+      const categoryChanged = input.category !== undefined && input.category !== before.category;
+
       const [transaction] = await db
         .update(bankTransactions)
         .set({
           category: input.category,
           projectId: input.projectId,
           status: "reconciled",
+          ...(categoryChanged ? { ruleId: null } : {}),
         })
         .where(eq(bankTransactions.id, input.id))
         .returning();
 
-      return transaction;
+      await postBankTransaction(db, input.id);
+
+      return { ...transaction, ruleSuggestion: categoryChanged ? draftRuleFromCorrection(before, input.category) : null };
+    }),
+
+  // ============ MATCHING ============
+
+  // Look for payments, invoices, bills and expenses that pending transactions settle
+  suggestMatches: protectedProcedure
+    .input(z.object({ transactionIds: z.array(z.number()).optional() }).optional())
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return suggestMatches(db, { transactionIds: input?.transactionIds });
     }),
 
-  // Bulk import transactions (from CSV/PDF)
+  // Open match suggestions for pending transactions
+  getMatchSuggestions: protectedProcedure
+    .input(z.object({ transactionIds: z.array(z.number()).optional() }).optional())
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return getMatchSuggestions(db, input?.transactionIds);
+    }),
+
+  // Accept a suggestion: reconcile the transaction and settle the matched documents
+  confirmMatch: protectedProcedure
+    .input(z.object({ matchId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return confirmMatch(db, input.matchId, ctx.user.id);
+    }),
+
+  // Dismiss a suggestion so it isn't proposed again for this transaction
+  rejectMatch: protectedProcedure
+    .input(z.object({ matchId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await rejectMatch(db, input.matchId, ctx.user.id);
+      return { success: true };
+    }),
+
+  // Bulk import transactions (from CSV/PDF); rows already imported for the account are skipped
   bulkImport: protectedProcedure
     .input(z.object({
+      accountId: z.number().optional(),
       transactions: z.array(z.object({
         transactionDate: z.string(),
         description: z.string(),
@@ -469,46 +479,81 @@ Return ONLY valid JSON:
       const db = await getDb();
       if (!db) throw new Error("Database not available");
 
-      console.log('[bulkImport] Inserting', input.transactions.length, 'transactions');
-      console.log('[bulkImport] Sample transaction:', input.transactions[0]);
+      console.log('[bulkImport] Importing', input.transactions.length, 'transactions');
       console.log('[bulkImport] User ID:', ctx.user.id);
 
       try {
-        // Validate and transform data before insertion
-        const valuesToInsert = input.transactions.map((t, idx) => {
+        // Validate dates before anything is written
+        const rows = input.transactions.map((t, idx) => {
           const date = new Date(t.transactionDate);
           if (isNaN(date.getTime())) {
             throw new Error(`Invalid date at index ${idx}: ${t.transactionDate}`);
           }
-          
+
           return {
             transactionDate: date,
             description: t.description,
-            amount: t.amount.toString(),
+            amount: t.amount,
             bankAccount: t.bankAccount,
             referenceNumber: t.referenceNumber,
-            status: "pending" as const,
-            createdBy: ctx.user.id,
           };
         });
 
-        console.log('[bulkImport] Sample value to insert:', valuesToInsert[0]);
+        // Deduplicate per statement account; CSV files can mix accounts in one upload
+        const byAccount = new Map<string, typeof rows>();
+        for (const row of rows) {
+          const key = row.bankAccount || '';
+          byAccount.set(key, [...(byAccount.get(key) || []), row]);
+        }
 
-        const transactions = await db
-          .insert(bankTransactions)
-          .values(valuesToInsert)
-          .returning();
+        const transactions = [];
+        let duplicates = 0;
+        for (const [bankAccount, accountRows] of Array.from(byAccount.entries())) {
+          const result = await insertStatementTransactions(db, accountRows, {
+            accountId: input.accountId,
+            bankAccount: bankAccount || null,
+            userId: ctx.user.id,
+          });
+          transactions.push(...result.transactions);
+          duplicates += result.duplicates;
+        }
+
+        console.log('[bulkImport] Inserted', transactions.length, 'transactions, skipped', duplicates, 'duplicates');
 
-        console.log('[bulkImport] Successfully inserted', transactions.length, 'transactions');
-        console.log('[bulkImport] Sample inserted transaction:', transactions[0]);
+        // Rules and matching are conveniences; the import itself has already succeeded
+        const { ruled, matching } = await afterImport(db, transactions.map((t) => t.id), 'bulkImport');
 
-        return { count: transactions.length, transactions };
+        return { count: transactions.length, duplicates, transactions, ruled, matching };
       } catch (error) {
         console.error('[bulkImport] Error during insertion:', error);
         throw error;
       }
     }),
 
+  // Import an OFX/QFX/QBO or CAMT.053 statement file and apply its ledger balance
+  importStatementFile: protectedProcedure
+    .input(z.object({
+      fileName: z.string(),
+      content: z.string().max(20_000_000),
+      accountId: z.number().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const result = await importStatement(db, { ...input, userId: ctx.user.id });
+      const { ruled, matching } = await afterImport(db, result.transactions.map((t) => t.id), 'importStatementFile');
+
+      return {
+        count: result.transactions.length,
+        duplicates: result.statements.reduce((sum, statement) => sum + statement.duplicates, 0),
+        statements: result.statements,
+        transactions: result.transactions,
+        ruled,
+        matching,
+      };
+    }),
+
   // Delete transaction
   delete: protectedProcedure
     .input(z.object({ id: z.number() }))
@@ -519,6 +564,7 @@ Return ONLY valid JSON:
       await db
         .delete(bankTransactions)
         .where(eq(bankTransactions.id, input.id));
+      await postBankTransaction(db, input.id);
 
       return { success: true };
     }),
@@ -556,6 +602,10 @@ Return ONLY valid JSON:
         .where(and(...conditions))
         .returning();
 
+      for (const transaction of deleted) {
+        await postBankTransaction(db, transaction.id);
+      }
+
       return { count: deleted.length };
     }),
 
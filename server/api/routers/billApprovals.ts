@@ -0,0 +1,194 @@
+/**
+ * Bill Approvals Router
+ * Approval rules (owner only), the approver's queue, and approving, rejecting
+ * and commenting on bills. The workflow lives in lib/billApprovals.
+ */
+
+import { protectedProcedure, router } from "../../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { asc, eq, sql } from "drizzle-orm";
+import { getDb } from "../../db";
+import { billApprovalRules, billApprovalTriggerEnum, billsPayable, roleEnum } from "../../../drizzle/schema";
+import { isOwner } from "../../lib/rbac";
+import {
+  approveBill,
+  commentOnBill,
+  evaluateBillApproval,
+  getApprovalQueue,
+  getApprovalQueueCount,
+  getBillApprovalHistory,
+  rejectBill,
+  resubmitBill,
+} from "../../lib/billApprovals";
+
+const toCents = (dollars: number) => Math.round(dollars * 100);
+
+function requireOwner(user: any) {
+  if (!isOwner(user)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Only owners can change bill approval rules" });
+  }
+}
+
+// Re-check open bills against the rules after they change, so the queue reflects them
+async function reevaluateOpenBills(db: any, userId: number) {
+  const open = await db
+    .select({ id: billsPayable.id })
+    .from(billsPayable)
+    .where(sql`${billsPayable.status} IN ('pending', 'overdue') AND ${billsPayable.approvalStatus} IN ('not_required', 'pending')`);
+  for (const bill of open) {
+    await evaluateBillApproval(db, bill.id, userId, { reason: "Approval rules changed", onlyIfRuleChanged: true });
+  }
+}
+
+export const billApprovalsRouter = router({
+  // All approval rules
+  listRules: protectedProcedure.query(async () => {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db.select().from(billApprovalRules).orderBy(asc(billApprovalRules.trigger), asc(billApprovalRules.minAmount), asc(billApprovalRules.id));
+  }),
+
+  // Add or edit a rule; open bills are re-checked against the new rules
+  saveRule: protectedProcedure
+    .input(z.object({
+      id: z.number().optional(),
+      name: z.string().trim().min(1).max(255),
+      trigger: z.enum(billApprovalTriggerEnum.enumValues),
+      minAmount: z.number().positive().nullish(), // Dollars; required for amount rules
+      category: z.string().max(100).nullish(), // Required for category rules
+      firstApproverRoles: z.array(z.enum(roleEnum.enumValues)).min(1),
+      secondApproverRoles: z.array(z.enum(roleEnum.enumValues)).default([]),
+      isActive: z.boolean().default(true),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+      requireOwner(ctx.user);
+
+      if (input.trigger === "amount" && !input.minAmount) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Amount rules need a threshold" });
+      }
+      if (input.trigger === "category" && !input.category) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Category rules need a category" });
+      }
+
+      const values = {
+        name: input.name,
+        trigger: input.trigger,
+        minAmount: input.trigger === "amount" && input.minAmount ? toCents(input.minAmount) : null,
+        category: input.trigger === "category" ? input.category! : null,
+        firstApproverRoles: input.firstApproverRoles,
+        secondApproverRoles: input.secondApproverRoles,
+        isActive: input.isActive,
+      };
+
+      let rule;
+      if (input.id) {
+        [rule] = await db
+          .update(billApprovalRules)
+          .set({ ...values, updatedAt: new Date() })
+          .where(eq(billApprovalRules.id, input.id))
+          .returning();
+        if (!rule) throw new TRPCError({ code: "NOT_FOUND", message: "Approval rule not found" });
+      } else {
+        [rule] = await db.insert(billApprovalRules).values({ ...values, createdBy: ctx.user.id }).returning();
+      }
+
+      await reevaluateOpenBills(db, ctx.user.id);
+      return rule;
+    }),
+
+  // Delete a rule; bills it was holding are re-checked against the rest
+  deleteRule: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+      requireOwner(ctx.user);
+
+      await db.delete(billApprovalRules).where(eq(billApprovalRules.id, input.id));
+      await reevaluateOpenBills(db, ctx.user.id);
+      return { success: true };
+    }),
+
+  // Bills waiting on the current user
+  getQueue: protectedProcedure.query(async ({ ctx }) => {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    return getApprovalQueue(db, ctx.user);
+  }),
+
+  // Count of bills waiting on the current user, for the nav
+  getQueueCount: protectedProcedure.query(async ({ ctx }) => {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    return getApprovalQueueCount(db, ctx.user);
+  }),
+
+  // A bill's approval status, steps and full history
+  getHistory: protectedProcedure
+    .input(z.object({ billId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return getBillApprovalHistory(db, input.billId, ctx.user);
+    }),
+
+  // Approve the bill at its current step
+  approve: protectedProcedure
+    .input(z.object({
+      billId: z.number(),
+      comment: z.string().max(2000).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return approveBill(db, input.billId, ctx.user, input.comment);
+    }),
+
+  // Reject the bill with a reason
+  reject: protectedProcedure
+    .input(z.object({
+      billId: z.number(),
+      reason: z.string().min(1).max(2000),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return rejectBill(db, input.billId, ctx.user, input.reason);
+    }),
+
+  // Send a rejected bill back for approval
+  resubmit: protectedProcedure
+    .input(z.object({
+      billId: z.number(),
+      comment: z.string().max(2000).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return resubmitBill(db, input.billId, ctx.user.id, input.comment);
+    }),
+
+  // Leave a comment on the bill's approval trail
+  comment: protectedProcedure
+    .input(z.object({
+      billId: z.number(),
+      comment: z.string().min(1).max(2000),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await commentOnBill(db, input.billId, ctx.user.id, input.comment);
+      return { success: true };
+    }),
+});
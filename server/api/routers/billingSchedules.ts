@@ -0,0 +1,127 @@
+/**
+ * Billing Schedules Router
+ * Per-job progress billing milestones. Schedules are attached automatically
+ * when a job is approved (see pipelineWorkflow); these procedures let the
+ * office review, adjust and manually bill them.
+ */
+
+import { protectedProcedure, ownerOfficeProcedure, router } from "../../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import { getDb } from "../../db";
+import { billingMilestones, invoices, materialOrders } from "../../../drizzle/schema";
+import { getAuthorizedJob } from "../../lib/rbac";
+import {
+  createBillingSchedule,
+  draftMilestoneInvoice,
+  fireBillingTrigger,
+  getBillingScheduleSummary,
+} from "../../lib/billingSchedule";
+
+const COMPLETED_STATUSES = ["completed", "invoiced", "lien_legal", "closed_deal"];
+
+// Load a milestone and check the user can edit its job
+async function getEditableMilestone(db: any, user: any, milestoneId: number) {
+  const [milestone] = await db.select().from(billingMilestones).where(eq(billingMilestones.id, milestoneId));
+  if (!milestone) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Milestone not found" });
+  }
+  await getAuthorizedJob(db, user, milestone.jobId, "edit");
+  return milestone;
+}
+
+export const billingSchedulesRouter = router({
+  // Milestones with scheduled, invoiced and collected amounts
+  getForJob: protectedProcedure
+    .input(z.object({ jobId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await getAuthorizedJob(db, ctx.user, input.jobId, "view");
+      return getBillingScheduleSummary(db, input.jobId);
+    }),
+
+  // Attach the default schedule to a job approved before schedules existed, catching up on triggers already passed
+  createForJob: ownerOfficeProcedure
+    .input(z.object({ jobId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const job = await getAuthorizedJob(db, ctx.user, input.jobId, "edit");
+      if (!job.totalPrice || parseFloat(job.totalPrice) <= 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Set a contract price before creating a billing schedule" });
+      }
+
+      const created = await createBillingSchedule(db, job, ctx.user.id);
+      if (created.length === 0) {
+        throw new TRPCError({ code: "CONFLICT", message: "This job already has a billing schedule" });
+      }
+
+      const orders = await db.select({ status: materialOrders.status })
+        .from(materialOrders)
+        .where(eq(materialOrders.reportRequestId, job.id));
+      if (orders.some(order => order.status === "delivered")) {
+        await fireBillingTrigger(db, job.id, "materials_delivered", ctx.user.id);
+      }
+      if (COMPLETED_STATUSES.includes(job.status)) {
+        await fireBillingTrigger(db, job.id, "job_completed", ctx.user.id);
+      }
+
+      return { success: true, milestones: created.length };
+    }),
+
+  // Adjust a milestone that hasn't been billed yet
+  updateMilestone: ownerOfficeProcedure
+    .input(z.object({
+      milestoneId: z.number(),
+      name: z.string().min(1).max(100).optional(),
+      percent: z.number().min(0).max(100).optional(),
+      fixedAmount: z.number().int().min(0).nullable().optional(), // Cents; null returns to the percentage
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const milestone = await getEditableMilestone(db, ctx.user, input.milestoneId);
+      if (milestone.status !== "scheduled") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Only milestones that haven't been billed can be changed" });
+      }
+
+      await db.update(billingMilestones)
+        .set({
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.percent !== undefined && { percent: input.percent.toFixed(2) }),
+          ...(input.fixedAmount !== undefined && { fixedAmount: input.fixedAmount }),
+          updatedAt: new Date(),
+        })
+        .where(eq(billingMilestones.id, milestone.id));
+
+      return { success: true };
+    }),
+
+  // Draft the milestone's invoice now instead of waiting for its trigger (also re-bills a cancelled invoice)
+  draftInvoice: ownerOfficeProcedure
+    .input(z.object({ milestoneId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const milestone = await getEditableMilestone(db, ctx.user, input.milestoneId);
+      if (milestone.status === "invoiced" && milestone.invoiceId) {
+        const [invoice] = await db.select({ status: invoices.status }).from(invoices).where(eq(invoices.id, milestone.invoiceId));
+        if (invoice && invoice.status !== "cancelled") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "This milestone has already been invoiced" });
+        }
+      }
+
+      const invoice = await draftMilestoneInvoice(db, milestone, ctx.user.id);
+      if (!invoice) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Nothing left to bill for this milestone" });
+      }
+
+      return { success: true, invoiceId: invoice.id, invoiceNumber: invoice.invoiceNumber };
+    }),
+});
@@ -1,8 +1,12 @@
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import { eq, desc, and, gte, lte, sql, inArray } from "drizzle-orm";
 import { protectedProcedure, router } from "../../_core/trpc";
 import { getDb } from "../../db";
-import { billsPayable, reportRequests, bankTransactions } from "../../../drizzle/schema";
+import { billApprovalRules, billsPayable, reportRequests, bankTransactions, vendors } from "../../../drizzle/schema";
+import { postBill } from "../../lib/ledger";
+import { resolveVendor } from "../../lib/vendors";
+import { canPayBill, evaluateBillApproval, payBlockedReason, strictestRule } from "../../lib/billApprovals";
 
 export const billsRouter = router({
   // Get all bills with optional filters
@@ -12,6 +16,7 @@ export const billsRouter = router({
       startDate: z.string().optional(),
       endDate: z.string().optional(),
       vendorName: z.string().optional(),
+      vendorId: z.number().optional(),
     }).optional())
     .query(async ({ input }) => {
       const db = await getDb();
@@ -35,6 +40,10 @@ export const billsRouter = router({
         conditions.push(sql`${billsPayable.vendorName} ILIKE ${`%${input.vendorName}%`}`);
       }
 
+      if (input?.vendorId) {
+        conditions.push(eq(billsPayable.vendorId, input.vendorId));
+      }
+
       const bills = await db
         .select({
           bill: billsPayable,
@@ -71,11 +80,12 @@ export const billsRouter = router({
   create: protectedProcedure
     .input(z.object({
       billNumber: z.string().optional(),
+      vendorId: z.number().optional(),
       vendorName: z.string(),
       vendorEmail: z.string().optional(),
       vendorPhone: z.string().optional(),
       billDate: z.string(),
-      dueDate: z.string(),
+      dueDate: z.string().optional(), // Defaults to the bill date plus the vendor's payment terms
       amount: z.number(),
       taxAmount: z.number().default(0),
       category: z.string().optional(),
@@ -103,19 +113,28 @@ export const billsRouter = router({
 
       const totalAmount = input.amount + input.taxAmount;
 
+      // Link the bill to its vendor record and fill in the vendor's defaults
+      const vendorId = input.vendorId ?? (await resolveVendor(db, input.vendorName, ctx.user.id))?.id;
+      const [vendor] = vendorId ? await db.select().from(vendors).where(eq(vendors.id, vendorId)) : [];
+      const billDate = new Date(input.billDate);
+      const dueDate = input.dueDate
+        ? new Date(input.dueDate)
+        : new Date(billDate.getTime() + (vendor?.paymentTermsDays ?? 30) * 24 * 60 * 60 * 1000);
+
       const [bill] = await db
         .insert(billsPayable)
         .values({
           billNumber,
-          vendorName: input.vendorName,
-          vendorEmail: input.vendorEmail,
-          vendorPhone: input.vendorPhone,
-          billDate: new Date(input.billDate),
-          dueDate: new Date(input.dueDate),
+          vendorId: vendor?.id,
+          vendorName: vendor?.name ?? input.vendorName,
+          vendorEmail: input.vendorEmail ?? vendor?.email ?? undefined,
+          vendorPhone: input.vendorPhone ?? vendor?.phone ?? undefined,
+          billDate,
+          dueDate,
           amount: input.amount.toString(),
           taxAmount: input.taxAmount.toString(),
           totalAmount: totalAmount.toString(),
-          category: input.category,
+          category: input.category ?? vendor?.defaultCategory ?? undefined,
           projectId: input.projectId,
           lineItems: input.lineItems,
           notes: input.notes,
@@ -125,13 +144,14 @@ export const billsRouter = router({
         })
         .returning();
 
-      return bill;
+      return (await evaluateBillApproval(db, bill.id, ctx.user.id)) ?? bill;
     }),
 
   // Update bill
   update: protectedProcedure
     .input(z.object({
       id: z.number(),
+      vendorId: z.number().optional(),
       vendorName: z.string().optional(),
       vendorEmail: z.string().optional(),
       vendorPhone: z.string().optional(),
@@ -146,13 +166,31 @@ export const billsRouter = router({
       notes: z.string().optional(),
       attachmentUrl: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const db = await getDb();
       if (!db) throw new Error("Database not available");
 
+      const [existing] = await db.select().from(billsPayable).where(eq(billsPayable.id, input.id)).limit(1);
+      if (!existing) throw new TRPCError({ code: "NOT_FOUND", message: "Bill not found" });
+
+      // Approval and payment go through the approval workflow and markAsPaid
+      if (input.status === "paid") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Use Mark as Paid to record a payment" });
+      }
+      if (input.status === "approved" && !canPayBill(existing)) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "This bill has to be approved through the approval queue" });
+      }
+
       const updateData: any = {};
       
-      if (input.vendorName) updateData.vendorName = input.vendorName;
+      if (input.vendorId !== undefined || input.vendorName) {
+        const [vendor] = input.vendorId !== undefined
+          ? await db.select().from(vendors).where(eq(vendors.id, input.vendorId))
+          : [await resolveVendor(db, input.vendorName, ctx.user.id)];
+        if (!vendor) throw new Error("Vendor not found");
+        updateData.vendorId = vendor.id;
+        updateData.vendorName = vendor.name;
+      }
       if (input.vendorEmail !== undefined) updateData.vendorEmail = input.vendorEmail;
       if (input.vendorPhone !== undefined) updateData.vendorPhone = input.vendorPhone;
       if (input.billDate) updateData.billDate = new Date(input.billDate);
@@ -160,15 +198,13 @@ export const billsRouter = router({
       if (input.amount !== undefined) {
         updateData.amount = input.amount.toString();
         // Recalculate total if amount changes
-        const [current] = await db.select().from(billsPayable).where(eq(billsPayable.id, input.id)).limit(1);
-        const taxAmount = input.taxAmount !== undefined ? input.taxAmount : Number(current.taxAmount);
+        const taxAmount = input.taxAmount !== undefined ? input.taxAmount : Number(existing.taxAmount);
         updateData.totalAmount = (input.amount + taxAmount).toString();
       }
       if (input.taxAmount !== undefined) {
         updateData.taxAmount = input.taxAmount.toString();
         // Recalculate total if tax changes
-        const [current] = await db.select().from(billsPayable).where(eq(billsPayable.id, input.id)).limit(1);
-        const amount = input.amount !== undefined ? input.amount : Number(current.amount);
+        const amount = input.amount !== undefined ? input.amount : Number(existing.amount);
         updateData.totalAmount = (amount + input.taxAmount).toString();
       }
       if (input.status) updateData.status = input.status;
@@ -178,12 +214,24 @@ export const billsRouter = router({
       if (input.notes !== undefined) updateData.notes = input.notes;
       if (input.attachmentUrl !== undefined) updateData.attachmentUrl = input.attachmentUrl;
 
-      const [bill] = await db
+      const [updated] = await db
         .update(billsPayable)
         .set(updateData)
         .where(eq(billsPayable.id, input.id))
         .returning();
 
+      // Changing what was approved restarts sign-off
+      const changed = [
+        updated.totalAmount !== existing.totalAmount && "amount",
+        updated.category !== existing.category && "category",
+        updated.projectId !== existing.projectId && "job",
+      ].filter(Boolean);
+      const bill = changed.length > 0
+        ? (await evaluateBillApproval(db, input.id, ctx.user.id, { reason: `Bill ${changed.join(", ")} changed` })) ?? updated
+        : updated;
+
+      await postBill(db, input.id);
+
       return bill;
     }),
 
@@ -199,6 +247,11 @@ export const billsRouter = router({
       const db = await getDb();
       if (!db) throw new Error("Database not available");
 
+      const [current] = await db.select().from(billsPayable).where(eq(billsPayable.id, input.id)).limit(1);
+      if (!current) throw new TRPCError({ code: "NOT_FOUND", message: "Bill not found" });
+      const blocked = payBlockedReason(current);
+      if (blocked) throw new TRPCError({ code: "BAD_REQUEST", message: blocked });
+
       const [bill] = await db
         .update(billsPayable)
         .set({
@@ -210,6 +263,8 @@ export const billsRouter = router({
         .where(eq(billsPayable.id, input.id))
         .returning();
 
+      await postBill(db, input.id);
+
       return bill;
     }),
 
@@ -225,6 +280,7 @@ export const billsRouter = router({
       await db
         .delete(billsPayable)
         .where(eq(billsPayable.id, input.id));
+      await postBill(db, input.id);
 
       return { success: true };
     }),
@@ -245,6 +301,9 @@ export const billsRouter = router({
       await db
         .delete(billsPayable)
         .where(inArray(billsPayable.id, input.ids));
+      for (const id of input.ids) {
+        await postBill(db, id);
+      }
 
       return { 
         success: true,
@@ -252,21 +311,25 @@ export const billsRouter = router({
       };
     }),
 
-  // Get vendors (distinct)
+  // Get active vendors with the defaults a new bill picks up
   getVendors: protectedProcedure.query(async () => {
     const db = await getDb();
     if (!db) throw new Error("Database not available");
 
-    const vendors = await db
-      .selectDistinct({ 
-        vendorName: billsPayable.vendorName,
-        vendorEmail: billsPayable.vendorEmail,
-        vendorPhone: billsPayable.vendorPhone,
+    const activeVendors = await db
+      .select({
+        id: vendors.id,
+        vendorName: vendors.name,
+        vendorEmail: vendors.email,
+        vendorPhone: vendors.phone,
+        defaultCategory: vendors.defaultCategory,
+        paymentTermsDays: vendors.paymentTermsDays,
       })
-      .from(billsPayable)
-      .orderBy(billsPayable.vendorName);
+      .from(vendors)
+      .where(eq(vendors.isActive, true))
+      .orderBy(vendors.name);
 
-    return vendors;
+    return activeVendors;
   }),
 
   // Get overdue bills
@@ -355,7 +418,20 @@ export const billsRouter = router({
       const db = await getDb();
       if (!db) throw new Error("Database not available");
 
+      // Bills an approval rule covers have to go through the queue, not arrive paid or approved
+      const rules = await db.select().from(billApprovalRules).where(eq(billApprovalRules.isActive, true));
+      const needsApproval = input.bills
+        .filter(bill => (bill.status === "paid" || bill.status === "approved") && strictestRule(rules, { ...bill, projectId: null }))
+        .map(bill => bill.billNumber);
+      if (needsApproval.length > 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Bill${needsApproval.length === 1 ? "" : "s"} ${needsApproval.join(", ")} need${needsApproval.length === 1 ? "s" : ""} approval and can't be imported as paid or approved; import ${needsApproval.length === 1 ? "it" : "them"} as pending`,
+        });
+      }
+
       const imported = [];
+      const knownVendors = await db.select({ id: vendors.id, name: vendors.name, aliases: vendors.aliases }).from(vendors);
 
       for (const bill of input.bills) {
         // Check if bill already exists
@@ -370,11 +446,14 @@ export const billsRouter = router({
           continue;
         }
 
+        const vendor = await resolveVendor(db, bill.vendorName, ctx.user.id, knownVendors);
+
         const [newBill] = await db
           .insert(billsPayable)
           .values({
             billNumber: bill.billNumber,
-            vendorName: bill.vendorName,
+            vendorId: vendor?.id,
+            vendorName: vendor?.name ?? bill.vendorName,
             billDate: new Date(bill.billDate),
             dueDate: new Date(bill.dueDate),
             amount: bill.amount,
@@ -388,6 +467,10 @@ export const billsRouter = router({
           })
           .returning();
 
+        if (newBill.status !== "paid") {
+          await evaluateBillApproval(db, newBill.id, ctx.user.id, { reason: "Imported" });
+        }
+        await postBill(db, newBill.id);
         imported.push(newBill);
       }
 
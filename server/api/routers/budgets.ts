@@ -0,0 +1,115 @@
+/**
+ * Budgets Router
+ * Monthly budgets per expense category (set by owners), copying last year's
+ * budgets forward, and the budget-vs-actual report. Spend totals and the
+ * 90% alert live in lib/budgets.
+ */
+
+import { ownerOfficeProcedure, router } from "../../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { and, eq } from "drizzle-orm";
+import { getDb } from "../../db";
+import { budgets, expenseCategoryEnum } from "../../../drizzle/schema";
+import { isOwner } from "../../lib/rbac";
+import { copyBudgetsForward, getBudgetReport, listBudgets, loadSpend, monthRange } from "../../lib/budgets";
+
+const toCents = (dollars: number) => Math.round(dollars * 100);
+
+const yearInput = z.number().int().min(2000).max(2100);
+const monthInput = z.number().int().min(1).max(12);
+
+function requireOwner(user: any) {
+  if (!isOwner(user)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Only owners can change budgets" });
+  }
+}
+
+export const budgetsRouter = router({
+  // Every budget set for a year
+  list: ownerOfficeProcedure
+    .input(z.object({ year: yearInput }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const rows = await listBudgets(db, input.year);
+      return rows.map(({ budget, alertedAt }: any) => ({ ...budget, alertedAt }));
+    }),
+
+  // Set or clear budgets; a null amount removes that month's budget
+  save: ownerOfficeProcedure
+    .input(z.object({
+      year: yearInput,
+      entries: z.array(z.object({
+        category: z.enum(expenseCategoryEnum.enumValues),
+        month: monthInput,
+        amount: z.number().min(0).nullable(), // Dollars
+      })).min(1).max(12 * expenseCategoryEnum.enumValues.length),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      requireOwner(ctx.user);
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      let saved = 0;
+      let removed = 0;
+      for (const entry of input.entries) {
+        const key = and(eq(budgets.category, entry.category), eq(budgets.year, input.year), eq(budgets.month, entry.month));
+        if (entry.amount === null) {
+          const deleted = await db.delete(budgets).where(key).returning({ id: budgets.id });
+          removed += deleted.length;
+          continue;
+        }
+        const amount = toCents(entry.amount);
+        await db.insert(budgets)
+          .values({ category: entry.category, year: input.year, month: entry.month, amount, createdBy: ctx.user.id })
+          .onConflictDoUpdate({
+            target: [budgets.category, budgets.year, budgets.month],
+            set: { amount, updatedAt: new Date() },
+          });
+        saved++;
+      }
+
+      return { saved, removed };
+    }),
+
+  // Carry last year's budgets into this year, month for month
+  copyForward: ownerOfficeProcedure
+    .input(z.object({ year: yearInput, overwrite: z.boolean().default(false) }))
+    .mutation(async ({ ctx, input }) => {
+      requireOwner(ctx.user);
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const result = await copyBudgetsForward(db, { year: input.year, overwrite: input.overwrite, userId: ctx.user.id });
+      if (result.created + result.updated + result.skipped === 0) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `No budgets were set for ${input.year - 1}` });
+      }
+      return result;
+    }),
+
+  // Budget vs. actual for each category in a month, with year-to-date totals
+  report: ownerOfficeProcedure
+    .input(z.object({ year: yearInput, month: monthInput }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return getBudgetReport(db, input.year, input.month);
+    }),
+
+  // The expenses, bank transactions and bills behind one category's actual
+  getSpend: ownerOfficeProcedure
+    .input(z.object({ year: yearInput, month: monthInput, category: z.enum(expenseCategoryEnum.enumValues) }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const { start, end } = monthRange(input.year, input.month);
+      const spend = await loadSpend(db, start, end);
+      return spend
+        .filter(entry => entry.category === input.category)
+        .sort((a, b) => b.date.getTime() - a.date.getTime());
+    }),
+});
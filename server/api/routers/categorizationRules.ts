@@ -0,0 +1,152 @@
+import { z } from "zod";
+import { asc, desc, eq } from "drizzle-orm";
+import { protectedProcedure, router } from "../../_core/trpc";
+import { getDb } from "../../db";
+import { bankAccounts, bankTransactions, categorizationRules, reportRequests } from "../../../drizzle/schema";
+import { applyCategorizationRules, ruleMatches, validateRulePattern } from "../../lib/categorizationRules";
+
+const ruleInput = z.object({
+  name: z.string().min(1).max(255),
+  priority: z.number().int().default(100),
+  isActive: z.boolean().default(true),
+  matchType: z.enum(["contains", "regex"]).default("contains"),
+  pattern: z.string().max(255).nullable().optional(),
+  minAmount: z.number().nonnegative().nullable().optional(),
+  maxAmount: z.number().nonnegative().nullable().optional(),
+  accountId: z.number().nullable().optional(),
+  sign: z.enum(["any", "inflow", "outflow"]).default("any"),
+  setCategory: z.string().min(1).max(100),
+  setProjectId: z.number().nullable().optional(),
+  setNotes: z.string().nullable().optional(),
+});
+
+type RuleInput = z.infer<typeof ruleInput>;
+
+// Shape form input into column values, refusing rules that can't work
+function ruleValues(input: RuleInput) {
+  validateRulePattern(input.matchType, input.pattern);
+  if (input.minAmount != null && input.maxAmount != null && input.minAmount > input.maxAmount) {
+    throw new Error("Minimum amount is greater than the maximum");
+  }
+  if (!input.pattern && input.minAmount == null && input.maxAmount == null && input.accountId == null && input.sign === "any") {
+    throw new Error("A rule needs at least one condition");
+  }
+
+  return {
+    ...input,
+    pattern: input.pattern?.trim() || null,
+    minAmount: input.minAmount != null ? input.minAmount.toFixed(2) : null,
+    maxAmount: input.maxAmount != null ? input.maxAmount.toFixed(2) : null,
+    accountId: input.accountId ?? null,
+    setProjectId: input.setProjectId ?? null,
+    setNotes: input.setNotes?.trim() || null,
+  };
+}
+
+export const categorizationRulesRouter = router({
+  // All rules in the order they run
+  getAll: protectedProcedure.query(async () => {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select({
+        rule: categorizationRules,
+        accountName: bankAccounts.accountName,
+        projectName: reportRequests.fullName,
+      })
+      .from(categorizationRules)
+      .leftJoin(bankAccounts, eq(categorizationRules.accountId, bankAccounts.id))
+      .leftJoin(reportRequests, eq(categorizationRules.setProjectId, reportRequests.id))
+      .orderBy(asc(categorizationRules.priority), asc(categorizationRules.id));
+  }),
+
+  create: protectedProcedure
+    .input(ruleInput)
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [rule] = await db
+        .insert(categorizationRules)
+        .values({ ...ruleValues(input), createdBy: ctx.user.id })
+        .returning();
+
+      return rule;
+    }),
+
+  update: protectedProcedure
+    .input(ruleInput.extend({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const { id, ...values } = input;
+      const [rule] = await db
+        .update(categorizationRules)
+        .set({ ...ruleValues(values), updatedAt: new Date() })
+        .where(eq(categorizationRules.id, id))
+        .returning();
+      if (!rule) throw new Error("Rule not found");
+
+      return rule;
+    }),
+
+  // Transactions it categorized keep their category; only the link to the rule goes
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await db.delete(categorizationRules).where(eq(categorizationRules.id, input.id));
+      return { success: true };
+    }),
+
+  // Which recent transactions a rule would match, before saving it
+  preview: protectedProcedure
+    .input(ruleInput.pick({ matchType: true, pattern: true, minAmount: true, maxAmount: true, accountId: true, sign: true }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      validateRulePattern(input.matchType, input.pattern);
+      const conditions = {
+        matchType: input.matchType,
+        pattern: input.pattern?.trim() || null,
+        minAmount: input.minAmount != null ? String(input.minAmount) : null,
+        maxAmount: input.maxAmount != null ? String(input.maxAmount) : null,
+        accountId: input.accountId ?? null,
+        sign: input.sign,
+      };
+
+      const recent = await db
+        .select()
+        .from(bankTransactions)
+        .where(input.accountId ? eq(bankTransactions.accountId, input.accountId) : undefined)
+        .orderBy(desc(bankTransactions.transactionDate))
+        .limit(500);
+
+      const matches = recent.filter((transaction) => ruleMatches(conditions, transaction));
+      return {
+        checked: recent.length,
+        matched: matches.length,
+        samples: matches.slice(0, 10).map((t) => ({
+          id: t.id,
+          transactionDate: t.transactionDate,
+          description: t.description,
+          amount: t.amount,
+          category: t.category,
+        })),
+      };
+    }),
+
+  // Run the rules over pending, uncategorized transactions now
+  applyToPending: protectedProcedure.mutation(async () => {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const applied = await applyCategorizationRules(db);
+    return { applied: applied.length };
+  }),
+});
@@ -1,9 +1,11 @@
 import { z } from "zod";
 import { eq, and, desc, isNull } from "drizzle-orm";
 import { getDb } from "../../db";
-import { changeOrders, reportRequests, activities, users } from "../../../drizzle/schema";
+import { changeOrders, reportRequests, activities, users, documents } from "../../../drizzle/schema";
 import { protectedProcedure, router } from "../../_core/trpc";
 import { TRPCError } from "@trpc/server";
+import { logEditHistory } from "../../lib/editHistory";
+import { appendSupplementNumber } from "../../lib/supplementBuilder";
 
 export const changeOrdersRouter = router({
   // Get all change orders for a job
@@ -22,6 +24,8 @@ export const changeOrdersRouter = router({
           amount: changeOrders.amount,
           status: changeOrders.status,
           invoiceId: changeOrders.invoiceId,
+          documentId: changeOrders.documentId,
+          documentUrl: documents.fileUrl,
           approvedBy: changeOrders.approvedBy,
           approvedAt: changeOrders.approvedAt,
           createdBy: changeOrders.createdBy,
@@ -31,6 +35,7 @@ export const changeOrdersRouter = router({
         })
         .from(changeOrders)
         .leftJoin(users, eq(changeOrders.approvedBy, users.id))
+        .leftJoin(documents, eq(changeOrders.documentId, documents.id))
         .where(eq(changeOrders.jobId, input.jobId))
         .orderBy(desc(changeOrders.createdAt));
 
@@ -160,8 +165,38 @@ export const changeOrdersRouter = router({
         })
         .where(eq(changeOrders.id, input.id));
 
-      // Log activity
       const amount = order.amount / 100;
+
+      // Carrier-approved supplements are recorded on the job's supplement list
+      if (order.type === "insurance_supplement") {
+        const [job] = await db
+          .select()
+          .from(reportRequests)
+          .where(eq(reportRequests.id, order.jobId))
+          .limit(1);
+
+        if (job) {
+          const updated = appendSupplementNumber(job.supplementNumbers, job.extrasCharged, {
+            id: `co-${order.id}`,
+            description: order.description,
+            amount: amount.toFixed(2),
+          });
+
+          await db
+            .update(reportRequests)
+            .set({
+              supplementNumbers: updated.supplementNumbers,
+              extrasCharged: updated.extrasCharged.toFixed(2),
+              updatedAt: new Date(),
+            })
+            .where(eq(reportRequests.id, order.jobId));
+
+          await logEditHistory(db, order.jobId, ctx.user.id, "supplementNumbers", job.supplementNumbers || "", updated.supplementNumbers, "update", ctx);
+          await logEditHistory(db, order.jobId, ctx.user.id, "extrasCharged", String(job.extrasCharged || ""), updated.extrasCharged.toFixed(2), "update", ctx);
+        }
+      }
+
+      // Log activity
       await db.insert(activities).values({
         reportRequestId: order.jobId,
         userId: ctx.user.id,
@@ -8,7 +8,7 @@ import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../../db";
 import { commissionRequests, bonusTiers, users, reportRequests, documents } from "../../../drizzle/schema";
-import { eq, and, gte, sql, desc } from "drizzle-orm";
+import { eq, and, gte, sql, desc, isNotNull, isNull } from "drizzle-orm";
 import { isOwner } from "../../lib/rbac";
 
 /**
@@ -244,6 +244,7 @@ export const commissionsRouter = router({
         requestId: z.number(),
         approved: z.boolean(),
         reason: z.string().optional(),
+        amount: z.number().nonnegative().optional(), // Commission owed in dollars; charged to the job's cost
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -293,6 +294,7 @@ export const commissionsRouter = router({
         .set({
           status: newStatus,
           denialReason: input.approved ? null : input.reason,
+          amount: input.approved && input.amount !== undefined ? Math.round(input.amount * 100) : null,
         })
         .where(eq(commissionRequests.id, input.requestId));
 
@@ -374,6 +376,93 @@ export const commissionsRouter = router({
     return requestsWithDocs;
   }),
 
+  /**
+   * Get approved commissions not yet paid out (Owner only)
+   * These are the commission payouts in the cash forecast
+   */
+  getUnpaidApproved: protectedProcedure.query(async ({ ctx }) => {
+    const db = await getDb();
+    if (!db) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Database connection failed",
+      });
+    }
+
+    if (!isOwner(ctx.user)) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "Only owners can view commission payouts",
+      });
+    }
+
+    return db
+      .select({
+        requestId: commissionRequests.id,
+        jobId: commissionRequests.jobId,
+        amount: commissionRequests.amount,
+        createdAt: commissionRequests.createdAt,
+        userName: users.name,
+        jobName: reportRequests.fullName,
+      })
+      .from(commissionRequests)
+      .innerJoin(users, eq(commissionRequests.userId, users.id))
+      .innerJoin(reportRequests, eq(commissionRequests.jobId, reportRequests.id))
+      .where(
+        and(
+          eq(commissionRequests.status, 'approved'),
+          isNotNull(commissionRequests.amount),
+          isNull(commissionRequests.paidAt)
+        )
+      )
+      .orderBy(commissionRequests.createdAt);
+  }),
+
+  /**
+   * Record that an approved commission has been paid out (Owner only)
+   */
+  markPaid: protectedProcedure
+    .input(z.object({
+      requestId: z.number(),
+      paidAt: z.string().optional(), // YYYY-MM-DD; defaults to today
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Database connection failed",
+        });
+      }
+
+      if (!isOwner(ctx.user)) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Only owners can record commission payouts",
+        });
+      }
+
+      const [updated] = await db
+        .update(commissionRequests)
+        .set({ paidAt: input.paidAt ? new Date(`${input.paidAt}T12:00:00`) : new Date() })
+        .where(
+          and(
+            eq(commissionRequests.id, input.requestId),
+            eq(commissionRequests.status, 'approved')
+          )
+        )
+        .returning();
+
+      if (!updated) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Approved commission not found",
+        });
+      }
+
+      return { success: true, message: "Commission marked as paid" };
+    }),
+
   /**
    * Get all commission requests for current user
    * Shows history of submitted, approved, and denied requests
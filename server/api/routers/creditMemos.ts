@@ -0,0 +1,97 @@
+/**
+ * Credit Memos Router
+ * Issue, apply and void credit memos on a job's invoices. The rules and the
+ * ledger side live in lib/invoiceAdjustments.
+ */
+
+import { protectedProcedure, ownerOfficeProcedure, router } from "../../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import { getDb } from "../../db";
+import { creditMemos } from "../../../drizzle/schema";
+import { getAuthorizedJob } from "../../lib/rbac";
+import { applyCreditMemo, createCreditMemo, getJobCreditMemos, voidCreditMemo } from "../../lib/invoiceAdjustments";
+
+const toCents = (dollars: number) => Math.round(dollars * 100);
+
+async function getAuthorizedMemo(db: any, user: any, creditMemoId: number) {
+  const [memo] = await db.select().from(creditMemos).where(eq(creditMemos.id, creditMemoId));
+  if (!memo) throw new TRPCError({ code: "NOT_FOUND", message: "Credit memo not found" });
+  await getAuthorizedJob(db, user, memo.reportRequestId, "edit");
+  return memo;
+}
+
+export const creditMemosRouter = router({
+  // A job's credit memos with their applications and unapplied remainder
+  getJobCreditMemos: protectedProcedure
+    .input(z.object({ jobId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await getAuthorizedJob(db, ctx.user, input.jobId, "view");
+      return getJobCreditMemos(db, input.jobId);
+    }),
+
+  // Issue a memo, optionally applying it to invoices right away
+  create: ownerOfficeProcedure
+    .input(z.object({
+      jobId: z.number(),
+      amount: z.number().positive(), // Dollars
+      reason: z.string().min(1).max(500),
+      memoDate: z.string().optional(), // ISO date; defaults to today
+      applications: z.array(z.object({
+        invoiceId: z.number(),
+        amount: z.number().positive(), // Dollars
+      })).default([]),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await getAuthorizedJob(db, ctx.user, input.jobId, "edit");
+
+      return createCreditMemo(db, {
+        jobId: input.jobId,
+        amount: toCents(input.amount),
+        reason: input.reason.trim(),
+        memoDate: input.memoDate ? new Date(input.memoDate) : new Date(),
+        applications: input.applications.map(application => ({ invoiceId: application.invoiceId, amount: toCents(application.amount) })),
+      }, ctx.user.id);
+    }),
+
+  // Apply some of a memo's remaining credit to another invoice on the job
+  apply: ownerOfficeProcedure
+    .input(z.object({
+      creditMemoId: z.number(),
+      invoiceId: z.number(),
+      amount: z.number().positive(), // Dollars
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await getAuthorizedMemo(db, ctx.user, input.creditMemoId);
+      const application = await applyCreditMemo(db, {
+        creditMemoId: input.creditMemoId,
+        invoiceId: input.invoiceId,
+        amount: toCents(input.amount),
+      }, ctx.user.id);
+
+      return { success: true, application };
+    }),
+
+  // Void a memo; the invoices it paid down owe that amount again
+  void: ownerOfficeProcedure
+    .input(z.object({ creditMemoId: z.number(), reason: z.string().min(1).max(500) }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await getAuthorizedMemo(db, ctx.user, input.creditMemoId);
+      const memo = await voidCreditMemo(db, input.creditMemoId, input.reason.trim(), ctx.user.id);
+
+      return { success: true, memo };
+    }),
+});
@@ -139,6 +139,46 @@ export const documentsRouter = router({
       return docs;
     }),
 
+  // Show or hide a photo/document in the customer portal
+  setCustomerVisible: protectedProcedure
+    .input(z.object({
+      documentId: z.number(),
+      customerVisible: z.boolean(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [doc] = await db.select().from(documents).where(eq(documents.id, input.documentId));
+      if (!doc) throw new Error("Document not found");
+
+      const [lead] = await db.select().from(reportRequests).where(eq(reportRequests.id, doc.reportRequestId));
+      if (!lead) throw new Error("Lead not found");
+
+      const user = ctx.user;
+      const teamMemberIds = user && isTeamLead(user) ? await getTeamMemberIds(db, user.id) : [];
+      if (!canEditJob(user, lead, teamMemberIds)) {
+        throw new Error("You don't have permission to edit documents for this job");
+      }
+
+      await db.update(documents)
+        .set({ customerVisible: input.customerVisible })
+        .where(eq(documents.id, input.documentId));
+
+      await logEditHistory(
+        db,
+        doc.reportRequestId,
+        user!.id,
+        "document.customerVisible",
+        String(doc.customerVisible),
+        `${input.customerVisible} (${doc.fileName})`,
+        "update",
+        ctx
+      );
+
+      return { success: true };
+    }),
+
   // Delete document (Owner only)
   deleteDocument: protectedProcedure
     .input(z.object({ documentId: z.number() }))
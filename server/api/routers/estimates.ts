@@ -1,12 +1,29 @@
 /**
  * Estimates Router
- * Handles AI-powered Xactimate Scope of Loss analysis using Google Gemini
+ * Handles Xactimate Scope of Loss analysis: the rule-based parser first,
+ * Google Gemini for anything it can't read
  */
 
 import { router, protectedProcedure } from "../../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import { getDb } from "../../db";
+import { insuranceScopes, documents, materialOrders, users } from "../../../drizzle/schema";
+import { eq, and, desc, ne, max } from "drizzle-orm";
+import { getAuthorizedJob } from "../../lib/rbac";
+import {
+  auditResultSchema,
+  compareScopeToEstimate,
+  toCents,
+  type AuditResult,
+  type MaterialOrderLine,
+  type ScopeLineItem,
+} from "../../lib/insuranceScope";
+import { parseScopeText, buildAuditResult, formatUnparsedSections, SCOPE_RULES_VERSION } from "../../lib/scopeParser";
+
+const SCOPE_MODEL = "gemini-2.0-flash-exp";
+const LLM_PARSER_VERSION = `llm:${SCOPE_MODEL}`;
 
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
 
@@ -34,6 +51,7 @@ When given a Scope of Loss text or PDF content:
 3. **Parse Line Items:**
    - Extract the quantity (QTY), Unit Price, and Total.
    - Flag "Depreciation" amounts.
+   - Return every priced line in "line_items" with its code (e.g. "RFG 300S"), description, quantity, unit (SQ, LF, SF, EA), unit_price, rcv, depreciation and acv.
 4. **Audit for "Red Flags" (The "Scope Gap"):**
    - **Missing O&P:** If the total is >$10k or includes >3 trades (e.g., RFG, EXT, PNT), check if "Overhead and Profit" is included. If not, FLAG IT as "Missing O&P".
    - **Missing Components:**
@@ -44,77 +62,274 @@ When given a Scope of Loss text or PDF content:
 You must return the analysis in the specified JSON format. Be precise with money.
 `;
 
-const auditResultSchema = z.object({
-  claim_info: z.object({
-    carrier: z.string(),
-    claim_number: z.string(),
-    loss_date: z.string(),
-    total_rcv: z.number(),
-    total_acv: z.number(),
-    deductible: z.number(),
-  }),
-  line_items_summary: z.array(
-    z.object({
-      category: z.string(),
-      total_cost: z.number(),
-      description: z.string(),
-    })
-  ),
-  audit_flags: z.array(
-    z.object({
-      severity: z.enum(["HIGH", "MEDIUM", "LOW"]),
-      issue: z.string(),
-      description: z.string(),
-    })
-  ),
-  estimator_notes: z.string(),
-});
+// Run the scope text through Gemini and validate the result shape
+async function analyzeWithGemini(text: string): Promise<AuditResult> {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Gemini API key not configured",
+    });
+  }
+
+  try {
+    const model = genAI.getGenerativeModel({
+      model: SCOPE_MODEL,
+      systemInstruction: SYSTEM_PROMPT,
+    });
+
+    const result = await model.generateContent(
+      `Here is the Scope of Loss text to analyze:\n\n${text}\n\nPlease respond with valid JSON only.`
+    );
+
+    const response = result.response;
+    const responseText = response.text();
+
+    if (!responseText) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "No response generated from AI",
+      });
+    }
+
+    const parsedResult = JSON.parse(responseText);
+    return auditResultSchema.parse(parsedResult);
+  } catch (error: any) {
+    console.error("Gemini Analysis Failed:", error);
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: error.message || "Failed to analyze scope",
+    });
+  }
+}
+
+/**
+ * Parse scope text with the rule-based parser, sending only the sections it
+ * couldn't read to Gemini. The returned parserVersion records which path ran:
+ * "rules:v1", "rules:v1+llm:<model>", "llm:<model>" when nothing parsed, or
+ * "rules:v1:partial" when the fallback was unavailable.
+ */
+async function analyzeScopeText(text: string): Promise<{ result: AuditResult; parserVersion: string }> {
+  const parsed = parseScopeText(text);
+
+  if (parsed.lineItems.length === 0) {
+    return { result: await analyzeWithGemini(text), parserVersion: LLM_PARSER_VERSION };
+  }
+
+  if (parsed.unparsedSections.length === 0) {
+    return { result: buildAuditResult(parsed), parserVersion: SCOPE_RULES_VERSION };
+  }
+
+  try {
+    const fallback = await analyzeWithGemini(formatUnparsedSections(parsed.unparsedSections));
+    return {
+      result: buildAuditResult(parsed, fallback.line_items),
+      parserVersion: `${SCOPE_RULES_VERSION}+${LLM_PARSER_VERSION}`,
+    };
+  } catch (error) {
+    // Offline or no API key: keep what the parser read; reconciliation flags the gap
+    console.error("[Estimates] LLM fallback failed, using partial parse:", error);
+    const result = buildAuditResult(parsed);
+    const skipped = parsed.unparsedSections.reduce((sum, section) => sum + section.lines.length, 0);
+    return {
+      result: { ...result, estimator_notes: `${result.estimator_notes} ${skipped} line(s) could not be read and were skipped.` },
+      parserVersion: `${SCOPE_RULES_VERSION}:partial`,
+    };
+  }
+}
+
+interface ScopeVersionParams {
+  jobId: number;
+  documentId: number | null;
+  result: AuditResult;
+  parserVersion: string;
+  userId: number;
+}
+
+const SAVE_VERSION_ATTEMPTS = 3;
+
+const isUniqueViolation = (error: any) => (error?.cause ?? error)?.code === "23505";
+
+// Save an analysis as the next scope version for the job. (job_id, version)
+// is unique, so if another analysis took the number first, try the next one.
+async function saveScopeVersion(db: any, params: ScopeVersionParams) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await insertScopeVersion(db, params);
+    } catch (error) {
+      if (!isUniqueViolation(error) || attempt >= SAVE_VERSION_ATTEMPTS) throw error;
+    }
+  }
+}
+
+async function insertScopeVersion(db: any, params: ScopeVersionParams) {
+  const [{ latest }] = await db
+    .select({ latest: max(insuranceScopes.version) })
+    .from(insuranceScopes)
+    .where(eq(insuranceScopes.jobId, params.jobId));
+
+  const { claim_info } = params.result;
+  const [scope] = await db.insert(insuranceScopes).values({
+    jobId: params.jobId,
+    documentId: params.documentId,
+    carrierName: claim_info.carrier || null,
+    claimNumber: claim_info.claim_number || null,
+    rcvAmount: toCents(claim_info.total_rcv),
+    acvAmount: toCents(claim_info.total_acv),
+    deductible: toCents(claim_info.deductible),
+    lineItems: params.result.line_items,
+    rawData: params.result,
+    parserVersion: params.parserVersion,
+    version: (latest ?? 0) + 1,
+    createdBy: params.userId,
+  }).returning();
+
+  return scope;
+}
 
 export const estimatesRouter = router({
+  // Analyze a scope of loss; saved as a new scope version when a job is given
   analyzeScope: protectedProcedure
     .input(
       z.object({
         text: z.string().min(10, "Scope text must be at least 10 characters"),
+        jobId: z.number().optional(),
+        documentId: z.number().optional(), // Source scope PDF on the job
       })
     )
-    .output(auditResultSchema)
-    .mutation(async ({ input }) => {
-      const apiKey = process.env.GEMINI_API_KEY;
-      if (!apiKey) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "Gemini API key not configured",
-        });
+    .output(auditResultSchema.extend({
+      scopeId: z.number().nullable(),
+      version: z.number().nullable(),
+      parserVersion: z.string(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      if (!input.jobId) {
+        const { result, parserVersion } = await analyzeScopeText(input.text);
+        return { ...result, scopeId: null, version: null, parserVersion };
       }
 
-      try {
-        const model = genAI.getGenerativeModel({
-          model: "gemini-2.0-flash-exp",
-          systemInstruction: SYSTEM_PROMPT,
-        });
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
 
-        const result = await model.generateContent(
-          `Here is the Scope of Loss text to analyze:\n\n${input.text}\n\nPlease respond with valid JSON only.`
-        );
+      await getAuthorizedJob(db, ctx.user, input.jobId, "edit");
 
-        const response = result.response;
-        const text = response.text();
-
-        if (!text) {
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: "No response generated from AI",
-          });
+      if (input.documentId) {
+        const [document] = await db.select({ id: documents.id })
+          .from(documents)
+          .where(and(eq(documents.id, input.documentId), eq(documents.reportRequestId, input.jobId)));
+        if (!document) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Document not found on this job" });
         }
+      }
+
+      const { result, parserVersion } = await analyzeScopeText(input.text);
+      const scope = await saveScopeVersion(db, {
+        jobId: input.jobId,
+        documentId: input.documentId ?? null,
+        result,
+        parserVersion,
+        userId: ctx.user.id,
+      });
+
+      return { ...result, scopeId: scope.id, version: scope.version, parserVersion };
+    }),
+
+  // Get scope version history for a job (newest first)
+  getJobScopes: protectedProcedure
+    .input(z.object({ jobId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await getAuthorizedJob(db, ctx.user, input.jobId, "view");
+
+      return await db
+        .select({
+          id: insuranceScopes.id,
+          version: insuranceScopes.version,
+          carrierName: insuranceScopes.carrierName,
+          claimNumber: insuranceScopes.claimNumber,
+          rcvAmount: insuranceScopes.rcvAmount,
+          acvAmount: insuranceScopes.acvAmount,
+          deductible: insuranceScopes.deductible,
+          parserVersion: insuranceScopes.parserVersion,
+          parsedAt: insuranceScopes.parsedAt,
+          documentId: insuranceScopes.documentId,
+          documentName: documents.fileName,
+          createdByName: users.name,
+        })
+        .from(insuranceScopes)
+        .leftJoin(documents, eq(insuranceScopes.documentId, documents.id))
+        .leftJoin(users, eq(insuranceScopes.createdBy, users.id))
+        .where(eq(insuranceScopes.jobId, input.jobId))
+        .orderBy(desc(insuranceScopes.version));
+    }),
+
+  // Get a saved analysis in the same shape analyzeScope returns
+  getScope: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
 
-        const parsedResult = JSON.parse(text);
-        return auditResultSchema.parse(parsedResult);
-      } catch (error: any) {
-        console.error("Gemini Analysis Failed:", error);
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: error.message || "Failed to analyze scope",
-        });
+      const [scope] = await db.select().from(insuranceScopes).where(eq(insuranceScopes.id, input.id));
+      if (!scope) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Scope not found" });
       }
+
+      await getAuthorizedJob(db, ctx.user, scope.jobId, "view");
+
+      return {
+        ...auditResultSchema.parse(scope.rawData),
+        scopeId: scope.id,
+        version: scope.version,
+        parserVersion: scope.parserVersion,
+      };
+    }),
+
+  // Compare carrier line items against our material orders and proposal total
+  getScopeComparison: protectedProcedure
+    .input(z.object({
+      jobId: z.number(),
+      scopeId: z.number().optional(), // Defaults to the latest version
+    }))
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const job = await getAuthorizedJob(db, ctx.user, input.jobId, "view");
+
+      const [scope] = await db.select()
+        .from(insuranceScopes)
+        .where(input.scopeId
+          ? and(eq(insuranceScopes.id, input.scopeId), eq(insuranceScopes.jobId, input.jobId))
+          : eq(insuranceScopes.jobId, input.jobId))
+        .orderBy(desc(insuranceScopes.version))
+        .limit(1);
+      if (!scope) return null;
+
+      // Order line items already include manual accessories
+      const orders = await db.select({ lineItems: materialOrders.lineItems })
+        .from(materialOrders)
+        .where(and(eq(materialOrders.reportRequestId, input.jobId), ne(materialOrders.status, "cancelled")));
+
+      const materialLines: MaterialOrderLine[] = orders.flatMap(
+        (order: { lineItems: unknown }) => (order.lineItems as MaterialOrderLine[] | null) || []
+      );
+
+      const comparison = compareScopeToEstimate({
+        scopeLineItems: (scope.lineItems as ScopeLineItem[] | null) || [],
+        materialLines,
+        carrierRcv: scope.rcvAmount || 0,
+        proposalTotal: toCents(Number(job.totalPrice || 0)),
+      });
+
+      return {
+        scopeId: scope.id,
+        version: scope.version,
+        carrierName: scope.carrierName,
+        materialOrderCount: orders.length,
+        ...comparison,
+      };
     }),
 });
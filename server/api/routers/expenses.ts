@@ -3,6 +3,8 @@ import { eq, desc, and, gte, lte, sql } from "drizzle-orm";
 import { protectedProcedure, router } from "../../_core/trpc";
 import { getDb } from "../../db";
 import { expenses } from "../../../drizzle/schema";
+import { postExpense } from "../../lib/ledger";
+import { resolveVendor } from "../../lib/vendors";
 
 export const expensesRouter = router({
   // Get all expenses with optional filtering
@@ -12,6 +14,7 @@ export const expensesRouter = router({
       startDate: z.string().optional(),
       endDate: z.string().optional(),
       reportRequestId: z.number().optional(),
+      vendorId: z.number().optional(),
     }))
     .query(async ({ input }) => {
       const db = await getDb();
@@ -36,6 +39,10 @@ export const expensesRouter = router({
         conditions.push(eq(expenses.reportRequestId, input.reportRequestId));
       }
 
+      if (input.vendorId) {
+        conditions.push(eq(expenses.vendorId, input.vendorId));
+      }
+
       if (conditions.length > 0) {
         query = query.where(and(...conditions)) as any;
       }
@@ -95,6 +102,8 @@ export const expensesRouter = router({
       const db = await getDb();
       if (!db) throw new Error("Database not available");
 
+      const vendor = await resolveVendor(db, input.vendorName, ctx.user.id);
+
       const [expense] = await db
         .insert(expenses)
         .values({
@@ -103,7 +112,8 @@ export const expensesRouter = router({
           amount: input.amount.toString(),
           description: input.description,
           reportRequestId: input.reportRequestId,
-          vendorName: input.vendorName,
+          vendorId: vendor?.id,
+          vendorName: vendor?.name ?? input.vendorName,
           paymentMethod: input.paymentMethod,
           receiptUrl: input.receiptUrl,
           isTaxDeductible: input.isTaxDeductible,
@@ -112,6 +122,8 @@ export const expensesRouter = router({
         })
         .returning();
 
+      await postExpense(db, expense.id);
+
       return expense;
     }),
 
@@ -141,13 +153,19 @@ export const expensesRouter = router({
       isTaxDeductible: z.boolean().optional(),
       taxCategory: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const db = await getDb();
       if (!db) throw new Error("Database not available");
 
       const { id, ...data } = input;
       const updateData: any = { ...data };
 
+      if (data.vendorName !== undefined) {
+        const vendor = await resolveVendor(db, data.vendorName, ctx.user.id);
+        updateData.vendorId = vendor?.id ?? null;
+        updateData.vendorName = vendor?.name ?? null;
+      }
+
       if (data.date) {
         updateData.date = new Date(data.date);
       }
@@ -164,6 +182,8 @@ export const expensesRouter = router({
         .where(eq(expenses.id, id))
         .returning();
 
+      await postExpense(db, id);
+
       return expense;
     }),
 
@@ -179,6 +199,7 @@ export const expensesRouter = router({
       await db
         .delete(expenses)
         .where(eq(expenses.id, input.id));
+      await postExpense(db, input.id);
 
       return { success: true };
     }),
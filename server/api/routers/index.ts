@@ -38,8 +38,21 @@ export { commissionsRouter } from "./commissions";
 export { reportsRouter } from "./reports";
 export { bankingRouter } from "./banking";
 export { bankAccountsRouter } from "./bankAccounts";
+export { categorizationRulesRouter } from "./categorizationRules";
+export { jobCostingRouter } from "./jobCosting";
+export { salesTaxRouter } from "./salesTax";
+export { creditMemosRouter } from "./creditMemos";
 export { inventoryRouter } from "./inventory";
 export { billsRouter } from "./bills";
+export { vendorsRouter } from "./vendors";
+export { billApprovalsRouter } from "./billApprovals";
+export { budgetsRouter } from "./budgets";
+export { tasksRouter } from "./tasks";
+export { taskTemplatesRouter } from "./taskTemplates";
+export { supplementsRouter } from "./supplements";
+export { billingSchedulesRouter } from "./billingSchedules";
+export { schedulerRouter } from "./scheduler";
+export { ledgerRouter } from "./ledger";
 
 // Re-export the main router (assembled in server/routers.ts)
 // The 'jobs' router is exposed as 'crm' for frontend compatibility
@@ -1,10 +1,16 @@
 import { z } from "zod";
 import { eq, desc, and, sql, inArray, notInArray } from "drizzle-orm";
 import { getDb } from "../../db";
-import { invoices, reportRequests, activities, changeOrders, invoiceItems, documents } from "../../../drizzle/schema";
-import { protectedProcedure, router } from "../../_core/trpc";
+import { invoices, reportRequests, activities, changeOrders, invoiceItems, documents, invoiceReminders } from "../../../drizzle/schema";
+import { protectedProcedure, ownerOfficeProcedure, router } from "../../_core/trpc";
 import { sendInvoiceEmail } from "../../mail";
-import { generateInvoicePDF } from "../../lib/invoicePDFGenerator";
+import { generateInvoicePDF, buildInvoicePDFData, salesTaxPDFLines } from "../../lib/invoicePDFGenerator";
+import { getInvoicePaymentUrl, invoiceBalanceDue } from "../../lib/stripePayments";
+import { runInvoiceReminderSweep } from "../../lib/invoiceReminders";
+import { postInvoice } from "../../lib/ledger";
+import { applySalesTax } from "../../lib/salesTax";
+import { voidInvoice } from "../../lib/invoiceAdjustments";
+import { getAuthorizedJob } from "../../lib/rbac";
 import { storagePut } from "../../storage";
 import { logEditHistory } from "../../lib/editHistory";
 import { TRPCError } from "@trpc/server";
@@ -31,7 +37,11 @@ export const invoicesRouter = router({
           amount: invoices.amount,
           taxAmount: invoices.taxAmount,
           totalAmount: invoices.totalAmount,
+          amountPaid: invoices.amountPaid,
+          creditedAmount: invoices.creditedAmount,
           status: invoices.status,
+          voidedAt: invoices.voidedAt,
+          voidReason: invoices.voidReason,
           invoiceDate: invoices.invoiceDate,
           dueDate: invoices.dueDate,
           paidDate: invoices.paidDate,
@@ -89,13 +99,22 @@ export const invoicesRouter = router({
           .replace(/>/g, "&gt;")
           .replace(/\"/g, "&quot;");
 
+      // "Pay now" link for open job invoices; it creates a Stripe Checkout session when clicked
+      const balanceDue = invoiceBalanceDue(invoice);
+      const payUrl = invoice.reportRequestId && balanceDue > 0 ? await getInvoicePaymentUrl(invoice.id) : null;
+
       const html = `
         <div style="font-family: Arial, sans-serif; line-height: 1.5; color: #111;">
           <p>${safe(input.message).replace(/\n/g, "<br/>")}</p>
           <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 16px 0;" />
           <p style="margin: 0;"><strong>Invoice:</strong> ${safe(invoice.invoiceNumber)}</p>
           <p style="margin: 0;"><strong>Client:</strong> ${safe(invoice.clientName)}</p>
-          <p style="margin: 0;"><strong>Total:</strong> $${safe(String(invoice.totalAmount))}</p>
+          <p style="margin: 0;"><strong>Total:</strong> $${(invoice.totalAmount / 100).toFixed(2)}</p>
+          ${payUrl ? `
+          <p style="margin: 0;"><strong>Balance Due:</strong> $${(balanceDue / 100).toFixed(2)}</p>
+          <p style="margin: 20px 0;">
+            <a href="${payUrl}" style="background: #00d4aa; color: #000; padding: 10px 20px; border-radius: 6px; text-decoration: none; font-weight: bold;">Pay now</a>
+          </p>` : ""}
         </div>
       `.trim();
 
@@ -121,6 +140,7 @@ export const invoicesRouter = router({
         await db.update(invoices)
           .set({ status: "sent", updatedAt: new Date() })
           .where(eq(invoices.id, invoice.id));
+        await postInvoice(db, invoice.id);
       }
 
       return { success: true };
@@ -179,7 +199,12 @@ export const invoicesRouter = router({
         notes: input.notes,
       }).returning();
 
-      return { success: true, invoice: newInvoice };
+      // Job invoices are taxed at the job's county rate, not the hand-entered amount
+      const invoice = input.reportRequestId
+        ? (await applySalesTax(db, newInvoice.id)) ?? newInvoice
+        : newInvoice;
+
+      return { success: true, invoice };
     }),
 
   // Update invoice
@@ -194,6 +219,17 @@ export const invoicesRouter = router({
       const db = await getDb();
       if (!db) throw new Error("Database not available");
 
+      const [invoice] = await db.select().from(invoices).where(eq(invoices.id, input.id));
+      if (!invoice) throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
+      if (input.status && input.status !== invoice.status) {
+        if (invoice.voidedAt) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: `Invoice ${invoice.invoiceNumber} is void` });
+        }
+        if (input.status === "cancelled" && invoice.status !== "draft") {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Sent invoices are cancelled by voiding them" });
+        }
+      }
+
       const updateData: any = {
         updatedAt: new Date(),
       };
@@ -207,21 +243,47 @@ export const invoicesRouter = router({
         .set(updateData)
         .where(eq(invoices.id, input.id));
 
+      await postInvoice(db, input.id);
+
       return { success: true };
     }),
 
-  // Delete invoice
+  // Delete a draft invoice; anything already sent has to be voided so its number stays on record
   delete: protectedProcedure
     .input(z.object({ id: z.number() }))
     .mutation(async ({ input }) => {
       const db = await getDb();
       if (!db) throw new Error("Database not available");
 
+      const [invoice] = await db.select().from(invoices).where(eq(invoices.id, input.id));
+      if (!invoice) throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
+      if (invoice.status !== "draft") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: `Invoice ${invoice.invoiceNumber} has been sent; void it instead of deleting it` });
+      }
+
       await db.delete(invoices).where(eq(invoices.id, input.id));
+      await postInvoice(db, input.id);
 
       return { success: true };
     }),
 
+  // Void a sent invoice: keeps its number, zeroes its effect on AR, the ledger and the job balance
+  void: ownerOfficeProcedure
+    .input(z.object({ id: z.number(), reason: z.string().min(1).max(500) }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [invoice] = await db.select().from(invoices).where(eq(invoices.id, input.id));
+      if (!invoice) throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
+      if (invoice.reportRequestId) {
+        await getAuthorizedJob(db, ctx.user, invoice.reportRequestId, "edit");
+      }
+
+      const voided = await voidInvoice(db, input.id, input.reason.trim(), ctx.user.id);
+      return { success: true, invoice: voided };
+    }),
+
   // Get invoice statistics
   getStats: protectedProcedure.query(async () => {
     const db = await getDb();
@@ -244,6 +306,28 @@ export const invoicesRouter = router({
     };
   }),
 
+  // Reminders sent for an invoice by the overdue sweep
+  getReminders: protectedProcedure
+    .input(z.object({ invoiceId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return db.select()
+        .from(invoiceReminders)
+        .where(eq(invoiceReminders.invoiceId, input.invoiceId))
+        .orderBy(desc(invoiceReminders.sentAt));
+    }),
+
+  // Run the overdue sweep now instead of waiting for the hourly run
+  runReminderSweep: ownerOfficeProcedure
+    .mutation(async () => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return runInvoiceReminderSweep(db);
+    }),
+
   // ============================================================================
   // FINANCIAL CORE - Phase 2: Convert to Invoice
   // ============================================================================
@@ -285,7 +369,6 @@ export const invoicesRouter = router({
 
       // STEP 2: Calculate invoice amount based on type
       let invoiceAmount = 0;
-      let taxAmount = 0;
       let lineItemsToCreate: Array<{
         description: string;
         quantity: string;
@@ -305,8 +388,9 @@ export const invoicesRouter = router({
           )
         );
 
+      // Pre-tax amounts: sales tax is collected on top of the contract, not toward it
       const totalPreviouslyInvoiced = existingInvoices.reduce(
-        (sum, inv) => sum + parseFloat(inv.totalAmount.toString()),
+        (sum, inv) => sum + inv.amount / 100,
         0
       );
 
@@ -438,15 +522,7 @@ export const invoicesRouter = router({
           break;
       }
 
-      // STEP 3: Calculate tax (inherit from proposal if available)
-      // For now, manual entry - tax logic is complex per state
-      if (job.pricePerSq && job.totalPrice) {
-        // If proposal had tax calculation, we could inherit it here
-        // For now, tax is 0 and must be manually added
-        taxAmount = 0;
-      }
-
-      const totalAmount = invoiceAmount + taxAmount;
+      // STEP 3: Sales tax is calculated once the line items are saved (STEP 7)
 
       // STEP 4: Generate invoice number (INV-{JobId}-{Sequence})
       const jobInvoiceCount = existingInvoices.length;
@@ -469,8 +545,8 @@ export const invoicesRouter = router({
         clientPhone: job.phone || undefined,
         address: job.address || undefined,
         amount: Math.round(invoiceAmount * 100),
-        taxAmount: Math.round(taxAmount * 100),
-        totalAmount: Math.round(totalAmount * 100),
+        taxAmount: 0,
+        totalAmount: Math.round(invoiceAmount * 100),
         status: "draft",
         invoiceDate,
         dueDate,
@@ -493,6 +569,10 @@ export const invoicesRouter = router({
         );
       }
 
+      // Apply the job's county rate to its taxable lines
+      const taxedInvoice = (await applySalesTax(db, newInvoice.id)) ?? newInvoice;
+      const totalAmount = taxedInvoice.totalAmount / 100;
+
       // STEP 8: Link change orders to invoice (for supplement invoices)
       if (input.invoiceType === "supplement" && input.changeOrderIds) {
         await db
@@ -519,7 +599,7 @@ export const invoicesRouter = router({
 
       return {
         success: true,
-        invoice: newInvoice,
+        invoice: taxedInvoice,
         invoiceNumber,
         totalAmount,
       };
@@ -541,6 +621,47 @@ export const invoicesRouter = router({
       return jobInvoices;
     }),
 
+  // Line items with their taxability, for the tax breakdown on a job invoice
+  getItems: protectedProcedure
+    .input(z.object({ invoiceId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return db
+        .select()
+        .from(invoiceItems)
+        .where(eq(invoiceItems.invoiceId, input.invoiceId))
+        .orderBy(invoiceItems.sortOrder);
+    }),
+
+  // Mark a line as taxable materials (or not) and recalculate tax; only drafts can change
+  setItemTaxable: ownerOfficeProcedure
+    .input(z.object({ itemId: z.number(), taxable: z.boolean() }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [row] = await db
+        .select({ item: invoiceItems, invoice: invoices })
+        .from(invoiceItems)
+        .innerJoin(invoices, eq(invoiceItems.invoiceId, invoices.id))
+        .where(eq(invoiceItems.id, input.itemId));
+
+      if (!row) throw new TRPCError({ code: "NOT_FOUND", message: "Invoice item not found" });
+      if (row.invoice.status !== "draft") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Tax can only be changed on draft invoices" });
+      }
+      if (row.invoice.reportRequestId) {
+        await getAuthorizedJob(db, ctx.user, row.invoice.reportRequestId, "edit");
+      }
+
+      await db.update(invoiceItems).set({ taxable: input.taxable }).where(eq(invoiceItems.id, input.itemId));
+      const invoice = await applySalesTax(db, row.invoice.id);
+
+      return { success: true, invoice };
+    }),
+
   /**
    * Generate Balance Invoice with PDF
    * Calculates: (Base Contract + Approved Changes) - Total Invoiced
@@ -583,15 +704,16 @@ export const invoicesRouter = router({
           )
         );
 
+      // Pre-tax amounts, as in convertToInvoice
       const totalPreviouslyInvoiced = existingInvoices.reduce(
-        (sum, inv) => sum + parseFloat(inv.totalAmount.toString()),
+        (sum, inv) => sum + inv.amount / 100,
         0
       );
 
       // Calculate base invoiced (excluding supplements to avoid double-counting change orders)
       const baseInvoiced = existingInvoices
         .filter(inv => inv.invoiceType !== "supplement")
-        .reduce((sum, inv) => sum + parseFloat(inv.totalAmount.toString()), 0);
+        .reduce((sum, inv) => sum + inv.amount / 100, 0);
 
       // Get all approved change orders
       const approvedChangeOrders = await db
@@ -682,6 +804,8 @@ export const invoicesRouter = router({
         }))
       );
 
+      const taxedInvoice = (await applySalesTax(db, newInvoice.id)) ?? newInvoice;
+
       // STEP 7: Generate PDF
       const pdfData = {
         invoiceNumber,
@@ -693,8 +817,9 @@ export const invoicesRouter = router({
         clientPhone: job.phone || undefined,
         lineItems: lineItemsData,
         subtotal: balanceDue,
-        taxAmount: 0,
-        totalAmount: balanceDue,
+        taxAmount: taxedInvoice.taxAmount / 100,
+        taxLines: salesTaxPDFLines(taxedInvoice.taxBreakdown),
+        totalAmount: taxedInvoice.totalAmount / 100,
         notes: input.notes,
       };
 
@@ -741,7 +866,7 @@ export const invoicesRouter = router({
 
       return {
         success: true,
-        invoice: newInvoice,
+        invoice: taxedInvoice,
         pdfUrl: url,
         balanceDue,
       };
@@ -778,25 +903,7 @@ export const invoicesRouter = router({
         : [];
 
       // STEP 3: Prepare PDF data (amounts are in cents, convert to dollars for display)
-      const pdfData = {
-        invoiceNumber: invoice.invoiceNumber,
-        invoiceDate: invoice.invoiceDate.toISOString().split('T')[0],
-        dueDate: invoice.dueDate.toISOString().split('T')[0],
-        clientName: invoice.clientName,
-        clientAddress: invoice.address || job?.address || undefined,
-        clientEmail: invoice.clientEmail || job?.email || undefined,
-        clientPhone: invoice.clientPhone || job?.phone || undefined,
-        lineItems: lineItems.map(item => ({
-          description: item.description,
-          quantity: item.quantity.toString(),
-          unitPrice: item.unitPrice, // Already in cents
-          totalPrice: item.totalPrice, // Already in cents
-        })),
-        subtotal: Number(invoice.amount) / 100, // Convert cents to dollars
-        taxAmount: Number(invoice.taxAmount) / 100, // Convert cents to dollars
-        totalAmount: Number(invoice.totalAmount) / 100, // Convert cents to dollars
-        notes: invoice.notes || undefined,
-      };
+      const pdfData = buildInvoicePDFData(invoice, lineItems, job);
 
       // STEP 4: Generate PDF
       const pdfBuffer = await generateInvoicePDF(pdfData);
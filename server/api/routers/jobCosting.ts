@@ -0,0 +1,111 @@
+/**
+ * Job Costing Router
+ * Per-job cost ledger and P&L, manual cost entries (crew labor, permits) and
+ * the estimated cost per category that actuals are compared against.
+ */
+
+import { protectedProcedure, ownerOfficeProcedure, router } from "../../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { and, eq, notInArray } from "drizzle-orm";
+import { getDb } from "../../db";
+import { jobCostCategoryEnum, jobCostEntries, jobCostEstimates } from "../../../drizzle/schema";
+import { getAuthorizedJob } from "../../lib/rbac";
+import { getJobCosting } from "../../lib/jobCosting";
+
+const categorySchema = z.enum(jobCostCategoryEnum.enumValues);
+
+export const jobCostingRouter = router({
+  // Revenue, estimated vs. actual cost per category and every cost line
+  getForJob: protectedProcedure
+    .input(z.object({ jobId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await getAuthorizedJob(db, ctx.user, input.jobId, "view");
+      return getJobCosting(db, input.jobId);
+    }),
+
+  // Record a cost that isn't a bill, expense or bank transaction; crew labor may be hours × rate
+  addEntry: ownerOfficeProcedure
+    .input(z.object({
+      jobId: z.number(),
+      category: categorySchema,
+      description: z.string().min(1),
+      amount: z.number().positive().optional(), // Dollars
+      hours: z.number().positive().optional(),
+      hourlyRate: z.number().positive().optional(),
+      userId: z.number().nullable().optional(),
+      entryDate: z.string().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await getAuthorizedJob(db, ctx.user, input.jobId, "edit");
+
+      const amount = input.amount ?? (input.hours && input.hourlyRate ? input.hours * input.hourlyRate : null);
+      if (!amount) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Enter an amount, or hours and an hourly rate" });
+      }
+
+      const [entry] = await db.insert(jobCostEntries).values({
+        jobId: input.jobId,
+        category: input.category,
+        description: input.description,
+        amount: Math.round(amount * 100),
+        hours: input.hours?.toFixed(2) ?? null,
+        userId: input.userId ?? null,
+        entryDate: input.entryDate ? new Date(input.entryDate) : new Date(),
+        createdBy: ctx.user.id,
+      }).returning();
+
+      return entry;
+    }),
+
+  deleteEntry: ownerOfficeProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [entry] = await db.select().from(jobCostEntries).where(eq(jobCostEntries.id, input.id));
+      if (!entry) throw new TRPCError({ code: "NOT_FOUND", message: "Cost entry not found" });
+      await getAuthorizedJob(db, ctx.user, entry.jobId, "edit");
+
+      await db.delete(jobCostEntries).where(eq(jobCostEntries.id, input.id));
+      return { success: true };
+    }),
+
+  // Replace the job's estimate; categories left out have no estimate
+  setEstimates: ownerOfficeProcedure
+    .input(z.object({
+      jobId: z.number(),
+      estimates: z.array(z.object({
+        category: categorySchema,
+        amount: z.number().nonnegative(), // Dollars
+      })),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await getAuthorizedJob(db, ctx.user, input.jobId, "edit");
+
+      const categories = input.estimates.map(estimate => estimate.category);
+      await db.delete(jobCostEstimates).where(and(
+        eq(jobCostEstimates.jobId, input.jobId),
+        ...(categories.length > 0 ? [notInArray(jobCostEstimates.category, categories)] : [])
+      ));
+
+      for (const estimate of input.estimates) {
+        const values = { amount: Math.round(estimate.amount * 100), updatedBy: ctx.user.id, updatedAt: new Date() };
+        await db.insert(jobCostEstimates)
+          .values({ jobId: input.jobId, category: estimate.category, ...values })
+          .onConflictDoUpdate({ target: [jobCostEstimates.jobId, jobCostEstimates.category], set: values });
+      }
+
+      return { success: true };
+    }),
+});
@@ -9,13 +9,13 @@ import { protectedProcedure, publicProcedure, router } from "../../_core/trpc";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { getDb } from "../../db";
-import { reportRequests, users, activities, documents, editHistory, jobAttachments, notifications, systemCache } from "../../../drizzle/schema";
+import { reportRequests, users, activities, documents, editHistory, jobAttachments, notifications, systemCache, events } from "../../../drizzle/schema";
 import { eq, desc, and, or, like, sql, gte, lte, inArray, isNotNull } from "drizzle-orm";
 import { storagePut, STORAGE_BUCKET } from "../../storage";
 import { supabaseAdmin } from "../../lib/supabase";
 import { extractExifMetadata } from "../../lib/exif";
 import * as solarApi from "../../lib/solarApi";
-import { fetchEstimatorLeads, parseEstimatorAddress, formatEstimateData } from "../../lib/estimatorApi";
+import { importEstimatorLeads } from "../../lib/estimatorApi";
 import { sendLienRightsAlertNotification, getLienRightsAlertJobs } from "../../lienRightsNotification";
 import { 
   normalizeRole, 
@@ -30,6 +30,10 @@ import {
   filterLeadsByRole,
 } from "../../lib/rbac"; 
 import { logEditHistory } from "../../lib/editHistory";
+import { assertTransition } from "../../lib/pipelineTransitions";
+import { correctCompletionDate, loadTransitionFacts, runTransitionEffects } from "../../lib/pipelineWorkflow";
+import { generateTemplateTasks } from "../../lib/taskTemplates";
+import { CLAIM_STATUSES, buildAdjusterMeetingEvent } from "../../lib/claimTracking";
 import { GoogleGenerativeAI } from "@google/generative-ai";
 
 // Import sub-routers for modular architecture
@@ -321,66 +325,35 @@ export const jobsRouter = router({
           throw new Error("You don't have permission to edit this job");
         }
 
-        // Validate data quality for status changes (Safety Net)
-        if (input.status && input.status !== currentLead.status) {
-          const allowedWithoutData = ['lead', 'appointment_set'];
-          
-          if (!allowedWithoutData.includes(input.status)) {
-            // Check incoming data first, then fall back to current database values
-            const phoneToCheck = input.phone !== undefined ? input.phone : currentLead.phone;
-            const emailToCheck = input.email !== undefined ? input.email : currentLead.email;
-            
-            const hasPhone = phoneToCheck && phoneToCheck.trim() !== '';
-            const hasEmail = emailToCheck && emailToCheck.trim() !== '';
-            
-            if (!hasPhone || !hasEmail) {
-              throw new TRPCError({
-                code: "BAD_REQUEST",
-                message: "Cannot advance pipeline: Customer Phone and Email are required.",
-              });
-            }
-          }
-        }
+        // Validate the status change against the pipeline transition table
+        const transition = input.status && input.status !== currentLead.status
+          ? assertTransition(
+              currentLead.status,
+              input.status,
+              user!.role,
+              await loadTransitionFacts(db, currentLead, input)
+            )
+          : null;
 
         const updateData: Record<string, unknown> = {};
         
         // Log each field change to edit history
-        if (input.status && input.status !== currentLead.status) {
+        if (input.status && transition) {
           updateData.status = input.status;
           await logEditHistory(db, input.id, user!.id, "status", currentLead.status, input.status, "status_change", ctx);
           
-          // Handle lien rights tracking when status changes to "completed"
-          if (input.status === "completed" && currentLead.status !== "completed") {
-            // Use provided completion date or default to current date
-            const completedAt = input.projectCompletedAt ? new Date(input.projectCompletedAt) : new Date();
-            const expiresAt = new Date(completedAt);
-            expiresAt.setDate(expiresAt.getDate() + 90); // 90 days from completion
-            
-            updateData.projectCompletedAt = completedAt;
-            updateData.lienRightsExpiresAt = expiresAt;
-            updateData.lienRightsStatus = "active";
-            
-            await logEditHistory(db, input.id, user!.id, "projectCompletedAt", null, completedAt.toISOString(), "update", ctx);
-            await logEditHistory(db, input.id, user!.id, "lienRightsStatus", currentLead.lienRightsStatus || "not_applicable", "active", "update", ctx);
-          }
-          
-          // Allow updating completion date even if already completed
-          if (input.projectCompletedAt && input.status === "completed") {
-            const completedAt = new Date(input.projectCompletedAt);
-            const expiresAt = new Date(completedAt);
-            expiresAt.setDate(expiresAt.getDate() + 90);
-            
-            updateData.projectCompletedAt = completedAt;
-            updateData.lienRightsExpiresAt = expiresAt;
-            
-            await logEditHistory(db, input.id, user!.id, "projectCompletedAt", currentLead.projectCompletedAt?.toISOString() || null, completedAt.toISOString(), "update", ctx);
-          }
-          
-          // Handle lien_legal status
-          if (input.status === "lien_legal") {
-            updateData.lienRightsStatus = "legal";
-            await logEditHistory(db, input.id, user!.id, "lienRightsStatus", currentLead.lienRightsStatus || "not_applicable", "legal", "update", ctx);
-          }
+          // Lien rights tracking, notifications and follow-up tasks
+          await runTransitionEffects(transition.effects, {
+            db,
+            job: currentLead,
+            to: input.status,
+            user: user!,
+            updateData,
+            projectCompletedAt: input.projectCompletedAt,
+            ctx,
+          });
+        } else if (input.projectCompletedAt && currentLead.status === "completed") {
+          await correctCompletionDate({ db, job: currentLead, user: user!, updateData, ctx }, input.projectCompletedAt);
         }
         
         // Handle deal type changes
@@ -459,6 +432,28 @@ export const jobsRouter = router({
           });
         }
 
+        // Generate checklist tasks for the new stage (uses values from this update)
+        if (input.status && transition) {
+          const templateTasks = await generateTemplateTasks(db, {
+            job: {
+              id: input.id,
+              assignedTo: input.assignedTo ?? currentLead.assignedTo,
+            },
+            status: input.status,
+            dealType: input.dealType || currentLead.dealType,
+            userId: user!.id,
+          });
+
+          if (templateTasks.length > 0) {
+            await db.insert(activities).values({
+              reportRequestId: input.id,
+              userId: ctx.user?.id,
+              activityType: "note_added",
+              description: `Checklist tasks added: ${templateTasks.map(task => task.title).join(", ")}`,
+            });
+          }
+        }
+
         return { success: true };
       }),
 
@@ -575,7 +570,7 @@ export const jobsRouter = router({
         return { success: true };
       }),
 
-    // Update insurance info
+    // Update insurance info and claim tracking
     updateInsuranceInfo: protectedProcedure
       .input(z.object({
         id: z.number(),
@@ -583,6 +578,16 @@ export const jobsRouter = router({
         policyNumber: z.string().nullable().optional(),
         claimNumber: z.string().nullable().optional(),
         deductible: z.number().nullable().optional(),
+        claimStatus: z.enum(CLAIM_STATUSES).nullable().optional(),
+        adjusterName: z.string().nullable().optional(),
+        adjusterPhone: z.string().nullable().optional(),
+        adjusterEmail: z.string().email().nullable().optional(),
+        adjusterMeetingAt: z.string().nullable().optional(), // ISO date-time
+        acvCheckAmount: z.number().min(0).nullable().optional(),
+        acvCheckReceivedAt: z.string().nullable().optional(),
+        recoverableDepreciation: z.number().min(0).nullable().optional(),
+        finalCheckAmount: z.number().min(0).nullable().optional(),
+        finalCheckReceivedAt: z.string().nullable().optional(),
       }))
       .mutation(async ({ input, ctx }) => {
         const db = await getDb();
@@ -604,6 +609,10 @@ export const jobsRouter = router({
           { key: "insuranceCarrier", current: currentJob.insuranceCarrier, new: input.insuranceCarrier },
           { key: "policyNumber", current: currentJob.policyNumber, new: input.policyNumber },
           { key: "claimNumber", current: currentJob.claimNumber, new: input.claimNumber },
+          { key: "claimStatus", current: currentJob.claimStatus, new: input.claimStatus },
+          { key: "adjusterName", current: currentJob.adjusterName, new: input.adjusterName },
+          { key: "adjusterPhone", current: currentJob.adjusterPhone, new: input.adjusterPhone },
+          { key: "adjusterEmail", current: currentJob.adjusterEmail, new: input.adjusterEmail },
         ];
 
         for (const field of fieldsToCheck) {
@@ -613,19 +622,67 @@ export const jobsRouter = router({
           }
         }
 
-        // Handle deductible (numeric field)
-        if (input.deductible !== undefined && input.deductible !== (currentJob.deductible ? parseFloat(currentJob.deductible) : null)) {
-          updateData.deductible = input.deductible !== null ? input.deductible.toString() : null;
-          await logEditHistory(
-            db, 
-            input.id, 
-            user!.id, 
-            "deductible", 
-            currentJob.deductible ? String(currentJob.deductible) : "", 
-            input.deductible !== null ? String(input.deductible) : "", 
-            "update", 
-            ctx
-          );
+        // Handle dollar amounts (numeric fields)
+        const amountFields = [
+          { key: "deductible", current: currentJob.deductible, new: input.deductible },
+          { key: "acvCheckAmount", current: currentJob.acvCheckAmount, new: input.acvCheckAmount },
+          { key: "recoverableDepreciation", current: currentJob.recoverableDepreciation, new: input.recoverableDepreciation },
+          { key: "finalCheckAmount", current: currentJob.finalCheckAmount, new: input.finalCheckAmount },
+        ];
+
+        for (const field of amountFields) {
+          if (field.new !== undefined && field.new !== (field.current ? parseFloat(field.current) : null)) {
+            updateData[field.key] = field.new !== null ? field.new.toString() : null;
+            await logEditHistory(
+              db,
+              input.id,
+              user!.id,
+              field.key,
+              field.current ? String(field.current) : "",
+              field.new !== null ? String(field.new) : "",
+              "update",
+              ctx
+            );
+          }
+        }
+
+        // Handle dates
+        const dateFields = [
+          { key: "adjusterMeetingAt", current: currentJob.adjusterMeetingAt, new: input.adjusterMeetingAt },
+          { key: "acvCheckReceivedAt", current: currentJob.acvCheckReceivedAt, new: input.acvCheckReceivedAt },
+          { key: "finalCheckReceivedAt", current: currentJob.finalCheckReceivedAt, new: input.finalCheckReceivedAt },
+        ];
+
+        for (const field of dateFields) {
+          if (field.new === undefined) continue;
+          const newDate = field.new ? new Date(field.new) : null;
+          if (newDate?.getTime() !== field.current?.getTime()) {
+            updateData[field.key] = newDate;
+            await logEditHistory(db, input.id, user!.id, field.key, field.current?.toISOString() || "", newDate?.toISOString() || "", "update", ctx);
+          }
+        }
+
+        // Keep the adjuster meeting on the calendar in step with the job
+        if ("adjusterMeetingAt" in updateData) {
+          const meetingAt = updateData.adjusterMeetingAt as Date | null;
+          if (!meetingAt) {
+            if (currentJob.adjusterMeetingEventId) {
+              await db.delete(events).where(eq(events.id, currentJob.adjusterMeetingEventId));
+              updateData.adjusterMeetingEventId = null;
+            }
+          } else {
+            const event = buildAdjusterMeetingEvent({ ...currentJob, ...updateData } as typeof currentJob, meetingAt, user!.id);
+            const [existingEvent] = currentJob.adjusterMeetingEventId
+              ? await db.update(events)
+                  .set({ startTime: event.startTime, endTime: event.endTime, description: event.description, updatedAt: new Date() })
+                  .where(eq(events.id, currentJob.adjusterMeetingEventId))
+                  .returning({ id: events.id })
+              : [];
+            if (!existingEvent) {
+              const [newEvent] = await db.insert(events).values(event).returning({ id: events.id });
+              updateData.adjusterMeetingEventId = newEvent.id;
+            }
+          }
         }
 
         if (Object.keys(updateData).length > 0) {
@@ -636,7 +693,8 @@ export const jobsRouter = router({
             reportRequestId: input.id,
             userId: ctx.user?.id,
             activityType: "note_added",
-            description: `Insurance info updated: ${Object.keys(updateData).join(", ")}`,
+            description: `Insurance info updated: ${Object.keys(updateData).join(", ")}` +
+              (updateData.claimStatus ? ` (claim ${updateData.claimStatus})` : ""),
           });
         }
 
@@ -738,69 +796,7 @@ export const jobsRouter = router({
         console.log(`[ImportEstimatorLeads] Fetching leads from: ${input.estimatorUrl}`);
 
         try {
-          // Fetch leads from estimator API
-          const estimatorLeads = await fetchEstimatorLeads(input.estimatorUrl, input.sessionCookie);
-          
-          const importResults = {
-            total: estimatorLeads.length,
-            imported: 0,
-            skipped: 0,
-            errors: [] as string[],
-          };
-
-          // Import each lead
-          for (const lead of estimatorLeads) {
-            try {
-              // Parse address
-              const { streetAddress, cityStateZip } = parseEstimatorAddress(lead.address);
-              
-              // Check if lead already exists by ADDRESS (most important for roofing)
-              // This allows same person to have multiple estimates at different properties
-              const existingLead = await db
-                .select()
-                .from(reportRequests)
-                .where(
-                  and(
-                    eq(reportRequests.address, streetAddress),
-                    eq(reportRequests.cityStateZip, cityStateZip)
-                  )
-                )
-                .limit(1);
-
-              if (existingLead.length > 0) {
-                console.log(`[ImportEstimatorLeads] Skipping duplicate lead for address: ${streetAddress}`);
-                importResults.skipped++;
-                continue;
-              }
-
-              // Format estimate data
-              const estimatorData = formatEstimateData(lead.estimate);
-
-              // Create new job
-              await db.insert(reportRequests).values({
-                fullName: lead.name,
-                email: lead.email || null,
-                phone: lead.phone || null,
-                address: streetAddress,
-                cityStateZip: cityStateZip,
-                estimatorData: estimatorData as any,
-                status: "lead",
-                priority: "medium" as const,
-                leadSource: "estimator",
-                handsOnInspection: false,
-                amountPaid: 0,
-                internalNotes: lead.notes || null,
-                createdAt: new Date(lead.createdAt),
-                updatedAt: new Date(),
-              });
-
-              importResults.imported++;
-              console.log(`[ImportEstimatorLeads] Imported lead: ${lead.name}`);
-            } catch (error) {
-              console.error(`[ImportEstimatorLeads] Error importing lead ${lead.name}:`, error);
-              importResults.errors.push(`${lead.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            }
-          }
+          const importResults = await importEstimatorLeads(db, input.estimatorUrl, input.sessionCookie);
 
           console.log(`[ImportEstimatorLeads] Import complete:`, importResults);
           return importResults;
@@ -20,6 +20,8 @@ import {
   getTeamMemberIds,
   filterLeadsByRole,
 } from "./shared";
+import { checkTransition, getNextStatuses, type PipelineStatus } from "../../../lib/pipelineTransitions";
+import { buildTransitionFacts, getJobsWithSignedProposal } from "../../../lib/pipelineWorkflow";
 
 export const analyticsRouter = router({
   // Dashboard stats (filtered by role)
@@ -119,7 +121,7 @@ export const analyticsRouter = router({
     const db = await getDb();
     if (!db) throw new Error("Database not available");
 
-    let leads = await db.select({
+    const leads = await db.select({
       id: reportRequests.id,
       status: reportRequests.status,
       dealType: reportRequests.dealType,
@@ -131,22 +133,35 @@ export const analyticsRouter = router({
       salesRepCode: reportRequests.salesRepCode,
       amountPaid: reportRequests.amountPaid,
       projectCompletedAt: reportRequests.projectCompletedAt,
+      scheduledDate: reportRequests.scheduledDate,
     }).from(reportRequests);
 
     // Filter by role
-    leads = await filterLeadsByRole(db, ctx.user, leads);
+    const visibleLeads: typeof leads = await filterLeadsByRole(db, ctx.user, leads);
+
+    // Explain which columns each card cannot be dropped into (same rules as updateLead)
+    const signedProposalJobIds = await getJobsWithSignedProposal(db, visibleLeads.map(l => l.id));
+    const pipelineLeads = visibleLeads.map(lead => {
+      const facts = buildTransitionFacts(lead, signedProposalJobIds.has(lead.id));
+      const blockedMoves: Partial<Record<PipelineStatus, string[]>> = {};
+      for (const to of getNextStatuses(lead.status)) {
+        const check = checkTransition(lead.status, to, ctx.user.role, facts);
+        if (!check.allowed) blockedMoves[to] = check.missing.map(m => m.message);
+      }
+      return { ...lead, nextStatuses: getNextStatuses(lead.status), blockedMoves };
+    });
 
     const pipeline = {
-      lead: leads.filter(l => l.status === "lead"),
-      appointment_set: leads.filter(l => l.status === "appointment_set"),
-      prospect: leads.filter(l => l.status === "prospect"),
-      approved: leads.filter(l => l.status === "approved"),
-      project_scheduled: leads.filter(l => l.status === "project_scheduled"),
-      completed: leads.filter(l => l.status === "completed"),
-      invoiced: leads.filter(l => l.status === "invoiced"),
-      lien_legal: leads.filter(l => l.status === "lien_legal"),
-      closed_deal: leads.filter(l => l.status === "closed_deal"),
-      closed_lost: leads.filter(l => l.status === "closed_lost"),
+      lead: pipelineLeads.filter(l => l.status === "lead"),
+      appointment_set: pipelineLeads.filter(l => l.status === "appointment_set"),
+      prospect: pipelineLeads.filter(l => l.status === "prospect"),
+      approved: pipelineLeads.filter(l => l.status === "approved"),
+      project_scheduled: pipelineLeads.filter(l => l.status === "project_scheduled"),
+      completed: pipelineLeads.filter(l => l.status === "completed"),
+      invoiced: pipelineLeads.filter(l => l.status === "invoiced"),
+      lien_legal: pipelineLeads.filter(l => l.status === "lien_legal"),
+      closed_deal: pipelineLeads.filter(l => l.status === "closed_deal"),
+      closed_lost: pipelineLeads.filter(l => l.status === "closed_lost"),
     };
 
     return pipeline;
@@ -0,0 +1,204 @@
+/**
+ * Ledger Router
+ * Chart of accounts, journal entries and the trial balance. Automatic
+ * postings come from the finance routers (see lib/ledger); this router adds
+ * manual journal entries and a full re-sync for the office.
+ */
+
+import { ownerOfficeProcedure, router } from "../../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { and, desc, eq, gte, inArray, lte } from "drizzle-orm";
+import { getDb } from "../../db";
+import { journalEntries, journalLines, ledgerAccounts } from "../../../drizzle/schema";
+import { getTrialBalance, insertJournalEntry, isBalanced, syncLedger } from "../../lib/ledger";
+
+const accountTypeSchema = z.enum(["asset", "liability", "equity", "revenue", "expense"]);
+
+export const ledgerRouter = router({
+  // Chart of accounts, ordered by code
+  getAccounts: ownerOfficeProcedure
+    .input(z.object({ includeInactive: z.boolean().default(false) }).optional())
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return db.select()
+        .from(ledgerAccounts)
+        .where(input?.includeInactive ? undefined : eq(ledgerAccounts.isActive, true))
+        .orderBy(ledgerAccounts.code);
+    }),
+
+  // Add an account to the chart
+  createAccount: ownerOfficeProcedure
+    .input(z.object({
+      code: z.string().min(1).max(20),
+      name: z.string().min(1).max(255),
+      type: accountTypeSchema,
+      subtype: z.string().max(50).optional(),
+      description: z.string().optional(),
+    }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [existing] = await db.select({ id: ledgerAccounts.id }).from(ledgerAccounts).where(eq(ledgerAccounts.code, input.code));
+      if (existing) {
+        throw new TRPCError({ code: "CONFLICT", message: `Account code ${input.code} is already in use` });
+      }
+
+      const [account] = await db.insert(ledgerAccounts).values(input).returning();
+      return account;
+    }),
+
+  // Rename, describe or deactivate an account
+  updateAccount: ownerOfficeProcedure
+    .input(z.object({
+      id: z.number(),
+      name: z.string().min(1).max(255).optional(),
+      description: z.string().nullable().optional(),
+      isActive: z.boolean().optional(),
+    }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [account] = await db.select().from(ledgerAccounts).where(eq(ledgerAccounts.id, input.id));
+      if (!account) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Account not found" });
+      }
+      if (account.isSystem && input.isActive === false) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "System accounts are used by automatic postings and can't be deactivated" });
+      }
+
+      const { id, ...updates } = input;
+      const [updated] = await db.update(ledgerAccounts)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(ledgerAccounts.id, id))
+        .returning();
+      return updated;
+    }),
+
+  // Debits, credits and balance per account; `from` limits it to activity in a period
+  getTrialBalance: ownerOfficeProcedure
+    .input(z.object({
+      asOf: z.string().optional(),
+      from: z.string().optional(),
+    }).optional())
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const asOf = input?.asOf ? new Date(input.asOf) : undefined;
+      if (asOf) asOf.setHours(23, 59, 59, 999);
+
+      return getTrialBalance(db, { asOf, from: input?.from ? new Date(input.from) : undefined });
+    }),
+
+  // Journal entries with their lines, newest first
+  getEntries: ownerOfficeProcedure
+    .input(z.object({
+      sourceType: z.string().optional(),
+      sourceId: z.number().optional(),
+      accountId: z.number().optional(),
+      jobId: z.number().optional(),
+      startDate: z.string().optional(),
+      endDate: z.string().optional(),
+      limit: z.number().int().min(1).max(500).default(100),
+    }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const conditions = [];
+      if (input.sourceType) conditions.push(eq(journalEntries.sourceType, input.sourceType));
+      if (input.sourceId !== undefined) conditions.push(eq(journalEntries.sourceId, input.sourceId));
+      if (input.jobId !== undefined) conditions.push(eq(journalEntries.reportRequestId, input.jobId));
+      if (input.startDate) conditions.push(gte(journalEntries.entryDate, new Date(input.startDate)));
+      if (input.endDate) conditions.push(lte(journalEntries.entryDate, new Date(input.endDate)));
+      if (input.accountId !== undefined) {
+        const withAccount = db.select({ entryId: journalLines.entryId })
+          .from(journalLines)
+          .where(eq(journalLines.accountId, input.accountId));
+        conditions.push(inArray(journalEntries.id, withAccount));
+      }
+
+      const entries = await db.select()
+        .from(journalEntries)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(desc(journalEntries.entryDate), desc(journalEntries.id))
+        .limit(input.limit);
+      if (entries.length === 0) return [];
+
+      const lines = await db.select({
+        entryId: journalLines.entryId,
+        accountId: journalLines.accountId,
+        accountCode: ledgerAccounts.code,
+        accountName: ledgerAccounts.name,
+        debit: journalLines.debit,
+        credit: journalLines.credit,
+        memo: journalLines.memo,
+      })
+      .from(journalLines)
+      .innerJoin(ledgerAccounts, eq(journalLines.accountId, ledgerAccounts.id))
+      .where(inArray(journalLines.entryId, entries.map(entry => entry.id)));
+
+      return entries.map(entry => ({
+        ...entry,
+        lines: lines.filter(line => line.entryId === entry.id),
+      }));
+    }),
+
+  // Post a manual journal entry (adjustments, opening balances, owner draws)
+  createJournalEntry: ownerOfficeProcedure
+    .input(z.object({
+      date: z.string(),
+      memo: z.string().min(1),
+      jobId: z.number().optional(),
+      lines: z.array(z.object({
+        accountId: z.number(),
+        debit: z.number().int().min(0).default(0), // Cents
+        credit: z.number().int().min(0).default(0), // Cents
+        memo: z.string().optional(),
+      })).min(2),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      if (input.lines.some(line => (line.debit > 0) === (line.credit > 0))) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Each line needs either a debit or a credit" });
+      }
+      if (!isBalanced(input.lines)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Debits and credits must be equal" });
+      }
+
+      const accountIds = Array.from(new Set(input.lines.map(line => line.accountId)));
+      const accounts = await db.select({ id: ledgerAccounts.id }).from(ledgerAccounts).where(inArray(ledgerAccounts.id, accountIds));
+      if (accounts.length !== accountIds.length) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Unknown account on one of the lines" });
+      }
+
+      // Header and lines commit together, so a failed line insert can't leave an empty entry
+      const entry = await db.transaction((tx: any) => insertJournalEntry(tx, {
+        date: new Date(input.date),
+        memo: input.memo,
+        sourceType: "manual",
+        sourceId: null,
+        jobId: input.jobId ?? null,
+        createdBy: ctx.user.id,
+        lines: input.lines.map(line => ({ accountId: line.accountId, debit: line.debit, credit: line.credit, memo: line.memo ?? null })),
+      }));
+
+      return { success: true, entryId: entry.id };
+    }),
+
+  // Re-derive all automatic postings from invoices, payments, bills, expenses and bank transactions
+  syncLedger: ownerOfficeProcedure
+    .mutation(async () => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return syncLedger(db);
+    }),
+});
@@ -1,13 +1,14 @@
 import { protectedProcedure, ownerOfficeProcedure, router } from "../../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../../db";
-import { reportRequests, materialOrders } from "../../../drizzle/schema";
+import { reportRequests, materialOrders, billsPayable } from "../../../drizzle/schema";
 import { eq, desc } from "drizzle-orm";
 import { storagePut, storageGet } from "../../storage";
 import { calculateMaterialOrder, generateBeaconCSV, generateOrderNumber } from "../../lib/materialCalculator";
 import { MATERIAL_DEFAULTS } from "../../lib/materialConstants";
 import { generateMaterialOrderPDF } from "../../lib/materialOrderPDF";
-import { canViewJob } from "../../lib/rbac";
+import { canViewJob, getAuthorizedJob } from "../../lib/rbac";
+import { fireBillingTrigger } from "../../lib/billingSchedule";
 
 /**
  * Materials Router
@@ -145,6 +146,81 @@ export const materialsRouter = router({
       return orders;
     }),
 
+  // Update order status; delivery drafts the job's progress billing invoice
+  updateOrderStatus: ownerOfficeProcedure
+    .input(z.object({
+      orderId: z.number(),
+      status: z.enum(["draft", "pending", "sent", "confirmed", "delivered", "cancelled"]),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [order] = await db.select().from(materialOrders).where(eq(materialOrders.id, input.orderId));
+      if (!order) throw new Error("Material order not found");
+
+      await getAuthorizedJob(db, ctx.user, order.reportRequestId, "edit");
+
+      await db.update(materialOrders)
+        .set({
+          status: input.status,
+          ...(input.status === "delivered" && !order.deliveryDate && { deliveryDate: new Date() }),
+          updatedAt: new Date(),
+        })
+        .where(eq(materialOrders.id, order.id));
+
+      const draftedInvoices = input.status === "delivered" && order.status !== "delivered"
+        ? await fireBillingTrigger(db, order.reportRequestId, "materials_delivered", ctx.user.id)
+        : [];
+
+      return {
+        success: true,
+        draftedInvoices: draftedInvoices.map(invoice => invoice.invoiceNumber),
+      };
+    }),
+
+  // Record the quoted PO cost and, once it arrives, the supplier's bill that replaces it in job costing
+  setOrderCost: ownerOfficeProcedure
+    .input(z.object({
+      orderId: z.number(),
+      totalCost: z.number().nonnegative().nullable(), // Dollars
+      billId: z.number().nullable().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [order] = await db.select().from(materialOrders).where(eq(materialOrders.id, input.orderId));
+      if (!order) throw new Error("Material order not found");
+
+      await getAuthorizedJob(db, ctx.user, order.reportRequestId, "edit");
+
+      if (input.billId) {
+        const [bill] = await db.select().from(billsPayable).where(eq(billsPayable.id, input.billId));
+        if (!bill) throw new Error("Bill not found");
+        if (bill.projectId && bill.projectId !== order.reportRequestId) {
+          throw new Error("That bill belongs to a different job");
+        }
+        // The bill carries the cost from here on, so it has to be on this job
+        if (!bill.projectId) {
+          await db.update(billsPayable)
+            .set({ projectId: order.reportRequestId, updatedAt: new Date() })
+            .where(eq(billsPayable.id, bill.id));
+        }
+      }
+
+      const [updated] = await db.update(materialOrders)
+        .set({
+          totalCost: input.totalCost === null ? null : Math.round(input.totalCost * 100),
+          ...(input.billId !== undefined && { billId: input.billId }),
+          updatedAt: new Date(),
+        })
+        .where(eq(materialOrders.id, order.id))
+        .returning();
+
+      return updated;
+    }),
+
   // Get material kit defaults
   getMaterialKits: protectedProcedure
     .query(async ({ ctx }) => {
@@ -1,13 +1,21 @@
 /**
  * Payments Router
- * Handles manual payment recording (checks, cash, wire transfers)
+ * Handles manual payment recording (checks, cash, wire transfers) and refunds.
+ * Card payments made online are recorded by the Stripe webhook (lib/stripePayments);
+ * totals are net of refunds. A payment recorded against an invoice updates that
+ * invoice's amount paid and status; one recorded on the job alone is applied to
+ * its open invoices oldest first wherever balances are shown.
  */
 
-import { protectedProcedure, router } from "../../_core/trpc";
+import { protectedProcedure, ownerOfficeProcedure, router } from "../../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../../db";
-import { payments, reportRequests, activities } from "../../../drizzle/schema";
-import { eq, desc, sql } from "drizzle-orm";
+import { payments, paymentRefunds, reportRequests, activities, invoices, paymentMethodEnum, type Invoice } from "../../../drizzle/schema";
+import { and, eq, desc, sql } from "drizzle-orm";
+import { postInvoice, postPayment } from "../../lib/ledger";
+import { syncInvoicePayments } from "../../lib/stripePayments";
+import { getAuthorizedJob } from "../../lib/rbac";
+import { getJobBalance, refundPayment } from "../../lib/invoiceAdjustments";
 import { TRPCError } from "@trpc/server";
 
 export const paymentsRouter = router({
@@ -15,6 +23,7 @@ export const paymentsRouter = router({
   recordPayment: protectedProcedure
     .input(z.object({
       jobId: z.number(),
+      invoiceId: z.number().optional(), // The sent invoice this pays
       amount: z.number().positive(), // Amount in dollars
       paymentDate: z.string(), // ISO date string
       paymentMethod: z.enum(["check", "cash", "wire", "credit_card", "other"]),
@@ -31,12 +40,25 @@ export const paymentsRouter = router({
         throw new TRPCError({ code: 'NOT_FOUND', message: 'Job not found' });
       }
 
+      let invoice: Invoice | null = null;
+      if (input.invoiceId) {
+        [invoice] = await db.select().from(invoices)
+          .where(and(eq(invoices.id, input.invoiceId), eq(invoices.reportRequestId, input.jobId)));
+        if (!invoice) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Invoice not found on this job' });
+        }
+        if (invoice.status !== "sent" && invoice.status !== "overdue") {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: `Invoice ${invoice.invoiceNumber} is ${invoice.status}; payments can only be recorded against open invoices` });
+        }
+      }
+
       // Convert amount to cents
       const amountInCents = Math.round(input.amount * 100);
 
       // Insert payment record
       const [payment] = await db.insert(payments).values({
         reportRequestId: input.jobId,
+        invoiceId: invoice?.id ?? null,
         amount: amountInCents,
         paymentDate: new Date(input.paymentDate),
         paymentMethod: input.paymentMethod,
@@ -47,10 +69,16 @@ export const paymentsRouter = router({
         updatedAt: new Date(),
       }).returning();
 
+      await postPayment(db, payment.id);
+      if (invoice) {
+        await syncInvoicePayments(db, invoice, input.checkNumber ? `Check #${input.checkNumber}` : null, input.paymentMethod);
+        await postInvoice(db, invoice.id);
+      }
+
       // Calculate total payments for this job
       const [totalResult] = await db
         .select({
-          total: sql<number>`COALESCE(SUM(${payments.amount}), 0)`,
+          total: sql<number>`COALESCE(SUM(${payments.amount} - ${payments.refundedAmount}), 0)`,
         })
         .from(payments)
         .where(eq(payments.reportRequestId, input.jobId));
@@ -70,7 +98,7 @@ export const paymentsRouter = router({
         reportRequestId: input.jobId,
         userId: ctx.user.id,
         activityType: "payment_received",
-        description: `Payment received: $${input.amount.toFixed(2)} via ${input.paymentMethod}${input.checkNumber ? ` (Check #${input.checkNumber})` : ''}`,
+        description: `Payment received: $${input.amount.toFixed(2)} via ${input.paymentMethod}${input.checkNumber ? ` (Check #${input.checkNumber})` : ''}${invoice ? ` for invoice ${invoice.invoiceNumber}` : ''}`,
         createdAt: new Date(),
       });
 
@@ -118,11 +146,21 @@ export const paymentsRouter = router({
 
       // Delete the payment
       await db.delete(payments).where(eq(payments.id, input.paymentId));
+      await postPayment(db, input.paymentId);
+
+      // Re-open the invoice it paid, if any
+      if (payment.invoiceId) {
+        const [invoice] = await db.select().from(invoices).where(eq(invoices.id, payment.invoiceId));
+        if (invoice && invoice.status !== "cancelled") {
+          await syncInvoicePayments(db, invoice, invoice.paymentReference, invoice.paymentMethod || payment.paymentMethod);
+          await postInvoice(db, invoice.id);
+        }
+      }
 
       // Recalculate total payments for this job
       const [totalResult] = await db
         .select({
-          total: sql<number>`COALESCE(SUM(${payments.amount}), 0)`,
+          total: sql<number>`COALESCE(SUM(${payments.amount} - ${payments.refundedAmount}), 0)`,
         })
         .from(payments)
         .where(eq(payments.reportRequestId, jobId));
@@ -152,6 +190,67 @@ export const paymentsRouter = router({
       };
     }),
 
+  // Refund part or all of a payment; Stripe payments are refunded to the card
+  refundPayment: ownerOfficeProcedure
+    .input(z.object({
+      paymentId: z.number(),
+      amount: z.number().positive(), // Amount in dollars
+      refundDate: z.string().optional(), // ISO date string; defaults to today
+      method: z.enum(paymentMethodEnum.enumValues), // Ignored for Stripe payments
+      reason: z.string().min(1).max(500),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [payment] = await db.select().from(payments).where(eq(payments.id, input.paymentId));
+      if (!payment) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Payment not found' });
+      }
+      await getAuthorizedJob(db, ctx.user, payment.reportRequestId, "edit");
+
+      const refund = await refundPayment(db, {
+        paymentId: input.paymentId,
+        amount: Math.round(input.amount * 100),
+        refundDate: input.refundDate ? new Date(input.refundDate) : new Date(),
+        method: input.method,
+        reason: input.reason.trim(),
+      }, ctx.user.id);
+
+      return { success: true, refund };
+    }),
+
+  // Refunds on a job's payments, newest first
+  getJobRefunds: protectedProcedure
+    .input(z.object({
+      jobId: z.number(),
+    }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const rows = await db
+        .select({ refund: paymentRefunds })
+        .from(paymentRefunds)
+        .innerJoin(payments, eq(paymentRefunds.paymentId, payments.id))
+        .where(eq(payments.reportRequestId, input.jobId))
+        .orderBy(desc(paymentRefunds.refundDate));
+
+      return rows.map(row => row.refund);
+    }),
+
+  // What the customer owes on billed invoices after credits, payments and refunds (cents)
+  getJobBalance: protectedProcedure
+    .input(z.object({
+      jobId: z.number(),
+    }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return getJobBalance(db, input.jobId);
+    }),
+
   // Get payment summary for a job
   getPaymentSummary: protectedProcedure
     .input(z.object({
@@ -163,7 +262,7 @@ export const paymentsRouter = router({
 
       const [result] = await db
         .select({
-          totalPaid: sql<number>`COALESCE(SUM(${payments.amount}), 0)`,
+          totalPaid: sql<number>`COALESCE(SUM(${payments.amount} - ${payments.refundedAmount}), 0)`,
           paymentCount: sql<number>`COUNT(*)`,
         })
         .from(payments)
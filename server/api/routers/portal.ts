@@ -1,56 +1,334 @@
 /**
  * Portal Router
- * 
- * Handles customer-facing portal functionality (public access, no authentication required).
- * Customers can look up their jobs by phone number, send messages, and request callbacks.
+ *
+ * Handles customer-facing portal functionality. Customers sign in with a
+ * magic link sent by staff or a one-time code sent to the phone/email on file
+ * (see lib/portalAuth); everything that returns or writes job data requires
+ * the resulting portal session.
  */
 
 import { publicProcedure, protectedProcedure, router } from "../../_core/trpc";
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
+import { parse as parseCookies } from "cookie";
+import { nanoid } from "nanoid";
 import { getDb } from "../../db";
-import { reportRequests, users, activities, jobMessageReads } from "../../../drizzle/schema";
-import { eq, desc, and, or, like, inArray, isNotNull, sql } from "drizzle-orm";
+import {
+  reportRequests,
+  users,
+  activities,
+  jobMessageReads,
+  portalAccessTokens,
+  portalLoginCodes,
+  invoices,
+  invoiceItems,
+  payments,
+  documents,
+  companySettings,
+  products,
+  type Activity,
+  type Invoice,
+  type ReportRequest,
+} from "../../../drizzle/schema";
+import { eq, desc, and, or, inArray, isNull, gt, gte, lt, sql } from "drizzle-orm";
 import { notifyOwner } from "../../_core/notification";
-import { isTeamLead, canViewJob, getTeamMemberIds } from "../../lib/rbac";
-import { logEditHistory } from "../../lib/editHistory";
+import { getSessionCookieOptions } from "../../_core/cookies";
+import { isTeamLead, canViewJob, getTeamMemberIds, getAuthorizedJob } from "../../lib/rbac";
+import { logEditHistory, getClientIp } from "../../lib/editHistory";
+import { escapeHtml, sendInvoiceEmail } from "../../mail";
+import { sendSMS } from "../../sms";
+import { generateProposalPreview, createSignedProposal } from "../../lib/proposalSigning";
+import { generateInvoicePDF, buildInvoicePDFData } from "../../lib/invoicePDFGenerator";
+import { generateCompletionCertificatePDF, generateWarrantyPDF } from "../../lib/closeoutPDF";
+import { createInvoiceCheckoutSession, verifyInvoicePaymentToken, invoiceBalanceDue } from "../../lib/stripePayments";
+import {
+  PORTAL_SESSION_COOKIE,
+  PORTAL_BASE_URL,
+  MAGIC_LINK_TTL_MS,
+  CODE_SESSION_TTL_MS,
+  LOGIN_CODE_TTL_MS,
+  MAX_CODE_ATTEMPTS,
+  normalizeContact,
+  maskContact,
+  generateLoginCode,
+  hashLoginCode,
+  loginCodeMatches,
+  signMagicLinkToken,
+  verifyMagicLinkToken,
+  signPortalSession,
+  verifyPortalSession,
+  createRateLimiter,
+  type PortalContact,
+} from "../../lib/portalAuth";
+
+// Unauthenticated endpoints are limited per IP. Code requests are also limited
+// per contact, counted from portal_login_codes whether or not the contact is on
+// file so the limit can't reveal who is a customer; access links are limited
+// per job the same way.
+const ipLimiter = createRateLimiter({ max: 20, windowMs: 15 * 60 * 1000 });
+const MAX_CODES_PER_CONTACT = 3; // per 15 minutes
+const CODE_LIMIT_WINDOW_MS = 15 * 60 * 1000;
+const MAX_LINKS_PER_JOB = 5; // per hour
+
+// Activity types customers can see on their timeline
+const CUSTOMER_TIMELINE_TYPES: Activity["activityType"][] = [
+  "status_change",
+  "appointment_scheduled",
+  "inspection_complete",
+  "document_uploaded",
+  "customer_message",
+  "callback_requested",
+];
+
+// Drafts and cancelled invoices stay internal
+const CUSTOMER_INVOICE_STATUSES: Invoice["status"][] = ["sent", "paid", "overdue"];
+
+// Completion certificate and warranty are offered from these stages on
+const CLOSEOUT_STATUSES: ReportRequest["status"][] = ["completed", "invoiced", "lien_legal", "closed_deal"];
+
+function enforceIpLimit(req: any) {
+  if (!ipLimiter.hit(getClientIp(req) || "unknown")) {
+    throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: "Too many attempts. Please try again in a few minutes." });
+  }
+}
+
+// Jobs whose phone or email on file exactly matches the normalized contact
+async function findJobsForContact(db: any, contact: PortalContact) {
+  const match = contact.type === "phone"
+    ? sql`right(regexp_replace(coalesce(${reportRequests.phone}, ''), '\\D', '', 'g'), 10) = ${contact.value}`
+    : sql`lower(${reportRequests.email}) = ${contact.value}`;
+
+  return db.select({ id: reportRequests.id, fullName: reportRequests.fullName })
+    .from(reportRequests)
+    .where(match);
+}
+
+// Active access tokens held by the request's portal session
+async function getPortalTokens(db: any, req: any) {
+  const cookies = parseCookies(req?.headers?.cookie || "");
+  const tokenIds = await verifyPortalSession(cookies[PORTAL_SESSION_COOKIE]);
+  if (tokenIds.length === 0) return [];
+
+  return db.select()
+    .from(portalAccessTokens)
+    .where(and(
+      inArray(portalAccessTokens.tokenId, tokenIds),
+      isNull(portalAccessTokens.revokedAt),
+      gt(portalAccessTokens.expiresAt, new Date())
+    ));
+}
+
+// Throw unless the portal session grants access to the job
+async function requirePortalJob(db: any, req: any, jobId: number) {
+  const tokens = await getPortalTokens(db, req);
+  if (!tokens.some((token: any) => token.jobId === jobId)) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "Your portal session has expired. Please sign in again." });
+  }
+  const [job] = await db.select().from(reportRequests).where(eq(reportRequests.id, jobId));
+  if (!job) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
+  }
+  return job;
+}
+
+// Add tokens to the session cookie, keeping any still-valid ones already held
+async function addTokensToSession(db: any, ctx: any, newTokens: Array<{ tokenId: string; expiresAt: Date }>) {
+  const existing = await getPortalTokens(db, ctx.req);
+  const tokens = [...existing, ...newTokens].filter(
+    (token, index, all) => all.findIndex(other => other.tokenId === token.tokenId) === index
+  );
+  const expiresAt = new Date(Math.max(...tokens.map(token => token.expiresAt.getTime())));
+  const session = await signPortalSession(tokens.map(token => token.tokenId), expiresAt);
+
+  ctx.res.cookie(PORTAL_SESSION_COOKIE, session, {
+    ...getSessionCookieOptions(ctx.req as any),
+    maxAge: expiresAt.getTime() - Date.now(),
+  });
+}
 
 export const portalRouter = router({
-  // Look up job by phone number (public - no auth required)
-  lookupJob: publicProcedure
+  // Send a one-time code to the phone/email on file (public). Always returns the
+  // same response so the portal can't be used to check who is a customer.
+  requestCode: publicProcedure
     .input(z.object({
-      phone: z.string().min(10),
+      contact: z.string().min(5).max(320),
     }))
-    .query(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const db = await getDb();
       if (!db) throw new Error("Database not available");
 
-      // Normalize phone number - remove all non-digits
-      const normalizedPhone = input.phone.replace(/\D/g, "");
-      
-      // Search for jobs with matching phone number
+      enforceIpLimit(ctx.req);
+
+      const contact = normalizeContact(input.contact);
+      if (!contact) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Enter the 10-digit phone number or email address on your account." });
+      }
+
+      const response = {
+        success: true,
+        message: `If ${maskContact(contact)} is on file, a 6-digit code is on its way.`,
+      };
+
+      const [recent] = await db.select({ count: sql<number>`count(*)::int` })
+        .from(portalLoginCodes)
+        .where(and(
+          eq(portalLoginCodes.contact, contact.value),
+          gte(portalLoginCodes.createdAt, new Date(Date.now() - CODE_LIMIT_WINDOW_MS))
+        ));
+      if ((recent?.count || 0) >= MAX_CODES_PER_CONTACT) {
+        throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: "Too many codes requested. Please wait a few minutes." });
+      }
+
+      // Every request stores a code so the count above is the same for contacts
+      // not on file; theirs is never sent, so it can't be redeemed
+      const jobs = await findJobsForContact(db, contact);
+      const code = generateLoginCode();
+      await db.insert(portalLoginCodes).values({
+        contact: contact.value,
+        codeHash: hashLoginCode(contact.value, code),
+        expiresAt: new Date(Date.now() + LOGIN_CODE_TTL_MS),
+        ipAddress: getClientIp(ctx.req),
+      });
+      if (jobs.length === 0) return response;
+
+      const text = `Your NextDoor Exterior Solutions portal code is ${code}. It expires in 10 minutes.`;
+      try {
+        if (contact.type === "phone") {
+          await sendSMS(contact.value, text);
+        } else {
+          await sendInvoiceEmail({
+            to: contact.value,
+            subject: "Your customer portal code",
+            html: `<p>${text}</p><p>If you didn't request this, you can ignore this email.</p>`,
+          });
+        }
+      } catch (e) {
+        console.error("[Portal] Failed to send login code:", e);
+      }
+
+      return response;
+    }),
+
+  // Exchange a one-time code for a portal session covering every job on file (public)
+  verifyCode: publicProcedure
+    .input(z.object({
+      contact: z.string().min(5).max(320),
+      code: z.string().regex(/^\d{6}$/, "Enter the 6-digit code"),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      enforceIpLimit(ctx.req);
+
+      const contact = normalizeContact(input.contact);
+      const invalid = new TRPCError({ code: "UNAUTHORIZED", message: "That code is invalid or has expired." });
+      if (!contact) throw invalid;
+
+      const [loginCode] = await db.select()
+        .from(portalLoginCodes)
+        .where(and(
+          eq(portalLoginCodes.contact, contact.value),
+          isNull(portalLoginCodes.consumedAt),
+          gt(portalLoginCodes.expiresAt, new Date())
+        ))
+        .orderBy(desc(portalLoginCodes.createdAt))
+        .limit(1);
+
+      if (!loginCode) throw invalid;
+
+      // Count the attempt before checking it, in one statement, so parallel
+      // guesses can't all slip in under the limit
+      const [counted] = await db.update(portalLoginCodes)
+        .set({ attempts: sql`${portalLoginCodes.attempts} + 1` })
+        .where(and(eq(portalLoginCodes.id, loginCode.id), lt(portalLoginCodes.attempts, MAX_CODE_ATTEMPTS)))
+        .returning({ id: portalLoginCodes.id });
+      if (!counted) throw invalid;
+
+      if (!loginCodeMatches(contact.value, input.code, loginCode.codeHash)) throw invalid;
+
+      const [consumed] = await db.update(portalLoginCodes)
+        .set({ consumedAt: new Date() })
+        .where(and(eq(portalLoginCodes.id, loginCode.id), isNull(portalLoginCodes.consumedAt)))
+        .returning({ id: portalLoginCodes.id });
+      if (!consumed) throw invalid;
+
+      const jobs = await findJobsForContact(db, contact);
+      if (jobs.length === 0) throw invalid;
+
+      const expiresAt = new Date(Date.now() + CODE_SESSION_TTL_MS);
+      const tokens = jobs.map((job: { id: number }) => ({
+        jobId: job.id,
+        tokenId: nanoid(24),
+        channel: "code" as const,
+        sentTo: contact.value,
+        expiresAt,
+        lastUsedAt: new Date(),
+      }));
+      await db.insert(portalAccessTokens).values(tokens);
+      await addTokensToSession(db, ctx, tokens);
+
+      return { success: true, jobCount: jobs.length };
+    }),
+
+  // Redeem a magic link from an email/SMS (public)
+  redeemLink: publicProcedure
+    .input(z.object({
+      token: z.string().min(1).max(2000),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      enforceIpLimit(ctx.req);
+
+      const invalid = new TRPCError({ code: "UNAUTHORIZED", message: "This link is invalid or has expired. Ask us to send a new one, or sign in with a code." });
+      const payload = await verifyMagicLinkToken(input.token);
+      if (!payload) throw invalid;
+
+      const [token] = await db.select()
+        .from(portalAccessTokens)
+        .where(eq(portalAccessTokens.tokenId, payload.tokenId));
+
+      if (!token || token.jobId !== payload.jobId || token.revokedAt || token.expiresAt <= new Date()) {
+        throw invalid;
+      }
+
+      await db.update(portalAccessTokens)
+        .set({ lastUsedAt: new Date() })
+        .where(eq(portalAccessTokens.id, token.id));
+      await addTokensToSession(db, ctx, [token]);
+
+      return { success: true, jobId: token.jobId };
+    }),
+
+  // Jobs and customer-visible timeline for the current portal session (public)
+  getMyJobs: publicProcedure
+    .query(async ({ ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const tokens = await getPortalTokens(db, ctx.req);
+      const jobIds = Array.from(new Set<number>(tokens.map((token: any) => token.jobId)));
+      if (jobIds.length === 0) {
+        return { authenticated: false, jobs: [] };
+      }
+
       const jobs = await db.select({
         id: reportRequests.id,
         fullName: reportRequests.fullName,
         address: reportRequests.address,
         cityStateZip: reportRequests.cityStateZip,
         status: reportRequests.status,
+        dealType: reportRequests.dealType,
         customerStatusMessage: reportRequests.customerStatusMessage,
         scheduledDate: reportRequests.scheduledDate,
         createdAt: reportRequests.createdAt,
       })
       .from(reportRequests)
-      .where(
-        or(
-          like(reportRequests.phone, `%${normalizedPhone}%`),
-          like(reportRequests.phone, `%${input.phone}%`)
-        )
-      )
+      .where(inArray(reportRequests.id, jobIds))
       .orderBy(desc(reportRequests.createdAt));
 
-      if (jobs.length === 0) {
-        return { found: false, jobs: [] };
-      }
-
       // Get timeline for each job (limited public view)
       const jobsWithTimeline = await Promise.all(jobs.map(async (job) => {
         const timeline = await db.select({
@@ -63,15 +341,7 @@ export const portalRouter = router({
         .where(
           and(
             eq(activities.reportRequestId, job.id),
-            // Only show certain activity types to customers
-            inArray(activities.activityType, [
-              "status_change",
-              "appointment_scheduled",
-              "inspection_complete",
-              "document_uploaded",
-              "customer_message",
-              "callback_requested"
-            ])
+            inArray(activities.activityType, CUSTOMER_TIMELINE_TYPES)
           )
         )
         .orderBy(desc(activities.createdAt))
@@ -83,33 +353,28 @@ export const portalRouter = router({
         };
       }));
 
-      return { found: true, jobs: jobsWithTimeline };
+      return { authenticated: true, jobs: jobsWithTimeline };
     }),
 
-  // Send a message to job file (public)
+  // End the portal session (public)
+  signOut: publicProcedure
+    .mutation(({ ctx }) => {
+      ctx.res.clearCookie(PORTAL_SESSION_COOKIE, { ...getSessionCookieOptions(ctx.req as any), maxAge: -1 });
+      return { success: true } as const;
+    }),
+
+  // Send a message to job file (portal session)
   sendMessage: publicProcedure
     .input(z.object({
       jobId: z.number(),
-      phone: z.string().min(10),
       message: z.string().min(1).max(1000),
       senderName: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const db = await getDb();
       if (!db) throw new Error("Database not available");
 
-      // Verify phone matches the job
-      const normalizedPhone = input.phone.replace(/\D/g, "");
-      const [job] = await db.select().from(reportRequests).where(eq(reportRequests.id, input.jobId));
-      
-      if (!job) {
-        throw new Error("Job not found");
-      }
-
-      const jobPhone = job.phone?.replace(/\D/g, "") || "";
-      if (!jobPhone.includes(normalizedPhone) && !normalizedPhone.includes(jobPhone)) {
-        throw new Error("Phone number does not match job record");
-      }
+      const job = await requirePortalJob(db, ctx.req, input.jobId);
 
       // Add activity/note to job
       await db.insert(activities).values({
@@ -117,7 +382,7 @@ export const portalRouter = router({
         activityType: "customer_message",
         description: `Customer Message from ${input.senderName || job.fullName}: ${input.message}`,
         metadata: JSON.stringify({
-          phone: input.phone,
+          phone: job.phone,
           senderName: input.senderName || job.fullName,
           message: input.message,
           sentAt: new Date().toISOString(),
@@ -136,17 +401,6 @@ export const portalRouter = router({
         null
       );
 
-      // Notify admins/owners about the customer message
-      const admins = await db.select({ id: users.id, email: users.email, name: users.name })
-        .from(users)
-        .where(
-          and(
-            isNotNull(users.email),
-            isNotNull(users.name),
-            inArray(users.role, ["owner", "admin"])
-          )
-        );
-
       // Send notification to owner
       try {
         await notifyOwner({
@@ -160,30 +414,18 @@ export const portalRouter = router({
       return { success: true, message: "Your message has been sent to our team." };
     }),
 
-  // Request a callback (public)
+  // Request a callback (portal session)
   requestCallback: publicProcedure
     .input(z.object({
       jobId: z.number(),
-      phone: z.string().min(10),
       preferredTime: z.string().optional(),
       notes: z.string().max(500).optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const db = await getDb();
       if (!db) throw new Error("Database not available");
 
-      // Verify phone matches the job
-      const normalizedPhone = input.phone.replace(/\D/g, "");
-      const [job] = await db.select().from(reportRequests).where(eq(reportRequests.id, input.jobId));
-      
-      if (!job) {
-        throw new Error("Job not found");
-      }
-
-      const jobPhone = job.phone?.replace(/\D/g, "") || "";
-      if (!jobPhone.includes(normalizedPhone) && !normalizedPhone.includes(jobPhone)) {
-        throw new Error("Phone number does not match job record");
-      }
+      const job = await requirePortalJob(db, ctx.req, input.jobId);
 
       // Add activity to job
       await db.insert(activities).values({
@@ -191,7 +433,7 @@ export const portalRouter = router({
         activityType: "callback_requested",
         description: `Callback Requested: Customer ${job.fullName} requested a call${input.preferredTime ? ` (preferred: ${input.preferredTime})` : ""}${input.notes ? `. Notes: ${input.notes}` : ""}`,
         metadata: JSON.stringify({
-          phone: input.phone,
+          phone: job.phone,
           preferredTime: input.preferredTime,
           notes: input.notes,
           requestedAt: new Date().toISOString(),
@@ -213,10 +455,392 @@ export const portalRouter = router({
         console.error("Failed to send callback request notification:", e);
       }
 
-      return { 
-        success: true, 
-        message: "Your callback request has been received. A team member will contact you within 48 business hours." 
+      return {
+        success: true,
+        message: "Your callback request has been received. A team member will contact you within 48 business hours."
+      };
+    }),
+
+  // Proposal, invoices, closeout documents and shared photos for a job (portal session)
+  getDocumentCenter: publicProcedure
+    .input(z.object({ jobId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const job = await requirePortalJob(db, ctx.req, input.jobId);
+
+      const jobInvoices = await db.select({
+        id: invoices.id,
+        invoiceNumber: invoices.invoiceNumber,
+        invoiceType: invoices.invoiceType,
+        invoiceDate: invoices.invoiceDate,
+        dueDate: invoices.dueDate,
+        totalAmount: invoices.totalAmount,
+        amountPaid: invoices.amountPaid,
+        creditedAmount: invoices.creditedAmount,
+        status: invoices.status,
+        paidDate: invoices.paidDate,
+      })
+      .from(invoices)
+      .where(and(
+        eq(invoices.reportRequestId, job.id),
+        inArray(invoices.status, CUSTOMER_INVOICE_STATUSES)
+      ))
+      .orderBy(desc(invoices.invoiceDate));
+
+      const [paid] = await db.select({ total: sql<number>`coalesce(sum(${payments.amount} - ${payments.refundedAmount}), 0)::int` })
+        .from(payments)
+        .where(eq(payments.reportRequestId, job.id));
+
+      const photos = await db.select({
+        id: documents.id,
+        fileName: documents.fileName,
+        fileUrl: documents.fileUrl,
+        photoTakenAt: documents.photoTakenAt,
+        createdAt: documents.createdAt,
+      })
+      .from(documents)
+      .where(and(
+        eq(documents.reportRequestId, job.id),
+        eq(documents.customerVisible, true),
+        sql`${documents.fileType} LIKE 'image/%'`
+      ))
+      .orderBy(desc(documents.createdAt));
+
+      let signedProposalUrl: string | null = null;
+      if (job.proposalSignedDocumentId) {
+        const [signed] = await db.select({ fileUrl: documents.fileUrl })
+          .from(documents)
+          .where(eq(documents.id, job.proposalSignedDocumentId));
+        signedProposalUrl = signed?.fileUrl || null;
+      }
+
+      // Amounts in cents; payments are recorded per job, not per invoice
+      const totalInvoiced = jobInvoices.reduce((sum, inv) => sum + inv.totalAmount, 0);
+      const totalCredited = jobInvoices.reduce((sum, inv) => sum + inv.creditedAmount, 0);
+      const totalPaid = paid?.total || 0;
+
+      return {
+        proposal: {
+          available: job.priceStatus === "approved",
+          signedAt: job.proposalSignedAt,
+          signedProposalUrl,
+        },
+        invoices: jobInvoices.map(inv => ({
+          ...inv,
+          balanceDue: invoiceBalanceDue(inv),
+        })),
+        totals: {
+          totalInvoiced,
+          totalPaid,
+          totalCredited,
+          balanceDue: Math.max(0, totalInvoiced - totalCredited - totalPaid),
+        },
+        closeoutAvailable: CLOSEOUT_STATUSES.includes(job.status),
+        photos,
+      };
+    }),
+
+  // Unsigned proposal PDF to review before signing (portal session)
+  getProposalPdf: publicProcedure
+    .input(z.object({ jobId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const job = await requirePortalJob(db, ctx.req, input.jobId);
+      const pdfBuffer = await generateProposalPreview(job);
+
+      return { pdf: pdfBuffer.toString("base64") };
+    }),
+
+  // Sign the proposal online; same PDF and document record as an in-person signature (portal session)
+  signProposal: publicProcedure
+    .input(z.object({
+      jobId: z.number(),
+      customerSignature: z.string().startsWith("data:image/png;base64,").max(2_000_000),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const job = await requirePortalJob(db, ctx.req, input.jobId);
+      if (job.proposalSignedAt) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "This proposal has already been signed" });
+      }
+
+      const ipAddress = getClientIp(ctx.req);
+      const userAgent = (ctx.req?.headers?.["user-agent"] as string)?.substring(0, 500) || null;
+      const { documentId, fileUrl, signatureDate } = await createSignedProposal(db, job, {
+        customerSignature: input.customerSignature,
+        uploadedBy: null,
+        audit: { ipAddress, userAgent, signedVia: "portal" },
+      });
+
+      await db.insert(activities).values({
+        reportRequestId: job.id,
+        activityType: "document_uploaded",
+        description: `Proposal signed online by ${job.fullName}`,
+        metadata: JSON.stringify({
+          documentId,
+          signedAt: signatureDate.toISOString(),
+          ipAddress,
+          userAgent,
+        }),
+      });
+
+      try {
+        await notifyOwner({
+          title: "Proposal Signed",
+          content: `${job.fullName} signed the proposal for job #${job.id} in the customer portal`,
+        });
+      } catch (e) {
+        console.error("Failed to send proposal signed notification:", e);
+      }
+
+      return { success: true, documentUrl: fileUrl, signedAt: signatureDate };
+    }),
+
+  // Stripe Checkout for an open invoice on a job in the session (portal session)
+  createInvoiceCheckout: publicProcedure
+    .input(z.object({ jobId: z.number(), invoiceId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const job = await requirePortalJob(db, ctx.req, input.jobId);
+      const [invoice] = await db.select().from(invoices).where(and(
+        eq(invoices.id, input.invoiceId),
+        eq(invoices.reportRequestId, job.id)
+      ));
+      if (!invoice) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
+      }
+
+      return { url: await createInvoiceCheckoutSession(db, invoice) };
+    }),
+
+  // Stripe Checkout from the signed "Pay now" link in an invoice email (public)
+  startInvoicePayment: publicProcedure
+    .input(z.object({ token: z.string().min(1).max(2000) }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      enforceIpLimit(ctx.req);
+
+      const invoiceId = await verifyInvoicePaymentToken(input.token);
+      const [invoice] = invoiceId ? await db.select().from(invoices).where(eq(invoices.id, invoiceId)) : [];
+      if (!invoice) {
+        throw new TRPCError({ code: "UNAUTHORIZED", message: "This payment link is invalid or has expired. Please contact us for a new one." });
+      }
+
+      return { url: await createInvoiceCheckoutSession(db, invoice), invoiceNumber: invoice.invoiceNumber };
+    }),
+
+  // Invoice PDF (portal session)
+  getInvoicePdf: publicProcedure
+    .input(z.object({ jobId: z.number(), invoiceId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const job = await requirePortalJob(db, ctx.req, input.jobId);
+      const [invoice] = await db.select().from(invoices).where(and(
+        eq(invoices.id, input.invoiceId),
+        eq(invoices.reportRequestId, job.id),
+        inArray(invoices.status, CUSTOMER_INVOICE_STATUSES)
+      ));
+      if (!invoice) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
+      }
+
+      const lineItems = await db.select()
+        .from(invoiceItems)
+        .where(eq(invoiceItems.invoiceId, invoice.id))
+        .orderBy(invoiceItems.sortOrder);
+
+      const pdfBuffer = await generateInvoicePDF(buildInvoicePDFData(invoice, lineItems, job));
+      return { pdf: pdfBuffer.toString("base64"), fileName: `Invoice ${invoice.invoiceNumber}.pdf` };
+    }),
+
+  // Completion certificate or warranty for a completed job (portal session)
+  getCloseoutDocument: publicProcedure
+    .input(z.object({
+      jobId: z.number(),
+      document: z.enum(["completion_certificate", "warranty"]),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const job = await requirePortalJob(db, ctx.req, input.jobId);
+      if (!CLOSEOUT_STATUSES.includes(job.status)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Closeout documents are available once your project is complete" });
+      }
+
+      const [settings] = await db.select().from(companySettings).limit(1);
+      const [product] = job.selectedProductId
+        ? await db.select().from(products).where(eq(products.id, job.selectedProductId))
+        : [];
+
+      const data = {
+        companyName: settings?.companyName || "NextDoor Exterior Solutions",
+        companyPhone: settings?.companyPhone,
+        companyEmail: settings?.companyEmail,
+        contractorLicenseNumber: settings?.contractorLicenseNumber,
+        customerName: job.fullName,
+        propertyAddress: job.address,
+        cityStateZip: job.cityStateZip,
+        completionDate: job.projectCompletedAt || job.completedDate || job.updatedAt,
+        productDescription: product
+          ? [product.manufacturer, product.productName].filter(Boolean).join(" ") + (product.color ? ` - ${product.color}` : "")
+          : null,
+        manufacturerWarranty: product?.warrantyInfo,
+        laborWarrantyYears: settings?.laborWarrantyYears ?? 10,
+        materialWarrantyYears: settings?.materialWarrantyYears ?? 25,
       };
+
+      const pdfBuffer = input.document === "warranty"
+        ? await generateWarrantyPDF(data)
+        : await generateCompletionCertificatePDF(data);
+
+      return {
+        pdf: pdfBuffer.toString("base64"),
+        fileName: input.document === "warranty" ? "Warranty Certificate.pdf" : "Certificate of Completion.pdf",
+      };
+    }),
+
+  // Email or text the customer a magic link to this job's portal (staff)
+  sendAccessLink: protectedProcedure
+    .input(z.object({
+      jobId: z.number(),
+      channel: z.enum(["email", "sms"]),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const job = await getAuthorizedJob(db, ctx.user, input.jobId, "edit");
+      const sentTo = input.channel === "email" ? job.email : job.phone;
+      if (!sentTo) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: `This job has no customer ${input.channel === "email" ? "email" : "phone number"} on file` });
+      }
+
+      const [recent] = await db.select({ count: sql<number>`count(*)::int` })
+        .from(portalAccessTokens)
+        .where(and(
+          eq(portalAccessTokens.jobId, input.jobId),
+          inArray(portalAccessTokens.channel, ["email", "sms"]),
+          gte(portalAccessTokens.createdAt, new Date(Date.now() - 60 * 60 * 1000))
+        ));
+      if ((recent?.count || 0) >= MAX_LINKS_PER_JOB) {
+        throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: "Too many portal links sent for this job in the last hour" });
+      }
+
+      const tokenId = nanoid(24);
+      const expiresAt = new Date(Date.now() + MAGIC_LINK_TTL_MS);
+      const link = `${PORTAL_BASE_URL}/portal?token=${encodeURIComponent(await signMagicLinkToken({ tokenId, jobId: job.id }, expiresAt))}`;
+
+      // Store the token before sending, so every link that goes out can be redeemed and is counted above
+      const [token] = await db.insert(portalAccessTokens).values({
+        jobId: job.id,
+        tokenId,
+        channel: input.channel,
+        sentTo,
+        expiresAt,
+        createdBy: ctx.user!.id,
+      }).returning();
+
+      try {
+        if (input.channel === "email") {
+          await sendInvoiceEmail({
+            to: sentTo,
+            subject: "Your project portal - NextDoor Exterior Solutions",
+            html: `<p>Hi ${escapeHtml(job.fullName)},</p>
+<p>Follow your project at ${escapeHtml(job.address)}, send us a message or request a call from your customer portal:</p>
+<p><a href="${link}">Open my project portal</a></p>
+<p>This link is personal to you and expires on ${expiresAt.toLocaleDateString("en-US")}.</p>`,
+          });
+        } else {
+          const sent = await sendSMS(sentTo, `NextDoor Exterior Solutions: view your project at ${job.address}: ${link}`);
+          if (!sent) {
+            throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to send text message" });
+          }
+        }
+      } catch (error) {
+        await db.delete(portalAccessTokens).where(eq(portalAccessTokens.id, token.id));
+        throw error;
+      }
+
+      await db.insert(activities).values({
+        reportRequestId: job.id,
+        userId: ctx.user!.id,
+        activityType: input.channel === "email" ? "email_sent" : "sms_sent",
+        description: `Portal link sent by ${input.channel === "email" ? "email" : "text"} to ${sentTo}`,
+        metadata: JSON.stringify({ portalAccessTokenId: token.id, channel: input.channel }),
+      });
+
+      return { success: true, expiresAt };
+    }),
+
+  // Portal access issued for a job, newest first (staff)
+  getAccessTokens: protectedProcedure
+    .input(z.object({ jobId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await getAuthorizedJob(db, ctx.user, input.jobId, "view");
+
+      return db.select({
+        id: portalAccessTokens.id,
+        channel: portalAccessTokens.channel,
+        sentTo: portalAccessTokens.sentTo,
+        expiresAt: portalAccessTokens.expiresAt,
+        revokedAt: portalAccessTokens.revokedAt,
+        lastUsedAt: portalAccessTokens.lastUsedAt,
+        createdAt: portalAccessTokens.createdAt,
+        createdByName: users.name,
+      })
+      .from(portalAccessTokens)
+      .leftJoin(users, eq(portalAccessTokens.createdBy, users.id))
+      .where(eq(portalAccessTokens.jobId, input.jobId))
+      .orderBy(desc(portalAccessTokens.createdAt));
+    }),
+
+  // Revoke one portal link/session, or all of them for the job (staff)
+  revokeAccess: protectedProcedure
+    .input(z.object({
+      jobId: z.number(),
+      tokenId: z.number().optional(), // portalAccessTokens.id; omit to revoke everything
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await getAuthorizedJob(db, ctx.user, input.jobId, "edit");
+
+      const revoked = await db.update(portalAccessTokens)
+        .set({ revokedAt: new Date(), revokedBy: ctx.user!.id })
+        .where(and(
+          eq(portalAccessTokens.jobId, input.jobId),
+          isNull(portalAccessTokens.revokedAt),
+          input.tokenId ? eq(portalAccessTokens.id, input.tokenId) : undefined
+        ))
+        .returning({ id: portalAccessTokens.id });
+
+      if (revoked.length > 0) {
+        await db.insert(activities).values({
+          reportRequestId: input.jobId,
+          userId: ctx.user!.id,
+          activityType: "note_added",
+          description: `Portal access revoked (${revoked.length} link${revoked.length === 1 ? "" : "s"})`,
+        });
+      }
+
+      return { success: true, revoked: revoked.length };
     }),
 
   // Get unread message counts for all jobs (protected - requires auth)
@@ -1,11 +1,11 @@
 import { protectedProcedure, router } from "../../_core/trpc";
-import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { getDb } from "../../db";
-import { reportRequests, documents } from "../../../drizzle/schema";
+import { reportRequests } from "../../../drizzle/schema";
 import { eq } from "drizzle-orm";
-import { supabaseAdmin } from "../../lib/supabase";
 import { isTeamLead, canEditJob, canViewJob } from "../../lib/rbac";
+import { getClientIp } from "../../lib/editHistory";
+import { buildProposalData, generateProposalPreview, createSignedProposal } from "../../lib/proposalSigning";
 
 // Import helper functions (these should be in a shared utilities file)
 async function getTeamMemberIds(db: any, teamLeadId: number): Promise<number[]> {
@@ -128,38 +128,9 @@ export const proposalsRouter = router({
         throw new Error("You don't have permission to view this job");
       }
 
-      // Verify proposal is approved
-      if (job.priceStatus !== 'approved') {
-        throw new TRPCError({
-          code: 'BAD_REQUEST',
-          message: 'Proposal must be approved before generating PDF',
-        });
-      }
-
-      // Calculate roof squares
-      const roofSqFt = (job.solarApiData as any)?.totalArea || job.manualAreaSqFt || 0;
-      const roofSquares = roofSqFt / 100;
-
-      // Prepare proposal data
-      const proposalData = {
-        customerName: job.fullName,
-        customerEmail: job.email || undefined,
-        customerPhone: job.phone || undefined,
-        propertyAddress: job.address,
-        cityStateZip: job.cityStateZip,
-        totalPrice: parseFloat(job.totalPrice || '0'),
-        pricePerSq: parseFloat(job.pricePerSq || '0'),
-        roofSquares: roofSquares,
-        dealType: (job.dealType || 'cash') as 'insurance' | 'cash' | 'financed',
-        insuranceCarrier: job.insuranceCarrier || undefined,
-        claimNumber: job.claimNumber || undefined,
-        proposalDate: new Date(),
-        validUntil: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
-      };
-
       // Generate PDF preview (without signature) using form filler
-      const { generateProposalPDF } = await import('../../lib/pdfFormFiller');
-      const pdfBuffer = await generateProposalPDF(proposalData);
+      const proposalData = buildProposalData(job);
+      const pdfBuffer = await generateProposalPreview(job);
 
       // Return PDF as base64 for preview
       return { 
@@ -191,72 +162,14 @@ export const proposalsRouter = router({
         throw new Error("You don't have permission to view this job");
       }
 
-      // Verify proposal is approved
-      if (job.priceStatus !== 'approved') {
-        throw new TRPCError({
-          code: 'BAD_REQUEST',
-          message: 'Proposal must be approved before generating PDF',
-        });
-      }
-
-      // Calculate roof squares
-      const roofSqFt = (job.solarApiData as any)?.totalArea || job.manualAreaSqFt || 0;
-      const roofSquares = roofSqFt / 100;
-
-      const signatureDate = new Date();
-
-      // Prepare proposal data with signature
-      const proposalData = {
-        customerName: job.fullName,
-        customerEmail: job.email || undefined,
-        customerPhone: job.phone || undefined,
-        propertyAddress: job.address,
-        cityStateZip: job.cityStateZip,
-        totalPrice: parseFloat(job.totalPrice || '0'),
-        pricePerSq: parseFloat(job.pricePerSq || '0'),
-        roofSquares: roofSquares,
-        dealType: (job.dealType || 'cash') as 'insurance' | 'cash' | 'financed',
-        insuranceCarrier: job.insuranceCarrier || undefined,
-        claimNumber: job.claimNumber || undefined,
-        proposalDate: new Date(),
-        validUntil: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+      const { fileUrl, signatureDate } = await createSignedProposal(db, job, {
         customerSignature: input.customerSignature,
-        signatureDate: signatureDate,
-      };
-
-      // Generate PDF with signature using template
-      const { generateProposalPDF } = await import('../../lib/pdfTemplateGenerator');
-      const pdfBuffer = await generateProposalPDF(proposalData);
-
-      // Save to Supabase storage in private 'documents' bucket
-      // Organize by job ID with customer name in filename
-      const safeCustomerName = job.fullName.replace(/[^a-zA-Z0-9\s-]/g, '').replace(/\s+/g, '_');
-      const fileName = `job-${input.jobId}/Proposal - ${safeCustomerName}.pdf`;
-      const { data: uploadData, error: uploadError } = await supabaseAdmin.storage
-        .from('documents')
-        .upload(fileName, pdfBuffer, {
-          contentType: 'application/pdf',
-          upsert: false,
-        });
-
-      if (uploadError) throw uploadError;
-
-      // Get signed URL for private access (valid for 1 year)
-      const { data: signedUrlData, error: signedUrlError } = await supabaseAdmin.storage
-        .from('documents')
-        .createSignedUrl(fileName, 365 * 24 * 60 * 60); // 1 year
-
-      if (signedUrlError) throw signedUrlError;
-      const fileUrl = signedUrlData.signedUrl;
-
-      // Save document record to database
-      await db.insert(documents).values({
-        reportRequestId: input.jobId,
-        fileName: fileName,
-        fileUrl: fileUrl,
-        fileType: 'application/pdf',
-        category: 'proposal',
         uploadedBy: user!.id,
+        audit: {
+          ipAddress: getClientIp(ctx.req),
+          userAgent: (ctx.req?.headers?.["user-agent"] as string)?.substring(0, 500) || null,
+          signedVia: "in_person",
+        },
       });
 
       // Log activity
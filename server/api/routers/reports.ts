@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { eq, desc, and, gte, lte, sql, isNull, inArray } from "drizzle-orm";
-import { protectedProcedure, router } from "../../_core/trpc";
+import { ownerOfficeProcedure, protectedProcedure, router } from "../../_core/trpc";
 import { getDb } from "../../db";
 import { 
   reportRequests, 
@@ -9,9 +9,40 @@ import {
   billsPayable, 
   bankTransactions,
   invoices,
-  activities
+  activities,
+  companySettings
 } from "../../../drizzle/schema";
+import {
+  buildFinancialStatement,
+  getStatementTransactions,
+  parseStatementDate,
+  statementFileName,
+  statementToCsv,
+} from "../../lib/financialStatements";
+import { getUnderMarginJobs } from "../../lib/jobCosting";
+import { getSalesTaxLiability } from "../../lib/salesTax";
+import { getCashForecast } from "../../lib/cashForecast";
+import { generateFinancialStatementPDF } from "../../lib/pdfGenerator";
 
+const dateInput = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const statementInput = z.object({
+  from: dateInput,
+  to: dateInput,
+  basis: z.enum(["accrual", "cash"]).default("accrual"),
+  compare: z.enum(["none", "prior_period", "prior_year"]).default("none"),
+});
+
+const statementOptions = (input: z.infer<typeof statementInput>) => ({
+  from: parseStatementDate(input.from),
+  to: parseStatementDate(input.to),
+  basis: input.basis,
+  compare: input.compare,
+});
+
+// Account balances (financial statements, cash burn) come from the general
+// ledger; the job, WIP, unbilled and aging reports read the source tables.
+// See lib/ledger.ts for why.
 export const reportsRouter = router({
   
   // ============================================================================
@@ -144,6 +175,26 @@ export const reportsRouter = router({
       return result as any[];
     }),
 
+  /**
+   * Finished jobs whose actual margin from the job cost ledger is below the company target
+   */
+  getUnderMarginJobs: protectedProcedure
+    .input(z.object({
+      startDate: dateInput.optional(),
+      endDate: dateInput.optional(),
+    }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      // The end date is inclusive, through the end of that day
+      const end = input.endDate ? parseStatementDate(input.endDate) : undefined;
+      return getUnderMarginJobs(db, {
+        startDate: input.startDate ? parseStatementDate(input.startDate) : undefined,
+        endDate: end ? new Date(end.getFullYear(), end.getMonth(), end.getDate(), 23, 59, 59, 999) : undefined,
+      });
+    }),
+
   // ============================================================================
   // 2. WIP (WORK IN PROGRESS) REPORT
   // ============================================================================
@@ -246,6 +297,8 @@ export const reportsRouter = router({
 
   /**
    * Get AR Aging Detail Report
+   * Open balance per invoice: total less net payments and applied credit memos.
+   * Voided invoices are 'cancelled' and drop out.
    */
   getARAgingDetail: protectedProcedure
     .query(async () => {
@@ -261,6 +314,9 @@ export const reportsRouter = router({
             i.client_email,
             i.client_phone,
             i.total_amount,
+            i.amount_paid,
+            i.credited_amount,
+            i.total_amount - i.amount_paid - i.credited_amount as balance_due,
             i.status,
             i.invoice_date,
             i.due_date,
@@ -287,6 +343,7 @@ export const reportsRouter = router({
             ) as last_contact_date
           FROM invoices i
           WHERE i.status IN ('sent', 'overdue')
+            AND i.total_amount - i.amount_paid - i.credited_amount > 0
         )
         SELECT 
           invoice_id,
@@ -295,6 +352,9 @@ export const reportsRouter = router({
           client_email,
           client_phone,
           total_amount::numeric,
+          amount_paid::numeric,
+          credited_amount::numeric,
+          balance_due::numeric,
           status,
           invoice_date,
           due_date,
@@ -314,7 +374,7 @@ export const reportsRouter = router({
             ELSE NULL 
           END as days_since_contact
         FROM invoice_aging
-        ORDER BY days_overdue DESC, total_amount DESC
+        ORDER BY days_overdue DESC, balance_due DESC
       `;
 
       const result = await db.execute(query);
@@ -323,6 +383,7 @@ export const reportsRouter = router({
 
   /**
    * Get AR Aging Summary (by bucket)
+   * total_amount is the open balance in each bucket, in cents
    */
   getARAgingSummary: protectedProcedure
     .query(async () => {
@@ -332,13 +393,14 @@ export const reportsRouter = router({
       const query = sql`
         WITH invoice_aging AS (
           SELECT 
-            i.total_amount,
+            i.total_amount - i.amount_paid - i.credited_amount as total_amount,
             CASE 
               WHEN i.status = 'paid' THEN 0
               ELSE EXTRACT(DAY FROM (CURRENT_DATE - i.due_date))::integer
             END as days_overdue
           FROM invoices i
           WHERE i.status IN ('sent', 'overdue')
+            AND i.total_amount - i.amount_paid - i.credited_amount > 0
         )
         SELECT 
           'Current' as aging_bucket,
@@ -598,6 +660,7 @@ export const reportsRouter = router({
 
   /**
    * Get Cash Burn Rate
+   * Cash on hand and the last 8 weeks of expenses, both from the general ledger
    */
   getCashBurnRate: protectedProcedure
     .query(async () => {
@@ -607,33 +670,20 @@ export const reportsRouter = router({
       const query = sql`
         WITH weekly_expenses AS (
           SELECT 
-            AVG(weekly_total) as avg_weekly_expense
-          FROM (
-            SELECT 
-              DATE_TRUNC('week', bp.bill_date) as week,
-              SUM(bp.total_amount) as weekly_total
-            FROM bills_payable bp
-            WHERE bp.status = 'paid'
-              AND bp.bill_date >= CURRENT_DATE - INTERVAL '8 weeks'
-            GROUP BY DATE_TRUNC('week', bp.bill_date)
-          ) weekly_totals
+            SUM(jl.debit - jl.credit) / 100.0 / 8 as avg_weekly_expense
+          FROM journal_lines jl
+          JOIN journal_entries je ON je.id = jl.entry_id
+          JOIN ledger_accounts la ON la.id = jl.account_id
+          WHERE la.type = 'expense'
+            AND je.entry_date >= CURRENT_DATE - INTERVAL '8 weeks'
         ),
         current_cash AS (
+          -- Bank and card accounts from the general ledger (card balances count against cash)
           SELECT 
-            SUM(
-              CASE 
-                WHEN bt.amount > 0 THEN bt.amount
-                ELSE 0 
-              END
-            ) - 
-            SUM(
-              CASE 
-                WHEN bt.amount < 0 THEN ABS(bt.amount)
-                ELSE 0 
-              END
-            ) as bank_balance
-          FROM bank_transactions bt
-          WHERE bt.status = 'reconciled'
+            COALESCE(SUM(jl.debit - jl.credit), 0) / 100.0 as bank_balance
+          FROM journal_lines jl
+          JOIN ledger_accounts la ON la.id = jl.account_id
+          WHERE la.subtype = 'cash'
         )
         SELECT 
           ROUND(cc.bank_balance::numeric, 2) as current_bank_balance,
@@ -782,4 +832,210 @@ export const reportsRouter = router({
       const result = await db.execute(query) as any[];
       return result[0] || { unbilled_job_count: 0, total_unbilled_revenue: 0 };
     }),
+  // ============================================================================
+  // 6. INSURANCE CLAIMS
+  // ============================================================================
+
+  /**
+   * Get recoverable depreciation still owed by carriers
+   * Held-back depreciation minus the final check, for insurance jobs not denied
+   */
+  getDepreciationOutstanding: protectedProcedure
+    .query(async () => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const query = sql`
+        WITH claim_depreciation AS (
+          SELECT 
+            rr.id as job_id,
+            rr.full_name as customer_name,
+            rr.address,
+            rr.status,
+            rr.insurance_carrier,
+            rr.claim_number,
+            rr.claim_status,
+            u.name as assigned_to,
+            COALESCE(rr.acv_check_amount, 0) as acv_received,
+            rr.acv_check_received_at,
+            COALESCE(rr.recoverable_depreciation, 0) as recoverable_depreciation,
+            COALESCE(rr.final_check_amount, 0) as final_check_amount,
+            rr.project_completed_at as completed_date -- set when the job moves to completed
+          FROM report_requests rr
+          LEFT JOIN users u ON rr.assigned_to = u.id
+          WHERE rr.deal_type = 'insurance'
+            AND rr.claim_status IS DISTINCT FROM 'denied'
+        )
+        SELECT 
+          job_id,
+          customer_name,
+          address,
+          status,
+          insurance_carrier,
+          claim_number,
+          claim_status,
+          assigned_to,
+          acv_received::numeric,
+          acv_check_received_at,
+          recoverable_depreciation::numeric,
+          final_check_amount::numeric,
+          (recoverable_depreciation - final_check_amount)::numeric as depreciation_outstanding,
+          completed_date,
+          CASE 
+            WHEN completed_date IS NOT NULL 
+            THEN EXTRACT(DAY FROM (CURRENT_DATE - completed_date))::integer
+            ELSE NULL 
+          END as days_since_completion
+        FROM claim_depreciation
+        WHERE recoverable_depreciation - final_check_amount > 0
+        ORDER BY completed_date ASC NULLS LAST, depreciation_outstanding DESC
+      `;
+
+      const result = await db.execute(query);
+      return result as any[];
+    }),
+
+  // ============================================================================
+  // 7. FINANCIAL STATEMENTS
+  // ============================================================================
+
+  /**
+   * Income statement for a date range
+   */
+  getIncomeStatement: ownerOfficeProcedure
+    .input(statementInput)
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return buildFinancialStatement(db, "income", statementOptions(input));
+    }),
+
+  /**
+   * Balance sheet as of the end of the range (the start only matters for a prior-period comparison)
+   */
+  getBalanceSheet: ownerOfficeProcedure
+    .input(statementInput)
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return buildFinancialStatement(db, "balance", statementOptions(input));
+    }),
+
+  /**
+   * Statement of cash flows for a date range (indirect method)
+   */
+  getCashFlowStatement: ownerOfficeProcedure
+    .input(statementInput)
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return buildFinancialStatement(db, "cash_flow", statementOptions(input));
+    }),
+
+  /**
+   * Journal lines behind one account's figure on a statement
+   */
+  getStatementTransactions: ownerOfficeProcedure
+    .input(z.object({
+      accountId: z.number(),
+      from: z.string().optional(), // Omit for a balance sheet figure
+      to: z.string(),
+      basis: z.enum(["accrual", "cash"]).default("accrual"),
+    }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const to = parseStatementDate(input.to);
+      to.setHours(23, 59, 59, 999);
+
+      return getStatementTransactions(db, {
+        accountId: input.accountId,
+        from: input.from ? parseStatementDate(input.from) : null,
+        to,
+        basis: input.basis,
+      });
+    }),
+
+  /**
+   * Export a statement as a branded PDF or CSV (base64-encoded)
+   */
+  exportFinancialStatement: ownerOfficeProcedure
+    .input(statementInput.extend({
+      statement: z.enum(["income", "balance", "cash_flow"]),
+      format: z.enum(["pdf", "csv"]),
+    }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const statement = await buildFinancialStatement(db, input.statement, statementOptions(input));
+      const [settings] = await db.select().from(companySettings).limit(1);
+      const companyName = settings?.dbaName || settings?.companyName || undefined;
+
+      if (input.format === "csv") {
+        return {
+          fileName: statementFileName(statement, "csv"),
+          mimeType: "text/csv",
+          data: Buffer.from(statementToCsv(statement, companyName)).toString("base64"),
+        };
+      }
+
+      const pdfBuffer = await generateFinancialStatementPDF(statement, {
+        companyName,
+        companyAddress: settings?.address
+          ? [settings.address, [settings.city, settings.state].filter(Boolean).join(", "), settings.zipCode].filter(Boolean).join(" ")
+          : undefined,
+        companyPhone: settings?.companyPhone || undefined,
+        companyEmail: settings?.companyEmail || undefined,
+      });
+
+      return {
+        fileName: statementFileName(statement, "pdf"),
+        mimeType: "application/pdf",
+        data: pdfBuffer.toString("base64"),
+      };
+    }),
+
+  // ============================================================================
+  // 8. SALES TAX
+  // ============================================================================
+
+  /**
+   * Sales tax collected by county for a filing period (by invoice date)
+   */
+  getSalesTaxLiability: ownerOfficeProcedure
+    .input(z.object({
+      startDate: z.string(), // YYYY-MM-DD
+      endDate: z.string(),
+    }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const end = parseStatementDate(input.endDate);
+      return getSalesTaxLiability(db, {
+        startDate: parseStatementDate(input.startDate),
+        endDate: new Date(end.getFullYear(), end.getMonth(), end.getDate(), 23, 59, 59, 999),
+      });
+    }),
+
+  // ============================================================================
+  // 9. CASH FORECAST
+  // ============================================================================
+
+  /**
+   * 13-week cash forecast: bank balances plus expected collections and
+   * milestone billings, less bills, recurring expenses and unpaid commissions
+   */
+  getCashForecast: ownerOfficeProcedure
+    .query(async () => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return getCashForecast(db);
+    }),
 });
@@ -0,0 +1,138 @@
+/**
+ * Sales Tax Router
+ * County rate table with its ZIP codes, and each job's tax treatment and
+ * county. Invoice tax itself is calculated by lib/salesTax.
+ */
+
+import { protectedProcedure, ownerOfficeProcedure, router } from "../../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { and, asc, eq, inArray, ne } from "drizzle-orm";
+import { getDb } from "../../db";
+import { reportRequests, salesTaxRates, salesTaxZipCodes, taxTreatmentEnum } from "../../../drizzle/schema";
+import { getAuthorizedJob } from "../../lib/rbac";
+import { applySalesTaxToDrafts, findJobTaxRate } from "../../lib/salesTax";
+
+const rateInput = z.object({
+  state: z.string().length(2).default("FL"),
+  county: z.string().min(1).max(100),
+  stateRate: z.number().min(0).max(20), // Percent
+  surtaxRate: z.number().min(0).max(20),
+  surtaxCap: z.number().positive().nullable(), // Dollars; null = no cap
+  isActive: z.boolean().default(true),
+  zipCodes: z.array(z.string().regex(/^\d{5}$/, "ZIP codes must be 5 digits")).default([]),
+});
+
+export const salesTaxRouter = router({
+  // Every county with its ZIP codes
+  listRates: protectedProcedure.query(async () => {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const rates = await db.select().from(salesTaxRates).orderBy(asc(salesTaxRates.state), asc(salesTaxRates.county));
+    const zips = await db.select().from(salesTaxZipCodes).orderBy(asc(salesTaxZipCodes.zipCode));
+
+    return rates.map(rate => ({
+      ...rate,
+      zipCodes: zips.filter(zip => zip.rateId === rate.id).map(zip => zip.zipCode),
+    }));
+  }),
+
+  // Add or update a county; its ZIP list is replaced with the one given
+  saveRate: ownerOfficeProcedure
+    .input(rateInput.extend({ id: z.number().optional() }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const zipCodes = Array.from(new Set(input.zipCodes));
+      if (zipCodes.length > 0) {
+        const taken = await db
+          .select({ zipCode: salesTaxZipCodes.zipCode, county: salesTaxRates.county })
+          .from(salesTaxZipCodes)
+          .innerJoin(salesTaxRates, eq(salesTaxZipCodes.rateId, salesTaxRates.id))
+          .where(and(
+            inArray(salesTaxZipCodes.zipCode, zipCodes),
+            ...(input.id ? [ne(salesTaxZipCodes.rateId, input.id)] : [])
+          ));
+        if (taken.length > 0) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: `ZIP ${taken[0].zipCode} is already assigned to ${taken[0].county} County`,
+          });
+        }
+      }
+
+      const values = {
+        state: input.state.toUpperCase(),
+        county: input.county.trim(),
+        stateRate: input.stateRate.toFixed(3),
+        surtaxRate: input.surtaxRate.toFixed(3),
+        surtaxCap: input.surtaxCap === null ? null : Math.round(input.surtaxCap * 100),
+        isActive: input.isActive,
+        updatedAt: new Date(),
+      };
+
+      const [rate] = input.id
+        ? await db.update(salesTaxRates).set(values).where(eq(salesTaxRates.id, input.id)).returning()
+        : await db.insert(salesTaxRates).values(values).returning();
+      if (!rate) throw new TRPCError({ code: "NOT_FOUND", message: "Tax rate not found" });
+
+      await db.delete(salesTaxZipCodes).where(eq(salesTaxZipCodes.rateId, rate.id));
+      if (zipCodes.length > 0) {
+        await db.insert(salesTaxZipCodes).values(zipCodes.map(zipCode => ({ zipCode, rateId: rate.id })));
+      }
+
+      return rate;
+    }),
+
+  // Invoices keep the breakdown they were billed with; jobs pointing here fall back to their ZIP
+  deleteRate: ownerOfficeProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await db.delete(salesTaxRates).where(eq(salesTaxRates.id, input.id));
+      return { success: true };
+    }),
+
+  // The job's treatment and the county its invoices are taxed in
+  getJobTax: protectedProcedure
+    .input(z.object({ jobId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const job = await getAuthorizedJob(db, ctx.user, input.jobId, "view");
+      const { rate, zipCode } = await findJobTaxRate(db, job);
+
+      return {
+        taxTreatment: job.taxTreatment,
+        salesTaxRateId: job.salesTaxRateId,
+        zipCode,
+        rate,
+      };
+    }),
+
+  // Change how the job is taxed and re-tax its draft invoices
+  setJobTax: ownerOfficeProcedure
+    .input(z.object({
+      jobId: z.number(),
+      taxTreatment: z.enum(taxTreatmentEnum.enumValues),
+      salesTaxRateId: z.number().nullable(), // null = look up by ZIP
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await getAuthorizedJob(db, ctx.user, input.jobId, "edit");
+
+      await db.update(reportRequests)
+        .set({ taxTreatment: input.taxTreatment, salesTaxRateId: input.salesTaxRateId, updatedAt: new Date() })
+        .where(eq(reportRequests.id, input.jobId));
+
+      const draftsUpdated = await applySalesTaxToDrafts(db, input.jobId);
+      return { success: true, draftsUpdated };
+    }),
+});
@@ -0,0 +1,107 @@
+/**
+ * Scheduler Router
+ * Owner-only view of the background jobs registered in lib/scheduledJobs:
+ * last run, duration and failures, run history, and manual controls.
+ */
+
+import { protectedProcedure, router } from "../../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import { getDb } from "../../db";
+import { scheduledJobs, type ScheduledJob } from "../../../drizzle/schema";
+import { isOwner } from "../../lib/rbac";
+import { executeJob, getRecentRuns, syncScheduledJobs } from "../../lib/scheduler";
+import { SCHEDULED_JOBS } from "../../lib/scheduledJobs";
+
+function assertOwner(user: any) {
+  if (!isOwner(user)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Only owners can manage scheduled jobs" });
+  }
+}
+
+function getDefinition(name: string) {
+  const definition = SCHEDULED_JOBS.find(job => job.name === name);
+  if (!definition) {
+    throw new TRPCError({ code: "NOT_FOUND", message: `No scheduled job named "${name}"` });
+  }
+  return definition;
+}
+
+export const schedulerRouter = router({
+  // Registered jobs with their schedule, lock and latest outcome
+  list: protectedProcedure.query(async ({ ctx }) => {
+    assertOwner(ctx.user);
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    // Rows are normally created when the scheduler starts; don't show an empty page before that
+    await syncScheduledJobs(db, SCHEDULED_JOBS);
+    const rows: ScheduledJob[] = await db.select().from(scheduledJobs);
+    const now = new Date();
+
+    return SCHEDULED_JOBS.map(definition => {
+      const row = rows.find(job => job.name === definition.name);
+      return {
+        name: definition.name,
+        description: definition.description,
+        schedule: definition.schedule,
+        enabled: row?.enabled ?? true,
+        running: !!row?.lockedUntil && row.lockedUntil > now,
+        lockedBy: row?.lockedBy ?? null,
+        nextRunAt: row?.nextRunAt ?? null,
+        retryAttempt: row?.retryAttempt ?? 0,
+        consecutiveFailures: row?.consecutiveFailures ?? 0,
+        lastRunAt: row?.lastRunAt ?? null,
+        lastStatus: row?.lastStatus ?? null,
+        lastDurationMs: row?.lastDurationMs ?? null,
+        lastError: row?.lastError ?? null,
+      };
+    });
+  }),
+
+  // Run history for one job, newest first
+  getRuns: protectedProcedure
+    .input(z.object({ name: z.string(), limit: z.number().int().min(1).max(100).default(20) }))
+    .query(async ({ input, ctx }) => {
+      assertOwner(ctx.user);
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return getRecentRuns(db, input.name, input.limit);
+    }),
+
+  // Run a job immediately, regardless of its schedule
+  runNow: protectedProcedure
+    .input(z.object({ name: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      assertOwner(ctx.user);
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const definition = getDefinition(input.name);
+      await syncScheduledJobs(db, [definition]);
+
+      const outcome = await executeJob(db, definition, { manual: true, triggeredBy: ctx.user.id });
+      if (!outcome) {
+        throw new TRPCError({ code: "CONFLICT", message: "This job is already running" });
+      }
+      return outcome;
+    }),
+
+  // Pause or resume a job's schedule
+  setEnabled: protectedProcedure
+    .input(z.object({ name: z.string(), enabled: z.boolean() }))
+    .mutation(async ({ input, ctx }) => {
+      assertOwner(ctx.user);
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      getDefinition(input.name);
+      await db.update(scheduledJobs)
+        .set({ enabled: input.enabled, retryAttempt: 0, updatedAt: new Date() })
+        .where(eq(scheduledJobs.name, input.name));
+
+      return { success: true };
+    }),
+});
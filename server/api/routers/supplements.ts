@@ -0,0 +1,177 @@
+/**
+ * Supplements Router
+ * Builds insurance supplement packages from scope audit flags: a letter PDF
+ * to the carrier and a pending insurance_supplement change order
+ */
+
+import { protectedProcedure, router } from "../../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { getDb } from "../../db";
+import { insuranceScopes, changeOrders, documents, activities, companySettings } from "../../../drizzle/schema";
+import { eq, and, inArray, count } from "drizzle-orm";
+import { storagePut } from "../../storage";
+import { getAuthorizedJob } from "../../lib/rbac";
+import { auditResultSchema, type ScopeLineItem } from "../../lib/insuranceScope";
+import { draftSupplementItems, calculateSupplementTotal, getRoofMeasurements } from "../../lib/supplementBuilder";
+import { generateSupplementPDF } from "../../lib/supplementPDF";
+
+const MAX_EVIDENCE_PHOTOS = 12;
+
+const supplementItemInput = z.object({
+  code: z.string().min(1).max(50),
+  description: z.string().min(1),
+  quantity: z.number().positive(),
+  unit: z.string().min(1).max(10),
+  unitPrice: z.number().min(0), // Dollars
+});
+
+// Load a saved scope that belongs to the job
+async function getJobScope(db: any, jobId: number, scopeId: number) {
+  const [scope] = await db.select()
+    .from(insuranceScopes)
+    .where(and(eq(insuranceScopes.id, scopeId), eq(insuranceScopes.jobId, jobId)));
+  if (!scope) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Scope not found on this job" });
+  }
+  return scope;
+}
+
+// Download photo evidence; photos that cannot be fetched are left out of the letter
+async function fetchPhotos(photoDocs: { fileName: string; fileUrl: string }[]) {
+  const photos: { caption: string; data: Buffer }[] = [];
+  for (const photo of photoDocs) {
+    try {
+      const response = await fetch(photo.fileUrl);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      photos.push({ caption: photo.fileName, data: Buffer.from(await response.arrayBuffer()) });
+    } catch (error) {
+      console.error(`[Supplements] Could not fetch photo ${photo.fileName}:`, error);
+    }
+  }
+  return photos;
+}
+
+export const supplementsRouter = router({
+  // Suggest supplement line items for the selected audit flags
+  draft: protectedProcedure
+    .input(z.object({
+      jobId: z.number(),
+      scopeId: z.number(),
+      flagIndexes: z.array(z.number()).min(1),
+    }))
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const job = await getAuthorizedJob(db, ctx.user, input.jobId, "view");
+      const scope = await getJobScope(db, input.jobId, input.scopeId);
+      const audit = auditResultSchema.parse(scope.rawData);
+
+      const measurements = getRoofMeasurements(job);
+      const items = draftSupplementItems({
+        flags: input.flagIndexes.map(index => audit.audit_flags[index]).filter(Boolean),
+        measurements,
+        scopeLineItems: (scope.lineItems as ScopeLineItem[] | null) || [],
+        carrierRcv: (scope.rcvAmount || 0) / 100,
+      });
+
+      const photos = await db.select({ id: documents.id, fileName: documents.fileName, fileUrl: documents.fileUrl, category: documents.category })
+        .from(documents)
+        .where(and(
+          eq(documents.reportRequestId, input.jobId),
+          inArray(documents.category, ["drone_photo", "inspection_photo"])
+        ));
+
+      return { items, measurements, photos };
+    }),
+
+  // Generate the supplement letter and a pending change order for the requested amount
+  create: protectedProcedure
+    .input(z.object({
+      jobId: z.number(),
+      scopeId: z.number(),
+      items: z.array(supplementItemInput).min(1),
+      photoDocumentIds: z.array(z.number()).max(MAX_EVIDENCE_PHOTOS).default([]),
+      notes: z.string().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const job = await getAuthorizedJob(db, ctx.user, input.jobId, "edit");
+      const scope = await getJobScope(db, input.jobId, input.scopeId);
+
+      const [{ existing }] = await db.select({ existing: count() })
+        .from(changeOrders)
+        .where(and(eq(changeOrders.jobId, input.jobId), eq(changeOrders.type, "insurance_supplement")));
+      const supplementNumber = Number(existing) + 1;
+
+      const totalCents = calculateSupplementTotal(input.items);
+
+      const photoDocs = input.photoDocumentIds.length > 0
+        ? await db.select({ fileName: documents.fileName, fileUrl: documents.fileUrl })
+            .from(documents)
+            .where(and(eq(documents.reportRequestId, input.jobId), inArray(documents.id, input.photoDocumentIds)))
+        : [];
+
+      const [settings] = await db.select().from(companySettings).limit(1);
+
+      const pdfBuffer = await generateSupplementPDF({
+        supplementNumber,
+        letterDate: new Date().toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" }),
+        companyName: settings?.companyName || "NextDoor Exterior Solutions",
+        companyPhone: settings?.companyPhone,
+        companyEmail: settings?.companyEmail,
+        customerName: job.fullName,
+        propertyAddress: job.address,
+        carrierName: scope.carrierName || job.insuranceCarrier || "Insurance Carrier",
+        claimNumber: scope.claimNumber || job.claimNumber || "N/A",
+        scopeVersion: scope.version,
+        carrierRcv: (scope.rcvAmount || 0) / 100,
+        items: input.items,
+        totalAmount: totalCents / 100,
+        measurements: getRoofMeasurements(job),
+        notes: input.notes,
+        preparedBy: ctx.user.name || ctx.user.email || "Estimating Department",
+        photos: await fetchPhotos(photoDocs),
+      });
+
+      const fileName = `Supplement ${supplementNumber} - Claim ${scope.claimNumber || job.claimNumber || job.id}.pdf`;
+      const { url } = await storagePut(`job-${input.jobId}/supplements/${Date.now()}-supplement-${supplementNumber}.pdf`, pdfBuffer, "application/pdf", "documents");
+
+      const [document] = await db.insert(documents).values({
+        reportRequestId: input.jobId,
+        uploadedBy: ctx.user.id,
+        fileName,
+        fileUrl: url,
+        fileType: "application/pdf",
+        fileSize: pdfBuffer.length,
+        category: "report",
+      }).returning();
+
+      const [changeOrder] = await db.insert(changeOrders).values({
+        jobId: input.jobId,
+        type: "insurance_supplement",
+        description: `Supplement #${supplementNumber}: ${input.items.map(item => item.description).join(", ")}`,
+        amount: totalCents,
+        status: "pending",
+        documentId: document.id,
+        createdBy: ctx.user.id,
+      }).returning();
+
+      await db.insert(activities).values({
+        reportRequestId: input.jobId,
+        userId: ctx.user.id,
+        activityType: "note_added",
+        description: `Supplement #${supplementNumber} prepared for ${scope.carrierName || "carrier"} ($${(totalCents / 100).toFixed(2)})`,
+        metadata: JSON.stringify({
+          changeOrderId: changeOrder.id,
+          documentId: document.id,
+          scopeId: scope.id,
+        }),
+      });
+
+      return { changeOrder, document, pdfUrl: url };
+    }),
+});
@@ -0,0 +1,115 @@
+/**
+ * Task Templates Router
+ * Owner-managed checklists generated when a job enters a pipeline stage
+ */
+
+import { protectedProcedure, router } from "../../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { getDb } from "../../db";
+import { taskTemplates, tasks, users, statusEnum, dealTypeEnum, priorityEnum } from "../../../drizzle/schema";
+import { eq, asc } from "drizzle-orm";
+import { isOwner } from "../../lib/rbac";
+
+const templateInput = z.object({
+  title: z.string().min(1).max(255),
+  description: z.string().nullable().optional(),
+  triggerStatus: z.enum(statusEnum.enumValues),
+  dealType: z.enum(dealTypeEnum.enumValues).nullable(), // null = all deal types
+  dueInDays: z.number().int().min(0).max(365),
+  assignedTo: z.number().nullable().optional(), // null = the job's assigned rep
+  priority: z.enum(priorityEnum.enumValues).default("medium"),
+  sortOrder: z.number().int().default(0),
+  isActive: z.boolean().default(true),
+});
+
+function assertOwner(user: any, action: string) {
+  if (!isOwner(user)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `Only owners can ${action} task templates`,
+    });
+  }
+}
+
+export const taskTemplatesRouter = router({
+  // List all templates, ordered by stage
+  list: protectedProcedure.query(async () => {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    return await db
+      .select({
+        id: taskTemplates.id,
+        title: taskTemplates.title,
+        description: taskTemplates.description,
+        triggerStatus: taskTemplates.triggerStatus,
+        dealType: taskTemplates.dealType,
+        dueInDays: taskTemplates.dueInDays,
+        assignedTo: taskTemplates.assignedTo,
+        priority: taskTemplates.priority,
+        sortOrder: taskTemplates.sortOrder,
+        isActive: taskTemplates.isActive,
+        assigneeName: users.name,
+      })
+      .from(taskTemplates)
+      .leftJoin(users, eq(taskTemplates.assignedTo, users.id))
+      .orderBy(asc(taskTemplates.triggerStatus), asc(taskTemplates.sortOrder), asc(taskTemplates.id));
+  }),
+
+  // Create a template (Owner only)
+  create: protectedProcedure
+    .input(templateInput)
+    .mutation(async ({ input, ctx }) => {
+      assertOwner(ctx.user, "create");
+
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [template] = await db.insert(taskTemplates).values({
+        ...input,
+        description: input.description || null,
+        assignedTo: input.assignedTo ?? null,
+        createdBy: ctx.user.id,
+      }).returning();
+
+      return template;
+    }),
+
+  // Update a template (Owner only); already-generated tasks are left as they are
+  update: protectedProcedure
+    .input(templateInput.partial().extend({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      assertOwner(ctx.user, "edit");
+
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const { id, ...changes } = input;
+      const [template] = await db.update(taskTemplates)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(taskTemplates.id, id))
+        .returning();
+
+      if (!template) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Task template not found" });
+      }
+
+      return template;
+    }),
+
+  // Delete a template (Owner only); generated tasks are kept but unlinked
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      assertOwner(ctx.user, "delete");
+
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await db.update(tasks).set({ templateId: null }).where(eq(tasks.templateId, input.id));
+      await db.delete(taskTemplates).where(eq(taskTemplates.id, input.id));
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,262 @@
+/**
+ * Tasks Router
+ * Job punch lists and follow-ups backed by the tasks table
+ */
+
+import { protectedProcedure, router } from "../../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { getDb } from "../../db";
+import { tasks, reportRequests, users, activities, notifications } from "../../../drizzle/schema";
+import { eq, and, desc, asc, lt, inArray, isNotNull, sql, type SQL } from "drizzle-orm";
+import { isTeamLead, getTeamMemberIds, getAuthorizedJob, viewableJobAssignees } from "../../lib/rbac";
+
+const OPEN_TASK_STATUSES = ["pending", "in_progress"] as const;
+
+// Columns returned for task lists, with the job they belong to
+const taskListColumns = {
+  id: tasks.id,
+  jobId: tasks.jobId,
+  title: tasks.title,
+  description: tasks.description,
+  assignedTo: tasks.assignedTo,
+  createdBy: tasks.createdBy,
+  status: tasks.status,
+  priority: tasks.priority,
+  dueDate: tasks.dueDate,
+  completedAt: tasks.completedAt,
+  createdAt: tasks.createdAt,
+  jobName: reportRequests.fullName,
+  jobAddress: reportRequests.address,
+  jobAssignedTo: reportRequests.assignedTo,
+};
+
+// Load a task with its job; assignees may update their own tasks even without edit rights on the job
+async function getAuthorizedTask(db: any, user: any, taskId: number) {
+  const [task] = await db.select().from(tasks).where(eq(tasks.id, taskId));
+  if (!task) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Task not found" });
+  }
+
+  const job = await getAuthorizedJob(db, user, task.jobId, task.assignedTo === user.id ? "view" : "edit");
+  return { task, job };
+}
+
+// Limit task rows to jobs the user can view; undefined when they can view every job
+async function jobVisibilityCondition(db: any, user: any): Promise<SQL | undefined> {
+  const teamMemberIds = isTeamLead(user) ? await getTeamMemberIds(db, user.id) : [];
+  const assignees = viewableJobAssignees(user, teamMemberIds);
+  if (assignees === "all") return undefined;
+  return assignees.length > 0 ? inArray(reportRequests.assignedTo, assignees) : sql`false`;
+}
+
+export const tasksRouter = router({
+  // Get all tasks for a job
+  getJobTasks: protectedProcedure
+    .input(z.object({
+      jobId: z.number(),
+      includeCompleted: z.boolean().default(true),
+    }))
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await getAuthorizedJob(db, ctx.user, input.jobId, "view");
+
+      const conditions = [eq(tasks.jobId, input.jobId)];
+      if (!input.includeCompleted) {
+        conditions.push(inArray(tasks.status, [...OPEN_TASK_STATUSES]));
+      }
+
+      return await db
+        .select({
+          ...taskListColumns,
+          assigneeName: users.name,
+          assigneeEmail: users.email,
+        })
+        .from(tasks)
+        .innerJoin(reportRequests, eq(tasks.jobId, reportRequests.id))
+        .leftJoin(users, eq(tasks.assignedTo, users.id))
+        .where(and(...conditions))
+        .orderBy(asc(tasks.status), asc(tasks.dueDate), desc(tasks.createdAt));
+    }),
+
+  // Get open tasks assigned to the current user
+  getMyTasks: protectedProcedure
+    .input(z.object({
+      includeCompleted: z.boolean().default(false),
+    }).optional())
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const conditions = [eq(tasks.assignedTo, ctx.user.id), await jobVisibilityCondition(db, ctx.user)];
+      if (!input?.includeCompleted) {
+        conditions.push(inArray(tasks.status, [...OPEN_TASK_STATUSES]));
+      }
+
+      return await db
+        .select(taskListColumns)
+        .from(tasks)
+        .innerJoin(reportRequests, eq(tasks.jobId, reportRequests.id))
+        .where(and(...conditions))
+        .orderBy(asc(tasks.dueDate), desc(tasks.createdAt));
+    }),
+
+  // Get open tasks past their due date (role-based)
+  getOverdue: protectedProcedure
+    .input(z.object({
+      limit: z.number().min(1).max(200).default(50),
+    }).optional())
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return await db
+        .select({
+          ...taskListColumns,
+          assigneeName: users.name,
+        })
+        .from(tasks)
+        .innerJoin(reportRequests, eq(tasks.jobId, reportRequests.id))
+        .leftJoin(users, eq(tasks.assignedTo, users.id))
+        .where(and(
+          inArray(tasks.status, [...OPEN_TASK_STATUSES]),
+          isNotNull(tasks.dueDate),
+          lt(tasks.dueDate, new Date()),
+          await jobVisibilityCondition(db, ctx.user)
+        ))
+        .orderBy(asc(tasks.dueDate))
+        .limit(input?.limit ?? 50);
+    }),
+
+  // Create a task on a job
+  create: protectedProcedure
+    .input(z.object({
+      jobId: z.number(),
+      title: z.string().min(1).max(255),
+      description: z.string().optional(),
+      assignedTo: z.number().nullable().optional(),
+      priority: z.enum(["low", "medium", "high", "urgent"]).default("medium"),
+      dueDate: z.string().nullable().optional(), // ISO date string
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const job = await getAuthorizedJob(db, ctx.user, input.jobId, "edit");
+
+      const [task] = await db.insert(tasks).values({
+        jobId: input.jobId,
+        title: input.title,
+        description: input.description || null,
+        assignedTo: input.assignedTo ?? null,
+        createdBy: ctx.user.id,
+        priority: input.priority,
+        dueDate: input.dueDate ? new Date(input.dueDate) : null,
+      }).returning();
+
+      await db.insert(activities).values({
+        reportRequestId: input.jobId,
+        userId: ctx.user.id,
+        activityType: "note_added",
+        description: `Task added: ${input.title}`,
+      });
+
+      if (task.assignedTo && task.assignedTo !== ctx.user.id) {
+        await db.insert(notifications).values({
+          userId: task.assignedTo,
+          createdBy: ctx.user.id,
+          resourceId: input.jobId,
+          type: "assignment",
+          content: `${ctx.user.name || ctx.user.email} assigned you a task on ${job.fullName}: ${input.title}`,
+          isRead: false,
+        });
+      }
+
+      return task;
+    }),
+
+  // Assign (or unassign) a task
+  assign: protectedProcedure
+    .input(z.object({
+      id: z.number(),
+      assignedTo: z.number().nullable(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      // Reassigning always requires edit rights on the job (assignees may only update status)
+      const [task] = await db.select().from(tasks).where(eq(tasks.id, input.id));
+      if (!task) throw new TRPCError({ code: "NOT_FOUND", message: "Task not found" });
+      const job = await getAuthorizedJob(db, ctx.user, task.jobId, "edit");
+
+      const [updated] = await db.update(tasks)
+        .set({ assignedTo: input.assignedTo, updatedAt: new Date() })
+        .where(eq(tasks.id, input.id))
+        .returning();
+
+      if (input.assignedTo && input.assignedTo !== ctx.user.id) {
+        await db.insert(notifications).values({
+          userId: input.assignedTo,
+          createdBy: ctx.user.id,
+          resourceId: task.jobId,
+          type: "assignment",
+          content: `${ctx.user.name || ctx.user.email} assigned you a task on ${job.fullName}: ${task.title}`,
+          isRead: false,
+        });
+      }
+
+      return updated;
+    }),
+
+  // Mark a task completed
+  complete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const { task } = await getAuthorizedTask(db, ctx.user, input.id);
+      if (task.status === "completed") return task;
+
+      const [updated] = await db.update(tasks)
+        .set({ status: "completed", completedAt: new Date(), updatedAt: new Date() })
+        .where(eq(tasks.id, input.id))
+        .returning();
+
+      await db.insert(activities).values({
+        reportRequestId: task.jobId,
+        userId: ctx.user.id,
+        activityType: "note_added",
+        description: `Task completed: ${task.title}`,
+      });
+
+      return updated;
+    }),
+
+  // Reopen a completed or cancelled task
+  reopen: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const { task } = await getAuthorizedTask(db, ctx.user, input.id);
+
+      const [updated] = await db.update(tasks)
+        .set({ status: "pending", completedAt: null, updatedAt: new Date() })
+        .where(eq(tasks.id, input.id))
+        .returning();
+
+      await db.insert(activities).values({
+        reportRequestId: task.jobId,
+        userId: ctx.user.id,
+        activityType: "note_added",
+        description: `Task reopened: ${task.title}`,
+      });
+
+      return updated;
+    }),
+});
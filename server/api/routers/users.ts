@@ -139,6 +139,11 @@ export const usersRouter = router({
       contractorLicenseNumber: z.string().optional(),
       beaconAccountNumber: z.string().optional(),
       beaconBranchCode: z.string().optional(),
+      invoiceRemindersEnabled: z.boolean().optional(),
+      invoiceReminderDays: z.array(z.number().int().min(-60).max(365)).max(10).optional(),
+      invoiceReminderSms: z.boolean().optional(),
+      targetGrossMarginPercent: z.number().min(0).max(100).optional(),
+      lowCashThreshold: z.number().min(0).optional(), // Dollars
     }))
     .mutation(async ({ input, ctx }) => {
       const db = await getDb();
@@ -154,6 +159,9 @@ export const usersRouter = router({
 
       const updateData: Record<string, any> = {
         ...input,
+        ...(input.invoiceReminderDays && { invoiceReminderDays: Array.from(new Set(input.invoiceReminderDays)).sort((a, b) => a - b) }),
+        ...(input.targetGrossMarginPercent !== undefined && { targetGrossMarginPercent: input.targetGrossMarginPercent.toFixed(2) }),
+        ...(input.lowCashThreshold !== undefined && { lowCashThreshold: Math.round(input.lowCashThreshold * 100) }),
         updatedBy: ctx.user!.id,
         updatedAt: new Date(),
       };
@@ -0,0 +1,228 @@
+/**
+ * Vendors Router
+ * Vendor records behind bills and expenses: contact and W-9 details, merging
+ * duplicates, and the year-end 1099-NEC report. Matching and the 1099 rules
+ * live in lib/vendors.
+ */
+
+import { protectedProcedure, ownerOfficeProcedure, router } from "../../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { eq, sql } from "drizzle-orm";
+import { getDb } from "../../db";
+import { billsPayable, expenseCategoryEnum, expenses, vendors, vendorTinTypeEnum } from "../../../drizzle/schema";
+import {
+  assertVendorNameFree,
+  form1099NecCsv,
+  get1099Report,
+  listVendors,
+  mergeVendors,
+  normalizeTin,
+  publicVendor,
+} from "../../lib/vendors";
+import { postBill, postExpense } from "../../lib/ledger";
+
+const vendorInput = z.object({
+  name: z.string().trim().min(1).max(255),
+  contactName: z.string().max(255).nullish(),
+  email: z.string().max(320).nullish(),
+  phone: z.string().max(50).nullish(),
+  addressLine1: z.string().max(255).nullish(),
+  addressLine2: z.string().max(255).nullish(),
+  city: z.string().max(100).nullish(),
+  state: z.string().max(2).nullish(),
+  zipCode: z.string().max(10).nullish(),
+  legalName: z.string().max(255).nullish(),
+  tin: z.string().nullish(), // Undefined keeps the stored TIN, null clears it
+  tinType: z.enum(vendorTinTypeEnum.enumValues).nullish(),
+  w9OnFile: z.boolean().default(false),
+  w9ReceivedAt: z.string().nullish(), // ISO date
+  is1099Eligible: z.boolean().default(false),
+  defaultCategory: z.enum(expenseCategoryEnum.enumValues).nullish(),
+  paymentTermsDays: z.number().int().min(0).max(365).default(30),
+  notes: z.string().nullish(),
+  isActive: z.boolean().default(true),
+});
+
+function vendorValues(input: z.infer<typeof vendorInput>) {
+  const blank = (value: string | null | undefined) => (value?.trim() ? value.trim() : null);
+  const values: Record<string, unknown> = {
+    name: input.name,
+    contactName: blank(input.contactName),
+    email: blank(input.email),
+    phone: blank(input.phone),
+    addressLine1: blank(input.addressLine1),
+    addressLine2: blank(input.addressLine2),
+    city: blank(input.city),
+    state: blank(input.state)?.toUpperCase() ?? null,
+    zipCode: blank(input.zipCode),
+    legalName: blank(input.legalName),
+    w9OnFile: input.w9OnFile,
+    w9ReceivedAt: input.w9ReceivedAt ? new Date(input.w9ReceivedAt) : null,
+    is1099Eligible: input.is1099Eligible,
+    defaultCategory: input.defaultCategory ?? null,
+    paymentTermsDays: input.paymentTermsDays,
+    notes: blank(input.notes),
+    isActive: input.isActive,
+  };
+  if (input.tin !== undefined) {
+    values.tin = input.tin?.trim() ? normalizeTin(input.tin) : null;
+    values.tinType = values.tin ? input.tinType ?? "ein" : null;
+  } else if (input.tinType !== undefined) {
+    values.tinType = input.tinType;
+  }
+  return values;
+}
+
+export const vendorsRouter = router({
+  // All vendors with bill/expense activity and merge suggestions; TINs masked
+  list: protectedProcedure.query(async () => {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    return listVendors(db);
+  }),
+
+  // One vendor with its recent bills and expenses
+  getById: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [vendor] = await db.select().from(vendors).where(eq(vendors.id, input.id));
+      if (!vendor) throw new TRPCError({ code: "NOT_FOUND", message: "Vendor not found" });
+
+      const bills = await db
+        .select()
+        .from(billsPayable)
+        .where(eq(billsPayable.vendorId, input.id))
+        .orderBy(sql`${billsPayable.billDate} DESC`)
+        .limit(50);
+      const vendorExpenses = await db
+        .select()
+        .from(expenses)
+        .where(eq(expenses.vendorId, input.id))
+        .orderBy(sql`${expenses.date} DESC`)
+        .limit(50);
+
+      return { vendor: publicVendor(vendor), bills, expenses: vendorExpenses };
+    }),
+
+  // Add a vendor
+  create: ownerOfficeProcedure
+    .input(vendorInput)
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      await assertVendorNameFree(db, input.name);
+      const [vendor] = await db
+        .insert(vendors)
+        .values({ ...vendorValues(input), createdBy: ctx.user.id } as typeof vendors.$inferInsert)
+        .returning();
+
+      return publicVendor(vendor);
+    }),
+
+  // Edit a vendor; a rename carries over to its bills and expenses
+  update: ownerOfficeProcedure
+    .input(vendorInput.extend({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const { id, ...data } = input;
+      const [current] = await db.select().from(vendors).where(eq(vendors.id, id));
+      if (!current) throw new TRPCError({ code: "NOT_FOUND", message: "Vendor not found" });
+      if (data.name !== current.name) await assertVendorNameFree(db, data.name, id);
+
+      const renamed = data.name !== current.name;
+      const [vendor] = await db
+        .update(vendors)
+        .set({
+          ...vendorValues(data),
+          // Keep the old name so bills typed under it still find this vendor
+          aliases: renamed && !current.aliases.includes(current.name) ? [...current.aliases, current.name] : current.aliases,
+          updatedAt: new Date(),
+        })
+        .where(eq(vendors.id, id))
+        .returning();
+
+      if (renamed) {
+        const bills = await db
+          .update(billsPayable)
+          .set({ vendorName: vendor.name })
+          .where(eq(billsPayable.vendorId, id))
+          .returning({ id: billsPayable.id });
+        const renamedExpenses = await db
+          .update(expenses)
+          .set({ vendorName: vendor.name })
+          .where(eq(expenses.vendorId, id))
+          .returning({ id: expenses.id });
+        for (const bill of bills) await postBill(db, bill.id);
+        for (const expense of renamedExpenses) await postExpense(db, expense.id);
+      }
+
+      return publicVendor(vendor);
+    }),
+
+  // Fold duplicate vendors into one, moving their bills and expenses
+  merge: ownerOfficeProcedure
+    .input(z.object({
+      targetId: z.number(),
+      sourceIds: z.array(z.number()).min(1),
+    }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      return mergeVendors(db, input.targetId, input.sourceIds);
+    }),
+
+  // Delete a vendor that has nothing recorded against it
+  delete: ownerOfficeProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const [bill] = await db.select({ id: billsPayable.id }).from(billsPayable).where(eq(billsPayable.vendorId, input.id)).limit(1);
+      const [expense] = await db.select({ id: expenses.id }).from(expenses).where(eq(expenses.vendorId, input.id)).limit(1);
+      if (bill || expense) {
+        throw new TRPCError({ code: "CONFLICT", message: "This vendor has bills or expenses. Merge it into another vendor or mark it inactive instead." });
+      }
+
+      await db.delete(vendors).where(eq(vendors.id, input.id));
+      return { success: true };
+    }),
+
+  // Year-end payments per 1099-eligible vendor
+  get1099Report: ownerOfficeProcedure
+    .input(z.object({ year: z.number().int().min(2000).max(2100) }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const report = await get1099Report(db, input.year);
+      return {
+        ...report,
+        rows: report.rows.map(({ tin, ...row }) => ({ ...row, hasTin: !!tin })),
+      };
+    }),
+
+  // 1099-NEC-ready CSV of the vendors at or over the threshold (base64-encoded)
+  export1099Csv: ownerOfficeProcedure
+    .input(z.object({ year: z.number().int().min(2000).max(2100) }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new Error("Database not available");
+
+      const report = await get1099Report(db, input.year);
+      return {
+        fileName: `1099-nec_${input.year}.csv`,
+        mimeType: "text/csv",
+        data: Buffer.from(form1099NecCsv(report.rows)).toString("base64"),
+      };
+    }),
+});
@@ -0,0 +1,764 @@
+/**
+ * Bank Reconciliation Matcher
+ *
+ * Proposes which payments, invoices, bills or expenses a pending bank
+ * transaction settles. Deposits are matched against recorded customer
+ * payments and open invoices; withdrawals against bills and hand-logged
+ * expenses. Each candidate is scored on:
+ *
+ *   amount     exact to the cent, or close enough to be a fee difference
+ *   date       how far apart the two dates are, within a per-type window
+ *   identity   a matching check/reference number, or how much the bank
+ *              description looks like the payee (a learned alias counts as certain)
+ *
+ * A transaction can also match several documents of one type whose amounts
+ * add up exactly (a deposit of three checks, one payment for two bills).
+ *
+ * Suggestions are stored for someone to confirm or reject. Confirming
+ * reconciles the transaction the same way a manual reconcile would (deposit,
+ * bill payment, or a transfer out of Operating Cash for expenses) and records
+ * the description as an alias for the payee; once an alias exists, an exact
+ * single match for that payee is confirmed automatically.
+ */
+
+import { and, eq, gte, inArray, lte, sql } from "drizzle-orm";
+import {
+  activities,
+  bankTransactionMatches,
+  bankTransactions,
+  billsPayable,
+  expenses,
+  invoices,
+  payeeAliases,
+  payments,
+  reportRequests,
+  type BankTransaction,
+  type BankTransactionMatch,
+  type Invoice,
+} from "../../drizzle/schema";
+import { canPayBill, payBlockedReason } from "./billApprovals";
+import { dollarsToCents, postBankTransaction, postBill, postInvoice, postPayment } from "./ledger";
+import { getOpenInvoiceBalances, syncInvoicePayments, syncJobAmountPaid } from "./stripePayments";
+
+export type MatchTargetType = "payment" | "invoice" | "bill" | "expense";
+
+export interface MatchCandidate {
+  type: MatchTargetType;
+  id: number;
+  amount: number; // Cents, positive
+  date: Date;
+  payee: string | null;
+  reference: string | null; // Check number, bill number or invoice number
+  jobId: number | null;
+  label: string;
+}
+
+export interface MatchableTransaction {
+  amount: number; // Signed cents; deposits are positive
+  date: Date;
+  description: string;
+  referenceNumber: string | null;
+}
+
+export interface ScoredMatch {
+  type: MatchTargetType;
+  targets: MatchCandidate[];
+  score: number; // 0-1
+  reasons: string[];
+  exactAmount: boolean;
+  aliasMatched: boolean;
+}
+
+/** Payee aliases: normalized description -> lower-cased payee names confirmed for it */
+export type AliasMap = Map<string, Set<string>>;
+
+const DATE_WINDOW_DAYS: Record<MatchTargetType, number> = {
+  payment: 10, // Recorded payment to deposit
+  invoice: 45, // Due date to the customer actually paying
+  bill: 45, // Due date to the check clearing
+  expense: 10,
+};
+
+const WEIGHTS = { amount: 0.5, date: 0.2, identity: 0.3 };
+const MIN_SCORE = 0.55;
+const AUTO_CONFIRM_SCORE = 0.9;
+const MAX_GROUP_SIZE = 4;
+const MAX_GROUP_CANDIDATES = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Text
+// ============================================================================
+
+const BANK_NOISE = new Set([
+  "ACH", "POS", "DEBIT", "CREDIT", "CARD", "CHECKCARD", "PURCHASE", "PAYMENT", "PMT", "ONLINE", "WEB",
+  "TRANSFER", "XFER", "WITHDRAWAL", "DEPOSIT", "MOBILE", "RECURRING", "BILL", "PAY", "PPD", "CCD",
+  "ID", "REF", "TRN", "CHECK", "CHK", "DDA", "VISA", "MC", "SQ", "TST", "EFT",
+]);
+
+const COMPANY_NOISE = new Set(["THE", "INC", "LLC", "CO", "CORP", "CORPORATION", "COMPANY", "LTD", "OF", "AND"]);
+
+const words = (text: string) =>
+  text.toUpperCase().replace(/[^A-Z0-9 ]+/g, " ").split(/\s+/).filter(Boolean);
+
+/**
+ * The part of a bank description that identifies the payee: bank boilerplate,
+ * numbers and card/store ids removed, first three words kept. This is the key
+ * aliases are learned under, so "POS DEBIT HOME DEPOT #4512 07/14" and
+ * "HOME DEPOT 0331" both become "HOME DEPOT".
+ */
+export function normalizePayee(description: string): string {
+  return words(description)
+    .filter(word => !BANK_NOISE.has(word) && !/\d/.test(word) && word.length > 1)
+    .slice(0, 3)
+    .join(" ");
+}
+
+/**
+ * How much of the payee's name appears in the bank description (0-1).
+ */
+export function payeeSimilarity(description: string, payee: string | null): number {
+  if (!payee) return 0;
+  const payeeWords = words(payee).filter(word => !COMPANY_NOISE.has(word));
+  if (payeeWords.length === 0) return 0;
+
+  const descriptionWords = words(description);
+  const squashed = descriptionWords.join("");
+  if (squashed.includes(payeeWords.join(""))) return 1; // "HOMEDEPOT" for "The Home Depot"
+
+  const found = payeeWords.filter(word =>
+    descriptionWords.some(candidate =>
+      candidate === word || (word.length >= 4 && candidate.length >= 4 && (candidate.startsWith(word) || word.startsWith(candidate)))
+    )
+  );
+  return found.length / payeeWords.length;
+}
+
+/**
+ * Check and reference numbers on a bank line: its reference column plus any
+ * "CHECK 1234" / "CHK #1234" / "#1234" in the description.
+ */
+export function extractReferences(transaction: Pick<MatchableTransaction, "description" | "referenceNumber">): string[] {
+  const refs = new Set<string>();
+  const add = (value: string | null | undefined) => {
+    const cleaned = (value || "").replace(/^0+/, "").trim().toUpperCase();
+    if (cleaned) refs.add(cleaned);
+  };
+
+  add(transaction.referenceNumber);
+  const pattern = /(?:CHECK|CHK|CK|#)\s*#?\s*(\d{3,})/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(transaction.description)) !== null) add(match[1]);
+  return Array.from(refs);
+}
+
+const normalizeReference = (value: string) => value.replace(/^0+/, "").trim().toUpperCase();
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+interface CandidateScore {
+  amount: number;
+  date: number;
+  identity: number;
+  exactAmount: boolean;
+  aliasMatched: boolean;
+  reasons: string[];
+}
+
+function amountScore(difference: number, total: number): { score: number; reason: string } | null {
+  if (difference <= 1) return { score: 1, reason: "Amount matches exactly" };
+  if (difference <= Math.max(100, Math.round(total * 0.005))) {
+    return { score: 0.6, reason: `Amount within $${(difference / 100).toFixed(2)}` };
+  }
+  return null;
+}
+
+function scoreParts(transaction: MatchableTransaction, candidate: MatchCandidate, aliases: AliasMap, references: string[]): Omit<CandidateScore, "amount" | "exactAmount"> | null {
+  const days = Math.round(Math.abs(transaction.date.getTime() - candidate.date.getTime()) / DAY_MS);
+  const window = DATE_WINDOW_DAYS[candidate.type];
+  if (days > window) return null;
+
+  const reasons = [days === 0 ? "Same day" : `${days} day${days === 1 ? "" : "s"} apart`];
+
+  const referenceMatched = !!candidate.reference && references.includes(normalizeReference(candidate.reference));
+  if (referenceMatched) reasons.push(`Reference ${candidate.reference} matches`);
+
+  const alias = normalizePayee(transaction.description);
+  const aliasMatched = !!candidate.payee && !!alias && (aliases.get(alias)?.has(candidate.payee.toLowerCase()) ?? false);
+  const similarity = aliasMatched ? 1 : payeeSimilarity(transaction.description, candidate.payee);
+  if (aliasMatched) {
+    reasons.push(`Learned payee "${candidate.payee}"`);
+  } else if (similarity >= 0.5) {
+    reasons.push(`Description looks like ${candidate.payee}`);
+  }
+
+  return {
+    date: 1 - days / window,
+    identity: Math.max(referenceMatched ? 1 : 0, similarity),
+    aliasMatched,
+    reasons,
+  };
+}
+
+const weighted = (amount: number, date: number, identity: number) =>
+  Math.round((WEIGHTS.amount * amount + WEIGHTS.date * date + WEIGHTS.identity * identity) * 1000) / 1000;
+
+/**
+ * Score a single candidate, or null if its amount or date rules it out.
+ */
+export function scoreCandidate(transaction: MatchableTransaction, candidate: MatchCandidate, aliases: AliasMap = new Map()): ScoredMatch | null {
+  const total = Math.abs(transaction.amount);
+  const amount = amountScore(Math.abs(total - candidate.amount), total);
+  if (!amount) return null;
+
+  const parts = scoreParts(transaction, candidate, aliases, extractReferences(transaction));
+  if (!parts) return null;
+
+  return {
+    type: candidate.type,
+    targets: [candidate],
+    score: weighted(amount.score, parts.date, parts.identity),
+    reasons: [amount.reason, ...parts.reasons],
+    exactAmount: amount.score === 1,
+    aliasMatched: parts.aliasMatched,
+  };
+}
+
+/**
+ * Sets of 2-4 candidates of one type whose amounts add up exactly to the transaction.
+ */
+export function findGroupMatches(transaction: MatchableTransaction, candidates: MatchCandidate[], aliases: AliasMap = new Map()): ScoredMatch[] {
+  const total = Math.abs(transaction.amount);
+  const references = extractReferences(transaction);
+  const groups: ScoredMatch[] = [];
+
+  const byType = new Map<MatchTargetType, Array<{ candidate: MatchCandidate; parts: NonNullable<ReturnType<typeof scoreParts>> }>>();
+  for (const candidate of candidates) {
+    if (candidate.amount <= 0 || candidate.amount >= total) continue;
+    const parts = scoreParts(transaction, candidate, aliases, references);
+    if (!parts) continue;
+    const list = byType.get(candidate.type) || [];
+    list.push({ candidate, parts });
+    byType.set(candidate.type, list);
+  }
+
+  for (const [type, scored] of Array.from(byType.entries())) {
+    // Closest dates first; bounded so the subset search stays small
+    const pool = scored.sort((a, b) => b.parts.date - a.parts.date).slice(0, MAX_GROUP_CANDIDATES);
+
+    const search = (start: number, chosen: typeof pool, sum: number) => {
+      if (chosen.length >= 2 && sum === total) {
+        const date = chosen.reduce((acc, item) => acc + item.parts.date, 0) / chosen.length;
+        const identity = chosen.reduce((acc, item) => acc + item.parts.identity, 0) / chosen.length;
+        groups.push({
+          type,
+          targets: chosen.map(item => item.candidate),
+          score: weighted(1, date, identity),
+          reasons: [`${chosen.length} ${type}s total the amount exactly`],
+          exactAmount: true,
+          aliasMatched: false,
+        });
+        return;
+      }
+      if (chosen.length === MAX_GROUP_SIZE || sum >= total) return;
+      for (let i = start; i < pool.length; i++) {
+        search(i + 1, [...chosen, pool[i]], sum + pool[i].candidate.amount);
+      }
+    };
+    search(0, [], 0);
+  }
+
+  return groups;
+}
+
+/**
+ * Best matches for a transaction, highest score first.
+ */
+export function rankMatches(
+  transaction: MatchableTransaction,
+  candidates: MatchCandidate[],
+  aliases: AliasMap = new Map(),
+  limit = 3
+): ScoredMatch[] {
+  const singles = candidates
+    .map(candidate => scoreCandidate(transaction, candidate, aliases))
+    .filter((match): match is ScoredMatch => match !== null);
+
+  return [...singles, ...findGroupMatches(transaction, candidates, aliases)]
+    .filter(match => match.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score || a.targets.length - b.targets.length)
+    .slice(0, limit);
+}
+
+/**
+ * Confirm without asking when a learned alias points at one document with
+ * the exact amount and nothing else comes close.
+ */
+export function shouldAutoConfirm(ranked: ScoredMatch[]): boolean {
+  const [best, runnerUp] = ranked;
+  if (!best || !best.aliasMatched || !best.exactAmount || best.targets.length !== 1) return false;
+  if (best.score < AUTO_CONFIRM_SCORE) return false;
+  return !runnerUp || runnerUp.score < best.score - 0.1;
+}
+
+const targetKey = (type: string, ids: number[]) => `${type}:${[...ids].sort((a, b) => a - b).join(",")}`;
+
+// ============================================================================
+// Candidates
+// ============================================================================
+
+// Payments, bills and expenses in a confirmed match are settled; invoices are
+// left to their remaining balance, since a short deposit leaves the rest open
+async function matchedTargetIds(db: any): Promise<Set<string>> {
+  const confirmed: Array<Pick<BankTransactionMatch, "targetType" | "targetIds">> = await db
+    .select({ targetType: bankTransactionMatches.targetType, targetIds: bankTransactionMatches.targetIds })
+    .from(bankTransactionMatches)
+    .where(eq(bankTransactionMatches.status, "confirmed"));
+
+  const keys = new Set<string>();
+  for (const match of confirmed) {
+    if (match.targetType === "invoice") continue;
+    for (const id of match.targetIds) keys.add(`${match.targetType}:${id}`);
+  }
+  return keys;
+}
+
+/**
+ * What is still owed on each of these invoices, after payments recorded on
+ * their jobs without an invoice (a check entered by hand before its deposit
+ * cleared) are counted against them.
+ */
+async function invoiceBalances(db: any, rows: Invoice[]): Promise<Map<number, number>> {
+  const jobIds = Array.from(new Set(rows.flatMap(invoice => (invoice.reportRequestId ? [invoice.reportRequestId] : []))));
+  if (jobIds.length === 0) return new Map();
+
+  const jobInvoices: Invoice[] = await db.select()
+    .from(invoices)
+    .where(and(inArray(invoices.status, ["sent", "overdue"]), inArray(invoices.reportRequestId, jobIds)));
+  return getOpenInvoiceBalances(db, jobInvoices);
+}
+
+const formatDollars = (cents: number) => `$${(cents / 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Open documents a deposit ("in") or withdrawal ("out") between `from` and
+ * `to` could settle, leaving out anything already matched and invoices with
+ * nothing left to pay.
+ */
+export async function loadCandidates(db: any, direction: "in" | "out", from: Date, to: Date): Promise<MatchCandidate[]> {
+  const matched = await matchedTargetIds(db);
+  const unmatched = (candidate: MatchCandidate) => !matched.has(`${candidate.type}:${candidate.id}`);
+  const windowStart = (type: MatchTargetType) => new Date(from.getTime() - DATE_WINDOW_DAYS[type] * DAY_MS);
+  const windowEnd = (type: MatchTargetType) => new Date(to.getTime() + DATE_WINDOW_DAYS[type] * DAY_MS);
+
+  if (direction === "in") {
+    const paymentRows = await db.select({ payment: payments, customer: reportRequests.fullName })
+      .from(payments)
+      .leftJoin(reportRequests, eq(payments.reportRequestId, reportRequests.id))
+      .where(and(
+        gte(payments.paymentDate, windowStart("payment")),
+        lte(payments.paymentDate, windowEnd("payment")),
+        sql`${payments.stripePaymentIntentId} IS NULL`, // Stripe payouts arrive net of fees, in batches
+      ));
+
+    const invoiceRows = await db.select()
+      .from(invoices)
+      .where(and(
+        inArray(invoices.status, ["sent", "overdue"]),
+        sql`${invoices.reportRequestId} IS NOT NULL`, // Payments are recorded against a job
+        gte(invoices.dueDate, windowStart("invoice")),
+        lte(invoices.dueDate, windowEnd("invoice")),
+      ));
+    const balances = await invoiceBalances(db, invoiceRows);
+
+    return [
+      ...paymentRows.map(({ payment, customer }: any): MatchCandidate => ({
+        type: "payment",
+        id: payment.id,
+        amount: payment.amount - payment.refundedAmount,
+        date: payment.paymentDate,
+        payee: customer,
+        reference: payment.checkNumber,
+        jobId: payment.reportRequestId,
+        label: `Payment from ${customer || "customer"}${payment.checkNumber ? ` (check #${payment.checkNumber})` : ""}`,
+      })),
+      ...invoiceRows.map((invoice: any): MatchCandidate => ({
+        type: "invoice",
+        id: invoice.id,
+        amount: balances.get(invoice.id) || 0,
+        date: invoice.dueDate,
+        payee: invoice.clientName,
+        reference: invoice.invoiceNumber,
+        jobId: invoice.reportRequestId,
+        label: `Invoice ${invoice.invoiceNumber} - ${invoice.clientName}`,
+      })),
+    ].filter(candidate => candidate.amount > 0 && unmatched(candidate));
+  }
+
+  const billRows = await db.select()
+    .from(billsPayable)
+    .where(and(
+      inArray(billsPayable.status, ["pending", "approved", "overdue", "paid"]),
+      inArray(billsPayable.approvalStatus, ["not_required", "approved"]), // Bills awaiting sign-off can't be paid yet
+      gte(sql`COALESCE(${billsPayable.paymentDate}, ${billsPayable.dueDate})`, windowStart("bill")),
+      lte(sql`COALESCE(${billsPayable.paymentDate}, ${billsPayable.dueDate})`, windowEnd("bill")),
+    ));
+
+  const expenseRows = await db.select()
+    .from(expenses)
+    .where(and(gte(expenses.date, windowStart("expense")), lte(expenses.date, windowEnd("expense"))));
+
+  return [
+    ...billRows
+      // A bill marked paid from its bank line already has its match
+      .filter((bill: any) => !(bill.paymentReference || "").startsWith("Bank Tx #"))
+      .map((bill: any): MatchCandidate => ({
+        type: "bill",
+        id: bill.id,
+        amount: dollarsToCents(bill.totalAmount),
+        date: bill.paymentDate || bill.dueDate,
+        payee: bill.vendorName,
+        reference: bill.paymentReference || bill.billNumber,
+        jobId: bill.projectId,
+        label: `Bill${bill.billNumber ? ` ${bill.billNumber}` : ""} - ${bill.vendorName} (${formatDollars(dollarsToCents(bill.totalAmount))})`,
+      })),
+    ...expenseRows.map((expense: any): MatchCandidate => ({
+      type: "expense",
+      id: expense.id,
+      amount: dollarsToCents(expense.amount),
+      date: expense.date,
+      payee: expense.vendorName,
+      reference: null,
+      jobId: expense.reportRequestId,
+      label: `Expense: ${expense.vendorName ? `${expense.vendorName} - ` : ""}${expense.description}`,
+    })),
+  ].filter(candidate => candidate.amount > 0 && unmatched(candidate));
+}
+
+export async function loadAliases(db: any): Promise<AliasMap> {
+  const rows = await db.select({ alias: payeeAliases.alias, payeeName: payeeAliases.payeeName }).from(payeeAliases);
+  const aliases: AliasMap = new Map();
+  for (const row of rows) {
+    const names = aliases.get(row.alias) || new Set<string>();
+    names.add(row.payeeName.toLowerCase());
+    aliases.set(row.alias, names);
+  }
+  return aliases;
+}
+
+const toMatchable = (transaction: BankTransaction): MatchableTransaction => ({
+  amount: dollarsToCents(transaction.amount),
+  date: transaction.transactionDate,
+  description: transaction.description,
+  referenceNumber: transaction.referenceNumber,
+});
+
+// ============================================================================
+// Suggest, confirm, reject
+// ============================================================================
+
+export interface SuggestMatchesResult {
+  checked: number;
+  suggested: number;
+  autoConfirmed: number;
+}
+
+/**
+ * Store match suggestions for pending transactions that don't have any yet
+ * (all of them, or just `transactionIds`), auto-confirming alias matches.
+ */
+export async function suggestMatches(db: any, options: { transactionIds?: number[] } = {}): Promise<SuggestMatchesResult> {
+  const conditions = [eq(bankTransactions.status, "pending")];
+  if (options.transactionIds) {
+    if (options.transactionIds.length === 0) return { checked: 0, suggested: 0, autoConfirmed: 0 };
+    conditions.push(inArray(bankTransactions.id, options.transactionIds));
+  }
+  const pending: BankTransaction[] = await db.select().from(bankTransactions).where(and(...conditions));
+
+  const existing: BankTransactionMatch[] = pending.length > 0
+    ? await db.select().from(bankTransactionMatches).where(inArray(bankTransactionMatches.transactionId, pending.map(tx => tx.id)))
+    : [];
+
+  const toCheck = pending.filter(tx =>
+    dollarsToCents(tx.amount) !== 0 &&
+    !existing.some(match => match.transactionId === tx.id && match.status !== "rejected")
+  );
+  const result: SuggestMatchesResult = { checked: toCheck.length, suggested: 0, autoConfirmed: 0 };
+  if (toCheck.length === 0) return result;
+
+  const dates = toCheck.map(tx => tx.transactionDate.getTime());
+  const from = new Date(Math.min(...dates));
+  const to = new Date(Math.max(...dates));
+  const [deposits, withdrawals, aliases] = await Promise.all([
+    loadCandidates(db, "in", from, to),
+    loadCandidates(db, "out", from, to),
+    loadAliases(db),
+  ]);
+
+  const consumed = new Set<string>(); // Documents auto-confirmed earlier in this run
+
+  for (const transaction of toCheck) {
+    const matchable = toMatchable(transaction);
+    const pool = (matchable.amount > 0 ? deposits : withdrawals)
+      .filter(candidate => !consumed.has(`${candidate.type}:${candidate.id}`));
+
+    const rejected = new Set(existing
+      .filter(match => match.transactionId === transaction.id && match.status === "rejected")
+      .map(match => targetKey(match.targetType, match.targetIds)));
+
+    const ranked = rankMatches(matchable, pool, aliases)
+      .filter(match => !rejected.has(targetKey(match.type, match.targets.map(target => target.id))));
+    if (ranked.length === 0) continue;
+
+    const inserted = await db.insert(bankTransactionMatches)
+      .values(ranked.map(match => ({
+        transactionId: transaction.id,
+        targetType: match.type,
+        targetIds: match.targets.map(target => target.id),
+        score: match.score.toFixed(3),
+        reasons: match.reasons,
+      })))
+      .returning({ id: bankTransactionMatches.id });
+    result.suggested += inserted.length;
+
+    if (shouldAutoConfirm(ranked)) {
+      await confirmMatch(db, inserted[0].id, null, { auto: true });
+      for (const target of ranked[0].targets) consumed.add(`${target.type}:${target.id}`);
+      result.autoConfirmed++;
+    }
+  }
+
+  return result;
+}
+
+async function learnAlias(db: any, description: string, payeeName: string, userId: number | null) {
+  const alias = normalizePayee(description);
+  if (!alias) return;
+
+  await db.insert(payeeAliases)
+    .values({ alias, payeeName, createdBy: userId })
+    .onConflictDoUpdate({
+      target: [payeeAliases.alias, payeeAliases.payeeName],
+      set: { matchCount: sql`${payeeAliases.matchCount} + 1`, updatedAt: new Date() },
+    });
+}
+
+const singleValue = <T>(values: T[]): T | null => {
+  const distinct = Array.from(new Set(values.filter(value => value !== null && value !== undefined)));
+  return distinct.length === 1 ? distinct[0] : null;
+};
+
+/**
+ * Split a deposit across invoices in order, each up to its balance. Whatever
+ * the deposit doesn't cover stays open on the invoice.
+ */
+export function allocateDeposit(received: number, invoiceBalances: Array<{ id: number; balance: number }>): Array<{ id: number; amount: number }> {
+  const allocations: Array<{ id: number; amount: number }> = [];
+  let remaining = received;
+  for (const { id, balance } of invoiceBalances) {
+    const amount = Math.min(balance, remaining);
+    if (amount <= 0) continue;
+    allocations.push({ id, amount });
+    remaining -= amount;
+  }
+  return allocations;
+}
+
+/**
+ * Reconcile the transaction against the match's documents, drop the other
+ * suggestions and learn the payee alias. `userId` is null for auto-confirms.
+ * Runs in one database transaction; the match and the bank transaction are
+ * claimed up front, so a second confirm (a double-click, or an auto-confirm
+ * racing a person) fails instead of recording the payment twice.
+ */
+export async function confirmMatch(db: any, matchId: number, userId: number | null, options: { auto?: boolean } = {}) {
+  return db.transaction(async (tx: any) => {
+    const [match]: BankTransactionMatch[] = await tx.update(bankTransactionMatches)
+      .set({ status: "confirmed", autoConfirmed: options.auto ?? false, resolvedBy: userId, resolvedAt: new Date() })
+      .where(and(eq(bankTransactionMatches.id, matchId), eq(bankTransactionMatches.status, "suggested")))
+      .returning();
+    if (!match) {
+      const [existing] = await tx.select({ status: bankTransactionMatches.status }).from(bankTransactionMatches).where(eq(bankTransactionMatches.id, matchId));
+      throw new Error(existing ? `This match was already ${existing.status}` : "Match not found");
+    }
+
+    const [transaction]: BankTransaction[] = await tx.update(bankTransactions)
+      .set({ status: "reconciled", updatedAt: new Date() })
+      .where(and(eq(bankTransactions.id, match.transactionId), eq(bankTransactions.status, "pending")))
+      .returning();
+    if (!transaction) throw new Error("Transaction is already reconciled");
+
+    const ids = match.targetIds;
+    const references = extractReferences(toMatchable(transaction));
+    let category: string;
+    let jobIds: Array<number | null> = [];
+    let payees: Array<string | null> = [];
+    let note: string;
+
+    if (match.targetType === "payment") {
+      const rows = await tx.select({ payment: payments, customer: reportRequests.fullName })
+        .from(payments)
+        .leftJoin(reportRequests, eq(payments.reportRequestId, reportRequests.id))
+        .where(inArray(payments.id, ids));
+      category = "deposit";
+      jobIds = rows.map((row: any) => row.payment.reportRequestId);
+      payees = rows.map((row: any) => row.customer);
+      note = `Payment${ids.length > 1 ? "s" : ""} #${ids.join(", #")}`;
+    } else if (match.targetType === "invoice") {
+      const rows = await tx.select().from(invoices).where(inArray(invoices.id, ids));
+      // Record what the bank actually received, oldest invoice first; a short deposit leaves the rest open.
+      // Balances net out payments already recorded on the job, so a check entered by hand isn't counted twice.
+      const balances = await invoiceBalances(tx, rows);
+      const open = rows
+        .filter((invoice: any) => (balances.get(invoice.id) || 0) > 0 && invoice.reportRequestId)
+        .sort((a: any, b: any) => a.dueDate.getTime() - b.dueDate.getTime());
+      if (open.length === 0) throw new Error("These invoices are already paid; match the deposit to the recorded payment instead");
+      const allocations = allocateDeposit(
+        Math.abs(dollarsToCents(transaction.amount)),
+        open.map((invoice: any) => ({ id: invoice.id, balance: balances.get(invoice.id) || 0 }))
+      );
+      for (const { id, amount } of allocations) {
+        const invoice = open.find((row: any) => row.id === id);
+        const stillOpen = (balances.get(invoice.id) || 0) - amount;
+        const paymentMethod = references.length > 0 ? "check" : "wire";
+        const [payment] = await tx.insert(payments).values({
+          reportRequestId: invoice.reportRequestId,
+          invoiceId: invoice.id,
+          amount,
+          paymentDate: transaction.transactionDate,
+          paymentMethod,
+          checkNumber: references[0] || null,
+          notes: `Matched to bank transaction #${transaction.id}`,
+          createdBy: userId,
+        }).returning({ id: payments.id });
+
+        await postPayment(tx, payment.id);
+        await syncInvoicePayments(tx, invoice, `Bank Tx #${transaction.id}`, paymentMethod);
+        await postInvoice(tx, invoice.id);
+        await syncJobAmountPaid(tx, invoice.reportRequestId);
+        await tx.insert(activities).values({
+          reportRequestId: invoice.reportRequestId,
+          userId,
+          activityType: "payment_received",
+          description: `Payment received: $${(amount / 100).toFixed(2)} on invoice ${invoice.invoiceNumber} (matched to bank deposit)` +
+            (stillOpen > 0 ? `; $${(stillOpen / 100).toFixed(2)} still open` : ""),
+        });
+      }
+      category = "deposit";
+      jobIds = rows.map((invoice: any) => invoice.reportRequestId);
+      payees = rows.map((invoice: any) => invoice.clientName);
+      note = `Invoice ${rows.map((invoice: any) => invoice.invoiceNumber).join(", ")}`;
+    } else if (match.targetType === "bill") {
+      const rows = await tx.select().from(billsPayable).where(inArray(billsPayable.id, ids));
+      const unpayable = rows.find((bill: any) => bill.status !== "paid" && !canPayBill(bill));
+      if (unpayable) throw new Error(`Bill #${unpayable.id}: ${payBlockedReason(unpayable)}`);
+      for (const bill of rows) {
+        if (bill.status !== "paid") {
+          await tx.update(billsPayable)
+            .set({
+              status: "paid",
+              paymentMethod: transaction.bankAccount || "bank_transfer",
+              paymentDate: transaction.transactionDate,
+              paymentReference: `Bank Tx #${transaction.id}`,
+              updatedAt: new Date(),
+            })
+            .where(eq(billsPayable.id, bill.id));
+          await postBill(tx, bill.id);
+        }
+      }
+      category = "bill_payment";
+      jobIds = rows.map((bill: any) => bill.projectId);
+      payees = rows.map((bill: any) => bill.vendorName);
+      note = `Bill #${ids.join(", #")}`;
+    } else {
+      const rows = await tx.select().from(expenses).where(inArray(expenses.id, ids));
+      category = "expense_payment";
+      jobIds = rows.map((expense: any) => expense.reportRequestId);
+      payees = rows.map((expense: any) => expense.vendorName);
+      note = `Expense #${ids.join(", #")}`;
+    }
+
+    await tx.update(bankTransactions)
+      .set({
+        category,
+        projectId: singleValue(jobIds) ?? transaction.projectId,
+        notes: sql`COALESCE(${bankTransactions.notes} || ' ', '') || ${`[Matched to ${note}]`}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(bankTransactions.id, transaction.id));
+    await postBankTransaction(tx, transaction.id);
+
+    await tx.delete(bankTransactionMatches)
+      .where(and(eq(bankTransactionMatches.transactionId, transaction.id), eq(bankTransactionMatches.status, "suggested")));
+
+    // Deposits of several customers' checks don't teach anything about the description
+    const payee = singleValue(payees);
+    if (payee && !options.auto) await learnAlias(tx, transaction.description, payee, userId);
+
+    return { transactionId: transaction.id, category };
+  });
+}
+
+export async function rejectMatch(db: any, matchId: number, userId: number) {
+  const [updated] = await db.update(bankTransactionMatches)
+    .set({ status: "rejected", resolvedBy: userId, resolvedAt: new Date() })
+    .where(and(eq(bankTransactionMatches.id, matchId), eq(bankTransactionMatches.status, "suggested")))
+    .returning();
+  if (!updated) throw new Error("Suggestion not found or already resolved");
+  return updated;
+}
+
+/**
+ * SQL condition for bank transactions with no open match suggestion.
+ * Categorizing reconciles a transaction, which would drop its suggestions
+ * before anyone could confirm one.
+ */
+export function withoutOpenSuggestions() {
+  return sql`NOT EXISTS (SELECT 1 FROM ${bankTransactionMatches} WHERE ${bankTransactionMatches.transactionId} = ${bankTransactions.id} AND ${bankTransactionMatches.status} = 'suggested')`;
+}
+
+/**
+ * Open suggestions with a display label for each document, keyed by transaction.
+ */
+export async function getMatchSuggestions(db: any, transactionIds?: number[]) {
+  const conditions = [eq(bankTransactionMatches.status, "suggested"), eq(bankTransactions.status, "pending")];
+  if (transactionIds) {
+    if (transactionIds.length === 0) return [];
+    conditions.push(inArray(bankTransactionMatches.transactionId, transactionIds));
+  }
+
+  const rows = await db.select({ match: bankTransactionMatches, transaction: bankTransactions })
+    .from(bankTransactionMatches)
+    .innerJoin(bankTransactions, eq(bankTransactionMatches.transactionId, bankTransactions.id))
+    .where(and(...conditions));
+  if (rows.length === 0) return [];
+
+  // Re-derive the labels from the candidates around these transactions
+  const dates = rows.map((row: any) => row.transaction.transactionDate.getTime());
+  const from = new Date(Math.min(...dates));
+  const to = new Date(Math.max(...dates));
+  const candidates = [...await loadCandidates(db, "in", from, to), ...await loadCandidates(db, "out", from, to)];
+  const byKey = new Map(candidates.map(candidate => [`${candidate.type}:${candidate.id}`, candidate]));
+
+  return rows
+    .map(({ match }: { match: BankTransactionMatch }) => ({
+      id: match.id,
+      transactionId: match.transactionId,
+      targetType: match.targetType as MatchTargetType,
+      score: Number(match.score),
+      reasons: match.reasons || [],
+      targets: match.targetIds.map(id => {
+        const candidate = byKey.get(`${match.targetType}:${id}`);
+        return {
+          id,
+          label: candidate?.label ?? `${match.targetType} #${id}`,
+          amount: candidate?.amount ?? null,
+          date: candidate?.date ?? null,
+        };
+      }),
+    }))
+    .sort((a: { score: number }, b: { score: number }) => b.score - a.score);
+}
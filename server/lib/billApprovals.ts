@@ -0,0 +1,414 @@
+/**
+ * Bill Approvals
+ *
+ * Approval rules decide which bills need sign-off before they can be paid:
+ *
+ *   amount    bill total at or above the rule's threshold
+ *   category  bills in the rule's category
+ *   project   any bill linked to a job
+ *
+ * A rule asks for one approver, or two in turn, each from a set of roles.
+ * When several rules fire the strictest wins (most approvers, then the
+ * highest threshold). Approvers must be different people, and whoever entered
+ * the bill can't approve it; owners can act at any step but still count as
+ * one approver.
+ *
+ * Sign-off restarts whenever the amount, category or job of a bill changes.
+ * billsPayable.approvalStatus tracks it; the full trail is in
+ * billApprovalEvents. markAsPaid is refused until the bill is approved (or
+ * no rule applies).
+ */
+
+import { TRPCError } from "@trpc/server";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+import {
+  billApprovalEvents,
+  billApprovalRules,
+  billsPayable,
+  users,
+  type BillApprovalEvent,
+  type BillApprovalRule,
+  type BillPayable,
+  type SafeUser,
+} from "../../drizzle/schema";
+import { dollarsToCents, postBill } from "./ledger";
+
+type Role = SafeUser["role"];
+type RuleFields = Pick<BillApprovalRule, "id" | "trigger" | "minAmount" | "category" | "firstApproverRoles" | "secondApproverRoles">;
+type ApprovalAction = BillApprovalEvent["action"];
+
+// ============================================
+// Rules
+// ============================================
+
+export function ruleApplies(rule: RuleFields, bill: Pick<BillPayable, "totalAmount" | "category" | "projectId">): boolean {
+  switch (rule.trigger) {
+    case "amount":
+      return rule.minAmount !== null && dollarsToCents(bill.totalAmount) >= rule.minAmount;
+    case "category":
+      return !!rule.category && bill.category === rule.category;
+    case "project":
+      return bill.projectId !== null;
+  }
+}
+
+/**
+ * The roles that can sign at each step: one entry per approver needed.
+ */
+export function approvalSteps(rule: Pick<RuleFields, "firstApproverRoles" | "secondApproverRoles"> | null): Role[][] {
+  if (!rule) return [["owner"]]; // The rule was deleted mid-approval; the owner finishes it
+  return rule.secondApproverRoles.length > 0
+    ? [rule.firstApproverRoles, rule.secondApproverRoles]
+    : [rule.firstApproverRoles];
+}
+
+/**
+ * The rule a bill falls under, or null if it can be paid without sign-off.
+ */
+export function strictestRule<T extends RuleFields>(rules: T[], bill: Pick<BillPayable, "totalAmount" | "category" | "projectId">): T | null {
+  const matching = rules.filter(rule => ruleApplies(rule, bill));
+  matching.sort((a, b) =>
+    approvalSteps(b).length - approvalSteps(a).length ||
+    (b.minAmount ?? 0) - (a.minAmount ?? 0) ||
+    a.id - b.id
+  );
+  return matching[0] ?? null;
+}
+
+const ROLE_LABELS: Partial<Record<Role, string>> = {
+  owner: "Owner",
+  admin: "Admin",
+  office: "Office",
+  project_manager: "Project Manager",
+  team_lead: "Team Lead",
+  sales_rep: "Sales Rep",
+  field_crew: "Field Crew",
+};
+
+export const describeRoles = (roles: Role[]) => roles.map(role => ROLE_LABELS[role] ?? role).join(" or ");
+
+/**
+ * Why this user can't approve or reject the bill at its current step, or null
+ * if they can. `approverIds` are the users who have already approved it in
+ * the current round.
+ */
+export function approverError(params: {
+  bill: Pick<BillPayable, "approvalStatus" | "approvalsReceived" | "createdBy">;
+  rule: Pick<RuleFields, "firstApproverRoles" | "secondApproverRoles"> | null;
+  user: Pick<SafeUser, "id" | "role">;
+  approverIds: number[];
+}): string | null {
+  const { bill, rule, user, approverIds } = params;
+  if (bill.approvalStatus !== "pending") return "This bill isn't waiting for approval";
+
+  const steps = approvalSteps(rule);
+  const roles = steps[Math.min(bill.approvalsReceived, steps.length - 1)];
+  if (user.role !== "owner" && !roles.includes(user.role)) {
+    return `${steps.length > 1 ? `Step ${bill.approvalsReceived + 1}` : "This bill"} needs approval from: ${describeRoles(roles)}`;
+  }
+  if (approverIds.includes(user.id)) {
+    return "You've already approved this bill; the next approval has to come from someone else";
+  }
+  if (bill.createdBy === user.id && user.role !== "owner") {
+    return "You entered this bill, so someone else has to approve it";
+  }
+  return null;
+}
+
+export function canPayBill(bill: Pick<BillPayable, "approvalStatus">): boolean {
+  return bill.approvalStatus === "not_required" || bill.approvalStatus === "approved";
+}
+
+/**
+ * Why the bill can't be paid yet, or null if it can.
+ */
+export function payBlockedReason(bill: Pick<BillPayable, "approvalStatus">): string | null {
+  if (canPayBill(bill)) return null;
+  return bill.approvalStatus === "rejected"
+    ? "This bill was rejected; fix and resubmit it before paying"
+    : "This bill is waiting for approval and can't be paid yet";
+}
+
+/**
+ * Users who approved in the current round: approvals since the latest
+ * (re)submission. Events must be oldest first.
+ */
+export function currentApprovers(events: Array<Pick<BillApprovalEvent, "action" | "userId">>): number[] {
+  const ids: number[] = [];
+  for (const event of events) {
+    if (event.action === "submitted" || event.action === "resubmitted" || event.action === "rejected") ids.length = 0;
+    if (event.action === "approved" && event.userId !== null) ids.push(event.userId);
+  }
+  return ids;
+}
+
+// ============================================
+// Database
+// ============================================
+
+async function logEvent(db: any, billId: number, action: ApprovalAction, userId: number | null, comment?: string | null, step?: number) {
+  await db.insert(billApprovalEvents).values({ billId, action, userId, comment: comment || null, step: step ?? null });
+}
+
+async function loadApprovalState(db: any, billId: number) {
+  const [bill]: BillPayable[] = await db.select().from(billsPayable).where(eq(billsPayable.id, billId));
+  if (!bill) throw new TRPCError({ code: "NOT_FOUND", message: "Bill not found" });
+
+  const [rule]: BillApprovalRule[] = bill.approvalRuleId
+    ? await db.select().from(billApprovalRules).where(eq(billApprovalRules.id, bill.approvalRuleId))
+    : [];
+  const events: BillApprovalEvent[] = await db
+    .select()
+    .from(billApprovalEvents)
+    .where(eq(billApprovalEvents.billId, billId))
+    .orderBy(asc(billApprovalEvents.createdAt), asc(billApprovalEvents.id));
+
+  return { bill, rule: rule ?? null, approverIds: currentApprovers(events) };
+}
+
+/**
+ * Work out whether a bill needs sign-off under the current rules and restart
+ * its approval if so. Called when a bill is entered and whenever its amount,
+ * category or job changes. Paid and cancelled bills are left alone.
+ */
+export async function evaluateBillApproval(
+  db: any,
+  billId: number,
+  userId: number | null,
+  options: {
+    reason?: string;
+    action?: Extract<ApprovalAction, "submitted" | "resubmitted">;
+    onlyIfRuleChanged?: boolean; // Keep approvals already given if the same rule still applies
+  } = {}
+): Promise<BillPayable | null> {
+  const { reason, action = "submitted" } = options;
+  const [bill]: BillPayable[] = await db.select().from(billsPayable).where(eq(billsPayable.id, billId));
+  if (!bill || bill.status === "paid" || bill.status === "cancelled") return bill ?? null;
+
+  const rules: BillApprovalRule[] = await db.select().from(billApprovalRules).where(eq(billApprovalRules.isActive, true));
+  const rule = strictestRule(rules, bill);
+  if (
+    options.onlyIfRuleChanged &&
+    (rule?.id ?? null) === bill.approvalRuleId &&
+    (!rule || approvalSteps(rule).length === bill.approvalsRequired)
+  ) {
+    return bill;
+  }
+
+  if (!rule) {
+    if (bill.approvalStatus === "not_required") return bill;
+    const [updated] = await db
+      .update(billsPayable)
+      .set({ approvalStatus: "not_required", approvalRuleId: null, approvalsRequired: 0, approvalsReceived: 0, rejectionReason: null, updatedAt: new Date() })
+      .where(eq(billsPayable.id, billId))
+      .returning();
+    await logEvent(db, billId, "cleared", userId, reason ? `${reason}; no approval rule applies` : "No approval rule applies");
+    return updated;
+  }
+
+  const required = approvalSteps(rule).length;
+  const [updated] = await db
+    .update(billsPayable)
+    .set({
+      approvalStatus: "pending",
+      approvalRuleId: rule.id,
+      approvalsRequired: required,
+      approvalsReceived: 0,
+      rejectionReason: null,
+      // An approved bill goes back to pending (and off accounts payable) until it's signed again
+      status: bill.status === "approved" ? "pending" : bill.status,
+      updatedAt: new Date(),
+    })
+    .where(eq(billsPayable.id, billId))
+    .returning();
+
+  const needs = `Needs ${required === 2 ? "two approvals" : "approval"} under "${rule.name}"`;
+  await logEvent(db, billId, action, userId, reason ? `${reason}. ${needs}` : needs);
+  if (bill.status === "approved") await postBill(db, billId);
+
+  return updated;
+}
+
+/**
+ * Record one approval. The last one needed marks the bill approved, which
+ * puts it on accounts payable.
+ */
+export async function approveBill(db: any, billId: number, user: SafeUser, comment?: string): Promise<BillPayable> {
+  const { bill, rule, approverIds } = await loadApprovalState(db, billId);
+  const error = approverError({ bill, rule, user, approverIds });
+  if (error) throw new TRPCError({ code: bill.approvalStatus === "pending" ? "FORBIDDEN" : "BAD_REQUEST", message: error });
+
+  const step = bill.approvalsReceived + 1;
+  const done = step >= bill.approvalsRequired;
+  const [updated] = await db
+    .update(billsPayable)
+    .set({
+      approvalsReceived: step,
+      approvalStatus: done ? "approved" : "pending",
+      status: done && bill.status === "pending" ? "approved" : bill.status,
+      updatedAt: new Date(),
+    })
+    // Two approvers acting at once can't both fill the same step
+    .where(and(eq(billsPayable.id, billId), eq(billsPayable.approvalsReceived, bill.approvalsReceived), eq(billsPayable.approvalStatus, "pending")))
+    .returning();
+  if (!updated) {
+    throw new TRPCError({ code: "CONFLICT", message: "Someone else just acted on this bill. Refresh and try again." });
+  }
+
+  await logEvent(db, billId, "approved", user.id, comment, step);
+  if (done) await postBill(db, billId);
+
+  return updated;
+}
+
+/**
+ * Send the bill back with a reason. It stays unpayable until it's resubmitted.
+ */
+export async function rejectBill(db: any, billId: number, user: SafeUser, reason: string): Promise<BillPayable> {
+  if (!reason.trim()) throw new TRPCError({ code: "BAD_REQUEST", message: "A rejection reason is required" });
+
+  const { bill, rule, approverIds } = await loadApprovalState(db, billId);
+  // Anyone who could approve this step can reject it, including an earlier approver changing their mind
+  const error = approverError({ bill, rule, user, approverIds: approverIds.filter(id => id !== user.id) });
+  if (error) throw new TRPCError({ code: bill.approvalStatus === "pending" ? "FORBIDDEN" : "BAD_REQUEST", message: error });
+
+  const [updated] = await db
+    .update(billsPayable)
+    .set({ approvalStatus: "rejected", approvalsReceived: 0, rejectionReason: reason.trim(), updatedAt: new Date() })
+    .where(and(eq(billsPayable.id, billId), eq(billsPayable.approvalsReceived, bill.approvalsReceived), eq(billsPayable.approvalStatus, "pending")))
+    .returning();
+  if (!updated) {
+    throw new TRPCError({ code: "CONFLICT", message: "Someone else just acted on this bill. Refresh and try again." });
+  }
+
+  await logEvent(db, billId, "rejected", user.id, reason.trim(), bill.approvalsReceived + 1);
+  return updated;
+}
+
+/**
+ * Put a rejected bill back in the queue, usually after it's been corrected.
+ */
+export async function resubmitBill(db: any, billId: number, userId: number, comment?: string): Promise<BillPayable | null> {
+  const [bill]: BillPayable[] = await db.select().from(billsPayable).where(eq(billsPayable.id, billId));
+  if (!bill) throw new TRPCError({ code: "NOT_FOUND", message: "Bill not found" });
+  if (bill.approvalStatus !== "rejected") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Only rejected bills can be resubmitted" });
+  }
+
+  return evaluateBillApproval(db, billId, userId, { reason: comment?.trim() || "Resubmitted", action: "resubmitted" });
+}
+
+export async function commentOnBill(db: any, billId: number, userId: number, comment: string) {
+  if (!comment.trim()) throw new TRPCError({ code: "BAD_REQUEST", message: "Comment can't be empty" });
+  const [bill] = await db.select({ id: billsPayable.id }).from(billsPayable).where(eq(billsPayable.id, billId));
+  if (!bill) throw new TRPCError({ code: "NOT_FOUND", message: "Bill not found" });
+
+  await logEvent(db, billId, "commented", userId, comment.trim());
+}
+
+export interface ApprovalHistoryEvent {
+  id: number;
+  action: BillApprovalEvent["action"];
+  step: number | null;
+  comment: string | null;
+  createdAt: Date;
+  userId: number | null;
+  userName: string | null;
+  userRole: Role | null;
+}
+
+/**
+ * A bill's approval trail, newest first, with who did what and what's still needed.
+ */
+export async function getBillApprovalHistory(db: any, billId: number, user: SafeUser) {
+  const { bill, rule, approverIds } = await loadApprovalState(db, billId);
+  const events: ApprovalHistoryEvent[] = await db
+    .select({
+      id: billApprovalEvents.id,
+      action: billApprovalEvents.action,
+      step: billApprovalEvents.step,
+      comment: billApprovalEvents.comment,
+      createdAt: billApprovalEvents.createdAt,
+      userId: billApprovalEvents.userId,
+      userName: users.name,
+      userRole: users.role,
+    })
+    .from(billApprovalEvents)
+    .leftJoin(users, eq(billApprovalEvents.userId, users.id))
+    .where(eq(billApprovalEvents.billId, billId))
+    .orderBy(desc(billApprovalEvents.createdAt), desc(billApprovalEvents.id));
+
+  const steps = bill.approvalStatus === "not_required" ? [] : approvalSteps(rule);
+  return {
+    approvalStatus: bill.approvalStatus,
+    rejectionReason: bill.rejectionReason,
+    ruleName: rule?.name ?? null,
+    steps: steps.map((roles, index) => ({
+      step: index + 1,
+      roles: describeRoles(roles),
+      done: index < bill.approvalsReceived,
+    })),
+    approverIds,
+    // Why this user can't approve right now, or null if they can
+    approveBlockedReason: approverError({ bill, rule, user, approverIds }),
+    events,
+  };
+}
+
+/**
+ * Bills waiting on this user: pending approval at a step their role can sign,
+ * and not entered or already approved by them. Oldest due date first.
+ */
+export async function getApprovalQueue(db: any, user: SafeUser) {
+  const pending: BillPayable[] = await db
+    .select()
+    .from(billsPayable)
+    .where(eq(billsPayable.approvalStatus, "pending"))
+    .orderBy(asc(billsPayable.dueDate));
+  if (pending.length === 0) return [];
+
+  const ruleIds = Array.from(new Set(pending.map(bill => bill.approvalRuleId).filter((id): id is number => id !== null)));
+  const rules: BillApprovalRule[] = ruleIds.length > 0
+    ? await db.select().from(billApprovalRules).where(inArray(billApprovalRules.id, ruleIds))
+    : [];
+  const events: BillApprovalEvent[] = await db
+    .select()
+    .from(billApprovalEvents)
+    .where(inArray(billApprovalEvents.billId, pending.map(bill => bill.id)))
+    .orderBy(asc(billApprovalEvents.createdAt), asc(billApprovalEvents.id));
+
+  const rulesById = new Map(rules.map(rule => [rule.id, rule]));
+  const eventsByBill = new Map<number, BillApprovalEvent[]>();
+  for (const event of events) {
+    if (!eventsByBill.has(event.billId)) eventsByBill.set(event.billId, []);
+    eventsByBill.get(event.billId)!.push(event);
+  }
+
+  return pending
+    .map(bill => {
+      const rule = bill.approvalRuleId ? rulesById.get(bill.approvalRuleId) ?? null : null;
+      const billEvents = eventsByBill.get(bill.id) ?? [];
+      return {
+        bill,
+        ruleName: rule?.name ?? null,
+        step: bill.approvalsReceived + 1,
+        stepRoles: describeRoles(approvalSteps(rule)[Math.min(bill.approvalsReceived, approvalSteps(rule).length - 1)]),
+        submittedAt: [...billEvents].reverse().find(event => event.action === "submitted" || event.action === "resubmitted")?.createdAt ?? bill.createdAt,
+        lastComment: [...billEvents].reverse().find(event => event.comment && event.action !== "submitted")?.comment ?? null,
+        canAct: approverError({ bill, rule, user, approverIds: currentApprovers(billEvents) }) === null,
+      };
+    })
+    .filter(item => item.canAct);
+}
+
+/**
+ * How many bills are waiting on this user, for the nav badge.
+ */
+export async function getApprovalQueueCount(db: any, user: SafeUser): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`COUNT(*)` })
+    .from(billsPayable)
+    .where(eq(billsPayable.approvalStatus, "pending"));
+  if (!row || Number(row.count) === 0) return 0;
+  return (await getApprovalQueue(db, user)).length;
+}
@@ -0,0 +1,374 @@
+/**
+ * Billing Schedules
+ *
+ * Progress billing per job: a deposit when the job is approved, a progress
+ * payment when materials are delivered and the final payment on completion.
+ * Each milestone drafts its invoice when its trigger fires; the office still
+ * reviews and sends it from the Financials tab.
+ *
+ * Milestones are a share of the base contract (reportRequests.totalPrice).
+ * Approved change orders that haven't been billed on a supplement invoice are
+ * added to the final invoice as their own line items.
+ */
+
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+import {
+  activities,
+  billingMilestones,
+  changeOrders,
+  companySettings,
+  invoiceItems,
+  invoices,
+  reportRequests,
+  type BillingMilestone,
+  type ChangeOrder,
+  type Invoice,
+  type ReportRequest,
+} from "../../drizzle/schema";
+import { applySalesTax } from "./salesTax";
+import { getOpenInvoiceBalances, invoiceBalanceDue } from "./stripePayments";
+
+export type BillingTrigger = BillingMilestone["trigger"];
+
+export interface MilestoneTemplate {
+  name: string;
+  invoiceType: "deposit" | "progress" | "final";
+  trigger: BillingTrigger;
+  percent: number;
+}
+
+const DEFAULT_DEPOSIT_PERCENT = 50;
+const INVOICE_DUE_DAYS = 30;
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+/**
+ * Default schedule for a new job. Financed jobs are paid by the lender in one
+ * draw at completion; everything else splits what's left after the deposit
+ * evenly between material delivery and completion.
+ */
+export function buildDefaultMilestones(
+  dealType: ReportRequest["dealType"],
+  depositPercent: number = DEFAULT_DEPOSIT_PERCENT
+): MilestoneTemplate[] {
+  if (dealType === "financed") {
+    return [{ name: "Final Payment", invoiceType: "final", trigger: "job_completed", percent: 100 }];
+  }
+
+  const deposit = Math.min(100, Math.max(0, depositPercent));
+  const progress = Math.round(((100 - deposit) / 2) * 100) / 100;
+  const final = Math.round((100 - deposit - progress) * 100) / 100;
+
+  return [
+    { name: "Deposit", invoiceType: "deposit" as const, trigger: "job_approved" as const, percent: deposit },
+    { name: "Materials Delivered", invoiceType: "progress" as const, trigger: "materials_delivered" as const, percent: progress },
+    { name: "Final Payment", invoiceType: "final" as const, trigger: "job_completed" as const, percent: final },
+  ].filter(milestone => milestone.percent > 0);
+}
+
+/**
+ * Contract amount for a deposit or progress milestone, in cents.
+ */
+export function milestoneContractAmount(
+  milestone: Pick<BillingMilestone, "percent" | "fixedAmount">,
+  contractCents: number
+): number {
+  if (milestone.fixedAmount !== null && milestone.fixedAmount !== undefined) return milestone.fixedAmount;
+  return Math.round((contractCents * parseFloat(milestone.percent || "0")) / 100);
+}
+
+/**
+ * The final milestone bills whatever is left of the base contract after every
+ * other contract invoice (deposits and progress payments, scheduled or not),
+ * plus approved change orders not yet billed. Invoices count before sales
+ * tax, which is billed on top of the contract.
+ */
+export function finalMilestoneAmount(
+  contractCents: number,
+  otherContractInvoices: Pick<Invoice, "amount">[],
+  unbilledChangeOrders: Pick<ChangeOrder, "amount">[]
+): { contractPortion: number; changeOrderTotal: number; total: number } {
+  const invoiced = otherContractInvoices.reduce((sum, invoice) => sum + invoice.amount, 0);
+  const contractPortion = Math.max(0, contractCents - invoiced);
+  const changeOrderTotal = unbilledChangeOrders.reduce((sum, co) => sum + co.amount, 0);
+  return { contractPortion, changeOrderTotal, total: contractPortion + changeOrderTotal };
+}
+
+const contractCentsForJob = (job: Pick<ReportRequest, "totalPrice">) =>
+  Math.round(parseFloat(job.totalPrice || "0") * 100);
+
+async function getUnbilledChangeOrders(db: any, jobId: number): Promise<ChangeOrder[]> {
+  return db.select()
+    .from(changeOrders)
+    .where(and(
+      eq(changeOrders.jobId, jobId),
+      eq(changeOrders.status, "approved"),
+      isNull(changeOrders.invoiceId)
+    ));
+}
+
+// Non-cancelled deposit/progress/final/other invoices for the job, i.e. everything billed against the base contract
+async function getContractInvoices(db: any, jobId: number): Promise<Invoice[]> {
+  const rows: Invoice[] = await db.select().from(invoices).where(eq(invoices.reportRequestId, jobId));
+  return rows.filter(invoice => invoice.status !== "cancelled" && invoice.invoiceType !== "supplement");
+}
+
+/**
+ * Attach the default schedule to a job. Does nothing if the job already has
+ * one or has no contract price yet. Fires the job_approved milestone.
+ */
+export async function createBillingSchedule(
+  db: any,
+  job: ReportRequest,
+  userId: number | null
+): Promise<BillingMilestone[]> {
+  const existing = await db.select({ id: billingMilestones.id })
+    .from(billingMilestones)
+    .where(eq(billingMilestones.jobId, job.id))
+    .limit(1);
+  if (existing.length > 0 || contractCentsForJob(job) <= 0) return [];
+
+  const [settings] = await db.select({ defaultDepositPercent: companySettings.defaultDepositPercent })
+    .from(companySettings)
+    .limit(1);
+  const depositPercent = settings?.defaultDepositPercent
+    ? parseFloat(settings.defaultDepositPercent)
+    : DEFAULT_DEPOSIT_PERCENT;
+
+  const created: BillingMilestone[] = await db.insert(billingMilestones).values(
+    buildDefaultMilestones(job.dealType, depositPercent).map((template, index) => ({
+      jobId: job.id,
+      name: template.name,
+      invoiceType: template.invoiceType,
+      trigger: template.trigger,
+      percent: template.percent.toFixed(2),
+      sortOrder: index,
+      createdBy: userId,
+    }))
+  ).returning();
+
+  await fireBillingTrigger(db, job.id, "job_approved", userId);
+  return created;
+}
+
+/**
+ * Draft invoices for every scheduled milestone on the job waiting on this
+ * trigger. Returns the invoices created.
+ */
+export async function fireBillingTrigger(
+  db: any,
+  jobId: number,
+  trigger: BillingTrigger,
+  userId: number | null
+): Promise<Invoice[]> {
+  const due: BillingMilestone[] = await db.select()
+    .from(billingMilestones)
+    .where(and(
+      eq(billingMilestones.jobId, jobId),
+      eq(billingMilestones.trigger, trigger),
+      eq(billingMilestones.status, "scheduled")
+    ))
+    .orderBy(asc(billingMilestones.sortOrder));
+
+  const drafted: Invoice[] = [];
+  for (const milestone of due) {
+    const invoice = await draftMilestoneInvoice(db, milestone, userId);
+    if (invoice) drafted.push(invoice);
+  }
+  return drafted;
+}
+
+/**
+ * Create the draft invoice for one milestone and mark it invoiced. Returns
+ * null when there is nothing left to bill (the milestone is marked skipped).
+ */
+export async function draftMilestoneInvoice(
+  db: any,
+  milestone: BillingMilestone,
+  userId: number | null
+): Promise<Invoice | null> {
+  const [job]: ReportRequest[] = await db.select().from(reportRequests).where(eq(reportRequests.id, milestone.jobId));
+  if (!job) return null;
+
+  const contractCents = contractCentsForJob(job);
+  const lineItems: Array<{ description: string; amount: number; changeOrderId?: number }> = [];
+  let billedChangeOrderIds: number[] = [];
+
+  if (milestone.invoiceType === "final") {
+    const unbilled = await getUnbilledChangeOrders(db, job.id);
+    const { contractPortion } = finalMilestoneAmount(contractCents, await getContractInvoices(db, job.id), unbilled);
+    if (contractPortion > 0) {
+      lineItems.push({ description: `${milestone.name} (balance of contract)`, amount: contractPortion });
+    }
+    for (const co of unbilled) {
+      lineItems.push({ description: `Change Order: ${co.description}`, amount: co.amount, changeOrderId: co.id });
+    }
+    billedChangeOrderIds = unbilled.map(co => co.id);
+  } else {
+    const amount = milestoneContractAmount(milestone, contractCents);
+    const percentLabel = milestone.fixedAmount === null && milestone.percent ? ` (${parseFloat(milestone.percent)}% of contract)` : "";
+    if (amount > 0) lineItems.push({ description: `${milestone.name}${percentLabel}`, amount });
+  }
+
+  const total = lineItems.reduce((sum, item) => sum + item.amount, 0);
+  if (total <= 0) {
+    await db.update(billingMilestones)
+      .set({ status: "skipped", triggeredAt: new Date(), updatedAt: new Date() })
+      .where(eq(billingMilestones.id, milestone.id));
+    return null;
+  }
+
+  // Sequence counts cancelled invoices too so a number is never reused
+  const jobInvoices = await db.select({ id: invoices.id }).from(invoices).where(eq(invoices.reportRequestId, job.id));
+  const invoiceNumber = `INV-${job.id}-${String(jobInvoices.length + 1).padStart(2, "0")}`;
+  const invoiceDate = new Date();
+
+  const [invoice]: Invoice[] = await db.insert(invoices).values({
+    invoiceNumber,
+    reportRequestId: job.id,
+    invoiceType: milestone.invoiceType,
+    clientName: job.fullName,
+    clientEmail: job.email || undefined,
+    clientPhone: job.phone || undefined,
+    address: job.address || undefined,
+    amount: total,
+    taxAmount: 0,
+    totalAmount: total,
+    status: "draft",
+    invoiceDate,
+    dueDate: new Date(invoiceDate.getTime() + INVOICE_DUE_DAYS * 24 * 60 * 60 * 1000),
+    createdBy: userId,
+  }).returning();
+
+  await db.insert(invoiceItems).values(
+    lineItems.map((item, index) => ({
+      invoiceId: invoice.id,
+      description: item.description,
+      quantity: "1",
+      unitPrice: item.amount,
+      totalPrice: item.amount,
+      changeOrderId: item.changeOrderId,
+      sortOrder: index,
+    }))
+  );
+  const taxedInvoice = (await applySalesTax(db, invoice.id)) ?? invoice;
+
+  if (billedChangeOrderIds.length > 0) {
+    await db.update(changeOrders)
+      .set({ invoiceId: invoice.id, updatedAt: new Date() })
+      .where(inArray(changeOrders.id, billedChangeOrderIds));
+  }
+
+  await db.update(billingMilestones)
+    .set({ status: "invoiced", invoiceId: invoice.id, triggeredAt: new Date(), updatedAt: new Date() })
+    .where(eq(billingMilestones.id, milestone.id));
+
+  await db.insert(activities).values({
+    reportRequestId: job.id,
+    userId,
+    activityType: "note_added",
+    description: `Drafted ${milestone.name.toLowerCase()} invoice ${invoiceNumber} for ${formatCents(taxedInvoice.totalAmount)} from the billing schedule`,
+    metadata: JSON.stringify({ invoiceId: invoice.id, milestoneId: milestone.id, trigger: milestone.trigger }),
+  });
+
+  return taxedInvoice;
+}
+
+export interface MilestoneSummary {
+  id: number;
+  name: string;
+  invoiceType: BillingMilestone["invoiceType"];
+  trigger: BillingTrigger;
+  percent: number | null;
+  fixedAmount: number | null;
+  status: BillingMilestone["status"];
+  triggeredAt: Date | null;
+  invoiceId: number | null;
+  invoiceNumber: string | null;
+  invoiceStatus: Invoice["status"] | null;
+  scheduled: number; // Cents
+  invoiced: number; // Cents
+  collected: number; // Cents
+}
+
+/**
+ * Scheduled vs. invoiced vs. collected per milestone. Scheduled amounts for
+ * milestones not yet billed are projected from the current contract price and
+ * unbilled change orders. Collected counts the invoice's own payments plus its
+ * share of payments recorded on the job without an invoice.
+ */
+export async function getBillingScheduleSummary(db: any, jobId: number) {
+  const milestones: BillingMilestone[] = await db.select()
+    .from(billingMilestones)
+    .where(eq(billingMilestones.jobId, jobId))
+    .orderBy(asc(billingMilestones.sortOrder), asc(billingMilestones.id));
+
+  if (milestones.length === 0) return { milestones: [] as MilestoneSummary[], totals: { scheduled: 0, invoiced: 0, collected: 0 } };
+
+  const [job]: ReportRequest[] = await db.select().from(reportRequests).where(eq(reportRequests.id, jobId));
+  const contractCents = job ? contractCentsForJob(job) : 0;
+
+  const invoiceIds = milestones.map(m => m.invoiceId).filter((id): id is number => id !== null);
+  const linkedInvoices: Invoice[] = invoiceIds.length > 0
+    ? await db.select().from(invoices).where(inArray(invoices.id, invoiceIds))
+    : [];
+  const invoiceById = new Map(linkedInvoices.map(invoice => [invoice.id, invoice]));
+
+  const openInvoices: Invoice[] = await db.select()
+    .from(invoices)
+    .where(and(eq(invoices.reportRequestId, jobId), inArray(invoices.status, ["sent", "overdue"])));
+  const openBalances = await getOpenInvoiceBalances(db, openInvoices);
+  const collectedOn = (invoice: Invoice) => {
+    const balance = openBalances.get(invoice.id);
+    return invoice.amountPaid + (balance === undefined ? 0 : invoiceBalanceDue(invoice) - balance);
+  };
+
+  // Project the final milestone as if every other scheduled milestone had been billed
+  const contractInvoices = await getContractInvoices(db, jobId);
+  const pendingContractAmount = milestones
+    .filter(m => m.status === "scheduled" && m.invoiceType !== "final")
+    .reduce((sum, m) => sum + milestoneContractAmount(m, contractCents), 0);
+  const projectedFinal = finalMilestoneAmount(
+    contractCents,
+    [...contractInvoices, { amount: pendingContractAmount }],
+    await getUnbilledChangeOrders(db, jobId)
+  ).total;
+
+  const summaries: MilestoneSummary[] = milestones.map(milestone => {
+    const invoice = milestone.invoiceId ? invoiceById.get(milestone.invoiceId) : undefined;
+    const live = invoice && invoice.status !== "cancelled" ? invoice : undefined;
+    const scheduled = live
+      ? live.amount
+      : milestone.status === "skipped"
+        ? 0
+        : milestone.invoiceType === "final"
+          ? projectedFinal
+          : milestoneContractAmount(milestone, contractCents);
+
+    return {
+      id: milestone.id,
+      name: milestone.name,
+      invoiceType: milestone.invoiceType,
+      trigger: milestone.trigger,
+      percent: milestone.percent ? parseFloat(milestone.percent) : null,
+      fixedAmount: milestone.fixedAmount,
+      status: milestone.status,
+      triggeredAt: milestone.triggeredAt,
+      invoiceId: invoice?.id ?? null,
+      invoiceNumber: invoice?.invoiceNumber ?? null,
+      invoiceStatus: invoice?.status ?? null,
+      scheduled,
+      invoiced: live ? live.totalAmount : 0,
+      collected: live ? collectedOn(live) : 0,
+    };
+  });
+
+  return {
+    milestones: summaries,
+    totals: {
+      scheduled: summaries.reduce((sum, m) => sum + m.scheduled, 0),
+      invoiced: summaries.reduce((sum, m) => sum + m.invoiced, 0),
+      collected: summaries.reduce((sum, m) => sum + m.collected, 0),
+    },
+  };
+}
@@ -0,0 +1,451 @@
+/**
+ * Budgets
+ *
+ * Monthly spending targets per expense category, compared against what was
+ * actually spent. Actual spend for a category and month is the sum of:
+ *
+ *   - expenses dated in the month
+ *   - bank transactions categorized to it (outflows add, refunds subtract);
+ *     ignored transactions don't count, and neither does one confirmed as
+ *     paying a bill or expense, whatever its category, since that document
+ *     already counts the same money (an unconfirmed suggestion still counts)
+ *   - bills paid in the month, on their payment date
+ *
+ * Bank and bill categories are free text; anything that doesn't name an
+ * expense category is left out. Once a category passes BUDGET_ALERT_PERCENT
+ * of its budget while the month is still running, the owner gets one email
+ * about it. All amounts are cents.
+ */
+
+import { and, eq, gte, inArray, lt, ne, sql } from "drizzle-orm";
+import {
+  bankTransactionMatches,
+  bankTransactions,
+  billsPayable,
+  budgetAlerts,
+  budgets,
+  expenseCategoryEnum,
+  expenses,
+  users,
+  type BankTransaction,
+  type BillPayable,
+  type Budget,
+  type Expense,
+} from "../../drizzle/schema";
+import { sendInvoiceEmail } from "../mail";
+import { dollarsToCents } from "./ledger";
+import { PORTAL_BASE_URL } from "./portalAuth";
+
+export const BUDGET_CATEGORIES = expenseCategoryEnum.enumValues;
+export type BudgetCategory = (typeof BUDGET_CATEGORIES)[number];
+
+export const BUDGET_ALERT_PERCENT = 90;
+
+export type SpendSource = "expense" | "bank" | "bill";
+
+export interface SpendEntry {
+  source: SpendSource;
+  sourceId: number;
+  category: BudgetCategory;
+  date: Date;
+  amount: number; // Positive = money out
+  label: string;
+}
+
+export type BudgetStatus = "no_budget" | "under" | "near" | "over";
+
+export interface BudgetLine {
+  category: BudgetCategory;
+  budgetId: number | null;
+  budget: number | null;
+  actual: number;
+  bySource: Record<SpendSource, number>;
+  variance: number | null; // Budget - actual; negative = over budget
+  percentUsed: number | null;
+  status: BudgetStatus;
+  ytdBudget: number;
+  ytdActual: number;
+  ytdVariance: number;
+}
+
+export interface BudgetReport {
+  year: number;
+  month: number;
+  monthElapsedPercent: number; // How far through the month asOf is, 0-100
+  lines: BudgetLine[];
+  totals: { budget: number; actual: number; variance: number; ytdBudget: number; ytdActual: number; ytdVariance: number };
+}
+
+type BudgetRow = Pick<Budget, "id" | "category" | "year" | "month" | "amount">;
+
+const formatCents = (cents: number) =>
+  `$${(cents / 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const monthName = (year: number, month: number) =>
+  new Date(year, month - 1, 1).toLocaleDateString("en-US", { month: "long", year: "numeric" });
+
+/**
+ * Start of the month and start of the next one, for a 1-based month.
+ */
+export function monthRange(year: number, month: number): { start: Date; end: Date } {
+  return { start: new Date(year, month - 1, 1), end: new Date(year, month, 1) };
+}
+
+/**
+ * The expense category a bank or bill category names, if any
+ * ("Professional Services" -> professional_services).
+ */
+export function budgetCategory(category: string | null | undefined): BudgetCategory | null {
+  const normalized = (category ?? "").trim().toLowerCase().replace(/[\s-]+/g, "_");
+  return (BUDGET_CATEGORIES as readonly string[]).includes(normalized) ? (normalized as BudgetCategory) : null;
+}
+
+export function monthElapsedPercent(year: number, month: number, asOf: Date): number {
+  const { start, end } = monthRange(year, month);
+  if (asOf < start) return 0;
+  if (asOf >= end) return 100;
+  const daysInMonth = new Date(year, month, 0).getDate();
+  return Math.round((asOf.getDate() / daysInMonth) * 100);
+}
+
+export function budgetStatus(budget: number | null, actual: number): BudgetStatus {
+  if (budget === null) return "no_budget";
+  if (actual > budget) return "over";
+  if (budget > 0 && actual * 100 >= budget * BUDGET_ALERT_PERCENT) return "near";
+  return "under";
+}
+
+/**
+ * Budget against actual for each category in one month, with year-to-date
+ * columns through that month. `spend` should cover January 1 to the end of
+ * the month; `budgets` the whole year.
+ */
+export function buildBudgetReport(params: {
+  year: number;
+  month: number;
+  budgets: BudgetRow[];
+  spend: SpendEntry[];
+  asOf: Date;
+}): BudgetReport {
+  const { year, month, asOf } = params;
+  const { start, end } = monthRange(year, month);
+  const yearStart = new Date(year, 0, 1);
+
+  const lines = BUDGET_CATEGORIES.map((category): BudgetLine => {
+    const budgetRow = params.budgets.find(b => b.category === category && b.year === year && b.month === month);
+    const ytdBudget = params.budgets
+      .filter(b => b.category === category && b.year === year && b.month <= month)
+      .reduce((sum, b) => sum + b.amount, 0);
+
+    const bySource: Record<SpendSource, number> = { expense: 0, bank: 0, bill: 0 };
+    let ytdActual = 0;
+    for (const entry of params.spend) {
+      if (entry.category !== category || entry.date < yearStart || entry.date >= end) continue;
+      ytdActual += entry.amount;
+      if (entry.date >= start) bySource[entry.source] += entry.amount;
+    }
+
+    const actual = bySource.expense + bySource.bank + bySource.bill;
+    const budget = budgetRow ? budgetRow.amount : null;
+    return {
+      category,
+      budgetId: budgetRow?.id ?? null,
+      budget,
+      actual,
+      bySource,
+      variance: budget === null ? null : budget - actual,
+      percentUsed: budget ? Math.round((actual / budget) * 1000) / 10 : null,
+      status: budgetStatus(budget, actual),
+      ytdBudget,
+      ytdActual,
+      ytdVariance: ytdBudget - ytdActual,
+    };
+  });
+
+  const sum = (pick: (line: BudgetLine) => number) => lines.reduce((total, line) => total + pick(line), 0);
+  const budget = sum(line => line.budget ?? 0);
+  const actual = sum(line => line.actual);
+  const ytdBudget = sum(line => line.ytdBudget);
+  const ytdActual = sum(line => line.ytdActual);
+
+  return {
+    year,
+    month,
+    monthElapsedPercent: monthElapsedPercent(year, month, asOf),
+    lines,
+    totals: { budget, actual, variance: budget - actual, ytdBudget, ytdActual, ytdVariance: ytdBudget - ytdActual },
+  };
+}
+
+/**
+ * Lines the owner should be warned about: the month is still running, the
+ * category has reached the alert threshold, and no warning has gone out for
+ * this budget at its current amount. `alerted` maps budget id to the budget
+ * amount at the time of the last warning, so raising a budget re-arms it.
+ */
+export function budgetAlertsDue(report: BudgetReport, alerted: Map<number, number>, asOf: Date): BudgetLine[] {
+  const { start, end } = monthRange(report.year, report.month);
+  if (asOf < start || asOf >= end) return [];
+
+  return report.lines.filter(line =>
+    line.budgetId !== null &&
+    (line.status === "near" || line.status === "over") &&
+    alerted.get(line.budgetId) !== line.budget
+  );
+}
+
+/**
+ * Budgets to create or replace when copying a year forward: each of last
+ * year's months carried into the same month this year. Months that already
+ * have a budget are left alone unless `overwrite` is set.
+ */
+export function planCopyForward(
+  previous: BudgetRow[],
+  existing: BudgetRow[],
+  targetYear: number,
+  overwrite: boolean
+): { create: Array<Pick<Budget, "category" | "year" | "month" | "amount">>; update: Array<{ id: number; amount: number }>; skipped: number } {
+  const create: Array<Pick<Budget, "category" | "year" | "month" | "amount">> = [];
+  const update: Array<{ id: number; amount: number }> = [];
+  let skipped = 0;
+
+  for (const budget of previous) {
+    if (budget.year !== targetYear - 1) continue;
+    const current = existing.find(b => b.category === budget.category && b.year === targetYear && b.month === budget.month);
+    if (!current) {
+      create.push({ category: budget.category, year: targetYear, month: budget.month, amount: budget.amount });
+    } else if (overwrite && current.amount !== budget.amount) {
+      update.push({ id: current.id, amount: budget.amount });
+    } else {
+      skipped++;
+    }
+  }
+
+  return { create, update, skipped };
+}
+
+// ============================================================================
+// Database
+// ============================================================================
+
+/**
+ * Turn expenses, bank transactions and paid bills into spend entries. A bank
+ * transaction linked to a bill or expense (by a confirmed match, or as the
+ * payment reference on a bill paid from it) is the same money as that
+ * document, so it's left out even if it was categorized.
+ */
+export function collectSpend(params: {
+  expenses: Array<Pick<Expense, "id" | "category" | "date" | "amount" | "description" | "vendorName">>;
+  bankTransactions: Array<Pick<BankTransaction, "id" | "category" | "transactionDate" | "amount" | "description">>;
+  bills: Array<Pick<BillPayable, "id" | "category" | "totalAmount" | "vendorName" | "billNumber"> & { paidOn: Date }>;
+  linkedTransactionIds: Set<number>;
+}): SpendEntry[] {
+  const spend: SpendEntry[] = [];
+
+  for (const expense of params.expenses) {
+    spend.push({
+      source: "expense",
+      sourceId: expense.id,
+      category: expense.category,
+      date: expense.date,
+      amount: dollarsToCents(expense.amount),
+      label: expense.vendorName ? `${expense.vendorName} - ${expense.description}` : expense.description,
+    });
+  }
+
+  for (const transaction of params.bankTransactions) {
+    const category = budgetCategory(transaction.category);
+    if (!category || params.linkedTransactionIds.has(transaction.id)) continue;
+    spend.push({
+      source: "bank",
+      sourceId: transaction.id,
+      category,
+      date: transaction.transactionDate,
+      amount: -dollarsToCents(transaction.amount),
+      label: transaction.description,
+    });
+  }
+
+  for (const bill of params.bills) {
+    const category = budgetCategory(bill.category);
+    if (!category) continue;
+    spend.push({
+      source: "bill",
+      sourceId: bill.id,
+      category,
+      date: bill.paidOn,
+      amount: dollarsToCents(bill.totalAmount),
+      label: bill.billNumber ? `${bill.vendorName} · ${bill.billNumber}` : bill.vendorName,
+    });
+  }
+
+  return spend;
+}
+
+/**
+ * Spend from expenses, categorized bank transactions and paid bills dated in [from, to).
+ */
+export async function loadSpend(db: any, from: Date, to: Date): Promise<SpendEntry[]> {
+  const expenseRows = await db
+    .select()
+    .from(expenses)
+    .where(and(gte(expenses.date, from), lt(expenses.date, to)));
+
+  const bankRows: BankTransaction[] = await db
+    .select()
+    .from(bankTransactions)
+    .where(and(
+      gte(bankTransactions.transactionDate, from),
+      lt(bankTransactions.transactionDate, to),
+      ne(bankTransactions.status, "ignored")
+    ));
+
+  const linkedTransactionIds = new Set<number>();
+  if (bankRows.length > 0) {
+    const transactionIds = bankRows.map(transaction => transaction.id);
+    const matches = await db
+      .select({ transactionId: bankTransactionMatches.transactionId })
+      .from(bankTransactionMatches)
+      .where(and(
+        inArray(bankTransactionMatches.transactionId, transactionIds),
+        inArray(bankTransactionMatches.targetType, ["bill", "expense"]),
+        eq(bankTransactionMatches.status, "confirmed")
+      ));
+    const paidFrom = await db
+      .select({ paymentReference: billsPayable.paymentReference })
+      .from(billsPayable)
+      .where(inArray(billsPayable.paymentReference, transactionIds.map(id => `Bank Tx #${id}`)));
+    for (const match of matches) linkedTransactionIds.add(match.transactionId);
+    for (const bill of paidFrom) linkedTransactionIds.add(Number(bill.paymentReference.slice("Bank Tx #".length)));
+  }
+
+  const paidOn = sql<Date>`COALESCE(${billsPayable.paymentDate}, ${billsPayable.billDate})`;
+  const billRows = await db
+    .select({ bill: billsPayable, paidOn })
+    .from(billsPayable)
+    .where(and(eq(billsPayable.status, "paid"), gte(paidOn, from), lt(paidOn, to)));
+
+  return collectSpend({
+    expenses: expenseRows,
+    bankTransactions: bankRows,
+    bills: billRows.map(({ bill, paidOn: date }: { bill: BillPayable; paidOn: Date }) => ({ ...bill, paidOn: new Date(date) })),
+    linkedTransactionIds,
+  });
+}
+
+export async function getBudgetReport(db: any, year: number, month: number, asOf: Date = new Date()): Promise<BudgetReport> {
+  const yearBudgets = await db.select().from(budgets).where(eq(budgets.year, year));
+  const spend = await loadSpend(db, new Date(year, 0, 1), monthRange(year, month).end);
+  return buildBudgetReport({ year, month, budgets: yearBudgets, spend, asOf });
+}
+
+/**
+ * Carry last year's budgets into `year`, month for month.
+ */
+export async function copyBudgetsForward(
+  db: any,
+  params: { year: number; overwrite: boolean; userId: number }
+): Promise<{ created: number; updated: number; skipped: number }> {
+  const rows = await db.select().from(budgets).where(inArray(budgets.year, [params.year - 1, params.year]));
+  const previous = rows.filter((b: Budget) => b.year === params.year - 1);
+  const existing = rows.filter((b: Budget) => b.year === params.year);
+  const plan = planCopyForward(previous, existing, params.year, params.overwrite);
+
+  if (plan.create.length > 0) {
+    await db.insert(budgets)
+      .values(plan.create.map(budget => ({ ...budget, createdBy: params.userId })))
+      .onConflictDoNothing();
+  }
+  for (const { id, amount } of plan.update) {
+    await db.update(budgets).set({ amount, updatedAt: new Date() }).where(eq(budgets.id, id));
+  }
+
+  return { created: plan.create.length, updated: plan.update.length, skipped: plan.skipped };
+}
+
+function buildAlertEmail(report: BudgetReport, lines: BudgetLine[]): { subject: string; html: string } {
+  const period = monthName(report.year, report.month);
+  const label = (category: string) => category.replace(/_/g, " ").replace(/\b\w/g, c => c.toUpperCase());
+  const subject = lines.length === 1
+    ? `Budget alert: ${label(lines[0].category)} is at ${lines[0].percentUsed}% of its ${period} budget`
+    : `Budget alert: ${lines.length} categories near or over their ${period} budgets`;
+
+  const rows = lines.map(line => `
+      <tr>
+        <td style="padding: 6px 12px;">${label(line.category)}</td>
+        <td style="padding: 6px 12px; text-align: right;">${formatCents(line.actual)}</td>
+        <td style="padding: 6px 12px; text-align: right;">${formatCents(line.budget ?? 0)}</td>
+        <td style="padding: 6px 12px; text-align: right; color: ${line.status === "over" ? "#dc2626" : "#ca8a04"};">${line.percentUsed}%</td>
+      </tr>`).join("");
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; line-height: 1.5; color: #111;">
+      <p>${period} is ${report.monthElapsedPercent}% done, and spending has already reached ${BUDGET_ALERT_PERCENT}% of budget in:</p>
+      <table style="border-collapse: collapse;">
+        <tr style="background: #f1f5f9;">
+          <th style="padding: 6px 12px; text-align: left;">Category</th>
+          <th style="padding: 6px 12px; text-align: right;">Spent</th>
+          <th style="padding: 6px 12px; text-align: right;">Budget</th>
+          <th style="padding: 6px 12px; text-align: right;">Used</th>
+        </tr>${rows}
+      </table>
+      <p><a href="${PORTAL_BASE_URL}/finance" style="color: #00a88a;">Open the budget report</a></p>
+    </div>
+  `.trim();
+
+  return { subject, html };
+}
+
+/**
+ * Email the owner about categories that crossed the alert threshold this
+ * month. Run daily by the scheduler.
+ */
+export async function sendBudgetAlerts(db: any, asOf: Date = new Date()): Promise<{ alerted: number; sentTo: number } | { skipped: string }> {
+  const report = await getBudgetReport(db, asOf.getFullYear(), asOf.getMonth() + 1, asOf);
+  const budgetIds = report.lines.map(line => line.budgetId).filter((id): id is number => id !== null);
+  if (budgetIds.length === 0) return { alerted: 0, sentTo: 0 };
+
+  const previous = await db
+    .select({ budgetId: budgetAlerts.budgetId, budgetAmount: budgetAlerts.budgetAmount })
+    .from(budgetAlerts)
+    .where(inArray(budgetAlerts.budgetId, budgetIds));
+  const alerted = new Map<number, number>(previous.map((row: { budgetId: number; budgetAmount: number }) => [row.budgetId, row.budgetAmount]));
+
+  const due = budgetAlertsDue(report, alerted, asOf);
+  if (due.length === 0) return { alerted: 0, sentTo: 0 };
+
+  if (!process.env.ZOHO_EMAIL || !process.env.ZOHO_PASSWORD) return { skipped: "ZOHO_EMAIL is not set" };
+
+  const owners = await db
+    .select({ email: users.email })
+    .from(users)
+    .where(and(eq(users.role, "owner"), sql`${users.email} IS NOT NULL AND ${users.email} <> ''`));
+  const recipients: string[] = owners.map((owner: { email: string }) => owner.email);
+  if (recipients.length === 0) return { skipped: "No owner has an email address" };
+
+  const message = buildAlertEmail(report, due);
+  for (const to of recipients) {
+    await sendInvoiceEmail({ to, subject: message.subject, html: message.html });
+  }
+
+  for (const line of due) {
+    const values = { spent: line.actual, budgetAmount: line.budget!, sentTo: recipients, sentAt: asOf };
+    await db.insert(budgetAlerts)
+      .values({ budgetId: line.budgetId!, ...values })
+      .onConflictDoUpdate({ target: budgetAlerts.budgetId, set: values });
+  }
+
+  return { alerted: due.length, sentTo: recipients.length };
+}
+
+/**
+ * Budgets for a year with the warning sent for each, if any.
+ */
+export async function listBudgets(db: any, year: number) {
+  return db
+    .select({ budget: budgets, alertedAt: budgetAlerts.sentAt })
+    .from(budgets)
+    .leftJoin(budgetAlerts, eq(budgetAlerts.budgetId, budgets.id))
+    .where(eq(budgets.year, year))
+    .orderBy(budgets.month, budgets.category);
+}
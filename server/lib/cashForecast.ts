@@ -0,0 +1,527 @@
+/**
+ * Cash Forecast
+ *
+ * A 13-week projection of cash on hand, starting from the checking and
+ * savings balances in bankAccounts. Week by week it adds:
+ *
+ *   + open invoices, expected on the customer's own history of days from
+ *     invoice to payment (the company average for new customers)
+ *   + billing milestones not yet invoiced on scheduled jobs, invoiced around
+ *     the install date and collected on the same days-to-pay
+ *
+ * and takes off:
+ *
+ *   - open bills on their due dates
+ *   - recurring expenses: a vendor and category paid in at least 3 of the
+ *     last 6 months, projected at its median monthly amount on its usual day
+ *   - approved commissions not yet paid out
+ *
+ * Anything already past due lands in week one. Invoices a customer is
+ * already late on are discounted the later they get. All amounts are cents.
+ */
+
+import { and, eq, gte, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+import {
+  bankAccounts,
+  billingMilestones,
+  billsPayable,
+  commissionRequests,
+  companySettings,
+  expenses,
+  invoices,
+  reportRequests,
+  users,
+  vendors,
+  type BillingMilestone,
+} from "../../drizzle/schema";
+import { milestoneContractAmount } from "./billingSchedule";
+import { dollarsToCents } from "./ledger";
+import { getOpenInvoiceBalances } from "./stripePayments";
+
+export const FORECAST_WEEKS = 13;
+export const DEFAULT_LOW_CASH_THRESHOLD = 500000; // $5,000
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECURRING_LOOKBACK_MONTHS = 6;
+const RECURRING_MIN_MONTHS = 3;
+const DEFAULT_DAYS_TO_PAY = 30;
+const COMPLETION_DAYS = 3; // Install to final invoice
+
+export type ForecastSource = "receivable" | "milestone" | "bill" | "recurring" | "commission";
+
+export interface ForecastItem {
+  source: ForecastSource;
+  sourceId: string;
+  label: string;
+  date: Date;
+  amount: number; // Inflows positive, outflows negative
+  note?: string;
+}
+
+export interface ForecastWeek {
+  week: number; // 1-13
+  start: Date;
+  end: Date; // Exclusive
+  opening: number;
+  receivables: number;
+  milestones: number;
+  bills: number;
+  recurring: number;
+  commissions: number;
+  net: number;
+  closing: number;
+  belowThreshold: boolean;
+}
+
+export interface CashForecast {
+  asOf: Date;
+  startingBalance: number;
+  threshold: number;
+  weeks: ForecastWeek[];
+  items: Array<ForecastItem & { week: number }>;
+  lowestBalance: number;
+  lowestWeek: number;
+  firstWeekBelow: number | null;
+  accounts: Array<{ id: number; name: string; balance: number; balanceAsOf: Date | null }>;
+}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// ============================================
+// Weeks
+// ============================================
+
+/**
+ * Seven-day buckets starting today.
+ */
+export function forecastWeeks(asOf: Date, count: number = FORECAST_WEEKS): Array<{ week: number; start: Date; end: Date }> {
+  const today = startOfDay(asOf);
+  return Array.from({ length: count }, (_, index) => ({
+    week: index + 1,
+    start: addDays(today, index * 7),
+    end: addDays(today, (index + 1) * 7),
+  }));
+}
+
+/**
+ * The week a date falls in: past dates land in week one, dates past the
+ * horizon return null.
+ */
+export function weekFor(weeks: Array<{ week: number; start: Date; end: Date }>, date: Date): number | null {
+  if (weeks.length === 0) return null;
+  if (date < weeks[0].start) return weeks[0].week;
+  const match = weeks.find(week => date >= week.start && date < week.end);
+  return match ? match.week : null;
+}
+
+// ============================================
+// Receivables
+// ============================================
+
+export const customerKey = (name: string | null | undefined) => (name ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+
+export interface DaysToPay {
+  byCustomer: Map<string, number>;
+  overall: number | null;
+}
+
+/**
+ * Average days from invoice to payment, weighted by invoice amount, per
+ * customer and across all customers.
+ */
+export function daysToPay(
+  paid: Array<{ clientName: string; invoiceDate: Date; paidDate: Date; totalAmount: number }>
+): DaysToPay {
+  const totals = new Map<string, { days: number; amount: number }>();
+  let allDays = 0;
+  let allAmount = 0;
+
+  for (const invoice of paid) {
+    const amount = Math.max(invoice.totalAmount, 1);
+    const days = Math.max(0, Math.round((startOfDay(invoice.paidDate).getTime() - startOfDay(invoice.invoiceDate).getTime()) / DAY_MS));
+    const key = customerKey(invoice.clientName);
+    const current = totals.get(key) ?? { days: 0, amount: 0 };
+    totals.set(key, { days: current.days + days * amount, amount: current.amount + amount });
+    allDays += days * amount;
+    allAmount += amount;
+  }
+
+  const byCustomer = new Map<string, number>();
+  totals.forEach((total, key) => byCustomer.set(key, Math.round(total.days / total.amount)));
+  return { byCustomer, overall: allAmount > 0 ? Math.round(allDays / allAmount) : null };
+}
+
+/**
+ * Share of an invoice still expected once the customer is past their usual
+ * days-to-pay.
+ */
+export function lateCollectionWeight(daysLate: number): number {
+  if (daysLate <= 30) return 1;
+  if (daysLate <= 60) return 0.75;
+  if (daysLate <= 90) return 0.5;
+  return 0.25;
+}
+
+/**
+ * When an open invoice's balance is expected in, and how much of it.
+ */
+export function expectedCollection(
+  invoice: { clientName: string; invoiceDate: Date; dueDate: Date; balance: number },
+  history: DaysToPay,
+  asOf: Date
+): { date: Date; amount: number; daysToPay: number; daysLate: number } {
+  const terms = Math.max(0, Math.round((startOfDay(invoice.dueDate).getTime() - startOfDay(invoice.invoiceDate).getTime()) / DAY_MS));
+  const days = history.byCustomer.get(customerKey(invoice.clientName)) ?? history.overall ?? terms;
+  const expected = addDays(invoice.invoiceDate, days);
+  const today = startOfDay(asOf);
+  const daysLate = Math.max(0, Math.round((today.getTime() - expected.getTime()) / DAY_MS));
+
+  return {
+    date: expected < today ? today : expected,
+    amount: Math.round(invoice.balance * lateCollectionWeight(daysLate)),
+    daysToPay: days,
+    daysLate,
+  };
+}
+
+/**
+ * When a milestone gets invoiced, from the job's install date.
+ */
+export function milestoneInvoiceDate(trigger: BillingMilestone["trigger"], scheduledDate: Date, asOf: Date): Date | null {
+  const today = startOfDay(asOf);
+  let date: Date;
+  switch (trigger) {
+    case "job_approved":
+      date = today;
+      break;
+    case "materials_delivered":
+      date = startOfDay(scheduledDate);
+      break;
+    case "job_completed":
+      date = addDays(scheduledDate, COMPLETION_DAYS);
+      break;
+    default:
+      return null; // Manual milestones have no date to go on
+  }
+  return date < today ? today : date;
+}
+
+// ============================================
+// Recurring expenses
+// ============================================
+
+export interface RecurringExpense {
+  key: string;
+  label: string;
+  monthlyAmount: number;
+  dayOfMonth: number;
+  months: number;
+  lastDate: Date;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+};
+
+/**
+ * Vendor/category pairs paid in at least 3 of the 6 months before this one.
+ * Expenses should already be limited to overhead (not charged to a job).
+ */
+export function findRecurringExpenses(
+  history: Array<{ key: string; label: string; date: Date; amount: number }>,
+  asOf: Date
+): RecurringExpense[] {
+  const windowStart = new Date(asOf.getFullYear(), asOf.getMonth() - RECURRING_LOOKBACK_MONTHS, 1);
+  const windowEnd = new Date(asOf.getFullYear(), asOf.getMonth(), 1);
+
+  type Group = { label: string; months: Map<string, number>; days: number[]; lastDate: Date };
+  const groups = new Map<string, Group>();
+  for (const expense of history) {
+    if (!expense.key) continue;
+    const group: Group = groups.get(expense.key) ?? { label: expense.label, months: new Map(), days: [], lastDate: expense.date };
+    if (expense.date > group.lastDate) group.lastDate = expense.date;
+    // The current month only tells us it's already been paid
+    if (expense.date >= windowStart && expense.date < windowEnd) {
+      const month = `${expense.date.getFullYear()}-${expense.date.getMonth()}`;
+      group.months.set(month, (group.months.get(month) ?? 0) + expense.amount);
+      group.days.push(expense.date.getDate());
+    }
+    groups.set(expense.key, group);
+  }
+
+  const recurring: RecurringExpense[] = [];
+  groups.forEach((group, key) => {
+    if (group.months.size < RECURRING_MIN_MONTHS) return;
+    recurring.push({
+      key,
+      label: group.label,
+      monthlyAmount: median(Array.from(group.months.values())),
+      dayOfMonth: median(group.days),
+      months: group.months.size,
+      lastDate: group.lastDate,
+    });
+  });
+  return recurring.sort((a, b) => b.monthlyAmount - a.monthlyAmount);
+}
+
+/**
+ * Each recurring expense's dates within the forecast, skipping a month it's
+ * already been paid in.
+ */
+export function projectRecurring(recurring: RecurringExpense[], asOf: Date, weekCount: number = FORECAST_WEEKS): ForecastItem[] {
+  const today = startOfDay(asOf);
+  const horizon = addDays(today, weekCount * 7);
+  const items: ForecastItem[] = [];
+
+  for (const expense of recurring) {
+    for (let offset = 0; ; offset++) {
+      const monthStart = new Date(today.getFullYear(), today.getMonth() + offset, 1);
+      if (monthStart >= horizon) break;
+      const lastDay = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0).getDate();
+      const date = new Date(monthStart.getFullYear(), monthStart.getMonth(), Math.min(expense.dayOfMonth, lastDay));
+      const paidThisMonth = expense.lastDate.getFullYear() === monthStart.getFullYear() && expense.lastDate.getMonth() === monthStart.getMonth();
+      if (paidThisMonth || date >= horizon) continue;
+      items.push({
+        source: "recurring",
+        sourceId: `${expense.key}:${monthStart.getFullYear()}-${monthStart.getMonth() + 1}`,
+        label: expense.label,
+        date: date < today ? today : date,
+        amount: -expense.monthlyAmount,
+        note: `Paid ${expense.months} of the last ${RECURRING_LOOKBACK_MONTHS} months`,
+      });
+    }
+  }
+  return items;
+}
+
+// ============================================
+// Forecast
+// ============================================
+
+const SOURCE_FIELDS: Record<ForecastSource, "receivables" | "milestones" | "bills" | "recurring" | "commissions"> = {
+  receivable: "receivables",
+  milestone: "milestones",
+  bill: "bills",
+  recurring: "recurring",
+  commission: "commissions",
+};
+
+/**
+ * Bucket cash movements into weeks and run the balance forward.
+ */
+export function buildCashForecast(params: {
+  asOf: Date;
+  startingBalance: number;
+  threshold: number;
+  items: ForecastItem[];
+  weekCount?: number;
+}): Omit<CashForecast, "accounts"> {
+  const weekRanges = forecastWeeks(params.asOf, params.weekCount);
+  const placed = params.items
+    .map(item => ({ ...item, week: weekFor(weekRanges, item.date) }))
+    .filter((item): item is ForecastItem & { week: number } => item.week !== null && item.amount !== 0)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  let balance = params.startingBalance;
+  const weeks: ForecastWeek[] = weekRanges.map(range => {
+    const week: ForecastWeek = {
+      ...range,
+      opening: balance,
+      receivables: 0,
+      milestones: 0,
+      bills: 0,
+      recurring: 0,
+      commissions: 0,
+      net: 0,
+      closing: balance,
+      belowThreshold: false,
+    };
+    for (const item of placed) {
+      if (item.week !== range.week) continue;
+      week[SOURCE_FIELDS[item.source]] += item.amount;
+      week.net += item.amount;
+    }
+    balance += week.net;
+    week.closing = balance;
+    week.belowThreshold = balance < params.threshold;
+    return week;
+  });
+
+  const lowest = weeks.reduce((low, week) => (week.closing < low.closing ? week : low), weeks[0]);
+  return {
+    asOf: startOfDay(params.asOf),
+    startingBalance: params.startingBalance,
+    threshold: params.threshold,
+    weeks,
+    items: placed,
+    lowestBalance: lowest ? lowest.closing : params.startingBalance,
+    lowestWeek: lowest ? lowest.week : 1,
+    firstWeekBelow: weeks.find(week => week.belowThreshold)?.week ?? null,
+  };
+}
+
+/**
+ * Gather everything the forecast needs and build it.
+ */
+export async function getCashForecast(db: any, asOf: Date = new Date()): Promise<CashForecast> {
+  const today = startOfDay(asOf);
+
+  const [settings] = await db.select({ lowCashThreshold: companySettings.lowCashThreshold }).from(companySettings).limit(1);
+  const threshold = settings?.lowCashThreshold ?? DEFAULT_LOW_CASH_THRESHOLD;
+
+  // Cash accounts only; card and credit line balances are paid from these
+  const accounts = await db
+    .select()
+    .from(bankAccounts)
+    .where(and(eq(bankAccounts.isActive, true), inArray(bankAccounts.accountType, ["checking", "savings"])));
+  const accountBalances = accounts.map((account: any) => ({
+    id: account.id,
+    name: account.accountName,
+    balance: dollarsToCents(account.currentBalance || "0"),
+    balanceAsOf: account.balanceAsOf,
+  }));
+  const startingBalance = accountBalances.reduce((sum: number, account: { balance: number }) => sum + account.balance, 0);
+
+  const items: ForecastItem[] = [];
+
+  // Days-to-pay from the last two years of paid invoices
+  const paid = await db
+    .select({
+      clientName: invoices.clientName,
+      invoiceDate: invoices.invoiceDate,
+      paidDate: invoices.paidDate,
+      totalAmount: invoices.totalAmount,
+    })
+    .from(invoices)
+    .where(and(
+      eq(invoices.status, "paid"),
+      isNotNull(invoices.paidDate),
+      gte(invoices.invoiceDate, new Date(today.getFullYear() - 2, today.getMonth(), today.getDate()))
+    ));
+  const history = daysToPay(paid);
+
+  // Open invoices, drafts included (milestone invoices wait there for review),
+  // less payments already recorded on their jobs without an invoice
+  const open = await db
+    .select()
+    .from(invoices)
+    .where(and(
+      inArray(invoices.status, ["draft", "sent", "overdue"]),
+      sql`${invoices.totalAmount} - ${invoices.amountPaid} - ${invoices.creditedAmount} > 0`
+    ));
+  const openBalances = await getOpenInvoiceBalances(db, open);
+  for (const invoice of open) {
+    const balance = openBalances.get(invoice.id) || 0;
+    if (balance <= 0) continue;
+    const expected = expectedCollection({ ...invoice, balance }, history, today);
+    items.push({
+      source: "receivable",
+      sourceId: `invoice:${invoice.id}`,
+      label: `${invoice.invoiceNumber} · ${invoice.clientName}`,
+      date: expected.date,
+      amount: expected.amount,
+      note: expected.daysLate > 0
+        ? `${expected.daysLate} days past their usual ${expected.daysToPay}; ${Math.round((expected.amount / balance) * 100)}% expected`
+        : `Usually pays in ${expected.daysToPay} days`,
+    });
+  }
+
+  // Milestones still to be invoiced on jobs with an install date
+  const milestones = await db
+    .select({ milestone: billingMilestones, job: reportRequests })
+    .from(billingMilestones)
+    .innerJoin(reportRequests, eq(billingMilestones.jobId, reportRequests.id))
+    .where(and(
+      eq(billingMilestones.status, "scheduled"),
+      inArray(reportRequests.status, ["approved", "project_scheduled"]),
+      isNotNull(reportRequests.scheduledDate)
+    ));
+  for (const { milestone, job } of milestones) {
+    const invoiceDate = milestoneInvoiceDate(milestone.trigger, job.scheduledDate, today);
+    const amount = milestoneContractAmount(milestone, dollarsToCents(job.totalPrice || "0"));
+    if (!invoiceDate || amount <= 0) continue;
+    const days = history.byCustomer.get(customerKey(job.fullName)) ?? history.overall ?? DEFAULT_DAYS_TO_PAY;
+    items.push({
+      source: "milestone",
+      sourceId: `milestone:${milestone.id}`,
+      label: `${milestone.name} · ${job.fullName}`,
+      date: addDays(invoiceDate, days),
+      amount,
+      note: `Invoiced ${invoiceDate.toLocaleDateString("en-US")}, collected in about ${days} days`,
+    });
+  }
+
+  // Open bills on their due dates
+  const bills = await db
+    .select()
+    .from(billsPayable)
+    .where(inArray(billsPayable.status, ["pending", "approved", "overdue"]));
+  for (const bill of bills) {
+    items.push({
+      source: "bill",
+      sourceId: `bill:${bill.id}`,
+      label: `${bill.vendorName}${bill.billNumber ? ` · ${bill.billNumber}` : ""}`,
+      date: bill.dueDate < today ? today : bill.dueDate,
+      amount: -dollarsToCents(bill.totalAmount),
+      note: bill.approvalStatus === "pending" ? "Awaiting approval" : undefined,
+    });
+  }
+
+  // Overhead expenses from the lookback window and this month so far
+  const overhead = await db
+    .select({
+      vendorId: expenses.vendorId,
+      vendorName: sql<string | null>`COALESCE(${vendors.name}, ${expenses.vendorName})`,
+      category: expenses.category,
+      date: expenses.date,
+      amount: expenses.amount,
+    })
+    .from(expenses)
+    .leftJoin(vendors, eq(expenses.vendorId, vendors.id))
+    .where(and(
+      isNull(expenses.reportRequestId),
+      gte(expenses.date, new Date(today.getFullYear(), today.getMonth() - RECURRING_LOOKBACK_MONTHS, 1))
+    ));
+  const recurring = findRecurringExpenses(
+    overhead.map((expense: any) => {
+      const vendor = expense.vendorId ? `vendor:${expense.vendorId}` : customerKey(expense.vendorName);
+      return {
+        key: vendor ? `${vendor}|${expense.category}` : "",
+        label: `${expense.vendorName ?? "Unknown vendor"} (${String(expense.category).replace(/_/g, " ")})`,
+        date: expense.date,
+        amount: dollarsToCents(expense.amount),
+      };
+    }),
+    today
+  );
+  items.push(...projectRecurring(recurring, today));
+
+  // Approved commissions waiting to be paid out
+  const commissions = await db
+    .select({ request: commissionRequests, userName: users.name, jobName: reportRequests.fullName })
+    .from(commissionRequests)
+    .leftJoin(users, eq(commissionRequests.userId, users.id))
+    .leftJoin(reportRequests, eq(commissionRequests.jobId, reportRequests.id))
+    .where(and(
+      eq(commissionRequests.status, "approved"),
+      isNotNull(commissionRequests.amount),
+      isNull(commissionRequests.paidAt)
+    ));
+  for (const { request, userName, jobName } of commissions) {
+    items.push({
+      source: "commission",
+      sourceId: `commission:${request.id}`,
+      label: `${userName ?? "Sales rep"}${jobName ? ` · ${jobName}` : ""}`,
+      date: today,
+      amount: -request.amount,
+    });
+  }
+
+  return {
+    ...buildCashForecast({ asOf: today, startingBalance, threshold, items }),
+    accounts: accountBalances,
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Categorization Rules
+ *
+ * User-defined rules that categorize bank transactions without asking the
+ * model: "HOME DEPOT" outflows are materials, "ADP" is payroll, and so on.
+ * Each rule's conditions (description contains/regex, absolute amount range,
+ * bank account, inflow/outflow) must all hold; the first active rule in
+ * priority order wins and sets the category, and optionally the project and
+ * a note. A categorized transaction is reconciled and posted exactly as an
+ * AI-categorized one is, with ruleId recording which rule fired.
+ *
+ * Rules run on import and ahead of AI in categorizeTransactions, so only
+ * what no rule recognizes is sent to Gemini.
+ */
+
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import { bankTransactions, categorizationRules, type BankTransaction, type CategorizationRule } from "../../drizzle/schema";
+import { normalizePayee, withoutOpenSuggestions } from "./bankMatcher";
+import { postBankTransaction } from "./ledger";
+
+export type RuleMatchType = "contains" | "regex";
+export type RuleSign = "any" | "inflow" | "outflow";
+
+export type RuleConditions = Pick<CategorizationRule, "matchType" | "pattern" | "minAmount" | "maxAmount" | "accountId" | "sign">;
+
+export type RuleTransaction = Pick<BankTransaction, "description" | "amount" | "accountId">;
+
+/**
+ * Throw if a regex rule's pattern doesn't compile, so a bad rule is refused
+ * when saved instead of silently never matching.
+ */
+export function validateRulePattern(matchType: string, pattern: string | null | undefined) {
+  if (matchType !== "regex" || !pattern) return;
+  try {
+    new RegExp(pattern, "i");
+  } catch (error) {
+    throw new Error(`Invalid regular expression: ${(error as Error).message}`);
+  }
+}
+
+export function ruleMatches(rule: RuleConditions, transaction: RuleTransaction): boolean {
+  const amount = Number(transaction.amount);
+
+  if (rule.pattern) {
+    if (rule.matchType === "regex") {
+      try {
+        if (!new RegExp(rule.pattern, "i").test(transaction.description)) return false;
+      } catch {
+        return false;
+      }
+    } else if (!transaction.description.toLowerCase().includes(rule.pattern.toLowerCase())) {
+      return false;
+    }
+  }
+
+  if (rule.sign === "inflow" && amount <= 0) return false;
+  if (rule.sign === "outflow" && amount >= 0) return false;
+  if (rule.minAmount !== null && Math.abs(amount) < Number(rule.minAmount)) return false;
+  if (rule.maxAmount !== null && Math.abs(amount) > Number(rule.maxAmount)) return false;
+  if (rule.accountId !== null && transaction.accountId !== rule.accountId) return false;
+
+  return true;
+}
+
+/**
+ * The rule that applies to a transaction. `rules` must already be active
+ * rules in priority order.
+ */
+export function findMatchingRule<T extends RuleConditions>(rules: T[], transaction: RuleTransaction): T | null {
+  return rules.find(rule => ruleMatches(rule, transaction)) ?? null;
+}
+
+export interface RuleDraft {
+  name: string;
+  matchType: RuleMatchType;
+  pattern: string;
+  sign: RuleSign;
+  setCategory: string;
+}
+
+/**
+ * A rule proposal when someone overrides the AI's category (`before` is the
+ * transaction as the AI left it): match the payee part of the description,
+ * in the same direction, to the category they chose.
+ */
+export function draftRuleFromCorrection(
+  before: Pick<BankTransaction, "description" | "amount" | "aiSuggestedCategory">,
+  category: string | null | undefined
+): RuleDraft | null {
+  if (!category || !before.aiSuggestedCategory || category === before.aiSuggestedCategory) return null;
+
+  const payee = normalizePayee(before.description);
+  if (!payee) return null;
+
+  return {
+    name: `${payee} → ${category}`,
+    matchType: "contains",
+    pattern: payee,
+    sign: Number(before.amount) < 0 ? "outflow" : "inflow",
+    setCategory: category,
+  };
+}
+
+export async function loadActiveRules(db: any): Promise<CategorizationRule[]> {
+  return db
+    .select()
+    .from(categorizationRules)
+    .where(eq(categorizationRules.isActive, true))
+    .orderBy(asc(categorizationRules.priority), asc(categorizationRules.id));
+}
+
+export interface RuleApplication {
+  id: number;
+  ruleId: number;
+  ruleName: string;
+  category: string;
+}
+
+/**
+ * Apply the first matching rule to each transaction given.
+ */
+export async function applyRulesToTransactions(
+  db: any,
+  transactions: BankTransaction[],
+  rules?: CategorizationRule[]
+): Promise<RuleApplication[]> {
+  if (transactions.length === 0) return [];
+  const activeRules = rules ?? await loadActiveRules(db);
+  if (activeRules.length === 0) return [];
+
+  const applied: RuleApplication[] = [];
+  const matchCounts = new Map<number, number>();
+
+  for (const transaction of transactions) {
+    const rule = findMatchingRule(activeRules, transaction);
+    if (!rule) continue;
+
+    await db
+      .update(bankTransactions)
+      .set({
+        category: rule.setCategory,
+        projectId: rule.setProjectId ?? transaction.projectId,
+        ...(rule.setNotes ? { notes: sql`COALESCE(${bankTransactions.notes} || ' ', '') || ${rule.setNotes}` } : {}),
+        ruleId: rule.id,
+        status: "reconciled",
+        updatedAt: new Date(),
+      })
+      .where(eq(bankTransactions.id, transaction.id));
+    await postBankTransaction(db, transaction.id);
+
+    matchCounts.set(rule.id, (matchCounts.get(rule.id) || 0) + 1);
+    applied.push({ id: transaction.id, ruleId: rule.id, ruleName: rule.name, category: rule.setCategory });
+  }
+
+  for (const [ruleId, count] of Array.from(matchCounts.entries())) {
+    await db
+      .update(categorizationRules)
+      .set({ matchCount: sql`${categorizationRules.matchCount} + ${count}`, lastMatchedAt: new Date() })
+      .where(eq(categorizationRules.id, ruleId));
+  }
+
+  return applied;
+}
+
+/**
+ * Run the rules over pending, uncategorized transactions (or just
+ * `transactionIds`).
+ */
+export async function applyCategorizationRules(
+  db: any,
+  options: { transactionIds?: number[]; limit?: number } = {}
+): Promise<RuleApplication[]> {
+  const conditions = [
+    eq(bankTransactions.status, "pending"),
+    sql`(${bankTransactions.category} IS NULL OR ${bankTransactions.category} = '')`,
+    withoutOpenSuggestions(),
+  ];
+  if (options.transactionIds) {
+    if (options.transactionIds.length === 0) return [];
+    conditions.push(inArray(bankTransactions.id, options.transactionIds));
+  }
+
+  const transactions: BankTransaction[] = await db
+    .select()
+    .from(bankTransactions)
+    .where(and(...conditions))
+    .limit(options.limit ?? 1000);
+
+  return applyRulesToTransactions(db, transactions);
+}
@@ -0,0 +1,45 @@
+/**
+ * Insurance Claim Tracking
+ *
+ * Claim lifecycle helpers for insurance jobs: the carrier pays the ACV first,
+ * holds back recoverable depreciation until the work is done, then releases it
+ * with the final check (see reports.getDepreciationOutstanding).
+ */
+
+import { claimStatusEnum, type InsertEvent, type ReportRequest } from "../../drizzle/schema";
+
+export const CLAIM_STATUSES = claimStatusEnum.enumValues;
+export type ClaimStatus = typeof CLAIM_STATUSES[number];
+
+const ADJUSTER_MEETING_MINUTES = 60;
+const ADJUSTER_MEETING_COLOR = "#ef4444"; // Same red as other inspections on the calendar
+
+/**
+ * Calendar entry for the adjuster meeting, assigned to the job's rep so it
+ * shows on their schedule.
+ */
+export function buildAdjusterMeetingEvent(
+  job: Pick<ReportRequest, "id" | "fullName" | "address" | "cityStateZip" | "assignedTo" | "insuranceCarrier" | "claimNumber" | "adjusterName" | "adjusterPhone">,
+  meetingAt: Date,
+  createdBy: number
+): InsertEvent {
+  const details = [
+    job.insuranceCarrier && `Carrier: ${job.insuranceCarrier}`,
+    job.claimNumber && `Claim #: ${job.claimNumber}`,
+    job.adjusterName && `Adjuster: ${job.adjusterName}${job.adjusterPhone ? ` (${job.adjusterPhone})` : ""}`,
+  ].filter(Boolean);
+
+  return {
+    title: `Adjuster Meeting - ${job.fullName}`,
+    description: details.join("\n") || null,
+    type: "inspection",
+    color: ADJUSTER_MEETING_COLOR,
+    startTime: meetingAt,
+    endTime: new Date(meetingAt.getTime() + ADJUSTER_MEETING_MINUTES * 60 * 1000),
+    jobId: job.id,
+    assignedTo: job.assignedTo,
+    createdBy,
+    attendees: job.assignedTo ? [job.assignedTo] : [],
+    location: `${job.address}, ${job.cityStateZip}`,
+  };
+}
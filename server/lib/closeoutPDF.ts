@@ -0,0 +1,141 @@
+// @ts-ignore - pdfkit types may not be available
+import PDFDocument from 'pdfkit';
+
+/**
+ * Closeout documents the homeowner downloads from the portal once the job
+ * is completed: a certificate of completion and the workmanship/material
+ * warranty. Generated on demand so they always reflect current company
+ * settings.
+ */
+
+export interface CloseoutPDFData {
+  companyName: string;
+  companyPhone?: string | null;
+  companyEmail?: string | null;
+  contractorLicenseNumber?: string | null;
+  customerName: string;
+  propertyAddress: string;
+  cityStateZip: string;
+  completionDate: Date;
+  productDescription?: string | null; // e.g., "GAF Timberline HDZ - Charcoal"
+  manufacturerWarranty?: string | null; // products.warrantyInfo
+  laborWarrantyYears: number;
+  materialWarrantyYears: number;
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+function addYears(date: Date, years: number) {
+  const result = new Date(date);
+  result.setFullYear(result.getFullYear() + years);
+  return result;
+}
+
+function renderPDF(draw: (doc: any) => void): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'LETTER', margin: 60 });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    draw(doc);
+    doc.end();
+  });
+}
+
+function drawLetterhead(doc: any, data: CloseoutPDFData) {
+  doc.fontSize(18).font('Helvetica-Bold').fillColor('#000000').text(data.companyName, { align: 'center' });
+  doc.fontSize(9).font('Helvetica').fillColor('#666666');
+  const contact = [data.companyPhone, data.companyEmail].filter(Boolean).join('  |  ');
+  if (contact) doc.text(contact, { align: 'center' });
+  if (data.contractorLicenseNumber) doc.text(`License #${data.contractorLicenseNumber}`, { align: 'center' });
+  doc.moveDown(2);
+}
+
+function drawSignatureLine(doc: any, data: CloseoutPDFData) {
+  doc.moveDown(3);
+  const y = doc.y;
+  doc.moveTo(60, y).lineTo(280, y).strokeColor('#000000').stroke();
+  doc.fontSize(9).font('Helvetica').fillColor('#000000').text(`Authorized Representative, ${data.companyName}`, 60, y + 5);
+}
+
+export async function generateCompletionCertificatePDF(data: CloseoutPDFData): Promise<Buffer> {
+  return renderPDF(doc => {
+    drawLetterhead(doc, data);
+
+    doc.fontSize(22).font('Helvetica-Bold').fillColor('#000000').text('Certificate of Completion', { align: 'center' });
+    doc.moveDown(2);
+
+    doc.fontSize(11).font('Helvetica').text(
+      `This certifies that the roofing work contracted by ${data.customerName} at the property below ` +
+      `was completed by ${data.companyName} in accordance with the signed agreement and applicable building codes.`,
+      { align: 'left' }
+    );
+    doc.moveDown(1.5);
+
+    doc.font('Helvetica-Bold').text('Property');
+    doc.font('Helvetica').text(data.propertyAddress);
+    doc.text(data.cityStateZip);
+    doc.moveDown(1);
+
+    doc.font('Helvetica-Bold').text('Date of Completion');
+    doc.font('Helvetica').text(formatDate(data.completionDate));
+    doc.moveDown(1);
+
+    if (data.productDescription) {
+      doc.font('Helvetica-Bold').text('Roofing System Installed');
+      doc.font('Helvetica').text(data.productDescription);
+      doc.moveDown(1);
+    }
+
+    drawSignatureLine(doc, data);
+  });
+}
+
+export async function generateWarrantyPDF(data: CloseoutPDFData): Promise<Buffer> {
+  const laborExpires = addYears(data.completionDate, data.laborWarrantyYears);
+
+  return renderPDF(doc => {
+    drawLetterhead(doc, data);
+
+    doc.fontSize(22).font('Helvetica-Bold').fillColor('#000000').text('Warranty Certificate', { align: 'center' });
+    doc.moveDown(2);
+
+    doc.fontSize(11).font('Helvetica');
+    doc.text(`Homeowner: ${data.customerName}`);
+    doc.text(`Property: ${data.propertyAddress}, ${data.cityStateZip}`);
+    doc.text(`Completion Date: ${formatDate(data.completionDate)}`);
+    if (data.productDescription) doc.text(`Roofing System: ${data.productDescription}`);
+    doc.moveDown(1.5);
+
+    doc.fontSize(13).font('Helvetica-Bold').text('Workmanship Warranty');
+    doc.moveDown(0.3);
+    doc.fontSize(11).font('Helvetica').text(
+      `${data.companyName} warrants its installation workmanship for ${data.laborWarrantyYears} years, ` +
+      `through ${formatDate(laborExpires)}. Leaks or defects caused by installation will be repaired at no cost to the homeowner.`
+    );
+    doc.moveDown(1);
+
+    doc.fontSize(13).font('Helvetica-Bold').text('Material Warranty');
+    doc.moveDown(0.3);
+    doc.fontSize(11).font('Helvetica').text(
+      data.manufacturerWarranty
+        ? `Materials are covered by the manufacturer's warranty: ${data.manufacturerWarranty}.`
+        : `Materials are covered by the manufacturer's warranty for ${data.materialWarrantyYears} years from the completion date.`
+    );
+    doc.moveDown(1);
+
+    doc.fontSize(13).font('Helvetica-Bold').text('Exclusions');
+    doc.moveDown(0.3);
+    doc.fontSize(10).font('Helvetica').text(
+      'This warranty does not cover damage from storms exceeding the rated wind speed, hail, falling objects, ' +
+      'alterations or penetrations made by others, or lack of reasonable maintenance. Keep this certificate ' +
+      'with your property records; it transfers to a new owner on sale of the home.'
+    );
+
+    drawSignatureLine(doc, data);
+  });
+}
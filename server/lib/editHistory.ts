@@ -24,7 +24,14 @@ export async function logEditHistory(
     oldValue: oldValue,
     newValue: newValue,
     editType: editType,
-    ipAddress: ctx?.req?.ip || ctx?.req?.headers?.["x-forwarded-for"] || null,
+    ipAddress: getClientIp(ctx?.req),
     userAgent: ctx?.req?.headers?.["user-agent"]?.substring(0, 500) || null,
   });
 }
+
+// Client IP for audit records and rate limits, truncated to fit varchar(45).
+// Express resolves req.ip from X-Forwarded-For only through the trusted
+// proxy hops (see "trust proxy" in _core/index), so clients can't spoof it.
+export function getClientIp(req: any): string | null {
+  return (req?.ip || "").substring(0, 45) || null;
+}
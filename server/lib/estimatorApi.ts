@@ -3,6 +3,9 @@
  * Integrates lead data from the estimator into the CRM
  */
 
+import { and, eq } from "drizzle-orm";
+import { reportRequests } from "../../drizzle/schema";
+
 export interface EstimatorLead {
   id: number;
   name: string;
@@ -126,3 +129,78 @@ export function formatEstimateData(estimate: EstimatorLead['estimate']) {
     importedAt: new Date().toISOString(),
   };
 }
+
+export interface EstimatorImportResult {
+  total: number;
+  imported: number;
+  skipped: number;
+  errors: string[];
+}
+
+/**
+ * Fetch estimator leads and create a CRM lead for each new property.
+ * Leads are matched on address, so the same person can have estimates at
+ * several properties. Used by crm.importEstimatorLeads and the scheduled
+ * import job.
+ */
+export async function importEstimatorLeads(
+  db: any,
+  baseUrl: string,
+  sessionCookie?: string
+): Promise<EstimatorImportResult> {
+  const estimatorLeads = await fetchEstimatorLeads(baseUrl, sessionCookie);
+
+  const importResults: EstimatorImportResult = {
+    total: estimatorLeads.length,
+    imported: 0,
+    skipped: 0,
+    errors: [],
+  };
+
+  for (const lead of estimatorLeads) {
+    try {
+      const { streetAddress, cityStateZip } = parseEstimatorAddress(lead.address);
+
+      const existingLead = await db
+        .select({ id: reportRequests.id })
+        .from(reportRequests)
+        .where(
+          and(
+            eq(reportRequests.address, streetAddress),
+            eq(reportRequests.cityStateZip, cityStateZip)
+          )
+        )
+        .limit(1);
+
+      if (existingLead.length > 0) {
+        importResults.skipped++;
+        continue;
+      }
+
+      await db.insert(reportRequests).values({
+        fullName: lead.name,
+        email: lead.email || null,
+        phone: lead.phone || null,
+        address: streetAddress,
+        cityStateZip: cityStateZip,
+        estimatorData: formatEstimateData(lead.estimate) as any,
+        status: "lead",
+        priority: "medium" as const,
+        leadSource: "estimator",
+        handsOnInspection: false,
+        amountPaid: 0,
+        internalNotes: lead.notes || null,
+        createdAt: new Date(lead.createdAt),
+        updatedAt: new Date(),
+      });
+
+      importResults.imported++;
+      console.log(`[EstimatorAPI] Imported lead: ${lead.name}`);
+    } catch (error) {
+      console.error(`[EstimatorAPI] Error importing lead ${lead.name}:`, error);
+      importResults.errors.push(`${lead.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return importResults;
+}
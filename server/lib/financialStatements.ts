@@ -0,0 +1,611 @@
+/**
+ * Financial Statements
+ *
+ * Income statement, balance sheet and statement of cash flows, all computed
+ * from the general ledger (see ledger.ts) so they tie out to the trial balance.
+ *
+ * Accrual basis reads the journal as posted. Cash basis drops the invoice and
+ * bill entries and instead recognizes revenue and expense when money moves:
+ * a customer payment's credit to Accounts Receivable is re-pointed at the
+ * revenue (and sales tax) accounts of the invoice it paid, and a bill
+ * payment's debit to Accounts Payable at the bill's expense accounts, in the
+ * same proportions as the original document.
+ *
+ * The cash flow statement uses the indirect method: net income, adjusted by
+ * the change in every non-cash balance sheet account over the period.
+ *
+ * Amounts are integer cents throughout; every statement comes back as titled
+ * sections of rows with one amount per column, which is what the UI, the PDF
+ * and the CSV export all render.
+ */
+
+import { and, desc, eq, inArray, isNull, lte } from "drizzle-orm";
+import {
+  journalEntries,
+  journalLines,
+  ledgerAccounts,
+  payments,
+  type LedgerAccount,
+} from "../../drizzle/schema";
+import { SYSTEM_ACCOUNTS } from "./ledger";
+
+export type StatementType = "income" | "balance" | "cash_flow";
+export type StatementBasis = "accrual" | "cash";
+export type StatementComparison = "none" | "prior_period" | "prior_year";
+
+export interface StatementAccount {
+  accountId: number;
+  code: string;
+  name: string;
+  type: LedgerAccount["type"];
+  subtype: string | null;
+}
+
+/**
+ * One journal line with its entry and account flattened onto it.
+ */
+export interface StatementLine extends StatementAccount {
+  entryId: number;
+  entryDate: Date;
+  memo: string | null;
+  sourceType: string;
+  sourceId: number | null;
+  jobId: number | null;
+  debit: number; // Cents
+  credit: number; // Cents
+}
+
+export interface StatementColumn {
+  label: string;
+  from: Date | null; // Null for balance sheet columns (balances since inception)
+  to: Date;
+}
+
+export interface StatementRow {
+  label: string;
+  accountId: number | null; // Set on rows that can be drilled into
+  code: string | null;
+  amounts: number[]; // Cents, one per column
+}
+
+export interface StatementSection {
+  title: string;
+  rows: StatementRow[];
+  total: StatementRow;
+}
+
+export interface FinancialStatement {
+  type: StatementType;
+  title: string;
+  basis: StatementBasis;
+  columns: StatementColumn[];
+  sections: StatementSection[];
+  summary: StatementRow[]; // Bottom-line rows: gross profit, net income, net change in cash...
+}
+
+/**
+ * Where the receivable/payable side of a payment goes on a cash basis: the
+ * accounts of the invoice or bill it settled, weighted by their amounts.
+ */
+export type CashAllocation = Array<{ account: StatementAccount; weight: number }>;
+
+export interface CashBasisTargets {
+  receivableAccountId: number | null;
+  payableAccountId: number | null;
+  payments: Map<number, CashAllocation>; // By payment id
+  bills: Map<number, CashAllocation>; // By bill id (the bill_payment entry's source)
+  fallbackRevenue: StatementAccount | null;
+  fallbackExpense: StatementAccount | null;
+}
+
+export const STATEMENT_TITLES: Record<StatementType, string> = {
+  income: "Income Statement",
+  balance: "Balance Sheet",
+  cash_flow: "Statement of Cash Flows",
+};
+
+// ============================================================================
+// Periods
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+
+/**
+ * Parse a YYYY-MM-DD input as a local calendar date.
+ */
+export function parseStatementDate(value: string): Date {
+  const [year, month, day] = value.split("-").map(Number);
+  if (!year || !month || !day) throw new Error(`Invalid date: ${value}`);
+  return new Date(year, month - 1, day);
+}
+
+const formatDay = (date: Date, withYear = true) =>
+  date.toLocaleDateString("en-US", { month: "short", day: "numeric", ...(withYear ? { year: "numeric" } : {}) });
+
+function periodLabel(from: Date, to: Date) {
+  return from.getFullYear() === to.getFullYear()
+    ? `${formatDay(from, false)} - ${formatDay(to)}`
+    : `${formatDay(from)} - ${formatDay(to)}`;
+}
+
+function addMonths(date: Date, months: number) {
+  return new Date(date.getFullYear(), date.getMonth() + months, date.getDate());
+}
+
+function isWholeMonths(from: Date, to: Date) {
+  const dayAfter = new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1);
+  return from.getDate() === 1 && dayAfter.getDate() === 1;
+}
+
+/**
+ * The reporting column plus its comparison column, if any. A prior period is
+ * the same number of whole months (or days, for odd ranges) immediately before;
+ * a prior year is the same dates a year earlier. Balance sheet columns are
+ * point-in-time, as of each period's end.
+ */
+export function statementColumns(type: StatementType, from: Date, to: Date, compare: StatementComparison): StatementColumn[] {
+  const periods: Array<{ from: Date; to: Date }> = [{ from: startOfDay(from), to: endOfDay(to) }];
+
+  if (compare === "prior_period") {
+    if (isWholeMonths(from, to)) {
+      const months = (to.getFullYear() - from.getFullYear()) * 12 + to.getMonth() - from.getMonth() + 1;
+      const priorFrom = addMonths(from, -months);
+      periods.push({ from: priorFrom, to: endOfDay(new Date(from.getTime() - DAY_MS)) });
+    } else {
+      const days = Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS) + 1;
+      const priorTo = new Date(from.getFullYear(), from.getMonth(), from.getDate() - 1);
+      periods.push({ from: new Date(priorTo.getFullYear(), priorTo.getMonth(), priorTo.getDate() - days + 1), to: endOfDay(priorTo) });
+    }
+  } else if (compare === "prior_year") {
+    periods.push({
+      from: new Date(from.getFullYear() - 1, from.getMonth(), from.getDate()),
+      to: endOfDay(new Date(to.getFullYear() - 1, to.getMonth(), to.getDate())),
+    });
+  }
+
+  return periods.map(period => type === "balance"
+    ? { label: `As of ${formatDay(period.to)}`, from: null, to: period.to }
+    : { label: periodLabel(period.from, period.to), from: period.from, to: period.to });
+}
+
+// ============================================================================
+// Cash basis
+// ============================================================================
+
+/**
+ * Split `amount` cents across weights, keeping the total exact. Rounding
+ * leftovers go to the largest weight.
+ */
+export function splitCents(amount: number, weights: number[]): number[] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weights.length === 0 || total === 0) return weights.map(() => 0);
+
+  const shares = weights.map(weight => Math.round((amount * weight) / total));
+  const remainder = amount - shares.reduce((sum, share) => sum + share, 0);
+  if (remainder !== 0) {
+    const largest = weights.indexOf(Math.max(...weights));
+    shares[largest] += remainder;
+  }
+  return shares;
+}
+
+function reallocate(line: StatementLine, allocation: CashAllocation | undefined, fallback: StatementAccount | null): StatementLine[] {
+  const targets = allocation && allocation.length > 0
+    ? allocation
+    : fallback ? [{ account: fallback, weight: 1 }] : [];
+  if (targets.length === 0) return [line];
+
+  const weights = targets.map(target => target.weight);
+  const debits = splitCents(line.debit, weights);
+  const credits = splitCents(line.credit, weights);
+
+  return targets
+    .map((target, i) => ({ ...line, ...target.account, debit: debits[i], credit: credits[i] }))
+    .filter(split => split.debit !== 0 || split.credit !== 0);
+}
+
+/**
+ * Re-state journal lines on a cash basis (see the module comment).
+ */
+export function toCashBasis(lines: StatementLine[], targets: CashBasisTargets): StatementLine[] {
+  const result: StatementLine[] = [];
+
+  for (const line of lines) {
+    if (line.sourceType === "invoice" || line.sourceType === "bill") continue;
+
+    if (line.sourceType === "payment" && line.accountId === targets.receivableAccountId && line.sourceId !== null) {
+      result.push(...reallocate(line, targets.payments.get(line.sourceId), targets.fallbackRevenue));
+    } else if (line.sourceType === "bill_payment" && line.accountId === targets.payableAccountId && line.sourceId !== null) {
+      result.push(...reallocate(line, targets.bills.get(line.sourceId), targets.fallbackExpense));
+    } else {
+      result.push(line);
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Statements
+// ============================================================================
+
+const isCash = (account: StatementAccount) => account.type === "asset" && account.subtype === "cash";
+
+const isInvesting = (account: StatementAccount) =>
+  account.type === "asset" && (account.subtype === "fixed_asset" || account.subtype === "investment");
+
+const isFinancing = (account: StatementAccount) =>
+  account.type === "equity" ||
+  (account.type === "liability" && (account.code === SYSTEM_ACCOUNTS.loansPayable.code || account.subtype === "loan"));
+
+const inColumn = (line: StatementLine, column: Pick<StatementColumn, "from" | "to">) =>
+  (!column.from || line.entryDate >= column.from) && line.entryDate <= column.to;
+
+/**
+ * Net debit-minus-credit per account for the lines matching `include`.
+ */
+function netByAccount(lines: StatementLine[], include: (line: StatementLine) => boolean) {
+  const totals = new Map<number, { account: StatementAccount; net: number }>();
+  for (const line of lines) {
+    if (!include(line)) continue;
+    const existing = totals.get(line.accountId);
+    if (existing) {
+      existing.net += line.debit - line.credit;
+    } else {
+      const { accountId, code, name, type, subtype } = line;
+      totals.set(line.accountId, { account: { accountId, code, name, type, subtype }, net: line.debit - line.credit });
+    }
+  }
+  return totals;
+}
+
+/**
+ * One section with a row per account that has activity in any column.
+ * `sign` turns debit-minus-credit into the amount shown (-1 for credit-normal accounts).
+ */
+function buildSection(
+  title: string,
+  totalLabel: string,
+  perColumn: Array<Map<number, { account: StatementAccount; net: number }>>,
+  sign: 1 | -1,
+  extraRows: StatementRow[] = []
+): StatementSection {
+  const accounts = new Map<number, StatementAccount>();
+  for (const totals of perColumn) {
+    for (const { account } of Array.from(totals.values())) accounts.set(account.accountId, account);
+  }
+
+  const rows: StatementRow[] = Array.from(accounts.values())
+    .sort((a, b) => a.code.localeCompare(b.code))
+    .map(account => ({
+      label: account.name,
+      accountId: account.accountId,
+      code: account.code,
+      amounts: perColumn.map(totals => sign * (totals.get(account.accountId)?.net ?? 0)),
+    }))
+    .filter(row => row.amounts.some(amount => amount !== 0));
+
+  rows.push(...extraRows);
+
+  return {
+    title,
+    rows,
+    total: {
+      label: totalLabel,
+      accountId: null,
+      code: null,
+      amounts: perColumn.map((_, i) => rows.reduce((sum, row) => sum + row.amounts[i], 0)),
+    },
+  };
+}
+
+const summaryRow = (label: string, amounts: number[]): StatementRow => ({ label, accountId: null, code: null, amounts });
+
+const netIncomeFor = (lines: StatementLine[], include: (line: StatementLine) => boolean) =>
+  lines.reduce((sum, line) => (
+    (line.type === "revenue" || line.type === "expense") && include(line) ? sum + line.credit - line.debit : sum
+  ), 0);
+
+export function buildIncomeStatement(lines: StatementLine[], columns: StatementColumn[], basis: StatementBasis): FinancialStatement {
+  const revenue = buildSection("Revenue", "Total Revenue",
+    columns.map(column => netByAccount(lines, line => line.type === "revenue" && inColumn(line, column))), -1);
+  const costOfSales = buildSection("Cost of Sales", "Total Cost of Sales",
+    columns.map(column => netByAccount(lines, line => line.type === "expense" && line.subtype === "cost_of_sales" && inColumn(line, column))), 1);
+  const expenses = buildSection("Operating Expenses", "Total Operating Expenses",
+    columns.map(column => netByAccount(lines, line => line.type === "expense" && line.subtype !== "cost_of_sales" && inColumn(line, column))), 1);
+
+  const grossProfit = columns.map((_, i) => revenue.total.amounts[i] - costOfSales.total.amounts[i]);
+  const netIncome = columns.map((_, i) => grossProfit[i] - expenses.total.amounts[i]);
+
+  return {
+    type: "income",
+    title: STATEMENT_TITLES.income,
+    basis,
+    columns,
+    sections: [revenue, costOfSales, expenses],
+    summary: [summaryRow("Gross Profit", grossProfit), summaryRow("Net Income", netIncome)],
+  };
+}
+
+/**
+ * Point-in-time balances. Earnings from before the column's calendar year
+ * show as retained earnings; this year's so far as net income.
+ */
+export function buildBalanceSheet(lines: StatementLine[], columns: StatementColumn[], basis: StatementBasis): FinancialStatement {
+  const balances = (type: LedgerAccount["type"]) =>
+    columns.map(column => netByAccount(lines, line => line.type === type && line.entryDate <= column.to));
+
+  const yearStart = (column: StatementColumn) => new Date(column.to.getFullYear(), 0, 1);
+  const retainedEarnings = columns.map(column => netIncomeFor(lines, line => line.entryDate < yearStart(column)));
+  const currentEarnings = columns.map(column => netIncomeFor(lines, line => line.entryDate >= yearStart(column) && line.entryDate <= column.to));
+
+  const assets = buildSection("Assets", "Total Assets", balances("asset"), 1);
+  const liabilities = buildSection("Liabilities", "Total Liabilities", balances("liability"), -1);
+  const equity = buildSection("Equity", "Total Equity", balances("equity"), -1, [
+    summaryRow("Retained Earnings", retainedEarnings),
+    summaryRow("Net Income", currentEarnings),
+  ].filter(row => row.amounts.some(amount => amount !== 0)));
+
+  return {
+    type: "balance",
+    title: STATEMENT_TITLES.balance,
+    basis,
+    columns,
+    sections: [assets, liabilities, equity],
+    summary: [summaryRow("Total Liabilities & Equity", columns.map((_, i) => liabilities.total.amounts[i] + equity.total.amounts[i]))],
+  };
+}
+
+export function buildCashFlowStatement(lines: StatementLine[], columns: StatementColumn[], basis: StatementBasis): FinancialStatement {
+  // A decrease in an asset or an increase in a liability/equity account is a source of cash
+  const changes = (include: (account: StatementAccount) => boolean) =>
+    columns.map(column => netByAccount(lines, line => (
+      (line.type === "asset" || line.type === "liability" || line.type === "equity") &&
+      !isCash(line) &&
+      include(line) &&
+      inColumn(line, column)
+    )));
+
+  const netIncome = columns.map(column => netIncomeFor(lines, line => inColumn(line, column)));
+  const operating = buildSection("Operating Activities", "Net Cash from Operating Activities",
+    changes(account => !isInvesting(account) && !isFinancing(account)), -1);
+  operating.rows.unshift(summaryRow("Net Income", netIncome));
+  operating.total.amounts = operating.total.amounts.map((amount, i) => amount + netIncome[i]);
+
+  const investing = buildSection("Investing Activities", "Net Cash from Investing Activities", changes(isInvesting), -1);
+  const financing = buildSection("Financing Activities", "Net Cash from Financing Activities", changes(isFinancing), -1);
+
+  const cashBalance = (before: (line: StatementLine) => boolean) =>
+    lines.reduce((sum, line) => (isCash(line) && before(line) ? sum + line.debit - line.credit : sum), 0);
+  const beginning = columns.map(column => cashBalance(line => column.from !== null && line.entryDate < column.from));
+  const ending = columns.map(column => cashBalance(line => line.entryDate <= column.to));
+
+  return {
+    type: "cash_flow",
+    title: STATEMENT_TITLES.cash_flow,
+    basis,
+    columns,
+    sections: [operating, investing, financing],
+    summary: [
+      summaryRow("Net Change in Cash", columns.map((_, i) => operating.total.amounts[i] + investing.total.amounts[i] + financing.total.amounts[i])),
+      summaryRow("Cash at Beginning of Period", beginning),
+      summaryRow("Cash at End of Period", ending),
+    ],
+  };
+}
+
+const BUILDERS: Record<StatementType, typeof buildIncomeStatement> = {
+  income: buildIncomeStatement,
+  balance: buildBalanceSheet,
+  cash_flow: buildCashFlowStatement,
+};
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+async function loadLines(db: any, to: Date): Promise<StatementLine[]> {
+  const rows = await db.select({
+    entryId: journalEntries.id,
+    entryDate: journalEntries.entryDate,
+    memo: journalEntries.memo,
+    sourceType: journalEntries.sourceType,
+    sourceId: journalEntries.sourceId,
+    jobId: journalEntries.reportRequestId,
+    accountId: ledgerAccounts.id,
+    code: ledgerAccounts.code,
+    name: ledgerAccounts.name,
+    type: ledgerAccounts.type,
+    subtype: ledgerAccounts.subtype,
+    debit: journalLines.debit,
+    credit: journalLines.credit,
+  })
+  .from(journalLines)
+  .innerJoin(journalEntries, eq(journalLines.entryId, journalEntries.id))
+  .innerJoin(ledgerAccounts, eq(journalLines.accountId, ledgerAccounts.id))
+  .where(lte(journalEntries.entryDate, to))
+  .orderBy(journalEntries.entryDate, journalEntries.id);
+
+  return rows;
+}
+
+/**
+ * The accounts and weights of a document's most recent (non-reversing)
+ * posting, leaving out its receivable/payable side.
+ */
+async function documentAllocations(db: any, sourceType: "invoice" | "bill", sourceIds: number[], excludeAccountId: number | null) {
+  const allocations = new Map<number, CashAllocation>();
+  if (sourceIds.length === 0) return allocations;
+
+  const entries = await db.select({ id: journalEntries.id, sourceId: journalEntries.sourceId })
+    .from(journalEntries)
+    .where(and(
+      eq(journalEntries.sourceType, sourceType),
+      inArray(journalEntries.sourceId, sourceIds),
+      isNull(journalEntries.reversesEntryId),
+    ))
+    .orderBy(desc(journalEntries.id));
+
+  const latest = new Map<number, number>();
+  for (const entry of entries) {
+    if (!latest.has(entry.sourceId)) latest.set(entry.sourceId, entry.id);
+  }
+  if (latest.size === 0) return allocations;
+
+  const lines = await db.select({
+    entryId: journalLines.entryId,
+    accountId: ledgerAccounts.id,
+    code: ledgerAccounts.code,
+    name: ledgerAccounts.name,
+    type: ledgerAccounts.type,
+    subtype: ledgerAccounts.subtype,
+    debit: journalLines.debit,
+    credit: journalLines.credit,
+  })
+  .from(journalLines)
+  .innerJoin(ledgerAccounts, eq(journalLines.accountId, ledgerAccounts.id))
+  .where(inArray(journalLines.entryId, Array.from(latest.values())));
+
+  for (const [sourceId, entryId] of Array.from(latest.entries())) {
+    const allocation: CashAllocation = lines
+      .filter((line: any) => line.entryId === entryId && line.accountId !== excludeAccountId)
+      .map((line: any) => ({
+        account: { accountId: line.accountId, code: line.code, name: line.name, type: line.type, subtype: line.subtype },
+        weight: sourceType === "invoice" ? line.credit - line.debit : line.debit - line.credit,
+      }))
+      .filter((target: { weight: number }) => target.weight > 0);
+    allocations.set(sourceId, allocation);
+  }
+
+  return allocations;
+}
+
+async function systemAccount(db: any, code: string): Promise<StatementAccount | null> {
+  const [account] = await db.select({
+    accountId: ledgerAccounts.id,
+    code: ledgerAccounts.code,
+    name: ledgerAccounts.name,
+    type: ledgerAccounts.type,
+    subtype: ledgerAccounts.subtype,
+  }).from(ledgerAccounts).where(eq(ledgerAccounts.code, code));
+  return account ?? null;
+}
+
+async function cashBasisTargets(db: any, lines: StatementLine[]): Promise<CashBasisTargets> {
+  const [receivable, payable, fallbackRevenue, fallbackExpense] = await Promise.all([
+    systemAccount(db, SYSTEM_ACCOUNTS.accountsReceivable.code),
+    systemAccount(db, SYSTEM_ACCOUNTS.accountsPayable.code),
+    systemAccount(db, SYSTEM_ACCOUNTS.constructionRevenue.code),
+    systemAccount(db, SYSTEM_ACCOUNTS.uncategorizedExpense.code),
+  ]);
+
+  const sourceIds = (type: string) =>
+    Array.from(new Set(lines.filter(line => line.sourceType === type && line.sourceId !== null).map(line => line.sourceId as number)));
+
+  const paymentIds = sourceIds("payment");
+  const paymentInvoices: Array<{ id: number; invoiceId: number | null }> = paymentIds.length > 0
+    ? await db.select({ id: payments.id, invoiceId: payments.invoiceId }).from(payments).where(inArray(payments.id, paymentIds))
+    : [];
+
+  const invoiceAllocations = await documentAllocations(
+    db,
+    "invoice",
+    Array.from(new Set(paymentInvoices.map(p => p.invoiceId).filter((id): id is number => id !== null))),
+    receivable?.accountId ?? null
+  );
+
+  const paymentAllocations = new Map<number, CashAllocation>();
+  for (const payment of paymentInvoices) {
+    const allocation = payment.invoiceId !== null ? invoiceAllocations.get(payment.invoiceId) : undefined;
+    if (allocation) paymentAllocations.set(payment.id, allocation);
+  }
+
+  return {
+    receivableAccountId: receivable?.accountId ?? null,
+    payableAccountId: payable?.accountId ?? null,
+    payments: paymentAllocations,
+    bills: await documentAllocations(db, "bill", sourceIds("bill_payment"), payable?.accountId ?? null),
+    fallbackRevenue,
+    fallbackExpense,
+  };
+}
+
+async function statementLines(db: any, to: Date, basis: StatementBasis) {
+  const lines = await loadLines(db, to);
+  return basis === "cash" ? toCashBasis(lines, await cashBasisTargets(db, lines)) : lines;
+}
+
+export interface StatementOptions {
+  from: Date;
+  to: Date;
+  basis: StatementBasis;
+  compare: StatementComparison;
+}
+
+export async function buildFinancialStatement(db: any, type: StatementType, options: StatementOptions): Promise<FinancialStatement> {
+  const columns = statementColumns(type, options.from, options.to, options.compare);
+  const latest = new Date(Math.max(...columns.map(column => column.to.getTime())));
+  const lines = await statementLines(db, latest, options.basis);
+  return BUILDERS[type](lines, columns, options.basis);
+}
+
+/**
+ * The lines behind one account's amount on a statement, newest first. Pass no
+ * `from` for a balance sheet figure (everything through `to`).
+ */
+export async function getStatementTransactions(
+  db: any,
+  options: { accountId: number; from: Date | null; to: Date; basis: StatementBasis; limit?: number }
+) {
+  const lines = (await statementLines(db, options.to, options.basis))
+    .filter(line => line.accountId === options.accountId && inColumn(line, options));
+
+  const total = lines.reduce((sum, line) => sum + line.debit - line.credit, 0);
+  return {
+    total, // Debit-minus-credit, cents
+    count: lines.length,
+    lines: lines.reverse().slice(0, options.limit ?? 500),
+  };
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+const csvAmount = (cents: number) => (cents / 100).toFixed(2);
+
+/**
+ * Render a statement as CSV: a title block, then one row per line with an
+ * amount column per period.
+ */
+export function statementToCsv(statement: FinancialStatement, companyName?: string): string {
+  const rows: string[][] = [];
+  if (companyName) rows.push([companyName]);
+  rows.push([statement.title]);
+  rows.push([`${statement.basis === "cash" ? "Cash" : "Accrual"} basis`]);
+  rows.push([]);
+  rows.push(["Account", ...statement.columns.map(column => column.label)]);
+
+  const label = (row: StatementRow) => (row.code ? `${row.code} ${row.label}` : row.label);
+  for (const section of statement.sections) {
+    rows.push([section.title]);
+    for (const row of section.rows) rows.push([label(row), ...row.amounts.map(csvAmount)]);
+    rows.push([section.total.label, ...section.total.amounts.map(csvAmount)]);
+    rows.push([]);
+  }
+  for (const row of statement.summary) rows.push([row.label, ...row.amounts.map(csvAmount)]);
+
+  return rows.map(row => row.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+export function statementFileName(statement: FinancialStatement, extension: "pdf" | "csv") {
+  const column = statement.columns[0];
+  const stamp = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+  const range = column.from ? `${stamp(column.from)}_to_${stamp(column.to)}` : stamp(column.to);
+  return `${statement.title.toLowerCase().replace(/\s+/g, "-")}_${range}.${extension}`;
+}
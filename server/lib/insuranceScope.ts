@@ -0,0 +1,220 @@
+/**
+ * Insurance Scope Helpers
+ *
+ * Shared shape of a parsed Xactimate scope (the "audit result"), conversion to
+ * the insurance_scopes row, and the scope-vs-estimate comparison that lines up
+ * carrier line items against our material order quantities to size the
+ * supplement gap.
+ */
+
+import { z } from "zod";
+import { MATERIAL_DEFAULTS } from "./materialConstants";
+
+export const scopeLineItemSchema = z.object({
+  code: z.string(), // Xactimate selector, e.g. "RFG 300S"
+  description: z.string(),
+  quantity: z.number(),
+  unit: z.string(), // SQ, LF, SF, EA
+  unit_price: z.number(),
+  rcv: z.number(),
+  depreciation: z.number().default(0),
+  acv: z.number(),
+});
+
+export const auditResultSchema = z.object({
+  claim_info: z.object({
+    carrier: z.string(),
+    claim_number: z.string(),
+    loss_date: z.string(),
+    total_rcv: z.number(),
+    total_acv: z.number(),
+    deductible: z.number(),
+  }),
+  line_items_summary: z.array(
+    z.object({
+      category: z.string(),
+      total_cost: z.number(),
+      description: z.string(),
+    })
+  ),
+  line_items: z.array(scopeLineItemSchema).default([]),
+  audit_flags: z.array(
+    z.object({
+      severity: z.enum(["HIGH", "MEDIUM", "LOW"]),
+      issue: z.string(),
+      description: z.string(),
+    })
+  ),
+  estimator_notes: z.string(),
+});
+
+export type ScopeLineItem = z.infer<typeof scopeLineItemSchema>;
+export type AuditResult = z.infer<typeof auditResultSchema>;
+
+export const toCents = (dollars: number) => Math.round(dollars * 100);
+
+// ============================================
+// SCOPE VS ESTIMATE COMPARISON
+// ============================================
+
+type ComparisonUnit = "SQ" | "LF" | "SF";
+
+interface ComparisonGroup {
+  key: string;
+  label: string;
+  unit: ComparisonUnit;
+  matchesScopeItem: (item: ScopeLineItem) => boolean;
+  matchesProduct: (productName: string) => boolean;
+  toUnit: (quantity: number) => number; // Material order quantity -> comparison unit
+}
+
+const scopeText = (item: ScopeLineItem) => `${item.code} ${item.description}`;
+
+/**
+ * Roofing components we order and carriers scope. Product names match the
+ * material calculator's line items; coverage comes from the same constants.
+ */
+const COMPARISON_GROUPS: ComparisonGroup[] = [
+  {
+    key: "shingles",
+    label: "Shingles",
+    unit: "SQ",
+    matchesScopeItem: (item) => /shingle|RFG\s*(300|250|LAM|ARCH|COMP)/i.test(scopeText(item)) && !/starter|ridge|hip/i.test(scopeText(item)),
+    matchesProduct: (name) => /shingle/i.test(name) && !/starter|ridge|hip/i.test(name),
+    toUnit: (bundles) => (bundles * MATERIAL_DEFAULTS.ARCHITECTURAL_SHINGLES.coverage) / 100,
+  },
+  {
+    key: "starter",
+    label: "Starter Strip",
+    unit: "LF",
+    matchesScopeItem: (item) => /starter|RFG\s*ASTR/i.test(scopeText(item)),
+    matchesProduct: (name) => /starter/i.test(name),
+    toUnit: (bundles) => bundles * MATERIAL_DEFAULTS.STARTER_STRIP_STANDARD.coverage,
+  },
+  {
+    key: "hip_ridge",
+    label: "Hip & Ridge Cap",
+    unit: "LF",
+    matchesScopeItem: (item) => /ridge|hip|RFG\s*RIDG/i.test(scopeText(item)),
+    matchesProduct: (name) => /ridge|hip/i.test(name),
+    toUnit: (bundles) => bundles * MATERIAL_DEFAULTS.HIP_RIDGE_STANDARD.coverage,
+  },
+  {
+    key: "underlayment",
+    label: "Underlayment",
+    unit: "SQ",
+    matchesScopeItem: (item) => /felt|underlay/i.test(scopeText(item)) && !/ice|water/i.test(scopeText(item)),
+    matchesProduct: (name) => /felt underlayment/i.test(name),
+    toUnit: (rolls) => (rolls * MATERIAL_DEFAULTS.SYNTHETIC_UNDERLAYMENT.coverage) / 100,
+  },
+  {
+    key: "ice_water",
+    label: "Ice & Water Shield",
+    unit: "SF",
+    matchesScopeItem: (item) => /ice|I&W/i.test(scopeText(item)),
+    matchesProduct: (name) => /synthetic underlayment|ice/i.test(name),
+    toUnit: (rolls) => rolls * MATERIAL_DEFAULTS.SYNTHETIC_UNDERLAYMENT_ICE_WATER.coverage,
+  },
+  {
+    key: "drip_edge",
+    label: "Drip Edge",
+    unit: "LF",
+    matchesScopeItem: (item) => /drip/i.test(scopeText(item)),
+    matchesProduct: (name) => /drip/i.test(name),
+    toUnit: (pieces) => pieces * MATERIAL_DEFAULTS.DRIP_EDGE.coverage,
+  },
+  {
+    key: "valley",
+    label: "Valley Metal",
+    unit: "LF",
+    matchesScopeItem: (item) => /valley/i.test(scopeText(item)),
+    matchesProduct: (name) => /valley/i.test(name),
+    toUnit: (pieces) => pieces * MATERIAL_DEFAULTS.VALLEY_METAL.coverage,
+  },
+];
+
+// Convert a carrier quantity into the comparison unit (carriers sometimes scope SQ items in SF)
+function normalizeScopeQuantity(quantity: number, unit: string, target: ComparisonUnit): number {
+  const from = unit.trim().toUpperCase();
+  if (from === target) return quantity;
+  if (from === "SF" && target === "SQ") return quantity / 100;
+  if (from === "SQ" && target === "SF") return quantity * 100;
+  return quantity;
+}
+
+export interface MaterialOrderLine {
+  productName: string;
+  quantity: number;
+}
+
+export interface ScopeComparisonRow {
+  key: string;
+  label: string;
+  unit: ComparisonUnit;
+  carrierQuantity: number;
+  carrierRcv: number; // Cents
+  orderedQuantity: number;
+  quantityGap: number; // Ordered minus scoped; positive = carrier is short
+  unitPrice: number | null; // Cents per unit from the carrier's own pricing
+  gapAmount: number; // Cents; only counts shortfalls we can price
+}
+
+export interface ScopeComparison {
+  rows: ScopeComparisonRow[];
+  unmatchedScopeItems: ScopeLineItem[];
+  carrierRcv: number; // Cents
+  proposalTotal: number; // Cents
+  lineItemGap: number; // Cents
+  proposalGap: number; // Cents; proposal total minus carrier RCV
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Line up carrier line items against material order quantities.
+ * All money in and out is in cents except scope line items, which keep the
+ * dollar amounts the parser produced.
+ */
+export function compareScopeToEstimate(params: {
+  scopeLineItems: ScopeLineItem[];
+  materialLines: MaterialOrderLine[];
+  carrierRcv: number;
+  proposalTotal: number;
+}): ScopeComparison {
+  const matchedItems = new Set<ScopeLineItem>();
+
+  const rows: ScopeComparisonRow[] = COMPARISON_GROUPS.map(group => {
+    const scopeItems = params.scopeLineItems.filter(item => !matchedItems.has(item) && group.matchesScopeItem(item));
+    scopeItems.forEach(item => matchedItems.add(item));
+
+    const carrierQuantity = scopeItems.reduce((sum, item) => sum + normalizeScopeQuantity(item.quantity, item.unit, group.unit), 0);
+    const carrierRcv = scopeItems.reduce((sum, item) => sum + toCents(item.rcv), 0);
+    const orderedQuantity = params.materialLines
+      .filter(line => group.matchesProduct(line.productName))
+      .reduce((sum, line) => sum + group.toUnit(line.quantity), 0);
+
+    const unitPrice = carrierQuantity > 0 ? Math.round(carrierRcv / carrierQuantity) : null;
+    const quantityGap = round2(orderedQuantity - carrierQuantity);
+
+    return {
+      key: group.key,
+      label: group.label,
+      unit: group.unit,
+      carrierQuantity: round2(carrierQuantity),
+      carrierRcv,
+      orderedQuantity: round2(orderedQuantity),
+      quantityGap,
+      unitPrice,
+      gapAmount: unitPrice !== null && quantityGap > 0 ? Math.round(quantityGap * unitPrice) : 0,
+    };
+  }).filter(row => row.carrierQuantity > 0 || row.orderedQuantity > 0);
+
+  return {
+    rows,
+    unmatchedScopeItems: params.scopeLineItems.filter(item => !matchedItems.has(item)),
+    carrierRcv: params.carrierRcv,
+    proposalTotal: params.proposalTotal,
+    lineItemGap: rows.reduce((sum, row) => sum + row.gapAmount, 0),
+    proposalGap: params.proposalTotal - params.carrierRcv,
+  };
+}
@@ -0,0 +1,486 @@
+/**
+ * Invoice Adjustments
+ *
+ * Once an invoice has gone to the customer it isn't edited or deleted; it's
+ * corrected with one of these, each keeping its own record and journal entry:
+ *
+ *   credit memo  CM-{jobId}-{seq}, applied to one or more of the job's sent
+ *                invoices (invoices.creditedAmount). Whatever isn't applied
+ *                stays on the job as customer credit.
+ *   refund       money returned against a specific payment (paymentRefunds).
+ *                Refunds of Stripe payments are sent to Stripe.
+ *   void         the invoice keeps its number with status "cancelled". Its
+ *                payments stay on the job unapplied and its credits go back
+ *                to their memos.
+ *
+ * Balances everywhere (AR aging, the job balance, the portal) are invoice
+ * total less net payments less applied credits. All amounts are cents.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { and, asc, eq, inArray, isNull, sql } from "drizzle-orm";
+import {
+  activities,
+  creditMemoApplications,
+  creditMemos,
+  invoices,
+  paymentRefunds,
+  payments,
+  type CreditMemo,
+  type Invoice,
+  type Payment,
+  type PaymentRefund,
+} from "../../drizzle/schema";
+import { postCreditMemo, postInvoice, postPayment } from "./ledger";
+import { createStripeRefund, syncInvoicePayments, syncJobAmountPaid, syncPaymentRefunds } from "./stripePayments";
+
+type RefundMethod = PaymentRefund["method"];
+
+// Invoices the customer has been billed; drafts can still be edited and voided ones don't count
+const BILLED_STATUSES: Invoice["status"][] = ["sent", "overdue", "paid"];
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+// ============================================
+// Rules
+// ============================================
+
+export function creditMemoRemaining(memo: Pick<CreditMemo, "amount" | "voidedAt">, applied: number): number {
+  if (memo.voidedAt) return 0;
+  return Math.max(0, memo.amount - applied);
+}
+
+/**
+ * Why a credit can't be applied to an invoice, or null if it can.
+ */
+export function creditApplicationError(
+  params: {
+    jobId: number;
+    remaining: number;
+    amount: number;
+    invoice: Pick<Invoice, "reportRequestId" | "status" | "totalAmount" | "amountPaid" | "creditedAmount" | "invoiceNumber">;
+  }
+): string | null {
+  const { invoice, amount } = params;
+  if (amount <= 0) return "Credit amount must be more than zero";
+  if (invoice.reportRequestId !== params.jobId) return `Invoice ${invoice.invoiceNumber} belongs to another job`;
+  if (invoice.status === "cancelled") return `Invoice ${invoice.invoiceNumber} has been voided`;
+  if (invoice.status === "draft") return `Invoice ${invoice.invoiceNumber} is still a draft; edit it instead`;
+  if (amount > params.remaining) return `Only ${formatCents(params.remaining)} of this credit is left to apply`;
+
+  const open = Math.max(0, invoice.totalAmount - invoice.amountPaid - invoice.creditedAmount);
+  if (amount > open) return `Invoice ${invoice.invoiceNumber} only has ${formatCents(open)} open`;
+  return null;
+}
+
+/**
+ * Why a payment can't be refunded by this amount, or null if it can.
+ */
+export function refundError(payment: Pick<Payment, "amount" | "refundedAmount">, amount: number): string | null {
+  if (amount <= 0) return "Refund amount must be more than zero";
+  const refundable = payment.amount - payment.refundedAmount;
+  if (refundable <= 0) return "This payment has already been fully refunded";
+  if (amount > refundable) return `Only ${formatCents(refundable)} of this payment can be refunded`;
+  return null;
+}
+
+export interface JobBalance {
+  invoiced: number; // Sent, overdue and paid invoices
+  credited: number; // Credit memos issued, unless voided
+  appliedCredit: number;
+  unappliedCredit: number;
+  collected: number; // Payments before refunds
+  refunded: number;
+  netPaid: number;
+  balanceDue: number; // Negative when the customer is owed money
+}
+
+export function summarizeJobBalance(params: {
+  invoices: Array<Pick<Invoice, "status" | "totalAmount" | "creditedAmount">>;
+  memos: Array<Pick<CreditMemo, "amount" | "voidedAt">>;
+  payments: Array<Pick<Payment, "amount" | "refundedAmount">>;
+}): JobBalance {
+  const billed = params.invoices.filter(inv => BILLED_STATUSES.includes(inv.status));
+  const invoiced = billed.reduce((sum, inv) => sum + inv.totalAmount, 0);
+  const appliedCredit = billed.reduce((sum, inv) => sum + inv.creditedAmount, 0);
+  const credited = params.memos.filter(memo => !memo.voidedAt).reduce((sum, memo) => sum + memo.amount, 0);
+  const collected = params.payments.reduce((sum, payment) => sum + payment.amount, 0);
+  const refunded = params.payments.reduce((sum, payment) => sum + payment.refundedAmount, 0);
+  const netPaid = collected - refunded;
+
+  return {
+    invoiced,
+    credited,
+    appliedCredit,
+    unappliedCredit: Math.max(0, credited - appliedCredit),
+    collected,
+    refunded,
+    netPaid,
+    balanceDue: invoiced - credited - netPaid,
+  };
+}
+
+// ============================================
+// Credit memos
+// ============================================
+
+async function appliedByMemo(db: any, memoIds: number[]): Promise<Map<number, number>> {
+  const totals = new Map<number, number>();
+  if (memoIds.length === 0) return totals;
+
+  const rows = await db.select({
+    creditMemoId: creditMemoApplications.creditMemoId,
+    total: sql<number>`COALESCE(SUM(${creditMemoApplications.amount}), 0)::int`,
+  })
+  .from(creditMemoApplications)
+  .where(inArray(creditMemoApplications.creditMemoId, memoIds))
+  .groupBy(creditMemoApplications.creditMemoId);
+
+  for (const row of rows) totals.set(row.creditMemoId, row.total);
+  return totals;
+}
+
+/**
+ * Set the invoice's credited total from the applications of memos that
+ * haven't been voided, then re-derive its status (a credit can pay it off,
+ * and voiding the memo re-opens it).
+ */
+export async function syncInvoiceCredits(db: any, invoiceId: number): Promise<Invoice | null> {
+  const [result] = await db.select({
+    total: sql<number>`COALESCE(SUM(${creditMemoApplications.amount}), 0)::int`,
+  })
+  .from(creditMemoApplications)
+  .innerJoin(creditMemos, eq(creditMemoApplications.creditMemoId, creditMemos.id))
+  .where(and(eq(creditMemoApplications.invoiceId, invoiceId), isNull(creditMemos.voidedAt)));
+
+  const [invoice]: Invoice[] = await db.update(invoices)
+    .set({ creditedAmount: result?.total || 0, updatedAt: new Date() })
+    .where(eq(invoices.id, invoiceId))
+    .returning();
+  if (!invoice || !BILLED_STATUSES.includes(invoice.status)) return invoice ?? null;
+
+  return syncInvoicePayments(db, invoice, invoice.paymentReference, invoice.paymentMethod || "credit_memo");
+}
+
+export async function applyCreditMemo(
+  db: any,
+  params: { creditMemoId: number; invoiceId: number; amount: number },
+  userId: number
+) {
+  const [memo]: CreditMemo[] = await db.select().from(creditMemos).where(eq(creditMemos.id, params.creditMemoId));
+  if (!memo) throw new TRPCError({ code: "NOT_FOUND", message: "Credit memo not found" });
+  if (memo.voidedAt) throw new TRPCError({ code: "BAD_REQUEST", message: `Credit memo ${memo.memoNumber} has been voided` });
+
+  const [invoice]: Invoice[] = await db.select().from(invoices).where(eq(invoices.id, params.invoiceId));
+  if (!invoice) throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
+
+  const applied = (await appliedByMemo(db, [memo.id])).get(memo.id) || 0;
+  const error = creditApplicationError({
+    jobId: memo.reportRequestId,
+    remaining: creditMemoRemaining(memo, applied),
+    amount: params.amount,
+    invoice,
+  });
+  if (error) throw new TRPCError({ code: "BAD_REQUEST", message: error });
+
+  const [application] = await db.insert(creditMemoApplications).values({
+    creditMemoId: memo.id,
+    invoiceId: invoice.id,
+    amount: params.amount,
+    appliedBy: userId,
+  }).returning();
+
+  const updated = await syncInvoiceCredits(db, invoice.id);
+
+  await db.insert(activities).values({
+    reportRequestId: memo.reportRequestId,
+    userId,
+    activityType: "note_added",
+    description: `Credit memo ${memo.memoNumber}: ${formatCents(params.amount)} applied to invoice ${invoice.invoiceNumber}` +
+      (updated?.status === "paid" ? " (invoice paid in full)" : ""),
+    metadata: JSON.stringify({ creditMemoId: memo.id, invoiceId: invoice.id, amount: params.amount }),
+  });
+
+  return application;
+}
+
+/**
+ * Issue a credit memo for a job and apply it to the given invoices. The
+ * memo posts to the ledger in full; applications only move it between
+ * invoices.
+ */
+export async function createCreditMemo(
+  db: any,
+  params: {
+    jobId: number;
+    amount: number;
+    reason: string;
+    memoDate: Date;
+    applications: Array<{ invoiceId: number; amount: number }>;
+  },
+  userId: number
+): Promise<CreditMemo> {
+  const toApply = params.applications.reduce((sum, application) => sum + application.amount, 0);
+  if (params.amount <= 0) throw new TRPCError({ code: "BAD_REQUEST", message: "Credit amount must be more than zero" });
+  if (toApply > params.amount) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `Applications total ${formatCents(toApply)}, more than the ${formatCents(params.amount)} credit` });
+  }
+
+  const [count] = await db.select({ count: sql<number>`COUNT(*)::int` })
+    .from(creditMemos)
+    .where(eq(creditMemos.reportRequestId, params.jobId));
+  const memoNumber = `CM-${params.jobId}-${String((count?.count || 0) + 1).padStart(2, "0")}`;
+
+  const [memo]: CreditMemo[] = await db.insert(creditMemos).values({
+    memoNumber,
+    reportRequestId: params.jobId,
+    amount: params.amount,
+    reason: params.reason,
+    memoDate: params.memoDate,
+    createdBy: userId,
+  }).returning();
+
+  await postCreditMemo(db, memo.id);
+
+  await db.insert(activities).values({
+    reportRequestId: params.jobId,
+    userId,
+    activityType: "note_added",
+    description: `Credit memo ${memoNumber} issued: ${formatCents(params.amount)} (${params.reason})`,
+    metadata: JSON.stringify({ creditMemoId: memo.id, amount: params.amount }),
+  });
+
+  for (const application of params.applications) {
+    await applyCreditMemo(db, { creditMemoId: memo.id, invoiceId: application.invoiceId, amount: application.amount }, userId);
+  }
+
+  return memo;
+}
+
+/**
+ * Void a memo: its entry is reversed and the invoices it was applied to
+ * owe that amount again. The applications are kept for the record.
+ */
+export async function voidCreditMemo(db: any, creditMemoId: number, reason: string, userId: number): Promise<CreditMemo> {
+  const [memo]: CreditMemo[] = await db.select().from(creditMemos).where(eq(creditMemos.id, creditMemoId));
+  if (!memo) throw new TRPCError({ code: "NOT_FOUND", message: "Credit memo not found" });
+  if (memo.voidedAt) throw new TRPCError({ code: "BAD_REQUEST", message: `Credit memo ${memo.memoNumber} is already void` });
+
+  const [voided]: CreditMemo[] = await db.update(creditMemos)
+    .set({ voidedAt: new Date(), voidedBy: userId, voidReason: reason, updatedAt: new Date() })
+    .where(eq(creditMemos.id, creditMemoId))
+    .returning();
+
+  const applied = await db.selectDistinct({ invoiceId: creditMemoApplications.invoiceId })
+    .from(creditMemoApplications)
+    .where(eq(creditMemoApplications.creditMemoId, creditMemoId));
+  for (const { invoiceId } of applied) {
+    await syncInvoiceCredits(db, invoiceId);
+  }
+
+  await postCreditMemo(db, creditMemoId);
+
+  await db.insert(activities).values({
+    reportRequestId: memo.reportRequestId,
+    userId,
+    activityType: "note_added",
+    description: `Credit memo ${memo.memoNumber} voided (${formatCents(memo.amount)}): ${reason}`,
+    metadata: JSON.stringify({ creditMemoId, invoiceIds: applied.map((row: { invoiceId: number }) => row.invoiceId) }),
+  });
+
+  return voided;
+}
+
+interface AppliedCredit {
+  id: number;
+  creditMemoId: number;
+  invoiceId: number;
+  invoiceNumber: string;
+  amount: number;
+  appliedAt: Date;
+}
+
+// A job's memos, newest first, with where each was applied and what's left
+export async function getJobCreditMemos(db: any, jobId: number) {
+  const memos: CreditMemo[] = await db.select()
+    .from(creditMemos)
+    .where(eq(creditMemos.reportRequestId, jobId))
+    .orderBy(asc(creditMemos.memoDate));
+
+  const applications: AppliedCredit[] = memos.length === 0 ? [] : await db.select({
+    id: creditMemoApplications.id,
+    creditMemoId: creditMemoApplications.creditMemoId,
+    invoiceId: creditMemoApplications.invoiceId,
+    invoiceNumber: invoices.invoiceNumber,
+    amount: creditMemoApplications.amount,
+    appliedAt: creditMemoApplications.appliedAt,
+  })
+  .from(creditMemoApplications)
+  .innerJoin(invoices, eq(creditMemoApplications.invoiceId, invoices.id))
+  .where(inArray(creditMemoApplications.creditMemoId, memos.map(memo => memo.id)))
+  .orderBy(asc(creditMemoApplications.appliedAt));
+
+  return memos.reverse().map(memo => {
+    const memoApplications = applications.filter(application => application.creditMemoId === memo.id);
+    const applied = memoApplications.reduce((sum, application) => sum + application.amount, 0);
+    return {
+      ...memo,
+      applications: memoApplications,
+      applied,
+      remaining: creditMemoRemaining(memo, applied),
+    };
+  });
+}
+
+// ============================================
+// Refunds
+// ============================================
+
+/**
+ * Refund part or all of a payment. The refund is recorded before Stripe is
+ * called, so the charge.refunded webhook finds it already counted; if
+ * Stripe refuses, the record is removed again.
+ */
+export async function refundPayment(
+  db: any,
+  params: { paymentId: number; amount: number; refundDate: Date; method: RefundMethod; reason: string },
+  userId: number
+): Promise<PaymentRefund> {
+  const [payment]: Payment[] = await db.select().from(payments).where(eq(payments.id, params.paymentId));
+  if (!payment) throw new TRPCError({ code: "NOT_FOUND", message: "Payment not found" });
+
+  const error = refundError(payment, params.amount);
+  if (error) throw new TRPCError({ code: "BAD_REQUEST", message: error });
+
+  const viaStripe = !!payment.stripePaymentIntentId;
+  let [refund]: PaymentRefund[] = await db.insert(paymentRefunds).values({
+    paymentId: payment.id,
+    amount: params.amount,
+    refundDate: params.refundDate,
+    method: viaStripe ? "credit_card" : params.method,
+    reason: params.reason,
+    createdBy: userId,
+  }).returning();
+  await syncPaymentRefunds(db, payment.id);
+
+  if (viaStripe) {
+    try {
+      const stripeRefund = await createStripeRefund(payment.stripePaymentIntentId!, params.amount, refund.id);
+      [refund] = await db.update(paymentRefunds)
+        .set({ stripeRefundId: stripeRefund.id })
+        .where(eq(paymentRefunds.id, refund.id))
+        .returning();
+    } catch (err) {
+      await db.delete(paymentRefunds).where(eq(paymentRefunds.id, refund.id));
+      await syncPaymentRefunds(db, payment.id);
+      if (err instanceof TRPCError) throw err;
+      throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: `Stripe refused the refund: ${(err as Error).message}` });
+    }
+  }
+
+  await postPayment(db, payment.id);
+
+  let invoiceNumber: string | null = null;
+  if (payment.invoiceId) {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, payment.invoiceId));
+    if (invoice && invoice.status !== "cancelled") {
+      invoiceNumber = invoice.invoiceNumber;
+      await syncInvoicePayments(db, invoice, invoice.paymentReference, invoice.paymentMethod || payment.paymentMethod);
+    }
+  }
+  await syncJobAmountPaid(db, payment.reportRequestId);
+
+  await db.insert(activities).values({
+    reportRequestId: payment.reportRequestId,
+    userId,
+    activityType: "note_added",
+    description: `Refund issued: ${formatCents(params.amount)}${viaStripe ? " to card via Stripe" : ` by ${refund.method}`}` +
+      `${invoiceNumber ? ` on invoice ${invoiceNumber}` : ""} (${params.reason})`,
+    metadata: JSON.stringify({ paymentId: payment.id, refundId: refund.id, stripeRefundId: refund.stripeRefundId }),
+  });
+
+  return refund;
+}
+
+// ============================================
+// Voiding
+// ============================================
+
+/**
+ * Void a sent invoice. It keeps its number and line items but drops out of
+ * receivables and the ledger; payments made against it stay on the job as
+ * unapplied, and credits applied to it are released back to their memos.
+ */
+export async function voidInvoice(db: any, invoiceId: number, reason: string, userId: number): Promise<Invoice> {
+  const [invoice]: Invoice[] = await db.select().from(invoices).where(eq(invoices.id, invoiceId));
+  if (!invoice) throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
+  if (invoice.status === "draft") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Draft invoices haven't been billed; delete the draft instead" });
+  }
+  if (invoice.voidedAt || invoice.status === "cancelled") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `Invoice ${invoice.invoiceNumber} is already void` });
+  }
+
+  const detached = await db.update(payments)
+    .set({ invoiceId: null, updatedAt: new Date() })
+    .where(eq(payments.invoiceId, invoiceId))
+    .returning({ id: payments.id });
+  const released = await db.delete(creditMemoApplications)
+    .where(eq(creditMemoApplications.invoiceId, invoiceId))
+    .returning({ creditMemoId: creditMemoApplications.creditMemoId, amount: creditMemoApplications.amount });
+
+  const [voided]: Invoice[] = await db.update(invoices)
+    .set({
+      status: "cancelled",
+      amountPaid: 0,
+      creditedAmount: 0,
+      paidDate: null,
+      voidedAt: new Date(),
+      voidedBy: userId,
+      voidReason: reason,
+      updatedAt: new Date(),
+    })
+    .where(eq(invoices.id, invoiceId))
+    .returning();
+
+  await postInvoice(db, invoiceId);
+
+  if (invoice.reportRequestId) {
+    const releasedCredit = released.reduce((sum: number, row: { amount: number }) => sum + row.amount, 0);
+    await db.insert(activities).values({
+      reportRequestId: invoice.reportRequestId,
+      userId,
+      activityType: "note_added",
+      description: `Invoice ${invoice.invoiceNumber} voided (${formatCents(invoice.totalAmount)}): ${reason}` +
+        (detached.length > 0 ? `; ${detached.length} payment${detached.length === 1 ? "" : "s"} left on the job unapplied` : "") +
+        (releasedCredit > 0 ? `; ${formatCents(releasedCredit)} of credit released` : ""),
+      metadata: JSON.stringify({
+        invoiceId,
+        paymentIds: detached.map((row: { id: number }) => row.id),
+        creditMemoIds: released.map((row: { creditMemoId: number }) => row.creditMemoId),
+      }),
+    });
+  }
+
+  return voided;
+}
+
+// ============================================
+// Job balance
+// ============================================
+
+export async function getJobBalance(db: any, jobId: number): Promise<JobBalance> {
+  const [jobInvoices, memos, jobPayments] = await Promise.all([
+    db.select({ status: invoices.status, totalAmount: invoices.totalAmount, creditedAmount: invoices.creditedAmount })
+      .from(invoices)
+      .where(eq(invoices.reportRequestId, jobId)),
+    db.select({ amount: creditMemos.amount, voidedAt: creditMemos.voidedAt })
+      .from(creditMemos)
+      .where(eq(creditMemos.reportRequestId, jobId)),
+    db.select({ amount: payments.amount, refundedAmount: payments.refundedAmount })
+      .from(payments)
+      .where(eq(payments.reportRequestId, jobId)),
+  ]);
+
+  return summarizeJobBalance({ invoices: jobInvoices, memos, payments: jobPayments });
+}
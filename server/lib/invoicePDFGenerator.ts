@@ -2,6 +2,7 @@ import PDFDocument from 'pdfkit';
 import { getPublicUrl } from './supabase';
 import https from 'https';
 import http from 'http';
+import type { Invoice, InvoiceItem, ReportRequest, SalesTaxBreakdown } from '../../drizzle/schema';
 
 interface InvoiceLineItem {
   description: string;
@@ -21,10 +22,51 @@ interface InvoiceData {
   lineItems: InvoiceLineItem[];
   subtotal: number;
   taxAmount: number;
+  taxLines?: Array<{ label: string; amount: number }>; // State and county lines in place of a single "Tax" line
   totalAmount: number;
   notes?: string;
 }
 
+// State tax and county surtax as separate totals lines (dollars)
+export function salesTaxPDFLines(breakdown: SalesTaxBreakdown | null | undefined): InvoiceData['taxLines'] {
+  if (!breakdown || breakdown.stateTax + breakdown.surtax === 0) return undefined;
+
+  const lines = [{ label: `${breakdown.state} Sales Tax (${breakdown.stateRate}%)`, amount: breakdown.stateTax / 100 }];
+  if (breakdown.surtax > 0) {
+    lines.push({ label: `${breakdown.county} Co. Surtax (${breakdown.surtaxRate}%)`, amount: breakdown.surtax / 100 });
+  }
+  return lines;
+}
+
+// Map a stored invoice (amounts in cents) and its items to PDF data, falling
+// back to the job's contact details where the invoice has none
+export function buildInvoicePDFData(
+  invoice: Invoice,
+  lineItems: InvoiceItem[],
+  job?: Pick<ReportRequest, 'address' | 'email' | 'phone'> | null
+): InvoiceData {
+  return {
+    invoiceNumber: invoice.invoiceNumber,
+    invoiceDate: invoice.invoiceDate.toISOString().split('T')[0],
+    dueDate: invoice.dueDate.toISOString().split('T')[0],
+    clientName: invoice.clientName,
+    clientAddress: invoice.address || job?.address || undefined,
+    clientEmail: invoice.clientEmail || job?.email || undefined,
+    clientPhone: invoice.clientPhone || job?.phone || undefined,
+    lineItems: lineItems.map(item => ({
+      description: item.description,
+      quantity: item.quantity.toString(),
+      unitPrice: item.unitPrice, // Already in cents
+      totalPrice: item.totalPrice, // Already in cents
+    })),
+    subtotal: Number(invoice.amount) / 100, // Convert cents to dollars
+    taxAmount: Number(invoice.taxAmount) / 100,
+    taxLines: salesTaxPDFLines(invoice.taxBreakdown),
+    totalAmount: Number(invoice.totalAmount) / 100,
+    notes: invoice.notes || undefined,
+  };
+}
+
 // Helper to fetch image from URL
 async function fetchImageBuffer(url: string): Promise<Buffer> {
   return new Promise((resolve, reject) => {
@@ -131,9 +173,11 @@ export async function generateInvoicePDF(data: InvoiceData): Promise<Buffer> {
     doc.text('Subtotal:', totalsX, yPosition);
     doc.text(`$${data.subtotal.toFixed(2)}`, totalX, yPosition);
     
-    yPosition += 20;
-    doc.text('Tax:', totalsX, yPosition);
-    doc.text(`$${data.taxAmount.toFixed(2)}`, totalX, yPosition);
+    for (const taxLine of data.taxLines ?? [{ label: 'Tax', amount: data.taxAmount }]) {
+      yPosition += 20;
+      doc.text(`${taxLine.label}:`, totalsX - 120, yPosition, { width: 170, align: 'right' });
+      doc.text(`$${taxLine.amount.toFixed(2)}`, totalX, yPosition);
+    }
     
     yPosition += 20;
     doc.font('Helvetica-Bold').fontSize(12);
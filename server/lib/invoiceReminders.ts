@@ -0,0 +1,242 @@
+/**
+ * Invoice Reminders
+ *
+ * The overdue sweep: flips sent invoices past their due date to overdue and
+ * works each open invoice through the reminder sequence configured in
+ * company settings (by default 3 days before the due date, on it, then 7, 14
+ * and 30 days after). Reminders go out by email and, when enabled, SMS, and
+ * are logged on the job's timeline.
+ *
+ * Each step is recorded in invoice_reminders, so running the sweep more than
+ * once a day is harmless. An invoice drops out of the sequence as soon as its
+ * balance is paid, counting payments recorded on the job without an invoice.
+ */
+
+import { and, eq, inArray, lt } from "drizzle-orm";
+import {
+  activities,
+  companySettings,
+  invoiceReminders,
+  invoices,
+  reportRequests,
+  type Invoice,
+} from "../../drizzle/schema";
+import { escapeHtml, sendInvoiceEmail } from "../mail";
+import { sendSMS } from "../sms";
+import { getInvoicePaymentUrl, getUnappliedPayments, openInvoiceBalances } from "./stripePayments";
+
+export const DEFAULT_REMINDER_DAYS = [-3, 0, 7, 14, 30];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatCents = (cents: number) =>
+  `$${(cents / 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Whole calendar days from the due date to now; negative before it's due.
+ */
+export function daysPastDue(dueDate: Date, now: Date): number {
+  return Math.round((startOfDay(now).getTime() - startOfDay(dueDate).getTime()) / DAY_MS);
+}
+
+/**
+ * The reminder step to send now: the latest step that has come due, unless it
+ * was already sent. Steps missed while the sweep wasn't running are skipped
+ * rather than sent in a burst.
+ */
+export function selectReminderStep(reminderDays: number[], daysPast: number, sentSteps: number[]): number | null {
+  const due = reminderDays.filter(day => day <= daysPast);
+  if (due.length === 0) return null;
+  const latest = Math.max(...due);
+  return sentSteps.includes(latest) ? null : latest;
+}
+
+export function describeReminderStep(dayOffset: number): string {
+  if (dayOffset < 0) return `due in ${-dayOffset} day${dayOffset === -1 ? "" : "s"}`;
+  if (dayOffset === 0) return "due today";
+  return `${dayOffset} day${dayOffset === 1 ? "" : "s"} past due`;
+}
+
+export interface ReminderMessage {
+  subject: string;
+  html: string;
+  sms: string;
+}
+
+export function buildReminderMessage(params: {
+  invoice: Pick<Invoice, "invoiceNumber" | "clientName" | "dueDate">;
+  dayOffset: number;
+  balanceDue: number; // Cents
+  payUrl: string | null;
+  companyName: string;
+}): ReminderMessage {
+  const { invoice, dayOffset, balanceDue, payUrl, companyName } = params;
+  const firstName = invoice.clientName.split(" ")[0];
+  const amount = formatCents(balanceDue);
+  const dueDate = invoice.dueDate.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" });
+
+  const lead = dayOffset < 0
+    ? `This is a friendly reminder that invoice ${invoice.invoiceNumber} for ${amount} is due on ${dueDate}.`
+    : dayOffset === 0
+      ? `Invoice ${invoice.invoiceNumber} for ${amount} is due today.`
+      : `Our records show invoice ${invoice.invoiceNumber} is ${dayOffset} days past due, with ${amount} still outstanding.`;
+
+  const subject = dayOffset <= 0
+    ? `Reminder: invoice ${invoice.invoiceNumber} ${describeReminderStep(dayOffset)}`
+    : `Past due: invoice ${invoice.invoiceNumber}`;
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; line-height: 1.5; color: #111;">
+      <p>Hi ${escapeHtml(firstName)},</p>
+      <p>${escapeHtml(lead)}</p>
+      ${payUrl ? `
+      <p style="margin: 20px 0;">
+        <a href="${payUrl}" style="background: #00d4aa; color: #000; padding: 10px 20px; border-radius: 6px; text-decoration: none; font-weight: bold;">Pay ${amount} now</a>
+      </p>` : ""}
+      <p>If you've already sent payment, thank you, and please disregard this message. Reply to this email with any questions.</p>
+      <p>${escapeHtml(companyName)}</p>
+    </div>
+  `.trim();
+
+  const sms = `${companyName}: ${lead}${payUrl ? ` Pay online: ${payUrl}` : ""}`;
+
+  return { subject, html, sms };
+}
+
+export interface PlannedReminder {
+  invoice: Invoice;
+  step: number;
+  balanceDue: number;
+}
+
+/**
+ * The reminder step due today for each open invoice that still has a balance
+ * once the job's unapplied payments are counted (see openInvoiceBalances).
+ */
+export function planReminders(params: {
+  invoices: Invoice[];
+  unappliedByJob: Map<number, number>;
+  reminderDays: number[];
+  sent: Array<{ invoiceId: number; dayOffset: number }>;
+  now: Date;
+}): PlannedReminder[] {
+  const balances = openInvoiceBalances(params.invoices, params.unappliedByJob);
+  const planned: PlannedReminder[] = [];
+
+  for (const invoice of params.invoices) {
+    const balanceDue = balances.get(invoice.id) || 0;
+    if (balanceDue <= 0) continue;
+
+    const sentSteps = params.sent.filter(row => row.invoiceId === invoice.id).map(row => row.dayOffset);
+    const step = selectReminderStep(params.reminderDays, daysPastDue(invoice.dueDate, params.now), sentSteps);
+    if (step !== null) planned.push({ invoice, step, balanceDue });
+  }
+
+  return planned;
+}
+
+export interface ReminderSweepResult {
+  markedOverdue: number;
+  remindersSent: number;
+  failures: number;
+}
+
+/**
+ * Mark past-due invoices overdue and send any reminders that have come due.
+ */
+export async function runInvoiceReminderSweep(db: any, now = new Date()): Promise<ReminderSweepResult> {
+  const result: ReminderSweepResult = { markedOverdue: 0, remindersSent: 0, failures: 0 };
+
+  const overdue = await db.update(invoices)
+    .set({ status: "overdue", updatedAt: now })
+    .where(and(eq(invoices.status, "sent"), lt(invoices.dueDate, startOfDay(now))))
+    .returning({ id: invoices.id });
+  result.markedOverdue = overdue.length;
+
+  const [settings] = await db.select().from(companySettings).limit(1);
+  if (settings && !settings.invoiceRemindersEnabled) return result;
+
+  const reminderDays: number[] = settings?.invoiceReminderDays?.length ? settings.invoiceReminderDays : DEFAULT_REMINDER_DAYS;
+  const sendSms = settings ? settings.invoiceReminderSms : true;
+  const companyName = settings?.companyName || "Next Door Exterior Solutions";
+
+  const openInvoices: Invoice[] = await db.select()
+    .from(invoices)
+    .where(inArray(invoices.status, ["sent", "overdue"]));
+  if (openInvoices.length === 0) return result;
+
+  const sent = await db.select({ invoiceId: invoiceReminders.invoiceId, dayOffset: invoiceReminders.dayOffset })
+    .from(invoiceReminders)
+    .where(inArray(invoiceReminders.invoiceId, openInvoices.map(invoice => invoice.id)));
+  const unappliedByJob = await getUnappliedPayments(
+    db,
+    openInvoices.flatMap(invoice => (invoice.reportRequestId ? [invoice.reportRequestId] : []))
+  );
+
+  for (const { invoice, step, balanceDue } of planReminders({ invoices: openInvoices, unappliedByJob, reminderDays, sent, now })) {
+    const [job] = invoice.reportRequestId
+      ? await db.select().from(reportRequests).where(eq(reportRequests.id, invoice.reportRequestId))
+      : [];
+    const email = invoice.clientEmail || job?.email || null;
+    const phone = invoice.clientPhone || job?.phone || null;
+    if (!email && !(sendSms && phone)) continue;
+
+    const payUrl = invoice.reportRequestId ? await getInvoicePaymentUrl(invoice.id) : null;
+    const message = buildReminderMessage({ invoice, dayOffset: step, balanceDue, payUrl, companyName });
+
+    const channels: Array<{ channel: "email" | "sms"; to: string; send: () => Promise<boolean> }> = [];
+    if (email) {
+      channels.push({
+        channel: "email",
+        to: email,
+        send: async () => {
+          await sendInvoiceEmail({ to: email, subject: message.subject, html: message.html });
+          return true;
+        },
+      });
+    }
+    if (sendSms && phone) {
+      channels.push({ channel: "sms", to: phone, send: () => sendSMS(phone, message.sms) });
+    }
+
+    for (const { channel, to, send } of channels) {
+      // Claim the step first; a concurrent sweep that loses the insert skips it
+      const [claimed] = await db.insert(invoiceReminders)
+        .values({ invoiceId: invoice.id, dayOffset: step, channel, sentTo: to, delivered: false })
+        .onConflictDoNothing()
+        .returning({ id: invoiceReminders.id });
+      if (!claimed) continue;
+
+      let delivered = false;
+      let error: string | null = null;
+      try {
+        delivered = await send();
+        if (!delivered) error = "SMS provider not configured or rejected the message";
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+
+      await db.update(invoiceReminders)
+        .set({ delivered, error })
+        .where(eq(invoiceReminders.id, claimed.id));
+
+      if (delivered) result.remindersSent++;
+      else result.failures++;
+
+      if (invoice.reportRequestId) {
+        await db.insert(activities).values({
+          reportRequestId: invoice.reportRequestId,
+          activityType: channel === "email" ? "email_sent" : "sms_sent",
+          description: delivered
+            ? `Payment reminder (${describeReminderStep(step)}) for invoice ${invoice.invoiceNumber} sent by ${channel} to ${to}`
+            : `Payment reminder (${describeReminderStep(step)}) for invoice ${invoice.invoiceNumber} could not be sent by ${channel}: ${error}`,
+          metadata: JSON.stringify({ invoiceId: invoice.id, dayOffset: step, channel, balanceDue, delivered }),
+        });
+      }
+    }
+  }
+
+  return result;
+}
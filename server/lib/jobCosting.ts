@@ -0,0 +1,383 @@
+/**
+ * Job Costing
+ *
+ * One cost ledger per job, assembled from everywhere a job's costs are
+ * recorded: material orders (their quoted PO cost until the supplier's bill
+ * is linked), approved project bills, expenses, inventory used on the job at
+ * unit cost, reconciled bank debits tagged to the project, approved
+ * commissions and manual entries for crew labor and the like. Every line is
+ * sorted into a job cost category so actuals can be compared with the
+ * estimate entered for that category.
+ *
+ * Revenue is the contract (totalPrice, falling back to approvedAmount) plus
+ * approved change orders. All amounts are cents.
+ */
+
+import { and, eq, gte, inArray, isNotNull, isNull, lt, lte, notInArray, or, sql } from "drizzle-orm";
+import {
+  billsPayable,
+  bankTransactions,
+  changeOrders,
+  commissionRequests,
+  companySettings,
+  expenses,
+  inventory,
+  inventoryTransactions,
+  jobCostEntries,
+  jobCostEstimates,
+  materialOrders,
+  reportRequests,
+  users,
+  type JobCostEntry,
+  type ReportRequest,
+} from "../../drizzle/schema";
+import { dollarsToCents } from "./ledger";
+
+export type JobCostCategory = JobCostEntry["category"];
+
+export const JOB_COST_CATEGORIES: JobCostCategory[] = [
+  "materials",
+  "labor",
+  "subcontractors",
+  "equipment",
+  "permits",
+  "commission",
+  "other",
+];
+
+export type JobCostSource =
+  | "material_order"
+  | "bill"
+  | "expense"
+  | "inventory"
+  | "bank_transaction"
+  | "commission"
+  | "manual";
+
+export interface JobCostLine {
+  source: JobCostSource;
+  sourceId: number;
+  jobId: number;
+  date: Date;
+  description: string;
+  category: JobCostCategory;
+  amount: number;
+}
+
+export interface JobCostCategorySummary {
+  category: JobCostCategory;
+  estimated: number | null;
+  actual: number;
+  variance: number | null; // Estimated minus actual; negative is over budget
+}
+
+export interface JobCostSummary {
+  revenue: { contract: number; changeOrders: number; total: number };
+  categories: JobCostCategorySummary[];
+  estimatedCost: number | null;
+  actualCost: number;
+  grossProfit: number;
+  marginPercent: number | null;
+  estimatedMarginPercent: number | null;
+  targetMarginPercent: number;
+  belowTarget: boolean;
+}
+
+const DEFAULT_TARGET_MARGIN_PERCENT = 30;
+
+// Job statuses whose costs are final enough to judge the margin
+const FINISHED_JOB_STATUSES: ReportRequest["status"][] = ["completed", "invoiced", "closed_deal"];
+
+// Material orders that were actually placed
+const PLACED_ORDER_STATUSES = ["sent", "confirmed", "delivered"] as const;
+
+const COUNTED_BILL_STATUSES = ["approved", "paid", "overdue"] as const;
+
+// Bank lines that settle a cost recorded elsewhere (or aren't costs at all)
+const SETTLEMENT_CATEGORIES = ["bill_payment", "expense_payment", "transfer", "loan_payment", "deposit", "revenue", "refund"];
+
+/**
+ * Sort a free-text category from bills, expenses or bank transactions into a
+ * job cost category.
+ */
+export function jobCostCategory(raw: string | null | undefined): JobCostCategory {
+  const value = (raw || "").toLowerCase();
+  if (!value) return "other";
+  if (/subcontract/.test(value)) return "subcontractors";
+  if (/material|supplies|shingle|lumber/.test(value)) return "materials";
+  if (/labor|payroll|wage|crew/.test(value)) return "labor";
+  if (/equipment|vehicle|rental|dumpster|fuel|tool/.test(value)) return "equipment";
+  if (/permit|inspection|fee/.test(value)) return "permits";
+  if (/commission|bonus/.test(value)) return "commission";
+  return "other";
+}
+
+export const contractCents = (job: Pick<ReportRequest, "totalPrice" | "approvedAmount">) =>
+  dollarsToCents(job.totalPrice ?? job.approvedAmount);
+
+const percentOf = (part: number, whole: number) =>
+  whole > 0 ? Math.round((part / whole) * 10000) / 100 : null;
+
+export function summarizeJobCosts(
+  revenue: { contract: number; changeOrders: number },
+  lines: Array<Pick<JobCostLine, "category" | "amount">>,
+  estimates: Array<{ category: JobCostCategory; amount: number }>,
+  targetMarginPercent: number = DEFAULT_TARGET_MARGIN_PERCENT
+): JobCostSummary {
+  const totalRevenue = revenue.contract + revenue.changeOrders;
+  const estimateByCategory = new Map(estimates.map(estimate => [estimate.category, estimate.amount]));
+
+  const categories = JOB_COST_CATEGORIES.map(category => {
+    const actual = lines.filter(line => line.category === category).reduce((sum, line) => sum + line.amount, 0);
+    const estimated = estimateByCategory.get(category) ?? null;
+    return { category, estimated, actual, variance: estimated === null ? null : estimated - actual };
+  });
+
+  const actualCost = categories.reduce((sum, row) => sum + row.actual, 0);
+  const estimatedCost = estimates.length > 0 ? estimates.reduce((sum, estimate) => sum + estimate.amount, 0) : null;
+  const grossProfit = totalRevenue - actualCost;
+  const marginPercent = percentOf(grossProfit, totalRevenue);
+
+  return {
+    revenue: { ...revenue, total: totalRevenue },
+    categories,
+    estimatedCost,
+    actualCost,
+    grossProfit,
+    marginPercent,
+    estimatedMarginPercent: estimatedCost === null ? null : percentOf(totalRevenue - estimatedCost, totalRevenue),
+    targetMarginPercent,
+    belowTarget: marginPercent !== null && marginPercent < targetMarginPercent,
+  };
+}
+
+export async function getTargetMarginPercent(db: any): Promise<number> {
+  const [settings] = await db.select({ target: companySettings.targetGrossMarginPercent })
+    .from(companySettings)
+    .limit(1);
+  return settings?.target ? parseFloat(settings.target) : DEFAULT_TARGET_MARGIN_PERCENT;
+}
+
+/**
+ * Every cost recorded against the given jobs.
+ */
+export async function loadJobCostLines(db: any, jobIds: number[]): Promise<JobCostLine[]> {
+  if (jobIds.length === 0) return [];
+  const lines: JobCostLine[] = [];
+
+  const orders = await db.select().from(materialOrders).where(and(
+    inArray(materialOrders.reportRequestId, jobIds),
+    inArray(materialOrders.status, [...PLACED_ORDER_STATUSES]),
+    isNotNull(materialOrders.totalCost),
+    isNull(materialOrders.billId)
+  ));
+  for (const order of orders) {
+    lines.push({
+      source: "material_order",
+      sourceId: order.id,
+      jobId: order.reportRequestId,
+      date: order.sentAt || order.createdAt,
+      description: `Material order ${order.orderNumber || `#${order.id}`} (${order.supplierName}, not yet billed)`,
+      category: "materials",
+      amount: order.totalCost,
+    });
+  }
+
+  const bills = await db.select().from(billsPayable).where(and(
+    inArray(billsPayable.projectId, jobIds),
+    inArray(billsPayable.status, [...COUNTED_BILL_STATUSES])
+  ));
+  for (const bill of bills) {
+    lines.push({
+      source: "bill",
+      sourceId: bill.id,
+      jobId: bill.projectId,
+      date: bill.billDate,
+      description: `${bill.vendorName} bill${bill.billNumber ? ` ${bill.billNumber}` : ""}`,
+      category: jobCostCategory(bill.category),
+      amount: dollarsToCents(bill.totalAmount),
+    });
+  }
+
+  const jobExpenses = await db.select().from(expenses).where(inArray(expenses.reportRequestId, jobIds));
+  for (const expense of jobExpenses) {
+    lines.push({
+      source: "expense",
+      sourceId: expense.id,
+      jobId: expense.reportRequestId,
+      date: expense.date,
+      description: expense.vendorName ? `${expense.vendorName}: ${expense.description}` : expense.description,
+      category: jobCostCategory(expense.category),
+      amount: dollarsToCents(expense.amount),
+    });
+  }
+
+  const usage = await db.select({ usage: inventoryTransactions, item: inventory })
+    .from(inventoryTransactions)
+    .innerJoin(inventory, eq(inventoryTransactions.inventoryId, inventory.id))
+    .where(and(
+      inArray(inventoryTransactions.projectId, jobIds),
+      eq(inventoryTransactions.transactionType, "usage")
+    ));
+  for (const { usage: movement, item } of usage) {
+    const unitCost = dollarsToCents(movement.unitCost ?? item.unitCost);
+    lines.push({
+      source: "inventory",
+      sourceId: movement.id,
+      jobId: movement.projectId,
+      date: movement.transactionDate,
+      description: `${Math.abs(movement.quantity)} ${item.unitOfMeasure || "unit"} ${item.itemName} from inventory`,
+      category: "materials",
+      amount: Math.abs(movement.quantity) * unitCost,
+    });
+  }
+
+  const debits = await db.select().from(bankTransactions).where(and(
+    inArray(bankTransactions.projectId, jobIds),
+    eq(bankTransactions.status, "reconciled"),
+    lt(bankTransactions.amount, "0"),
+    or(isNull(bankTransactions.category), notInArray(bankTransactions.category, SETTLEMENT_CATEGORIES))
+  ));
+  for (const transaction of debits) {
+    lines.push({
+      source: "bank_transaction",
+      sourceId: transaction.id,
+      jobId: transaction.projectId,
+      date: transaction.transactionDate,
+      description: transaction.description,
+      category: jobCostCategory(transaction.category),
+      amount: Math.abs(dollarsToCents(transaction.amount)),
+    });
+  }
+
+  const commissions = await db.select({ request: commissionRequests, userName: users.name })
+    .from(commissionRequests)
+    .leftJoin(users, eq(commissionRequests.userId, users.id))
+    .where(and(
+      inArray(commissionRequests.jobId, jobIds),
+      eq(commissionRequests.status, "approved"),
+      isNotNull(commissionRequests.amount)
+    ));
+  for (const { request, userName } of commissions) {
+    lines.push({
+      source: "commission",
+      sourceId: request.id,
+      jobId: request.jobId,
+      date: request.createdAt,
+      description: `Commission${userName ? ` for ${userName}` : ""}`,
+      category: "commission",
+      amount: request.amount,
+    });
+  }
+
+  const entries = await db.select({ entry: jobCostEntries, userName: users.name })
+    .from(jobCostEntries)
+    .leftJoin(users, eq(jobCostEntries.userId, users.id))
+    .where(inArray(jobCostEntries.jobId, jobIds));
+  for (const { entry, userName } of entries) {
+    const who = [userName, entry.hours ? `${parseFloat(entry.hours)} hrs` : null].filter(Boolean).join(", ");
+    lines.push({
+      source: "manual",
+      sourceId: entry.id,
+      jobId: entry.jobId,
+      date: entry.entryDate,
+      description: who ? `${entry.description} (${who})` : entry.description,
+      category: entry.category,
+      amount: entry.amount,
+    });
+  }
+
+  return lines;
+}
+
+async function approvedChangeOrderCents(db: any, jobIds: number[]): Promise<Map<number, number>> {
+  const rows = await db.select({
+    jobId: changeOrders.jobId,
+    total: sql<string>`COALESCE(SUM(${changeOrders.amount}), 0)`,
+  })
+    .from(changeOrders)
+    .where(and(inArray(changeOrders.jobId, jobIds), eq(changeOrders.status, "approved")))
+    .groupBy(changeOrders.jobId);
+  return new Map(rows.map((row: { jobId: number; total: string }) => [row.jobId, Number(row.total)]));
+}
+
+export async function getJobCosting(db: any, jobId: number) {
+  const [job]: ReportRequest[] = await db.select().from(reportRequests).where(eq(reportRequests.id, jobId));
+  if (!job) throw new Error("Job not found");
+
+  const [lines, changeOrderTotals, estimates, targetMarginPercent] = await Promise.all([
+    loadJobCostLines(db, [jobId]),
+    approvedChangeOrderCents(db, [jobId]),
+    db.select().from(jobCostEstimates).where(eq(jobCostEstimates.jobId, jobId)),
+    getTargetMarginPercent(db),
+  ]);
+
+  const summary = summarizeJobCosts(
+    { contract: contractCents(job), changeOrders: changeOrderTotals.get(jobId) || 0 },
+    lines,
+    estimates,
+    targetMarginPercent
+  );
+
+  return {
+    ...summary,
+    lines: lines.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+  };
+}
+
+/**
+ * Finished jobs whose actual margin came in under the company target, worst
+ * first. `shortfall` is the profit (in cents) the job needed to hit target.
+ */
+export async function getUnderMarginJobs(db: any, options: { startDate?: Date; endDate?: Date } = {}) {
+  const conditions = [
+    inArray(reportRequests.status, FINISHED_JOB_STATUSES),
+    or(isNotNull(reportRequests.totalPrice), isNotNull(reportRequests.approvedAmount)),
+  ];
+  if (options.startDate) conditions.push(gte(reportRequests.completedDate, options.startDate));
+  if (options.endDate) conditions.push(lte(reportRequests.completedDate, options.endDate));
+
+  const jobs: ReportRequest[] = await db.select().from(reportRequests).where(and(...conditions));
+  const targetMarginPercent = await getTargetMarginPercent(db);
+  if (jobs.length === 0) return { targetMarginPercent, jobs: [] };
+
+  const jobIds = jobs.map(job => job.id);
+  const [lines, changeOrderTotals, estimates] = await Promise.all([
+    loadJobCostLines(db, jobIds),
+    approvedChangeOrderCents(db, jobIds),
+    db.select().from(jobCostEstimates).where(inArray(jobCostEstimates.jobId, jobIds)),
+  ]);
+
+  const underTarget = jobs.flatMap(job => {
+    const summary = summarizeJobCosts(
+      { contract: contractCents(job), changeOrders: changeOrderTotals.get(job.id) || 0 },
+      lines.filter(line => line.jobId === job.id),
+      estimates.filter((estimate: { jobId: number }) => estimate.jobId === job.id),
+      targetMarginPercent
+    );
+    if (!summary.belowTarget) return [];
+
+    const worstCategory = summary.categories
+      .filter(row => row.variance !== null && row.variance < 0)
+      .sort((a, b) => (a.variance ?? 0) - (b.variance ?? 0))[0];
+
+    return [{
+      jobId: job.id,
+      customerName: job.fullName,
+      address: job.address,
+      completedDate: job.completedDate,
+      revenue: summary.revenue.total,
+      actualCost: summary.actualCost,
+      estimatedCost: summary.estimatedCost,
+      grossProfit: summary.grossProfit,
+      marginPercent: summary.marginPercent,
+      shortfall: Math.round(summary.revenue.total * targetMarginPercent / 100) - summary.grossProfit,
+      overBudgetCategory: worstCategory?.category ?? null,
+    }];
+  });
+
+  return {
+    targetMarginPercent,
+    jobs: underTarget.sort((a, b) => (a.marginPercent ?? 0) - (b.marginPercent ?? 0)),
+  };
+}
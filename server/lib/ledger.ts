@@ -0,0 +1,616 @@
+/**
+ * General Ledger
+ *
+ * Double-entry postings for the finance tables. Each source document maps to
+ * at most one active journal entry, built by a pure function below:
+ *
+ *   invoice (sent/overdue/paid)   Dr Accounts Receivable / Cr Revenue, Sales Tax Payable
+ *   payment (net of refunds)      Dr Undeposited Funds / Cr Accounts Receivable
+ *   credit memo (unless voided)   Dr Refunds & Allowances / Cr Accounts Receivable
+ *   bill (approved onward)        Dr expense by category / Cr Accounts Payable
+ *   bill payment (paid)           Dr Accounts Payable / Cr Outstanding Bill Payments
+ *   expense                       Dr expense by category / Cr Operating Cash
+ *   bank transaction (reconciled) Dr/Cr the bank's cash account against its category
+ *
+ * Customer payments and bill payments go through clearing accounts, so when
+ * the matching bank line is reconciled as a "deposit" or "bill_payment" it
+ * clears the balance instead of counting the money twice. A bank line matched
+ * to hand-logged expenses ("expense_payment") likewise just moves the amount
+ * from Operating Cash to the bank's own account.
+ *
+ * When a document changes, syncPosting reverses its active entry (dated the
+ * same as the original, so period totals reflect the corrected document) and
+ * posts a new one. Deleting or cancelling a document just reverses it. Nothing
+ * in journal_lines is ever updated in place.
+ *
+ * The ledger is the source for account balances: the trial balance, the
+ * financial statements and cash burn. Reports that need per-document or
+ * per-job detail the journal doesn't carry still read the source tables:
+ *
+ *   AR aging          which invoice a credit memo was applied to (the memo
+ *                     credits receivables as a whole), and due dates
+ *   AP aging          pending bills, which aren't posted until approved
+ *   WIP, unbilled     contract values, job status and inventory usage
+ *   profitability     per crew and deal type, from the same job costs
+ *
+ * Their totals should still agree with the matching accounts (receivables,
+ * payables) in the trial balance.
+ */
+
+import { and, eq, inArray, isNull, lte, sql } from "drizzle-orm";
+import {
+  bankAccounts,
+  bankTransactions,
+  billsPayable,
+  creditMemos,
+  expenses,
+  invoices,
+  journalEntries,
+  journalLines,
+  ledgerAccounts,
+  payments,
+  type BankTransaction,
+  type BillPayable,
+  type CreditMemo,
+  type Expense,
+  type Invoice,
+  type LedgerAccount,
+  type Payment,
+} from "../../drizzle/schema";
+
+type AccountType = LedgerAccount["type"];
+
+interface SystemAccount {
+  code: string;
+  name: string;
+  type: AccountType;
+  subtype?: string;
+}
+
+export const SYSTEM_ACCOUNTS = {
+  operatingCash: { code: "1000", name: "Operating Cash", type: "asset", subtype: "cash" },
+  undepositedFunds: { code: "1050", name: "Undeposited Funds", type: "asset", subtype: "clearing" },
+  transfersInTransit: { code: "1090", name: "Transfers in Transit", type: "asset", subtype: "clearing" },
+  accountsReceivable: { code: "1100", name: "Accounts Receivable", type: "asset", subtype: "receivable" },
+  accountsPayable: { code: "2000", name: "Accounts Payable", type: "liability", subtype: "payable" },
+  outstandingBillPayments: { code: "2050", name: "Outstanding Bill Payments", type: "liability", subtype: "clearing" },
+  salesTaxPayable: { code: "2200", name: "Sales Tax Payable", type: "liability" },
+  loansPayable: { code: "2500", name: "Loans Payable", type: "liability" },
+  ownersEquity: { code: "3000", name: "Owner's Equity", type: "equity" },
+  constructionRevenue: { code: "4000", name: "Construction Revenue", type: "revenue" },
+  refundsAndAllowances: { code: "4100", name: "Refunds & Allowances", type: "revenue" },
+  otherIncome: { code: "4900", name: "Other Income", type: "revenue" },
+  uncategorizedIncome: { code: "4999", name: "Uncategorized Income", type: "revenue" },
+  materials: { code: "5000", name: "Materials", type: "expense", subtype: "cost_of_sales" },
+  directLabor: { code: "5100", name: "Direct Labor", type: "expense", subtype: "cost_of_sales" },
+  payroll: { code: "6000", name: "Payroll", type: "expense" },
+  equipment: { code: "6100", name: "Equipment", type: "expense" },
+  vehicle: { code: "6150", name: "Vehicle", type: "expense" },
+  insurance: { code: "6200", name: "Insurance", type: "expense" },
+  utilities: { code: "6300", name: "Utilities", type: "expense" },
+  marketing: { code: "6400", name: "Marketing", type: "expense" },
+  office: { code: "6500", name: "Office & Software", type: "expense" },
+  professionalServices: { code: "6600", name: "Professional Services", type: "expense" },
+  taxesAndLicenses: { code: "6700", name: "Taxes & Licenses", type: "expense" },
+  otherExpense: { code: "6900", name: "Other Expenses", type: "expense" },
+  uncategorizedExpense: { code: "6999", name: "Uncategorized Expense", type: "expense" },
+} satisfies Record<string, SystemAccount>;
+
+type SystemAccountKey = keyof typeof SYSTEM_ACCOUNTS;
+
+// Expense, bill and bank categories (normalized to snake_case) and where they post
+const CATEGORY_ACCOUNTS: Record<string, SystemAccountKey> = {
+  materials: "materials",
+  labor: "directLabor",
+  subcontractors: "directLabor",
+  payroll: "payroll",
+  equipment: "equipment",
+  vehicle: "vehicle",
+  fuel: "vehicle",
+  insurance: "insurance",
+  utilities: "utilities",
+  marketing: "marketing",
+  office: "office",
+  software: "office",
+  professional_services: "professionalServices",
+  taxes: "taxesAndLicenses",
+  other: "otherExpense",
+  revenue: "constructionRevenue",
+  deposit: "undepositedFunds",
+  refund: "refundsAndAllowances",
+  transfer: "transfersInTransit",
+  loan_payment: "loansPayable",
+  bill_payment: "outstandingBillPayments",
+  expense_payment: "operatingCash",
+  owner_draw: "ownersEquity",
+  owner_contribution: "ownersEquity",
+};
+
+export type SourceType = "invoice" | "payment" | "bill" | "bill_payment" | "expense" | "bank_transaction" | "credit_memo" | "manual";
+
+/**
+ * An account reference: a chart-of-accounts code, or "bank:{id}" for the
+ * cash (or card) account that mirrors a bank account.
+ */
+export type AccountRef = string;
+
+export interface PostingLine {
+  account: AccountRef;
+  debit: number; // Cents
+  credit: number; // Cents
+  memo?: string;
+}
+
+export interface Posting {
+  date: Date;
+  memo: string;
+  jobId: number | null;
+  lines: PostingLine[];
+}
+
+const code = (key: SystemAccountKey) => SYSTEM_ACCOUNTS[key].code;
+
+export const dollarsToCents = (value: string | number | null | undefined) =>
+  Math.round(parseFloat(String(value ?? 0)) * 100) || 0;
+
+export function isBalanced(lines: Array<Pick<PostingLine, "debit" | "credit">>): boolean {
+  const debits = lines.reduce((sum, line) => sum + line.debit, 0);
+  const credits = lines.reduce((sum, line) => sum + line.credit, 0);
+  return debits === credits && debits > 0;
+}
+
+/**
+ * The account a category posts to. Unknown or missing categories land in the
+ * uncategorized income/expense accounts so they stand out on the trial balance.
+ */
+export function accountForCategory(category: string | null | undefined, direction: "in" | "out"): AccountRef {
+  const key = (category || "").trim().toLowerCase().replace(/[\s-]+/g, "_");
+  const mapped = CATEGORY_ACCOUNTS[key];
+  if (mapped) return code(mapped);
+  return code(direction === "in" ? "uncategorizedIncome" : "uncategorizedExpense");
+}
+
+export function invoicePosting(
+  invoice: Pick<Invoice, "invoiceNumber" | "status" | "totalAmount" | "taxAmount" | "invoiceDate" | "reportRequestId" | "clientName">
+): Posting | null {
+  if (!["sent", "overdue", "paid"].includes(invoice.status || "") || invoice.totalAmount <= 0) return null;
+
+  const tax = Math.max(0, invoice.taxAmount || 0);
+  const lines: PostingLine[] = [
+    { account: code("accountsReceivable"), debit: invoice.totalAmount, credit: 0 },
+    { account: code("constructionRevenue"), debit: 0, credit: invoice.totalAmount - tax },
+  ];
+  if (tax > 0) lines.push({ account: code("salesTaxPayable"), debit: 0, credit: tax });
+
+  return {
+    date: invoice.invoiceDate,
+    memo: `Invoice ${invoice.invoiceNumber} - ${invoice.clientName}`,
+    jobId: invoice.reportRequestId,
+    lines,
+  };
+}
+
+export function paymentPosting(
+  payment: Pick<Payment, "amount" | "refundedAmount" | "paymentDate" | "paymentMethod" | "checkNumber" | "reportRequestId">
+): Posting | null {
+  const net = payment.amount - (payment.refundedAmount || 0);
+  if (net <= 0) return null;
+
+  return {
+    date: payment.paymentDate,
+    memo: `Customer payment (${payment.paymentMethod}${payment.checkNumber ? ` #${payment.checkNumber}` : ""})`,
+    jobId: payment.reportRequestId,
+    lines: [
+      { account: code("undepositedFunds"), debit: net, credit: 0 },
+      { account: code("accountsReceivable"), debit: 0, credit: net },
+    ],
+  };
+}
+
+/**
+ * The whole memo comes off receivables when it's issued, whether or not it
+ * has been applied to an invoice yet; unapplied credit is a credit balance
+ * the customer holds.
+ */
+export function creditMemoPosting(
+  memo: Pick<CreditMemo, "memoNumber" | "amount" | "reason" | "memoDate" | "voidedAt" | "reportRequestId">
+): Posting | null {
+  if (memo.voidedAt || memo.amount <= 0) return null;
+
+  return {
+    date: memo.memoDate,
+    memo: `Credit memo ${memo.memoNumber} - ${memo.reason}`,
+    jobId: memo.reportRequestId,
+    lines: [
+      { account: code("refundsAndAllowances"), debit: memo.amount, credit: 0 },
+      { account: code("accountsReceivable"), debit: 0, credit: memo.amount },
+    ],
+  };
+}
+
+export function billPosting(
+  bill: Pick<BillPayable, "billNumber" | "vendorName" | "status" | "totalAmount" | "category" | "billDate" | "projectId">
+): Posting | null {
+  const total = dollarsToCents(bill.totalAmount);
+  if (!["approved", "paid", "overdue"].includes(bill.status || "") || total <= 0) return null;
+
+  return {
+    date: bill.billDate,
+    memo: `Bill${bill.billNumber ? ` ${bill.billNumber}` : ""} - ${bill.vendorName}`,
+    jobId: bill.projectId,
+    lines: [
+      { account: accountForCategory(bill.category, "out"), debit: total, credit: 0 },
+      { account: code("accountsPayable"), debit: 0, credit: total },
+    ],
+  };
+}
+
+export function billPaymentPosting(
+  bill: Pick<BillPayable, "billNumber" | "vendorName" | "status" | "totalAmount" | "billDate" | "paymentDate" | "paymentMethod" | "projectId">
+): Posting | null {
+  const total = dollarsToCents(bill.totalAmount);
+  if (bill.status !== "paid" || total <= 0) return null;
+
+  return {
+    date: bill.paymentDate || bill.billDate,
+    memo: `Payment of bill${bill.billNumber ? ` ${bill.billNumber}` : ""} - ${bill.vendorName}${bill.paymentMethod ? ` (${bill.paymentMethod})` : ""}`,
+    jobId: bill.projectId,
+    lines: [
+      { account: code("accountsPayable"), debit: total, credit: 0 },
+      { account: code("outstandingBillPayments"), debit: 0, credit: total },
+    ],
+  };
+}
+
+export function expensePosting(
+  expense: Pick<Expense, "amount" | "category" | "date" | "description" | "vendorName" | "reportRequestId">
+): Posting | null {
+  const amount = dollarsToCents(expense.amount);
+  if (amount <= 0) return null;
+
+  return {
+    date: expense.date,
+    memo: expense.vendorName ? `${expense.vendorName} - ${expense.description}` : expense.description,
+    jobId: expense.reportRequestId,
+    lines: [
+      { account: accountForCategory(expense.category, "out"), debit: amount, credit: 0 },
+      { account: code("operatingCash"), debit: 0, credit: amount },
+    ],
+  };
+}
+
+export function bankTransactionPosting(
+  transaction: Pick<BankTransaction, "amount" | "status" | "category" | "accountId" | "transactionDate" | "description" | "projectId">
+): Posting | null {
+  const amount = dollarsToCents(transaction.amount);
+  if (transaction.status !== "reconciled" || amount === 0) return null;
+
+  const cash: AccountRef = transaction.accountId ? `bank:${transaction.accountId}` : code("operatingCash");
+  const direction = amount > 0 ? "in" : "out";
+  const other = accountForCategory(transaction.category, direction);
+  if (other === cash) return null; // Matched to an expense already paid from this (unlinked) cash account
+  const value = Math.abs(amount);
+
+  return {
+    date: transaction.transactionDate,
+    memo: transaction.description,
+    jobId: transaction.projectId,
+    lines: direction === "in"
+      ? [{ account: cash, debit: value, credit: 0 }, { account: other, debit: 0, credit: value }]
+      : [{ account: other, debit: value, credit: 0 }, { account: cash, debit: 0, credit: value }],
+  };
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+type AccountCache = Map<AccountRef, number>;
+
+async function resolveAccountId(db: any, ref: AccountRef, cache: AccountCache): Promise<number> {
+  const cached = cache.get(ref);
+  if (cached) return cached;
+
+  let account: LedgerAccount | undefined;
+
+  if (ref.startsWith("bank:")) {
+    const bankAccountId = Number(ref.slice(5));
+    [account] = await db.select().from(ledgerAccounts).where(eq(ledgerAccounts.bankAccountId, bankAccountId));
+    if (!account) {
+      const [bank] = await db.select().from(bankAccounts).where(eq(bankAccounts.id, bankAccountId));
+      if (!bank) throw new Error(`Bank account ${bankAccountId} not found`);
+      const isCard = bank.accountType === "credit_card" || bank.accountType === "line_of_credit";
+      await db.insert(ledgerAccounts)
+        .values({
+          code: `${isCard ? "2100" : "1000"}-${bank.id}`,
+          name: `${bank.accountName}${bank.accountNumberLast4 ? ` (...${bank.accountNumberLast4})` : ""}`,
+          type: isCard ? "liability" : "asset",
+          subtype: "cash",
+          bankAccountId: bank.id,
+          isSystem: true,
+        })
+        .onConflictDoNothing();
+      [account] = await db.select().from(ledgerAccounts).where(eq(ledgerAccounts.bankAccountId, bankAccountId));
+    }
+  } else {
+    [account] = await db.select().from(ledgerAccounts).where(eq(ledgerAccounts.code, ref));
+    const system = Object.values(SYSTEM_ACCOUNTS).find(def => def.code === ref);
+    if (!account && system) {
+      await db.insert(ledgerAccounts).values({ ...system, isSystem: true }).onConflictDoNothing();
+      [account] = await db.select().from(ledgerAccounts).where(eq(ledgerAccounts.code, ref));
+    }
+  }
+
+  if (!account) throw new Error(`Ledger account ${ref} not found`);
+  cache.set(ref, account.id);
+  return account.id;
+}
+
+/**
+ * Create any system accounts missing from the chart of accounts.
+ */
+export async function ensureChartOfAccounts(db: any) {
+  await db.insert(ledgerAccounts)
+    .values(Object.values(SYSTEM_ACCOUNTS).map(def => ({ ...def, isSystem: true })))
+    .onConflictDoNothing();
+}
+
+interface ResolvedLine {
+  accountId: number;
+  debit: number;
+  credit: number;
+  memo: string | null;
+}
+
+const lineKey = (line: ResolvedLine) => `${line.accountId}:${line.debit}:${line.credit}`;
+
+function sameLines(a: ResolvedLine[], b: ResolvedLine[]) {
+  if (a.length !== b.length) return false;
+  const keysA = a.map(lineKey).sort();
+  const keysB = b.map(lineKey).sort();
+  return keysA.every((key, i) => key === keysB[i]);
+}
+
+/**
+ * Insert a balanced entry with its lines. Throws if the lines don't balance.
+ * Pass a transaction so the header and lines are written together.
+ */
+export async function insertJournalEntry(
+  db: any,
+  entry: {
+    date: Date;
+    memo: string | null;
+    sourceType: SourceType;
+    sourceId: number | null;
+    jobId: number | null;
+    lines: ResolvedLine[];
+    reversesEntryId?: number;
+    createdBy?: number | null;
+  }
+) {
+  if (!isBalanced(entry.lines)) {
+    throw new Error(`Journal entry "${entry.memo}" does not balance`);
+  }
+
+  const [created] = await db.insert(journalEntries)
+    .values({
+      entryDate: entry.date,
+      memo: entry.memo,
+      sourceType: entry.sourceType,
+      sourceId: entry.sourceId,
+      reportRequestId: entry.jobId,
+      reversesEntryId: entry.reversesEntryId ?? null,
+      createdBy: entry.createdBy ?? null,
+    })
+    .returning();
+
+  await db.insert(journalLines).values(entry.lines.map(line => ({
+    entryId: created.id,
+    accountId: line.accountId,
+    debit: line.debit,
+    credit: line.credit,
+    memo: line.memo,
+    reportRequestId: entry.jobId,
+  })));
+
+  return created;
+}
+
+/**
+ * Bring a document's journal entry in line with its current posting (null
+ * when the document shouldn't be on the books). Returns whether anything changed.
+ */
+export async function syncPosting(
+  db: any,
+  sourceType: SourceType,
+  sourceId: number,
+  posting: Posting | null,
+  cache: AccountCache = new Map()
+): Promise<boolean> {
+  const resolved: ResolvedLine[] = [];
+  for (const line of posting?.lines || []) {
+    resolved.push({ accountId: await resolveAccountId(db, line.account, cache), debit: line.debit, credit: line.credit, memo: line.memo ?? null });
+  }
+
+  return db.transaction(async (tx: any) => {
+    // Serialize syncs of the same document (the nightly sync racing a router or
+    // webhook); the partial unique index on active entries is the backstop
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${sourceType}), ${sourceId})`);
+
+    const active = await tx.select()
+      .from(journalEntries)
+      .where(and(
+        eq(journalEntries.sourceType, sourceType),
+        eq(journalEntries.sourceId, sourceId),
+        isNull(journalEntries.reversesEntryId),
+        isNull(journalEntries.reversedAt),
+      ));
+
+    if (posting && active.length === 1) {
+      const [entry] = active;
+      const existingLines = await tx.select().from(journalLines).where(eq(journalLines.entryId, entry.id));
+      if (
+        entry.entryDate.getTime() === posting.date.getTime() &&
+        entry.reportRequestId === posting.jobId &&
+        sameLines(existingLines, resolved)
+      ) {
+        return false;
+      }
+    }
+    if (!posting && active.length === 0) return false;
+
+    for (const entry of active) {
+      const existingLines = await tx.select().from(journalLines).where(eq(journalLines.entryId, entry.id));
+      await insertJournalEntry(tx, {
+        date: entry.entryDate,
+        memo: `Reversal: ${entry.memo || ""}`.trim(),
+        sourceType,
+        sourceId,
+        jobId: entry.reportRequestId,
+        reversesEntryId: entry.id,
+        lines: existingLines.map((line: ResolvedLine) => ({ accountId: line.accountId, debit: line.credit, credit: line.debit, memo: line.memo })),
+      });
+      await tx.update(journalEntries).set({ reversedAt: new Date() }).where(eq(journalEntries.id, entry.id));
+    }
+
+    if (posting) {
+      await insertJournalEntry(tx, { date: posting.date, memo: posting.memo, sourceType, sourceId, jobId: posting.jobId, lines: resolved });
+    }
+    return true;
+  });
+}
+
+// Per-document helpers: load the current row (or nothing, if deleted) and sync its entry
+
+export async function postInvoice(db: any, invoiceId: number, cache?: AccountCache) {
+  const [invoice] = await db.select().from(invoices).where(eq(invoices.id, invoiceId));
+  return syncPosting(db, "invoice", invoiceId, invoice ? invoicePosting(invoice) : null, cache);
+}
+
+export async function postPayment(db: any, paymentId: number, cache?: AccountCache) {
+  const [payment] = await db.select().from(payments).where(eq(payments.id, paymentId));
+  return syncPosting(db, "payment", paymentId, payment ? paymentPosting(payment) : null, cache);
+}
+
+export async function postCreditMemo(db: any, creditMemoId: number, cache?: AccountCache) {
+  const [memo] = await db.select().from(creditMemos).where(eq(creditMemos.id, creditMemoId));
+  return syncPosting(db, "credit_memo", creditMemoId, memo ? creditMemoPosting(memo) : null, cache);
+}
+
+export async function postBill(db: any, billId: number, cache?: AccountCache) {
+  const [bill] = await db.select().from(billsPayable).where(eq(billsPayable.id, billId));
+  const billChanged = await syncPosting(db, "bill", billId, bill ? billPosting(bill) : null, cache);
+  const paymentChanged = await syncPosting(db, "bill_payment", billId, bill ? billPaymentPosting(bill) : null, cache);
+  return billChanged || paymentChanged;
+}
+
+export async function postExpense(db: any, expenseId: number, cache?: AccountCache) {
+  const [expense] = await db.select().from(expenses).where(eq(expenses.id, expenseId));
+  return syncPosting(db, "expense", expenseId, expense ? expensePosting(expense) : null, cache);
+}
+
+export async function postBankTransaction(db: any, transactionId: number, cache?: AccountCache) {
+  const [transaction] = await db.select().from(bankTransactions).where(eq(bankTransactions.id, transactionId));
+  return syncPosting(db, "bank_transaction", transactionId, transaction ? bankTransactionPosting(transaction) : null, cache);
+}
+
+export interface LedgerSyncResult {
+  checked: number;
+  changed: number;
+}
+
+/**
+ * Re-derive every automatic posting from the source tables: backfills
+ * documents created before the ledger existed, reverses entries whose
+ * documents were deleted, and repairs anything changed outside the routers.
+ */
+export async function syncLedger(db: any): Promise<LedgerSyncResult> {
+  await ensureChartOfAccounts(db);
+  const cache: AccountCache = new Map();
+  const result: LedgerSyncResult = { checked: 0, changed: 0 };
+
+  const sources: Array<{ types: SourceType[]; ids: () => Promise<Array<{ id: number }>>; post: (db: any, id: number, cache: AccountCache) => Promise<boolean> }> = [
+    { types: ["invoice"], ids: () => db.select({ id: invoices.id }).from(invoices), post: postInvoice },
+    { types: ["payment"], ids: () => db.select({ id: payments.id }).from(payments), post: postPayment },
+    { types: ["credit_memo"], ids: () => db.select({ id: creditMemos.id }).from(creditMemos), post: postCreditMemo },
+    { types: ["bill", "bill_payment"], ids: () => db.select({ id: billsPayable.id }).from(billsPayable), post: postBill },
+    { types: ["expense"], ids: () => db.select({ id: expenses.id }).from(expenses), post: postExpense },
+    { types: ["bank_transaction"], ids: () => db.select({ id: bankTransactions.id }).from(bankTransactions), post: postBankTransaction },
+  ];
+
+  for (const source of sources) {
+    const ids = new Set((await source.ids()).map(row => row.id));
+
+    // Documents with an active entry but no longer in their table
+    const posted = await db.selectDistinct({ sourceId: journalEntries.sourceId })
+      .from(journalEntries)
+      .where(and(inArray(journalEntries.sourceType, source.types), isNull(journalEntries.reversesEntryId), isNull(journalEntries.reversedAt)));
+    for (const { sourceId } of posted) {
+      if (sourceId !== null) ids.add(sourceId);
+    }
+
+    for (const id of Array.from(ids)) {
+      result.checked++;
+      if (await source.post(db, id, cache)) result.changed++;
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Trial balance
+// ============================================================================
+
+export interface TrialBalanceRow {
+  accountId: number;
+  code: string;
+  name: string;
+  type: AccountType;
+  subtype: string | null;
+  debits: number; // Cents posted
+  credits: number;
+  balance: number; // Signed to the account's normal side (debit for assets and expenses)
+}
+
+const DEBIT_NORMAL: AccountType[] = ["asset", "expense"];
+
+export const normalBalance = (type: AccountType, debits: number, credits: number) =>
+  DEBIT_NORMAL.includes(type) ? debits - credits : credits - debits;
+
+/**
+ * Posted debits and credits per account through `asOf` (inclusive), optionally
+ * from `from`. Accounts with no activity are omitted.
+ */
+export async function getTrialBalance(db: any, options: { asOf?: Date; from?: Date } = {}) {
+  const conditions = [];
+  if (options.asOf) conditions.push(lte(journalEntries.entryDate, options.asOf));
+  if (options.from) conditions.push(sql`${journalEntries.entryDate} >= ${options.from}`);
+
+  const rows = await db.select({
+    accountId: ledgerAccounts.id,
+    code: ledgerAccounts.code,
+    name: ledgerAccounts.name,
+    type: ledgerAccounts.type,
+    subtype: ledgerAccounts.subtype,
+    debits: sql<number>`COALESCE(SUM(${journalLines.debit}), 0)::bigint`,
+    credits: sql<number>`COALESCE(SUM(${journalLines.credit}), 0)::bigint`,
+  })
+  .from(journalLines)
+  .innerJoin(journalEntries, eq(journalLines.entryId, journalEntries.id))
+  .innerJoin(ledgerAccounts, eq(journalLines.accountId, ledgerAccounts.id))
+  .where(conditions.length > 0 ? and(...conditions) : undefined)
+  .groupBy(ledgerAccounts.id)
+  .orderBy(ledgerAccounts.code);
+
+  const accounts: TrialBalanceRow[] = rows.map((row: Omit<TrialBalanceRow, "balance">) => {
+    const debits = Number(row.debits);
+    const credits = Number(row.credits);
+    return { ...row, debits, credits, balance: normalBalance(row.type, debits, credits) };
+  });
+
+  const totalDebits = accounts.reduce((sum, row) => sum + row.debits, 0);
+  const totalCredits = accounts.reduce((sum, row) => sum + row.credits, 0);
+
+  return { accounts, totalDebits, totalCredits, balanced: totalDebits === totalCredits };
+}
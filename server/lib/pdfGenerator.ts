@@ -1,5 +1,6 @@
 import PDFDocument from 'pdfkit';
 import { Readable } from 'stream';
+import type { FinancialStatement, StatementRow } from './financialStatements';
 
 interface ProposalData {
   // Customer Info
@@ -551,3 +552,176 @@ export async function generateProposalPDF(data: ProposalData): Promise<Buffer> {
   const generator = new ProposalPDFGenerator(data);
   return generator.generate();
 }
+
+interface StatementCompanyInfo {
+  companyName?: string;
+  companyAddress?: string;
+  companyPhone?: string;
+  companyEmail?: string;
+}
+
+/**
+ * Income statement, balance sheet or cash flow statement in the same
+ * letterhead as proposals, one amount column per reporting period.
+ */
+export class FinancialStatementPDFGenerator {
+  private doc: PDFKit.PDFDocument;
+  private statement: FinancialStatement;
+  private company: StatementCompanyInfo;
+
+  private readonly PRIMARY_COLOR = '#00d4aa';
+  private readonly TEXT_COLOR = '#334155';
+  private readonly LIGHT_GRAY = '#94a3b8';
+
+  private readonly LEFT = 50;
+  private readonly RIGHT = 562;
+  private readonly AMOUNT_WIDTH = 100;
+
+  constructor(statement: FinancialStatement, company: StatementCompanyInfo) {
+    this.statement = statement;
+    this.company = company;
+    this.doc = new PDFDocument({
+      size: 'LETTER',
+      margins: { top: 50, bottom: 50, left: 50, right: 50 },
+      bufferPages: true,
+    });
+  }
+
+  async generate(): Promise<Buffer> {
+    this.addHeader();
+    this.addColumnHeadings();
+
+    for (const section of this.statement.sections) {
+      this.ensureSpace(40);
+      this.doc.moveDown(0.6);
+      this.doc.fontSize(11).fillColor(this.PRIMARY_COLOR).font('Helvetica-Bold').text(section.title.toUpperCase(), this.LEFT);
+      this.doc.moveDown(0.2);
+
+      for (const row of section.rows) {
+        this.addRow(row, { indent: 12 });
+      }
+      this.addRow(section.total, { bold: true, ruleAbove: true });
+    }
+
+    this.doc.moveDown(0.8);
+    for (const row of this.statement.summary) {
+      this.addRow(row, { bold: true, ruleAbove: row === this.statement.summary[0] });
+    }
+
+    this.addFooter();
+    return this.finalize();
+  }
+
+  private addHeader() {
+    this.doc.fontSize(20).fillColor(this.PRIMARY_COLOR).font('Helvetica-Bold');
+    this.doc.text(this.company.companyName || 'NextDoor Exterior Solutions', { align: 'center' });
+
+    const contact = [this.company.companyAddress, this.company.companyPhone, this.company.companyEmail].filter(Boolean).join('  |  ');
+    if (contact) {
+      this.doc.fontSize(9).fillColor(this.LIGHT_GRAY).font('Helvetica').text(contact, { align: 'center' });
+    }
+
+    this.doc.moveDown(0.8);
+    this.doc.fontSize(16).fillColor(this.TEXT_COLOR).font('Helvetica-Bold');
+    this.doc.text(this.statement.title, { align: 'center' });
+    this.doc.fontSize(10).fillColor(this.LIGHT_GRAY).font('Helvetica');
+    this.doc.text(`${this.statement.columns[0].label}  \u2022  ${this.statement.basis === 'cash' ? 'Cash' : 'Accrual'} basis`, { align: 'center' });
+
+    this.doc.moveDown(1);
+    this.addLine();
+  }
+
+  private addColumnHeadings() {
+    this.doc.moveDown(0.5);
+    const y = this.doc.y;
+    this.doc.fontSize(9).fillColor(this.LIGHT_GRAY).font('Helvetica-Bold');
+    this.statement.columns.forEach((column, i) => {
+      this.doc.text(column.label, this.amountX(i), y, { width: this.AMOUNT_WIDTH, align: 'right' });
+    });
+    this.doc.x = this.LEFT;
+    this.doc.moveDown(0.5);
+  }
+
+  private addRow(row: StatementRow, options: { indent?: number; bold?: boolean; ruleAbove?: boolean } = {}) {
+    this.ensureSpace(20);
+
+    if (options.ruleAbove) {
+      const ruleY = this.doc.y;
+      this.doc.moveTo(this.amountX(0), ruleY).lineTo(this.RIGHT, ruleY).stroke(this.LIGHT_GRAY);
+      this.doc.moveDown(0.2);
+    }
+
+    const y = this.doc.y;
+    const labelX = this.LEFT + (options.indent ?? 0);
+    this.doc.fontSize(10).fillColor(this.TEXT_COLOR).font(options.bold ? 'Helvetica-Bold' : 'Helvetica');
+    this.doc.text(row.code ? `${row.code}  ${row.label}` : row.label, labelX, y, {
+      width: this.amountX(0) - labelX - 10,
+      lineBreak: false,
+      ellipsis: true,
+    });
+
+    row.amounts.forEach((amount, i) => {
+      this.doc.text(this.formatAmount(amount), this.amountX(i), y, { width: this.AMOUNT_WIDTH, align: 'right' });
+    });
+
+    this.doc.x = this.LEFT;
+    this.doc.y = y + 16;
+  }
+
+  private amountX(column: number) {
+    const count = this.statement.columns.length;
+    return this.RIGHT - (count - column) * this.AMOUNT_WIDTH;
+  }
+
+  private formatAmount(cents: number) {
+    const formatted = (Math.abs(cents) / 100).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    return cents < 0 ? `(${formatted})` : formatted;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.doc.y + height > this.doc.page.height - 80) {
+      this.doc.addPage();
+      this.addColumnHeadings();
+    }
+  }
+
+  private addLine() {
+    const y = this.doc.y;
+    this.doc.moveTo(this.LEFT, y).lineTo(this.RIGHT, y).stroke(this.LIGHT_GRAY);
+  }
+
+  private addFooter() {
+    const pages = this.doc.bufferedPageRange();
+    for (let i = 0; i < pages.count; i++) {
+      this.doc.switchToPage(i);
+      this.doc.page.margins.bottom = 0; // Writing inside the bottom margin would otherwise start a new page
+      this.doc.fontSize(8).fillColor(this.LIGHT_GRAY).font('Helvetica');
+      this.doc.text(
+        `Page ${i + 1} of ${pages.count}  \u2022  Generated on ${new Date().toLocaleDateString()}`,
+        this.LEFT,
+        this.doc.page.height - 40,
+        { align: 'center', lineBreak: false }
+      );
+    }
+  }
+
+  private finalize(): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+
+      this.doc.on('data', (chunk) => chunks.push(chunk));
+      this.doc.on('end', () => resolve(Buffer.concat(chunks)));
+      this.doc.on('error', reject);
+
+      this.doc.end();
+    });
+  }
+}
+
+/**
+ * Helper function to generate a financial statement PDF
+ */
+export async function generateFinancialStatementPDF(statement: FinancialStatement, company: StatementCompanyInfo): Promise<Buffer> {
+  const generator = new FinancialStatementPDFGenerator(statement, company);
+  return generator.generate();
+}
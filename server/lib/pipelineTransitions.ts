@@ -0,0 +1,211 @@
+/**
+ * Pipeline Transitions
+ *
+ * Declarative state machine for job status changes. Each transition lists the
+ * data it requires, the roles allowed to perform it, and the side effects that
+ * run once the move is accepted.
+ *
+ * Forward moves follow the sales/production pipeline; every stage may step back
+ * one stage to correct mistakes, and any open job can be marked closed_lost.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { statusEnum, type ReportRequest } from "../../drizzle/schema";
+import { normalizeRole, type CRMRole } from "./rbac";
+
+export type PipelineStatus = (typeof statusEnum.enumValues)[number];
+
+export type TransitionRequirement =
+  | "customerContact"
+  | "signedProposal"
+  | "depositPayment"
+  | "scheduledDate";
+
+export type TransitionEffect =
+  | "startLienRights"
+  | "markLienLegal"
+  | "notifyAssignee"
+  | "createInvoiceFollowUpTask"
+  | "createBillingSchedule"
+  | "billCompletionMilestone";
+
+export interface TransitionRule {
+  from: PipelineStatus;
+  to: PipelineStatus;
+  requires?: TransitionRequirement[];
+  roles?: CRMRole[]; // Normalized roles allowed to make this move (default: anyone who can edit the job)
+  effects?: TransitionEffect[];
+}
+
+/**
+ * Facts about a job used to evaluate requirements.
+ * Built by the caller so the evaluator stays free of database access.
+ */
+export interface TransitionFacts {
+  phone: string | null;
+  email: string | null;
+  scheduledDate: Date | null;
+  dealType: ReportRequest["dealType"];
+  amountPaid: number; // Cents
+  hasSignedProposal: boolean;
+}
+
+export interface MissingRequirement {
+  key: TransitionRequirement | "role" | "transition";
+  message: string;
+}
+
+export interface TransitionCheck {
+  allowed: boolean;
+  missing: MissingRequirement[];
+  effects: TransitionEffect[];
+}
+
+const OPEN_STAGES: PipelineStatus[] = [
+  "lead",
+  "appointment_set",
+  "prospect",
+  "approved",
+  "project_scheduled",
+  "completed",
+  "invoiced",
+];
+
+export const PIPELINE_TRANSITIONS: TransitionRule[] = [
+  // Forward moves
+  { from: "lead", to: "appointment_set" },
+  { from: "appointment_set", to: "prospect", requires: ["customerContact"] },
+  { from: "prospect", to: "approved", requires: ["customerContact", "signedProposal"], effects: ["createBillingSchedule"] },
+  { from: "approved", to: "project_scheduled", requires: ["customerContact", "depositPayment", "scheduledDate"], effects: ["notifyAssignee"] },
+  { from: "project_scheduled", to: "completed", requires: ["customerContact"], effects: ["startLienRights", "billCompletionMilestone", "notifyAssignee"] },
+  { from: "completed", to: "invoiced", requires: ["customerContact"], effects: ["createInvoiceFollowUpTask"] },
+  { from: "invoiced", to: "closed_deal", requires: ["customerContact"], roles: ["owner", "admin"], effects: ["notifyAssignee"] },
+  { from: "invoiced", to: "lien_legal", roles: ["owner", "admin"], effects: ["markLienLegal", "notifyAssignee"] },
+  { from: "completed", to: "lien_legal", roles: ["owner", "admin"], effects: ["markLienLegal", "notifyAssignee"] },
+
+  // Back-steps
+  { from: "appointment_set", to: "lead" },
+  { from: "prospect", to: "appointment_set" },
+  { from: "approved", to: "prospect" },
+  { from: "project_scheduled", to: "approved" },
+  { from: "completed", to: "project_scheduled", roles: ["owner", "admin"] },
+  { from: "invoiced", to: "completed", roles: ["owner", "admin"] },
+  { from: "lien_legal", to: "invoiced", roles: ["owner", "admin"] },
+  { from: "closed_deal", to: "invoiced", roles: ["owner", "admin"] },
+
+  // Losing and reopening deals
+  ...OPEN_STAGES.map((from): TransitionRule => ({ from, to: "closed_lost" })),
+  { from: "closed_lost", to: "lead" },
+];
+
+const REQUIREMENTS: Record<TransitionRequirement, { message: string; isMet: (facts: TransitionFacts) => boolean }> = {
+  customerContact: {
+    message: "Customer phone and email are required",
+    isMet: (facts) => !!facts.phone?.trim() && !!facts.email?.trim(),
+  },
+  signedProposal: {
+    message: "A signed proposal must be on file",
+    isMet: (facts) => facts.hasSignedProposal,
+  },
+  depositPayment: {
+    message: "A deposit payment must be recorded",
+    // Insurance jobs are funded by the carrier's first check, which is not always a recorded payment
+    isMet: (facts) => facts.dealType === "insurance" || facts.amountPaid > 0,
+  },
+  scheduledDate: {
+    message: "A scheduled date must be set",
+    isMet: (facts) => !!facts.scheduledDate,
+  },
+};
+
+const ROLE_LABELS: Record<CRMRole, string> = {
+  owner: "Owner",
+  admin: "Office Staff",
+  field_crew: "Field Crew",
+  team_lead: "Team Lead",
+  sales_rep: "Sales Rep",
+  office: "Office Staff",
+  project_manager: "Project Manager",
+  user: "User",
+};
+
+export function findTransition(from: PipelineStatus, to: PipelineStatus): TransitionRule | undefined {
+  return PIPELINE_TRANSITIONS.find(rule => rule.from === from && rule.to === to);
+}
+
+// Statuses reachable from the given status, regardless of requirements
+export function getNextStatuses(from: PipelineStatus): PipelineStatus[] {
+  return PIPELINE_TRANSITIONS.filter(rule => rule.from === from).map(rule => rule.to);
+}
+
+/**
+ * Evaluate a status change against the transition table.
+ * Returns every unmet requirement so the UI can show the full list at once.
+ */
+export function checkTransition(
+  from: PipelineStatus,
+  to: PipelineStatus,
+  userRole: string,
+  facts: TransitionFacts
+): TransitionCheck {
+  const rule = findTransition(from, to);
+  if (!rule) {
+    return {
+      allowed: false,
+      missing: [{ key: "transition", message: `Jobs cannot move from ${from} to ${to}` }],
+      effects: [],
+    };
+  }
+
+  const missing: MissingRequirement[] = [];
+
+  if (rule.roles && !rule.roles.includes(normalizeRole(userRole))) {
+    const roleNames = Array.from(new Set(rule.roles.map(role => ROLE_LABELS[role])));
+    missing.push({ key: "role", message: `Requires role: ${roleNames.join(" or ")}` });
+  }
+
+  for (const requirement of rule.requires || []) {
+    if (!REQUIREMENTS[requirement].isMet(facts)) {
+      missing.push({ key: requirement, message: REQUIREMENTS[requirement].message });
+    }
+  }
+
+  return { allowed: missing.length === 0, missing, effects: rule.effects || [] };
+}
+
+/**
+ * Typed error for rejected status changes.
+ * Attached as the cause of a TRPCError so the error formatter can expose the details to the client.
+ */
+export class PipelineTransitionError extends Error {
+  constructor(
+    public from: PipelineStatus,
+    public to: PipelineStatus,
+    public missing: MissingRequirement[]
+  ) {
+    super(`Cannot move job from ${from} to ${to}: ${missing.map(m => m.message).join("; ")}`);
+    this.name = "PipelineTransitionError";
+  }
+
+  toTRPCError(): TRPCError {
+    return new TRPCError({
+      code: this.missing.some(m => m.key === "role") ? "FORBIDDEN" : "PRECONDITION_FAILED",
+      message: this.message,
+      cause: this,
+    });
+  }
+}
+
+// Throws a PipelineTransitionError (wrapped for tRPC) when the move is not allowed
+export function assertTransition(
+  from: PipelineStatus,
+  to: PipelineStatus,
+  userRole: string,
+  facts: TransitionFacts
+): TransitionCheck {
+  const result = checkTransition(from, to, userRole, facts);
+  if (!result.allowed) {
+    throw new PipelineTransitionError(from, to, result.missing).toTRPCError();
+  }
+  return result;
+}
@@ -0,0 +1,159 @@
+/**
+ * Pipeline Workflow Helpers
+ *
+ * Database-backed companions to the transition table in pipelineTransitions.ts:
+ * loading the facts a transition is evaluated against, and running the side
+ * effects of an accepted transition.
+ */
+
+import { and, inArray, isNotNull } from "drizzle-orm";
+import { notifications, reportRequests, tasks, type ReportRequest } from "../../drizzle/schema";
+import { logEditHistory } from "./editHistory";
+import { createBillingSchedule, fireBillingTrigger } from "./billingSchedule";
+import type { PipelineStatus, TransitionEffect, TransitionFacts } from "./pipelineTransitions";
+
+const LIEN_RIGHTS_WINDOW_DAYS = 90;
+const INVOICE_FOLLOW_UP_DAYS = 7;
+
+// Returns the subset of job IDs whose proposal has been signed (see lib/proposalSigning);
+// an uploaded proposal PDF on its own doesn't count
+export async function getJobsWithSignedProposal(db: any, jobIds: number[]): Promise<Set<number>> {
+  if (jobIds.length === 0) return new Set();
+
+  const rows = await db.select({ jobId: reportRequests.id })
+    .from(reportRequests)
+    .where(and(
+      inArray(reportRequests.id, jobIds),
+      isNotNull(reportRequests.proposalSignedAt)
+    ));
+
+  return new Set(rows.map((row: { jobId: number }) => row.jobId));
+}
+
+export function buildTransitionFacts(
+  job: Pick<ReportRequest, "phone" | "email" | "scheduledDate" | "dealType" | "amountPaid">,
+  hasSignedProposal: boolean
+): TransitionFacts {
+  return {
+    phone: job.phone,
+    email: job.email,
+    scheduledDate: job.scheduledDate,
+    dealType: job.dealType,
+    amountPaid: job.amountPaid,
+    hasSignedProposal,
+  };
+}
+
+// Load facts for a single job, letting values submitted in the same update take precedence
+export async function loadTransitionFacts(
+  db: any,
+  job: ReportRequest,
+  pending: { phone?: string | null; email?: string | null; scheduledDate?: string } = {}
+): Promise<TransitionFacts> {
+  return buildTransitionFacts(
+    {
+      ...job,
+      phone: pending.phone !== undefined ? pending.phone : job.phone,
+      email: pending.email !== undefined ? pending.email : job.email,
+      scheduledDate: pending.scheduledDate ? new Date(pending.scheduledDate) : job.scheduledDate,
+    },
+    job.proposalSignedAt !== null
+  );
+}
+
+export interface TransitionEffectContext {
+  db: any;
+  job: ReportRequest;
+  to: PipelineStatus;
+  user: { id: number; name: string | null; email: string | null };
+  updateData: Record<string, unknown>; // Pending column updates for the job row
+  projectCompletedAt?: string | null;
+  ctx?: any;
+}
+
+type EffectHandler = (effect: TransitionEffectContext) => Promise<void>;
+
+const EFFECT_HANDLERS: Record<TransitionEffect, EffectHandler> = {
+  // Start the 90-day lien rights window from the completion date
+  startLienRights: async ({ db, job, user, updateData, projectCompletedAt, ctx }) => {
+    const completedAt = projectCompletedAt ? new Date(projectCompletedAt) : new Date();
+    const expiresAt = new Date(completedAt);
+    expiresAt.setDate(expiresAt.getDate() + LIEN_RIGHTS_WINDOW_DAYS);
+
+    updateData.projectCompletedAt = completedAt;
+    updateData.lienRightsExpiresAt = expiresAt;
+    updateData.lienRightsStatus = "active";
+
+    await logEditHistory(db, job.id, user.id, "projectCompletedAt", job.projectCompletedAt?.toISOString() || null, completedAt.toISOString(), "update", ctx);
+    await logEditHistory(db, job.id, user.id, "lienRightsStatus", job.lienRightsStatus || "not_applicable", "active", "update", ctx);
+  },
+
+  markLienLegal: async ({ db, job, user, updateData, ctx }) => {
+    updateData.lienRightsStatus = "legal";
+    await logEditHistory(db, job.id, user.id, "lienRightsStatus", job.lienRightsStatus || "not_applicable", "legal", "update", ctx);
+  },
+
+  // Let the assigned rep know when someone else moves their job
+  notifyAssignee: async ({ db, job, to, user }) => {
+    if (!job.assignedTo || job.assignedTo === user.id) return;
+
+    await db.insert(notifications).values({
+      userId: job.assignedTo,
+      createdBy: user.id,
+      resourceId: job.id,
+      type: "status_change",
+      content: `${user.name || user.email} moved ${job.fullName} to ${to.replace(/_/g, " ")}`,
+      isRead: false,
+    });
+  },
+
+  createInvoiceFollowUpTask: async ({ db, job, user }) => {
+    const dueDate = new Date();
+    dueDate.setDate(dueDate.getDate() + INVOICE_FOLLOW_UP_DAYS);
+
+    await db.insert(tasks).values({
+      jobId: job.id,
+      title: "Follow up on invoice payment",
+      description: `Confirm ${job.fullName} received the invoice and has a payment date.`,
+      assignedTo: job.assignedTo,
+      createdBy: user.id,
+      priority: "medium",
+      dueDate,
+    });
+  },
+
+  // Attach the deposit/progress/final schedule and draft the deposit invoice
+  createBillingSchedule: async ({ db, job, user }) => {
+    await createBillingSchedule(db, job, user.id);
+  },
+
+  // Draft the final invoice, folding in approved change orders
+  billCompletionMilestone: async ({ db, job, user }) => {
+    await fireBillingTrigger(db, job.id, "job_completed", user.id);
+  },
+};
+
+// Correct the completion date on a job that is already completed; the lien rights deadline moves with it
+export async function correctCompletionDate(
+  context: Omit<TransitionEffectContext, "to" | "projectCompletedAt">,
+  projectCompletedAt: string
+): Promise<void> {
+  const { db, job, user, updateData, ctx } = context;
+  const completedAt = new Date(projectCompletedAt);
+  if (job.projectCompletedAt?.getTime() === completedAt.getTime()) return;
+
+  const expiresAt = new Date(completedAt);
+  expiresAt.setDate(expiresAt.getDate() + LIEN_RIGHTS_WINDOW_DAYS);
+
+  updateData.projectCompletedAt = completedAt;
+  updateData.lienRightsExpiresAt = expiresAt;
+
+  await logEditHistory(db, job.id, user.id, "projectCompletedAt", job.projectCompletedAt?.toISOString() || null, completedAt.toISOString(), "update", ctx);
+}
+
+// Run the side effects of an accepted transition, in table order
+export async function runTransitionEffects(effects: TransitionEffect[], context: TransitionEffectContext): Promise<void> {
+  for (const effect of effects) {
+    await EFFECT_HANDLERS[effect](context);
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Customer Portal Authentication
+ *
+ * Customers reach their jobs through a signed magic link (one token per job,
+ * expiring and revocable) or by requesting a one-time code sent to the phone
+ * or email on file. Either way they end up with a portal session cookie that
+ * lists the token ids they hold; the router re-checks those rows on every
+ * request so revoking a token cuts off access immediately.
+ */
+
+import { createHash, randomInt, timingSafeEqual } from "crypto";
+import { SignJWT, jwtVerify } from "jose";
+
+export const PORTAL_SESSION_COOKIE = "portal_session";
+export const PORTAL_BASE_URL = process.env.PORTAL_BASE_URL || "https://ndespanels.com";
+
+export const MAGIC_LINK_TTL_MS = 1000 * 60 * 60 * 24 * 14; // 14 days
+export const CODE_SESSION_TTL_MS = 1000 * 60 * 60 * 24; // 24 hours
+export const LOGIN_CODE_TTL_MS = 1000 * 60 * 10; // 10 minutes
+export const MAX_CODE_ATTEMPTS = 5;
+
+const LINK_AUDIENCE = "portal-link";
+const SESSION_AUDIENCE = "portal-session";
+
+export type PortalContact =
+  | { type: "phone"; value: string }
+  | { type: "email"; value: string };
+
+function getSecretKey() {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) {
+    throw new Error("SUPABASE_JWT_SECRET is required to sign portal tokens");
+  }
+  return new TextEncoder().encode(secret);
+}
+
+/**
+ * Last 10 digits of a US phone number, or null if there aren't 10.
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  const digits = (phone || "").replace(/\D/g, "");
+  return digits.length >= 10 ? digits.slice(-10) : null;
+}
+
+/**
+ * Classify what the customer typed as an email or phone and normalize it so
+ * lookups are exact matches.
+ */
+export function normalizeContact(input: string): PortalContact | null {
+  const trimmed = input.trim();
+  if (trimmed.includes("@")) {
+    const email = trimmed.toLowerCase();
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? { type: "email", value: email } : null;
+  }
+  const phone = normalizePhone(trimmed);
+  return phone ? { type: "phone", value: phone } : null;
+}
+
+/**
+ * Mask a contact for display, e.g. "(***) ***-1234" or "d***@example.com".
+ */
+export function maskContact(contact: PortalContact): string {
+  if (contact.type === "phone") {
+    return `(***) ***-${contact.value.slice(-4)}`;
+  }
+  const [local, domain] = contact.value.split("@");
+  return `${local.charAt(0)}***@${domain}`;
+}
+
+export function generateLoginCode(): string {
+  return randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+/**
+ * Codes are stored hashed with the contact they were sent to, so a leaked
+ * row can't be replayed against another customer.
+ */
+export function hashLoginCode(contact: string, code: string): string {
+  return createHash("sha256").update(`${contact}:${code.trim()}`).digest("hex");
+}
+
+export function loginCodeMatches(contact: string, code: string, codeHash: string): boolean {
+  const candidate = Buffer.from(hashLoginCode(contact, code), "hex");
+  const stored = Buffer.from(codeHash, "hex");
+  return candidate.length === stored.length && timingSafeEqual(candidate, stored);
+}
+
+export async function signMagicLinkToken(payload: { tokenId: string; jobId: number }, expiresAt: Date): Promise<string> {
+  return new SignJWT({ jobId: payload.jobId })
+    .setProtectedHeader({ alg: "HS256", typ: "JWT" })
+    .setSubject(payload.tokenId)
+    .setAudience(LINK_AUDIENCE)
+    .setExpirationTime(Math.floor(expiresAt.getTime() / 1000))
+    .sign(getSecretKey());
+}
+
+export async function verifyMagicLinkToken(token: string): Promise<{ tokenId: string; jobId: number } | null> {
+  try {
+    const { payload } = await jwtVerify(token, getSecretKey(), {
+      algorithms: ["HS256"],
+      audience: LINK_AUDIENCE,
+    });
+    if (typeof payload.sub !== "string" || typeof payload.jobId !== "number") return null;
+    return { tokenId: payload.sub, jobId: payload.jobId };
+  } catch {
+    return null;
+  }
+}
+
+export async function signPortalSession(tokenIds: string[], expiresAt: Date): Promise<string> {
+  return new SignJWT({ tokenIds })
+    .setProtectedHeader({ alg: "HS256", typ: "JWT" })
+    .setAudience(SESSION_AUDIENCE)
+    .setExpirationTime(Math.floor(expiresAt.getTime() / 1000))
+    .sign(getSecretKey());
+}
+
+/**
+ * Token ids held by the session cookie, or an empty list if it is missing,
+ * tampered with or expired.
+ */
+export async function verifyPortalSession(cookieValue: string | undefined): Promise<string[]> {
+  if (!cookieValue) return [];
+  try {
+    const { payload } = await jwtVerify(cookieValue, getSecretKey(), {
+      algorithms: ["HS256"],
+      audience: SESSION_AUDIENCE,
+    });
+    const tokenIds = payload.tokenIds;
+    return Array.isArray(tokenIds) ? tokenIds.filter((id): id is string => typeof id === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Fixed-window in-memory limiter for unauthenticated portal endpoints, keyed
+ * by client IP. Per-contact and per-job limits are enforced from the database
+ * so they hold across server restarts.
+ */
+export function createRateLimiter(options: { max: number; windowMs: number }) {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    /** Returns false once the key has used up its window. */
+    hit(key: string, now = Date.now()): boolean {
+      const current = windows.get(key);
+      if (!current || current.resetAt <= now) {
+        if (windows.size > 10_000) {
+          windows.forEach((window, windowKey) => {
+            if (window.resetAt <= now) windows.delete(windowKey);
+          });
+        }
+        windows.set(key, { count: 1, resetAt: now + options.windowMs });
+        return true;
+      }
+      current.count += 1;
+      return current.count <= options.max;
+    },
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Proposal Signing
+ *
+ * Shared by proposals.generateSignedProposal (signed in person on a rep's
+ * device) and portal.signProposal (signed by the homeowner online). Both
+ * produce the same PDF and document record and stamp the job with the
+ * signature audit trail.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { eq } from "drizzle-orm";
+import { reportRequests, documents, type ReportRequest } from "../../drizzle/schema";
+import { supabaseAdmin } from "./supabase";
+
+const PROPOSAL_VALID_DAYS = 30;
+
+export interface SignatureAudit {
+  ipAddress: string | null;
+  userAgent: string | null;
+  signedVia: "in_person" | "portal";
+}
+
+/**
+ * Fields for the proposal PDF templates, with the signature when there is one.
+ */
+export function buildProposalData(
+  job: ReportRequest,
+  signature?: { customerSignature: string; signatureDate: Date }
+) {
+  // Calculate roof squares
+  const roofSqFt = (job.solarApiData as any)?.totalArea || job.manualAreaSqFt || 0;
+
+  return {
+    customerName: job.fullName,
+    customerEmail: job.email || undefined,
+    customerPhone: job.phone || undefined,
+    propertyAddress: job.address,
+    cityStateZip: job.cityStateZip,
+    totalPrice: parseFloat(job.totalPrice || '0'),
+    pricePerSq: parseFloat(job.pricePerSq || '0'),
+    roofSquares: roofSqFt / 100,
+    dealType: (job.dealType || 'cash') as 'insurance' | 'cash' | 'financed',
+    insuranceCarrier: job.insuranceCarrier || undefined,
+    claimNumber: job.claimNumber || undefined,
+    proposalDate: new Date(),
+    validUntil: new Date(Date.now() + PROPOSAL_VALID_DAYS * 24 * 60 * 60 * 1000),
+    ...signature,
+  };
+}
+
+export function assertProposalApproved(job: ReportRequest) {
+  if (job.priceStatus !== 'approved') {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Proposal must be approved before generating PDF',
+    });
+  }
+}
+
+/**
+ * Unsigned proposal PDF for preview before signing.
+ */
+export async function generateProposalPreview(job: ReportRequest): Promise<Buffer> {
+  assertProposalApproved(job);
+  const { generateProposalPDF } = await import('./pdfFormFiller');
+  return generateProposalPDF(buildProposalData(job));
+}
+
+/**
+ * Render the signed proposal, store it in the private 'documents' bucket,
+ * record it on the job and stamp who signed, when, and from where.
+ */
+export async function createSignedProposal(
+  db: any,
+  job: ReportRequest,
+  params: { customerSignature: string; uploadedBy: number | null; audit: SignatureAudit }
+) {
+  assertProposalApproved(job);
+
+  const signatureDate = new Date();
+  const { generateProposalPDF } = await import('./pdfTemplateGenerator');
+  const pdfBuffer = await generateProposalPDF(
+    buildProposalData(job, { customerSignature: params.customerSignature, signatureDate })
+  );
+
+  // Organize by job ID with customer name in filename
+  const safeCustomerName = job.fullName.replace(/[^a-zA-Z0-9\s-]/g, '').replace(/\s+/g, '_');
+  const fileName = `job-${job.id}/Proposal - ${safeCustomerName}.pdf`;
+  const { error: uploadError } = await supabaseAdmin.storage
+    .from('documents')
+    .upload(fileName, pdfBuffer, {
+      contentType: 'application/pdf',
+      upsert: false,
+    });
+
+  if (uploadError) throw uploadError;
+
+  // Get signed URL for private access (valid for 1 year)
+  const { data: signedUrlData, error: signedUrlError } = await supabaseAdmin.storage
+    .from('documents')
+    .createSignedUrl(fileName, 365 * 24 * 60 * 60);
+
+  if (signedUrlError) throw signedUrlError;
+  const fileUrl = signedUrlData.signedUrl;
+
+  const [document] = await db.insert(documents).values({
+    reportRequestId: job.id,
+    fileName,
+    fileUrl,
+    fileType: 'application/pdf',
+    category: 'proposal',
+    uploadedBy: params.uploadedBy,
+  }).returning({ id: documents.id });
+
+  await db.update(reportRequests)
+    .set({
+      proposalSignedAt: signatureDate,
+      proposalSignedIp: params.audit.ipAddress,
+      proposalSignedUserAgent: params.audit.userAgent,
+      proposalSignedVia: params.audit.signedVia,
+      proposalSignedDocumentId: document.id,
+      updatedAt: new Date(),
+    })
+    .where(eq(reportRequests.id, job.id));
+
+  return { documentId: document.id as number, fileUrl, signatureDate };
+}
@@ -1,4 +1,6 @@
-import { SafeUser, ReportRequest } from "../../drizzle/schema";
+import { TRPCError } from "@trpc/server";
+import { eq } from "drizzle-orm";
+import { SafeUser, ReportRequest, reportRequests, users } from "../../drizzle/schema";
 
 /**
  * Role hierarchy and permissions for NextDoor CRM
@@ -102,6 +104,17 @@ export function canViewJob(user: SafeUser | null, job: ReportRequest, teamMember
   return false;
 }
 
+// Whose jobs can the user view? For filtering job lists in SQL; mirrors canViewJob
+export function viewableJobAssignees(user: SafeUser | null, teamMemberIds: number[] = []): number[] | "all" {
+  if (!user) return [];
+
+  const role = normalizeRole(user.role);
+  if (role === "owner" || role === "admin") return "all";
+  if (role === "team_lead") return [user.id, ...teamMemberIds];
+  if (role === "field_crew" || role === "sales_rep") return [user.id];
+  return [];
+}
+
 // Can user edit a specific job?
 export function canEditJob(user: SafeUser | null, job: ReportRequest, teamMemberIds: number[] = []): boolean {
   if (!user) return false;
@@ -234,15 +247,32 @@ export function getRoleBadgeColor(role: string): string {
 
 // Helper to get team member IDs for a team lead
 export async function getTeamMemberIds(db: any, teamLeadId: number): Promise<number[]> {
-  const { users } = await import("../../drizzle/schema");
-  const { eq } = await import("drizzle-orm");
-  
   const teamMembers = await db.select({ id: users.id })
     .from(users)
     .where(eq(users.teamLeadId, teamLeadId));
   return teamMembers.map((m: any) => m.id);
 }
 
+// Load a job and verify the user can view (or edit) it; throws UNAUTHORIZED / NOT_FOUND / FORBIDDEN
+export async function getAuthorizedJob(db: any, user: SafeUser | null, jobId: number, mode: "view" | "edit"): Promise<ReportRequest> {
+  if (!user) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "Not signed in" });
+  }
+
+  const [job] = await db.select().from(reportRequests).where(eq(reportRequests.id, jobId));
+  if (!job) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
+  }
+
+  const teamMemberIds = isTeamLead(user) ? await getTeamMemberIds(db, user.id) : [];
+  const allowed = mode === "edit" ? canEditJob(user, job, teamMemberIds) : canViewJob(user, job, teamMemberIds);
+  if (!allowed) {
+    throw new TRPCError({ code: "FORBIDDEN", message: `You don't have permission to ${mode} this job` });
+  }
+
+  return job;
+}
+
 // Helper to filter leads based on user role
 export async function filterLeadsByRole(db: any, user: any, leads: any[]): Promise<any[]> {
   if (!user) return [];
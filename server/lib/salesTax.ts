@@ -0,0 +1,254 @@
+/**
+ * Sales Tax
+ *
+ * Florida charges the state rate plus the discretionary sales surtax of the
+ * county where the work is delivered, and the surtax only applies to the
+ * first $5,000 of each item. Rates live in salesTaxRates, one row per county,
+ * and a job finds its county by the ZIP code in its address (or the county
+ * picked on the job when the ZIP isn't in the table or straddles a line).
+ *
+ * Whether an invoice is taxed at all depends on the job's contract:
+ *   lump_sum        the roofer is the end consumer of the materials and pays
+ *                   tax when buying them, so the customer's invoice is untaxed
+ *   retail_install  materials are sold to the customer and taxed per line
+ *                   (invoiceItems.taxable); installation labor is not
+ *   exempt          the customer holds an exemption certificate
+ *
+ * The calculated breakdown is stored on the invoice (invoices.taxBreakdown)
+ * so the liability report reflects the rates in force when it was billed.
+ * All amounts are cents; rates are percents.
+ */
+
+import { and, asc, eq, gte, inArray, lte } from "drizzle-orm";
+import {
+  invoiceItems,
+  invoices,
+  reportRequests,
+  salesTaxRates,
+  salesTaxZipCodes,
+  type Invoice,
+  type ReportRequest,
+  type SalesTaxBreakdown,
+  type SalesTaxRate,
+} from "../../drizzle/schema";
+import { postInvoice } from "./ledger";
+
+export type TaxTreatment = ReportRequest["taxTreatment"];
+
+export type TaxRateInput = Pick<SalesTaxRate, "id" | "state" | "county" | "stateRate" | "surtaxRate" | "surtaxCap">;
+
+export interface TaxableLine {
+  totalPrice: number;
+  taxable: boolean;
+}
+
+/**
+ * The 5-digit ZIP from a job's "City, ST 12345" line, falling back to the
+ * last ZIP-shaped number in the street address.
+ */
+export function zipFromAddress(cityStateZip: string | null | undefined, address?: string | null): string | null {
+  for (const text of [cityStateZip, address]) {
+    const matches = Array.from((text || "").matchAll(/\b(\d{5})(?:-\d{4})?\b/g));
+    if (matches.length > 0) return matches[matches.length - 1][1];
+  }
+  return null;
+}
+
+export function calculateSalesTax(
+  lines: TaxableLine[],
+  rate: TaxRateInput | null,
+  treatment: TaxTreatment,
+  zipCode: string | null = null
+): Omit<SalesTaxBreakdown, "calculatedAt"> {
+  const subtotal = lines.reduce((sum, line) => sum + line.totalPrice, 0);
+  const taxedLines = treatment === "retail_install" && rate ? lines.filter(line => line.taxable) : [];
+
+  // Credits on taxable lines reduce the taxable amount; the cap applies per item
+  const taxableAmount = Math.max(0, taxedLines.reduce((sum, line) => sum + line.totalPrice, 0));
+  const surtaxableAmount = Math.max(0, taxedLines.reduce(
+    (sum, line) => sum + (rate?.surtaxCap != null && line.totalPrice > rate.surtaxCap ? rate.surtaxCap : line.totalPrice),
+    0
+  ));
+
+  const stateRate = rate ? parseFloat(rate.stateRate) : 0;
+  const surtaxRate = rate ? parseFloat(rate.surtaxRate) : 0;
+
+  return {
+    treatment,
+    rateId: rate?.id ?? null,
+    county: rate?.county ?? null,
+    state: rate?.state ?? null,
+    zipCode,
+    stateRate,
+    surtaxRate,
+    taxableAmount,
+    exemptAmount: subtotal - taxableAmount,
+    surtaxableAmount,
+    stateTax: Math.round(taxableAmount * stateRate / 100),
+    surtax: Math.round(surtaxableAmount * surtaxRate / 100),
+  };
+}
+
+/**
+ * The rate for a job: the county picked on the job, otherwise the active
+ * county whose ZIP list has the job's ZIP.
+ */
+export async function findJobTaxRate(
+  db: any,
+  job: Pick<ReportRequest, "salesTaxRateId" | "cityStateZip" | "address">
+): Promise<{ rate: SalesTaxRate | null; zipCode: string | null }> {
+  const zipCode = zipFromAddress(job.cityStateZip, job.address);
+
+  if (job.salesTaxRateId) {
+    const [rate] = await db.select().from(salesTaxRates).where(eq(salesTaxRates.id, job.salesTaxRateId));
+    if (rate) return { rate, zipCode };
+  }
+
+  if (!zipCode) return { rate: null, zipCode };
+
+  const [match] = await db
+    .select({ rate: salesTaxRates })
+    .from(salesTaxZipCodes)
+    .innerJoin(salesTaxRates, eq(salesTaxZipCodes.rateId, salesTaxRates.id))
+    .where(and(eq(salesTaxZipCodes.zipCode, zipCode), eq(salesTaxRates.isActive, true)));
+
+  return { rate: match?.rate ?? null, zipCode };
+}
+
+/**
+ * Recalculate an invoice's tax from its line items and its job, store the
+ * breakdown and re-post it to the ledger. Invoices without a job keep
+ * whatever tax was entered on them.
+ */
+export async function applySalesTax(db: any, invoiceId: number): Promise<Invoice | null> {
+  const [invoice]: Invoice[] = await db.select().from(invoices).where(eq(invoices.id, invoiceId));
+  if (!invoice?.reportRequestId) return invoice ?? null;
+
+  const [job] = await db.select().from(reportRequests).where(eq(reportRequests.id, invoice.reportRequestId));
+  if (!job) return invoice;
+
+  const lines = await db
+    .select({ totalPrice: invoiceItems.totalPrice, taxable: invoiceItems.taxable })
+    .from(invoiceItems)
+    .where(eq(invoiceItems.invoiceId, invoiceId));
+
+  const { rate, zipCode } = await findJobTaxRate(db, job);
+  const breakdown: SalesTaxBreakdown = {
+    ...calculateSalesTax(lines, rate, job.taxTreatment, zipCode),
+    calculatedAt: new Date().toISOString(),
+  };
+  const taxAmount = breakdown.stateTax + breakdown.surtax;
+
+  const [updated] = await db.update(invoices)
+    .set({ taxAmount, totalAmount: invoice.amount + taxAmount, taxBreakdown: breakdown, updatedAt: new Date() })
+    .where(eq(invoices.id, invoiceId))
+    .returning();
+
+  await postInvoice(db, invoiceId);
+  return updated;
+}
+
+/**
+ * Re-tax a job's draft invoices after its treatment or county changes.
+ * Sent invoices are what the customer was billed and are left alone.
+ */
+export async function applySalesTaxToDrafts(db: any, jobId: number): Promise<number> {
+  const drafts = await db
+    .select({ id: invoices.id })
+    .from(invoices)
+    .where(and(eq(invoices.reportRequestId, jobId), eq(invoices.status, "draft")));
+
+  for (const draft of drafts) {
+    await applySalesTax(db, draft.id);
+  }
+  return drafts.length;
+}
+
+export interface SalesTaxLiabilityRow {
+  state: string | null;
+  county: string | null; // null: tax entered by hand, no county on record
+  invoiceCount: number;
+  grossSales: number;
+  taxableSales: number;
+  exemptSales: number;
+  stateTax: number;
+  surtax: number;
+  totalTax: number;
+}
+
+type LiabilityInvoice = Pick<Invoice, "amount" | "taxAmount" | "taxBreakdown">;
+
+export function summarizeSalesTaxLiability(rows: LiabilityInvoice[]) {
+  const byCounty = new Map<string, SalesTaxLiabilityRow>();
+
+  for (const invoice of rows) {
+    const breakdown = invoice.taxBreakdown;
+    const key = breakdown?.county ? `${breakdown.state}|${breakdown.county}` : "";
+    const row = byCounty.get(key) ?? {
+      state: breakdown?.county ? breakdown.state : null,
+      county: breakdown?.county ?? null,
+      invoiceCount: 0,
+      grossSales: 0,
+      taxableSales: 0,
+      exemptSales: 0,
+      stateTax: 0,
+      surtax: 0,
+      totalTax: 0,
+    };
+
+    row.invoiceCount += 1;
+    row.grossSales += invoice.amount;
+    if (breakdown) {
+      row.taxableSales += breakdown.taxableAmount;
+      row.exemptSales += breakdown.exemptAmount;
+      row.stateTax += breakdown.stateTax;
+      row.surtax += breakdown.surtax;
+    } else if (invoice.taxAmount > 0) {
+      row.taxableSales += invoice.amount;
+    } else {
+      row.exemptSales += invoice.amount;
+    }
+    row.totalTax += invoice.taxAmount;
+    byCounty.set(key, row);
+  }
+
+  const counties = Array.from(byCounty.values()).sort((a, b) => {
+    if (!a.county) return 1;
+    if (!b.county) return -1;
+    return `${a.state} ${a.county}`.localeCompare(`${b.state} ${b.county}`);
+  });
+
+  const totals = counties.reduce(
+    (sum, row) => ({
+      invoiceCount: sum.invoiceCount + row.invoiceCount,
+      grossSales: sum.grossSales + row.grossSales,
+      taxableSales: sum.taxableSales + row.taxableSales,
+      exemptSales: sum.exemptSales + row.exemptSales,
+      stateTax: sum.stateTax + row.stateTax,
+      surtax: sum.surtax + row.surtax,
+      totalTax: sum.totalTax + row.totalTax,
+    }),
+    { invoiceCount: 0, grossSales: 0, taxableSales: 0, exemptSales: 0, stateTax: 0, surtax: 0, totalTax: 0 }
+  );
+
+  return { counties, totals };
+}
+
+/**
+ * Tax collected by county for a filing period, from invoices dated in the
+ * period that have gone to the customer (drafts and cancelled invoices are
+ * not sales).
+ */
+export async function getSalesTaxLiability(db: any, options: { startDate: Date; endDate: Date }) {
+  const rows = await db
+    .select({ amount: invoices.amount, taxAmount: invoices.taxAmount, taxBreakdown: invoices.taxBreakdown })
+    .from(invoices)
+    .where(and(
+      inArray(invoices.status, ["sent", "paid", "overdue"]),
+      gte(invoices.invoiceDate, options.startDate),
+      lte(invoices.invoiceDate, options.endDate)
+    ))
+    .orderBy(asc(invoices.invoiceDate));
+
+  return summarizeSalesTaxLiability(rows);
+}
@@ -0,0 +1,80 @@
+/**
+ * Scheduled Jobs
+ *
+ * Every recurring job the server runs, in one place. To add one, write a plain
+ * async function of the database and register it here with a cron schedule;
+ * the scheduler creates its row on the next start. Whatever the function
+ * returns is stored on the run record and shown on the Scheduled Jobs page,
+ * and throwing marks the run failed and schedules a retry.
+ */
+
+import { sendLienRightsAlertNotification } from "../lienRightsNotification";
+import { suggestMatches } from "./bankMatcher";
+import { sendBudgetAlerts } from "./budgets";
+import { applyCategorizationRules } from "./categorizationRules";
+import { importEstimatorLeads } from "./estimatorApi";
+import { runInvoiceReminderSweep } from "./invoiceReminders";
+import { syncLedger } from "./ledger";
+import { PORTAL_BASE_URL } from "./portalAuth";
+import type { ScheduledJobDefinition } from "./scheduler";
+import { categorizeTransactions } from "./transactionCategorizer";
+
+export const SCHEDULED_JOBS: ScheduledJobDefinition[] = [
+  {
+    name: "invoice-reminders",
+    description: "Mark past-due invoices overdue and send payment reminders",
+    schedule: "0 * * * *",
+    run: db => runInvoiceReminderSweep(db),
+  },
+  {
+    name: "lien-rights-alerts",
+    description: "Email admins about jobs whose lien rights expire within 30 days",
+    schedule: "0 8 * * *",
+    run: async () => {
+      const result = await sendLienRightsAlertNotification(`${PORTAL_BASE_URL}/crm`);
+      if (!result.success) throw new Error(result.error || "Lien rights alert failed");
+      return { warningCount: result.warningCount, criticalCount: result.criticalCount, notified: result.notifiedAdmins.length };
+    },
+  },
+  {
+    name: "bank-transaction-categorization",
+    description: "Categorize newly imported bank transactions by rule, then with AI",
+    schedule: "*/30 * * * *",
+    run: async db => {
+      const ruled = await applyCategorizationRules(db);
+      if (!process.env.GEMINI_API_KEY) return { ruled: ruled.length, skipped: "GEMINI_API_KEY is not set" };
+      const categorized = await categorizeTransactions(db, { limit: 50, recategorize: false });
+      return { ruled: ruled.length, categorized: categorized.length };
+    },
+  },
+  {
+    name: "bank-matching",
+    description: "Match pending bank transactions to payments, invoices, bills and expenses",
+    schedule: "45 * * * *",
+    run: db => suggestMatches(db),
+  },
+  {
+    name: "budget-alerts",
+    description: "Email the owner when a category passes 90% of this month's budget",
+    schedule: "0 7 * * *",
+    run: db => sendBudgetAlerts(db),
+  },
+  {
+    name: "estimator-import",
+    description: "Pull new leads from the public estimator",
+    schedule: "15 */2 * * *",
+    run: async db => {
+      const baseUrl = process.env.ESTIMATOR_URL;
+      if (!baseUrl) return { skipped: "ESTIMATOR_URL is not set" };
+      const result = await importEstimatorLeads(db, baseUrl, process.env.ESTIMATOR_SESSION_COOKIE);
+      return { ...result, errors: result.errors.slice(0, 20) };
+    },
+  },
+  {
+    name: "ledger-sync",
+    description: "Re-check every invoice, payment, bill, expense and bank posting against the general ledger",
+    schedule: "30 2 * * *",
+    timeoutMs: 30 * 60 * 1000,
+    run: db => syncLedger(db),
+  },
+];
@@ -0,0 +1,277 @@
+/**
+ * Background Scheduler
+ *
+ * Runs recurring server work inside the web process. Jobs are plain async
+ * functions registered in scheduledJobs.ts; their schedules, locks and
+ * history live in Postgres so that:
+ *   - only one instance runs a job at a time (the claim is a single
+ *     conditional UPDATE, and the lock expires if an instance dies mid-run;
+ *     a job that overruns its timeout keeps the lock until it really stops),
+ *   - a restart picks up where the last process left off instead of firing
+ *     everything again,
+ *   - failures are retried with exponential backoff before the job waits for
+ *     its next scheduled time, and every attempt is kept as a run record.
+ *
+ * The polling loop that drives this lives in server/_core/scheduler.ts.
+ */
+
+import { hostname } from "os";
+import { and, desc, eq, isNull, lte, lt, or } from "drizzle-orm";
+import { scheduledJobRuns, scheduledJobs, type ScheduledJob, type ScheduledJobRun } from "../../drizzle/schema";
+import { nextCronRun, parseCron } from "./cron";
+
+export interface ScheduledJobDefinition {
+  name: string;
+  description: string;
+  schedule: string; // Cron expression, server local time
+  maxAttempts?: number; // Including the first; defaults to 3
+  timeoutMs?: number; // Defaults to 10 minutes
+  run: (db: any, signal: AbortSignal) => Promise<unknown>; // signal is aborted on timeout
+}
+
+export type RunTrigger = "schedule" | "retry" | "manual";
+
+export interface JobRunOutcome {
+  runId: number;
+  status: "succeeded" | "failed";
+  durationMs: number;
+  result?: unknown;
+  error?: string;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const LOCK_GRACE_MS = 60 * 1000;
+
+export const INSTANCE_ID = `${hostname()}:${process.pid}`;
+
+/**
+ * Delay before retry number `attempt` (1 = first retry): 1, 2, 4, 8... minutes, capped at an hour.
+ */
+export function retryDelayMs(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * When to run next after a failed attempt: back off and retry while attempts
+ * remain, otherwise give up until the next scheduled time.
+ */
+export function planAfterFailure(
+  definition: Pick<ScheduledJobDefinition, "schedule" | "maxAttempts">,
+  attempt: number,
+  now: Date
+): { nextRunAt: Date; retryAttempt: number } {
+  const maxAttempts = definition.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  if (attempt < maxAttempts) {
+    return { nextRunAt: new Date(now.getTime() + retryDelayMs(attempt)), retryAttempt: attempt };
+  }
+  return { nextRunAt: nextCronRun(definition.schedule, now), retryAttempt: 0 };
+}
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+/**
+ * Run a job against a deadline. `outcome` rejects when the deadline passes
+ * (aborting `signal`), but a job that ignores the signal keeps going;
+ * `settled` resolves only once it has actually finished.
+ */
+export function runWithDeadline<T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  name: string
+): { outcome: Promise<T>; settled: Promise<void>; signal: AbortSignal } {
+  const controller = new AbortController();
+  const job = Promise.resolve().then(() => run(controller.signal));
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`${name} timed out after ${Math.round(timeoutMs / 1000)}s`);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  return {
+    outcome: Promise.race([job, timeout]).finally(() => clearTimeout(timer)),
+    settled: job.then(() => undefined, () => undefined),
+    signal: controller.signal,
+  };
+}
+
+/**
+ * Keep renewing a timed-out job's lock until it finishes, so no instance
+ * starts a second copy alongside it, then release the lock.
+ */
+function holdLockUntilSettled(db: any, name: string, settled: Promise<void>) {
+  const ours = and(eq(scheduledJobs.name, name), eq(scheduledJobs.lockedBy, INSTANCE_ID));
+  const renew = setInterval(() => {
+    db.update(scheduledJobs)
+      .set({ lockedUntil: new Date(Date.now() + LOCK_GRACE_MS) })
+      .where(ours)
+      .catch((err: unknown) => console.error(`[Scheduler] Could not renew the lock on ${name}:`, err));
+  }, LOCK_GRACE_MS / 2);
+  renew.unref();
+
+  settled
+    .then(() => {
+      clearInterval(renew);
+      return db.update(scheduledJobs).set({ lockedBy: null, lockedUntil: null }).where(ours);
+    })
+    .catch((err: unknown) => console.error(`[Scheduler] Could not release the lock on ${name}:`, err));
+}
+
+/**
+ * Make sure every registered job has a row, and pick up schedule changes made
+ * in code. Rows for jobs no longer registered are left alone (with their
+ * history) and simply never claimed.
+ */
+export async function syncScheduledJobs(db: any, definitions: ScheduledJobDefinition[], now = new Date()) {
+  const existing: ScheduledJob[] = await db.select().from(scheduledJobs);
+
+  for (const definition of definitions) {
+    parseCron(definition.schedule); // Fail loudly on a bad expression at startup
+    const row = existing.find(job => job.name === definition.name);
+
+    if (!row) {
+      await db.insert(scheduledJobs)
+        .values({ name: definition.name, schedule: definition.schedule, nextRunAt: nextCronRun(definition.schedule, now) })
+        .onConflictDoNothing();
+    } else if (row.schedule !== definition.schedule) {
+      await db.update(scheduledJobs)
+        .set({ schedule: definition.schedule, nextRunAt: nextCronRun(definition.schedule, now), retryAttempt: 0, updatedAt: now })
+        .where(eq(scheduledJobs.name, definition.name));
+    }
+  }
+}
+
+/**
+ * Take the job's lock. Scheduled runs also require the job to be enabled and
+ * due; manual runs only require that nobody else is running it.
+ */
+async function claimJob(db: any, definition: ScheduledJobDefinition, now: Date, manual: boolean): Promise<ScheduledJob | null> {
+  const timeoutMs = definition.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const unlocked = or(isNull(scheduledJobs.lockedUntil), lt(scheduledJobs.lockedUntil, now));
+
+  const [claimed] = await db.update(scheduledJobs)
+    .set({ lockedBy: INSTANCE_ID, lockedUntil: new Date(now.getTime() + timeoutMs + LOCK_GRACE_MS) })
+    .where(manual
+      ? and(eq(scheduledJobs.name, definition.name), unlocked)
+      : and(eq(scheduledJobs.name, definition.name), eq(scheduledJobs.enabled, true), lte(scheduledJobs.nextRunAt, now), unlocked))
+    .returning();
+
+  return claimed ?? null;
+}
+
+/**
+ * Claim and run one job, recording the run and scheduling the next one.
+ * Returns null when the job wasn't claimed (not due, or locked elsewhere).
+ */
+export async function executeJob(
+  db: any,
+  definition: ScheduledJobDefinition,
+  options: { manual?: boolean; triggeredBy?: number | null; now?: Date } = {}
+): Promise<JobRunOutcome | null> {
+  const manual = options.manual ?? false;
+  const claimed = await claimJob(db, definition, options.now ?? new Date(), manual);
+  if (!claimed) return null;
+
+  const attempt = manual ? 1 : claimed.retryAttempt + 1;
+  const trigger: RunTrigger = manual ? "manual" : claimed.retryAttempt > 0 ? "retry" : "schedule";
+  const startedAt = new Date();
+
+  const [run] = await db.insert(scheduledJobRuns)
+    .values({
+      jobName: definition.name,
+      attempt,
+      trigger,
+      triggeredBy: options.triggeredBy ?? null,
+      instance: INSTANCE_ID,
+      startedAt,
+    })
+    .returning({ id: scheduledJobRuns.id });
+
+  const { outcome, settled, signal } = runWithDeadline(
+    jobSignal => definition.run(db, jobSignal),
+    definition.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    definition.name
+  );
+
+  let result: unknown;
+  let error: string | undefined;
+  try {
+    result = await outcome;
+  } catch (err) {
+    error = errorMessage(err);
+  }
+
+  const finishedAt = new Date();
+  const durationMs = finishedAt.getTime() - startedAt.getTime();
+  const status = error === undefined ? "succeeded" : "failed";
+
+  await db.update(scheduledJobRuns)
+    .set({ status, finishedAt, durationMs, result: result ?? null, error: error ?? null })
+    .where(eq(scheduledJobRuns.id, run.id));
+
+  // A manual run doesn't move the schedule or start a retry sequence
+  let next: { nextRunAt?: Date; retryAttempt?: number } = {};
+  if (!manual) {
+    next = status === "succeeded"
+      ? { nextRunAt: nextCronRun(definition.schedule, finishedAt), retryAttempt: 0 }
+      : planAfterFailure(definition, attempt, finishedAt);
+  }
+
+  // A timed-out job may still be running; its lock is released when it stops
+  const timedOut = signal.aborted;
+  await db.update(scheduledJobs)
+    .set({
+      ...next,
+      ...(timedOut ? {} : { lockedBy: null, lockedUntil: null }),
+      lastRunAt: startedAt,
+      lastStatus: status,
+      lastDurationMs: durationMs,
+      lastError: error ?? null,
+      consecutiveFailures: status === "succeeded" ? 0 : claimed.consecutiveFailures + 1,
+      updatedAt: finishedAt,
+    })
+    .where(and(eq(scheduledJobs.name, definition.name), eq(scheduledJobs.lockedBy, INSTANCE_ID)));
+
+  if (timedOut) holdLockUntilSettled(db, definition.name, settled);
+
+  if (error !== undefined) {
+    console.error(`[Scheduler] ${definition.name} failed (attempt ${attempt}):`, error);
+  }
+
+  return { runId: run.id, status, durationMs, result, error };
+}
+
+/**
+ * Run every registered job that is due, one after another.
+ */
+export async function runDueJobs(db: any, definitions: ScheduledJobDefinition[], now = new Date()) {
+  const due: ScheduledJob[] = await db.select()
+    .from(scheduledJobs)
+    .where(and(eq(scheduledJobs.enabled, true), lte(scheduledJobs.nextRunAt, now)))
+    .orderBy(scheduledJobs.nextRunAt);
+
+  for (const row of due) {
+    const definition = definitions.find(job => job.name === row.name);
+    if (!definition) continue;
+    try {
+      await executeJob(db, definition, { now });
+    } catch (err) {
+      // Bookkeeping failed (e.g. the database dropped); the lock expires on its own
+      console.error(`[Scheduler] Could not run ${definition.name}:`, err);
+    }
+  }
+}
+
+export async function getRecentRuns(db: any, jobName: string, limit = 20): Promise<ScheduledJobRun[]> {
+  return db.select()
+    .from(scheduledJobRuns)
+    .where(eq(scheduledJobRuns.jobName, jobName))
+    .orderBy(desc(scheduledJobRuns.startedAt))
+    .limit(limit);
+}
@@ -0,0 +1,380 @@
+/**
+ * Xactimate Scope Parser
+ *
+ * Rule-based reader for the common Scope of Loss text layout: category-coded
+ * line items (RFG 300S, SFG GUTA, DRY 1/2...) with QTY, unit and the
+ * RCV / depreciation / ACV columns, O&P and tax lines, and the summary block.
+ * Produces the same audit result shape as the Gemini analysis. Lines that look
+ * like line items but don't fit the layout are returned per section so only
+ * those sections need to go to the LLM.
+ */
+
+import type { AuditResult, ScopeLineItem } from "./insuranceScope";
+
+export const SCOPE_RULES_VERSION = "rules:v1";
+
+// Line totals may differ from the summary by rounding only
+const RECONCILE_TOLERANCE = 1.0;
+
+const UNITS = ["SQ", "LF", "SF", "SY", "EA", "HR", "LS", "CY", "CF", "DA", "MO", "WK", "RM"];
+
+const CATEGORY_NAMES: Record<string, string> = {
+  RFG: "Roofing",
+  SFG: "Soffit, Fascia & Gutter",
+  GUT: "Gutters",
+  DRY: "Drywall",
+  PNT: "Painting",
+  SDG: "Siding",
+  WTR: "Water Extraction",
+  DMO: "Demolition & Debris",
+  INS: "Insulation",
+  FNC: "Fencing",
+  WDW: "Windows",
+  CLN: "Cleaning",
+};
+
+const KNOWN_CARRIERS = [
+  "State Farm", "Allstate", "Liberty Mutual", "USAA", "Citizens", "Universal Property",
+  "Heritage", "Tower Hill", "American Integrity", "Security First", "Florida Peninsula",
+  "Homeowners Choice", "Slide", "Progressive", "Farmers", "Travelers", "Nationwide",
+  "Safeco", "Chubb",
+];
+
+const LINE_ITEM_PATTERN = new RegExp(
+  String.raw`^(?:\d+\.\s+)?([A-Z]{3})\s+(\S+)(?:\s+(.*?))?\s+([\d,]+(?:\.\d+)?)\s*(${UNITS.join("|")})\b(.*)$`
+);
+// Lines that look like priced items: a category code, or a quantity and unit followed by amounts
+const CANDIDATE_PATTERNS = [
+  /^(?:\d+\.\s+)?[A-Z]{3}\s+\S+.*\d/,
+  new RegExp(String.raw`\d\s*(?:${UNITS.join("|")})\b.*\d`),
+];
+const AMOUNT_PATTERN = /[(<]?-?\$?\d[\d,]*(?:\.\d+)?[)>]?/g;
+
+const OVERHEAD_PROFIT_PATTERN = /^(?:O\s*&\s*P|overhead(?:\s*(?:and|&)\s*profit)?|profit)\b/i;
+
+const SUMMARY_PATTERNS: { field: keyof ScopeSummary; pattern: RegExp }[] = [
+  { field: "recoverableDepreciation", pattern: /^(?:total\s+)?recoverable depreciation\b/i },
+  { field: "depreciation", pattern: /^(?:less\s+)?(?:total\s+)?(?:non-recoverable\s+)?depreciation\b/i },
+  { field: "deductible", pattern: /^(?:less\s+)?deductible\b/i },
+  { field: "acv", pattern: /^(?:total\s+)?(?:actual cash value|acv)\b/i },
+  { field: "tax", pattern: /^(?:material\s+)?sales tax\b|^tax\b/i },
+  { field: "lineItemTotal", pattern: /^(?:line item total|subtotal)\b/i },
+  { field: "rcv", pattern: /^(?:total\s+)?(?:replacement cost value|rcv)\b|^(?:grand\s+)?total\b/i },
+  { field: "netClaim", pattern: /^net (?:claim|payment)\b/i },
+];
+
+export interface ScopeSummary {
+  lineItemTotal: number | null;
+  tax: number | null;
+  rcv: number | null;
+  depreciation: number | null;
+  recoverableDepreciation: number | null;
+  acv: number | null;
+  deductible: number | null;
+  netClaim: number | null;
+}
+
+export interface UnparsedSection {
+  heading: string;
+  lines: string[];
+}
+
+export interface ParsedScope {
+  claimInfo: Omit<AuditResult["claim_info"], "total_rcv" | "total_acv" | "deductible">;
+  lineItems: ScopeLineItem[];
+  overheadProfit: number; // Separate O&P lines plus the O&P column when present
+  separateOverheadProfit: number; // O&P printed as its own lines, outside line RCV
+  summary: ScopeSummary;
+  unparsedSections: UnparsedSection[];
+}
+
+export interface ScopeReconciliation {
+  lineItemRcv: number; // Line items plus separate O&P and tax lines
+  summaryRcv: number | null;
+  difference: number;
+  balanced: boolean;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// "(1,200.00)" and "<1,200.00>" are how Xactimate prints depreciation
+function parseAmount(token: string): { value: number; bracketed: boolean } {
+  const bracketed = /^[(<].*[)>]$/.test(token);
+  const value = Math.abs(parseFloat(token.replace(/[^\d.-]/g, "")));
+  return { value: Number.isFinite(value) ? value : 0, bracketed };
+}
+
+const lastAmount = (line: string) => {
+  const amounts = line.match(AMOUNT_PATTERN);
+  return amounts ? parseAmount(amounts[amounts.length - 1]).value : null;
+};
+
+/**
+ * Read one line item. Columns after the unit are UNIT PRICE [TAX] [O&P] RCV
+ * DEPREC. ACV, with shorter layouts dropping from the right. Returns null
+ * when the numbers don't add up so the line is treated as unparsed.
+ */
+function parseLineItem(line: string): { item: ScopeLineItem; overheadProfit: number } | null {
+  const match = line.match(LINE_ITEM_PATTERN);
+  if (!match) return null;
+
+  const [, category, selector, description, qtyText, unit, rest] = match;
+  const quantity = parseFloat(qtyText.replace(/,/g, ""));
+  const amounts = (rest.match(AMOUNT_PATTERN) || []).map(parseAmount);
+  if (amounts.length < 2) return null;
+
+  const unitPrice = amounts[0].value;
+  let rcv: number;
+  let depreciation = 0;
+  let acv: number;
+  let extras = 0;
+  let overheadProfit = 0;
+
+  if (amounts.length === 2) {
+    rcv = acv = amounts[1].value;
+  } else if (amounts.length === 3) {
+    rcv = amounts[1].value;
+    if (amounts[2].bracketed) {
+      depreciation = amounts[2].value;
+      acv = rcv - depreciation;
+    } else {
+      acv = amounts[2].value;
+      depreciation = rcv - acv;
+    }
+  } else {
+    const n = amounts.length;
+    rcv = amounts[n - 3].value;
+    depreciation = amounts[n - 2].value;
+    acv = amounts[n - 1].value;
+    extras = amounts.slice(1, n - 3).reduce((sum, amount) => sum + amount.value, 0);
+    if (n === 6) overheadProfit = amounts[2].value;
+  }
+
+  const tolerance = Math.max(0.05, rcv * 0.005);
+  if (Math.abs(quantity * unitPrice + extras - rcv) > tolerance) return null;
+  if (depreciation < 0 || Math.abs(rcv - depreciation - acv) > 0.02) return null;
+
+  return {
+    item: {
+      code: `${category} ${selector}`,
+      description: description?.trim() || CATEGORY_NAMES[category] || category,
+      quantity,
+      unit,
+      unit_price: unitPrice,
+      rcv: round2(rcv),
+      depreciation: round2(depreciation),
+      acv: round2(acv),
+    },
+    overheadProfit,
+  };
+}
+
+function parseClaimInfo(text: string): ParsedScope["claimInfo"] {
+  const labeledCarrier = text.match(/(?:insurance company|carrier|insurer)\s*:\s*(.+)/i)?.[1]?.trim();
+  const knownCarrier = KNOWN_CARRIERS.find(carrier => new RegExp(`\\b${carrier}\\b`, "i").test(text));
+
+  return {
+    carrier: labeledCarrier || knownCarrier || "",
+    claim_number: text.match(/claim\s*(?:number|no\.?|#)\s*[:#]?\s*([A-Z0-9][A-Z0-9-]*)/i)?.[1] || "",
+    loss_date: text.match(/(?:date of loss|loss date)\s*:?\s*([\d/.-]+)/i)?.[1] || "",
+  };
+}
+
+export function parseScopeText(text: string): ParsedScope {
+  const summary: ScopeSummary = {
+    lineItemTotal: null,
+    tax: null,
+    rcv: null,
+    depreciation: null,
+    recoverableDepreciation: null,
+    acv: null,
+    deductible: null,
+    netClaim: null,
+  };
+  const lineItems: ScopeLineItem[] = [];
+  const unparsed = new Map<string, string[]>();
+  let columnOverheadProfit = 0;
+  let separateOverheadProfit = 0;
+  let heading = "";
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    // Area headings ("Roof", "Front Elevation") group lines for the LLM fallback
+    if (!/\d/.test(line)) {
+      heading = line;
+      continue;
+    }
+
+    const parsed = parseLineItem(line);
+    if (parsed) {
+      lineItems.push(parsed.item);
+      columnOverheadProfit += parsed.overheadProfit;
+      continue;
+    }
+
+    if (OVERHEAD_PROFIT_PATTERN.test(line)) {
+      separateOverheadProfit += lastAmount(line) ?? 0;
+      continue;
+    }
+
+    const summaryMatch = SUMMARY_PATTERNS.find(({ pattern }) => pattern.test(line));
+    if (summaryMatch) {
+      summary[summaryMatch.field] = lastAmount(line);
+      continue;
+    }
+
+    if (CANDIDATE_PATTERNS.some(pattern => pattern.test(line))) {
+      unparsed.set(heading, [...(unparsed.get(heading) || []), line]);
+    }
+  }
+
+  return {
+    claimInfo: parseClaimInfo(text),
+    lineItems,
+    overheadProfit: round2(columnOverheadProfit + separateOverheadProfit),
+    separateOverheadProfit: round2(separateOverheadProfit),
+    summary,
+    unparsedSections: Array.from(unparsed, ([sectionHeading, lines]) => ({ heading: sectionHeading, lines })),
+  };
+}
+
+// Format unparsed sections as scope text for the LLM fallback
+export function formatUnparsedSections(sections: UnparsedSection[]): string {
+  return sections.map(section => [section.heading, ...section.lines].filter(Boolean).join("\n")).join("\n\n");
+}
+
+/**
+ * Check the line items against the summary. O&P from the column is already
+ * inside each line's RCV; separate O&P and tax lines are added on top.
+ */
+export function reconcileScope(parsed: ParsedScope, lineItems: ScopeLineItem[] = parsed.lineItems): ScopeReconciliation {
+  const itemsRcv = lineItems.reduce((sum, item) => sum + item.rcv, 0);
+  const separateCharges = parsed.separateOverheadProfit + (parsed.summary.tax ?? 0);
+  const lineItemRcv = round2(itemsRcv + separateCharges);
+
+  const { lineItemTotal, rcv } = parsed.summary;
+  const summaryRcv = rcv ?? (lineItemTotal !== null ? round2(lineItemTotal + separateCharges) : null);
+  const difference = summaryRcv === null ? 0 : round2(summaryRcv - lineItemRcv);
+  const subtotalBalanced = lineItemTotal === null || Math.abs(lineItemTotal - itemsRcv) <= RECONCILE_TOLERANCE;
+
+  return {
+    lineItemRcv,
+    summaryRcv,
+    difference,
+    balanced: subtotalBalanced && Math.abs(difference) <= RECONCILE_TOLERANCE,
+  };
+}
+
+const matches = (item: ScopeLineItem, pattern: RegExp) => pattern.test(`${item.code} ${item.description}`);
+
+/**
+ * Red flags from the estimator checklist: missing O&P on large or multi-trade
+ * claims, shingles without felt or drip edge, tear-off without debris removal,
+ * and totals that don't reconcile.
+ */
+export function auditScope(params: {
+  lineItems: ScopeLineItem[];
+  overheadProfit: number;
+  totalRcv: number;
+  reconciliation: ScopeReconciliation;
+}): AuditResult["audit_flags"] {
+  const flags: AuditResult["audit_flags"] = [];
+  const trades = new Set(params.lineItems.map(item => item.code.split(" ")[0]));
+
+  if ((params.totalRcv > 10000 || trades.size > 3) && params.overheadProfit === 0) {
+    flags.push({
+      severity: "HIGH",
+      issue: "Missing O&P",
+      description: `Scope totals $${params.totalRcv.toFixed(2)} across ${trades.size} trade(s) with no overhead and profit. Request 10% overhead + 10% profit.`,
+    });
+  }
+
+  const shingles = params.lineItems.filter(item => matches(item, /RFG 300|shingle/i));
+  if (shingles.length > 0) {
+    // Shingle selectors read "w/out felt", so look for felt on the other lines only
+    const otherItems = params.lineItems.filter(item => !shingles.includes(item));
+    const missing = [
+      !otherItems.some(item => matches(item, /FELT|underlay/i)) && "felt underlayment",
+      !otherItems.some(item => matches(item, /DRIP/i)) && "drip edge",
+    ].filter(Boolean);
+    if (missing.length > 0) {
+      flags.push({
+        severity: "HIGH",
+        issue: "Missing Code Items",
+        description: `Shingles are scoped without ${missing.join(" or ")}, both required by code.`,
+      });
+    }
+  }
+
+  const tearOff = params.lineItems.some(item => item.code.startsWith("RFG") && matches(item, /R&R|remove|tear/i));
+  if (tearOff && !params.lineItems.some(item => matches(item, /debris|dumpster|haul|DMO/i))) {
+    flags.push({
+      severity: "MEDIUM",
+      issue: "Missing Debris Removal",
+      description: "Roof tear-off is scoped without debris removal or a dumpster.",
+    });
+  }
+
+  const { reconciliation } = params;
+  if (!reconciliation.balanced && reconciliation.summaryRcv !== null) {
+    flags.push({
+      severity: "MEDIUM",
+      issue: "Totals Do Not Reconcile",
+      description: `Line items add up to $${reconciliation.lineItemRcv.toFixed(2)} but the summary shows $${reconciliation.summaryRcv.toFixed(2)}. Check the scope for missing or misread lines.`,
+    });
+  }
+
+  return flags;
+}
+
+/**
+ * Assemble the audit result from the parsed scope. Line items recovered by the
+ * LLM for unparsed sections are passed in as extraLineItems.
+ */
+export function buildAuditResult(parsed: ParsedScope, extraLineItems: ScopeLineItem[] = []): AuditResult {
+  const lineItems = [...parsed.lineItems, ...extraLineItems];
+  const reconciliation = reconcileScope(parsed, lineItems);
+  const { summary } = parsed;
+
+  // Separate O&P and tax lines carry no depreciation
+  const separateCharges = reconciliation.lineItemRcv - lineItems.reduce((sum, item) => sum + item.rcv, 0);
+  const lineItemAcv = lineItems.reduce((sum, item) => sum + item.acv, 0) + separateCharges;
+
+  const totalRcv = summary.rcv ?? reconciliation.lineItemRcv;
+  const totalAcv = summary.acv ?? (summary.depreciation !== null ? totalRcv - summary.depreciation : lineItemAcv);
+
+  const categories = new Map<string, number>();
+  for (const item of lineItems) {
+    const category = item.code.split(" ")[0];
+    categories.set(category, (categories.get(category) || 0) + item.rcv);
+  }
+
+  const notes = [
+    `Parsed ${lineItems.length} line items across ${categories.size} trade(s).`,
+    reconciliation.summaryRcv === null
+      ? "No summary totals found to reconcile against."
+      : reconciliation.balanced
+        ? "Line totals reconcile to the summary."
+        : `Line totals are off from the summary by $${Math.abs(reconciliation.difference).toFixed(2)}.`,
+    extraLineItems.length > 0 ? `${extraLineItems.length} line items were read by AI from sections the parser could not read.` : "",
+  ];
+
+  return {
+    claim_info: {
+      ...parsed.claimInfo,
+      total_rcv: round2(totalRcv),
+      total_acv: round2(totalAcv),
+      deductible: summary.deductible ?? 0,
+    },
+    line_items_summary: Array.from(categories, ([category, total]) => ({
+      category,
+      total_cost: round2(total),
+      description: CATEGORY_NAMES[category] || category,
+    })),
+    line_items: lineItems,
+    audit_flags: auditScope({ lineItems, overheadProfit: parsed.overheadProfit, totalRcv, reconciliation }),
+    estimator_notes: notes.filter(Boolean).join(" "),
+  };
+}
@@ -0,0 +1,411 @@
+/**
+ * Bank Statement Import
+ *
+ * Parses the statement files banks export directly — OFX, Quicken's QFX and
+ * QuickBooks Web Connect (QBO), which are all OFX inside, in both the old
+ * SGML and the XML flavor, plus ISO 20022 CAMT.053 — and inserts their
+ * transactions without duplicating anything already imported.
+ *
+ * Every imported row gets an import key scoped to its bank account: the
+ * bank's FITID (or CAMT entry reference) when the file has one, otherwise a
+ * fingerprint of date, amount and description with an occurrence number so
+ * two identical coffees on the same day stay two rows. A row is skipped when
+ * its key is already stored, or when the account already has as many rows
+ * with that date, amount and description — which also catches transactions
+ * imported before keys existed.
+ */
+
+import { createHash } from "crypto";
+import { and, eq, gte, isNull, lte } from "drizzle-orm";
+import { bankAccounts, bankTransactions, type BankAccount, type BankTransaction } from "../../drizzle/schema";
+import { dollarsToCents } from "./ledger";
+
+export type StatementFormat = "ofx" | "camt053";
+
+export interface StatementTransaction {
+  fitId: string | null;
+  date: string; // YYYY-MM-DD as printed on the statement
+  amount: number; // Dollars; withdrawals negative
+  description: string;
+  referenceNumber: string | null;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  accountNumber: string | null;
+  currency: string | null;
+  ledgerBalance: number | null; // Dollars
+  balanceDate: string | null; // YYYY-MM-DD
+  transactions: StatementTransaction[];
+}
+
+const OFX_EXTENSIONS = [".ofx", ".qfx", ".qbo"];
+
+export function detectStatementFormat(fileName: string, content: string): StatementFormat | null {
+  const name = fileName.toLowerCase();
+  const head = content.slice(0, 4000);
+
+  if (/camt\.053/i.test(head) || /<(\w+:)?BkToCstmrStmt>/.test(head)) return "camt053";
+  if (OFX_EXTENSIONS.some(ext => name.endsWith(ext)) || /OFXHEADER|<OFX>/i.test(head)) return "ofx";
+  return null;
+}
+
+// ============================================================================
+// Markup helpers
+// ============================================================================
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+
+const clean = (value: string | null | undefined) => {
+  const trimmed = decodeEntities(value || "").replace(/\s+/g, " ").trim();
+  return trimmed || null;
+};
+
+/** The blocks between <tag> and </tag>; in SGML OFX aggregates are always closed */
+function blocks(text: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "gi");
+  return Array.from(text.matchAll(pattern), match => match[1]);
+}
+
+function parseAmount(value: string | null, context: string): number {
+  const amount = Number((value || "").replace(/\s/g, "").replace(",", "."));
+  if (!value || !Number.isFinite(amount)) throw new Error(`Invalid amount "${value ?? ""}" in ${context}`);
+  return amount;
+}
+
+function parseDate(value: string | null, context: string): string {
+  const match = (value || "").match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (!match) throw new Error(`Invalid date "${value ?? ""}" in ${context}`);
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+// ============================================================================
+// OFX / QFX / QBO
+// ============================================================================
+
+/** A leaf element's value; SGML leaves have no closing tag and end at the next tag or line */
+function ofxValue(text: string, tag: string): string | null {
+  const match = text.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? clean(match[1]) : null;
+}
+
+function ofxTransactions(statement: string): string[] {
+  // Split rather than match so an unterminated last <STMTTRN> is still read
+  return statement
+    .split(/<STMTTRN>/i)
+    .slice(1)
+    .map(part => part.split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0]);
+}
+
+export function parseOfx(content: string): ParsedStatement[] {
+  const statements = [...blocks(content, "STMTRS"), ...blocks(content, "CCSTMTRS")];
+  if (statements.length === 0) throw new Error("No bank or credit card statement found in the OFX file");
+
+  return statements.map(statement => {
+    const ledger = statement.split(/<LEDGERBAL>/i)[1] ?? null;
+
+    const transactions = ofxTransactions(statement).map((trn, index) => {
+      const context = `transaction ${index + 1}`;
+      const name = ofxValue(trn, "NAME");
+      const memo = ofxValue(trn, "MEMO");
+      const description = name && memo && !name.includes(memo) ? `${name} ${memo}` : name || memo || ofxValue(trn, "TRNTYPE") || "Bank transaction";
+
+      return {
+        fitId: ofxValue(trn, "FITID"),
+        date: parseDate(ofxValue(trn, "DTPOSTED"), context),
+        amount: parseAmount(ofxValue(trn, "TRNAMT"), context),
+        description,
+        referenceNumber: ofxValue(trn, "CHECKNUM") || ofxValue(trn, "REFNUM"),
+      };
+    });
+
+    return {
+      format: "ofx" as const,
+      accountNumber: ofxValue(statement, "ACCTID"),
+      currency: ofxValue(statement, "CURDEF"),
+      ledgerBalance: ledger ? parseAmount(ofxValue(ledger, "BALAMT"), "ledger balance") : null,
+      balanceDate: ledger && ofxValue(ledger, "DTASOF") ? parseDate(ofxValue(ledger, "DTASOF"), "ledger balance") : null,
+      transactions,
+    };
+  });
+}
+
+// ============================================================================
+// CAMT.053
+// ============================================================================
+
+function xmlValue(text: string | undefined, ...path: string[]): string | null {
+  let current = text;
+  for (const tag of path) {
+    if (current === undefined) return null;
+    current = blocks(current, tag)[0];
+  }
+  return current === undefined ? null : clean(current.replace(/<[^>]+>/g, " "));
+}
+
+const signed = (amount: number, indicator: string | null) => (indicator === "DBIT" ? -Math.abs(amount) : Math.abs(amount));
+
+export function parseCamt053(content: string): ParsedStatement[] {
+  // Drop namespace prefixes (<ns2:Ntry>) so tags can be matched by name
+  const xml = content.replace(/<(\/?)[\w.-]+:/g, "<$1");
+  const statements = blocks(xml, "Stmt");
+  if (statements.length === 0) throw new Error("No statement found in the CAMT.053 file");
+
+  return statements.map(statement => {
+    const account = blocks(statement, "Acct")[0];
+    const balances = blocks(statement, "Bal");
+    const closing = balances.find(bal => xmlValue(bal, "Tp", "Cd") === "CLBD") ?? balances.find(bal => xmlValue(bal, "Tp", "Cd") === "CLAV");
+
+    const transactions = blocks(statement, "Ntry")
+      // Pending entries haven't posted and may still change
+      .filter(entry => (xmlValue(entry, "Sts") || "BOOK").includes("BOOK"))
+      .map((entry, index) => {
+        const context = `entry ${index + 1}`;
+        const indicator = xmlValue(entry, "CdtDbtInd");
+        const details = blocks(entry, "TxDtls")[0];
+        const counterparty = indicator === "DBIT" ? xmlValue(details, "RltdPties", "Cdtr", "Nm") : xmlValue(details, "RltdPties", "Dbtr", "Nm");
+        const remittance = xmlValue(details, "RmtInf", "Ustrd");
+        const endToEnd = xmlValue(details, "Refs", "EndToEndId");
+
+        return {
+          fitId: xmlValue(entry, "AcctSvcrRef") || xmlValue(entry, "NtryRef"),
+          date: parseDate(xmlValue(entry, "BookgDt") || xmlValue(entry, "ValDt"), context),
+          amount: signed(parseAmount(xmlValue(entry, "Amt"), context), indicator),
+          description: [counterparty, remittance].filter(Boolean).join(" ") || xmlValue(entry, "AddtlNtryInf") || "Bank transaction",
+          referenceNumber: xmlValue(details, "Refs", "ChqNb") || (endToEnd && endToEnd !== "NOTPROVIDED" ? endToEnd : null),
+        };
+      });
+
+    return {
+      format: "camt053" as const,
+      accountNumber: xmlValue(account, "IBAN") || xmlValue(account, "Othr", "Id"),
+      currency: xmlValue(account, "Ccy") || (closing?.match(/Ccy="([A-Z]{3})"/)?.[1] ?? null),
+      ledgerBalance: closing ? signed(parseAmount(xmlValue(closing, "Amt"), "closing balance"), xmlValue(closing, "CdtDbtInd")) : null,
+      balanceDate: closing ? parseDate(xmlValue(closing, "Dt"), "closing balance") : null,
+      transactions,
+    };
+  });
+}
+
+export function parseStatementFile(fileName: string, content: string): ParsedStatement[] {
+  const format = detectStatementFormat(fileName, content);
+  if (format === "ofx") return parseOfx(content);
+  if (format === "camt053") return parseCamt053(content);
+  throw new Error(`"${fileName}" is not an OFX, QFX, QBO or CAMT.053 statement`);
+}
+
+// ============================================================================
+// Deduplication
+// ============================================================================
+
+export interface ImportRow {
+  fitId?: string | null;
+  transactionDate: Date;
+  amount: string | number; // Dollars
+  description: string;
+}
+
+/** Import keys are scoped to the bank account the rows belong to */
+export function importScope(accountId: number | null | undefined, bankAccount?: string | null): string {
+  if (accountId) return `acct:${accountId}`;
+  return bankAccount ? `name:${bankAccount.trim().toLowerCase()}` : "none";
+}
+
+export function fingerprint(row: ImportRow): string {
+  const date = row.transactionDate.toISOString().slice(0, 10);
+  const description = row.description.replace(/\s+/g, " ").trim().toUpperCase();
+  return `${date}|${dollarsToCents(row.amount)}|${description}`;
+}
+
+const boundedKey = (key: string) => (key.length <= 255 ? key : `sha1:${createHash("sha1").update(key).digest("hex")}`);
+
+/**
+ * Import keys for incoming rows and whether each one is already on file.
+ * `existing` are the account's stored rows over the same dates.
+ */
+export function markDuplicates(
+  scope: string,
+  rows: ImportRow[],
+  existing: Array<Pick<BankTransaction, "importKey" | "transactionDate" | "amount" | "description">>
+): { keys: string[]; duplicate: boolean[] } {
+  const storedKeys = new Set(existing.map(row => row.importKey).filter(Boolean));
+  const storedCounts = new Map<string, number>();
+  for (const row of existing) {
+    const print = fingerprint(row);
+    storedCounts.set(print, (storedCounts.get(print) || 0) + 1);
+  }
+
+  const seen = new Map<string, number>();
+  const batchKeys = new Set<string>();
+  const keys: string[] = [];
+  const duplicate: boolean[] = [];
+
+  for (const row of rows) {
+    const print = fingerprint(row);
+    const occurrence = (seen.get(print) || 0) + 1;
+    seen.set(print, occurrence);
+
+    const key = boundedKey(row.fitId ? `${scope}:fitid:${row.fitId}` : `${scope}:fp:${print}#${occurrence}`);
+    keys.push(key);
+    duplicate.push(storedKeys.has(key) || batchKeys.has(key) || occurrence <= (storedCounts.get(print) || 0));
+    batchKeys.add(key);
+  }
+
+  return { keys, duplicate };
+}
+
+export interface InsertStatementOptions {
+  accountId?: number | null;
+  bankAccount?: string | null;
+  userId: number;
+}
+
+/**
+ * Insert rows as pending bank transactions, skipping the ones already imported.
+ */
+export async function insertStatementTransactions(
+  db: any,
+  rows: Array<ImportRow & { referenceNumber?: string | null }>,
+  options: InsertStatementOptions
+): Promise<{ transactions: BankTransaction[]; duplicates: number }> {
+  if (rows.length === 0) return { transactions: [], duplicates: 0 };
+
+  const times = rows.map(row => row.transactionDate.getTime());
+  const from = new Date(Math.min(...times));
+  const to = new Date(Math.max(...times) + 24 * 60 * 60 * 1000 - 1);
+
+  const scopeCondition = options.accountId
+    ? eq(bankTransactions.accountId, options.accountId)
+    : options.bankAccount
+      ? eq(bankTransactions.bankAccount, options.bankAccount)
+      : and(isNull(bankTransactions.accountId), isNull(bankTransactions.bankAccount));
+
+  const existing = await db
+    .select({
+      importKey: bankTransactions.importKey,
+      transactionDate: bankTransactions.transactionDate,
+      amount: bankTransactions.amount,
+      description: bankTransactions.description,
+    })
+    .from(bankTransactions)
+    .where(and(scopeCondition, gte(bankTransactions.transactionDate, from), lte(bankTransactions.transactionDate, to)));
+
+  const { keys, duplicate } = markDuplicates(importScope(options.accountId, options.bankAccount), rows, existing);
+
+  const values = rows
+    .map((row, i) => ({
+      transactionDate: row.transactionDate,
+      description: row.description,
+      amount: row.amount.toString(),
+      accountId: options.accountId ?? null,
+      bankAccount: options.bankAccount ?? null,
+      referenceNumber: row.referenceNumber ?? null,
+      importKey: keys[i],
+      status: "pending" as const,
+      createdBy: options.userId,
+    }))
+    .filter((_, i) => !duplicate[i]);
+
+  const transactions: BankTransaction[] = values.length > 0
+    ? await db.insert(bankTransactions).values(values).onConflictDoNothing({ target: bankTransactions.importKey }).returning()
+    : [];
+
+  return { transactions, duplicates: rows.length - transactions.length };
+}
+
+// ============================================================================
+// Statement files
+// ============================================================================
+
+export interface ImportedStatement {
+  accountId: number;
+  accountName: string;
+  format: StatementFormat;
+  imported: number;
+  duplicates: number;
+  ledgerBalance: number | null;
+  balanceUpdated: boolean;
+}
+
+function resolveAccount(statement: ParsedStatement, accounts: BankAccount[], accountId: number | undefined, single: boolean): BankAccount {
+  if (accountId && single) {
+    const chosen = accounts.find(account => account.id === accountId);
+    if (!chosen) throw new Error("Bank account not found");
+    return chosen;
+  }
+
+  const last4 = statement.accountNumber?.replace(/\s/g, "").slice(-4);
+  const matches = last4 ? accounts.filter(account => account.isActive && account.accountNumberLast4 === last4) : [];
+  if (matches.length === 1) return matches[0];
+
+  throw new Error(
+    matches.length > 1
+      ? `More than one bank account ends in ${last4}; choose the account to import into`
+      : `No bank account ends in ${last4 ?? "the statement's account number"}. Add it under Accounts or choose the account to import into`
+  );
+}
+
+/**
+ * Import an OFX/QFX/QBO or CAMT.053 file. Each statement goes to the bank
+ * account whose last four digits match (or `accountId` for a single-statement
+ * file), and that account's balance is set from the statement's ledger
+ * balance unless a later statement has already been applied.
+ */
+export async function importStatement(
+  db: any,
+  input: { fileName: string; content: string; accountId?: number; userId: number }
+): Promise<{ statements: ImportedStatement[]; transactions: BankTransaction[] }> {
+  const statements = parseStatementFile(input.fileName, input.content);
+  const accounts: BankAccount[] = await db.select().from(bankAccounts);
+
+  const results: ImportedStatement[] = [];
+  const transactions: BankTransaction[] = [];
+
+  for (const statement of statements) {
+    const account = resolveAccount(statement, accounts, input.accountId, statements.length === 1);
+
+    const inserted = await insertStatementTransactions(
+      db,
+      statement.transactions.map(tx => ({
+        fitId: tx.fitId,
+        transactionDate: new Date(tx.date),
+        amount: tx.amount,
+        description: tx.description,
+        referenceNumber: tx.referenceNumber,
+      })),
+      { accountId: account.id, bankAccount: account.accountName, userId: input.userId }
+    );
+    transactions.push(...inserted.transactions);
+
+    let balanceUpdated = false;
+    if (statement.ledgerBalance !== null && statement.balanceDate) {
+      const asOf = new Date(statement.balanceDate);
+      if (!account.balanceAsOf || asOf >= account.balanceAsOf) {
+        await db.update(bankAccounts)
+          .set({ currentBalance: statement.ledgerBalance.toFixed(2), balanceAsOf: asOf, updatedAt: new Date() })
+          .where(eq(bankAccounts.id, account.id));
+        account.balanceAsOf = asOf;
+        balanceUpdated = true;
+      }
+    }
+
+    results.push({
+      accountId: account.id,
+      accountName: account.accountName,
+      format: statement.format,
+      imported: inserted.transactions.length,
+      duplicates: inserted.duplicates,
+      ledgerBalance: statement.ledgerBalance,
+      balanceUpdated,
+    });
+  }
+
+  return { statements: results, transactions };
+}
@@ -0,0 +1,473 @@
+/**
+ * Online Invoice Payments (Stripe Checkout)
+ *
+ * Customers pay from the "Pay now" link in invoice emails or from the portal.
+ * Both create a Checkout session for the invoice's remaining balance; the
+ * webhook (server/_core/stripeWebhook.ts) records the payment against the
+ * invoice and job once Stripe confirms it, and records refunds made in the
+ * Stripe dashboard. Refunds issued from the app go out through
+ * createStripeRefund (see lib/invoiceAdjustments).
+ *
+ * Local testing:
+ *   stripe listen --forward-to localhost:3000/api/stripe/webhook
+ *   stripe trigger checkout.session.completed --add checkout_session:metadata.invoiceId=<id>
+ */
+
+import Stripe from "stripe";
+import { TRPCError } from "@trpc/server";
+import { SignJWT, jwtVerify } from "jose";
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
+import { invoices, payments, paymentRefunds, reportRequests, activities, type Invoice } from "../../drizzle/schema";
+import { PORTAL_BASE_URL } from "./portalAuth";
+import { postInvoice, postPayment } from "./ledger";
+
+const PAYMENT_LINK_AUDIENCE = "invoice-payment";
+const PAYMENT_LINK_TTL_SECONDS = 60 * 60 * 24 * 90; // Links in emailed invoices stay valid for 90 days
+
+let stripeClient: Stripe | null = null;
+
+function getStripe(): Stripe {
+  if (stripeClient) return stripeClient;
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+  if (!secretKey) {
+    throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Online payments are not configured (STRIPE_SECRET_KEY)" });
+  }
+  stripeClient = new Stripe(secretKey);
+  return stripeClient;
+}
+
+function getSecretKey() {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) {
+    throw new Error("SUPABASE_JWT_SECRET is required to sign payment links");
+  }
+  return new TextEncoder().encode(secret);
+}
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+// ============================================
+// Balance and status
+// ============================================
+
+/**
+ * What the customer still owes on an invoice, in cents, after payments and
+ * applied credit memos.
+ */
+export function invoiceBalanceDue(
+  invoice: Pick<Invoice, "totalAmount" | "amountPaid" | "status"> & Partial<Pick<Invoice, "creditedAmount">>
+): number {
+  if (invoice.status === "paid" || invoice.status === "cancelled") return 0;
+  return Math.max(0, invoice.totalAmount - invoice.amountPaid - (invoice.creditedAmount || 0));
+}
+
+type OpenInvoice = Pick<Invoice, "id" | "reportRequestId" | "dueDate" | "totalAmount" | "amountPaid" | "status"> &
+  Partial<Pick<Invoice, "creditedAmount">>;
+
+/**
+ * Open balance of each invoice once payments recorded on the job but not
+ * against an invoice (older manual payments, or ones left over from a voided
+ * invoice) are put toward the job's open invoices, oldest due first. Pass all
+ * of a job's open invoices so its payments are spread the same way everywhere.
+ */
+export function openInvoiceBalances(openInvoices: OpenInvoice[], unappliedByJob: Map<number, number>): Map<number, number> {
+  const remaining = new Map(unappliedByJob);
+  const balances = new Map<number, number>();
+
+  const oldestFirst = [...openInvoices].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime() || a.id - b.id);
+  for (const invoice of oldestFirst) {
+    const due = invoiceBalanceDue(invoice);
+    const unapplied = invoice.reportRequestId ? remaining.get(invoice.reportRequestId) || 0 : 0;
+    const applied = Math.min(due, Math.max(0, unapplied));
+    if (invoice.reportRequestId) remaining.set(invoice.reportRequestId, unapplied - applied);
+    balances.set(invoice.id, due - applied);
+  }
+
+  return balances;
+}
+
+// Net payments (cents) on each job that aren't linked to an invoice
+export async function getUnappliedPayments(db: any, jobIds: number[]): Promise<Map<number, number>> {
+  const totals = new Map<number, number>();
+  if (jobIds.length === 0) return totals;
+
+  const rows = await db.select({
+    jobId: payments.reportRequestId,
+    total: sql<number>`COALESCE(SUM(${payments.amount} - ${payments.refundedAmount}), 0)::int`,
+  })
+  .from(payments)
+  .where(and(inArray(payments.reportRequestId, Array.from(new Set(jobIds))), isNull(payments.invoiceId)))
+  .groupBy(payments.reportRequestId);
+
+  for (const row of rows) totals.set(row.jobId, row.total);
+  return totals;
+}
+
+/**
+ * What the customer still owes on each open invoice after its own payments,
+ * credits and the job's unapplied payments (see openInvoiceBalances).
+ */
+export async function getOpenInvoiceBalances(db: any, openInvoices: OpenInvoice[]): Promise<Map<number, number>> {
+  const jobIds = openInvoices.flatMap(invoice => (invoice.reportRequestId ? [invoice.reportRequestId] : []));
+  const unapplied = await getUnappliedPayments(db, jobIds);
+  return openInvoiceBalances(openInvoices, unapplied);
+}
+
+/**
+ * Invoice status once payments net of refunds total netPaid cents. Applied
+ * credits count toward the total, and a refund that drops the invoice below
+ * it re-opens it.
+ */
+export function invoiceStatusForPayments(
+  invoice: Pick<Invoice, "totalAmount" | "status" | "dueDate"> & Partial<Pick<Invoice, "creditedAmount">>,
+  netPaid: number,
+  now = new Date()
+): Invoice["status"] {
+  if (invoice.status === "cancelled") return "cancelled";
+  if (netPaid + (invoice.creditedAmount || 0) >= invoice.totalAmount) return "paid";
+  return invoice.dueDate < now ? "overdue" : "sent";
+}
+
+// ============================================
+// Pay links and Checkout sessions
+// ============================================
+
+/**
+ * Long-lived link for invoice emails. Checkout sessions expire after 24
+ * hours, so the link points at /pay, which creates a fresh session on click.
+ */
+export async function getInvoicePaymentUrl(invoiceId: number): Promise<string> {
+  const token = await new SignJWT({ invoiceId })
+    .setProtectedHeader({ alg: "HS256", typ: "JWT" })
+    .setAudience(PAYMENT_LINK_AUDIENCE)
+    .setExpirationTime(Math.floor(Date.now() / 1000) + PAYMENT_LINK_TTL_SECONDS)
+    .sign(getSecretKey());
+  return `${PORTAL_BASE_URL}/pay?token=${encodeURIComponent(token)}`;
+}
+
+export async function verifyInvoicePaymentToken(token: string): Promise<number | null> {
+  try {
+    const { payload } = await jwtVerify(token, getSecretKey(), {
+      algorithms: ["HS256"],
+      audience: PAYMENT_LINK_AUDIENCE,
+    });
+    return typeof payload.invoiceId === "number" ? payload.invoiceId : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checkout session for the invoice's remaining balance. Returns the hosted
+ * payment page URL.
+ */
+export async function createInvoiceCheckoutSession(db: any, invoice: Invoice): Promise<string> {
+  const balanceDue = invoiceBalanceDue(invoice);
+  if (invoice.status === "draft" || invoice.status === "cancelled") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "This invoice is not open for payment" });
+  }
+  if (balanceDue <= 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "This invoice has already been paid" });
+  }
+  if (!invoice.reportRequestId) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Online payment is only available for job invoices" });
+  }
+
+  const metadata = {
+    invoiceId: String(invoice.id),
+    jobId: String(invoice.reportRequestId),
+  };
+
+  const session = await getStripe().checkout.sessions.create({
+    mode: "payment",
+    line_items: [{
+      quantity: 1,
+      price_data: {
+        currency: "usd",
+        unit_amount: balanceDue,
+        product_data: {
+          name: `Invoice ${invoice.invoiceNumber}`,
+          description: invoice.address || undefined,
+        },
+      },
+    }],
+    customer_email: invoice.clientEmail || undefined,
+    client_reference_id: String(invoice.id),
+    metadata,
+    payment_intent_data: { metadata },
+    success_url: `${PORTAL_BASE_URL}/pay?status=success&invoice=${encodeURIComponent(invoice.invoiceNumber)}`,
+    cancel_url: `${PORTAL_BASE_URL}/pay?status=cancelled&invoice=${encodeURIComponent(invoice.invoiceNumber)}`,
+  });
+
+  await db.update(reportRequests)
+    .set({ stripeCheckoutSessionId: session.id })
+    .where(eq(reportRequests.id, invoice.reportRequestId));
+
+  if (!session.url) {
+    throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Stripe did not return a checkout URL" });
+  }
+  return session.url;
+}
+
+// ============================================
+// Webhook
+// ============================================
+
+/**
+ * Verify the Stripe-Signature header against the raw request body. Throws on
+ * a bad or missing signature.
+ */
+export function constructStripeEvent(
+  payload: Buffer | string,
+  signature: string | string[] | undefined,
+  secret = process.env.STRIPE_WEBHOOK_SECRET
+): Stripe.Event {
+  if (!secret) {
+    throw new Error("STRIPE_WEBHOOK_SECRET is not configured");
+  }
+  if (!signature || Array.isArray(signature)) {
+    throw new Error("Missing Stripe-Signature header");
+  }
+  return Stripe.webhooks.constructEvent(payload, signature, secret);
+}
+
+export interface StripeEventResult {
+  handled: boolean;
+  message: string;
+}
+
+/**
+ * Apply a verified Stripe event. Events that aren't ours (no invoiceId in
+ * metadata, e.g. `stripe trigger` fixtures) are acknowledged and ignored so
+ * Stripe doesn't retry them.
+ */
+export async function handleStripeEvent(db: any, event: Stripe.Event): Promise<StripeEventResult> {
+  switch (event.type) {
+    case "checkout.session.completed":
+    case "checkout.session.async_payment_succeeded": {
+      const session = event.data.object;
+      if (session.payment_status !== "paid") {
+        return { handled: false, message: `Session ${session.id} awaiting payment (${session.payment_status})` };
+      }
+      const invoiceId = Number(session.metadata?.invoiceId);
+      if (!invoiceId) {
+        return { handled: false, message: `Session ${session.id} is not an invoice payment` };
+      }
+      return recordCheckoutPayment(db, invoiceId, {
+        amount: session.amount_total || 0,
+        paymentIntentId: typeof session.payment_intent === "string" ? session.payment_intent : session.payment_intent?.id || null,
+        checkoutSessionId: session.id,
+      });
+    }
+
+    case "checkout.session.async_payment_failed": {
+      const session = event.data.object;
+      const invoiceId = Number(session.metadata?.invoiceId);
+      const [invoice] = invoiceId ? await db.select().from(invoices).where(eq(invoices.id, invoiceId)) : [];
+      if (!invoice?.reportRequestId) {
+        return { handled: false, message: `Session ${session.id} is not an invoice payment` };
+      }
+      await db.insert(activities).values({
+        reportRequestId: invoice.reportRequestId,
+        activityType: "note_added",
+        description: `Online payment for invoice ${invoice.invoiceNumber} failed (bank payment was declined)`,
+        metadata: JSON.stringify({ invoiceId, checkoutSessionId: session.id }),
+      });
+      return { handled: true, message: `Recorded failed payment for invoice ${invoice.invoiceNumber}` };
+    }
+
+    case "charge.refunded": {
+      const charge = event.data.object;
+      const paymentIntentId = typeof charge.payment_intent === "string" ? charge.payment_intent : charge.payment_intent?.id;
+      if (!paymentIntentId) {
+        return { handled: false, message: `Charge ${charge.id} has no payment intent` };
+      }
+      return recordRefund(db, paymentIntentId, charge.amount_refunded);
+    }
+
+    default:
+      return { handled: false, message: `Ignored ${event.type}` };
+  }
+}
+
+async function recordCheckoutPayment(
+  db: any,
+  invoiceId: number,
+  params: { amount: number; paymentIntentId: string | null; checkoutSessionId: string }
+): Promise<StripeEventResult> {
+  const [invoice] = await db.select().from(invoices).where(eq(invoices.id, invoiceId));
+  if (!invoice?.reportRequestId) {
+    return { handled: false, message: `Invoice ${invoiceId} not found or not linked to a job` };
+  }
+
+  // Stripe retries webhooks; the payment intent id makes recording idempotent
+  if (params.paymentIntentId) {
+    const [existing] = await db.select({ id: payments.id })
+      .from(payments)
+      .where(eq(payments.stripePaymentIntentId, params.paymentIntentId));
+    if (existing) {
+      return { handled: true, message: `Payment ${params.paymentIntentId} already recorded` };
+    }
+  }
+
+  const [payment] = await db.insert(payments).values({
+    reportRequestId: invoice.reportRequestId,
+    invoiceId: invoice.id,
+    amount: params.amount,
+    paymentDate: new Date(),
+    paymentMethod: "credit_card",
+    notes: `Online payment (Stripe) for invoice ${invoice.invoiceNumber}`,
+    stripePaymentIntentId: params.paymentIntentId,
+    stripeCheckoutSessionId: params.checkoutSessionId,
+  }).returning({ id: payments.id });
+
+  const updated = await syncInvoicePayments(db, invoice, params.paymentIntentId);
+  await postPayment(db, payment.id);
+  await postInvoice(db, invoice.id);
+  await syncJobAmountPaid(db, invoice.reportRequestId);
+
+  const remaining = Math.max(0, updated.totalAmount - updated.amountPaid - updated.creditedAmount);
+  await db.insert(activities).values({
+    reportRequestId: invoice.reportRequestId,
+    activityType: "payment_received",
+    description: `Online payment received: ${formatCents(params.amount)} for invoice ${invoice.invoiceNumber}` +
+      (remaining > 0 ? ` (${formatCents(remaining)} still due)` : " (paid in full)"),
+    metadata: JSON.stringify({
+      invoiceId: invoice.id,
+      amount: params.amount,
+      paymentIntentId: params.paymentIntentId,
+      checkoutSessionId: params.checkoutSessionId,
+    }),
+  });
+
+  return { handled: true, message: `Recorded ${formatCents(params.amount)} on invoice ${invoice.invoiceNumber}` };
+}
+
+async function recordRefund(db: any, paymentIntentId: string, amountRefunded: number): Promise<StripeEventResult> {
+  const [payment] = await db.select().from(payments).where(eq(payments.stripePaymentIntentId, paymentIntentId));
+  if (!payment) {
+    return { handled: false, message: `No payment recorded for ${paymentIntentId}` };
+  }
+
+  // amount_refunded is cumulative on the charge, so replays are harmless. Refunds
+  // issued from the app are recorded before Stripe is called and land here as no-ops.
+  const newlyRefunded = amountRefunded - payment.refundedAmount;
+  if (newlyRefunded <= 0) {
+    return { handled: true, message: `Refund on ${paymentIntentId} already recorded` };
+  }
+
+  await db.insert(paymentRefunds).values({
+    paymentId: payment.id,
+    amount: newlyRefunded,
+    refundDate: new Date(),
+    method: "credit_card",
+    reason: "Refunded in Stripe",
+  });
+  await syncPaymentRefunds(db, payment.id);
+  await postPayment(db, payment.id);
+
+  let invoiceNumber: string | null = null;
+  if (payment.invoiceId) {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, payment.invoiceId));
+    if (invoice) {
+      invoiceNumber = invoice.invoiceNumber;
+      await syncInvoicePayments(db, invoice, paymentIntentId);
+    }
+  }
+  await syncJobAmountPaid(db, payment.reportRequestId);
+
+  await db.insert(activities).values({
+    reportRequestId: payment.reportRequestId,
+    activityType: "note_added",
+    description: `Refund issued: ${formatCents(newlyRefunded)}${invoiceNumber ? ` on invoice ${invoiceNumber}` : ""}` +
+      (amountRefunded >= payment.amount ? " (payment fully refunded)" : " (partial refund)"),
+    metadata: JSON.stringify({ paymentId: payment.id, paymentIntentId, amountRefunded }),
+  });
+
+  return { handled: true, message: `Recorded refund of ${formatCents(newlyRefunded)} on ${paymentIntentId}` };
+}
+
+/**
+ * Refund a Stripe payment, in cents. The idempotency key stops a retried
+ * request from refunding twice.
+ */
+export async function createStripeRefund(
+  paymentIntentId: string,
+  amount: number,
+  refundId: number
+): Promise<Stripe.Refund> {
+  return getStripe().refunds.create(
+    {
+      payment_intent: paymentIntentId,
+      amount,
+      metadata: { paymentRefundId: String(refundId) },
+    },
+    { idempotencyKey: `payment-refund-${refundId}` }
+  );
+}
+
+// Set the payment's refunded total from its refund records
+export async function syncPaymentRefunds(db: any, paymentId: number): Promise<number> {
+  const [result] = await db.select({
+    total: sql<number>`COALESCE(SUM(${paymentRefunds.amount}), 0)::int`,
+  })
+  .from(paymentRefunds)
+  .where(eq(paymentRefunds.paymentId, paymentId));
+
+  const refundedAmount = result?.total || 0;
+  await db.update(payments)
+    .set({ refundedAmount, updatedAt: new Date() })
+    .where(eq(payments.id, paymentId));
+  return refundedAmount;
+}
+
+// Recompute the invoice's amount paid and status from its linked payments
+export async function syncInvoicePayments(
+  db: any,
+  invoice: Invoice,
+  paymentReference: string | null,
+  paymentMethod = "credit_card"
+): Promise<Invoice> {
+  const [result] = await db.select({
+    netPaid: sql<number>`COALESCE(SUM(${payments.amount} - ${payments.refundedAmount}), 0)::int`,
+  })
+  .from(payments)
+  .where(eq(payments.invoiceId, invoice.id));
+
+  const netPaid = result?.netPaid || 0;
+  const status = invoiceStatusForPayments(invoice, netPaid);
+
+  const [updated] = await db.update(invoices)
+    .set({
+      amountPaid: netPaid,
+      status,
+      paidDate: status === "paid" ? invoice.paidDate || new Date() : null,
+      paymentMethod: status === "paid" ? paymentMethod : invoice.paymentMethod,
+      paymentReference: status === "paid" ? paymentReference : invoice.paymentReference,
+      updatedAt: new Date(),
+    })
+    .where(eq(invoices.id, invoice.id))
+    .returning();
+
+  return updated;
+}
+
+// Keep the job's running amountPaid (cents) in step with its payments, and
+// mark the job refunded once everything it was paid has gone back
+export async function syncJobAmountPaid(db: any, jobId: number) {
+  const [result] = await db.select({
+    total: sql<number>`COALESCE(SUM(${payments.amount} - ${payments.refundedAmount}), 0)::int`,
+    refunded: sql<number>`COALESCE(SUM(${payments.refundedAmount}), 0)::int`,
+  })
+  .from(payments)
+  .where(eq(payments.reportRequestId, jobId));
+
+  const total = result?.total || 0;
+  await db.update(reportRequests)
+    .set({
+      amountPaid: total,
+      ...(total <= 0 && (result?.refunded || 0) > 0 ? { paymentStatus: "refunded" as const } : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(reportRequests.id, jobId));
+}
@@ -0,0 +1,173 @@
+/**
+ * Insurance Supplement Builder
+ *
+ * Turns scope audit flags (missing O&P, drip edge, underlayment, debris
+ * removal) into priced supplement line items. Quantities come from the job's
+ * roof measurements, less whatever the carrier already scoped.
+ */
+
+import type { ReportRequest } from "../../drizzle/schema";
+import type { AuditResult, ScopeLineItem } from "./insuranceScope";
+
+export type SupplementItemKind = "overhead_profit" | "drip_edge" | "underlayment" | "debris_removal";
+
+export interface SupplementItem {
+  kind?: SupplementItemKind;
+  code: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number; // Dollars, matching the scope line items
+}
+
+export type AuditFlag = AuditResult["audit_flags"][number];
+
+export interface RoofMeasurements {
+  areaSqFt: number;
+  squares: number;
+  eaveRakeLf: number; // Drip edge runs along eaves and rakes
+  source: "manual" | "solar" | "none";
+}
+
+const OVERHEAD_PROFIT_RATE = 0.2; // 10% overhead + 10% profit
+const SQ_METERS_TO_SQ_FT = 10.764;
+
+// Xactimate selectors and default pricing used when the carrier did not price the item
+const ITEM_DEFAULTS: Record<Exclude<SupplementItemKind, "overhead_profit">, Omit<SupplementItem, "quantity">> = {
+  drip_edge: { code: "RFG DRIP", description: "Drip edge", unit: "LF", unitPrice: 3.25 },
+  underlayment: { code: "RFG FELT15", description: "Roofing felt - 15 lb.", unit: "SQ", unitPrice: 38.0 },
+  debris_removal: { code: "DMO DUMP", description: "Dumpster load - approx. 30 yards", unit: "EA", unitPrice: 550.0 },
+};
+
+const FLAG_PATTERNS: { kind: SupplementItemKind; pattern: RegExp }[] = [
+  { kind: "overhead_profit", pattern: /O&P|overhead/i },
+  { kind: "drip_edge", pattern: /drip/i },
+  { kind: "underlayment", pattern: /felt|underlayment/i },
+  { kind: "debris_removal", pattern: /debris|dumpster|haul/i },
+];
+
+const SCOPE_MATCHERS: Record<Exclude<SupplementItemKind, "overhead_profit">, RegExp> = {
+  drip_edge: /drip/i,
+  underlayment: /felt|underlay/i,
+  debris_removal: /debris|dumpster|haul/i,
+};
+
+// Supplement items a flag calls for; one flag may cover several ("Missing Code Items")
+export function classifyAuditFlag(flag: AuditFlag): SupplementItemKind[] {
+  const text = `${flag.issue} ${flag.description}`;
+  return FLAG_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(({ kind }) => kind);
+}
+
+/**
+ * Roof measurements for a job. Manual area overrides the Solar API; linear
+ * footage uses the same perimeter estimate as the Beacon material order.
+ */
+export function getRoofMeasurements(job: Pick<ReportRequest, "manualAreaSqFt" | "solarApiData">): RoofMeasurements {
+  const solarData = job.solarApiData as { totalArea?: number; roofAreaSqMeters?: number } | null;
+  const solarArea = solarData?.totalArea || (solarData?.roofAreaSqMeters ? solarData.roofAreaSqMeters * SQ_METERS_TO_SQ_FT : 0);
+  const areaSqFt = job.manualAreaSqFt || solarArea || 0;
+
+  const estimatedPerimeter = Math.sqrt(areaSqFt) * 4;
+
+  return {
+    areaSqFt: Math.round(areaSqFt),
+    squares: Math.round((areaSqFt / 100) * 100) / 100,
+    eaveRakeLf: Math.round(estimatedPerimeter * 0.8),
+    source: job.manualAreaSqFt ? "manual" : solarArea ? "solar" : "none",
+  };
+}
+
+const scopedQuantity = (scopeLineItems: ScopeLineItem[], pattern: RegExp) =>
+  scopeLineItems
+    .filter(item => pattern.test(`${item.code} ${item.description}`))
+    .reduce((sum, item) => sum + item.quantity, 0);
+
+const scopedUnitPrice = (scopeLineItems: ScopeLineItem[], pattern: RegExp) =>
+  scopeLineItems.find(item => pattern.test(`${item.code} ${item.description}`) && item.unit_price > 0)?.unit_price;
+
+/**
+ * Draft supplement line items for the selected flags.
+ * Items the carrier already scoped in full are dropped.
+ */
+export function draftSupplementItems(params: {
+  flags: AuditFlag[];
+  measurements: RoofMeasurements;
+  scopeLineItems: ScopeLineItem[];
+  carrierRcv: number; // Dollars
+}): SupplementItem[] {
+  const kinds = new Set(params.flags.flatMap(classifyAuditFlag));
+  const items: SupplementItem[] = [];
+
+  for (const kind of ["drip_edge", "underlayment", "debris_removal"] as const) {
+    if (!kinds.has(kind)) continue;
+
+    const defaults = ITEM_DEFAULTS[kind];
+    const needed = kind === "drip_edge" ? params.measurements.eaveRakeLf
+      : kind === "underlayment" ? params.measurements.squares
+      : 1;
+    const quantity = Math.max(0, Math.round((needed - scopedQuantity(params.scopeLineItems, SCOPE_MATCHERS[kind])) * 100) / 100);
+    if (quantity === 0) continue;
+
+    items.push({
+      kind,
+      ...defaults,
+      quantity,
+      unitPrice: scopedUnitPrice(params.scopeLineItems, SCOPE_MATCHERS[kind]) ?? defaults.unitPrice,
+    });
+  }
+
+  // O&P applies to the carrier's total plus everything we are adding
+  if (kinds.has("overhead_profit")) {
+    const base = params.carrierRcv + calculateSupplementTotal(items) / 100;
+    items.push({
+      kind: "overhead_profit",
+      code: "O&P",
+      description: `Overhead & profit (${OVERHEAD_PROFIT_RATE * 100}%)`,
+      quantity: 1,
+      unit: "LS",
+      unitPrice: Math.round(base * OVERHEAD_PROFIT_RATE * 100) / 100,
+    });
+  }
+
+  return items;
+}
+
+// Total of supplement items in cents
+export function calculateSupplementTotal(items: Pick<SupplementItem, "quantity" | "unitPrice">[]): number {
+  return items.reduce((sum, item) => sum + Math.round(item.quantity * item.unitPrice * 100), 0);
+}
+
+export interface SupplementNumberEntry {
+  id: string;
+  description: string;
+  amount: string; // Dollars, as stored by ChangeOrderCard
+}
+
+/**
+ * Add an approved supplement to the job's supplementNumbers JSON.
+ * Legacy plain-text values are kept as the first entry. Returns the new JSON
+ * and the recalculated extras total in dollars.
+ */
+export function appendSupplementNumber(
+  supplementNumbers: string | null,
+  extrasCharged: string | number | null,
+  entry: SupplementNumberEntry
+): { supplementNumbers: string; extrasCharged: number } {
+  let entries: SupplementNumberEntry[] = [];
+  if (supplementNumbers) {
+    try {
+      const parsed = JSON.parse(supplementNumbers);
+      entries = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      entries = [{ id: "1", description: supplementNumbers, amount: String(extrasCharged ?? 0) }];
+    }
+  }
+
+  entries = [...entries.filter(existing => existing.id !== entry.id), entry];
+  const total = entries.reduce((sum, existing) => sum + (parseFloat(existing.amount) || 0), 0);
+
+  return {
+    supplementNumbers: JSON.stringify(entries),
+    extrasCharged: Math.round(total * 100) / 100,
+  };
+}
@@ -0,0 +1,137 @@
+// @ts-ignore - pdfkit types may not be available
+import PDFDocument from 'pdfkit';
+import type { SupplementItem, RoofMeasurements } from './supplementBuilder';
+
+interface SupplementPDFData {
+  supplementNumber: number;
+  letterDate: string;
+  companyName: string;
+  companyPhone?: string | null;
+  companyEmail?: string | null;
+  customerName: string;
+  propertyAddress: string;
+  carrierName: string;
+  claimNumber: string;
+  scopeVersion: number;
+  carrierRcv: number; // Dollars
+  items: SupplementItem[];
+  totalAmount: number; // Dollars
+  measurements: RoofMeasurements;
+  notes?: string;
+  preparedBy: string;
+  photos: { caption: string; data: Buffer }[];
+}
+
+const formatMoney = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export async function generateSupplementPDF(data: SupplementPDFData): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'LETTER', margin: 50 });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    // Letterhead
+    doc.fontSize(16).font('Helvetica-Bold').fillColor('#000000').text(data.companyName);
+    doc.fontSize(9).font('Helvetica').fillColor('#666666');
+    if (data.companyPhone) doc.text(data.companyPhone);
+    if (data.companyEmail) doc.text(data.companyEmail);
+    doc.moveDown(1.5);
+
+    doc.fontSize(10).fillColor('#000000').text(data.letterDate);
+    doc.moveDown(0.5);
+    doc.text(`To: ${data.carrierName} Claims Department`);
+    doc.text(`Re: Supplement Request #${data.supplementNumber}`);
+    doc.text(`Claim Number: ${data.claimNumber}`);
+    doc.text(`Insured: ${data.customerName}`);
+    doc.text(`Property: ${data.propertyAddress}`);
+    doc.moveDown(1);
+
+    doc.text(
+      `On behalf of the insured, we are requesting a supplement to estimate version ${data.scopeVersion} ` +
+      `(RCV ${formatMoney(data.carrierRcv)}). The items below were omitted or under-scoped and are required ` +
+      `to complete the repair to code. Quantities are taken from our roof measurements; photo evidence is attached.`,
+      { align: 'left' }
+    );
+    doc.moveDown(1);
+
+    // Measurements
+    doc.fontSize(12).font('Helvetica-Bold').text('Roof Measurements');
+    doc.moveDown(0.3);
+    doc.fontSize(10).font('Helvetica');
+    doc.text(`Roof area: ${data.measurements.areaSqFt.toLocaleString()} SF (${data.measurements.squares} SQ)`);
+    doc.text(`Eaves and rakes: ${data.measurements.eaveRakeLf.toLocaleString()} LF`);
+    doc.moveDown(1);
+
+    // Line items
+    doc.fontSize(12).font('Helvetica-Bold').text('Requested Line Items');
+    doc.moveDown(0.5);
+
+    const tableTop = doc.y;
+    const colCode = 50;
+    const colDesc = 130;
+    const colQty = 330;
+    const colPrice = 400;
+    const colTotal = 480;
+
+    doc.fontSize(9).font('Helvetica-Bold');
+    doc.text('CODE', colCode, tableTop);
+    doc.text('DESCRIPTION', colDesc, tableTop);
+    doc.text('QTY', colQty, tableTop);
+    doc.text('UNIT PRICE', colPrice, tableTop);
+    doc.text('TOTAL', colTotal, tableTop);
+    doc.moveTo(colCode, tableTop + 15).lineTo(562, tableTop + 15).stroke();
+
+    let currentY = tableTop + 25;
+    doc.font('Helvetica').fontSize(9);
+    for (const item of data.items) {
+      doc.text(item.code, colCode, currentY, { width: 75 });
+      doc.text(item.description, colDesc, currentY, { width: 190 });
+      doc.text(`${item.quantity} ${item.unit}`, colQty, currentY);
+      doc.text(formatMoney(item.unitPrice), colPrice, currentY);
+      doc.text(formatMoney(item.quantity * item.unitPrice), colTotal, currentY);
+      currentY += 22;
+    }
+
+    doc.moveTo(colCode, currentY).lineTo(562, currentY).stroke();
+    doc.font('Helvetica-Bold').fontSize(10);
+    doc.text('SUPPLEMENT TOTAL', colPrice - 70, currentY + 8);
+    doc.text(formatMoney(data.totalAmount), colTotal, currentY + 8);
+    doc.x = 50;
+    doc.y = currentY + 35;
+
+    if (data.notes) {
+      doc.fontSize(12).font('Helvetica-Bold').text('Notes');
+      doc.moveDown(0.3);
+      doc.fontSize(10).font('Helvetica').text(data.notes);
+      doc.moveDown(1);
+    }
+
+    doc.fontSize(10).font('Helvetica').text('Please contact us with any questions regarding this request.');
+    doc.moveDown(1);
+    doc.text('Sincerely,');
+    doc.text(data.preparedBy);
+    doc.text(data.companyName);
+
+    // Photo evidence, two per page
+    data.photos.forEach((photo, index) => {
+      if (index % 2 === 0) {
+        doc.addPage();
+        doc.fontSize(12).font('Helvetica-Bold').text('Photo Evidence');
+        doc.moveDown(0.5);
+      }
+      const top = index % 2 === 0 ? 90 : 420;
+      try {
+        doc.image(photo.data, 50, top, { fit: [512, 290], align: 'center' });
+        doc.fontSize(9).font('Helvetica').text(photo.caption, 50, top + 295, { width: 512, align: 'center' });
+      } catch (error) {
+        console.error(`[SupplementPDF] Skipping unreadable photo ${photo.caption}:`, error);
+      }
+    });
+
+    doc.end();
+  });
+}
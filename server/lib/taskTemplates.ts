@@ -0,0 +1,84 @@
+/**
+ * Task Templates
+ *
+ * Generates checklist tasks when a job enters a pipeline stage. Templates are
+ * scoped to a status and optionally a deal type; each template produces at most
+ * one task per job, so moving a job back and forth never duplicates work.
+ */
+
+import { and, asc, eq, isNotNull } from "drizzle-orm";
+import { taskTemplates, tasks, type ReportRequest, type Task, type TaskTemplate } from "../../drizzle/schema";
+import type { PipelineStatus } from "./pipelineTransitions";
+
+type DealType = NonNullable<ReportRequest["dealType"]>;
+
+// Templates that apply to a job entering `status`, skipping any already generated for it
+export function selectTemplates(
+  templates: TaskTemplate[],
+  status: PipelineStatus,
+  dealType: DealType | null,
+  generatedTemplateIds: Set<number>
+): TaskTemplate[] {
+  return templates
+    .filter(template =>
+      template.isActive &&
+      template.triggerStatus === status &&
+      (!template.dealType || template.dealType === dealType) &&
+      !generatedTemplateIds.has(template.id)
+    )
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.id - b.id);
+}
+
+// Due date relative to the status change, at end of day so same-day tasks are not instantly overdue
+export function getTemplateDueDate(changedAt: Date, dueInDays: number): Date {
+  const dueDate = new Date(changedAt);
+  dueDate.setDate(dueDate.getDate() + dueInDays);
+  dueDate.setHours(23, 59, 59, 0);
+  return dueDate;
+}
+
+/**
+ * Create tasks for every matching template on a job that just changed status.
+ * Returns the tasks that were created (empty when all were generated previously).
+ */
+export async function generateTemplateTasks(
+  db: any,
+  params: {
+    job: Pick<ReportRequest, "id" | "assignedTo">;
+    status: PipelineStatus;
+    dealType: DealType | null;
+    userId: number;
+    changedAt?: Date;
+  }
+): Promise<Task[]> {
+  const templates: TaskTemplate[] = await db.select()
+    .from(taskTemplates)
+    .where(and(eq(taskTemplates.triggerStatus, params.status), eq(taskTemplates.isActive, true)))
+    .orderBy(asc(taskTemplates.sortOrder));
+  if (templates.length === 0) return [];
+
+  const existing = await db.select({ templateId: tasks.templateId })
+    .from(tasks)
+    .where(and(eq(tasks.jobId, params.job.id), isNotNull(tasks.templateId)));
+  const generatedTemplateIds = new Set<number>(existing.map((row: { templateId: number }) => row.templateId));
+
+  const toCreate = selectTemplates(templates, params.status, params.dealType, generatedTemplateIds);
+  if (toCreate.length === 0) return [];
+
+  const changedAt = params.changedAt ?? new Date();
+
+  // The unique (job_id, template_id) constraint guards against concurrent status changes
+  return await db.insert(tasks)
+    .values(toCreate.map(template => ({
+      jobId: params.job.id,
+      title: template.title,
+      description: template.description,
+      assignedTo: template.assignedTo ?? params.job.assignedTo,
+      createdBy: params.userId,
+      priority: template.priority,
+      dueDate: getTemplateDueDate(changedAt, template.dueInDays),
+      templateId: template.id,
+    })))
+    .onConflictDoNothing()
+    .returning();
+}
@@ -0,0 +1,167 @@
+/**
+ * Transaction Categorizer
+ *
+ * Gemini categorization for imported bank transactions, shared by
+ * banking.categorizeBatch and the scheduled categorization job. Suggestions
+ * are written to aiSuggestedCategory alongside the category itself so a
+ * person can see what the model picked and why. Categorization rules are
+ * applied first; only transactions no rule matches are sent to the model.
+ * Transactions with open match suggestions are left for someone to confirm
+ * or reject; categorizing them would reconcile them out of the match queue.
+ */
+
+import { and, eq, sql } from "drizzle-orm";
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { bankTransactions, type BankTransaction } from "../../drizzle/schema";
+import { withoutOpenSuggestions } from "./bankMatcher";
+import { applyRulesToTransactions } from "./categorizationRules";
+import { postBankTransaction } from "./ledger";
+
+const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+
+export interface CategorizeOptions {
+  transactionIds?: number[];
+  limit: number;
+  recategorize: boolean;
+}
+
+export interface CategorizedTransaction {
+  id: number;
+  category: string;
+  confidence: number;
+  reasoning: string;
+  ruleId?: number; // Set when a categorization rule decided instead of the model
+}
+
+export async function categorizeTransactions(db: any, input: CategorizeOptions): Promise<CategorizedTransaction[]> {
+  // Get transactions to categorize
+  let transactions: BankTransaction[];
+  
+  if (input.transactionIds && input.transactionIds.length > 0) {
+    // Use specific transaction IDs if provided
+    const conditions = input.transactionIds.map(id => eq(bankTransactions.id, id));
+    transactions = await db
+      .select()
+      .from(bankTransactions)
+      .where(sql`${bankTransactions.id} IN (${sql.join(input.transactionIds.map(id => sql`${id}`), sql`, `)})`);
+  } else if (input.recategorize) {
+    // Recategorize all pending transactions regardless of current category
+    transactions = await db
+      .select()
+      .from(bankTransactions)
+      .where(and(eq(bankTransactions.status, "pending"), withoutOpenSuggestions()))
+      .limit(input.limit);
+  } else {
+    // Only categorize uncategorized transactions (NULL or empty string)
+    transactions = await db
+      .select()
+      .from(bankTransactions)
+      .where(and(sql`(${bankTransactions.category} IS NULL OR ${bankTransactions.category} = '')`, withoutOpenSuggestions()))
+      .limit(input.limit);
+  }
+
+  // Rules first; they're the user's own word and cost nothing
+  const ruled = await applyRulesToTransactions(db, transactions);
+  const categorized: CategorizedTransaction[] = ruled.map(applied => ({
+    id: applied.id,
+    category: applied.category,
+    confidence: 1,
+    reasoning: `Rule: ${applied.ruleName}`,
+    ruleId: applied.ruleId,
+  }));
+  const ruledIds = new Set(ruled.map(applied => applied.id));
+  transactions = transactions.filter(t => !ruledIds.has(t.id));
+
+  console.log('[AI Categorization] Rules categorized', ruled.length, '- processing', transactions.length, 'with AI');
+  if (transactions.length === 0) return categorized;
+
+  const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
+
+  // Process in batches of 10 for efficiency
+  for (let i = 0; i < transactions.length; i += 10) {
+    const batch = transactions.slice(i, i + 10);
+    
+    const prompt = `You are a financial categorization AI for a roofing company. Categorize these bank transactions.
+
+Available Categories:
+- materials (lumber, shingles, roofing supplies)
+- labor (payroll, contractor payments)
+- equipment (tools, machinery)
+- vehicle (fuel, maintenance, insurance)
+- insurance (business insurance, bonds)
+- utilities (electric, water, internet)
+- marketing (ads, website, SEO)
+- office (supplies, software, rent)
+- professional_services (legal, accounting, consulting)
+- payroll (employee wages, benefits)
+- taxes (income tax, sales tax, property tax)
+- loan_payment (business loans, credit card payments)
+- transfer (internal transfers between accounts)
+- deposit (customer payments, revenue)
+- revenue (sales, income)
+- refund (returns, chargebacks)
+- other (miscellaneous)
+- uncategorized (unable to determine)
+
+Transactions to categorize:
+${batch.map((t, idx) => `${idx + 1}. Amount: $${t.amount}, Description: "${t.description}"`).join('\n')}
+
+Return ONLY valid JSON array in this exact format:
+[
+  {
+    "index": 1,
+    "category": "materials",
+    "confidence": 0.95,
+    "reasoning": "Purchase from roofing supplier"
+  },
+  ...
+]`;
+
+    try {
+      const result = await model.generateContent(prompt);
+      const response = await result.response;
+      const text = response.text();
+      
+      const jsonMatch = text.match(/\[[\s\S]*\]/);
+      if (!jsonMatch) {
+        console.error('[AI Categorization] No JSON found in response');
+        continue;
+      }
+      
+      const categories = JSON.parse(jsonMatch[0]);
+      
+      // Update transactions with AI suggestions
+      for (const cat of categories) {
+        const transaction = batch[cat.index - 1];
+        if (transaction) {
+          await db
+            .update(bankTransactions)
+            .set({
+              category: cat.category,
+              aiSuggestedCategory: cat.category,
+              aiConfidence: cat.confidence,
+              aiReasoning: cat.reasoning,
+              ruleId: null,
+              status: "reconciled",
+            })
+            .where(eq(bankTransactions.id, transaction.id));
+          await postBankTransaction(db, transaction.id);
+          
+          // Auto-bill creation disabled - use CSV import or Match to Bill feature instead
+          // This prevents duplicate bills and gives users more control
+          
+          categorized.push({
+            id: transaction.id,
+            category: cat.category,
+            confidence: cat.confidence,
+            reasoning: cat.reasoning,
+          });
+        }
+      }
+    } catch (error) {
+      console.error('[AI Categorization] Error processing batch:', error);
+    }
+  }
+
+  return categorized;
+}
@@ -0,0 +1,450 @@
+/**
+ * Vendors
+ *
+ * Bills and expenses point at a vendor record (vendor_id) instead of relying
+ * on the free-text vendor_name they were entered with. Names are matched
+ * loosely — case, punctuation and "Inc"/"LLC"/"Co" suffixes are ignored — and
+ * a vendor keeps the names it was merged from as aliases, so "ABC SUPPLY CO"
+ * typed on a new bill lands on "ABC Supply".
+ *
+ * Year-end 1099-NEC totals come from what was actually paid in the calendar
+ * year: paid bills by payment date and expenses by date. Payments made by
+ * card or PayPal/Venmo are left out; the card processor reports those on a
+ * 1099-K. Amounts are cents.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { and, eq, gte, inArray, lt, sql } from "drizzle-orm";
+import { billsPayable, expenses, vendors, type Vendor } from "../../drizzle/schema";
+import { dollarsToCents, postBill, postExpense } from "./ledger";
+
+// ============================================
+// Names
+// ============================================
+
+const COMPANY_SUFFIXES = new Set(["inc", "incorporated", "llc", "llp", "lp", "ltd", "co", "corp", "corporation", "company", "pllc", "pa"]);
+
+/**
+ * Key used to match vendor names: lower case, "&" as "and", punctuation and
+ * trailing company suffixes dropped.
+ */
+export function normalizeVendorName(name: string): string {
+  const words = name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, "")
+    .split(/\s+/)
+    .filter(Boolean);
+  while (words.length > 1 && COMPANY_SUFFIXES.has(words[words.length - 1])) words.pop();
+  return words.join(" ");
+}
+
+type VendorNames = Pick<Vendor, "id" | "name" | "aliases">;
+
+/**
+ * The vendor a free-text name belongs to: an exact name first, then a loose
+ * match on the name or any alias.
+ */
+export function matchVendor<T extends VendorNames>(known: T[], name: string): T | null {
+  const trimmed = name.trim();
+  const exact = known.find(vendor => vendor.name === trimmed);
+  if (exact) return exact;
+
+  const key = normalizeVendorName(trimmed);
+  if (!key) return null;
+  return known.find(vendor =>
+    normalizeVendorName(vendor.name) === key || vendor.aliases.some(alias => normalizeVendorName(alias) === key)
+  ) ?? null;
+}
+
+/**
+ * Groups of vendors that look like the same business — same name once
+ * normalized, or one name is the start of the other ("Abc" and "ABC Supply") —
+ * offered as merge candidates. Each group lists the vendor ids oldest first.
+ */
+export function findLikelyDuplicates(known: VendorNames[]): number[][] {
+  const keyed = known
+    .map(vendor => ({ id: vendor.id, key: normalizeVendorName(vendor.name) }))
+    .filter(vendor => vendor.key.length >= 3)
+    .sort((a, b) => a.id - b.id);
+
+  const groupOf = new Map<number, number[]>();
+  for (let i = 0; i < keyed.length; i++) {
+    for (let j = i + 1; j < keyed.length; j++) {
+      const [a, b] = [keyed[i], keyed[j]];
+      const [shorter, longer] = a.key.length <= b.key.length ? [a.key, b.key] : [b.key, a.key];
+      if (shorter !== longer && !longer.startsWith(`${shorter} `)) continue;
+
+      const group = groupOf.get(a.id) ?? groupOf.get(b.id) ?? [];
+      const other = groupOf.get(b.id);
+      for (const id of other && other !== group ? [...other, a.id] : [a.id, b.id]) {
+        if (!group.includes(id)) group.push(id);
+        groupOf.set(id, group);
+      }
+    }
+  }
+
+  return Array.from(new Set(groupOf.values())).map(group => group.sort((a, b) => a - b));
+}
+
+// ============================================
+// Tax IDs
+// ============================================
+
+/**
+ * Digits of a TIN, or throws if it isn't nine of them.
+ */
+export function normalizeTin(tin: string): string {
+  const digits = tin.replace(/\D/g, "");
+  if (digits.length !== 9) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "A TIN is 9 digits (EIN XX-XXXXXXX or SSN XXX-XX-XXXX)" });
+  }
+  return digits;
+}
+
+export function formatTin(tin: string, tinType: Vendor["tinType"]): string {
+  return tinType === "ssn" ? `${tin.slice(0, 3)}-${tin.slice(3, 5)}-${tin.slice(5)}` : `${tin.slice(0, 2)}-${tin.slice(2)}`;
+}
+
+export function maskTin(tin: string | null, tinType: Vendor["tinType"]): string | null {
+  if (!tin) return null;
+  return tinType === "ssn" ? `***-**-${tin.slice(5)}` : `**-***${tin.slice(5)}`;
+}
+
+/**
+ * A vendor as the app shows it: the TIN masked to its last four digits.
+ */
+export function publicVendor(vendor: Vendor) {
+  const { tin, ...rest } = vendor;
+  return { ...rest, tinMasked: maskTin(tin, vendor.tinType), hasTin: !!tin };
+}
+
+// ============================================
+// 1099-NEC
+// ============================================
+
+/**
+ * Smallest yearly total that needs a 1099-NEC: $600 through 2025, $2,000 for
+ * payments made from 2026 on.
+ */
+export function necReportingThreshold(year: number): number {
+  return year >= 2026 ? 200000 : 60000;
+}
+
+export function isCardPayment(method: string | null): boolean {
+  return !!method && /card|paypal|venmo/i.test(method);
+}
+
+export interface VendorPayment {
+  vendorId: number;
+  amount: number;
+  method: string | null;
+}
+
+export interface Vendor1099Row {
+  vendorId: number;
+  name: string;
+  legalName: string | null;
+  tinType: Vendor["tinType"];
+  tin: string | null;
+  w9OnFile: boolean;
+  addressLine1: string | null;
+  addressLine2: string | null;
+  city: string | null;
+  state: string | null;
+  zipCode: string | null;
+  email: string | null;
+  totalPaid: number;
+  cardPaid: number; // Left off the 1099-NEC
+  reportable: number; // Box 1
+  meetsThreshold: boolean;
+  missing: string[]; // What's needed before the form can be filed
+}
+
+/**
+ * Per-vendor 1099 totals for 1099-eligible vendors with payments in the year,
+ * largest first.
+ */
+export function summarize1099(known: Vendor[], vendorPayments: VendorPayment[], year: number): Vendor1099Row[] {
+  const threshold = necReportingThreshold(year);
+  const totals = new Map<number, { total: number; card: number }>();
+  for (const payment of vendorPayments) {
+    const entry = totals.get(payment.vendorId) ?? { total: 0, card: 0 };
+    entry.total += payment.amount;
+    if (isCardPayment(payment.method)) entry.card += payment.amount;
+    totals.set(payment.vendorId, entry);
+  }
+
+  return known
+    .filter(vendor => vendor.is1099Eligible && totals.has(vendor.id))
+    .map(vendor => {
+      const { total, card } = totals.get(vendor.id)!;
+      const reportable = total - card;
+      const missing = [
+        !vendor.w9OnFile && "W-9",
+        !vendor.tin && "TIN",
+        (!vendor.addressLine1 || !vendor.city || !vendor.state || !vendor.zipCode) && "mailing address",
+      ].filter((item): item is string => !!item);
+
+      return {
+        vendorId: vendor.id,
+        name: vendor.name,
+        legalName: vendor.legalName,
+        tinType: vendor.tinType,
+        tin: vendor.tin,
+        w9OnFile: vendor.w9OnFile,
+        addressLine1: vendor.addressLine1,
+        addressLine2: vendor.addressLine2,
+        city: vendor.city,
+        state: vendor.state,
+        zipCode: vendor.zipCode,
+        email: vendor.email,
+        totalPaid: total,
+        cardPaid: card,
+        reportable,
+        meetsThreshold: reportable >= threshold,
+        missing,
+      };
+    })
+    .sort((a, b) => b.reportable - a.reportable);
+}
+
+const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * One row per vendor at or over the threshold, in the column layout 1099
+ * e-file services import: recipient, TIN, address and Box 1.
+ */
+export function form1099NecCsv(rows: Vendor1099Row[]): string {
+  const lines: string[][] = [[
+    "Recipient Name",
+    "Business Name",
+    "TIN Type",
+    "Recipient TIN",
+    "Address Line 1",
+    "Address Line 2",
+    "City",
+    "State",
+    "ZIP",
+    "Email",
+    "Box 1 Nonemployee Compensation",
+    "W-9 On File",
+  ]];
+
+  for (const row of rows.filter(row => row.meetsThreshold)) {
+    lines.push([
+      row.legalName || row.name,
+      row.legalName && row.legalName !== row.name ? row.name : "",
+      row.tinType ? row.tinType.toUpperCase() : "",
+      row.tin ? formatTin(row.tin, row.tinType) : "",
+      row.addressLine1 ?? "",
+      row.addressLine2 ?? "",
+      row.city ?? "",
+      row.state ?? "",
+      row.zipCode ?? "",
+      row.email ?? "",
+      (row.reportable / 100).toFixed(2),
+      row.w9OnFile ? "Yes" : "No",
+    ]);
+  }
+
+  return lines.map(line => line.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+// ============================================
+// Database
+// ============================================
+
+/**
+ * The vendor id for a name typed on a bill or expense, creating the vendor if
+ * it's new. Pass `known` when resolving many names in a row (imports) so the
+ * vendor list is read once; new vendors are added to it.
+ */
+export async function resolveVendor(
+  db: any,
+  name: string | null | undefined,
+  userId?: number,
+  known?: VendorNames[]
+): Promise<VendorNames | null> {
+  const trimmed = name?.trim();
+  if (!trimmed) return null;
+
+  const list: VendorNames[] = known ?? await db.select({ id: vendors.id, name: vendors.name, aliases: vendors.aliases }).from(vendors);
+  const match = matchVendor(list, trimmed);
+  if (match) return match;
+
+  const [created] = await db
+    .insert(vendors)
+    .values({ name: trimmed, createdBy: userId })
+    .onConflictDoUpdate({ target: vendors.name, set: { updatedAt: new Date() } })
+    .returning({ id: vendors.id, name: vendors.name, aliases: vendors.aliases });
+  list.push(created);
+  return created;
+}
+
+/**
+ * Throws if another vendor already goes by this name.
+ */
+export async function assertVendorNameFree(db: any, name: string, exceptId?: number) {
+  const known: VendorNames[] = await db.select({ id: vendors.id, name: vendors.name, aliases: vendors.aliases }).from(vendors);
+  const match = matchVendor(known.filter(vendor => vendor.id !== exceptId), name);
+  if (match) {
+    throw new TRPCError({ code: "CONFLICT", message: `"${name}" is already a vendor (${match.name})` });
+  }
+}
+
+/**
+ * Vendors with how much has been billed and spent with each, for the vendor list.
+ */
+export async function listVendors(db: any) {
+  const rows: Vendor[] = await db.select().from(vendors).orderBy(vendors.name);
+
+  const billTotals = await db
+    .select({
+      vendorId: billsPayable.vendorId,
+      count: sql<number>`COUNT(*)`,
+      total: sql<string>`COALESCE(SUM(${billsPayable.totalAmount}), 0)`,
+    })
+    .from(billsPayable)
+    .where(sql`${billsPayable.vendorId} IS NOT NULL AND ${billsPayable.status} <> 'cancelled'`)
+    .groupBy(billsPayable.vendorId);
+  const expenseTotals = await db
+    .select({
+      vendorId: expenses.vendorId,
+      count: sql<number>`COUNT(*)`,
+      total: sql<string>`COALESCE(SUM(${expenses.amount}), 0)`,
+    })
+    .from(expenses)
+    .where(sql`${expenses.vendorId} IS NOT NULL`)
+    .groupBy(expenses.vendorId);
+
+  const activity = new Map<number, { billCount: number; expenseCount: number; totalSpent: number }>();
+  const entry = (vendorId: number) => {
+    if (!activity.has(vendorId)) activity.set(vendorId, { billCount: 0, expenseCount: 0, totalSpent: 0 });
+    return activity.get(vendorId)!;
+  };
+  for (const row of billTotals) {
+    entry(row.vendorId).billCount = Number(row.count);
+    entry(row.vendorId).totalSpent += dollarsToCents(row.total);
+  }
+  for (const row of expenseTotals) {
+    entry(row.vendorId).expenseCount = Number(row.count);
+    entry(row.vendorId).totalSpent += dollarsToCents(row.total);
+  }
+
+  return {
+    vendors: rows.map(vendor => ({
+      ...publicVendor(vendor),
+      ...(activity.get(vendor.id) ?? { billCount: 0, expenseCount: 0, totalSpent: 0 }),
+    })),
+    likelyDuplicates: findLikelyDuplicates(rows),
+  };
+}
+
+/**
+ * Fold `sourceIds` into `targetId`: their bills and expenses move over (and
+ * take the target's name), their names become aliases, details the target is
+ * missing are copied across, and the source vendors are deleted. Moved bills
+ * and expenses are re-posted so ledger memos show the new name.
+ */
+export async function mergeVendors(db: any, targetId: number, sourceIds: number[]) {
+  const ids = Array.from(new Set(sourceIds.filter(id => id !== targetId)));
+  if (ids.length === 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Pick at least one other vendor to merge" });
+  }
+
+  const [target]: Vendor[] = await db.select().from(vendors).where(eq(vendors.id, targetId));
+  if (!target) throw new TRPCError({ code: "NOT_FOUND", message: "Vendor not found" });
+  const sources: Vendor[] = await db.select().from(vendors).where(inArray(vendors.id, ids));
+  if (sources.length !== ids.length) throw new TRPCError({ code: "NOT_FOUND", message: "Vendor not found" });
+
+  const targetKey = normalizeVendorName(target.name);
+  const aliases = [...target.aliases];
+  for (const name of sources.flatMap(source => [source.name, ...source.aliases])) {
+    const key = normalizeVendorName(name);
+    if (key !== targetKey && !aliases.some(alias => normalizeVendorName(alias) === key)) aliases.push(name);
+  }
+
+  const fill = <K extends keyof Vendor>(field: K): Vendor[K] =>
+    target[field] ?? sources.find(source => source[field] !== null)?.[field] ?? target[field];
+  const tinSource = target.tin ? target : sources.find(source => source.tin);
+
+  const { movedBills, movedExpenses } = await db.transaction(async (tx: any) => {
+    const movedBills: Array<{ id: number }> = await tx
+      .update(billsPayable)
+      .set({ vendorId: targetId, vendorName: target.name, updatedAt: new Date() })
+      .where(inArray(billsPayable.vendorId, ids))
+      .returning({ id: billsPayable.id });
+    const movedExpenses: Array<{ id: number }> = await tx
+      .update(expenses)
+      .set({ vendorId: targetId, vendorName: target.name, updatedAt: new Date() })
+      .where(inArray(expenses.vendorId, ids))
+      .returning({ id: expenses.id });
+
+    await tx.delete(vendors).where(inArray(vendors.id, ids));
+    await tx
+      .update(vendors)
+      .set({
+        aliases,
+        contactName: fill("contactName"),
+        email: fill("email"),
+        phone: fill("phone"),
+        addressLine1: target.addressLine1 ? target.addressLine1 : fill("addressLine1"),
+        addressLine2: target.addressLine1 ? target.addressLine2 : fill("addressLine2"),
+        city: target.addressLine1 ? target.city : fill("city"),
+        state: target.addressLine1 ? target.state : fill("state"),
+        zipCode: target.addressLine1 ? target.zipCode : fill("zipCode"),
+        legalName: fill("legalName"),
+        tin: tinSource?.tin ?? null,
+        tinType: tinSource?.tinType ?? null,
+        w9OnFile: target.w9OnFile || sources.some(source => source.w9OnFile),
+        w9ReceivedAt: fill("w9ReceivedAt"),
+        is1099Eligible: target.is1099Eligible || sources.some(source => source.is1099Eligible),
+        defaultCategory: fill("defaultCategory"),
+        notes: [target.notes, ...sources.map(source => source.notes)].filter(Boolean).join("\n") || null,
+        updatedAt: new Date(),
+      })
+      .where(eq(vendors.id, targetId));
+
+    return { movedBills, movedExpenses };
+  });
+
+  for (const bill of movedBills) await postBill(db, bill.id);
+  for (const expense of movedExpenses) await postExpense(db, expense.id);
+
+  return { merged: ids.length, bills: movedBills.length, expenses: movedExpenses.length };
+}
+
+/**
+ * 1099-NEC totals for a calendar year.
+ */
+export async function get1099Report(db: any, year: number) {
+  const from = new Date(year, 0, 1);
+  const to = new Date(year + 1, 0, 1);
+
+  const eligible: Vendor[] = await db.select().from(vendors).where(eq(vendors.is1099Eligible, true));
+  const eligibleIds = eligible.map(vendor => vendor.id);
+  if (eligibleIds.length === 0) return { year, threshold: necReportingThreshold(year), rows: [] as Vendor1099Row[] };
+
+  const paidBills = await db
+    .select({ vendorId: billsPayable.vendorId, amount: billsPayable.totalAmount, method: billsPayable.paymentMethod })
+    .from(billsPayable)
+    .where(and(
+      inArray(billsPayable.vendorId, eligibleIds),
+      eq(billsPayable.status, "paid"),
+      gte(billsPayable.paymentDate, from),
+      lt(billsPayable.paymentDate, to)
+    ));
+  const paidExpenses = await db
+    .select({ vendorId: expenses.vendorId, amount: expenses.amount, method: expenses.paymentMethod })
+    .from(expenses)
+    .where(and(inArray(expenses.vendorId, eligibleIds), gte(expenses.date, from), lt(expenses.date, to)));
+
+  const vendorPayments: VendorPayment[] = [...paidBills, ...paidExpenses].map(row => ({
+    vendorId: row.vendorId,
+    amount: dollarsToCents(row.amount),
+    method: row.method,
+  }));
+
+  return { year, threshold: necReportingThreshold(year), rows: summarize1099(eligible, vendorPayments, year) };
+}
@@ -6,8 +6,8 @@
  * 
  * Router Organization:
  * - Core System: system, auth
- * - CRM & Jobs: crm (jobs), leads, activities, documents
- * - Customer-Facing: portal, proposals, estimates, report
+ * - CRM & Jobs: crm (jobs), leads, activities, documents, tasks, taskTemplates
+ * - Customer-Facing: portal, proposals, estimates, supplements, report
  * - Finance: invoices, commissions, materials, products
  * - Team: users, messaging, events, analytics
  * - Integrations: ai, solar
@@ -39,13 +39,26 @@ import { commissionsRouter } from "./api/routers/commissions";
 import { leadsRouter } from "./api/routers/leads";
 import { eventsRouter } from "./api/routers/events";
 import { paymentsRouter } from "./api/routers/payments";
+import { creditMemosRouter } from "./api/routers/creditMemos";
 import { bankingRouter } from "./api/routers/banking";
 import { bankAccountsRouter } from "./api/routers/bankAccounts";
+import { categorizationRulesRouter } from "./api/routers/categorizationRules";
+import { jobCostingRouter } from "./api/routers/jobCosting";
+import { salesTaxRouter } from "./api/routers/salesTax";
 import { inventoryRouter } from "./api/routers/inventory";
 import { billsRouter } from "./api/routers/bills";
+import { vendorsRouter } from "./api/routers/vendors";
+import { billApprovalsRouter } from "./api/routers/billApprovals";
+import { budgetsRouter } from "./api/routers/budgets";
 import { reportsRouter } from "./api/routers/reports";
 import { expensesRouter } from "./api/routers/expenses";
 import { changeOrdersRouter } from "./api/routers/changeOrders";
+import { tasksRouter } from "./api/routers/tasks";
+import { taskTemplatesRouter } from "./api/routers/taskTemplates";
+import { supplementsRouter } from "./api/routers/supplements";
+import { billingSchedulesRouter } from "./api/routers/billingSchedules";
+import { schedulerRouter } from "./api/routers/scheduler";
+import { ledgerRouter } from "./api/routers/ledger";
 
 export const appRouter = router({
   // Core System
@@ -57,23 +70,35 @@ export const appRouter = router({
   leads: leadsRouter,
   activities: activitiesRouter,
   documents: documentsRouter,
+  tasks: tasksRouter,
+  taskTemplates: taskTemplatesRouter,
   
   // Customer-Facing
   portal: portalRouter,
   proposals: proposalsRouter,
   estimates: estimatesRouter,
+  supplements: supplementsRouter,
   report: reportRouter,
   
   // Finance & Operations
   invoices: invoicesRouter,
   changeOrders: changeOrdersRouter,
+  billingSchedules: billingSchedulesRouter,
+  ledger: ledgerRouter,
   expenses: expensesRouter,
   commissions: commissionsRouter,
   payments: paymentsRouter,
+  creditMemos: creditMemosRouter,
   banking: bankingRouter,
   bankAccounts: bankAccountsRouter,
+  categorizationRules: categorizationRulesRouter,
+  jobCosting: jobCostingRouter,
+  salesTax: salesTaxRouter,
   inventory: inventoryRouter,
   bills: billsRouter,
+  vendors: vendorsRouter,
+  billApprovals: billApprovalsRouter,
+  budgets: budgetsRouter,
   reports: reportsRouter,
   materials: materialsRouter,
   products: productsRouter,
@@ -90,6 +115,7 @@ export const appRouter = router({
   
   // Infrastructure
   utility: utilityRouter,
+  scheduler: schedulerRouter,
 });
 
 export type AppRouter = typeof appRouter;
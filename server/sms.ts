@@ -57,3 +57,26 @@ ${params.customerName}
     return false;
   }
 }
+
+/**
+ * Send an SMS to a customer (portal codes and links, reminders)
+ */
+export async function sendSMS(to: string, body: string): Promise<boolean> {
+  if (!twilioClient || !twilioPhoneNumber) {
+    console.log("[SMS] Twilio not configured, skipping SMS to", to);
+    return false;
+  }
+
+  try {
+    const digits = to.replace(/\D/g, "");
+    await twilioClient.messages.create({
+      body,
+      from: twilioPhoneNumber,
+      to: digits.length === 10 ? `+1${digits}` : `+${digits}`,
+    });
+    return true;
+  } catch (error) {
+    console.error("[SMS] Failed to send message:", error);
+    return false;
+  }
+}